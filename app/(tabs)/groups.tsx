@@ -30,6 +30,8 @@ import { OfflinePlaceholder } from '../../components/ui/OfflinePlaceholder';
 import { GroupsListSkeleton } from '../../components/ui/SkeletonLoader';
 import NetInfo from '@react-native-community/netinfo';
 import { mediaService } from '../../services/microservices/mediaService';
+import { ActivityFeedList } from '../../components/social/ActivityFeedList';
+import { useFriendsStore } from '../../stores/friendsStore';
 
 export default function GroupsScreen() {
   const { user } = useAuth();
@@ -46,6 +48,8 @@ export default function GroupsScreen() {
   const [expandedDescriptions, setExpandedDescriptions] = useState<Set<string>>(new Set());
   const loadingRef = useRef(false); // Guard against concurrent loadGroups calls
   const hasLoadedOnce = useRef(false); // Track if initial data load is done
+  const [activeSection, setActiveSection] = useState<'groups' | 'activity'>('groups');
+  const incomingFriendRequests = useFriendsStore((state) => state.incomingRequests.length);
 
   // Modals
   const [showCreateModal, setShowCreateModal] = useState(false);
@@ -75,6 +79,8 @@ export default function GroupsScreen() {
   useFocusEffect(
     useCallback(() => {
       loadGroups();
+      // Keeps the pending friend request badge current
+      useFriendsStore.getState().loadAll().catch(() => {});
     }, [])
   );
 
@@ -155,7 +161,7 @@ export default function GroupsScreen() {
       const myGroupsWithCounts = await Promise.all(
         myGroupsData.groups.map(async (group) => {
           try {
-            const membersData = await socialService.getGroupMembers(group.id, 1, 1);
+            const membersData = await socialService.getGroupMembers(group.id, 1, 1, { priority: 'background' });
             return {
               ...group,
               memberCount: membersData.total || group.memberCount
@@ -170,7 +176,7 @@ export default function GroupsScreen() {
       const publicGroupsWithCounts = await Promise.all(
         publicGroupsData.groups.map(async (group) => {
           try {
-            const membersData = await socialService.getGroupMembers(group.id, 1, 1);
+            const membersData = await socialService.getGroupMembers(group.id, 1, 1, { priority: 'background' });
             return {
               ...group,
               memberCount: membersData.total || group.memberCount
@@ -330,6 +336,25 @@ export default function GroupsScreen() {
         </TouchableOpacity>
       </View>
 
+      {/* Groups | Activity switch */}
+      <View style={styles.segmentContainer}>
+        {(['groups', 'activity'] as const).map((section) => (
+          <TouchableOpacity
+            key={section}
+            style={[styles.segmentButton, activeSection === section && styles.segmentButtonActive]}
+            onPress={() => setActiveSection(section)}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.segmentText, activeSection === section && styles.segmentTextActive]}>
+              {section === 'groups' ? 'Groups' : 'Activity'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {activeSection === 'activity' ? (
+        <ActivityFeedList />
+      ) : (
       <ScrollView
         style={styles.scrollView}
         contentContainerStyle={styles.scrollContent}
@@ -363,6 +388,59 @@ export default function GroupsScreen() {
           </TouchableOpacity>
         </View>
 
+        {/* Challenges */}
+        <TouchableOpacity
+          style={styles.challengesCard}
+          onPress={() => router.push('/challenges')}
+          activeOpacity={0.7}
+        >
+          <View style={[styles.quickActionIcon, styles.challengesIcon]}>
+            <Ionicons name="flag" size={24} color={COLORS.WARNING[600]} />
+          </View>
+          <View style={styles.challengesInfo}>
+            <Text style={[styles.quickActionTitle, styles.challengesText]}>Challenges</Text>
+            <Text style={[styles.quickActionSubtitle, styles.challengesText]}>Compete, track progress and climb the leaderboard</Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color={COLORS.SECONDARY[400]} />
+        </TouchableOpacity>
+
+        {/* Friends */}
+        <TouchableOpacity
+          style={styles.challengesCard}
+          onPress={() => router.push('/friends')}
+          activeOpacity={0.7}
+        >
+          <View style={[styles.quickActionIcon, styles.challengesIcon, styles.friendsIcon]}>
+            <Ionicons name="people-circle" size={24} color={COLORS.PRIMARY[600]} />
+          </View>
+          <View style={styles.challengesInfo}>
+            <Text style={[styles.quickActionTitle, styles.challengesText]}>Friends</Text>
+            <Text style={[styles.quickActionSubtitle, styles.challengesText]}>See who is online and manage friend requests</Text>
+          </View>
+          {incomingFriendRequests > 0 && (
+            <View style={styles.friendsBadge}>
+              <Text style={styles.friendsBadgeText}>{incomingFriendRequests}</Text>
+            </View>
+          )}
+          <Ionicons name="chevron-forward" size={20} color={COLORS.SECONDARY[400]} />
+        </TouchableOpacity>
+
+        {/* Community Workouts */}
+        <TouchableOpacity
+          style={styles.challengesCard}
+          onPress={() => router.push('/shared-workouts')}
+          activeOpacity={0.7}
+        >
+          <View style={[styles.quickActionIcon, styles.challengesIcon, styles.sharedWorkoutsIcon]}>
+            <Ionicons name="albums" size={24} color={COLORS.SUCCESS[600]} />
+          </View>
+          <View style={styles.challengesInfo}>
+            <Text style={[styles.quickActionTitle, styles.challengesText]}>Community Workouts</Text>
+            <Text style={[styles.quickActionSubtitle, styles.challengesText]}>Try, review and discuss workouts others have shared</Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color={COLORS.SECONDARY[400]} />
+        </TouchableOpacity>
+
         {/* My Groups */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
@@ -555,6 +633,7 @@ export default function GroupsScreen() {
           )}
         </View>
       </ScrollView>
+      )}
 
       {/* Join by Code Modal */}
       <Modal
@@ -660,6 +739,33 @@ const styles = StyleSheet.create({
   createButton: {
     padding: 8,
   },
+  segmentContainer: {
+    flexDirection: 'row',
+    backgroundColor: 'white',
+    paddingHorizontal: 24,
+    paddingBottom: 12,
+    gap: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  segmentButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 10,
+    alignItems: 'center',
+    backgroundColor: '#F3F4F6',
+  },
+  segmentButtonActive: {
+    backgroundColor: COLORS.PRIMARY[600],
+  },
+  segmentText: {
+    fontSize: 14,
+    fontFamily: FONTS.SEMIBOLD,
+    color: '#4B5563',
+  },
+  segmentTextActive: {
+    color: 'white',
+  },
   scrollView: {
     flex: 1,
   },
@@ -705,6 +811,52 @@ const styles = StyleSheet.create({
     color: COLORS.SECONDARY[500],
     textAlign: 'center',
   },
+  challengesCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 24,
+    marginTop: 12,
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  challengesIcon: {
+    backgroundColor: COLORS.WARNING[100],
+    marginBottom: 0,
+    marginRight: 12,
+  },
+  challengesInfo: {
+    flex: 1,
+  },
+  friendsIcon: {
+    backgroundColor: COLORS.PRIMARY[100],
+  },
+  sharedWorkoutsIcon: {
+    backgroundColor: COLORS.SUCCESS[100],
+  },
+  friendsBadge: {
+    minWidth: 22,
+    height: 22,
+    borderRadius: 11,
+    paddingHorizontal: 6,
+    backgroundColor: COLORS.ERROR[500],
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  friendsBadgeText: {
+    fontSize: 12,
+    fontFamily: FONTS.BOLD,
+    color: 'white',
+  },
+  challengesText: {
+    textAlign: 'left',
+  },
   section: {
     marginTop: 32,
     paddingHorizontal: 24,
@@ -24,7 +24,10 @@ import { trackingService } from '../../services/microservices/trackingService';
 import { commsService } from '../../services/microservices/commsService';
 import { generateTabataSession } from '../../services/workoutSessionGenerator';
 import { useAchievementStore } from '../../stores/achievementStore';
+import { useMessagesStore } from '../../stores/messagesStore';
+import { MESSAGING_ENABLED } from '../../constants/messages';
 import { useNetwork } from '../../contexts/NetworkContext';
+import { useSoloSessionRecovery } from '../../hooks/useSoloSessionRecovery';
 import { OfflinePlaceholder } from '../../components/ui/OfflinePlaceholder';
 import { DashboardSkeleton } from '../../components/ui/SkeletonLoader';
 import NetInfo from '@react-native-community/netinfo';
@@ -49,6 +52,7 @@ export default function HomeScreen() {
   const { isConnected } = useNetwork();
   const { getUserStats, getUserAchievements } = useEngagementService();
   const { unreadCount } = useNotifications();
+  const unreadMessages = useMessagesStore((state) => state.unreadTotal);
   const { getTodayExercises } = usePlanningService();
 
   // Use centralized progress store
@@ -92,6 +96,9 @@ export default function HomeScreen() {
     loadDashboardData();
   }, []);
 
+  // Offer to resume a solo workout that was cut short by the app being killed
+  useSoloSessionRecovery();
+
   // Auto-recovery: when connection returns, refresh data
   useEffect(() => {
     if (isConnected && !loadingRef.current) {
@@ -110,6 +117,9 @@ export default function HomeScreen() {
           if (!state.isConnected) return;
           console.log('🔄 [DASHBOARD] Screen focused - refreshing progress from store');
           fetchAllProgressData(user.id);
+          if (MESSAGING_ENABLED) {
+            useMessagesStore.getState().refreshUnreadCount().catch(() => {});
+          }
           checkTodayWorkoutCompletion();
           checkWeeklyAssessmentStatus();
           checkCompletedDays();
@@ -669,20 +679,38 @@ export default function HomeScreen() {
       {/* Fixed Header */}
       <View style={styles.fixedHeader}>
         <Text style={styles.headerTitle}>Dashboard</Text>
-        <TouchableOpacity
-          style={styles.notificationButton}
-          onPress={() => router.push('/notifications')}
-          activeOpacity={0.7}
-        >
-          <Ionicons name="notifications-outline" size={24} color="#111827" />
-          {unreadCount > 0 && (
-            <View style={styles.notificationBadge}>
-              <Text style={styles.notificationBadgeText}>
-                {unreadCount > 9 ? '9+' : unreadCount}
-              </Text>
-            </View>
+        <View style={styles.headerActions}>
+          {MESSAGING_ENABLED && (
+            <TouchableOpacity
+              style={styles.notificationButton}
+              onPress={() => router.push('/messages')}
+              activeOpacity={0.7}
+            >
+              <Ionicons name="chatbubbles-outline" size={24} color="#111827" />
+              {unreadMessages > 0 && (
+                <View style={styles.notificationBadge}>
+                  <Text style={styles.notificationBadgeText}>
+                    {unreadMessages > 9 ? '9+' : unreadMessages}
+                  </Text>
+                </View>
+              )}
+            </TouchableOpacity>
           )}
-        </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.notificationButton}
+            onPress={() => router.push('/notifications')}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="notifications-outline" size={24} color="#111827" />
+            {unreadCount > 0 && (
+              <View style={styles.notificationBadge}>
+                <Text style={styles.notificationBadgeText}>
+                  {unreadCount > 9 ? '9+' : unreadCount}
+                </Text>
+              </View>
+            )}
+          </TouchableOpacity>
+        </View>
       </View>
 
       <ScrollView
@@ -1197,6 +1225,11 @@ const styles = StyleSheet.create({
     fontFamily: FONTS.BOLD,
     color: '#111827',
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
   notificationButton: {
     padding: 8,
     borderRadius: 20,
@@ -17,8 +17,12 @@ import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
 import { useAuth } from '../../contexts/AuthContext';
 import { useNetwork } from '../../contexts/NetworkContext';
 import { OfflinePlaceholder } from '../../components/ui/OfflinePlaceholder';
+import { PendingSyncBadge } from '../../components/ui/PendingSyncBadge';
 import NetInfo from '@react-native-community/netinfo';
 import { useProgressStore } from '../../stores/progressStore';
+import { useGoalsStore } from '../../stores/goalsStore';
+import { GoalProgressCard } from '../../components/goals/GoalProgressCard';
+import { getGoalPercentage } from '../../utils/goalProjection';
 import { authService } from '../../services/microservices/authService';
 import ProgressionCard from '../../components/ProgressionCard';
 import { progressionService } from '../../services/microservices/progressionService';
@@ -79,6 +83,10 @@ export default function ProgressScreen() {
     fetchAllProgressData,
   } = useProgressStore();
 
+  const goals = useGoalsStore((state) => state.goals);
+  const goalWeightHistory = useGoalsStore((state) => state.weightHistory);
+  const hasLoadedGoals = useGoalsStore((state) => state.hasLoaded);
+
   const [refreshing, setRefreshing] = useState(false);
   const [fitnessLevel, setFitnessLevel] = useState(user?.fitnessLevel || 'beginner');
   const [engagementStreak, setEngagementStreak] = useState(0);
@@ -144,6 +152,9 @@ export default function ProgressScreen() {
 
       setEngagementStreak(engagementStats?.current_streak_days || 0);
 
+      // Keep goal progress in step with the history the store just fetched
+      useGoalsStore.getState().syncProgress(user.id, useProgressStore.getState().workoutHistory).catch(() => {});
+
       // Build achievement previews (same pattern as user-profile page)
       const unlockedIds = new Set(
         userAchievements.filter(ua => ua.is_completed).map(ua => ua.achievement_id)
@@ -240,10 +251,16 @@ export default function ProgressScreen() {
 
   const levelInfo = getFitnessLevelInfo();
 
+  // Unfinished active goals, nearest deadline first
+  const activeGoals = goals
+    .filter((goal) => goal.isActive && getGoalPercentage(goal) < 100)
+    .sort((a, b) => new Date(a.targetDate).getTime() - new Date(b.targetDate).getTime());
+
   // Show offline placeholder on ANY screen state when there's no internet
   if (!isConnected) {
     return (
       <SafeAreaView style={styles.container} edges={['top']}>
+        <PendingSyncBadge style={styles.offlineSyncBadge} />
         <OfflinePlaceholder onRetry={loadProgressData} />
       </SafeAreaView>
     );
@@ -277,6 +294,8 @@ export default function ProgressScreen() {
           <View>
             <Text style={styles.headerTitle}>Your Progress</Text>
             <Text style={styles.headerSubtitle}>Track your fitness journey</Text>
+            {/* Workouts saved offline that the server hasn't confirmed yet */}
+            <PendingSyncBadge style={styles.syncBadge} />
           </View>
           <View style={styles.levelBadge}>
             <Image source={levelInfo.image} style={styles.levelBadgeImage} />
@@ -325,11 +344,89 @@ export default function ProgressScreen() {
         {/* Progression Card */}
         <ProgressionCard overrideLevel={fitnessLevel} />
 
+        {/* Goals */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Ionicons name="flag" size={20} color={COLORS.PRIMARY[600]} />
+            <Text style={styles.sectionTitle}>Goals</Text>
+            {goals.length > 0 && (
+              <TouchableOpacity
+                style={styles.viewAllButton}
+                onPress={() => router.push('/goals')}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.viewAllText}>View All</Text>
+                <Ionicons name="chevron-forward" size={14} color={COLORS.PRIMARY[600]} />
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {activeGoals.length > 0 ? (
+            <View style={styles.goalList}>
+              {activeGoals.slice(0, 2).map((goal) => (
+                <GoalProgressCard
+                  key={goal.id}
+                  goal={goal}
+                  weightHistory={goalWeightHistory}
+                  onPress={() => router.push(`/goals/${goal.id}`)}
+                />
+              ))}
+            </View>
+          ) : hasLoadedGoals ? (
+            <TouchableOpacity style={styles.goalEmptyCard} onPress={() => router.push('/goals/create')} activeOpacity={0.7}>
+              <Ionicons name="add-circle" size={28} color={COLORS.PRIMARY[600]} />
+              <View style={{ flex: 1 }}>
+                <Text style={styles.goalEmptyTitle}>Set a goal</Text>
+                <Text style={styles.goalEmptyText}>Track weight, endurance or consistency with milestones</Text>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color={COLORS.SECONDARY[400]} />
+            </TouchableOpacity>
+          ) : null}
+        </View>
+
+        {/* Body Journal */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Ionicons name="body" size={20} color={COLORS.PRIMARY[600]} />
+            <Text style={styles.sectionTitle}>Body Journal</Text>
+          </View>
+
+          <TouchableOpacity style={styles.journalCard} onPress={() => router.push('/body-journal')} activeOpacity={0.7}>
+            <View style={styles.journalIcon}>
+              <Ionicons name="scale" size={22} color="#3B82F6" />
+            </View>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.goalEmptyTitle}>Weight, body fat & measurements</Text>
+              <Text style={styles.goalEmptyText}>Log entries and follow your trends against BMI bands</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color={COLORS.SECONDARY[400]} />
+          </TouchableOpacity>
+
+          <TouchableOpacity style={[styles.journalCard, { marginTop: 12 }]} onPress={() => router.push('/progress-photos')} activeOpacity={0.7}>
+            <View style={[styles.journalIcon, { backgroundColor: '#EDE9FE' }]}>
+              <Ionicons name="camera" size={22} color="#8B5CF6" />
+            </View>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.goalEmptyTitle}>Progress photos</Text>
+              <Text style={styles.goalEmptyText}>Private, encrypted photos with before/after comparison</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color={COLORS.SECONDARY[400]} />
+          </TouchableOpacity>
+        </View>
+
         {/* Quick Stats Grid */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
             <Ionicons name="bar-chart" size={20} color={COLORS.PRIMARY[600]} />
             <Text style={styles.sectionTitle}>Quick Stats</Text>
+            <TouchableOpacity
+              style={styles.viewAllButton}
+              onPress={() => router.push('/analytics')}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.viewAllText}>Analytics</Text>
+              <Ionicons name="chevron-forward" size={14} color={COLORS.PRIMARY[600]} />
+            </TouchableOpacity>
           </View>
 
           <View style={styles.statsGrid}>
@@ -491,6 +588,13 @@ const styles = StyleSheet.create({
     color: COLORS.SECONDARY[600],
     marginTop: 2,
   },
+  syncBadge: {
+    marginTop: 6,
+  },
+  offlineSyncBadge: {
+    marginTop: 16,
+    marginLeft: 20,
+  },
   levelBadge: {
     width: 56,
     height: 56,
@@ -600,6 +704,52 @@ const styles = StyleSheet.create({
     fontFamily: FONTS.SEMIBOLD,
     color: COLORS.PRIMARY[600],
   },
+  goalList: {
+    gap: 12,
+  },
+  goalEmptyCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1.5,
+    borderStyle: 'dashed',
+    borderColor: COLORS.PRIMARY[200],
+    backgroundColor: COLORS.PRIMARY[50],
+  },
+  journalCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+    borderRadius: 16,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  journalIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#DBEAFE',
+  },
+  goalEmptyTitle: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  goalEmptyText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 2,
+  },
   statsGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
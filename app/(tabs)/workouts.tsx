@@ -19,6 +19,7 @@ import { usePlanningService } from '../../hooks/api/usePlanningService';
 import { trackingService } from '../../services/microservices/trackingService';
 import { mlService } from '../../services/microservices/mlService';
 import { WorkoutSetModal } from '../../components/workout/WorkoutSetModal';
+import { IntervalTimerConfig, INTERVAL_PRESETS, INTERVAL_PROTOCOL_LABELS } from '../../services/intervalTimerEngine';
 import { COLORS, FONTS } from '../../constants/colors';
 import { useNetwork } from '../../contexts/NetworkContext';
 import { OfflinePlaceholder } from '../../components/ui/OfflinePlaceholder';
@@ -40,6 +41,7 @@ export default function WorkoutsScreen() {
   const [isLoading, setIsLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [showWorkoutSetModal, setShowWorkoutSetModal] = useState(false);
+  const [timerConfig, setTimerConfig] = useState<IntervalTimerConfig>(INTERVAL_PRESETS.tabata);
   const [currentWorkoutSet, setCurrentWorkoutSet] = useState<any>(null);
   const [isTodayWorkoutCompleted, setIsTodayWorkoutCompleted] = useState(false);
   const [completedSessionCount, setCompletedSessionCount] = useState(0); // For progressive overload
@@ -233,7 +235,7 @@ export default function WorkoutsScreen() {
 
     const session = {
       session_id: `tabata_${user.id}_${Date.now()}`,
-      session_name: 'Tabata Workout',
+      session_name: `${INTERVAL_PROTOCOL_LABELS[timerConfig.protocol]} Workout`,
       difficulty_level: currentWorkoutSet.difficulty || user.fitnessLevel || 'beginner',
       total_exercises: currentWorkoutSet.exercises.length,
       total_duration_minutes: currentWorkoutSet.total_duration,
@@ -246,7 +248,8 @@ export default function WorkoutsScreen() {
       pathname: '/workout/session',
       params: {
         sessionData: JSON.stringify(session),
-        type: 'tabata'
+        type: 'tabata',
+        timerConfig: JSON.stringify(timerConfig),
       }
     });
   };
@@ -475,6 +478,8 @@ export default function WorkoutsScreen() {
         alternativePool={alternativePool}
         canCustomize={canCustomize}
         onExerciseSwap={handleExerciseSwap}
+        timerConfig={timerConfig}
+        onTimerConfigChange={setTimerConfig}
       />
     </SafeAreaView>
   );
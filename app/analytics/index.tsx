@@ -0,0 +1,688 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from 'expo-router';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+import {
+  ANALYTICS_PERIODS,
+  AnalyticsPeriod,
+  MAX_CUSTOM_RANGE_DAYS,
+  TREND_DISPLAY,
+  DIFFICULTY_COLORS,
+  BREAKDOWN_PALETTE,
+} from '../../constants/analytics';
+import { useAuth } from '../../contexts/AuthContext';
+import { useAlert } from '../../contexts/AlertContext';
+import { useSmartBack } from '../../hooks/useSmartBack';
+import { trackingService, PerformanceMetrics, PersonalBest } from '../../services/microservices/trackingService';
+import { personalBestTracker, getPersonalBestKey } from '../../services/personalBestTracker';
+import { DatePicker } from '../../components/ui/DatePicker';
+import { DayBarChart } from '../../components/progress/DayBarChart';
+import { BreakdownBars, BreakdownItem } from '../../components/progress/BreakdownBars';
+import { formatDateToISO } from '../../utils/dateUtils';
+import {
+  formatMetricLabel,
+  formatRecordValue,
+  formatDuration,
+  isRecentRecord,
+  groupPersonalBests,
+} from '../../utils/analytics';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysAgo = (days: number) => new Date(Date.now() - days * DAY_MS);
+
+const formatShortDate = (date: string | Date) =>
+  new Date(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+export default function AnalyticsScreen() {
+  const { user } = useAuth();
+  const alert = useAlert();
+  const { goBack } = useSmartBack();
+
+  const [period, setPeriod] = useState<AnalyticsPeriod>('month');
+  const [customStart, setCustomStart] = useState<Date | null>(daysAgo(30));
+  const [customEnd, setCustomEnd] = useState<Date | null>(new Date());
+  const [appliedRange, setAppliedRange] = useState<{ start: string; end: string } | null>(null);
+  const [metrics, setMetrics] = useState<PerformanceMetrics | null>(null);
+  const [bests, setBests] = useState<PersonalBest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [expandedExercise, setExpandedExercise] = useState<string | null>(null);
+
+  const loadMetrics = useCallback(async () => {
+    // Custom mode waits for a range to be applied
+    if (period === 'custom' && !appliedRange) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const data = period === 'custom' && appliedRange
+        ? await trackingService.getCustomMetrics(appliedRange.start, appliedRange.end)
+        : await trackingService.getPerformanceMetrics(period as PerformanceMetrics['period']);
+      setMetrics(data);
+      setLoadFailed(false);
+    } catch (error) {
+      console.warn('⚠️ [ANALYTICS] Failed to load metrics:', error);
+      setLoadFailed(true);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [period, appliedRange]);
+
+  const loadBests = useCallback(async () => {
+    try {
+      const { bests: records } = await trackingService.getPersonalBests();
+      setBests(records);
+      // Records seen here shouldn't be celebrated as new after the next workout
+      if (user?.id) {
+        await personalBestTracker.primeBaseline(user.id, records);
+      }
+    } catch (error) {
+      console.warn('⚠️ [ANALYTICS] Failed to load personal bests:', error);
+    }
+  }, [user?.id]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadMetrics();
+    }, [loadMetrics])
+  );
+
+  useFocusEffect(
+    useCallback(() => {
+      loadBests();
+    }, [loadBests])
+  );
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await Promise.all([loadMetrics(), loadBests()]);
+    setRefreshing(false);
+  };
+
+  const selectPeriod = (key: AnalyticsPeriod) => {
+    if (key === period) return;
+    setPeriod(key);
+    setMetrics(null);
+    setIsLoading(key !== 'custom' || !!appliedRange);
+  };
+
+  const applyCustomRange = () => {
+    if (!customStart || !customEnd) {
+      alert.warning('Select Dates', 'Choose both a start and an end date.');
+      return;
+    }
+    if (customStart > customEnd) {
+      alert.warning('Invalid Range', 'The start date must be on or before the end date.');
+      return;
+    }
+    if ((customEnd.getTime() - customStart.getTime()) / DAY_MS > MAX_CUSTOM_RANGE_DAYS) {
+      alert.warning('Range Too Long', `Custom ranges can cover up to ${MAX_CUSTOM_RANGE_DAYS} days.`);
+      return;
+    }
+
+    setIsLoading(true);
+    setAppliedRange({ start: formatDateToISO(customStart), end: formatDateToISO(customEnd) });
+  };
+
+  const typeItems: BreakdownItem[] = useMemo(
+    () =>
+      (metrics?.breakdown.byType || []).map((item, index) => ({
+        label: capitalize(item.type),
+        count: item.count,
+        percentage: item.percentage,
+        color: BREAKDOWN_PALETTE[index % BREAKDOWN_PALETTE.length],
+      })),
+    [metrics]
+  );
+
+  const difficultyItems: BreakdownItem[] = useMemo(
+    () =>
+      (metrics?.breakdown.byDifficulty || []).map((item, index) => ({
+        label: capitalize(item.difficulty),
+        count: item.count,
+        percentage: item.percentage,
+        color: DIFFICULTY_COLORS[item.difficulty.toLowerCase()] || BREAKDOWN_PALETTE[index % BREAKDOWN_PALETTE.length],
+      })),
+    [metrics]
+  );
+
+  const recordGroups = useMemo(() => groupPersonalBests(bests), [bests]);
+  const recentCount = bests.filter((best) => isRecentRecord(best)).length;
+
+  const renderSummary = (summary: PerformanceMetrics['summary']) => {
+    const tiles: { icon: keyof typeof Ionicons.glyphMap; color: string; value: string; label: string }[] = [
+      { icon: 'barbell', color: COLORS.PRIMARY[600], value: String(summary.totalWorkouts), label: 'Workouts' },
+      { icon: 'time', color: '#8B5CF6', value: formatDuration(summary.totalDuration), label: 'Active Time' },
+      { icon: 'flame', color: '#F97316', value: Math.round(summary.totalCaloriesBurned).toLocaleString(), label: 'Calories' },
+      { icon: 'pulse', color: '#EF4444', value: summary.averageIntensity.toFixed(1), label: 'Avg Intensity' },
+      { icon: 'calendar', color: '#10B981', value: `${Math.round(summary.consistencyScore)}%`, label: 'Consistency' },
+      {
+        icon: summary.improvementRate >= 0 ? 'trending-up' : 'trending-down',
+        color: summary.improvementRate >= 0 ? '#16A34A' : '#DC2626',
+        value: `${summary.improvementRate > 0 ? '+' : ''}${Math.round(summary.improvementRate)}%`,
+        label: 'Improvement',
+      },
+    ];
+
+    return (
+      <View style={styles.summaryGrid}>
+        {tiles.map((tile) => (
+          <View key={tile.label} style={styles.summaryTile}>
+            <View style={[styles.summaryIcon, { backgroundColor: `${tile.color}1A` }]}>
+              <Ionicons name={tile.icon} size={18} color={tile.color} />
+            </View>
+            <Text style={styles.summaryValue} numberOfLines={1}>{tile.value}</Text>
+            <Text style={styles.summaryLabel}>{tile.label}</Text>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  const renderRecordRow = (best: PersonalBest) => (
+    <View key={getPersonalBestKey(best)} style={styles.recordRow}>
+      <Text style={styles.recordMetric}>{formatMetricLabel(best.metric)}</Text>
+      {isRecentRecord(best) && (
+        <View style={styles.newBadge}>
+          <Text style={styles.newBadgeText}>NEW</Text>
+        </View>
+      )}
+      <View style={styles.recordSpacer} />
+      <View style={styles.recordValueColumn}>
+        <Text style={styles.recordValue}>{formatRecordValue(best.value, best.unit)}</Text>
+        <Text style={styles.recordDate}>{formatShortDate(best.date)}</Text>
+      </View>
+    </View>
+  );
+
+  const renderRecords = () => {
+    if (recordGroups.length === 0) {
+      return (
+        <View style={styles.emptyCard}>
+          <Ionicons name="trophy-outline" size={40} color={COLORS.SECONDARY[300]} />
+          <Text style={styles.emptyCardTitle}>No Records Yet</Text>
+          <Text style={styles.emptyCardText}>Complete workouts to start setting personal bests.</Text>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.card}>
+        {recordGroups.map((group) => {
+          const isExpanded = expandedExercise === group.exercise;
+          const [top, ...rest] = group.bests;
+          return (
+            <View key={group.exercise} style={styles.recordGroup}>
+              <TouchableOpacity
+                style={styles.recordGroupHeader}
+                onPress={() => setExpandedExercise(isExpanded ? null : group.exercise)}
+                disabled={rest.length === 0}
+              >
+                <View style={styles.recordTrophy}>
+                  <Ionicons name="trophy" size={16} color={COLORS.WARNING[600]} />
+                </View>
+                <Text style={styles.recordExercise} numberOfLines={1}>{group.exercise}</Text>
+                {rest.length > 0 && (
+                  <Ionicons name={isExpanded ? 'chevron-up' : 'chevron-down'} size={18} color={COLORS.SECONDARY[400]} />
+                )}
+              </TouchableOpacity>
+              {renderRecordRow(top)}
+              {isExpanded && rest.map(renderRecordRow)}
+            </View>
+          );
+        })}
+      </View>
+    );
+  };
+
+  const renderMetrics = () => {
+    if (period === 'custom' && !appliedRange) {
+      return (
+        <View style={styles.emptyCard}>
+          <Ionicons name="calendar-outline" size={40} color={COLORS.SECONDARY[300]} />
+          <Text style={styles.emptyCardTitle}>Pick a Date Range</Text>
+          <Text style={styles.emptyCardText}>Choose start and end dates, then tap Apply.</Text>
+        </View>
+      );
+    }
+
+    if (loadFailed || !metrics) {
+      return (
+        <View style={styles.emptyCard}>
+          <Ionicons name="cloud-offline-outline" size={40} color={COLORS.SECONDARY[300]} />
+          <Text style={styles.emptyCardTitle}>Could Not Load Analytics</Text>
+          <Text style={styles.emptyCardText}>Pull down to try again.</Text>
+        </View>
+      );
+    }
+
+    return (
+      <>
+        <Text style={styles.rangeCaption}>
+          {formatShortDate(metrics.startDate)} – {formatShortDate(metrics.endDate)}
+        </Text>
+
+        {renderSummary(metrics.summary)}
+
+        {/* Trends */}
+        {metrics.trends.length > 0 && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Trends</Text>
+            {metrics.trends.map((trend) => {
+              const display = TREND_DISPLAY[trend.trend] || TREND_DISPLAY.stable;
+              return (
+                <View key={trend.metric} style={styles.trendRow}>
+                  <View style={[styles.trendIcon, { backgroundColor: display.bgColor }]}>
+                    <Ionicons name={display.icon} size={18} color={display.color} />
+                  </View>
+                  <View style={styles.trendInfo}>
+                    <Text style={styles.trendMetric}>{formatMetricLabel(trend.metric)}</Text>
+                    {!!trend.description && <Text style={styles.trendDescription}>{trend.description}</Text>}
+                  </View>
+                  <Text style={[styles.trendChange, { color: display.color }]}>
+                    {trend.changePercentage > 0 ? '+' : ''}{Math.round(trend.changePercentage)}%
+                  </Text>
+                </View>
+              );
+            })}
+          </View>
+        )}
+
+        {/* Breakdowns */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Activity by Day</Text>
+          <DayBarChart data={metrics.breakdown.byDay} />
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>By Workout Type</Text>
+          <BreakdownBars items={typeItems} />
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>By Difficulty</Text>
+          <BreakdownBars items={difficultyItems} />
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => goBack()} style={styles.headerButton}>
+          <Ionicons name="arrow-back" size={24} color={COLORS.SECONDARY[900]} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Analytics</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      {/* Period selector */}
+      <View style={styles.periodBar}>
+        <View style={styles.periodSelector}>
+          {ANALYTICS_PERIODS.map((p) => (
+            <TouchableOpacity
+              key={p.key}
+              style={[styles.periodButton, period === p.key && styles.periodButtonActive]}
+              onPress={() => selectPeriod(p.key)}
+            >
+              <Text style={[styles.periodText, period === p.key && styles.periodTextActive]}>{p.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={COLORS.PRIMARY[600]} />}
+      >
+        {period === 'custom' && (
+          <View style={styles.card}>
+            <View style={styles.customRow}>
+              <DatePicker
+                label="From"
+                value={customStart}
+                onDateChange={setCustomStart}
+                maximumDate={customEnd || new Date()}
+                style={styles.customPicker}
+              />
+              <DatePicker
+                label="To"
+                value={customEnd}
+                onDateChange={setCustomEnd}
+                minimumDate={customStart || undefined}
+                maximumDate={new Date()}
+                style={styles.customPicker}
+              />
+            </View>
+            <TouchableOpacity style={styles.applyButton} onPress={applyCustomRange}>
+              <Text style={styles.applyButtonText}>Apply</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {isLoading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={COLORS.PRIMARY[600]} />
+          </View>
+        ) : (
+          renderMetrics()
+        )}
+
+        {/* Personal records */}
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Personal Records</Text>
+          {recentCount > 0 && <Text style={styles.sectionCount}>{recentCount} new this week</Text>}
+        </View>
+        {renderRecords()}
+
+        <View style={{ height: 40 }} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.NEUTRAL[50],
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: FONT_SIZES.XL,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  periodBar: {
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.NEUTRAL[200],
+  },
+  periodSelector: {
+    flexDirection: 'row',
+    backgroundColor: COLORS.NEUTRAL[100],
+    borderRadius: 10,
+    padding: 3,
+  },
+  periodButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  periodButtonActive: {
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.08,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  periodText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[500],
+  },
+  periodTextActive: {
+    color: COLORS.PRIMARY[600],
+  },
+  loadingContainer: {
+    paddingVertical: 60,
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  customRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  customPicker: {
+    flex: 1,
+  },
+  applyButton: {
+    backgroundColor: COLORS.PRIMARY[600],
+    borderRadius: 10,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  applyButtonText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  rangeCaption: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.SECONDARY[500],
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  summaryGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    rowGap: 12,
+    marginBottom: 16,
+  },
+  summaryTile: {
+    width: '31%',
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderRadius: 16,
+    paddingVertical: 14,
+    paddingHorizontal: 8,
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  summaryIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  summaryValue: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  summaryLabel: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 2,
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+    marginBottom: 12,
+  },
+  trendRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    gap: 12,
+  },
+  trendIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  trendInfo: {
+    flex: 1,
+  },
+  trendMetric: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  trendDescription: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 2,
+  },
+  trendChange: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.BOLD,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  sectionCount: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.WARNING[600],
+  },
+  recordGroup: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.NEUTRAL[100],
+  },
+  recordGroupHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginBottom: 4,
+  },
+  recordTrophy: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: COLORS.WARNING[50],
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  recordExercise: {
+    flex: 1,
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  recordRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    paddingLeft: 38,
+    gap: 8,
+  },
+  recordMetric: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[600],
+  },
+  recordSpacer: {
+    flex: 1,
+  },
+  recordValueColumn: {
+    alignItems: 'flex-end',
+  },
+  recordValue: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  recordDate: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[400],
+    marginTop: 2,
+  },
+  newBadge: {
+    backgroundColor: COLORS.WARNING[100],
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 6,
+  },
+  newBadgeText: {
+    fontSize: 10,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.WARNING[700],
+    letterSpacing: 1,
+  },
+  emptyCard: {
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderRadius: 16,
+    padding: 24,
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  emptyCardTitle: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+    marginTop: 12,
+  },
+  emptyCardText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    textAlign: 'center',
+    marginTop: 4,
+  },
+});
@@ -61,11 +61,19 @@ export default function WeeklyAssessmentScreen() {
         assessment_date: new Date().toISOString(),
       };
 
-      await authService.saveFitnessAssessment({
-        assessment_type: 'weekly',
-        assessment_data: assessmentData,
-        score: workoutRating,
-      });
+      const result = await authService.saveFitnessAssessment(
+        {
+          assessment_type: 'weekly',
+          assessment_data: assessmentData,
+          score: workoutRating,
+        },
+        { userId: user?.id, queueWhenOffline: true }
+      );
+
+      if (result.queued) {
+        alert.info('Saved Offline', "You're offline, so your assessment was saved on this device. It will sync automatically when you're back online.", () => goBack());
+        return;
+      }
 
       alert.success('Assessment Saved!', 'Thank you for your feedback. This helps us improve your workout recommendations.', () => goBack());
     } catch (error) {
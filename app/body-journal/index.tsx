@@ -0,0 +1,661 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from 'expo-router';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+import {
+  BODY_METRIC_TYPES,
+  MEASUREMENT_SITES,
+  BMI_CATEGORIES,
+  CHART_RANGES,
+  BodyMetricType,
+} from '../../constants/bodyMetrics';
+import { useAuth } from '../../contexts/AuthContext';
+import { useAlert } from '../../contexts/AlertContext';
+import { useSmartBack } from '../../hooks/useSmartBack';
+import { useGoalsStore } from '../../stores/goalsStore';
+import { trackingService } from '../../services/microservices/trackingService';
+import { MetricTrendChart } from '../../components/progress/MetricTrendChart';
+import { BodyMetricEntryModal } from '../../components/progress/BodyMetricEntryModal';
+import {
+  BodyJournalEntry,
+  fromBMIEntry,
+  fromProgressEntry,
+  movingAverage,
+  filterPointsByRange,
+  getSeriesChange,
+  getWeightBandsForHeight,
+  getBMICategory,
+  sortPointsByDate,
+} from '../../utils/bodyMetrics';
+
+const HISTORY_LIMIT = 200;
+const METRIC_ORDER: BodyMetricType[] = ['weight', 'body-fat', 'measurement'];
+
+type JournalEntries = Record<BodyMetricType, BodyJournalEntry[]>;
+
+const formatEntryDate = (date: string) =>
+  new Date(date).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+
+const getSiteLabel = (key?: string) => MEASUREMENT_SITES.find((site) => site.key === key)?.label || key || '';
+
+export default function BodyJournalScreen() {
+  const { user } = useAuth();
+  const alert = useAlert();
+  const { goBack } = useSmartBack();
+
+  const [entries, setEntries] = useState<JournalEntries>({ weight: [], 'body-fat': [], measurement: [] });
+  const [activeMetric, setActiveMetric] = useState<BodyMetricType>('weight');
+  const [activeSite, setActiveSite] = useState(MEASUREMENT_SITES[0].key);
+  const [rangeKey, setRangeKey] = useState('3m');
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [isModalVisible, setIsModalVisible] = useState(false);
+  const [editingEntry, setEditingEntry] = useState<BodyJournalEntry | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    const [bmiHistory, bodyFat, measurements] = await Promise.all([
+      trackingService.getBMIHistory(1, HISTORY_LIMIT).catch((error) => {
+        console.warn('⚠️ [BODY JOURNAL] Failed to load weight history:', error);
+        return null;
+      }),
+      trackingService.getProgress({ type: 'body-fat', limit: HISTORY_LIMIT }).catch((error) => {
+        console.warn('⚠️ [BODY JOURNAL] Failed to load body fat history:', error);
+        return null;
+      }),
+      trackingService.getProgress({ type: 'measurement', limit: HISTORY_LIMIT }).catch((error) => {
+        console.warn('⚠️ [BODY JOURNAL] Failed to load measurements:', error);
+        return null;
+      }),
+    ]);
+
+    setLoadFailed(!bmiHistory && !bodyFat && !measurements);
+    setEntries((prev) => ({
+      weight: bmiHistory ? bmiHistory.entries.map(fromBMIEntry) : prev.weight,
+      'body-fat': bodyFat ? bodyFat.entries.map(fromProgressEntry) : prev['body-fat'],
+      measurement: measurements ? measurements.entries.map(fromProgressEntry) : prev.measurement,
+    }));
+    setIsLoading(false);
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadEntries();
+    }, [loadEntries])
+  );
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadEntries();
+    setRefreshing(false);
+  };
+
+  // Weight goals read the latest logged weight, so keep them in step with the journal
+  const syncWeightGoals = (metric: BodyMetricType) => {
+    if (metric === 'weight' && user?.id) {
+      useGoalsStore.getState().syncProgress(user.id);
+    }
+  };
+
+  const config = BODY_METRIC_TYPES[activeMetric];
+  const range = CHART_RANGES.find((r) => r.key === rangeKey) || CHART_RANGES[0];
+
+  const series = useMemo(() => {
+    const all = entries[activeMetric].filter((entry) => activeMetric !== 'measurement' || entry.bodyPart === activeSite);
+    return sortPointsByDate(all);
+  }, [entries, activeMetric, activeSite]);
+
+  const chart = useMemo(() => {
+    // Average over the full history so the first points in range aren't under-smoothed
+    const average = movingAverage(series);
+    return {
+      points: filterPointsByRange(series, range.days),
+      average: filterPointsByRange(average, range.days),
+    };
+  }, [series, range.days]);
+
+  const latest = series.length > 0 ? series[series.length - 1] : null;
+  const change = getSeriesChange(chart.points);
+  const currentHeight = entries.weight.length > 0
+    ? sortPointsByDate(entries.weight)[entries.weight.length - 1].height
+    : user?.height;
+  const bands = activeMetric === 'weight' && currentHeight ? getWeightBandsForHeight(currentHeight) : undefined;
+  const latestBMI = activeMetric === 'weight' && latest?.bmi ? latest.bmi : null;
+
+  const openNewEntry = () => {
+    setEditingEntry(null);
+    setIsModalVisible(true);
+  };
+
+  const openEditEntry = (entry: BodyJournalEntry) => {
+    setEditingEntry(entry);
+    setIsModalVisible(true);
+  };
+
+  const handleSaved = () => {
+    loadEntries();
+    syncWeightGoals(editingEntry?.metric || activeMetric);
+  };
+
+  const handleDelete = (entry: BodyJournalEntry) => {
+    alert.confirm(
+      'Delete Entry',
+      `Remove the ${entry.value} ${entry.unit} entry from ${formatEntryDate(entry.date)}?`,
+      async () => {
+        try {
+          if (entry.metric === 'weight') {
+            await trackingService.deleteBMIEntry(entry.id);
+          } else {
+            await trackingService.deleteProgressEntry(entry.id);
+          }
+          console.log('📏 [BODY JOURNAL] Deleted entry:', entry.id);
+          setEntries((prev) => ({
+            ...prev,
+            [entry.metric]: prev[entry.metric].filter((e) => e.id !== entry.id),
+          }));
+          syncWeightGoals(entry.metric);
+        } catch (error) {
+          console.error('❌ Failed to delete body metric entry:', error);
+          alert.error('Error', (error as Error).message || 'Failed to delete entry');
+        }
+      },
+      undefined,
+      'Delete',
+      'Cancel'
+    );
+  };
+
+  const formatChange = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)} ${config.unit}`;
+
+  const renderEntry = (entry: BodyJournalEntry) => {
+    const bmiCategory = entry.bmi ? getBMICategory(entry.bmi) : null;
+    return (
+      <View key={entry.id} style={styles.entryRow}>
+        <View style={styles.entryInfo}>
+          <Text style={styles.entryValue}>
+            {entry.value} {entry.unit}
+            {entry.metric === 'measurement' && <Text style={styles.entryMeta}>  {getSiteLabel(entry.bodyPart)}</Text>}
+          </Text>
+          <Text style={styles.entryDate}>{formatEntryDate(entry.date)}</Text>
+          {!!entry.notes && <Text style={styles.entryNotes} numberOfLines={2}>{entry.notes}</Text>}
+        </View>
+        {bmiCategory && entry.bmi && (
+          <View style={[styles.bmiBadge, { backgroundColor: `${bmiCategory.color}1A` }]}>
+            <Text style={[styles.bmiBadgeText, { color: bmiCategory.color }]}>BMI {entry.bmi.toFixed(1)}</Text>
+          </View>
+        )}
+        <TouchableOpacity style={styles.entryAction} onPress={() => openEditEntry(entry)}>
+          <Ionicons name="create-outline" size={20} color={COLORS.SECONDARY[500]} />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.entryAction} onPress={() => handleDelete(entry)}>
+          <Ionicons name="trash-outline" size={20} color={COLORS.ERROR[500]} />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => goBack()} style={styles.headerButton}>
+          <Ionicons name="arrow-back" size={24} color={COLORS.SECONDARY[900]} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Body Journal</Text>
+        <TouchableOpacity onPress={openNewEntry} style={styles.headerButton}>
+          <Ionicons name="add-circle" size={28} color={COLORS.PRIMARY[600]} />
+        </TouchableOpacity>
+      </View>
+
+      {/* Metric tabs */}
+      <View style={styles.tabs}>
+        {METRIC_ORDER.map((metric) => {
+          const isActive = activeMetric === metric;
+          const metricConfig = BODY_METRIC_TYPES[metric];
+          return (
+            <TouchableOpacity
+              key={metric}
+              style={[styles.tab, isActive && { borderBottomColor: metricConfig.color }]}
+              onPress={() => setActiveMetric(metric)}
+            >
+              <Ionicons name={metricConfig.icon} size={16} color={isActive ? metricConfig.color : COLORS.SECONDARY[400]} />
+              <Text style={[styles.tabText, isActive && { color: metricConfig.color }]}>{metricConfig.label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={COLORS.PRIMARY[600]} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={COLORS.PRIMARY[600]} />}
+        >
+          {loadFailed ? (
+            <View style={styles.emptyState}>
+              <Ionicons name="cloud-offline-outline" size={64} color={COLORS.SECONDARY[300]} />
+              <Text style={styles.emptyStateTitle}>Could Not Load Journal</Text>
+              <Text style={styles.emptyStateText}>Pull down to try again.</Text>
+            </View>
+          ) : (
+            <>
+              {activeMetric === 'measurement' && (
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.siteChips}>
+                  {MEASUREMENT_SITES.map((site) => {
+                    const isActive = activeSite === site.key;
+                    return (
+                      <TouchableOpacity
+                        key={site.key}
+                        style={[styles.chip, isActive && { backgroundColor: config.color, borderColor: config.color }]}
+                        onPress={() => setActiveSite(site.key)}
+                      >
+                        <Text style={[styles.chipText, isActive && styles.chipTextActive]}>{site.label}</Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </ScrollView>
+              )}
+
+              {/* Summary */}
+              <View style={styles.statsCard}>
+                <View style={styles.statItem}>
+                  <Text style={styles.statValue}>{latest ? `${latest.value} ${config.unit}` : '—'}</Text>
+                  <Text style={styles.statLabel}>Latest</Text>
+                </View>
+                <View style={styles.statDivider} />
+                <View style={styles.statItem}>
+                  <Text style={styles.statValue}>{change !== null ? formatChange(change) : '—'}</Text>
+                  <Text style={styles.statLabel}>Change ({range.label})</Text>
+                </View>
+                <View style={styles.statDivider} />
+                <View style={styles.statItem}>
+                  {latestBMI ? (
+                    <>
+                      <Text style={[styles.statValue, { color: getBMICategory(latestBMI).color }]}>{latestBMI.toFixed(1)}</Text>
+                      <Text style={styles.statLabel}>BMI · {getBMICategory(latestBMI).label}</Text>
+                    </>
+                  ) : (
+                    <>
+                      <Text style={styles.statValue}>{series.length}</Text>
+                      <Text style={styles.statLabel}>Entries</Text>
+                    </>
+                  )}
+                </View>
+              </View>
+
+              {/* Trend chart */}
+              <View style={styles.card}>
+                <View style={styles.cardHeader}>
+                  <Text style={styles.cardTitle}>Trend</Text>
+                  <View style={styles.rangeSelector}>
+                    {CHART_RANGES.map((r) => (
+                      <TouchableOpacity
+                        key={r.key}
+                        style={[styles.rangeButton, rangeKey === r.key && styles.rangeButtonActive]}
+                        onPress={() => setRangeKey(r.key)}
+                      >
+                        <Text style={[styles.rangeText, rangeKey === r.key && styles.rangeTextActive]}>{r.label}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+                <MetricTrendChart
+                  points={chart.points}
+                  average={chart.points.length > 2 ? chart.average : undefined}
+                  color={config.color}
+                  unit={config.unit}
+                  bands={bands}
+                />
+                {activeMetric === 'weight' && (
+                  bands ? (
+                    <View style={styles.bandLegend}>
+                      {BMI_CATEGORIES.map((category) => (
+                        <View key={category.key} style={styles.bandLegendItem}>
+                          <View style={[styles.bandLegendSwatch, { backgroundColor: category.color }]} />
+                          <Text style={styles.bandLegendText}>{category.label}</Text>
+                        </View>
+                      ))}
+                    </View>
+                  ) : (
+                    <Text style={styles.hintText}>Add your height to see BMI bands on this chart.</Text>
+                  )
+                )}
+              </View>
+
+              {/* Entries */}
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionTitle}>Entries</Text>
+                <Text style={styles.sectionCount}>{series.length}</Text>
+              </View>
+              {series.length === 0 ? (
+                <View style={styles.emptyState}>
+                  <Ionicons name={config.icon} size={56} color={COLORS.SECONDARY[300]} />
+                  <Text style={styles.emptyStateTitle}>No {config.label} Entries</Text>
+                  <Text style={styles.emptyStateText}>
+                    Log your first {activeMetric === 'measurement' ? getSiteLabel(activeSite).toLowerCase() + ' measurement' : config.label.toLowerCase()} to start your trend.
+                  </Text>
+                  <TouchableOpacity style={[styles.emptyStateButton, { backgroundColor: config.color }]} onPress={openNewEntry}>
+                    <Ionicons name="add" size={18} color="white" />
+                    <Text style={styles.emptyStateButtonText}>Log {config.label}</Text>
+                  </TouchableOpacity>
+                </View>
+              ) : (
+                <View style={styles.card}>
+                  {[...series].reverse().map(renderEntry)}
+                </View>
+              )}
+            </>
+          )}
+
+          <View style={{ height: 40 }} />
+        </ScrollView>
+      )}
+
+      <BodyMetricEntryModal
+        visible={isModalVisible}
+        metric={editingEntry?.metric || activeMetric}
+        entry={editingEntry}
+        defaultBodyPart={activeSite}
+        defaultHeight={currentHeight}
+        onClose={() => {
+          setIsModalVisible(false);
+          setEditingEntry(null);
+        }}
+        onSaved={handleSaved}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.NEUTRAL[50],
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: FONT_SIZES.XL,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  tabs: {
+    flexDirection: 'row',
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.NEUTRAL[200],
+  },
+  tab: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 12,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  tabText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[500],
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  siteChips: {
+    gap: 8,
+    paddingBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.SECONDARY[200],
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+  },
+  chipText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.SECONDARY[700],
+  },
+  chipTextActive: {
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  statsCard: {
+    flexDirection: 'row',
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderRadius: 16,
+    paddingVertical: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  statItem: {
+    flex: 1,
+    alignItems: 'center',
+    paddingHorizontal: 4,
+  },
+  statValue: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  statLabel: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 4,
+    textAlign: 'center',
+  },
+  statDivider: {
+    width: 1,
+    backgroundColor: COLORS.NEUTRAL[200],
+  },
+  card: {
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 24,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  cardTitle: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  rangeSelector: {
+    flexDirection: 'row',
+    backgroundColor: COLORS.NEUTRAL[100],
+    borderRadius: 8,
+    padding: 2,
+  },
+  rangeButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 6,
+  },
+  rangeButtonActive: {
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+  },
+  rangeText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[500],
+  },
+  rangeTextActive: {
+    color: COLORS.SECONDARY[900],
+  },
+  bandLegend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 12,
+    marginTop: 12,
+  },
+  bandLegendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  bandLegendSwatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 2,
+  },
+  bandLegendText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[600],
+  },
+  hintText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  sectionCount: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[500],
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.NEUTRAL[100],
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entryValue: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  entryMeta: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.SECONDARY[500],
+  },
+  entryDate: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 2,
+  },
+  entryNotes: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[600],
+    marginTop: 4,
+  },
+  bmiBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+    marginRight: 4,
+  },
+  bmiBadgeText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.SEMIBOLD,
+  },
+  entryAction: {
+    padding: 8,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 40,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderRadius: 16,
+  },
+  emptyStateTitle: {
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[700],
+    marginTop: 16,
+  },
+  emptyStateText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 8,
+    textAlign: 'center',
+    paddingHorizontal: 40,
+  },
+  emptyStateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 20,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 12,
+  },
+  emptyStateButtonText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+});
@@ -0,0 +1,765 @@
+import React, { useState, useCallback, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  Image,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, useFocusEffect } from 'expo-router';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+import {
+  CHALLENGE_CATEGORIES,
+  CHALLENGE_DIFFICULTIES,
+  CHALLENGE_REWARD_ICONS,
+  getChallengeDaysLeft,
+} from '../../constants/challenges';
+import { useAuth } from '../../contexts/AuthContext';
+import { useAlert } from '../../contexts/AlertContext';
+import { useSmartBack } from '../../hooks/useSmartBack';
+import { socialService, Challenge } from '../../services/microservices/socialService';
+import { mediaService } from '../../services/microservices/mediaService';
+
+// Leaderboard refresh interval while the screen is focused
+const LEADERBOARD_POLL_MS = 15000;
+
+export default function ChallengeDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { user } = useAuth();
+  const alert = useAlert();
+  const { goBack } = useSmartBack();
+
+  const [challenge, setChallenge] = useState<Challenge | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState(false);
+  const isPollingRef = useRef(false);
+
+  const loadChallenge = async (background = false) => {
+    if (!id) return;
+    try {
+      const data = await socialService.getChallenge(id, background ? { priority: 'background' } : undefined);
+      setChallenge(data);
+      setError(false);
+    } catch (err) {
+      console.error('[CHALLENGE] Failed to load challenge:', err);
+      // A failed background poll keeps the last leaderboard on screen
+      if (!background) setError(true);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Live leaderboard: poll while the screen is focused
+  useFocusEffect(
+    useCallback(() => {
+      loadChallenge();
+
+      const interval = setInterval(async () => {
+        if (isPollingRef.current) return;
+        isPollingRef.current = true;
+        await loadChallenge(true);
+        isPollingRef.current = false;
+      }, LEADERBOARD_POLL_MS);
+
+      return () => clearInterval(interval);
+    }, [id])
+  );
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadChallenge();
+    setRefreshing(false);
+  };
+
+  const handleJoin = async () => {
+    if (!challenge || isSubmitting) return;
+    setIsSubmitting(true);
+    try {
+      await socialService.joinChallenge(challenge.id);
+      await loadChallenge();
+      alert.success('Challenge Joined!', 'Completed Tabata workouts will now count towards this challenge.');
+    } catch (err: any) {
+      alert.error('Error', err.message || 'Failed to join challenge.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleLeave = () => {
+    if (!challenge || isSubmitting) return;
+    alert.confirm(
+      'Leave Challenge',
+      `Leave "${challenge.title}"? Your progress and leaderboard position will be lost.`,
+      async () => {
+        setIsSubmitting(true);
+        try {
+          await socialService.leaveChallenge(challenge.id);
+          await loadChallenge();
+        } catch (err: any) {
+          alert.error('Error', err.message || 'Failed to leave challenge.');
+        } finally {
+          setIsSubmitting(false);
+        }
+      },
+      undefined,
+      'Leave'
+    );
+  };
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <TouchableOpacity onPress={() => goBack()} style={styles.backButton}>
+        <Ionicons name="arrow-back" size={24} color={COLORS.SECONDARY[900]} />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle}>Challenge</Text>
+      <View style={styles.backButton} />
+    </View>
+  );
+
+  if (isLoading || !challenge) {
+    return (
+      <SafeAreaView style={styles.container} edges={['top']}>
+        {renderHeader()}
+        <View style={styles.loadingContainer}>
+          {isLoading ? (
+            <>
+              <ActivityIndicator size="large" color={COLORS.PRIMARY[600]} />
+              <Text style={styles.loadingText}>Loading challenge...</Text>
+            </>
+          ) : (
+            <>
+              <Ionicons name="cloud-offline-outline" size={64} color={COLORS.SECONDARY[300]} />
+              <Text style={styles.loadingText}>{error ? 'Could not load this challenge.' : 'Challenge not found.'}</Text>
+              <TouchableOpacity style={styles.retryButton} onPress={() => { setIsLoading(true); loadChallenge(); }}>
+                <Text style={styles.retryButtonText}>Try Again</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const categoryConfig = CHALLENGE_CATEGORIES[challenge.category] || CHALLENGE_CATEGORIES.custom;
+  const difficultyConfig = CHALLENGE_DIFFICULTIES[challenge.difficulty] || CHALLENGE_DIFFICULTIES.medium;
+  const isJoined = !!challenge.progress;
+  const hasStarted = new Date(challenge.startDate).getTime() <= Date.now();
+  const daysLeft = getChallengeDaysLeft(challenge.endDate);
+  const isFull = !!challenge.maxParticipants && challenge.participants >= challenge.maxParticipants;
+  const progressPercent = challenge.progress && challenge.progress.total > 0
+    ? Math.min(100, Math.round((challenge.progress.completed / challenge.progress.total) * 100))
+    : 0;
+  const leaderboard = [...(challenge.leaderboard || [])].sort((a, b) => a.rank - b.rank);
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {renderHeader()}
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={COLORS.PRIMARY[600]} />}
+      >
+        {/* Hero */}
+        <View style={[styles.heroCard, { backgroundColor: categoryConfig.color }]}>
+          {challenge.bannerImage && (
+            <Image source={{ uri: mediaService.getFullMediaUrl(challenge.bannerImage) }} style={styles.heroImage} />
+          )}
+          <View style={styles.heroBadges}>
+            <View style={styles.heroBadge}>
+              <Ionicons name={categoryConfig.icon} size={14} color="white" />
+              <Text style={styles.heroBadgeText}>{categoryConfig.label}</Text>
+            </View>
+            <View style={[styles.heroBadge, { backgroundColor: difficultyConfig.bgColor }]}>
+              <Text style={[styles.heroBadgeText, { color: difficultyConfig.color }]}>{difficultyConfig.label}</Text>
+            </View>
+          </View>
+          <Text style={styles.heroTitle}>{challenge.title}</Text>
+          <Text style={styles.heroDescription}>{challenge.description}</Text>
+        </View>
+
+        {/* Stats */}
+        <View style={styles.statsCard}>
+          <View style={styles.statItem}>
+            <Text style={styles.statValue}>
+              {challenge.participants}{challenge.maxParticipants ? `/${challenge.maxParticipants}` : ''}
+            </Text>
+            <Text style={styles.statLabel}>Participants</Text>
+          </View>
+          <View style={styles.statDivider} />
+          <View style={styles.statItem}>
+            <Text style={styles.statValue}>{challenge.duration.value} {challenge.duration.unit}</Text>
+            <Text style={styles.statLabel}>Duration</Text>
+          </View>
+          <View style={styles.statDivider} />
+          <View style={styles.statItem}>
+            <Text style={styles.statValue}>
+              {hasStarted ? daysLeft : new Date(challenge.startDate).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+            </Text>
+            <Text style={styles.statLabel}>{hasStarted ? 'Days Left' : 'Starts'}</Text>
+          </View>
+        </View>
+
+        {/* My Progress */}
+        {challenge.progress && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>My Progress</Text>
+            <View style={styles.card}>
+              <View style={styles.progressHeader}>
+                <Text style={styles.progressValue}>
+                  {challenge.progress.completed} / {challenge.progress.total} {categoryConfig.unit}
+                </Text>
+                {challenge.progress.rank && (
+                  <Text style={styles.progressRank}>Rank #{challenge.progress.rank}</Text>
+                )}
+              </View>
+              <View style={styles.progressTrack}>
+                <View style={[styles.progressFill, { width: `${progressPercent}%`, backgroundColor: categoryConfig.color }]} />
+              </View>
+              <Text style={styles.progressHint}>
+                {progressPercent >= 100
+                  ? 'Challenge complete — great work!'
+                  : `${progressPercent}% complete. Finished Tabata workouts are counted automatically.`}
+              </Text>
+            </View>
+          </View>
+        )}
+
+        {/* Rules */}
+        {challenge.rules.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Rules</Text>
+            <View style={styles.card}>
+              {challenge.rules.map((rule, index) => (
+                <View key={index} style={styles.ruleRow}>
+                  <Text style={styles.ruleNumber}>{index + 1}</Text>
+                  <Text style={styles.ruleText}>{rule}</Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
+        {/* Rewards */}
+        {challenge.rewards.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Rewards</Text>
+            <View style={styles.card}>
+              {challenge.rewards.map((reward, index) => (
+                <View key={index} style={[styles.rewardRow, index > 0 && styles.rowBorder]}>
+                  <View style={styles.rewardIcon}>
+                    <Ionicons name={CHALLENGE_REWARD_ICONS[reward.type] || 'gift'} size={20} color={COLORS.WARNING[600]} />
+                  </View>
+                  <View style={styles.rewardInfo}>
+                    <Text style={styles.rewardName}>
+                      {reward.name}{reward.type === 'points' && reward.value ? ` · ${reward.value} pts` : ''}
+                    </Text>
+                    <Text style={styles.rewardDescription}>{reward.description}</Text>
+                    {!!reward.criteria && <Text style={styles.rewardCriteria}>{reward.criteria}</Text>}
+                  </View>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
+        {/* Requirements */}
+        {(challenge.requirements.fitnessLevel || challenge.requirements.timeCommitment || challenge.requirements.equipment?.length) ? (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Requirements</Text>
+            <View style={styles.card}>
+              {challenge.requirements.fitnessLevel && (
+                <View style={styles.requirementRow}>
+                  <Ionicons name="fitness" size={16} color={COLORS.SECONDARY[500]} />
+                  <Text style={styles.requirementText}>Fitness level: {challenge.requirements.fitnessLevel}</Text>
+                </View>
+              )}
+              {!!challenge.requirements.timeCommitment && (
+                <View style={styles.requirementRow}>
+                  <Ionicons name="time" size={16} color={COLORS.SECONDARY[500]} />
+                  <Text style={styles.requirementText}>{challenge.requirements.timeCommitment} min per day</Text>
+                </View>
+              )}
+              {!!challenge.requirements.equipment?.length && (
+                <View style={styles.requirementRow}>
+                  <Ionicons name="barbell" size={16} color={COLORS.SECONDARY[500]} />
+                  <Text style={styles.requirementText}>{challenge.requirements.equipment.join(', ')}</Text>
+                </View>
+              )}
+            </View>
+          </View>
+        ) : null}
+
+        {/* Leaderboard */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Leaderboard</Text>
+            <View style={styles.liveBadge}>
+              <View style={styles.liveDot} />
+              <Text style={styles.liveText}>LIVE</Text>
+            </View>
+          </View>
+          <View style={styles.card}>
+            {leaderboard.length === 0 ? (
+              <Text style={styles.emptyLeaderboardText}>No one has made progress yet. Be the first!</Text>
+            ) : (
+              leaderboard.map((participant, index) => {
+                const isMe = participant.userId === String(user?.id);
+                return (
+                  <View
+                    key={participant.id}
+                    style={[styles.leaderRow, index > 0 && styles.rowBorder, isMe && styles.leaderRowMe]}
+                  >
+                    <Text style={[styles.leaderRank, participant.rank <= 3 && { color: COLORS.WARNING[600] }]}>
+                      {participant.rank <= 3 ? ['🥇', '🥈', '🥉'][participant.rank - 1] : `#${participant.rank}`}
+                    </Text>
+                    <View style={styles.leaderAvatar}>
+                      {participant.profilePicture ? (
+                        <Image
+                          source={{ uri: mediaService.getFullMediaUrl(participant.profilePicture) }}
+                          style={styles.leaderAvatarImage}
+                        />
+                      ) : (
+                        <Text style={styles.leaderAvatarText}>{participant.username.charAt(0).toUpperCase()}</Text>
+                      )}
+                    </View>
+                    <View style={styles.leaderInfo}>
+                      <Text style={styles.leaderName} numberOfLines={1}>
+                        {participant.username}{isMe ? ' (You)' : ''}
+                      </Text>
+                      <View style={styles.leaderTrack}>
+                        <View
+                          style={[
+                            styles.progressFill,
+                            { width: `${Math.min(100, participant.progress.percentage)}%`, backgroundColor: categoryConfig.color },
+                          ]}
+                        />
+                      </View>
+                    </View>
+                    <Text style={styles.leaderPercent}>{Math.round(participant.progress.percentage)}%</Text>
+                  </View>
+                );
+              })
+            )}
+          </View>
+        </View>
+
+        <View style={{ height: 100 }} />
+      </ScrollView>
+
+      {/* Join / Leave */}
+      {challenge.isActive && (
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={[
+              styles.actionButton,
+              isJoined ? styles.leaveButton : styles.joinButton,
+              (isSubmitting || (!isJoined && isFull)) && styles.actionButtonDisabled,
+            ]}
+            onPress={isJoined ? handleLeave : handleJoin}
+            disabled={isSubmitting || (!isJoined && isFull)}
+            activeOpacity={0.8}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator color={isJoined ? COLORS.ERROR[600] : 'white'} />
+            ) : (
+              <Text style={[styles.actionButtonText, isJoined && styles.leaveButtonText]}>
+                {isJoined ? 'Leave Challenge' : isFull ? 'Challenge Full' : 'Join Challenge'}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.NEUTRAL[50],
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.NEUTRAL[200],
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: FONT_SIZES.XL,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  loadingText: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[600],
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: 16,
+    paddingHorizontal: 24,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: COLORS.PRIMARY[600],
+  },
+  retryButtonText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  heroCard: {
+    borderRadius: 16,
+    padding: 20,
+    overflow: 'hidden',
+  },
+  heroImage: {
+    ...StyleSheet.absoluteFillObject,
+    opacity: 0.25,
+  },
+  heroBadges: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  heroBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.25)',
+  },
+  heroBadgeText: {
+    fontSize: 10,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.NEUTRAL.WHITE,
+    letterSpacing: 0.5,
+  },
+  heroTitle: {
+    fontSize: FONT_SIZES.XXL,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  heroDescription: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.NEUTRAL.WHITE,
+    marginTop: 8,
+    lineHeight: 20,
+    opacity: 0.9,
+  },
+  statsCard: {
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderRadius: 16,
+    padding: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  statItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  statLabel: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.SECONDARY[500],
+    marginTop: 2,
+  },
+  statDivider: {
+    width: 1,
+    height: 36,
+    backgroundColor: COLORS.NEUTRAL[200],
+  },
+  section: {
+    marginTop: 24,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  sectionTitle: {
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderRadius: 16,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  rowBorder: {
+    borderTopWidth: 1,
+    borderTopColor: COLORS.NEUTRAL[100],
+  },
+  progressHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  progressValue: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  progressRank: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.PRIMARY[600],
+  },
+  progressTrack: {
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: COLORS.NEUTRAL[200],
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 5,
+  },
+  progressHint: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 8,
+  },
+  ruleRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 6,
+  },
+  ruleNumber: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    backgroundColor: COLORS.PRIMARY[100],
+    color: COLORS.PRIMARY[700],
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.BOLD,
+    textAlign: 'center',
+    lineHeight: 22,
+    marginRight: 10,
+    overflow: 'hidden',
+  },
+  ruleText: {
+    flex: 1,
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[700],
+    lineHeight: 20,
+  },
+  rewardRow: {
+    flexDirection: 'row',
+    paddingVertical: 10,
+  },
+  rewardIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: COLORS.WARNING[100],
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  rewardInfo: {
+    flex: 1,
+  },
+  rewardName: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  rewardDescription: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[600],
+    marginTop: 2,
+  },
+  rewardCriteria: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.SECONDARY[400],
+    marginTop: 4,
+  },
+  requirementRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 4,
+  },
+  requirementText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[700],
+    textTransform: 'capitalize',
+  },
+  liveBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginBottom: 12,
+  },
+  liveDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: COLORS.ERROR[500],
+  },
+  liveText: {
+    fontSize: 10,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.ERROR[500],
+    letterSpacing: 0.5,
+  },
+  emptyLeaderboardText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  leaderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  leaderRowMe: {
+    backgroundColor: COLORS.PRIMARY[50],
+    marginHorizontal: -16,
+    paddingHorizontal: 16,
+  },
+  leaderRank: {
+    width: 36,
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[500],
+  },
+  leaderAvatar: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: COLORS.PRIMARY[600],
+    justifyContent: 'center',
+    alignItems: 'center',
+    overflow: 'hidden',
+    marginRight: 10,
+  },
+  leaderAvatarImage: {
+    width: '100%',
+    height: '100%',
+  },
+  leaderAvatarText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  leaderInfo: {
+    flex: 1,
+  },
+  leaderName: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+    marginBottom: 4,
+  },
+  leaderTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: COLORS.NEUTRAL[200],
+    overflow: 'hidden',
+  },
+  leaderPercent: {
+    width: 48,
+    textAlign: 'right',
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[700],
+  },
+  footer: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    padding: 16,
+    paddingBottom: 28,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.NEUTRAL[200],
+  },
+  actionButton: {
+    height: 52,
+    borderRadius: 14,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  joinButton: {
+    backgroundColor: COLORS.PRIMARY[600],
+  },
+  leaveButton: {
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderWidth: 1.5,
+    borderColor: COLORS.ERROR[500],
+  },
+  actionButtonDisabled: {
+    opacity: 0.5,
+  },
+  actionButtonText: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  leaveButtonText: {
+    color: COLORS.ERROR[600],
+  },
+});
@@ -0,0 +1,542 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { Input } from '../../components/ui/Input';
+import { Button } from '../../components/ui/Button';
+import { DatePicker } from '../../components/ui/DatePicker';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+import { CHALLENGE_CATEGORIES, CHALLENGE_DIFFICULTIES } from '../../constants/challenges';
+import { useAlert } from '../../contexts/AlertContext';
+import { useSmartBack } from '../../hooks/useSmartBack';
+import { useCanCreateChallenges } from '../../hooks/useCanCreateChallenges';
+import {
+  socialService,
+  ChallengeCategory,
+  ChallengeDifficulty,
+  ChallengeReward,
+  CreateChallengeRequest,
+} from '../../services/microservices/socialService';
+import { formatDateToISO } from '../../utils/dateUtils';
+
+type ChallengeType = CreateChallengeRequest['type'];
+type DurationUnit = CreateChallengeRequest['duration']['unit'];
+
+const TYPE_OPTIONS: { key: ChallengeType; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { key: 'individual', label: 'Individual', icon: 'person' },
+  { key: 'group', label: 'Group', icon: 'people' },
+  { key: 'global', label: 'Global', icon: 'globe' },
+];
+
+const DURATION_UNITS: DurationUnit[] = ['days', 'weeks', 'months'];
+
+// Categories a Tabata session can make progress in (distance is not tracked)
+const CREATABLE_CATEGORIES: ChallengeCategory[] = ['frequency', 'duration', 'weight-loss', 'strength', 'custom'];
+
+export default function CreateChallengeScreen() {
+  const { goBack } = useSmartBack();
+  const alert = useAlert();
+  const { canCreate, isChecking } = useCanCreateChallenges();
+
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [type, setType] = useState<ChallengeType>('group');
+  const [category, setCategory] = useState<ChallengeCategory>('frequency');
+  const [difficulty, setDifficulty] = useState<ChallengeDifficulty>('medium');
+  const [durationValue, setDurationValue] = useState('4');
+  const [durationUnit, setDurationUnit] = useState<DurationUnit>('weeks');
+  const [startDate, setStartDate] = useState<Date | null>(new Date());
+  const [maxParticipants, setMaxParticipants] = useState('');
+  const [rules, setRules] = useState<string[]>(['']);
+  const [rewardPoints, setRewardPoints] = useState('100');
+  const [badgeName, setBadgeName] = useState('');
+  const [tags, setTags] = useState('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const validate = (): boolean => {
+    const nextErrors: Record<string, string> = {};
+    const duration = parseInt(durationValue, 10);
+    const max = maxParticipants.trim() ? parseInt(maxParticipants, 10) : null;
+
+    if (title.trim().length < 3) nextErrors.title = 'Title must be at least 3 characters';
+    if (description.trim().length < 10) nextErrors.description = 'Describe the challenge in at least 10 characters';
+    if (!duration || duration < 1) nextErrors.duration = 'Enter a duration of at least 1';
+    if (!startDate) nextErrors.startDate = 'Pick a start date';
+    if (max !== null && (isNaN(max) || max < 2)) nextErrors.maxParticipants = 'At least 2 participants';
+    if (rules.every((rule) => !rule.trim())) nextErrors.rules = 'Add at least one rule';
+    if (rewardPoints.trim() && isNaN(parseInt(rewardPoints, 10))) nextErrors.rewardPoints = 'Points must be a number';
+
+    setErrors(nextErrors);
+    return Object.keys(nextErrors).length === 0;
+  };
+
+  const buildRewards = (): ChallengeReward[] => {
+    const rewards: ChallengeReward[] = [];
+    const points = parseInt(rewardPoints, 10);
+
+    if (points > 0) {
+      rewards.push({
+        type: 'points',
+        name: 'Challenge Points',
+        description: `${points} points for finishing the challenge`,
+        value: points,
+        criteria: 'Reach 100% progress before the challenge ends',
+      });
+    }
+    if (badgeName.trim()) {
+      rewards.push({
+        type: 'badge',
+        name: badgeName.trim(),
+        description: `Exclusive badge for completing "${title.trim()}"`,
+        criteria: 'Reach 100% progress before the challenge ends',
+      });
+    }
+    return rewards;
+  };
+
+  const handleSubmit = async () => {
+    if (isSubmitting || !validate() || !startDate) return;
+
+    setIsSubmitting(true);
+    try {
+      const request: CreateChallengeRequest = {
+        title: title.trim(),
+        description: description.trim(),
+        type,
+        category,
+        difficulty,
+        duration: { value: parseInt(durationValue, 10), unit: durationUnit },
+        startDate: formatDateToISO(startDate),
+        rules: rules.map((rule) => rule.trim()).filter(Boolean),
+        rewards: buildRewards(),
+        tags: tags.split(',').map((tag) => tag.trim().toLowerCase()).filter(Boolean),
+      };
+      if (maxParticipants.trim()) {
+        request.maxParticipants = parseInt(maxParticipants, 10);
+      }
+
+      const challenge = await socialService.createChallenge(request);
+      console.log('🏁 [CHALLENGES] Created challenge:', challenge.id);
+
+      alert.success('Challenge Created!', `"${challenge.title}" is now open for participants.`, () => {
+        router.replace(`/challenges/${challenge.id}`);
+      });
+    } catch (err: any) {
+      alert.error('Error', err.message || 'Failed to create challenge.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const updateRule = (index: number, text: string) => {
+    setRules((prev) => prev.map((rule, i) => (i === index ? text : rule)));
+  };
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <TouchableOpacity onPress={() => goBack()} style={styles.backButton}>
+        <Ionicons name="arrow-back" size={24} color={COLORS.SECONDARY[900]} />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle}>New Challenge</Text>
+      <View style={styles.backButton} />
+    </View>
+  );
+
+  if (isChecking || !canCreate) {
+    return (
+      <SafeAreaView style={styles.container} edges={['top']}>
+        {renderHeader()}
+        <View style={styles.centered}>
+          {isChecking ? (
+            <ActivityIndicator size="large" color={COLORS.PRIMARY[600]} />
+          ) : (
+            <>
+              <Ionicons name="lock-closed-outline" size={64} color={COLORS.SECONDARY[300]} />
+              <Text style={styles.lockedTitle}>Mentors and Group Owners Only</Text>
+              <Text style={styles.lockedText}>
+                Create a group or become a mentor to start your own challenges.
+              </Text>
+            </>
+          )}
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {renderHeader()}
+
+      <KeyboardAvoidingView style={{ flex: 1 }} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          <Input
+            label="Title"
+            value={title}
+            onChangeText={setTitle}
+            placeholder="e.g. 30-Day Tabata Streak"
+            autoCapitalize="sentences"
+            maxLength={80}
+            error={errors.title}
+          />
+          <Input
+            label="Description"
+            value={description}
+            onChangeText={setDescription}
+            placeholder="What do participants have to do?"
+            autoCapitalize="sentences"
+            multiline
+            numberOfLines={3}
+            maxLength={500}
+            error={errors.description}
+          />
+
+          {/* Type */}
+          <Text style={styles.label}>Who can join</Text>
+          <View style={styles.optionRow}>
+            {TYPE_OPTIONS.map((option) => (
+              <TouchableOpacity
+                key={option.key}
+                style={[styles.optionCard, type === option.key && styles.optionCardActive]}
+                onPress={() => setType(option.key)}
+                activeOpacity={0.7}
+              >
+                <Ionicons
+                  name={option.icon}
+                  size={20}
+                  color={type === option.key ? COLORS.PRIMARY[600] : COLORS.SECONDARY[400]}
+                />
+                <Text style={[styles.optionText, type === option.key && styles.optionTextActive]}>{option.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {/* Category */}
+          <Text style={styles.label}>Category</Text>
+          <View style={styles.chipWrap}>
+            {CREATABLE_CATEGORIES.map((key) => {
+              const config = CHALLENGE_CATEGORIES[key];
+              const isActive = category === key;
+              return (
+                <TouchableOpacity
+                  key={key}
+                  style={[styles.chip, isActive && { backgroundColor: config.color, borderColor: config.color }]}
+                  onPress={() => setCategory(key)}
+                  activeOpacity={0.7}
+                >
+                  <Ionicons name={config.icon} size={14} color={isActive ? 'white' : config.color} />
+                  <Text style={[styles.chipText, isActive && styles.chipTextActive]}>{config.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <Text style={styles.hint}>
+            Progress is counted in {CHALLENGE_CATEGORIES[category].unit} from completed Tabata workouts.
+          </Text>
+
+          {/* Difficulty */}
+          <Text style={styles.label}>Difficulty</Text>
+          <View style={styles.optionRow}>
+            {(Object.keys(CHALLENGE_DIFFICULTIES) as ChallengeDifficulty[]).map((key) => {
+              const config = CHALLENGE_DIFFICULTIES[key];
+              const isActive = difficulty === key;
+              return (
+                <TouchableOpacity
+                  key={key}
+                  style={[styles.optionCard, isActive && { borderColor: config.color, backgroundColor: config.bgColor }]}
+                  onPress={() => setDifficulty(key)}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.optionText, isActive && { color: config.color }]}>{config.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {/* Duration */}
+          <Text style={styles.label}>Duration</Text>
+          <View style={styles.durationRow}>
+            <Input
+              value={durationValue}
+              onChangeText={setDurationValue}
+              keyboardType="numeric"
+              maxLength={3}
+              error={errors.duration}
+              style={styles.durationInput}
+            />
+            <View style={[styles.optionRow, { flex: 1 }]}>
+              {DURATION_UNITS.map((unit) => (
+                <TouchableOpacity
+                  key={unit}
+                  style={[styles.optionCard, durationUnit === unit && styles.optionCardActive]}
+                  onPress={() => setDurationUnit(unit)}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.optionText, durationUnit === unit && styles.optionTextActive]}>{unit}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          <DatePicker
+            label="Start Date"
+            value={startDate}
+            onDateChange={setStartDate}
+            minimumDate={new Date()}
+            error={errors.startDate}
+          />
+
+          <Input
+            label="Max Participants (optional)"
+            value={maxParticipants}
+            onChangeText={setMaxParticipants}
+            placeholder="No limit"
+            keyboardType="numeric"
+            maxLength={5}
+            error={errors.maxParticipants}
+          />
+
+          {/* Rules */}
+          <Text style={styles.label}>Rules</Text>
+          {rules.map((rule, index) => (
+            <View key={index} style={styles.ruleRow}>
+              <Input
+                value={rule}
+                onChangeText={(text) => updateRule(index, text)}
+                placeholder={`Rule ${index + 1}`}
+                autoCapitalize="sentences"
+                maxLength={200}
+                style={{ flex: 1, marginBottom: 8 }}
+              />
+              {rules.length > 1 && (
+                <TouchableOpacity
+                  style={styles.removeRuleButton}
+                  onPress={() => setRules((prev) => prev.filter((_, i) => i !== index))}
+                >
+                  <Ionicons name="close-circle" size={22} color={COLORS.ERROR[500]} />
+                </TouchableOpacity>
+              )}
+            </View>
+          ))}
+          {errors.rules && <Text style={styles.errorText}>{errors.rules}</Text>}
+          {rules.length < 10 && (
+            <TouchableOpacity style={styles.addRuleButton} onPress={() => setRules((prev) => [...prev, ''])}>
+              <Ionicons name="add" size={18} color={COLORS.PRIMARY[600]} />
+              <Text style={styles.addRuleText}>Add Rule</Text>
+            </TouchableOpacity>
+          )}
+
+          {/* Rewards */}
+          <Text style={[styles.label, { marginTop: 16 }]}>Rewards</Text>
+          <Input
+            label="Points"
+            value={rewardPoints}
+            onChangeText={setRewardPoints}
+            placeholder="0"
+            keyboardType="numeric"
+            maxLength={5}
+            error={errors.rewardPoints}
+          />
+          <Input
+            label="Badge Name (optional)"
+            value={badgeName}
+            onChangeText={setBadgeName}
+            placeholder="e.g. Tabata Titan"
+            autoCapitalize="words"
+            maxLength={40}
+          />
+
+          <Input
+            label="Tags (comma separated)"
+            value={tags}
+            onChangeText={setTags}
+            placeholder="e.g. beginner, core, streak"
+            maxLength={120}
+          />
+
+          <Button
+            title="Create Challenge"
+            onPress={handleSubmit}
+            loading={isSubmitting}
+            disabled={isSubmitting}
+            size="large"
+            style={{ marginTop: 8 }}
+          />
+
+          <View style={{ height: 40 }} />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.NEUTRAL[50],
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.NEUTRAL[200],
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: FONT_SIZES.XL,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  lockedTitle: {
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[700],
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  lockedText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  label: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[700],
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  optionCard: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+    paddingVertical: 12,
+    borderRadius: 10,
+    borderWidth: 1.5,
+    borderColor: COLORS.NEUTRAL[200],
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+  },
+  optionCardActive: {
+    borderColor: COLORS.PRIMARY[500],
+    backgroundColor: COLORS.PRIMARY[50],
+  },
+  optionText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[600],
+    textTransform: 'capitalize',
+  },
+  optionTextActive: {
+    color: COLORS.PRIMARY[700],
+  },
+  chipWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.NEUTRAL[300],
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+  },
+  chipText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[600],
+  },
+  chipTextActive: {
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  durationRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+  },
+  durationInput: {
+    width: 72,
+  },
+  ruleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  removeRuleButton: {
+    padding: 4,
+    marginBottom: 8,
+  },
+  addRuleButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    paddingVertical: 6,
+  },
+  addRuleText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.PRIMARY[600],
+  },
+  errorText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.ERROR[500],
+    marginBottom: 8,
+  },
+});
@@ -0,0 +1,503 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router, useFocusEffect } from 'expo-router';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+import {
+  CHALLENGE_CATEGORIES,
+  CHALLENGE_DIFFICULTIES,
+  getChallengeDaysLeft,
+} from '../../constants/challenges';
+import { useSmartBack } from '../../hooks/useSmartBack';
+import { useCanCreateChallenges } from '../../hooks/useCanCreateChallenges';
+import {
+  socialService,
+  Challenge,
+  ChallengeCategory,
+  ChallengeDifficulty,
+} from '../../services/microservices/socialService';
+
+const PER_PAGE = 20;
+
+type StatusFilter = 'active' | 'upcoming' | 'completed';
+
+const STATUS_TABS: { key: StatusFilter; label: string }[] = [
+  { key: 'active', label: 'Active' },
+  { key: 'upcoming', label: 'Upcoming' },
+  { key: 'completed', label: 'Completed' },
+];
+
+export default function ChallengesScreen() {
+  const { goBack } = useSmartBack();
+  const { canCreate } = useCanCreateChallenges();
+
+  const [challenges, setChallenges] = useState<Challenge[]>([]);
+  const [status, setStatus] = useState<StatusFilter>('active');
+  const [category, setCategory] = useState<ChallengeCategory | null>(null);
+  const [difficulty, setDifficulty] = useState<ChallengeDifficulty | null>(null);
+  const [joinedOnly, setJoinedOnly] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState(false);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [hasMore, setHasMore] = useState(true);
+
+  const filterVersionRef = useRef(0); // Discards responses for filters that are no longer selected
+  const loadingMoreRef = useRef(false);
+
+  const loadChallenges = async (page: number, version: number) => {
+    try {
+      const filters: Parameters<typeof socialService.getChallenges>[0] = { status, page, limit: PER_PAGE };
+      if (category) filters.category = category;
+      if (difficulty) filters.difficulty = difficulty;
+
+      const result = await socialService.getChallenges(filters);
+      if (version !== filterVersionRef.current) return;
+
+      setChallenges((prev) => (page === 1 ? result.challenges : [...prev, ...result.challenges]));
+      setCurrentPage(page);
+      setHasMore(result.challenges.length >= PER_PAGE);
+      setError(false);
+    } catch (err) {
+      console.error('[CHALLENGES] Failed to load challenges:', err);
+      if (page === 1 && version === filterVersionRef.current) {
+        setChallenges([]);
+        setError(true);
+      }
+    }
+  };
+
+  const reload = async () => {
+    filterVersionRef.current += 1;
+    const version = filterVersionRef.current;
+    setHasMore(true);
+    await loadChallenges(1, version);
+    if (version === filterVersionRef.current) setIsLoading(false);
+  };
+
+  useEffect(() => {
+    setIsLoading(true);
+    reload();
+  }, [status, category, difficulty]);
+
+  // Pick up joins, leaves and progress made elsewhere (served from cache when fresh)
+  const hasFocusedRef = useRef(false);
+  useFocusEffect(
+    useCallback(() => {
+      if (hasFocusedRef.current) reload();
+      hasFocusedRef.current = true;
+    }, [status, category, difficulty])
+  );
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await reload();
+    setRefreshing(false);
+  };
+
+  const handleLoadMore = async () => {
+    if (loadingMoreRef.current || !hasMore || isLoading) return;
+    loadingMoreRef.current = true;
+    setIsLoadingMore(true);
+    await loadChallenges(currentPage + 1, filterVersionRef.current);
+    setIsLoadingMore(false);
+    loadingMoreRef.current = false;
+  };
+
+  const visibleChallenges = joinedOnly ? challenges.filter((c) => !!c.progress) : challenges;
+
+  const renderChip = (label: string, isActive: boolean, onPress: () => void, color?: string) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, isActive && { backgroundColor: color || COLORS.PRIMARY[600], borderColor: color || COLORS.PRIMARY[600] }]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      <Text style={[styles.chipText, isActive && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderChallenge = ({ item }: { item: Challenge }) => {
+    const categoryConfig = CHALLENGE_CATEGORIES[item.category] || CHALLENGE_CATEGORIES.custom;
+    const difficultyConfig = CHALLENGE_DIFFICULTIES[item.difficulty] || CHALLENGE_DIFFICULTIES.medium;
+    const daysLeft = getChallengeDaysLeft(item.endDate);
+    const progressPercent = item.progress && item.progress.total > 0
+      ? Math.min(100, Math.round((item.progress.completed / item.progress.total) * 100))
+      : 0;
+
+    return (
+      <TouchableOpacity
+        style={styles.challengeCard}
+        onPress={() => router.push(`/challenges/${item.id}`)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.cardHeader}>
+          <View style={[styles.categoryIcon, { backgroundColor: categoryConfig.color + '20' }]}>
+            <Ionicons name={categoryConfig.icon} size={24} color={categoryConfig.color} />
+          </View>
+          <View style={styles.cardTitleContainer}>
+            <Text style={styles.cardTitle} numberOfLines={1}>{item.title}</Text>
+            <Text style={styles.cardSubtitle}>
+              {categoryConfig.label} · {item.duration.value} {item.duration.unit}
+            </Text>
+          </View>
+          <View style={[styles.difficultyBadge, { backgroundColor: difficultyConfig.bgColor }]}>
+            <Text style={[styles.difficultyText, { color: difficultyConfig.color }]}>{difficultyConfig.label}</Text>
+          </View>
+        </View>
+
+        <Text style={styles.cardDescription} numberOfLines={2}>{item.description}</Text>
+
+        {item.progress && (
+          <View style={styles.progressContainer}>
+            <View style={styles.progressTrack}>
+              <View style={[styles.progressFill, { width: `${progressPercent}%`, backgroundColor: categoryConfig.color }]} />
+            </View>
+            <Text style={styles.progressText}>
+              {item.progress.completed}/{item.progress.total}
+              {item.progress.rank ? ` · #${item.progress.rank}` : ''}
+            </Text>
+          </View>
+        )}
+
+        <View style={styles.cardFooter}>
+          <View style={styles.footerItem}>
+            <Ionicons name="people" size={14} color={COLORS.SECONDARY[500]} />
+            <Text style={styles.footerText}>
+              {item.participants}{item.maxParticipants ? `/${item.maxParticipants}` : ''} joined
+            </Text>
+          </View>
+          <View style={styles.footerItem}>
+            <Ionicons name="hourglass-outline" size={14} color={COLORS.SECONDARY[500]} />
+            <Text style={styles.footerText}>
+              {status === 'upcoming'
+                ? `Starts ${new Date(item.startDate).toLocaleDateString()}`
+                : daysLeft > 0 ? `${daysLeft} ${daysLeft === 1 ? 'day' : 'days'} left` : 'Ended'}
+            </Text>
+          </View>
+          {item.progress && (
+            <View style={styles.joinedBadge}>
+              <Ionicons name="checkmark-circle" size={14} color={COLORS.SUCCESS[600]} />
+              <Text style={styles.joinedText}>Joined</Text>
+            </View>
+          )}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderEmpty = () => {
+    if (isLoading) return null;
+    return (
+      <View style={styles.emptyState}>
+        <Ionicons name={error ? 'cloud-offline-outline' : 'flag-outline'} size={64} color={COLORS.SECONDARY[300]} />
+        <Text style={styles.emptyStateTitle}>{error ? 'Could Not Load Challenges' : 'No Challenges Found'}</Text>
+        <Text style={styles.emptyStateText}>
+          {error
+            ? 'Pull down to try again.'
+            : joinedOnly
+            ? "You haven't joined any challenges with these filters."
+            : 'Try another category or difficulty.'}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => goBack()} style={styles.headerButton}>
+          <Ionicons name="arrow-back" size={24} color={COLORS.SECONDARY[900]} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Challenges</Text>
+        {canCreate ? (
+          <TouchableOpacity onPress={() => router.push('/challenges/create')} style={styles.headerButton}>
+            <Ionicons name="add-circle" size={28} color={COLORS.PRIMARY[600]} />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.headerButton} />
+        )}
+      </View>
+
+      {/* Status Tabs */}
+      <View style={styles.tabContainer}>
+        {STATUS_TABS.map((tab) => (
+          <TouchableOpacity
+            key={tab.key}
+            style={[styles.tab, status === tab.key && styles.tabActive]}
+            onPress={() => setStatus(tab.key)}
+          >
+            <Text style={[styles.tabText, status === tab.key && styles.tabTextActive]}>{tab.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {/* Filters */}
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {renderChip('Joined', joinedOnly, () => setJoinedOnly((prev) => !prev), COLORS.SUCCESS[600])}
+        <View style={styles.chipDivider} />
+        {renderChip('All', category === null, () => setCategory(null))}
+        {(Object.keys(CHALLENGE_CATEGORIES) as ChallengeCategory[]).map((key) =>
+          renderChip(CHALLENGE_CATEGORIES[key].label, category === key, () => setCategory(key), CHALLENGE_CATEGORIES[key].color)
+        )}
+      </ScrollView>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {renderChip('Any Difficulty', difficulty === null, () => setDifficulty(null))}
+        {(Object.keys(CHALLENGE_DIFFICULTIES) as ChallengeDifficulty[]).map((key) =>
+          renderChip(CHALLENGE_DIFFICULTIES[key].label, difficulty === key, () => setDifficulty(key), CHALLENGE_DIFFICULTIES[key].color)
+        )}
+      </ScrollView>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={COLORS.PRIMARY[600]} />
+          <Text style={styles.loadingText}>Loading challenges...</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={visibleChallenges}
+          keyExtractor={(item) => item.id}
+          renderItem={renderChallenge}
+          contentContainerStyle={styles.listContent}
+          ListEmptyComponent={renderEmpty}
+          onEndReached={handleLoadMore}
+          onEndReachedThreshold={0.4}
+          ListFooterComponent={isLoadingMore ? <ActivityIndicator style={{ marginVertical: 16 }} color={COLORS.PRIMARY[600]} /> : null}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={COLORS.PRIMARY[600]} />}
+          showsVerticalScrollIndicator={false}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.NEUTRAL[50],
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.NEUTRAL[200],
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: FONT_SIZES.XL,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  tabContainer: {
+    flexDirection: 'row',
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderRadius: 12,
+    padding: 4,
+    marginHorizontal: 16,
+    marginTop: 16,
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 10,
+    alignItems: 'center',
+    borderRadius: 8,
+  },
+  tabActive: {
+    backgroundColor: COLORS.PRIMARY[500],
+  },
+  tabText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[600],
+  },
+  tabTextActive: {
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  chipRow: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    gap: 8,
+    alignItems: 'center',
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 7,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.NEUTRAL[300],
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+  },
+  chipText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[600],
+  },
+  chipTextActive: {
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  chipDivider: {
+    width: 1,
+    height: 20,
+    backgroundColor: COLORS.NEUTRAL[300],
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[600],
+    marginTop: 16,
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 40,
+    gap: 12,
+  },
+  challengeCard: {
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderRadius: 16,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  categoryIcon: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  cardTitleContainer: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  cardSubtitle: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 2,
+  },
+  difficultyBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 6,
+    marginLeft: 8,
+  },
+  difficultyText: {
+    fontSize: 9,
+    fontFamily: FONTS.BOLD,
+    letterSpacing: 0.5,
+  },
+  cardDescription: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[600],
+    lineHeight: 20,
+  },
+  progressContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+    gap: 10,
+  },
+  progressTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: COLORS.NEUTRAL[200],
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  progressText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[700],
+  },
+  cardFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+    gap: 16,
+  },
+  footerItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  footerText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.SECONDARY[500],
+  },
+  joinedBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginLeft: 'auto',
+  },
+  joinedText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SUCCESS[600],
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderRadius: 16,
+  },
+  emptyStateTitle: {
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[700],
+    marginTop: 16,
+  },
+  emptyStateText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 8,
+    textAlign: 'center',
+    paddingHorizontal: 40,
+  },
+});
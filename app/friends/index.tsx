@@ -0,0 +1,655 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router, useFocusEffect, useLocalSearchParams } from 'expo-router';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+import { useAuth } from '../../contexts/AuthContext';
+import { useAlert } from '../../contexts/AlertContext';
+import { useReverb } from '../../contexts/ReverbProvider';
+import { useSmartBack } from '../../hooks/useSmartBack';
+import { useFriendsStore } from '../../stores/friendsStore';
+import { socialService, Friend, FriendRequest } from '../../services/microservices/socialService';
+import { Avatar } from '../../components/ui/Avatar';
+import { formatTimeAgo } from '../../utils/dateUtils';
+
+type FriendsTab = 'friends' | 'requests' | 'find';
+
+type SearchResult = Awaited<ReturnType<typeof socialService.searchUsers>>['users'][number];
+
+const MIN_SEARCH_LENGTH = 2;
+
+export default function FriendsScreen() {
+  const params = useLocalSearchParams<{ tab?: FriendsTab }>();
+  const { user } = useAuth();
+  const alert = useAlert();
+  const { goBack } = useSmartBack();
+  const { onlineUsers } = useReverb();
+
+  const friends = useFriendsStore((state) => state.friends);
+  const incomingRequests = useFriendsStore((state) => state.incomingRequests);
+  const outgoingRequests = useFriendsStore((state) => state.outgoingRequests);
+  const hasLoaded = useFriendsStore((state) => state.hasLoaded);
+  const loadAll = useFriendsStore((state) => state.loadAll);
+  const sendRequest = useFriendsStore((state) => state.sendRequest);
+  const respondToRequest = useFriendsStore((state) => state.respondToRequest);
+  const removeFriend = useFriendsStore((state) => state.removeFriend);
+  const getRelationship = useFriendsStore((state) => state.getRelationship);
+
+  const [activeTab, setActiveTab] = useState<FriendsTab>(params.tab || 'friends');
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null); // Debounce: tracks which row action is in-flight
+
+  // Search
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const searchTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const latestQueryRef = useRef(''); // Discards responses for queries that are no longer typed
+
+  const load = async () => {
+    try {
+      await loadAll();
+      setError(false);
+    } catch {
+      setError(true);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      load();
+    }, [])
+  );
+
+  useEffect(() => {
+    return () => {
+      if (searchTimeout.current) clearTimeout(searchTimeout.current);
+    };
+  }, []);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await load();
+    setRefreshing(false);
+  };
+
+  // Online friends first, then most recently active
+  const sortedFriends = [...friends].sort((a, b) => {
+    const aOnline = onlineUsers.has(String(a.userId)) ? 1 : 0;
+    const bOnline = onlineUsers.has(String(b.userId)) ? 1 : 0;
+    if (aOnline !== bOnline) return bOnline - aOnline;
+    return new Date(b.lastActive).getTime() - new Date(a.lastActive).getTime();
+  });
+  const onlineCount = friends.filter((f) => onlineUsers.has(String(f.userId))).length;
+
+  const runSearch = async (query: string) => {
+    latestQueryRef.current = query;
+    if (query.length < MIN_SEARCH_LENGTH) {
+      setSearchResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    setIsSearching(true);
+    try {
+      const response = await socialService.searchUsers(query);
+      if (latestQueryRef.current !== query) return;
+      // Most mutual friends first - the people you are most likely to know
+      const users = (response.users || [])
+        .filter((u) => String(u.id) !== String(user?.id))
+        .sort((a, b) => (b.mutualFriends || 0) - (a.mutualFriends || 0));
+      setSearchResults(users);
+    } catch (err) {
+      console.error('❌ User search failed:', err);
+      if (latestQueryRef.current === query) setSearchResults([]);
+    } finally {
+      if (latestQueryRef.current === query) setIsSearching(false);
+    }
+  };
+
+  // Debounced search
+  const handleSearchChange = (text: string) => {
+    setSearchQuery(text);
+    if (searchTimeout.current) {
+      clearTimeout(searchTimeout.current);
+    }
+    searchTimeout.current = setTimeout(() => {
+      runSearch(text.trim());
+    }, 300);
+  };
+
+  const withPending = async (id: string, action: () => Promise<void>, failureMessage: string) => {
+    if (pendingId) return;
+    setPendingId(id);
+    try {
+      await action();
+    } catch (err) {
+      console.error(`❌ ${failureMessage}:`, err);
+      alert.error('Error', (err as Error).message || failureMessage);
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleSendRequest = (target: SearchResult) =>
+    withPending(target.id, () => sendRequest(String(target.id)), 'Failed to send friend request');
+
+  const handleRespond = (request: FriendRequest, action: 'accept' | 'decline') =>
+    withPending(request.id, () => respondToRequest(request.id, action), `Failed to ${action} friend request`);
+
+  const handleRemoveFriend = (friend: Friend) => {
+    alert.confirm(
+      'Remove Friend',
+      `Remove ${friend.username} from your friends?`,
+      () => withPending(friend.userId, () => removeFriend(String(friend.userId)), 'Failed to remove friend'),
+      undefined,
+      'Remove',
+      'Cancel'
+    );
+  };
+
+  const openProfile = (userId: string, username: string) => {
+    router.push({
+      pathname: '/profile/public-profile',
+      params: { userId: String(userId), username },
+    });
+  };
+
+  const renderFriend = ({ item }: { item: Friend }) => {
+    const isOnline = onlineUsers.has(String(item.userId));
+    const fullName = [item.firstName, item.lastName].filter(Boolean).join(' ');
+
+    return (
+      <TouchableOpacity style={styles.row} onPress={() => openProfile(item.userId, item.username)} activeOpacity={0.7}>
+        <View>
+          <Avatar profilePicture={item.profilePicture} size="sm" backgroundColor={COLORS.PRIMARY[100]} iconColor={COLORS.PRIMARY[600]} />
+          <View style={[styles.presenceDot, { backgroundColor: isOnline ? COLORS.SUCCESS[500] : COLORS.SECONDARY[300] }]} />
+        </View>
+        <View style={styles.rowInfo}>
+          <Text style={styles.rowTitle} numberOfLines={1}>{item.username}</Text>
+          {!!fullName && <Text style={styles.rowSubtitle} numberOfLines={1}>{fullName}</Text>}
+          <Text style={styles.rowMeta}>
+            {isOnline ? 'Online now' : `Active ${formatTimeAgo(item.lastActive).toLowerCase()}`}
+            {item.mutualFriends > 0 ? ` · ${item.mutualFriends} mutual` : ''}
+          </Text>
+        </View>
+        {pendingId === item.userId ? (
+          <ActivityIndicator size="small" color={COLORS.SECONDARY[400]} />
+        ) : (
+          <TouchableOpacity onPress={() => handleRemoveFriend(item)} style={styles.iconButton}>
+            <Ionicons name="person-remove-outline" size={20} color={COLORS.SECONDARY[400]} />
+          </TouchableOpacity>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderIncoming = (request: FriendRequest) => (
+    <View key={request.id} style={styles.row}>
+      <Avatar profilePicture={request.fromProfilePicture} size="sm" backgroundColor={COLORS.PRIMARY[100]} iconColor={COLORS.PRIMARY[600]} />
+      <TouchableOpacity style={styles.rowInfo} onPress={() => openProfile(request.fromUserId, request.fromUsername)}>
+        <Text style={styles.rowTitle} numberOfLines={1}>{request.fromUsername}</Text>
+        {!!request.message && <Text style={styles.rowSubtitle} numberOfLines={2}>{`"${request.message}"`}</Text>}
+        <Text style={styles.rowMeta}>{formatTimeAgo(request.sentAt)}</Text>
+      </TouchableOpacity>
+      {pendingId === request.id ? (
+        <ActivityIndicator size="small" color={COLORS.PRIMARY[600]} />
+      ) : (
+        <View style={styles.requestActions}>
+          <TouchableOpacity style={[styles.smallButton, styles.acceptButton]} onPress={() => handleRespond(request, 'accept')}>
+            <Ionicons name="checkmark" size={18} color="white" />
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.smallButton, styles.declineButton]} onPress={() => handleRespond(request, 'decline')}>
+            <Ionicons name="close" size={18} color={COLORS.SECONDARY[600]} />
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+
+  const renderOutgoing = (request: FriendRequest) => (
+    <View key={request.id} style={styles.row}>
+      <Avatar profilePicture={request.toProfilePicture} size="sm" backgroundColor={COLORS.PRIMARY[100]} iconColor={COLORS.PRIMARY[600]} />
+      <View style={styles.rowInfo}>
+        <Text style={styles.rowTitle} numberOfLines={1}>{request.toUsername || `User #${request.toUserId}`}</Text>
+        <Text style={styles.rowMeta}>Sent {formatTimeAgo(request.sentAt).toLowerCase()}</Text>
+      </View>
+      {/* Sent requests can't be withdrawn until the social service supports it */}
+      <Text style={styles.statusText}>Pending</Text>
+    </View>
+  );
+
+  const renderSearchResult = ({ item }: { item: SearchResult }) => {
+    const relationship = getRelationship(item.id, user?.id);
+
+    const renderAction = () => {
+      if (pendingId === item.id) return <ActivityIndicator size="small" color={COLORS.PRIMARY[600]} />;
+      switch (relationship) {
+        case 'friend':
+          return <Text style={styles.statusText}>Friends</Text>;
+        case 'outgoing':
+          return <Text style={styles.statusText}>Requested</Text>;
+        case 'incoming':
+          return (
+            <TouchableOpacity style={styles.primaryButton} onPress={() => setActiveTab('requests')}>
+              <Text style={styles.primaryButtonText}>Respond</Text>
+            </TouchableOpacity>
+          );
+        default:
+          return (
+            <TouchableOpacity style={styles.primaryButton} onPress={() => handleSendRequest(item)}>
+              <Ionicons name="person-add" size={14} color="white" />
+              <Text style={styles.primaryButtonText}>Add</Text>
+            </TouchableOpacity>
+          );
+      }
+    };
+
+    return (
+      <TouchableOpacity style={styles.row} onPress={() => openProfile(item.id, item.username)} activeOpacity={0.7}>
+        <View>
+          <Avatar profilePicture={item.profilePicture} size="sm" backgroundColor={COLORS.PRIMARY[100]} iconColor={COLORS.PRIMARY[600]} />
+          {onlineUsers.has(String(item.id)) && <View style={[styles.presenceDot, { backgroundColor: COLORS.SUCCESS[500] }]} />}
+        </View>
+        <View style={styles.rowInfo}>
+          <Text style={styles.rowTitle} numberOfLines={1}>{item.username}</Text>
+          <Text style={styles.rowMeta} numberOfLines={1}>
+            {item.mutualFriends > 0 ? `${item.mutualFriends} mutual ${item.mutualFriends === 1 ? 'friend' : 'friends'}` : 'No mutual friends'}
+            {item.location ? ` · ${item.location}` : ''}
+          </Text>
+        </View>
+        {renderAction()}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderEmpty = (icon: keyof typeof Ionicons.glyphMap, title: string, text: string) => (
+    <View style={styles.emptyState}>
+      <Ionicons name={icon} size={64} color={COLORS.SECONDARY[300]} />
+      <Text style={styles.emptyStateTitle}>{title}</Text>
+      <Text style={styles.emptyStateText}>{text}</Text>
+    </View>
+  );
+
+  const renderContent = () => {
+    if (!hasLoaded && activeTab !== 'find') {
+      return error ? (
+        renderEmpty('cloud-offline-outline', 'Could Not Load Friends', 'Pull down to try again.')
+      ) : (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={COLORS.PRIMARY[600]} />
+        </View>
+      );
+    }
+
+    if (activeTab === 'friends') {
+      return (
+        <FlatList
+          data={sortedFriends}
+          keyExtractor={(item) => String(item.userId)}
+          renderItem={renderFriend}
+          contentContainerStyle={styles.listContent}
+          ListHeaderComponent={
+            friends.length > 0 ? (
+              <Text style={styles.sectionLabel}>{onlineCount} of {friends.length} online</Text>
+            ) : null
+          }
+          ListEmptyComponent={renderEmpty('people-outline', 'No Friends Yet', 'Find people you know and send them a friend request.')}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={COLORS.PRIMARY[600]} />}
+          showsVerticalScrollIndicator={false}
+        />
+      );
+    }
+
+    if (activeTab === 'requests') {
+      return (
+        <FlatList
+          data={[]}
+          renderItem={null}
+          contentContainerStyle={styles.listContent}
+          ListHeaderComponent={
+            incomingRequests.length === 0 && outgoingRequests.length === 0 ? (
+              renderEmpty('mail-open-outline', 'No Pending Requests', 'Friend requests you send or receive will show up here.')
+            ) : (
+              <>
+                {incomingRequests.length > 0 && (
+                  <>
+                    <Text style={styles.sectionLabel}>Received ({incomingRequests.length})</Text>
+                    {incomingRequests.map(renderIncoming)}
+                  </>
+                )}
+                {outgoingRequests.length > 0 && (
+                  <>
+                    <Text style={[styles.sectionLabel, incomingRequests.length > 0 && styles.sectionLabelSpaced]}>
+                      Sent ({outgoingRequests.length})
+                    </Text>
+                    {outgoingRequests.map(renderOutgoing)}
+                  </>
+                )}
+              </>
+            )
+          }
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={COLORS.PRIMARY[600]} />}
+          showsVerticalScrollIndicator={false}
+        />
+      );
+    }
+
+    return (
+      <>
+        <View style={styles.searchWrapper}>
+          <View style={styles.searchContainer}>
+            <Ionicons name="search" size={20} color={COLORS.SECONDARY[400]} />
+            <TextInput
+              style={styles.searchInput}
+              placeholder="Search by username..."
+              placeholderTextColor={COLORS.SECONDARY[400]}
+              value={searchQuery}
+              onChangeText={handleSearchChange}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            {searchQuery.length > 0 && (
+              <TouchableOpacity onPress={() => handleSearchChange('')}>
+                <Ionicons name="close-circle" size={20} color={COLORS.SECONDARY[400]} />
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+        {isSearching ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={COLORS.PRIMARY[600]} />
+          </View>
+        ) : (
+          <FlatList
+            data={searchResults}
+            keyExtractor={(item) => String(item.id)}
+            renderItem={renderSearchResult}
+            contentContainerStyle={styles.listContent}
+            keyboardShouldPersistTaps="handled"
+            ListEmptyComponent={
+              searchQuery.trim().length < MIN_SEARCH_LENGTH
+                ? renderEmpty('search-outline', 'Find Friends', 'Search for people by their username.')
+                : renderEmpty('person-outline', 'No Users Found', 'Try a different username.')
+            }
+            showsVerticalScrollIndicator={false}
+          />
+        )}
+      </>
+    );
+  };
+
+  const TABS: { key: FriendsTab; label: string; count?: number }[] = [
+    { key: 'friends', label: 'Friends' },
+    { key: 'requests', label: 'Requests', count: incomingRequests.length },
+    { key: 'find', label: 'Find' },
+  ];
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => goBack()} style={styles.headerButton}>
+          <Ionicons name="arrow-back" size={24} color={COLORS.SECONDARY[900]} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Friends</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      {/* Tabs */}
+      <View style={styles.tabContainer}>
+        {TABS.map((tab) => (
+          <TouchableOpacity
+            key={tab.key}
+            style={[styles.tab, activeTab === tab.key && styles.tabActive]}
+            onPress={() => setActiveTab(tab.key)}
+          >
+            <Text style={[styles.tabText, activeTab === tab.key && styles.tabTextActive]}>{tab.label}</Text>
+            {!!tab.count && (
+              <View style={[styles.tabBadge, activeTab === tab.key && styles.tabBadgeActive]}>
+                <Text style={[styles.tabBadgeText, activeTab === tab.key && styles.tabBadgeTextActive]}>{tab.count}</Text>
+              </View>
+            )}
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {renderContent()}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.NEUTRAL[50],
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.NEUTRAL[200],
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: FONT_SIZES.XL,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  tabContainer: {
+    flexDirection: 'row',
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderRadius: 12,
+    padding: 4,
+    marginHorizontal: 16,
+    marginTop: 16,
+  },
+  tab: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    paddingVertical: 10,
+    alignItems: 'center',
+    borderRadius: 8,
+    gap: 6,
+  },
+  tabActive: {
+    backgroundColor: COLORS.PRIMARY[500],
+  },
+  tabText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[600],
+  },
+  tabTextActive: {
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  tabBadge: {
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 5,
+    backgroundColor: COLORS.ERROR[500],
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  tabBadgeActive: {
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+  },
+  tabBadgeText: {
+    fontSize: 10,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  tabBadgeTextActive: {
+    color: COLORS.PRIMARY[600],
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 40,
+    flexGrow: 1,
+  },
+  sectionLabel: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[500],
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 8,
+  },
+  sectionLabelSpaced: {
+    marginTop: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderRadius: 14,
+    padding: 12,
+    marginBottom: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 3,
+    elevation: 1,
+  },
+  presenceDot: {
+    position: 'absolute',
+    right: 0,
+    bottom: 0,
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 2,
+    borderColor: COLORS.NEUTRAL.WHITE,
+  },
+  rowInfo: {
+    flex: 1,
+    marginLeft: 12,
+    marginRight: 8,
+  },
+  rowTitle: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  rowSubtitle: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[600],
+  },
+  rowMeta: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 8,
+  },
+  requestActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  smallButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  acceptButton: {
+    backgroundColor: COLORS.PRIMARY[600],
+  },
+  declineButton: {
+    backgroundColor: COLORS.SECONDARY[100],
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 14,
+    paddingVertical: 7,
+    borderRadius: 16,
+    backgroundColor: COLORS.PRIMARY[600],
+  },
+  primaryButtonText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  statusText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[500],
+  },
+  searchWrapper: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[900],
+    marginLeft: 12,
+  },
+  emptyState: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+    paddingVertical: 60,
+  },
+  emptyStateTitle: {
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+    marginTop: 16,
+  },
+  emptyStateText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
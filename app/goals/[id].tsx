@@ -0,0 +1,576 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router, useLocalSearchParams, useFocusEffect } from 'expo-router';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+import { GOAL_TYPES, GOAL_PRIORITIES, GOAL_STATUS_DISPLAY } from '../../constants/goals';
+import { useAuth } from '../../contexts/AuthContext';
+import { useAlert } from '../../contexts/AlertContext';
+import { useSmartBack } from '../../hooks/useSmartBack';
+import { useGoalsStore } from '../../stores/goalsStore';
+import { trackingService, Goal } from '../../services/microservices/trackingService';
+import {
+  projectGoalCompletion,
+  formatGoalValue,
+  isTrackedGoalType,
+  isMilestoneReached,
+} from '../../utils/goalProjection';
+import { parseISODate } from '../../utils/dateUtils';
+
+const formatDate = (date: Date | string | null) => {
+  const parsed = typeof date === 'string' ? parseISODate(date) : date;
+  return parsed ? parsed.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' }) : '–';
+};
+
+export default function GoalDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { user } = useAuth();
+  const alert = useAlert();
+  const { goBack } = useSmartBack();
+
+  const storeGoal = useGoalsStore((state) => state.goals.find((g) => g.id === id));
+  const weightHistory = useGoalsStore((state) => state.weightHistory);
+  const [fetchedGoal, setFetchedGoal] = useState<Goal | null>(null);
+  const [isLoading, setIsLoading] = useState(!storeGoal);
+  const [refreshing, setRefreshing] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // The store copy stays current after syncs; the fetched copy covers deep links
+  const goal = storeGoal || fetchedGoal;
+
+  const load = useCallback(async () => {
+    if (!id || !user?.id) return;
+    try {
+      await useGoalsStore.getState().syncProgress(user.id);
+      if (!useGoalsStore.getState().goals.some((g) => g.id === id)) {
+        setFetchedGoal(await trackingService.getGoal(id));
+      }
+    } catch (err) {
+      console.error('❌ [GOAL] Failed to load goal:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id, user?.id]);
+
+  useFocusEffect(
+    useCallback(() => {
+      load();
+    }, [load])
+  );
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await load();
+    setRefreshing(false);
+  };
+
+  const projection = useMemo(() => (goal ? projectGoalCompletion(goal, weightHistory) : null), [goal, weightHistory]);
+
+  const handleToggleActive = async () => {
+    if (!goal || isSubmitting) return;
+    setIsSubmitting(true);
+    try {
+      await useGoalsStore.getState().updateGoal(goal.id, { isActive: !goal.isActive });
+    } catch (err: any) {
+      alert.error('Error', err.message || 'Failed to update goal.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!goal) return;
+    alert.confirm(
+      'Delete Goal',
+      `Delete "${goal.title}"? Its progress and milestones will be removed.`,
+      async () => {
+        try {
+          await useGoalsStore.getState().deleteGoal(goal.id);
+          router.replace('/goals');
+        } catch (err: any) {
+          alert.error('Error', err.message || 'Failed to delete goal.');
+        }
+      },
+      undefined,
+      'Delete',
+      'Cancel'
+    );
+  };
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <TouchableOpacity onPress={() => goBack()} style={styles.backButton}>
+        <Ionicons name="arrow-back" size={24} color={COLORS.SECONDARY[900]} />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle}>Goal</Text>
+      {goal ? (
+        <TouchableOpacity onPress={handleDelete} style={styles.backButton}>
+          <Ionicons name="trash-outline" size={22} color={COLORS.ERROR[500]} />
+        </TouchableOpacity>
+      ) : (
+        <View style={styles.backButton} />
+      )}
+    </View>
+  );
+
+  if (!goal || !projection) {
+    return (
+      <SafeAreaView style={styles.container} edges={['top']}>
+        {renderHeader()}
+        <View style={styles.loadingContainer}>
+          {isLoading ? (
+            <ActivityIndicator size="large" color={COLORS.PRIMARY[600]} />
+          ) : (
+            <>
+              <Ionicons name="flag-outline" size={64} color={COLORS.SECONDARY[300]} />
+              <Text style={styles.loadingText}>Goal not found.</Text>
+            </>
+          )}
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const typeConfig = isTrackedGoalType(goal.type) ? GOAL_TYPES[goal.type] : null;
+  const color = typeConfig?.color || COLORS.PRIMARY[600];
+  const status = GOAL_STATUS_DISPLAY[projection.status];
+  const priorityConfig = GOAL_PRIORITIES[goal.priority] || GOAL_PRIORITIES.medium;
+  const milestones = [...goal.milestones].sort((a, b) => new Date(a.targetDate).getTime() - new Date(b.targetDate).getTime());
+  const unit = goal.unit || typeConfig?.unit;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {renderHeader()}
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={COLORS.PRIMARY[600]} />}
+      >
+        {/* Hero */}
+        <View style={[styles.heroCard, { backgroundColor: color }]}>
+          <View style={styles.heroBadges}>
+            <View style={styles.heroBadge}>
+              <Ionicons name={typeConfig?.icon || 'flag'} size={14} color="white" />
+              <Text style={styles.heroBadgeText}>{typeConfig?.label || goal.type}</Text>
+            </View>
+            <View style={[styles.heroBadge, { backgroundColor: priorityConfig.bgColor }]}>
+              <Text style={[styles.heroBadgeText, { color: priorityConfig.color }]}>{priorityConfig.label}</Text>
+            </View>
+            {!goal.isActive && (
+              <View style={styles.heroBadge}>
+                <Ionicons name="pause" size={12} color="white" />
+                <Text style={styles.heroBadgeText}>PAUSED</Text>
+              </View>
+            )}
+          </View>
+          <Text style={styles.heroTitle}>{goal.title}</Text>
+          {!!goal.description && <Text style={styles.heroDescription}>{goal.description}</Text>}
+
+          <View style={styles.heroProgressRow}>
+            <Text style={styles.heroPercentage}>{Math.round(projection.percentage)}%</Text>
+            <Text style={styles.heroValues}>
+              {formatGoalValue(goal.type, goal.currentValue, unit)} / {formatGoalValue(goal.type, goal.targetValue, unit)}
+            </Text>
+          </View>
+          <View style={styles.heroProgressBar}>
+            <View style={[styles.heroProgressFill, { width: `${projection.percentage}%` }]} />
+          </View>
+        </View>
+
+        {/* Projection */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Projection</Text>
+          <View style={styles.card}>
+            <View style={styles.statusRow}>
+              <Ionicons name={status.icon} size={22} color={status.color} />
+              <Text style={[styles.statusText, { color: status.color }]}>{status.label}</Text>
+            </View>
+
+            <View style={styles.projectionGrid}>
+              <View style={styles.projectionItem}>
+                <Text style={styles.projectionLabel}>Target date</Text>
+                <Text style={styles.projectionValue}>{formatDate(goal.targetDate)}</Text>
+              </View>
+              <View style={styles.projectionItem}>
+                <Text style={styles.projectionLabel}>Projected</Text>
+                <Text style={styles.projectionValue}>
+                  {projection.status === 'completed' ? 'Done' : formatDate(projection.projectedDate)}
+                </Text>
+              </View>
+            </View>
+
+            {projection.status !== 'completed' && (
+              <View style={styles.projectionGrid}>
+                <View style={styles.projectionItem}>
+                  <Text style={styles.projectionLabel}>Your pace</Text>
+                  <Text style={styles.projectionValue}>
+                    {projection.ratePerWeek !== null ? `${formatGoalValue(goal.type, Math.abs(projection.ratePerWeek), unit)}/wk` : '–'}
+                  </Text>
+                </View>
+                <View style={styles.projectionItem}>
+                  <Text style={styles.projectionLabel}>Needed</Text>
+                  <Text style={styles.projectionValue}>
+                    {projection.requiredRatePerWeek !== null ? `${formatGoalValue(goal.type, projection.requiredRatePerWeek, unit)}/wk` : '–'}
+                  </Text>
+                </View>
+              </View>
+            )}
+
+            {projection.status === 'no-data' && (
+              <Text style={styles.projectionHint}>
+                {goal.type === 'weight-loss'
+                  ? 'Log your weight at least twice to see a projection.'
+                  : 'Complete a workout to start tracking your pace.'}
+              </Text>
+            )}
+          </View>
+        </View>
+
+        {/* Milestones */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Milestones</Text>
+          <View style={styles.card}>
+            <View style={styles.timelineRow}>
+              <View style={styles.timelineRail}>
+                <View style={[styles.timelineNode, { backgroundColor: color }]}>
+                  <Ionicons name="play" size={10} color="white" />
+                </View>
+                <View style={styles.timelineLine} />
+              </View>
+              <View style={styles.timelineContent}>
+                <Text style={styles.timelineTitle}>
+                  Started{goal.startValue !== undefined && goal.type === 'weight-loss' ? ` at ${formatGoalValue(goal.type, goal.startValue, unit)}` : ''}
+                </Text>
+                <Text style={styles.timelineDate}>{formatDate(goal.startDate)}</Text>
+              </View>
+            </View>
+
+            {milestones.map((milestone) => {
+              const reached = isMilestoneReached(goal, milestone);
+              return (
+                <View key={milestone.id} style={styles.timelineRow}>
+                  <View style={styles.timelineRail}>
+                    <View style={[styles.timelineNode, reached ? { backgroundColor: color } : styles.timelineNodePending]}>
+                      {reached && <Ionicons name="checkmark" size={12} color="white" />}
+                    </View>
+                    <View style={styles.timelineLine} />
+                  </View>
+                  <View style={styles.timelineContent}>
+                    <Text style={[styles.timelineTitle, !reached && styles.timelineTitlePending]}>{milestone.title}</Text>
+                    <Text style={styles.timelineDate}>
+                      {reached && milestone.completedAt ? `Reached ${formatDate(milestone.completedAt)}` : `By ${formatDate(milestone.targetDate)}`}
+                    </Text>
+                    {!!milestone.reward && (
+                      <View style={styles.rewardRow}>
+                        <Ionicons name="gift-outline" size={12} color={COLORS.WARNING[600]} />
+                        <Text style={styles.rewardText}>{milestone.reward}</Text>
+                      </View>
+                    )}
+                  </View>
+                </View>
+              );
+            })}
+
+            <View style={styles.timelineRow}>
+              <View style={styles.timelineRail}>
+                <View style={[styles.timelineNode, projection.status === 'completed' ? { backgroundColor: color } : styles.timelineNodePending]}>
+                  <Ionicons name="flag" size={10} color={projection.status === 'completed' ? 'white' : COLORS.SECONDARY[400]} />
+                </View>
+              </View>
+              <View style={styles.timelineContent}>
+                <Text style={styles.timelineTitle}>Goal: {formatGoalValue(goal.type, goal.targetValue, unit)}</Text>
+                <Text style={styles.timelineDate}>By {formatDate(goal.targetDate)}</Text>
+              </View>
+            </View>
+          </View>
+        </View>
+
+        <View style={{ height: 100 }} />
+      </ScrollView>
+
+      {projection.status !== 'completed' && (
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={[styles.actionButton, goal.isActive ? styles.pauseButton : styles.resumeButton]}
+            onPress={handleToggleActive}
+            disabled={isSubmitting}
+            activeOpacity={0.8}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator color={goal.isActive ? COLORS.SECONDARY[700] : 'white'} />
+            ) : (
+              <>
+                <Ionicons name={goal.isActive ? 'pause' : 'play'} size={18} color={goal.isActive ? COLORS.SECONDARY[700] : 'white'} />
+                <Text style={[styles.actionButtonText, goal.isActive && styles.pauseButtonText]}>
+                  {goal.isActive ? 'Pause Goal' : 'Resume Goal'}
+                </Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.NEUTRAL[50],
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.NEUTRAL[200],
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: FONT_SIZES.XL,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[600],
+    marginTop: 16,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  heroCard: {
+    borderRadius: 16,
+    padding: 20,
+  },
+  heroBadges: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  heroBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.25)',
+  },
+  heroBadgeText: {
+    fontSize: 10,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.NEUTRAL.WHITE,
+    letterSpacing: 0.5,
+  },
+  heroTitle: {
+    fontSize: FONT_SIZES.XXL,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  heroDescription: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.NEUTRAL.WHITE,
+    marginTop: 8,
+    lineHeight: 20,
+    opacity: 0.9,
+  },
+  heroProgressRow: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    justifyContent: 'space-between',
+    marginTop: 20,
+  },
+  heroPercentage: {
+    fontSize: 36,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  heroValues: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  heroProgressBar: {
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+    overflow: 'hidden',
+    marginTop: 8,
+  },
+  heroProgressFill: {
+    height: '100%',
+    borderRadius: 5,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+  },
+  section: {
+    marginTop: 24,
+  },
+  sectionTitle: {
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderRadius: 16,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  statusText: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.BOLD,
+  },
+  projectionGrid: {
+    flexDirection: 'row',
+    marginTop: 16,
+  },
+  projectionItem: {
+    flex: 1,
+  },
+  projectionLabel: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.SECONDARY[500],
+  },
+  projectionValue: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+    marginTop: 2,
+  },
+  projectionHint: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 12,
+  },
+  timelineRow: {
+    flexDirection: 'row',
+  },
+  timelineRail: {
+    width: 24,
+    alignItems: 'center',
+  },
+  timelineNode: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  timelineNodePending: {
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderWidth: 2,
+    borderColor: COLORS.NEUTRAL[300],
+  },
+  timelineLine: {
+    flex: 1,
+    width: 2,
+    minHeight: 20,
+    backgroundColor: COLORS.NEUTRAL[200],
+  },
+  timelineContent: {
+    flex: 1,
+    marginLeft: 12,
+    paddingBottom: 16,
+  },
+  timelineTitle: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  timelineTitlePending: {
+    color: COLORS.SECONDARY[500],
+  },
+  timelineDate: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 2,
+  },
+  rewardRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 4,
+  },
+  rewardText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.WARNING[700],
+  },
+  footer: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    padding: 16,
+    paddingBottom: 28,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.NEUTRAL[200],
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 16,
+    borderRadius: 12,
+  },
+  resumeButton: {
+    backgroundColor: COLORS.PRIMARY[600],
+  },
+  pauseButton: {
+    backgroundColor: COLORS.NEUTRAL[100],
+  },
+  actionButtonText: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  pauseButtonText: {
+    color: COLORS.SECONDARY[700],
+  },
+});
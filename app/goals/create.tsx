@@ -0,0 +1,505 @@
+import React, { useState, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { Input } from '../../components/ui/Input';
+import { Button } from '../../components/ui/Button';
+import { DatePicker } from '../../components/ui/DatePicker';
+import { PageIndicator } from '../../components/ui/PageIndicator';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+import { GOAL_TYPES, GOAL_PRIORITIES, TrackedGoalType } from '../../constants/goals';
+import { useAuth } from '../../contexts/AuthContext';
+import { useAlert } from '../../contexts/AlertContext';
+import { useSmartBack } from '../../hooks/useSmartBack';
+import { useGoalsStore } from '../../stores/goalsStore';
+import { Goal } from '../../services/microservices/trackingService';
+import { buildGoalMilestones, formatGoalValue } from '../../utils/goalProjection';
+import { formatDateToISO, parseISODate } from '../../utils/dateUtils';
+
+type WizardStep = 0 | 1 | 2;
+
+const STEP_TITLES = ['What do you want to achieve?', 'Set your target', 'Review your plan'];
+
+const addWeeks = (weeks: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + weeks * 7);
+  return date;
+};
+
+export default function CreateGoalScreen() {
+  const { user } = useAuth();
+  const alert = useAlert();
+  const { goBack } = useSmartBack();
+  const createGoal = useGoalsStore((state) => state.createGoal);
+  const weightHistory = useGoalsStore((state) => state.weightHistory);
+
+  // Latest logged weight wins over the onboarding value
+  const knownWeight = weightHistory.length > 0 ? weightHistory[weightHistory.length - 1].value : user?.weight;
+
+  const [step, setStep] = useState<WizardStep>(0);
+  const [type, setType] = useState<TrackedGoalType | null>(null);
+  const [startWeight, setStartWeight] = useState(knownWeight ? String(knownWeight) : '');
+  const [target, setTarget] = useState('');
+  const [targetDate, setTargetDate] = useState<Date | null>(null);
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [priority, setPriority] = useState<Goal['priority']>('medium');
+  const [includeMilestones, setIncludeMilestones] = useState(true);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const config = type ? GOAL_TYPES[type] : null;
+  const startValue = type === 'weight-loss' ? parseFloat(startWeight) : 0;
+  const targetValue = parseFloat(target);
+
+  const milestones = useMemo(() => {
+    if (!type || !targetDate || isNaN(startValue) || isNaN(targetValue)) return [];
+    return buildGoalMilestones(type, startValue, targetValue, new Date(), targetDate);
+  }, [type, startValue, targetValue, targetDate]);
+
+  const selectType = (nextType: TrackedGoalType) => {
+    const nextConfig = GOAL_TYPES[nextType];
+    setType(nextType);
+    setTargetDate(addWeeks(nextConfig.defaultWeeks));
+    setTitle(nextConfig.label);
+    setErrors({});
+
+    if (nextType === 'weight-loss') {
+      const weight = parseFloat(startWeight);
+      setTarget(weight ? String(Math.round((weight - nextConfig.defaultTarget) * 10) / 10) : '');
+    } else {
+      setTarget(String(nextConfig.defaultTarget));
+    }
+    setStep(1);
+  };
+
+  const validateTarget = (): boolean => {
+    const nextErrors: Record<string, string> = {};
+
+    if (type === 'weight-loss') {
+      if (!startValue || startValue < 30 || startValue > 300) nextErrors.startWeight = 'Enter your current weight in kg';
+      if (!targetValue || targetValue < 30) nextErrors.target = 'Enter a realistic target weight';
+      else if (targetValue >= startValue) nextErrors.target = 'Target must be below your current weight';
+    } else if (!targetValue || targetValue < 1) {
+      nextErrors.target = 'Enter a target of at least 1';
+    }
+    if (!targetDate) nextErrors.targetDate = 'Pick a target date';
+
+    setErrors(nextErrors);
+    return Object.keys(nextErrors).length === 0;
+  };
+
+  const handleNext = () => {
+    if (step === 1 && !validateTarget()) return;
+    setStep((prev) => Math.min(prev + 1, 2) as WizardStep);
+  };
+
+  const handleBack = () => {
+    if (step === 0) {
+      goBack();
+      return;
+    }
+    setStep((prev) => (prev - 1) as WizardStep);
+  };
+
+  const handleSubmit = async () => {
+    if (!type || !config || !targetDate || isSubmitting) return;
+    if (title.trim().length < 3) {
+      setErrors({ title: 'Title must be at least 3 characters' });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const goal = await createGoal({
+        type,
+        title: title.trim(),
+        description: description.trim() || config.description,
+        startValue,
+        currentValue: startValue,
+        targetValue,
+        unit: config.unit,
+        targetDate: formatDateToISO(targetDate),
+        priority,
+        milestones: includeMilestones ? milestones : undefined,
+      });
+
+      // Pick up progress already made (e.g. today's workout or a recent weigh-in)
+      if (user?.id) {
+        useGoalsStore.getState().syncProgress(user.id).catch(() => {});
+      }
+
+      alert.success('Goal Set!', `"${goal.title}" is now being tracked.`, () => {
+        router.replace(`/goals/${goal.id}`);
+      });
+    } catch (err: any) {
+      alert.error('Error', err.message || 'Failed to create goal.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderTypeStep = () => (
+    <View style={styles.typeList}>
+      {(Object.keys(GOAL_TYPES) as TrackedGoalType[]).map((key) => {
+        const option = GOAL_TYPES[key];
+        const isActive = type === key;
+        return (
+          <TouchableOpacity
+            key={key}
+            style={[styles.typeCard, isActive && { borderColor: option.color }]}
+            onPress={() => selectType(key)}
+            activeOpacity={0.7}
+          >
+            <View style={[styles.typeIcon, { backgroundColor: option.bgColor }]}>
+              <Ionicons name={option.icon} size={24} color={option.color} />
+            </View>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.typeLabel}>{option.label}</Text>
+              <Text style={styles.typeDescription}>{option.description}</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color={COLORS.SECONDARY[400]} />
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderTargetStep = () => {
+    if (!config) return null;
+    return (
+      <>
+        {type === 'weight-loss' && (
+          <Input
+            label="Current weight (kg)"
+            value={startWeight}
+            onChangeText={setStartWeight}
+            placeholder="e.g. 80"
+            keyboardType="numeric"
+            maxLength={5}
+            error={errors.startWeight}
+          />
+        )}
+        <Input
+          label={`${config.targetLabel} (${config.unit})`}
+          value={target}
+          onChangeText={setTarget}
+          placeholder={String(config.defaultTarget)}
+          keyboardType="numeric"
+          maxLength={5}
+          error={errors.target}
+        />
+        <DatePicker
+          label="Target date"
+          value={targetDate}
+          onDateChange={setTargetDate}
+          minimumDate={addWeeks(1)}
+          error={errors.targetDate}
+        />
+
+        {type && type !== 'weight-loss' && targetDate && targetValue > 0 && (
+          <View style={styles.paceHint}>
+            <Ionicons name="information-circle" size={18} color={COLORS.PRIMARY[600]} />
+            <Text style={styles.paceHintText}>
+              That is about {formatGoalValue(type, targetValue / Math.max((targetDate.getTime() - Date.now()) / (7 * 24 * 60 * 60 * 1000), 1))} per week.
+            </Text>
+          </View>
+        )}
+      </>
+    );
+  };
+
+  const renderReviewStep = () => {
+    if (!config || !type || !targetDate) return null;
+    return (
+      <>
+        <View style={[styles.summaryCard, { backgroundColor: config.bgColor }]}>
+          <Ionicons name={config.icon} size={28} color={config.color} />
+          <View style={{ flex: 1 }}>
+            <Text style={[styles.summaryTitle, { color: config.color }]}>
+              {type === 'weight-loss'
+                ? `${formatGoalValue(type, startValue)} → ${formatGoalValue(type, targetValue)}`
+                : formatGoalValue(type, targetValue)}
+            </Text>
+            <Text style={styles.summaryText}>by {targetDate.toLocaleDateString()}</Text>
+          </View>
+        </View>
+
+        <Input
+          label="Title"
+          value={title}
+          onChangeText={setTitle}
+          placeholder="Name your goal"
+          autoCapitalize="sentences"
+          maxLength={60}
+          error={errors.title}
+        />
+        <Input
+          label="Why it matters (optional)"
+          value={description}
+          onChangeText={setDescription}
+          placeholder="e.g. Feel fitter for the summer hike"
+          autoCapitalize="sentences"
+          multiline
+          numberOfLines={2}
+          maxLength={200}
+        />
+
+        <Text style={styles.label}>Priority</Text>
+        <View style={styles.optionRow}>
+          {(Object.keys(GOAL_PRIORITIES) as Goal['priority'][]).map((key) => {
+            const option = GOAL_PRIORITIES[key];
+            const isActive = priority === key;
+            return (
+              <TouchableOpacity
+                key={key}
+                style={[styles.optionCard, isActive && { borderColor: option.color, backgroundColor: option.bgColor }]}
+                onPress={() => setPriority(key)}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.optionText, isActive && { color: option.color }]}>{option.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <View style={styles.milestoneHeader}>
+          <Text style={styles.label}>Milestones</Text>
+          <TouchableOpacity onPress={() => setIncludeMilestones((prev) => !prev)} hitSlop={8}>
+            <Ionicons
+              name={includeMilestones ? 'checkbox' : 'square-outline'}
+              size={22}
+              color={includeMilestones ? COLORS.PRIMARY[600] : COLORS.SECONDARY[400]}
+            />
+          </TouchableOpacity>
+        </View>
+        {includeMilestones && (
+          <View style={styles.milestoneList}>
+            {milestones.map((milestone, index) => (
+              <View key={index} style={styles.milestoneRow}>
+                <View style={[styles.milestoneDot, { backgroundColor: config.color }]} />
+                <Text style={styles.milestoneTitle}>{milestone.title}</Text>
+                <Text style={styles.milestoneDate}>{parseISODate(milestone.targetDate)?.toLocaleDateString()}</Text>
+              </View>
+            ))}
+          </View>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={handleBack} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={COLORS.SECONDARY[900]} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>New Goal</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      <KeyboardAvoidingView style={{ flex: 1 }} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          <PageIndicator totalPages={3} currentIndex={step} size={8} />
+          <Text style={styles.stepTitle}>{STEP_TITLES[step]}</Text>
+
+          {step === 0 && renderTypeStep()}
+          {step === 1 && renderTargetStep()}
+          {step === 2 && renderReviewStep()}
+
+          {step === 1 && (
+            <Button title="Next" onPress={handleNext} size="large" style={{ marginTop: 8 }} />
+          )}
+          {step === 2 && (
+            <Button
+              title="Set Goal"
+              onPress={handleSubmit}
+              loading={isSubmitting}
+              disabled={isSubmitting}
+              size="large"
+              style={{ marginTop: 16 }}
+            />
+          )}
+
+          <View style={{ height: 40 }} />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.NEUTRAL[50],
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.NEUTRAL[200],
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: FONT_SIZES.XL,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  stepTitle: {
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+    textAlign: 'center',
+    marginTop: 16,
+    marginBottom: 20,
+  },
+  typeList: {
+    gap: 12,
+  },
+  typeCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1.5,
+    borderColor: COLORS.NEUTRAL[200],
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+  },
+  typeIcon: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  typeLabel: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  typeDescription: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 2,
+  },
+  paceHint: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    marginBottom: 16,
+    borderRadius: 12,
+    backgroundColor: COLORS.PRIMARY[50],
+  },
+  paceHintText: {
+    flex: 1,
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.PRIMARY[700],
+  },
+  summaryCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderRadius: 16,
+  },
+  summaryTitle: {
+    fontSize: FONT_SIZES.XL,
+    fontFamily: FONTS.BOLD,
+  },
+  summaryText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.SECONDARY[600],
+  },
+  label: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[700],
+    marginBottom: 8,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  optionCard: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1.5,
+    borderColor: COLORS.NEUTRAL[200],
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+  },
+  optionText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[600],
+  },
+  milestoneHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  milestoneList: {
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    gap: 10,
+  },
+  milestoneRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  milestoneDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  milestoneTitle: {
+    flex: 1,
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.SECONDARY[800],
+  },
+  milestoneDate: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+  },
+});
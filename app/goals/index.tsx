@@ -0,0 +1,241 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router, useFocusEffect } from 'expo-router';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+import { useAuth } from '../../contexts/AuthContext';
+import { useSmartBack } from '../../hooks/useSmartBack';
+import { useGoalsStore } from '../../stores/goalsStore';
+import { GoalProgressCard } from '../../components/goals/GoalProgressCard';
+import { Goal } from '../../services/microservices/trackingService';
+import { getGoalPercentage } from '../../utils/goalProjection';
+
+export default function GoalsScreen() {
+  const { user } = useAuth();
+  const { goBack } = useSmartBack();
+  const goals = useGoalsStore((state) => state.goals);
+  const weightHistory = useGoalsStore((state) => state.weightHistory);
+  const hasLoaded = useGoalsStore((state) => state.hasLoaded);
+  const syncProgress = useGoalsStore((state) => state.syncProgress);
+
+  const [refreshing, setRefreshing] = useState(false);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  const sync = useCallback(async () => {
+    if (!user?.id) return;
+    // Syncing also loads goals the first time, so the list and progress stay consistent
+    await syncProgress(user.id);
+    setLoadFailed(!useGoalsStore.getState().hasLoaded);
+  }, [user?.id, syncProgress]);
+
+  useFocusEffect(
+    useCallback(() => {
+      sync();
+    }, [sync])
+  );
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await useGoalsStore.getState().loadGoals().catch(() => {});
+    await sync();
+    setRefreshing(false);
+  };
+
+  const sections = useMemo(() => {
+    const active: Goal[] = [];
+    const completed: Goal[] = [];
+    const paused: Goal[] = [];
+
+    goals.forEach((goal) => {
+      if (getGoalPercentage(goal) >= 100) completed.push(goal);
+      else if (goal.isActive) active.push(goal);
+      else paused.push(goal);
+    });
+
+    // Nearest deadline first
+    active.sort((a, b) => new Date(a.targetDate).getTime() - new Date(b.targetDate).getTime());
+    return { active, completed, paused };
+  }, [goals]);
+
+  const renderSection = (title: string, items: Goal[]) => {
+    if (items.length === 0) return null;
+    return (
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>{title}</Text>
+          <Text style={styles.sectionCount}>{items.length}</Text>
+        </View>
+        <View style={styles.goalList}>
+          {items.map((goal) => (
+            <GoalProgressCard
+              key={goal.id}
+              goal={goal}
+              weightHistory={weightHistory}
+              onPress={() => router.push(`/goals/${goal.id}`)}
+            />
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => goBack()} style={styles.headerButton}>
+          <Ionicons name="arrow-back" size={24} color={COLORS.SECONDARY[900]} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>My Goals</Text>
+        <TouchableOpacity onPress={() => router.push('/goals/create')} style={styles.headerButton}>
+          <Ionicons name="add-circle" size={28} color={COLORS.PRIMARY[600]} />
+        </TouchableOpacity>
+      </View>
+
+      {!hasLoaded && !loadFailed ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={COLORS.PRIMARY[600]} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={COLORS.PRIMARY[600]} />}
+        >
+          {loadFailed ? (
+            <View style={styles.emptyState}>
+              <Ionicons name="cloud-offline-outline" size={64} color={COLORS.SECONDARY[300]} />
+              <Text style={styles.emptyStateTitle}>Could Not Load Goals</Text>
+              <Text style={styles.emptyStateText}>Pull down to try again.</Text>
+            </View>
+          ) : goals.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Ionicons name="flag-outline" size={64} color={COLORS.SECONDARY[300]} />
+              <Text style={styles.emptyStateTitle}>No Goals Yet</Text>
+              <Text style={styles.emptyStateText}>
+                Set a weight, endurance or consistency goal and we will track it from your workouts.
+              </Text>
+              <TouchableOpacity style={styles.emptyStateButton} onPress={() => router.push('/goals/create')}>
+                <Ionicons name="add" size={18} color="white" />
+                <Text style={styles.emptyStateButtonText}>Set a Goal</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <>
+              {renderSection('Active', sections.active)}
+              {renderSection('Completed', sections.completed)}
+              {renderSection('Paused', sections.paused)}
+            </>
+          )}
+
+          <View style={{ height: 40 }} />
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.NEUTRAL[50],
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.NEUTRAL[200],
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: FONT_SIZES.XL,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  sectionCount: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[500],
+  },
+  goalList: {
+    gap: 12,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderRadius: 16,
+  },
+  emptyStateTitle: {
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[700],
+    marginTop: 16,
+  },
+  emptyStateText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 8,
+    textAlign: 'center',
+    paddingHorizontal: 40,
+  },
+  emptyStateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 20,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: COLORS.PRIMARY[600],
+  },
+  emptyStateButtonText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+});
@@ -107,7 +107,7 @@ export default function DiscoverGroupsScreen() {
       const groupsWithCounts = await Promise.all(
         result.groups.map(async (group: Group) => {
           try {
-            const membersData = await socialService.getGroupMembers(group.id, 1, 1);
+            const membersData = await socialService.getGroupMembers(group.id, 1, 1, { priority: 'background' });
             return { ...group, memberCount: membersData.total || group.memberCount };
           } catch {
             return group;
@@ -23,6 +23,7 @@ import { Avatar } from '../../components/ui/Avatar';
 import { CreateGroupModal } from '../../components/groups/CreateGroupModal';
 import { mediaService } from '../../services/microservices/mediaService';
 import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+import { PLAN_ASSIGNMENTS_ENABLED } from '../../constants/coachingPlans';
 
 interface TrainingGroup extends Group {
   members: GroupMember[];
@@ -360,6 +361,26 @@ export default function MentorDashboardScreen() {
           </View>
         </View>
 
+        {/* Coaching Plans */}
+        {PLAN_ASSIGNMENTS_ENABLED && (
+          <View style={styles.section}>
+            <TouchableOpacity
+              style={styles.plansCard}
+              onPress={() => router.push('/mentor/plans')}
+              activeOpacity={0.7}
+            >
+              <View style={[styles.quickActionIcon, { backgroundColor: COLORS.PRIMARY[50], marginBottom: 0 }]}>
+                <Ionicons name="clipboard" size={24} color={COLORS.PRIMARY[600]} />
+              </View>
+              <View style={styles.groupInfo}>
+                <Text style={styles.groupName}>Coaching Plans</Text>
+                <Text style={styles.groupMeta}>Assign programs and track trainee adherence</Text>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color={COLORS.SECONDARY[400]} />
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Training Groups */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
@@ -741,6 +762,19 @@ const styles = StyleSheet.create({
     fontFamily: FONTS.SEMIBOLD,
     color: COLORS.NEUTRAL.WHITE,
   },
+  plansCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 1,
+  },
   quickActions: {
     flexDirection: 'row',
     gap: 12,
@@ -16,11 +16,26 @@ import { router, useLocalSearchParams, useFocusEffect } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useSmartBack } from '../../../hooks/useSmartBack';
 
+import { useAuth } from '../../../contexts/AuthContext';
 import { authService, User } from '../../../services/microservices/authService';
-import { trackingService } from '../../../services/microservices/trackingService';
+import { trackingService, WorkoutSession } from '../../../services/microservices/trackingService';
+import { planningService, PlanAssignment, WorkoutPlan } from '../../../services/microservices/planningService';
 import { mediaService } from '../../../services/microservices/mediaService';
+import { MessageAttachment } from '../../../services/microservices/commsService';
+import { useMessagesStore } from '../../../stores/messagesStore';
+import { MESSAGING_ENABLED } from '../../../constants/messages';
+import { PLAN_ASSIGNMENTS_ENABLED } from '../../../constants/coachingPlans';
 import { Avatar } from '../../../components/ui/Avatar';
+import { AdherenceMatrix } from '../../../components/mentor/AdherenceMatrix';
 import { COLORS, FONTS, FONT_SIZES } from '../../../constants/colors';
+import {
+  AdherenceSummary,
+  AdherenceWeek,
+  buildAdherenceWeeks,
+  getCompletedDates,
+  getProgramWeek,
+  summarizeAdherence,
+} from '../../../utils/coachingPlans';
 
 const { width } = Dimensions.get('window');
 
@@ -55,6 +70,13 @@ interface Assessment {
   assessment_data: any;
 }
 
+interface CoachingPlanProgress {
+  plan: WorkoutPlan;
+  assignment: PlanAssignment;
+  weeks: AdherenceWeek[];
+  summary: AdherenceSummary;
+}
+
 interface SessionHistory {
   id: string;
   workoutName: string;
@@ -71,6 +93,7 @@ interface SessionHistory {
 
 export default function MemberDetailScreen() {
   const { goBack } = useSmartBack();
+  const { user } = useAuth();
   const { id, username } = useLocalSearchParams<{ id: string; username?: string }>();
 
   const [member, setMember] = useState<User | null>(null);
@@ -78,19 +101,42 @@ export default function MemberDetailScreen() {
   const [weeklySummary, setWeeklySummary] = useState<WeeklySummary | null>(null);
   const [assessments, setAssessments] = useState<Assessment[]>([]);
   const [sessions, setSessions] = useState<SessionHistory[]>([]);
+  const [coachingPlan, setCoachingPlan] = useState<CoachingPlanProgress | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [activeTab, setActiveTab] = useState<'overview' | 'assessments' | 'sessions'>('overview');
   const [showPhotoModal, setShowPhotoModal] = useState(false);
+  const unreadMessages = useMessagesStore(
+    (state) => state.threads.find((t) => t.user_id === Number(id))?.unread_count || 0
+  );
 
   useFocusEffect(
     useCallback(() => {
       if (id) {
         loadMemberData();
+        if (MESSAGING_ENABLED) {
+          useMessagesStore.getState().loadThreads().catch(() => {});
+        }
       }
     }, [id])
   );
 
+  // Open the direct thread with this member, optionally commenting on a session or assessment
+  const openMessages = (attachment?: MessageAttachment) => {
+    router.push({
+      pathname: '/messages/[userId]',
+      params: {
+        userId: id,
+        username: member?.username || username || '',
+        ...(attachment && {
+          attachType: attachment.type,
+          attachId: attachment.id,
+          attachLabel: attachment.label,
+        }),
+      },
+    });
+  };
+
   const loadMemberData = async () => {
     if (!id) return;
 
@@ -150,6 +196,10 @@ export default function MemberDetailScreen() {
         }));
         setSessions(transformedSessions);
       }
+
+      if (PLAN_ASSIGNMENTS_ENABLED) {
+        await loadCoachingPlan(results[4].status === 'fulfilled' ? results[4].value?.sessions || [] : []);
+      }
     } catch (error) {
       console.error('Error loading member data:', error);
     } finally {
@@ -157,6 +207,40 @@ export default function MemberDetailScreen() {
     }
   };
 
+  // The trainee's active plan from this mentor, laid over their completed sessions
+  const loadCoachingPlan = async (memberSessions: WorkoutSession[]) => {
+    if (!id) return;
+
+    try {
+      const assignments = await planningService.getUserAssignments(id);
+      const assignment = assignments.find((a) => a.status === 'active' && String(a.assigned_by) === String(user?.id));
+      if (!assignment) {
+        setCoachingPlan(null);
+        return;
+      }
+
+      const [plans, schedule] = await Promise.all([
+        planningService.getUserPlans(user?.id),
+        planningService.getWorkoutSchedule(assignment.workout_plan_id),
+      ]);
+      const plan = plans.find((p) => String(p.id) === String(assignment.workout_plan_id));
+      if (!plan) {
+        setCoachingPlan(null);
+        return;
+      }
+
+      const weeks = buildAdherenceWeeks(
+        schedule,
+        assignment.start_date,
+        plan.duration_weeks,
+        getCompletedDates(memberSessions)
+      );
+      setCoachingPlan({ plan, assignment, weeks, summary: summarizeAdherence(weeks) });
+    } catch (error) {
+      console.error('Failed to load coaching plan:', error);
+    }
+  };
+
   const onRefresh = async () => {
     setRefreshing(true);
     await loadMemberData();
@@ -244,6 +328,55 @@ export default function MemberDetailScreen() {
         </View>
       </View>
 
+      {/* Coaching Plan */}
+      {PLAN_ASSIGNMENTS_ENABLED && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Coaching Plan</Text>
+          {coachingPlan ? (
+            <TouchableOpacity
+              style={styles.infoCard}
+              onPress={() => router.push(`/mentor/plans/${coachingPlan.plan.id}`)}
+              activeOpacity={0.8}
+            >
+              <View style={styles.planHeader}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.planName}>{coachingPlan.plan.name}</Text>
+                  <Text style={styles.planMeta}>
+                    Week {getProgramWeek(coachingPlan.assignment.start_date, coachingPlan.plan.duration_weeks)} of{' '}
+                    {coachingPlan.plan.duration_weeks} • {coachingPlan.summary.completed}/{coachingPlan.summary.due} done
+                  </Text>
+                </View>
+                <Text style={styles.planRate}>{coachingPlan.summary.adherenceRate}%</Text>
+              </View>
+              {coachingPlan.summary.flagged && (
+                <View style={styles.planFlag}>
+                  <Ionicons name="warning" size={16} color={COLORS.ERROR[600]} />
+                  <Text style={styles.planFlagText}>
+                    Missed the last {coachingPlan.summary.missedStreak} planned sessions
+                  </Text>
+                </View>
+              )}
+              <AdherenceMatrix
+                rows={coachingPlan.weeks.map((week) => ({
+                  key: week.weekStart,
+                  label: `Week ${week.weekNumber}`,
+                  cells: week.cells,
+                }))}
+              />
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity
+              style={[styles.infoCard, styles.planEmpty]}
+              onPress={() => router.push('/mentor/plans')}
+              activeOpacity={0.8}
+            >
+              <Ionicons name="clipboard-outline" size={20} color={COLORS.PRIMARY[600]} />
+              <Text style={styles.planEmptyText}>No coaching plan assigned. Assign one from Coaching Plans.</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
       {/* Weekly Progress */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>This Week</Text>
@@ -379,6 +512,19 @@ export default function MemberDetailScreen() {
                   </View>
                 )}
               </View>
+              {MESSAGING_ENABLED && (
+                <TouchableOpacity
+                  style={styles.commentAction}
+                  onPress={() => openMessages({
+                    type: 'assessment',
+                    id: assessment.assessment_id.toString(),
+                    label: `${getAssessmentTypeLabel(assessment.assessment_type)} • ${formatDate(assessment.assessment_date)}`,
+                  })}
+                >
+                  <Ionicons name="chatbubble-outline" size={16} color={COLORS.PRIMARY[600]} />
+                  <Text style={styles.commentActionText}>Comment</Text>
+                </TouchableOpacity>
+              )}
             </View>
           ))}
         </View>
@@ -433,6 +579,19 @@ export default function MemberDetailScreen() {
                     <Text style={styles.sessionCaloriesText}>{Math.round(session.caloriesBurned)} kcal</Text>
                   </View>
                 </View>
+                {MESSAGING_ENABLED && (
+                  <TouchableOpacity
+                    style={styles.commentAction}
+                    onPress={() => openMessages({
+                      type: 'session',
+                      id: session.id,
+                      label: `${isGroup ? 'Group Tabata Workout' : 'Tabata Workout'} • ${formatDate(session.date)}`,
+                    })}
+                  >
+                    <Ionicons name="chatbubble-outline" size={16} color={COLORS.PRIMARY[600]} />
+                    <Text style={styles.commentActionText}>Comment</Text>
+                  </TouchableOpacity>
+                )}
               </TouchableOpacity>
             );
           })}
@@ -467,7 +626,18 @@ export default function MemberDetailScreen() {
             <Ionicons name="arrow-back" size={24} color={COLORS.SECONDARY[900]} />
           </TouchableOpacity>
           <Text style={styles.headerTitle}>Member Details</Text>
-          <View style={styles.headerRight} />
+          {MESSAGING_ENABLED ? (
+            <TouchableOpacity onPress={() => openMessages()} style={styles.headerRight}>
+              <Ionicons name="chatbubble-ellipses-outline" size={24} color={COLORS.PRIMARY[600]} />
+              {unreadMessages > 0 && (
+                <View style={styles.messageBadge}>
+                  <Text style={styles.messageBadgeText}>{unreadMessages > 9 ? '9+' : unreadMessages}</Text>
+                </View>
+              )}
+            </TouchableOpacity>
+          ) : (
+            <View style={styles.headerRight} />
+          )}
         </View>
 
         {/* Member Profile Header */}
@@ -599,6 +769,26 @@ const styles = StyleSheet.create({
   },
   headerRight: {
     width: 44,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  messageBadge: {
+    position: 'absolute',
+    top: 2,
+    right: 4,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 4,
+    backgroundColor: COLORS.ERROR[500],
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  messageBadgeText: {
+    fontSize: 10,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.NEUTRAL.WHITE,
   },
   profileHeader: {
     alignItems: 'center',
@@ -696,6 +886,53 @@ const styles = StyleSheet.create({
     fontFamily: FONTS.SEMIBOLD,
     color: COLORS.SECONDARY[900],
   },
+  planHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  planName: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  planMeta: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 2,
+  },
+  planRate: {
+    fontSize: FONT_SIZES.XL,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.PRIMARY[600],
+  },
+  planFlag: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: COLORS.ERROR[50],
+    marginBottom: 12,
+  },
+  planFlagText: {
+    flex: 1,
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.ERROR[700],
+  },
+  planEmpty: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  planEmptyText: {
+    flex: 1,
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[600],
+  },
   levelBadge: {
     paddingHorizontal: 10,
     paddingVertical: 4,
@@ -843,6 +1080,20 @@ const styles = StyleSheet.create({
     shadowRadius: 2,
     elevation: 1,
   },
+  commentAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.NEUTRAL[100],
+  },
+  commentActionText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.PRIMARY[600],
+  },
   sessionHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
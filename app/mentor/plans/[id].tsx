@@ -0,0 +1,591 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router, useLocalSearchParams, useFocusEffect } from 'expo-router';
+import { addDays, format, parseISO, startOfWeek } from 'date-fns';
+import { COLORS, FONTS, FONT_SIZES } from '../../../constants/colors';
+import {
+  DAYS_OF_WEEK,
+  PLAN_DIFFICULTIES,
+  PLAN_GOALS,
+  PLAN_WORKOUT_TYPES,
+  PlanWorkoutType,
+  PLAN_ASSIGNMENTS_ENABLED,
+} from '../../../constants/coachingPlans';
+import { useAuth } from '../../../contexts/AuthContext';
+import { useAlert } from '../../../contexts/AlertContext';
+import { useSmartBack } from '../../../hooks/useSmartBack';
+import {
+  planningService,
+  PlanAssignment,
+  WorkoutPlan,
+  WorkoutPlanSchedule,
+} from '../../../services/microservices/planningService';
+import { trackingService } from '../../../services/microservices/trackingService';
+import { AdherenceMatrix } from '../../../components/mentor/AdherenceMatrix';
+import { AssignPlanModal } from '../../../components/mentor/AssignPlanModal';
+import {
+  AdherenceSummary,
+  AdherenceWeek,
+  buildAdherenceWeeks,
+  getCompletedDates,
+  getWeekCells,
+  summarizeAdherence,
+} from '../../../utils/coachingPlans';
+
+interface TraineeProgress {
+  assignment: PlanAssignment;
+  weeks: AdherenceWeek[];
+  summary: AdherenceSummary;
+}
+
+const formatWeekKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export default function CoachingPlanDetailScreen() {
+  const { user } = useAuth();
+  const alert = useAlert();
+  const { goBack } = useSmartBack();
+  const { id } = useLocalSearchParams<{ id: string }>();
+
+  const [plan, setPlan] = useState<WorkoutPlan | null>(null);
+  const [schedule, setSchedule] = useState<WorkoutPlanSchedule[]>([]);
+  const [trainees, setTrainees] = useState<TraineeProgress[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [weekStart, setWeekStart] = useState(() => formatWeekKey(startOfWeek(new Date(), { weekStartsOn: 1 })));
+  const [showAssignModal, setShowAssignModal] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (id && user?.id) {
+        loadPlan();
+      }
+    }, [id, user?.id])
+  );
+
+  const loadPlan = async () => {
+    if (!id) return;
+
+    try {
+      const [plans, planSchedule, assignments] = await Promise.all([
+        planningService.getUserPlans(user?.id),
+        planningService.getWorkoutSchedule(id),
+        PLAN_ASSIGNMENTS_ENABLED ? planningService.getPlanAssignments(id) : Promise.resolve([]),
+      ]);
+
+      const currentPlan = plans.find((p) => String(p.id) === String(id)) || null;
+      setPlan(currentPlan);
+      setSchedule(planSchedule);
+      if (!currentPlan) return;
+
+      const active = assignments.filter((assignment) => assignment.status !== 'cancelled');
+      console.log(`📋 [COACHING] Plan ${id}: ${active.length} active trainee(s)`);
+
+      // Completed sessions come from each trainee's own history
+      const sessionResults = await Promise.allSettled(
+        active.map((assignment) => trackingService.getSessions({ userId: assignment.user_id, limit: 100 }))
+      );
+
+      setTrainees(
+        active.map((assignment, index) => {
+          const result = sessionResults[index];
+          const sessions = result?.status === 'fulfilled' ? result.value.sessions : [];
+          const weeks = buildAdherenceWeeks(
+            planSchedule,
+            assignment.start_date,
+            currentPlan.duration_weeks,
+            getCompletedDates(sessions)
+          );
+          return { assignment, weeks, summary: summarizeAdherence(weeks) };
+        })
+      );
+    } catch (error) {
+      console.error('❌ [COACHING] Failed to load plan:', error);
+      alert.error('Error', 'Failed to load this plan. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadPlan();
+    setRefreshing(false);
+  };
+
+  // Pager covers every week any trainee is on the program
+  const weekRange = useMemo(() => {
+    const starts = trainees.flatMap((t) => t.weeks.map((w) => w.weekStart)).sort();
+    return starts.length > 0 ? { first: starts[0], last: starts[starts.length - 1] } : null;
+  }, [trainees]);
+
+  const shiftWeek = (direction: -1 | 1) => {
+    setWeekStart((prev) => formatWeekKey(addDays(parseISO(prev), direction * 7)));
+  };
+
+  const handleUnassign = (progress: TraineeProgress) => {
+    const name = progress.assignment.username || 'this trainee';
+    alert.confirm(
+      'Remove Trainee',
+      `Stop ${name}'s plan? Their completed sessions stay in their history.`,
+      async () => {
+        const removed = await planningService.unassignPlan(progress.assignment.id);
+        if (removed) {
+          setTrainees((prev) => prev.filter((t) => t.assignment.id !== progress.assignment.id));
+        } else {
+          alert.error('Error', 'Failed to remove trainee from this plan.');
+        }
+      },
+      undefined,
+      'Remove',
+      'Cancel'
+    );
+  };
+
+  const openTrainee = (assignment: PlanAssignment) => {
+    router.push({
+      pathname: '/mentor/member/[id]',
+      params: { id: assignment.user_id, username: assignment.username },
+    });
+  };
+
+  const flaggedTrainees = trainees.filter((t) => t.summary.flagged);
+  const trainingDays = schedule.filter((entry) => !entry.is_rest_day);
+
+  const renderScheduleStrip = () => (
+    <View style={styles.scheduleStrip}>
+      {DAYS_OF_WEEK.map((day) => {
+        const entry = trainingDays.find((e) => e.day_of_week === day.key);
+        const config = entry && entry.workout_type !== 'rest' ? PLAN_WORKOUT_TYPES[entry.workout_type as PlanWorkoutType] : null;
+        return (
+          <View key={day.key} style={styles.scheduleDay}>
+            <Text style={styles.scheduleDayLabel}>{day.short}</Text>
+            <View style={[styles.scheduleDayIcon, { backgroundColor: config?.bgColor || COLORS.SECONDARY[50] }]}>
+              {config ? (
+                <Ionicons name={config.icon} size={16} color={config.color} />
+              ) : (
+                <Ionicons name="bed-outline" size={16} color={COLORS.SECONDARY[300]} />
+              )}
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container} edges={['top']}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={COLORS.PRIMARY[600]} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!plan) {
+    return (
+      <SafeAreaView style={styles.container} edges={['top']}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={goBack} style={styles.backButton}>
+            <Ionicons name="arrow-back" size={24} color={COLORS.SECONDARY[900]} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Coaching Plan</Text>
+          <View style={styles.backButton} />
+        </View>
+        <View style={styles.emptyState}>
+          <Ionicons name="clipboard-outline" size={64} color={COLORS.SECONDARY[300]} />
+          <Text style={styles.emptyTitle}>Plan Not Found</Text>
+          <Text style={styles.emptySubtitle}>It may have been deleted.</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const difficulty = PLAN_DIFFICULTIES[plan.difficulty];
+  const weekEnd = addDays(parseISO(weekStart), 6);
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={goBack} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={COLORS.SECONDARY[900]} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>{plan.name}</Text>
+        <TouchableOpacity
+          onPress={() => router.push({ pathname: '/mentor/plans/create', params: { planId: plan.id } })}
+          style={styles.backButton}
+        >
+          <Ionicons name="create-outline" size={22} color={COLORS.PRIMARY[600]} />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        {/* Plan summary */}
+        <View style={styles.card}>
+          <View style={styles.badgeRow}>
+            <View style={[styles.badge, { backgroundColor: difficulty.bgColor }]}>
+              <Text style={[styles.badgeText, { color: difficulty.color }]}>{difficulty.label}</Text>
+            </View>
+            <Text style={styles.metaText}>
+              {plan.duration_weeks} weeks • {plan.sessions_per_week}x / week
+            </Text>
+          </View>
+          {!!plan.description && <Text style={styles.description}>{plan.description}</Text>}
+          {plan.goals?.length > 0 && (
+            <Text style={styles.goalsText}>
+              Goals: {plan.goals.map((goal) => PLAN_GOALS.find((g) => g.key === goal)?.label || goal).join(', ')}
+            </Text>
+          )}
+          {renderScheduleStrip()}
+        </View>
+
+        {/* Needs attention */}
+        {flaggedTrainees.length > 0 && (
+          <View style={styles.alertCard}>
+            <Ionicons name="warning" size={20} color={COLORS.ERROR[600]} />
+            <View style={{ flex: 1 }}>
+              <Text style={styles.alertTitle}>
+                {flaggedTrainees.length} trainee{flaggedTrainees.length !== 1 ? 's' : ''} falling behind
+              </Text>
+              <Text style={styles.alertText}>
+                {flaggedTrainees
+                  .map((t) => `${t.assignment.username || 'Trainee'} (${t.summary.missedStreak} missed)`)
+                  .join(', ')}
+              </Text>
+            </View>
+          </View>
+        )}
+
+        {PLAN_ASSIGNMENTS_ENABLED && (
+          <>
+            {/* Adherence matrix */}
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Adherence</Text>
+              <Text style={styles.sectionCount}>{trainees.length} trainee{trainees.length !== 1 ? 's' : ''}</Text>
+            </View>
+            {trainees.length === 0 ? (
+              <View style={[styles.card, styles.emptyCard]}>
+                <Ionicons name="people-outline" size={40} color={COLORS.SECONDARY[300]} />
+                <Text style={styles.emptySubtitle}>Assign this plan to trainees to track their sessions.</Text>
+              </View>
+            ) : (
+              <View style={styles.card}>
+                <View style={styles.weekPager}>
+                  <TouchableOpacity
+                    onPress={() => shiftWeek(-1)}
+                    disabled={!weekRange || weekStart <= weekRange.first}
+                    hitSlop={8}
+                  >
+                    <Ionicons
+                      name="chevron-back"
+                      size={20}
+                      color={!weekRange || weekStart <= weekRange.first ? COLORS.SECONDARY[200] : COLORS.SECONDARY[700]}
+                    />
+                  </TouchableOpacity>
+                  <Text style={styles.weekLabel}>
+                    {format(parseISO(weekStart), 'MMM d')} – {format(weekEnd, 'MMM d')}
+                  </Text>
+                  <TouchableOpacity
+                    onPress={() => shiftWeek(1)}
+                    disabled={!weekRange || weekStart >= weekRange.last}
+                    hitSlop={8}
+                  >
+                    <Ionicons
+                      name="chevron-forward"
+                      size={20}
+                      color={!weekRange || weekStart >= weekRange.last ? COLORS.SECONDARY[200] : COLORS.SECONDARY[700]}
+                    />
+                  </TouchableOpacity>
+                </View>
+                <AdherenceMatrix
+                  rows={trainees.map((t) => ({
+                    key: t.assignment.id,
+                    label: t.assignment.username || `Trainee ${t.assignment.user_id}`,
+                    cells: getWeekCells(t.weeks, weekStart),
+                    flagged: t.summary.flagged,
+                    trailing: `${t.summary.adherenceRate}%`,
+                    onPress: () => openTrainee(t.assignment),
+                  }))}
+                />
+              </View>
+            )}
+
+            {/* Trainee list */}
+            {trainees.length > 0 && (
+              <View style={styles.card}>
+                {trainees.map((t) => (
+                  <View key={t.assignment.id} style={styles.traineeRow}>
+                    <TouchableOpacity style={{ flex: 1 }} onPress={() => openTrainee(t.assignment)} activeOpacity={0.7}>
+                      <Text style={styles.traineeName}>{t.assignment.username || `Trainee ${t.assignment.user_id}`}</Text>
+                      <Text style={styles.traineeMeta}>
+                        {t.summary.completed}/{t.summary.due} due sessions done • {t.summary.missed} missed • started{' '}
+                        {format(parseISO(t.assignment.start_date), 'MMM d')}
+                      </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={() => handleUnassign(t)} hitSlop={8}>
+                      <Ionicons name="person-remove-outline" size={20} color={COLORS.SECONDARY[400]} />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </View>
+            )}
+          </>
+        )}
+
+        <View style={{ height: 100 }} />
+      </ScrollView>
+
+      {PLAN_ASSIGNMENTS_ENABLED && (
+        <>
+          <View style={styles.footer}>
+            <TouchableOpacity style={styles.primaryButton} onPress={() => setShowAssignModal(true)}>
+              <Ionicons name="person-add" size={18} color={COLORS.NEUTRAL.WHITE} />
+              <Text style={styles.primaryButtonText}>Assign Plan</Text>
+            </TouchableOpacity>
+          </View>
+
+          <AssignPlanModal
+            visible={showAssignModal}
+            planId={plan.id}
+            planName={plan.name}
+            assignedUserIds={trainees.map((t) => t.assignment.user_id)}
+            onClose={() => setShowAssignModal(false)}
+            onAssigned={() => loadPlan()}
+          />
+        </>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.NEUTRAL[50],
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.NEUTRAL[200],
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: FONT_SIZES.XL,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  card: {
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  badgeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  badge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  badgeText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.BOLD,
+  },
+  metaText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.SECONDARY[600],
+  },
+  description: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[700],
+    lineHeight: 20,
+    marginBottom: 8,
+  },
+  goalsText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.SECONDARY[500],
+    marginBottom: 8,
+  },
+  scheduleStrip: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  scheduleDay: {
+    alignItems: 'center',
+    gap: 4,
+  },
+  scheduleDayLabel: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[500],
+  },
+  scheduleDayIcon: {
+    width: 34,
+    height: 34,
+    borderRadius: 17,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  alertCard: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 14,
+    borderRadius: 12,
+    backgroundColor: COLORS.ERROR[50],
+    marginBottom: 16,
+  },
+  alertTitle: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.ERROR[700],
+  },
+  alertText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.ERROR[700],
+    marginTop: 2,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  sectionCount: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.SECONDARY[500],
+  },
+  weekPager: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  weekLabel: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[800],
+  },
+  traineeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.NEUTRAL[100],
+  },
+  traineeName: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  traineeMeta: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 2,
+  },
+  emptyState: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+    gap: 8,
+  },
+  emptyCard: {
+    alignItems: 'center',
+    gap: 8,
+  },
+  emptyTitle: {
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  emptySubtitle: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    textAlign: 'center',
+  },
+  footer: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    padding: 16,
+    paddingBottom: 32,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.NEUTRAL[200],
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: COLORS.PRIMARY[600],
+    borderRadius: 12,
+    paddingVertical: 14,
+  },
+  primaryButtonText: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+});
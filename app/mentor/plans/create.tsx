@@ -0,0 +1,504 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Input } from '../../../components/ui/Input';
+import { Button } from '../../../components/ui/Button';
+import { COLORS, FONTS, FONT_SIZES } from '../../../constants/colors';
+import {
+  DAYS_OF_WEEK,
+  DEFAULT_SESSION_DURATION,
+  DayOfWeek,
+  PLAN_DIFFICULTIES,
+  PLAN_DURATION_WEEKS,
+  PLAN_GOALS,
+  PLAN_WORKOUT_TYPES,
+  PlanWorkoutType,
+  SESSION_DURATION_OPTIONS,
+} from '../../../constants/coachingPlans';
+import { useAuth } from '../../../contexts/AuthContext';
+import { useAlert } from '../../../contexts/AlertContext';
+import { useSmartBack } from '../../../hooks/useSmartBack';
+import {
+  planningService,
+  WorkoutPlan,
+  WorkoutScheduleRequest,
+} from '../../../services/microservices/planningService';
+
+type Difficulty = WorkoutPlan['difficulty'];
+type DayPlan = Record<DayOfWeek, PlanWorkoutType | null>;
+
+const DEFAULT_DAY_PLAN: DayPlan = {
+  monday: 'strength',
+  tuesday: null,
+  wednesday: 'cardio',
+  thursday: null,
+  friday: 'mixed',
+  saturday: null,
+  sunday: null,
+};
+
+export default function CoachingPlanBuilderScreen() {
+  const { user } = useAuth();
+  const alert = useAlert();
+  const { goBack } = useSmartBack();
+  const { planId } = useLocalSearchParams<{ planId?: string }>();
+  const isEditing = !!planId;
+
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [durationWeeks, setDurationWeeks] = useState(PLAN_DURATION_WEEKS[1]);
+  const [difficulty, setDifficulty] = useState<Difficulty>('beginner');
+  const [sessionDuration, setSessionDuration] = useState(DEFAULT_SESSION_DURATION);
+  const [goals, setGoals] = useState<string[]>(['consistency']);
+  const [dayPlan, setDayPlan] = useState<DayPlan>(DEFAULT_DAY_PLAN);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(isEditing);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const trainingDays = DAYS_OF_WEEK.filter((day) => dayPlan[day.key] !== null).map((day) => day.key);
+
+  useEffect(() => {
+    if (planId && user?.id) {
+      loadPlan(planId);
+    }
+  }, [planId, user?.id]);
+
+  const loadPlan = async (id: string) => {
+    try {
+      const [plans, schedule] = await Promise.all([
+        planningService.getUserPlans(user?.id),
+        planningService.getWorkoutSchedule(id),
+      ]);
+      const plan = plans.find((p) => String(p.id) === String(id));
+      if (!plan) {
+        alert.error('Not Found', 'This plan no longer exists.', () => goBack());
+        return;
+      }
+
+      setName(plan.name);
+      setDescription(plan.description || '');
+      setDurationWeeks(plan.duration_weeks);
+      setDifficulty(plan.difficulty);
+      setGoals(plan.goals || []);
+
+      const nextDayPlan = DAYS_OF_WEEK.reduce((acc, day) => ({ ...acc, [day.key]: null }), {} as DayPlan);
+      schedule.forEach((entry) => {
+        if (!entry.is_rest_day && entry.workout_type !== 'rest') {
+          nextDayPlan[entry.day_of_week] = entry.workout_type;
+        }
+      });
+      setDayPlan(nextDayPlan);
+      const firstTrainingDay = schedule.find((entry) => !entry.is_rest_day);
+      if (firstTrainingDay?.estimated_duration) {
+        setSessionDuration(firstTrainingDay.estimated_duration);
+      }
+    } catch (error) {
+      console.error('❌ [COACHING] Failed to load plan for editing:', error);
+      alert.error('Error', 'Failed to load this plan.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const setDayType = (day: DayOfWeek, type: PlanWorkoutType | null) => {
+    setDayPlan((prev) => ({ ...prev, [day]: type }));
+    setErrors((prev) => ({ ...prev, days: '' }));
+  };
+
+  const toggleGoal = (goal: string) => {
+    setGoals((prev) => (prev.includes(goal) ? prev.filter((g) => g !== goal) : [...prev, goal]));
+  };
+
+  const buildSchedule = (): WorkoutScheduleRequest => ({
+    selected_days: trainingDays,
+    sessions_per_week: trainingDays.length,
+    preferred_workout_types: Array.from(new Set(trainingDays.map((day) => dayPlan[day] as PlanWorkoutType))),
+    session_duration: sessionDuration,
+    rest_days: DAYS_OF_WEEK.filter((day) => dayPlan[day.key] === null).map((day) => day.key),
+    goals,
+    difficulty,
+    daily_workouts: trainingDays.map((day) => ({
+      day_of_week: day,
+      workout_type: dayPlan[day] as PlanWorkoutType,
+      estimated_duration: sessionDuration,
+    })),
+  });
+
+  const validate = (): boolean => {
+    const nextErrors: Record<string, string> = {};
+    if (name.trim().length < 3) nextErrors.name = 'Name must be at least 3 characters';
+    if (trainingDays.length === 0) nextErrors.days = 'Pick at least one training day';
+    setErrors(nextErrors);
+    return Object.keys(nextErrors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    if (isSubmitting || !validate()) return;
+
+    setIsSubmitting(true);
+    try {
+      const schedule = buildSchedule();
+      if (planId) {
+        await planningService.customizePlan(planId, {
+          name: name.trim(),
+          description: description.trim() || undefined,
+          duration_weeks: durationWeeks,
+          sessions_per_week: trainingDays.length,
+          difficulty,
+          goals,
+          schedule_updates: schedule,
+        });
+        console.log('✅ [COACHING] Updated coaching plan:', planId);
+        alert.success('Plan Updated', 'Assigned trainees will see the new schedule.', () => goBack());
+      } else {
+        const { plan } = await planningService.createWorkoutPlan({
+          name: name.trim(),
+          description: description.trim() || undefined,
+          duration_weeks: durationWeeks,
+          sessions_per_week: trainingDays.length,
+          difficulty,
+          goals,
+          schedule,
+          is_coaching_plan: true,
+        });
+        console.log('✅ [COACHING] Created coaching plan:', plan.id);
+        alert.success('Plan Created', 'Assign it to trainees to start tracking their adherence.', () => {
+          router.replace(`/mentor/plans/${plan.id}`);
+        });
+      }
+    } catch (error: any) {
+      alert.error('Error', error.message || 'Failed to save plan.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderDayRow = ({ key, short }: (typeof DAYS_OF_WEEK)[number]) => {
+    const selected = dayPlan[key];
+    return (
+      <View key={key} style={styles.dayRow}>
+        <Text style={styles.dayName}>{short}</Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.dayOptions}>
+          <TouchableOpacity
+            style={[styles.dayChip, selected === null && styles.dayChipRest]}
+            onPress={() => setDayType(key, null)}
+          >
+            <Text style={[styles.dayChipText, selected === null && { color: COLORS.SECONDARY[700] }]}>Rest</Text>
+          </TouchableOpacity>
+          {(Object.keys(PLAN_WORKOUT_TYPES) as PlanWorkoutType[]).map((type) => {
+            const config = PLAN_WORKOUT_TYPES[type];
+            const isActive = selected === type;
+            return (
+              <TouchableOpacity
+                key={type}
+                style={[styles.dayChip, isActive && { borderColor: config.color, backgroundColor: config.bgColor }]}
+                onPress={() => setDayType(key, type)}
+              >
+                <Ionicons name={config.icon} size={14} color={isActive ? config.color : COLORS.SECONDARY[400]} />
+                <Text style={[styles.dayChipText, isActive && { color: config.color }]}>{config.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={goBack} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={COLORS.SECONDARY[900]} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{isEditing ? 'Edit Plan' : 'New Coaching Plan'}</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={COLORS.PRIMARY[600]} />
+        </View>
+      ) : (
+        <KeyboardAvoidingView style={{ flex: 1 }} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+          <ScrollView
+            style={styles.scrollView}
+            contentContainerStyle={styles.scrollContent}
+            keyboardShouldPersistTaps="handled"
+            showsVerticalScrollIndicator={false}
+          >
+            <Input
+              label="Plan name"
+              value={name}
+              onChangeText={(text) => {
+                setName(text);
+                setErrors((prev) => ({ ...prev, name: '' }));
+              }}
+              placeholder="e.g. 6-Week Foundations"
+              autoCapitalize="words"
+              maxLength={60}
+              error={errors.name}
+            />
+            <Input
+              label="Notes for trainees (optional)"
+              value={description}
+              onChangeText={setDescription}
+              placeholder="What this program focuses on"
+              autoCapitalize="sentences"
+              multiline
+              numberOfLines={2}
+              maxLength={300}
+            />
+
+            <Text style={styles.label}>Length</Text>
+            <View style={styles.optionRow}>
+              {PLAN_DURATION_WEEKS.map((weeks) => {
+                const isActive = durationWeeks === weeks;
+                return (
+                  <TouchableOpacity
+                    key={weeks}
+                    style={[styles.optionCard, isActive && styles.optionCardActive]}
+                    onPress={() => setDurationWeeks(weeks)}
+                  >
+                    <Text style={[styles.optionText, isActive && styles.optionTextActive]}>{weeks} weeks</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <Text style={styles.label}>Difficulty</Text>
+            <View style={styles.optionRow}>
+              {(Object.keys(PLAN_DIFFICULTIES) as Difficulty[]).map((key) => {
+                const option = PLAN_DIFFICULTIES[key];
+                const isActive = difficulty === key;
+                return (
+                  <TouchableOpacity
+                    key={key}
+                    style={[styles.optionCard, isActive && { borderColor: option.color, backgroundColor: option.bgColor }]}
+                    onPress={() => setDifficulty(key)}
+                  >
+                    <Text style={[styles.optionText, isActive && { color: option.color }]}>{option.label}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <Text style={styles.label}>Session length</Text>
+            <View style={styles.optionRow}>
+              {SESSION_DURATION_OPTIONS.map((minutes) => {
+                const isActive = sessionDuration === minutes;
+                return (
+                  <TouchableOpacity
+                    key={minutes}
+                    style={[styles.optionCard, isActive && styles.optionCardActive]}
+                    onPress={() => setSessionDuration(minutes)}
+                  >
+                    <Text style={[styles.optionText, isActive && styles.optionTextActive]}>{minutes}m</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <Text style={styles.label}>Goals</Text>
+            <View style={styles.goalWrap}>
+              {PLAN_GOALS.map((goal) => {
+                const isActive = goals.includes(goal.key);
+                return (
+                  <TouchableOpacity
+                    key={goal.key}
+                    style={[styles.goalChip, isActive && styles.optionCardActive]}
+                    onPress={() => toggleGoal(goal.key)}
+                  >
+                    <Text style={[styles.optionText, isActive && styles.optionTextActive]}>{goal.label}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <View style={styles.weekHeader}>
+              <Text style={styles.label}>Weekly schedule</Text>
+              <Text style={styles.weekSummary}>
+                {trainingDays.length} session{trainingDays.length !== 1 ? 's' : ''} / week
+              </Text>
+            </View>
+            <Text style={styles.helperText}>
+              The same week repeats for the length of the program.
+            </Text>
+            <View style={styles.scheduleCard}>{DAYS_OF_WEEK.map(renderDayRow)}</View>
+            {!!errors.days && <Text style={styles.errorText}>{errors.days}</Text>}
+
+            <Button
+              title={isEditing ? 'Save Changes' : 'Create Plan'}
+              onPress={handleSubmit}
+              loading={isSubmitting}
+              disabled={isSubmitting}
+              size="large"
+              style={{ marginTop: 16 }}
+            />
+
+            <View style={{ height: 40 }} />
+          </ScrollView>
+        </KeyboardAvoidingView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.NEUTRAL[50],
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.NEUTRAL[200],
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: FONT_SIZES.XL,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  label: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[700],
+    marginBottom: 8,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  optionCard: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1.5,
+    borderColor: COLORS.NEUTRAL[200],
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+  },
+  optionCardActive: {
+    borderColor: COLORS.PRIMARY[500],
+    backgroundColor: COLORS.PRIMARY[50],
+  },
+  optionText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[600],
+  },
+  optionTextActive: {
+    color: COLORS.PRIMARY[600],
+  },
+  goalWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  goalChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1.5,
+    borderColor: COLORS.NEUTRAL[200],
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+  },
+  weekHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  weekSummary: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.PRIMARY[600],
+  },
+  helperText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginBottom: 8,
+  },
+  scheduleCard: {
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderRadius: 16,
+    paddingVertical: 4,
+  },
+  dayRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingLeft: 12,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.NEUTRAL[100],
+  },
+  dayName: {
+    width: 40,
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[800],
+  },
+  dayOptions: {
+    gap: 6,
+    paddingRight: 12,
+  },
+  dayChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1.5,
+    borderColor: COLORS.NEUTRAL[200],
+  },
+  dayChipRest: {
+    borderColor: COLORS.SECONDARY[300],
+    backgroundColor: COLORS.SECONDARY[100],
+  },
+  dayChipText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[500],
+  },
+  errorText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.ERROR[500],
+    marginTop: 6,
+  },
+});
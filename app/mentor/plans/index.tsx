@@ -0,0 +1,320 @@
+import React, { useState, useCallback, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router, useFocusEffect } from 'expo-router';
+import { COLORS, FONTS, FONT_SIZES } from '../../../constants/colors';
+import { PLAN_ASSIGNMENTS_ENABLED, PLAN_DIFFICULTIES } from '../../../constants/coachingPlans';
+import { useAuth } from '../../../contexts/AuthContext';
+import { useAlert } from '../../../contexts/AlertContext';
+import { useSmartBack } from '../../../hooks/useSmartBack';
+import { planningService, WorkoutPlan } from '../../../services/microservices/planningService';
+
+interface CoachingPlanItem extends WorkoutPlan {
+  traineeCount: number;
+}
+
+export default function CoachingPlansScreen() {
+  const { user } = useAuth();
+  const alert = useAlert();
+  const { goBack } = useSmartBack();
+  const [plans, setPlans] = useState<CoachingPlanItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const hasLoadedOnce = useRef(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (user?.id) {
+        loadPlans();
+      }
+    }, [user?.id])
+  );
+
+  const loadPlans = async () => {
+    try {
+      if (!hasLoadedOnce.current) {
+        setIsLoading(true);
+      }
+
+      // A mentor's own training plan lives in the same list; only show authored programs
+      const allPlans = await planningService.getUserPlans(user?.id);
+      const coachingPlans = allPlans.filter((plan) => plan.is_coaching_plan);
+
+      const assignmentResults = PLAN_ASSIGNMENTS_ENABLED
+        ? await Promise.allSettled(coachingPlans.map((plan) => planningService.getPlanAssignments(plan.id)))
+        : [];
+
+      setPlans(
+        coachingPlans.map((plan, index) => {
+          const result = assignmentResults[index];
+          const assignments = result?.status === 'fulfilled' ? result.value : [];
+          return {
+            ...plan,
+            traineeCount: assignments.filter((assignment) => assignment.status === 'active').length,
+          };
+        })
+      );
+      hasLoadedOnce.current = true;
+    } catch (error) {
+      console.error('❌ [COACHING] Failed to load coaching plans:', error);
+      alert.error('Error', 'Failed to load your coaching plans.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadPlans();
+    setRefreshing(false);
+  };
+
+  const handleDelete = (plan: CoachingPlanItem) => {
+    alert.confirm(
+      'Delete Plan',
+      plan.traineeCount > 0
+        ? `${plan.traineeCount} trainee${plan.traineeCount !== 1 ? 's are' : ' is'} on "${plan.name}". Deleting it ends their program.`
+        : `Delete "${plan.name}"?`,
+      async () => {
+        const deleted = await planningService.deleteWorkoutPlan(plan.id);
+        if (deleted) {
+          setPlans((prev) => prev.filter((p) => p.id !== plan.id));
+        } else {
+          alert.error('Error', 'Failed to delete plan.');
+        }
+      },
+      undefined,
+      'Delete',
+      'Cancel'
+    );
+  };
+
+  const renderPlanCard = (plan: CoachingPlanItem) => {
+    const difficulty = PLAN_DIFFICULTIES[plan.difficulty];
+    return (
+      <TouchableOpacity
+        key={plan.id}
+        style={styles.planCard}
+        onPress={() => router.push(`/mentor/plans/${plan.id}`)}
+        onLongPress={() => handleDelete(plan)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.planIcon}>
+          <Ionicons name="clipboard" size={22} color={COLORS.PRIMARY[600]} />
+        </View>
+        <View style={{ flex: 1 }}>
+          <Text style={styles.planName} numberOfLines={1}>{plan.name}</Text>
+          <Text style={styles.planMeta}>
+            {plan.duration_weeks} weeks • {plan.sessions_per_week}x / week
+          </Text>
+          <View style={styles.planFooter}>
+            <View style={[styles.badge, { backgroundColor: difficulty.bgColor }]}>
+              <Text style={[styles.badgeText, { color: difficulty.color }]}>{difficulty.label}</Text>
+            </View>
+            {PLAN_ASSIGNMENTS_ENABLED && (
+              <View style={styles.traineeCount}>
+                <Ionicons name="people-outline" size={14} color={COLORS.SECONDARY[500]} />
+                <Text style={styles.traineeCountText}>
+                  {plan.traineeCount} trainee{plan.traineeCount !== 1 ? 's' : ''}
+                </Text>
+              </View>
+            )}
+          </View>
+        </View>
+        <Ionicons name="chevron-forward" size={20} color={COLORS.SECONDARY[400]} />
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={goBack} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={COLORS.SECONDARY[900]} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Coaching Plans</Text>
+        <TouchableOpacity onPress={() => router.push('/mentor/plans/create')} style={styles.backButton}>
+          <Ionicons name="add" size={26} color={COLORS.PRIMARY[600]} />
+        </TouchableOpacity>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={COLORS.PRIMARY[600]} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+        >
+          {plans.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Ionicons name="clipboard-outline" size={64} color={COLORS.SECONDARY[300]} />
+              <Text style={styles.emptyTitle}>No Coaching Plans Yet</Text>
+              <Text style={styles.emptySubtitle}>
+                Build a multi-week program once and assign it to trainees or a whole training group
+              </Text>
+              <TouchableOpacity style={styles.createButton} onPress={() => router.push('/mentor/plans/create')}>
+                <Ionicons name="add" size={20} color={COLORS.NEUTRAL.WHITE} />
+                <Text style={styles.createButtonText}>Create Plan</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <>
+              {plans.map(renderPlanCard)}
+              <Text style={styles.hintText}>Long-press a plan to delete it</Text>
+            </>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.NEUTRAL[50],
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.NEUTRAL[200],
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: FONT_SIZES.XL,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  planCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  planIcon: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: COLORS.PRIMARY[50],
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  planName: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  planMeta: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 2,
+  },
+  planFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginTop: 8,
+  },
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  badgeText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.BOLD,
+  },
+  traineeCount: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  traineeCountText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.SECONDARY[500],
+  },
+  hintText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[400],
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+    paddingHorizontal: 24,
+  },
+  emptyTitle: {
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  emptySubtitle: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[600],
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  createButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: COLORS.PRIMARY[600],
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 12,
+  },
+  createButtonText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+});
@@ -0,0 +1,399 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, useFocusEffect } from 'expo-router';
+import { format, parseISO } from 'date-fns';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+import { MAX_MESSAGE_LENGTH } from '../../constants/messages';
+import { useAuth } from '../../contexts/AuthContext';
+import { useAlert } from '../../contexts/AlertContext';
+import { useSmartBack } from '../../hooks/useSmartBack';
+import { MessageAttachmentCard } from '../../components/messages/MessageAttachmentCard';
+import { DirectMessage, MessageAttachment } from '../../services/microservices/commsService';
+import { PendingMessage, useMessagesStore } from '../../stores/messagesStore';
+
+type ThreadItem =
+  | { kind: 'message'; key: string; message: DirectMessage }
+  | { kind: 'pending'; key: string; pending: PendingMessage };
+
+const PENDING_STATUS_LABELS: Record<PendingMessage['status'], string> = {
+  sending: 'Sending…',
+  queued: 'Waiting for connection',
+  failed: 'Not sent',
+};
+
+export default function MessageThreadScreen() {
+  const { userId, username, attachType, attachId, attachLabel } = useLocalSearchParams<{
+    userId: string;
+    username?: string;
+    attachType?: MessageAttachment['type'];
+    attachId?: string;
+    attachLabel?: string;
+  }>();
+  const otherUserId = Number(userId);
+  const { user } = useAuth();
+  const alert = useAlert();
+  const { goBack } = useSmartBack();
+
+  const conversation = useMessagesStore((state) => state.conversations[otherUserId]);
+  const pending = useMessagesStore((state) => state.pending);
+  const thread = useMessagesStore((state) => state.threads.find((t) => t.user_id === otherUserId));
+  const { loadConversation, loadOlder, sendMessage, retryMessage, discardMessage, openThread, closeThread } =
+    useMessagesStore.getState();
+
+  const [draft, setDraft] = useState('');
+  const [attachment, setAttachment] = useState<MessageAttachment | null>(
+    attachType && attachId ? { type: attachType, id: attachId, label: attachLabel || '' } : null
+  );
+  const [isLoading, setIsLoading] = useState(!conversation?.isLoaded);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!otherUserId) return;
+
+      openThread(otherUserId);
+      loadMessages();
+      return () => closeThread();
+    }, [otherUserId])
+  );
+
+  const loadMessages = async () => {
+    try {
+      await loadConversation(otherUserId);
+    } catch (error) {
+      console.error('❌ [MESSAGES] Failed to load conversation:', error);
+      alert.error('Error', 'Failed to load messages.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleLoadOlder = async () => {
+    if (isLoadingOlder || !conversation?.hasMore) return;
+    setIsLoadingOlder(true);
+    try {
+      await loadOlder(otherUserId);
+    } catch (error) {
+      console.error('❌ [MESSAGES] Failed to load older messages:', error);
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  };
+
+  const handleSend = () => {
+    const body = draft.trim();
+    if (!body && !attachment) return;
+
+    setDraft('');
+    setAttachment(null);
+    sendMessage(otherUserId, body, attachment);
+  };
+
+  const handleFailedPress = (item: PendingMessage) => {
+    alert.confirm(
+      'Message Not Sent',
+      'Try sending this message again?',
+      () => retryMessage(item.client_message_id),
+      () => discardMessage(item.client_message_id),
+      'Retry',
+      'Delete'
+    );
+  };
+
+  // Inverted list: index 0 renders at the bottom, so newest goes first
+  const items = useMemo<ThreadItem[]>(() => {
+    const ownPending = pending
+      .filter((p) => p.recipient_id === otherUserId)
+      .reverse()
+      .map((p) => ({ kind: 'pending' as const, key: p.client_message_id, pending: p }));
+    const messages = (conversation?.messages || []).map((m) => ({
+      kind: 'message' as const,
+      key: m.message_id,
+      message: m,
+    }));
+    return [...ownPending, ...messages];
+  }, [pending, conversation?.messages, otherUserId]);
+
+  const renderBubble = (
+    isMine: boolean,
+    body: string,
+    itemAttachment: MessageAttachment | null | undefined,
+    footer: React.ReactNode
+  ) => (
+    <View style={[styles.bubbleRow, isMine ? styles.bubbleRowMine : styles.bubbleRowTheirs]}>
+      <View style={[styles.bubble, isMine ? styles.bubbleMine : styles.bubbleTheirs]}>
+        {itemAttachment && (
+          <View style={body ? styles.bubbleAttachment : undefined}>
+            <MessageAttachmentCard attachment={itemAttachment} inverted={isMine} />
+          </View>
+        )}
+        {!!body && <Text style={[styles.bubbleText, isMine && styles.bubbleTextMine]}>{body}</Text>}
+      </View>
+      {footer}
+    </View>
+  );
+
+  const renderItem = ({ item }: { item: ThreadItem }) => {
+    if (item.kind === 'pending') {
+      const { pending: pendingMessage } = item;
+      const isFailed = pendingMessage.status === 'failed';
+      const bubble = renderBubble(
+        true,
+        pendingMessage.body,
+        pendingMessage.attachment,
+        <View style={styles.metaRow}>
+          {pendingMessage.status === 'queued' && (
+            <Ionicons name="cloud-offline-outline" size={12} color={COLORS.SECONDARY[400]} />
+          )}
+          {isFailed && <Ionicons name="alert-circle" size={12} color={COLORS.ERROR[500]} />}
+          <Text style={[styles.metaText, isFailed && { color: COLORS.ERROR[500] }]}>
+            {PENDING_STATUS_LABELS[pendingMessage.status]}
+            {isFailed ? ' • Tap to retry' : ''}
+          </Text>
+        </View>
+      );
+      return isFailed ? (
+        <TouchableOpacity onPress={() => handleFailedPress(pendingMessage)} activeOpacity={0.7}>
+          {bubble}
+        </TouchableOpacity>
+      ) : (
+        bubble
+      );
+    }
+
+    const { message } = item;
+    const isMine = Number(message.sender_id) === Number(user?.id);
+    return renderBubble(
+      isMine,
+      message.body,
+      message.attachment,
+      <View style={styles.metaRow}>
+        <Text style={styles.metaText}>{format(parseISO(message.created_at), 'MMM d, h:mm a')}</Text>
+        {isMine && message.is_read && <Ionicons name="checkmark-done" size={12} color={COLORS.PRIMARY[500]} />}
+      </View>
+    );
+  };
+
+  const title = thread?.username || username || 'Messages';
+  const canSend = draft.trim().length > 0 || !!attachment;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={goBack} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={COLORS.SECONDARY[900]} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>{title}</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      <KeyboardAvoidingView style={{ flex: 1 }} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        {isLoading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={COLORS.PRIMARY[600]} />
+          </View>
+        ) : (
+          <FlatList
+            data={items}
+            keyExtractor={(item) => item.key}
+            renderItem={renderItem}
+            inverted={items.length > 0}
+            contentContainerStyle={items.length === 0 ? styles.emptyContent : styles.listContent}
+            onEndReached={handleLoadOlder}
+            onEndReachedThreshold={0.3}
+            ListFooterComponent={
+              isLoadingOlder ? <ActivityIndicator style={{ marginVertical: 12 }} color={COLORS.PRIMARY[600]} /> : null
+            }
+            ListEmptyComponent={
+              <View style={styles.emptyState}>
+                <Ionicons name="chatbubble-ellipses-outline" size={56} color={COLORS.SECONDARY[300]} />
+                <Text style={styles.emptyText}>Start the conversation with {title}</Text>
+              </View>
+            }
+          />
+        )}
+
+        <View style={styles.composer}>
+          {attachment && (
+            <View style={styles.composerAttachment}>
+              <MessageAttachmentCard attachment={attachment} onRemove={() => setAttachment(null)} />
+            </View>
+          )}
+          <View style={styles.composerRow}>
+            <TextInput
+              style={styles.input}
+              value={draft}
+              onChangeText={setDraft}
+              placeholder={attachment ? 'Add a comment…' : 'Message…'}
+              placeholderTextColor={COLORS.SECONDARY[400]}
+              maxLength={MAX_MESSAGE_LENGTH}
+              multiline
+            />
+            <TouchableOpacity
+              style={[styles.sendButton, !canSend && styles.sendButtonDisabled]}
+              onPress={handleSend}
+              disabled={!canSend}
+            >
+              <Ionicons name="send" size={18} color={COLORS.NEUTRAL.WHITE} />
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.NEUTRAL[50],
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.NEUTRAL[200],
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: FONT_SIZES.XL,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  emptyContent: {
+    flexGrow: 1,
+  },
+  emptyState: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+  },
+  emptyText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  bubbleRow: {
+    marginVertical: 4,
+    maxWidth: '80%',
+  },
+  bubbleRowMine: {
+    alignSelf: 'flex-end',
+    alignItems: 'flex-end',
+  },
+  bubbleRowTheirs: {
+    alignSelf: 'flex-start',
+    alignItems: 'flex-start',
+  },
+  bubble: {
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  bubbleMine: {
+    backgroundColor: COLORS.PRIMARY[600],
+    borderBottomRightRadius: 4,
+  },
+  bubbleTheirs: {
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderBottomLeftRadius: 4,
+    borderWidth: 1,
+    borderColor: COLORS.NEUTRAL[200],
+  },
+  bubbleAttachment: {
+    marginBottom: 6,
+  },
+  bubbleText: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[900],
+  },
+  bubbleTextMine: {
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  metaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 2,
+    paddingHorizontal: 4,
+  },
+  metaText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[400],
+  },
+  composer: {
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.NEUTRAL[200],
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  composerAttachment: {
+    marginBottom: 8,
+  },
+  composerRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    maxHeight: 120,
+    minHeight: 40,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 20,
+    backgroundColor: COLORS.NEUTRAL[100],
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[900],
+  },
+  sendButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: COLORS.PRIMARY[600],
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  sendButtonDisabled: {
+    backgroundColor: COLORS.SECONDARY[300],
+  },
+});
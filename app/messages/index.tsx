@@ -0,0 +1,267 @@
+import React, { useState, useCallback, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router, useFocusEffect } from 'expo-router';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+import { MESSAGE_ATTACHMENT_TYPES } from '../../constants/messages';
+import { useAuth } from '../../contexts/AuthContext';
+import { useAlert } from '../../contexts/AlertContext';
+import { useSmartBack } from '../../hooks/useSmartBack';
+import { Avatar } from '../../components/ui/Avatar';
+import { MessageThread } from '../../services/microservices/commsService';
+import { useMessagesStore } from '../../stores/messagesStore';
+import { formatTimeAgo } from '../../utils/dateUtils';
+
+export default function MessagesScreen() {
+  const { user } = useAuth();
+  const alert = useAlert();
+  const { goBack } = useSmartBack();
+  const threads = useMessagesStore((state) => state.threads);
+  const loadThreads = useMessagesStore((state) => state.loadThreads);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const hasLoadedOnce = useRef(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (user?.id) {
+        loadInbox();
+      }
+    }, [user?.id])
+  );
+
+  const loadInbox = async () => {
+    try {
+      if (!hasLoadedOnce.current) {
+        setIsLoading(true);
+      }
+      await loadThreads();
+      hasLoadedOnce.current = true;
+    } catch (error) {
+      console.error('❌ [MESSAGES] Failed to load threads:', error);
+      alert.error('Error', 'Failed to load your messages.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadInbox();
+    setRefreshing(false);
+  };
+
+  const getPreview = (thread: MessageThread) => {
+    const last = thread.last_message;
+    if (!last) return 'No messages yet';
+
+    const prefix = Number(last.sender_id) === Number(user?.id) ? 'You: ' : '';
+    if (last.body) return `${prefix}${last.body}`;
+    return last.attachment ? `${prefix}${MESSAGE_ATTACHMENT_TYPES[last.attachment.type].label}` : prefix;
+  };
+
+  const renderThread = ({ item }: { item: MessageThread }) => {
+    const hasUnread = item.unread_count > 0;
+    return (
+      <TouchableOpacity
+        style={styles.threadRow}
+        onPress={() =>
+          router.push({
+            pathname: '/messages/[userId]',
+            params: { userId: item.user_id.toString(), username: item.username },
+          })
+        }
+        activeOpacity={0.7}
+      >
+        <Avatar profilePicture={item.profile_picture} size="sm" backgroundColor={COLORS.PRIMARY[100]} iconColor={COLORS.PRIMARY[600]} />
+        <View style={styles.threadInfo}>
+          <View style={styles.threadTop}>
+            <Text style={[styles.threadName, hasUnread && styles.threadNameUnread]} numberOfLines={1}>
+              {item.username}
+            </Text>
+            {item.last_message && (
+              <Text style={styles.threadTime}>{formatTimeAgo(item.last_message.created_at)}</Text>
+            )}
+          </View>
+          <View style={styles.threadBottom}>
+            <Text style={[styles.threadPreview, hasUnread && styles.threadPreviewUnread]} numberOfLines={1}>
+              {getPreview(item)}
+            </Text>
+            {hasUnread && (
+              <View style={styles.unreadBadge}>
+                <Text style={styles.unreadBadgeText}>{item.unread_count > 99 ? '99+' : item.unread_count}</Text>
+              </View>
+            )}
+          </View>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={goBack} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={COLORS.SECONDARY[900]} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Messages</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={COLORS.PRIMARY[600]} />
+        </View>
+      ) : (
+        <FlatList
+          data={threads}
+          keyExtractor={(item) => item.user_id.toString()}
+          renderItem={renderThread}
+          contentContainerStyle={threads.length === 0 ? styles.emptyContent : undefined}
+          ItemSeparatorComponent={() => <View style={styles.separator} />}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Ionicons name="chatbubbles-outline" size={64} color={COLORS.SECONDARY[300]} />
+              <Text style={styles.emptyTitle}>No Messages Yet</Text>
+              <Text style={styles.emptySubtitle}>
+                Conversations with your mentor or trainees will show up here
+              </Text>
+            </View>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.NEUTRAL[50],
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.NEUTRAL[200],
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: FONT_SIZES.XL,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  threadRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+  },
+  threadInfo: {
+    flex: 1,
+  },
+  threadTop: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  threadName: {
+    flex: 1,
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.SECONDARY[900],
+  },
+  threadNameUnread: {
+    fontFamily: FONTS.BOLD,
+  },
+  threadTime: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[400],
+  },
+  threadBottom: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 2,
+  },
+  threadPreview: {
+    flex: 1,
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+  },
+  threadPreviewUnread: {
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[800],
+  },
+  unreadBadge: {
+    minWidth: 20,
+    height: 20,
+    borderRadius: 10,
+    paddingHorizontal: 6,
+    backgroundColor: COLORS.PRIMARY[600],
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  unreadBadgeText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  separator: {
+    height: 1,
+    backgroundColor: COLORS.NEUTRAL[100],
+    marginLeft: 76,
+  },
+  emptyContent: {
+    flexGrow: 1,
+  },
+  emptyState: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 48,
+    paddingHorizontal: 24,
+  },
+  emptyTitle: {
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  emptySubtitle: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[600],
+    textAlign: 'center',
+  },
+});
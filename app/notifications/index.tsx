@@ -1,38 +1,48 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   ScrollView,
+  SectionList,
   TouchableOpacity,
   RefreshControl,
   Animated,
+  ActivityIndicator,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { router, useFocusEffect } from 'expo-router';
 import { Swipeable } from 'react-native-gesture-handler';
 import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+import {
+  NOTIFICATION_ACTIONS,
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATIONS_PAGE_SIZE,
+  NotificationAction,
+  NotificationCategory,
+} from '../../constants/notifications';
 import { useSmartBack } from '../../hooks/useSmartBack';
 import { useAuth } from '../../contexts/AuthContext';
 import { useAlert } from '../../contexts/AlertContext';
 import { useNotifications } from '../../contexts/NotificationContext';
-import { commsService } from '../../services/microservices/commsService';
+import { commsService, Notification } from '../../services/microservices/commsService';
 import { socialService } from '../../services/microservices/socialService';
+import { notificationPreferences } from '../../services/notificationPreferences';
 import { reverbService } from '../../services/reverbService';
 import { NotificationsSkeleton } from '../../components/ui/SkeletonLoader';
+import { formatTimeAgo } from '../../utils/dateUtils';
+import {
+  getSpecForNotification,
+  groupNotificationsByCategory,
+  groupNotificationsByDay,
+} from '../../utils/notifications';
 
-interface Notification {
-  notification_id: number;
-  user_id: number;
-  notification_type: string;
-  title: string;
-  message: string;
-  action_data?: any;
-  is_read: boolean;
-  read_at?: string;
-  created_at: string;
-}
+type CategoryFilter = 'all' | NotificationCategory;
+type GroupBy = 'day' | 'category';
+
+// Actions that resolve the notification; hidden once the user has responded
+const DECISION_ACTIONS: NotificationAction[] = ['accept', 'decline', 'approve', 'reject'];
 
 export default function NotificationsScreen() {
   const { goBack } = useSmartBack();
@@ -43,6 +53,11 @@ export default function NotificationsScreen() {
   const [isLoading, setIsLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [respondedInvites, setRespondedInvites] = useState<Set<number>>(new Set());
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [categoryFilter, setCategoryFilter] = useState<CategoryFilter>('all');
+  const [groupBy, setGroupBy] = useState<GroupBy>('day');
+  const pageRef = useRef(1);
 
   // Mark all notifications as read when the page opens (clears the badge counter)
   useFocusEffect(
@@ -72,8 +87,10 @@ export default function NotificationsScreen() {
 
       console.log('📬 [NOTIFICATIONS SCREEN] Added new notification to list');
 
-      // Show a brief alert
-      alert.info(notification.title, notification.message);
+      // Show a brief alert unless the category is muted or it's quiet hours
+      if (notificationPreferences.shouldAlert(notification.action_data?.type, notification.notification_type)) {
+        alert.info(notification.title, notification.message);
+      }
     });
 
     console.log('✅ [NOTIFICATIONS SCREEN] Notification listener setup complete');
@@ -89,28 +106,16 @@ export default function NotificationsScreen() {
 
     try {
       setIsLoading(true);
-      const response = await commsService.getUserNotifications(Number(user.id));
-      console.log('📬 [NOTIFICATIONS] Loaded notifications:', response);
-      const loaded = response.data || [];
-      setNotifications(loaded);
-
-      // Auto-hide Accept/Decline buttons on already-read group invitations
-      const alreadyRead = new Set<number>();
-      loaded.forEach((n: Notification) => {
-        if (n.action_data?.type === 'group_invite' && n.is_read) {
-          alreadyRead.add(n.notification_id);
-        }
-        if (n.action_data?.type === 'group_join_request' && n.is_read) {
-          alreadyRead.add(n.notification_id);
-        }
+      const response = await commsService.getUserNotifications(Number(user.id), {
+        page: 1,
+        perPage: NOTIFICATIONS_PAGE_SIZE,
       });
-      if (alreadyRead.size > 0) {
-        setRespondedInvites(prev => {
-          const next = new Set(prev);
-          alreadyRead.forEach(id => next.add(id));
-          return next;
-        });
-      }
+      console.log('📬 [NOTIFICATIONS] Loaded notifications:', response.data.length);
+      const loaded = response.data;
+      setNotifications(loaded);
+      setHasMore(response.has_more);
+      pageRef.current = 1;
+      markRespondedIfRead(loaded);
     } catch (error) {
       console.error('Error loading notifications:', error);
       alert.error('Error', 'Failed to load notifications');
@@ -119,6 +124,46 @@ export default function NotificationsScreen() {
     }
   };
 
+  const loadMoreNotifications = async () => {
+    if (!user || !hasMore || isLoadingMore || isLoading) return;
+
+    setIsLoadingMore(true);
+    try {
+      const nextPage = pageRef.current + 1;
+      const response = await commsService.getUserNotifications(Number(user.id), {
+        page: nextPage,
+        perPage: NOTIFICATIONS_PAGE_SIZE,
+      });
+
+      // New notifications shift pages while scrolling — skip anything already shown
+      const known = new Set(notifications.map((n) => n.notification_id));
+      const older = response.data.filter((n) => !known.has(n.notification_id));
+      setNotifications((prev) => [...prev, ...older]);
+      setHasMore(response.has_more && older.length > 0);
+      pageRef.current = nextPage;
+      markRespondedIfRead(older);
+    } catch (error) {
+      console.error('❌ [NOTIFICATIONS] Failed to load more notifications:', error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  // Auto-hide inline actions on already-read invitations and join requests
+  const markRespondedIfRead = (loaded: Notification[]) => {
+    const alreadyRead = loaded
+      .filter((n) => n.is_read && getSpecForNotification(n).actions?.some((a) => DECISION_ACTIONS.includes(a)))
+      .map((n) => n.notification_id);
+
+    if (alreadyRead.length > 0) {
+      setRespondedInvites(prev => {
+        const next = new Set(prev);
+        alreadyRead.forEach(id => next.add(id));
+        return next;
+      });
+    }
+  };
+
   const onRefresh = async () => {
     setRefreshing(true);
     await loadNotifications();
@@ -382,7 +427,9 @@ export default function NotificationsScreen() {
 
     alert.confirm(
       'Clear All Notifications',
-      `Are you sure you want to delete all ${notifications.length} notification${notifications.length > 1 ? 's' : ''}?`,
+      hasMore
+        ? 'Are you sure you want to delete all of your notifications?'
+        : `Are you sure you want to delete all ${notifications.length} notification${notifications.length > 1 ? 's' : ''}?`,
       async () => {
         try {
           if (!user) return;
@@ -392,6 +439,7 @@ export default function NotificationsScreen() {
 
           // Clear local state
           setNotifications([]);
+          setHasMore(false);
 
           // Refresh unread count
           await refreshUnreadCount();
@@ -409,14 +457,22 @@ export default function NotificationsScreen() {
     );
   };
 
-  const handleNotificationPress = async (notification: Notification) => {
-    // Handle notification action based on type
-    const actionType = notification.action_data?.type;
-    const notificationType = notification.notification_type;
+  // Inline decisions still waiting on the user (accept/decline, approve/decline)
+  const hasPendingDecision = (notification: Notification): boolean =>
+    !respondedInvites.has(notification.notification_id) &&
+    !!getSpecForNotification(notification).actions?.some((action) => DECISION_ACTIONS.includes(action));
+
+  const openNotification = (notification: Notification) => {
+    const route = getSpecForNotification(notification).route?.(notification.action_data || {});
+    if (route) {
+      router.push(route);
+    }
+  };
 
-    // Group invites and pending join requests have action buttons - don't mark as read on tap
+  const handleNotificationPress = async (notification: Notification) => {
+    // Invites and pending join requests have action buttons - don't mark as read on tap
     // They will be marked as read when the action is taken
-    if (actionType === 'group_invite' || (actionType === 'group_join_request' && !respondedInvites.has(notification.notification_id))) {
+    if (hasPendingDecision(notification)) {
       return;
     }
 
@@ -425,147 +481,31 @@ export default function NotificationsScreen() {
       await handleMarkAsRead(notification.notification_id);
     }
 
-    // Navigate based on notification type and action data
-    switch (actionType) {
-      case 'group_join_request':
-        // Navigate to the group page where owner can see pending requests
-        if (notification.action_data?.group_id) {
-          router.push(`/groups/${notification.action_data.group_id}`);
-        }
-        break;
-
-      case 'group_join_approved':
-      case 'group_invite_accepted':
-        // Navigate to the group
-        if (notification.action_data?.group_id) {
-          router.push(`/groups/${notification.action_data.group_id}`);
-        }
-        break;
-
-      case 'achievement_unlock':
-      case 'achievement':
-        // Navigate to achievements page
-        router.push('/achievements');
-        break;
-
-      case 'group_invite_declined':
-      case 'group_join_rejected':
-      case 'group_member_kicked':
-        // Informational - no navigation needed
-        break;
-
-      default:
-        // Handle by notification_type as fallback
-        switch (notificationType) {
-          case 'achievement':
-            router.push('/achievements');
-            break;
-          case 'workout_reminder':
-            router.push('/workout');
-            break;
-          case 'social':
-            if (notification.action_data?.group_id) {
-              router.push(`/groups/${notification.action_data.group_id}`);
-            }
-            break;
-          case 'group_join_approved':
-            if (notification.action_data?.group_id) {
-              router.push(`/groups/${notification.action_data.group_id}`);
-            }
-            break;
-          case 'group_join_request':
-            if (notification.action_data?.group_id) {
-              router.push(`/groups/${notification.action_data.group_id}`);
-            }
-            break;
-        }
-        break;
-    }
-  };
-
-  // Check if a notification is navigable (shows chevron)
-  const isNotificationNavigable = (notification: Notification): boolean => {
-    const actionType = notification.action_data?.type;
-    const notificationType = notification.notification_type;
-
-    // Group invites show action buttons instead of navigation
-    if (actionType === 'group_invite') {
-      return false;
-    }
-
-    // These types have navigation
-    const navigableActionTypes = [
-      'group_join_request',
-      'group_join_approved',
-      'group_invite_accepted',
-      'achievement_unlock',
-      'achievement',
-    ];
-
-    if (navigableActionTypes.includes(actionType)) {
-      return true;
-    }
-
-    // Notification types with navigation
-    const navigableNotificationTypes = [
-      'achievement',
-      'workout_reminder',
-      'group_join_approved',
-    ];
-
-    if (navigableNotificationTypes.includes(notificationType)) {
-      return true;
-    }
-
-    // Social notifications with group_id are navigable
-    if (notificationType === 'social' && notification.action_data?.group_id) {
-      return true;
-    }
-
-    return false;
+    openNotification(notification);
   };
 
-  const formatTimeAgo = (dateString: string) => {
-    const date = new Date(dateString);
-    const now = new Date();
-    const diffMs = now.getTime() - date.getTime();
-    const diffMins = Math.floor(diffMs / 60000);
-    const diffHours = Math.floor(diffMins / 60);
-    const diffDays = Math.floor(diffHours / 24);
-
-    if (diffMins < 1) return 'Just now';
-    if (diffMins < 60) return `${diffMins}m ago`;
-    if (diffHours < 24) return `${diffHours}h ago`;
-    if (diffDays === 1) return 'Yesterday';
-    if (diffDays < 7) return `${diffDays}d ago`;
-    return date.toLocaleDateString();
+  const actionHandlers: Record<NotificationAction, (notification: Notification) => void> = {
+    accept: handleAcceptGroupInvitation,
+    decline: handleDeclineGroupInvitation,
+    approve: handleApproveJoinRequest,
+    reject: handleRejectJoinRequest,
+    view: handleNotificationPress,
   };
 
-  const groupNotificationsByDate = (notifs: Notification[]) => {
-    const now = new Date();
-    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    const yesterday = new Date(today);
-    yesterday.setDate(yesterday.getDate() - 1);
-    const weekAgo = new Date(today);
-    weekAgo.setDate(weekAgo.getDate() - 7);
-
-    const groups: { title: string; data: Notification[] }[] = [
-      { title: 'Today', data: [] },
-      { title: 'Yesterday', data: [] },
-      { title: 'This Week', data: [] },
-      { title: 'Earlier', data: [] },
-    ];
-
-    notifs.forEach((n) => {
-      const d = new Date(n.created_at);
-      if (d >= today) groups[0].data.push(n);
-      else if (d >= yesterday) groups[1].data.push(n);
-      else if (d >= weekAgo) groups[2].data.push(n);
-      else groups[3].data.push(n);
-    });
+  // Categories present in what's loaded, in display order (plus the active filter)
+  const availableCategories = useMemo(() => {
+    const present = new Set(notifications.map((n) => getSpecForNotification(n).category));
+    return (Object.keys(NOTIFICATION_CATEGORIES) as NotificationCategory[]).filter(
+      (category) => present.has(category) || category === categoryFilter
+    );
+  }, [notifications, categoryFilter]);
 
-    return groups.filter((g) => g.data.length > 0);
-  };
+  const sections = useMemo(() => {
+    const visible = categoryFilter === 'all'
+      ? notifications
+      : notifications.filter((n) => getSpecForNotification(n).category === categoryFilter);
+    return groupBy === 'category' ? groupNotificationsByCategory(visible) : groupNotificationsByDay(visible);
+  }, [notifications, categoryFilter, groupBy]);
 
   const renderRightActions = (
     progress: Animated.AnimatedInterpolation<number>,
@@ -598,59 +538,40 @@ export default function NotificationsScreen() {
     );
   };
 
-  const getNotificationIcon = (notification: Notification) => {
-    // Check action_data.type first for more specific icons
-    if (notification.action_data?.type === 'group_invite_declined') {
-      return { name: 'person-remove' as const, color: COLORS.ERROR[500] };
-    }
-
-    if (notification.action_data?.type === 'group_invite_accepted') {
-      return { name: 'person-add' as const, color: COLORS.SUCCESS[500] };
-    }
-
-    if (notification.action_data?.type === 'group_join_request') {
-      return { name: 'person-add' as const, color: COLORS.WARNING[500] };
-    }
-
-    if (notification.action_data?.type === 'group_join_approved') {
-      return { name: 'checkmark-circle' as const, color: COLORS.SUCCESS[500] };
-    }
-
-    if (notification.action_data?.type === 'group_join_rejected') {
-      return { name: 'close-circle' as const, color: COLORS.ERROR[500] };
-    }
+  const renderActionButton = (notification: Notification, action: NotificationAction) => {
+    const config = NOTIFICATION_ACTIONS[action];
+    const buttonStyle = config.variant === 'primary'
+      ? styles.acceptButton
+      : config.variant === 'danger' ? styles.declineButton : styles.viewButton;
+    const textStyle = config.variant === 'primary'
+      ? styles.acceptButtonText
+      : config.variant === 'danger' ? styles.declineButtonText : styles.viewButtonText;
+    const iconColor = config.variant === 'primary'
+      ? 'white'
+      : config.variant === 'danger' ? COLORS.ERROR[500] : COLORS.PRIMARY[600];
 
-    if (notification.action_data?.type === 'group_member_kicked') {
-      return { name: 'exit-outline' as const, color: COLORS.ERROR[500] };
-    }
-
-    // Fall back to notification_type
-    switch (notification.notification_type) {
-      case 'group_invite':
-        return { name: 'people' as const, color: COLORS.PRIMARY[600] };
-      case 'achievement':
-        return { name: 'trophy' as const, color: COLORS.WARNING[500] };
-      case 'friend_request':
-        return { name: 'person-add' as const, color: COLORS.PRIMARY[500] };
-      case 'workout_reminder':
-        return { name: 'fitness' as const, color: COLORS.TABATA.COMPLETE };
-      case 'social':
-        return { name: 'people-circle' as const, color: COLORS.PRIMARY[600] };
-      default:
-        return { name: 'notifications' as const, color: COLORS.SECONDARY[400] };
-    }
+    return (
+      <TouchableOpacity
+        key={action}
+        style={[styles.actionButton, buttonStyle]}
+        onPress={() => actionHandlers[action](notification)}
+      >
+        <Ionicons name={config.icon} size={18} color={iconColor} />
+        <Text style={textStyle}>{config.label}</Text>
+      </TouchableOpacity>
+    );
   };
 
-  const renderNotificationItem = (notification: Notification) => {
-    const icon = getNotificationIcon(notification);
-    const isGroupInvitation = notification.action_data?.type === 'group_invite';
-    const isJoinRequest = notification.action_data?.type === 'group_join_request';
-    const hasActionButtons = (isGroupInvitation || isJoinRequest) && !respondedInvites.has(notification.notification_id);
-    const isNavigable = isNotificationNavigable(notification);
+  const renderNotificationItem = ({ item: notification }: { item: Notification }) => {
+    const spec = getSpecForNotification(notification);
+    const isNavigable = !!spec.route?.(notification.action_data || {});
+    const isResponded = respondedInvites.has(notification.notification_id);
+    const visibleActions = (spec.actions || []).filter((action) =>
+      DECISION_ACTIONS.includes(action) ? !isResponded : isNavigable
+    );
 
     return (
       <Swipeable
-        key={notification.notification_id}
         renderRightActions={(progress, dragX) =>
           renderRightActions(progress, dragX, notification.notification_id)
         }
@@ -664,8 +585,8 @@ export default function NotificationsScreen() {
           onPress={() => handleNotificationPress(notification)}
           activeOpacity={0.7}
         >
-          <View style={[styles.notificationIconContainer, { backgroundColor: icon.color + '15' }]}>
-            <Ionicons name={icon.name} size={24} color={icon.color} />
+          <View style={[styles.notificationIconContainer, { backgroundColor: spec.color + '15' }]}>
+            <Ionicons name={spec.icon} size={24} color={spec.color} />
           </View>
 
           <View style={styles.notificationContent}>
@@ -676,54 +597,21 @@ export default function NotificationsScreen() {
 
             <Text style={styles.notificationMessage}>{notification.message}</Text>
 
-            <Text style={styles.notificationTime}>{formatTimeAgo(notification.created_at)}</Text>
-
-            {/* Group Invitation Action Buttons */}
-            {isGroupInvitation && !respondedInvites.has(notification.notification_id) && (
-              <View style={styles.actionButtons}>
-                <TouchableOpacity
-                  style={[styles.actionButton, styles.acceptButton]}
-                  onPress={() => handleAcceptGroupInvitation(notification)}
-                >
-                  <Ionicons name="checkmark" size={18} color="white" />
-                  <Text style={styles.acceptButtonText}>Accept</Text>
-                </TouchableOpacity>
-
-                <TouchableOpacity
-                  style={[styles.actionButton, styles.declineButton]}
-                  onPress={() => handleDeclineGroupInvitation(notification)}
-                >
-                  <Ionicons name="close" size={18} color={COLORS.ERROR[500]} />
-                  <Text style={styles.declineButtonText}>Decline</Text>
-                </TouchableOpacity>
-              </View>
-            )}
+            <Text style={styles.notificationTime}>
+              {formatTimeAgo(notification.created_at)}
+              {groupBy === 'day' && categoryFilter === 'all' ? ` · ${NOTIFICATION_CATEGORIES[spec.category].label}` : ''}
+            </Text>
 
-            {/* Join Request Action Buttons */}
-            {isJoinRequest && !respondedInvites.has(notification.notification_id) && (
+            {/* Inline actions from the registry */}
+            {visibleActions.length > 0 && (
               <View style={styles.actionButtons}>
-                <TouchableOpacity
-                  style={[styles.actionButton, styles.acceptButton]}
-                  onPress={() => handleApproveJoinRequest(notification)}
-                >
-                  <Ionicons name="checkmark" size={18} color="white" />
-                  <Text style={styles.acceptButtonText}>Approve</Text>
-                </TouchableOpacity>
-
-                <TouchableOpacity
-                  style={[styles.actionButton, styles.declineButton]}
-                  onPress={() => handleRejectJoinRequest(notification)}
-                >
-                  <Ionicons name="close" size={18} color={COLORS.ERROR[500]} />
-                  <Text style={styles.declineButtonText}>Decline</Text>
-                </TouchableOpacity>
+                {visibleActions.map((action) => renderActionButton(notification, action))}
               </View>
             )}
-
           </View>
 
           {/* Chevron indicator for navigable notifications */}
-          {isNavigable && !hasActionButtons && (
+          {isNavigable && visibleActions.length === 0 && (
             <View style={styles.chevronContainer}>
               <Ionicons name="chevron-forward" size={20} color={COLORS.SECONDARY[400]} />
             </View>
@@ -733,6 +621,27 @@ export default function NotificationsScreen() {
     );
   };
 
+  const renderFilterChip = (key: CategoryFilter, label: string) => {
+    const isActive = categoryFilter === key;
+    return (
+      <TouchableOpacity
+        key={key}
+        style={[styles.filterChip, isActive && styles.filterChipActive]}
+        onPress={() => setCategoryFilter(key)}
+        activeOpacity={0.7}
+      >
+        {key !== 'all' && (
+          <Ionicons
+            name={NOTIFICATION_CATEGORIES[key].icon}
+            size={14}
+            color={isActive ? 'white' : NOTIFICATION_CATEGORIES[key].color}
+          />
+        )}
+        <Text style={[styles.filterChipText, isActive && styles.filterChipTextActive]}>{label}</Text>
+      </TouchableOpacity>
+    );
+  };
+
   if (isLoading) {
     return (
       <SafeAreaView style={styles.container}>
@@ -755,6 +664,19 @@ export default function NotificationsScreen() {
           <Ionicons name="arrow-back" size={24} color={COLORS.SECONDARY[700]} />
         </TouchableOpacity>
         <Text style={styles.headerTitle}>Notifications</Text>
+        <TouchableOpacity
+          onPress={() => setGroupBy((prev) => (prev === 'day' ? 'category' : 'day'))}
+          style={styles.headerIconButton}
+        >
+          <Ionicons
+            name={groupBy === 'day' ? 'albums-outline' : 'calendar-outline'}
+            size={22}
+            color={COLORS.SECONDARY[700]}
+          />
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => router.push('/settings/notifications')} style={styles.headerIconButton}>
+          <Ionicons name="options-outline" size={22} color={COLORS.SECONDARY[700]} />
+        </TouchableOpacity>
         <TouchableOpacity
           onPress={handleClearAllNotifications}
           style={styles.clearAllButton}
@@ -769,33 +691,52 @@ export default function NotificationsScreen() {
         </TouchableOpacity>
       </View>
 
-      <ScrollView
+      {notifications.length > 0 && (
+        <View style={styles.filterBar}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterChips}>
+            {renderFilterChip('all', 'All')}
+            {availableCategories.map((category) => renderFilterChip(category, NOTIFICATION_CATEGORIES[category].label))}
+          </ScrollView>
+        </View>
+      )}
+
+      <SectionList
+        sections={sections}
+        keyExtractor={(item) => item.notification_id.toString()}
+        renderItem={renderNotificationItem}
+        renderSectionHeader={({ section }) => (
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionHeaderText}>{section.title}</Text>
+          </View>
+        )}
+        stickySectionHeadersEnabled={false}
         style={styles.scrollView}
         contentContainerStyle={styles.scrollContent}
         refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
         showsVerticalScrollIndicator={false}
-      >
-        {notifications.length > 0 ? (
-          groupNotificationsByDate(notifications).map((section) => (
-            <View key={section.title}>
-              <View style={styles.sectionHeader}>
-                <Text style={styles.sectionHeaderText}>{section.title}</Text>
-              </View>
-              {section.data.map(renderNotificationItem)}
-            </View>
-          ))
-        ) : (
+        onEndReached={loadMoreNotifications}
+        onEndReachedThreshold={0.4}
+        ListFooterComponent={
+          isLoadingMore ? <ActivityIndicator style={styles.loadingMore} color={COLORS.PRIMARY[600]} /> : null
+        }
+        ListEmptyComponent={
           <View style={styles.emptyContainer}>
             <View style={styles.emptyIconContainer}>
-              <Ionicons name="notifications-outline" size={40} color={COLORS.PRIMARY[400]} />
+              <Ionicons
+                name={categoryFilter === 'all' ? 'notifications-outline' : NOTIFICATION_CATEGORIES[categoryFilter].icon}
+                size={40}
+                color={COLORS.PRIMARY[400]}
+              />
             </View>
             <Text style={styles.emptyTitle}>All Caught Up!</Text>
             <Text style={styles.emptyText}>
-              No notifications yet. You'll see group invites, achievements, and updates here.
+              {categoryFilter === 'all'
+                ? "No notifications yet. You'll see group invites, achievements, and updates here."
+                : `No ${NOTIFICATION_CATEGORIES[categoryFilter].label.toLowerCase()} notifications right now.`}
             </Text>
           </View>
-        )}
-      </ScrollView>
+        }
+      />
     </SafeAreaView>
   );
 }
@@ -940,6 +881,51 @@ const styles = StyleSheet.create({
     fontFamily: FONTS.SEMIBOLD,
     color: COLORS.ERROR[500],
   },
+  viewButton: {
+    backgroundColor: COLORS.PRIMARY[50],
+    borderWidth: 1,
+    borderColor: COLORS.PRIMARY[200],
+  },
+  viewButtonText: {
+    fontSize: 14,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.PRIMARY[600],
+  },
+  headerIconButton: {
+    padding: 8,
+  },
+  filterBar: {
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.SECONDARY[100],
+  },
+  filterChips: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    gap: 8,
+  },
+  filterChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 7,
+    borderRadius: 16,
+    backgroundColor: COLORS.NEUTRAL[100],
+  },
+  filterChipActive: {
+    backgroundColor: COLORS.PRIMARY[600],
+  },
+  filterChipText: {
+    fontSize: 13,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.SECONDARY[600],
+  },
+  filterChipTextActive: {
+    color: 'white',
+  },
+  loadingMore: {
+    marginVertical: 16,
+  },
   emptyContainer: {
     flex: 1,
     alignItems: 'center',
@@ -0,0 +1,749 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Switch,
+  ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { Image } from 'expo-image';
+import { CameraView, CameraType, useCameraPermissions } from 'expo-camera';
+import { File } from 'expo-file-system';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+import {
+  PHOTO_POSES,
+  PHOTO_POSE_CONFIG,
+  ALIGNMENT_OVERLAY_OPACITY,
+  CAPTURE_TIMER_OPTIONS,
+  PhotoPose,
+  PHOTO_BACKUP_ENABLED,
+} from '../../constants/progressPhotos';
+import { useAuth } from '../../contexts/AuthContext';
+import { useAlert } from '../../contexts/AlertContext';
+import { progressPhotoVault, ProgressPhoto } from '../../services/progressPhotoVault';
+import { VaultPhoto } from '../../components/progress/VaultPhoto';
+import { formatDateToISO } from '../../utils/dateUtils';
+
+interface CapturedShot {
+  uri: string;
+  width: number;
+  height: number;
+}
+
+// Unsaved shots sit unencrypted in the camera cache, so remove them when discarded
+const discardShot = (shot?: CapturedShot) => {
+  if (!shot) return;
+  try {
+    const file = new File(shot.uri);
+    if (file.exists) file.delete();
+  } catch {
+    // Cache files are cleaned up by the OS eventually
+  }
+};
+
+export default function ProgressPhotoCaptureScreen() {
+  const { user } = useAuth();
+  const alert = useAlert();
+  const [permission, requestPermission] = useCameraPermissions();
+
+  const cameraRef = useRef<CameraView>(null);
+  const countdownRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const shotsRef = useRef<Partial<Record<PhotoPose, CapturedShot>>>({});
+  const savedRef = useRef(false);
+
+  const [step, setStep] = useState<'capture' | 'review'>('capture');
+  const [poseIndex, setPoseIndex] = useState(0);
+  const [shots, setShots] = useState<Partial<Record<PhotoPose, CapturedShot>>>({});
+  const [pending, setPending] = useState<CapturedShot | null>(null);
+  const [facing, setFacing] = useState<CameraType>('back');
+  const [timerSeconds, setTimerSeconds] = useState(CAPTURE_TIMER_OPTIONS[1]);
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [isCameraReady, setIsCameraReady] = useState(false);
+  const [isTaking, setIsTaking] = useState(false);
+  const [showOverlay, setShowOverlay] = useState(true);
+  const [previousPhotos, setPreviousPhotos] = useState<Partial<Record<PhotoPose, ProgressPhoto>>>({});
+  const [backUp, setBackUp] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const pose = PHOTO_POSES[poseIndex];
+  const poseConfig = PHOTO_POSE_CONFIG[pose];
+  const previous = previousPhotos[pose];
+
+  useEffect(() => {
+    if (!user?.id) return;
+    // Latest photo of each pose, used as the alignment overlay
+    progressPhotoVault.list(user.id).then((photos) => {
+      const latest: Partial<Record<PhotoPose, ProgressPhoto>> = {};
+      photos.forEach((photo) => {
+        if (!latest[photo.pose]) latest[photo.pose] = photo;
+      });
+      setPreviousPhotos(latest);
+    });
+  }, [user?.id]);
+
+  useEffect(() => {
+    shotsRef.current = shots;
+  }, [shots]);
+
+  useEffect(() => {
+    return () => {
+      if (countdownRef.current) clearInterval(countdownRef.current);
+      if (!savedRef.current) {
+        Object.values(shotsRef.current).forEach(discardShot);
+      }
+    };
+  }, []);
+
+  const capturedCount = useMemo(() => Object.keys(shots).length, [shots]);
+
+  const takePicture = async () => {
+    if (!cameraRef.current || isTaking) return;
+    setIsTaking(true);
+    try {
+      const picture = await cameraRef.current.takePictureAsync({ quality: 0.6, exif: false });
+      setPending({ uri: picture.uri, width: picture.width, height: picture.height });
+    } catch (error) {
+      console.error('❌ Failed to take progress photo:', error);
+      alert.error('Camera Error', 'Could not take the photo. Please try again.');
+    } finally {
+      setIsTaking(false);
+    }
+  };
+
+  const handleShutter = () => {
+    if (countdown !== null) {
+      // Second tap cancels the self-timer
+      if (countdownRef.current) clearInterval(countdownRef.current);
+      setCountdown(null);
+      return;
+    }
+
+    if (timerSeconds === 0) {
+      takePicture();
+      return;
+    }
+
+    let remaining = timerSeconds;
+    setCountdown(remaining);
+    countdownRef.current = setInterval(() => {
+      remaining -= 1;
+      if (remaining <= 0) {
+        if (countdownRef.current) clearInterval(countdownRef.current);
+        setCountdown(null);
+        takePicture();
+      } else {
+        setCountdown(remaining);
+      }
+    }, 1000);
+  };
+
+  const goToNextPose = (nextShots: Partial<Record<PhotoPose, CapturedShot>>) => {
+    const nextIndex = PHOTO_POSES.findIndex((p, i) => i > poseIndex && !nextShots[p]);
+    if (nextIndex === -1) {
+      setStep('review');
+    } else {
+      setPoseIndex(nextIndex);
+    }
+  };
+
+  const acceptPending = () => {
+    if (!pending) return;
+    discardShot(shots[pose]);
+    const nextShots = { ...shots, [pose]: pending };
+    setShots(nextShots);
+    setPending(null);
+    goToNextPose(nextShots);
+  };
+
+  const retakePending = () => {
+    discardShot(pending || undefined);
+    setPending(null);
+  };
+
+  const retakePose = (target: PhotoPose) => {
+    setPoseIndex(PHOTO_POSES.indexOf(target));
+    setStep('capture');
+  };
+
+  const cycleTimer = () => {
+    const index = CAPTURE_TIMER_OPTIONS.indexOf(timerSeconds);
+    setTimerSeconds(CAPTURE_TIMER_OPTIONS[(index + 1) % CAPTURE_TIMER_OPTIONS.length]);
+  };
+
+  const handleSave = async () => {
+    if (!user?.id || capturedCount === 0 || isSaving) return;
+
+    setIsSaving(true);
+    const date = formatDateToISO(new Date());
+    let backupFailures = 0;
+
+    try {
+      for (const shotPose of PHOTO_POSES) {
+        const shot = shots[shotPose];
+        if (!shot) continue;
+
+        const photo = await progressPhotoVault.savePhoto(user.id, shot.uri, {
+          date,
+          pose: shotPose,
+          width: shot.width,
+          height: shot.height,
+        });
+
+        if (backUp) {
+          await progressPhotoVault.uploadPhoto(user.id, photo).catch((error) => {
+            console.warn('⚠️ [PHOTO VAULT] Backup failed, photo kept on device:', error);
+            backupFailures++;
+          });
+        }
+      }
+
+      savedRef.current = true;
+      if (backupFailures > 0) {
+        alert.warning(
+          'Saved on Device',
+          `Your photos are saved, but ${backupFailures} could not be backed up. You can retry from the photo viewer.`,
+          () => router.replace('/progress-photos')
+        );
+      } else {
+        router.replace('/progress-photos');
+      }
+    } catch (error) {
+      console.error('❌ Failed to save progress photos:', error);
+      alert.error('Error', (error as Error).message || 'Failed to save your photos');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!permission) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color={COLORS.PRIMARY[600]} />
+      </View>
+    );
+  }
+
+  if (!permission.granted) {
+    return (
+      <SafeAreaView style={styles.permissionContainer}>
+        <Ionicons name="camera-outline" size={64} color={COLORS.SECONDARY[300]} />
+        <Text style={styles.permissionTitle}>Camera Access Needed</Text>
+        <Text style={styles.permissionText}>
+          Progress photos are taken in the app and stay encrypted on your device.
+        </Text>
+        <TouchableOpacity style={styles.permissionButton} onPress={requestPermission}>
+          <Text style={styles.permissionButtonText}>Allow Camera</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => router.back()} style={styles.permissionCancel}>
+          <Text style={styles.permissionCancelText}>Not Now</Text>
+        </TouchableOpacity>
+      </SafeAreaView>
+    );
+  }
+
+  if (step === 'review') {
+    return (
+      <SafeAreaView style={styles.reviewContainer} edges={['top', 'bottom']}>
+        <View style={styles.reviewHeader}>
+          <TouchableOpacity onPress={() => retakePose(PHOTO_POSES[0])} style={styles.headerButton}>
+            <Ionicons name="arrow-back" size={24} color={COLORS.SECONDARY[900]} />
+          </TouchableOpacity>
+          <Text style={styles.reviewTitle}>Review Photos</Text>
+          <View style={styles.headerButton} />
+        </View>
+
+        <ScrollView contentContainerStyle={styles.reviewContent}>
+          <View style={styles.reviewGrid}>
+            {PHOTO_POSES.map((p) => {
+              const shot = shots[p];
+              return (
+                <View key={p} style={styles.reviewItem}>
+                  {shot ? (
+                    <Image source={{ uri: shot.uri }} style={styles.reviewPhoto} contentFit="cover" />
+                  ) : (
+                    <View style={[styles.reviewPhoto, styles.reviewPhotoEmpty]}>
+                      <Ionicons name={PHOTO_POSE_CONFIG[p].icon} size={24} color={COLORS.SECONDARY[300]} />
+                    </View>
+                  )}
+                  <Text style={styles.reviewLabel}>{PHOTO_POSE_CONFIG[p].label}</Text>
+                  <TouchableOpacity onPress={() => retakePose(p)}>
+                    <Text style={styles.reviewRetake}>{shot ? 'Retake' : 'Take'}</Text>
+                  </TouchableOpacity>
+                </View>
+              );
+            })}
+          </View>
+
+          {PHOTO_BACKUP_ENABLED && (
+            <View style={styles.backupRow}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.backupTitle}>Back up to my account</Text>
+                <Text style={styles.backupText}>
+                  Off by default. Photos are always encrypted on this device; backups are private to you.
+                </Text>
+              </View>
+              <Switch
+                value={backUp}
+                onValueChange={setBackUp}
+                trackColor={{ false: COLORS.SECONDARY[200], true: COLORS.PRIMARY[500] }}
+              />
+            </View>
+          )}
+        </ScrollView>
+
+        <View style={styles.reviewFooter}>
+          <TouchableOpacity
+            style={[styles.saveButton, (capturedCount === 0 || isSaving) && styles.saveButtonDisabled]}
+            onPress={handleSave}
+            disabled={capturedCount === 0 || isSaving}
+          >
+            {isSaving ? (
+              <ActivityIndicator color="white" />
+            ) : (
+              <Text style={styles.saveButtonText}>
+                Save {capturedCount} Photo{capturedCount === 1 ? '' : 's'}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <View style={styles.cameraContainer}>
+      {pending ? (
+        <Image source={{ uri: pending.uri }} style={StyleSheet.absoluteFill} contentFit="cover" />
+      ) : (
+        <CameraView
+          ref={cameraRef}
+          style={StyleSheet.absoluteFill}
+          facing={facing}
+          mirror={facing === 'front'}
+          onCameraReady={() => setIsCameraReady(true)}
+        />
+      )}
+
+      {/* Alignment overlay: previous photo of this pose plus a centre guide */}
+      {!pending && showOverlay && previous && user?.id && (
+        <View style={[StyleSheet.absoluteFill, { opacity: ALIGNMENT_OVERLAY_OPACITY }]} pointerEvents="none">
+          <VaultPhoto userId={user.id} photoId={previous.id} style={StyleSheet.absoluteFill} />
+        </View>
+      )}
+      {!pending && (
+        <View style={StyleSheet.absoluteFill} pointerEvents="none">
+          <View style={styles.guideVertical} />
+          <View style={[styles.guideHorizontal, { top: '12%' }]} />
+          <View style={[styles.guideHorizontal, { top: '90%' }]} />
+        </View>
+      )}
+
+      <SafeAreaView style={styles.cameraUI} edges={['top', 'bottom']} pointerEvents="box-none">
+        {/* Top bar */}
+        <View style={styles.topBar}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.roundButton}>
+            <Ionicons name="close" size={24} color="white" />
+          </TouchableOpacity>
+          <View style={styles.poseSteps}>
+            {PHOTO_POSES.map((p, index) => (
+              <View
+                key={p}
+                style={[
+                  styles.poseStep,
+                  index === poseIndex && styles.poseStepActive,
+                  !!shots[p] && styles.poseStepDone,
+                ]}
+              >
+                <Text style={styles.poseStepText}>{PHOTO_POSE_CONFIG[p].label}</Text>
+              </View>
+            ))}
+          </View>
+          {capturedCount > 0 && !pending ? (
+            <TouchableOpacity onPress={() => setStep('review')} style={styles.roundButton}>
+              <Ionicons name="checkmark" size={24} color="white" />
+            </TouchableOpacity>
+          ) : (
+            <View style={styles.roundButtonPlaceholder} />
+          )}
+        </View>
+
+        <View style={styles.instructionBox}>
+          <Text style={styles.instructionTitle}>{poseConfig.label} Photo</Text>
+          <Text style={styles.instructionText}>{poseConfig.instruction}</Text>
+          {previous && !pending && (
+            <Text style={styles.instructionHint}>Line yourself up with your last {poseConfig.label.toLowerCase()} photo</Text>
+          )}
+        </View>
+
+        {countdown !== null && (
+          <View style={styles.countdownContainer} pointerEvents="none">
+            <Text style={styles.countdownText}>{countdown}</Text>
+          </View>
+        )}
+
+        {/* Bottom controls */}
+        {pending ? (
+          <View style={styles.bottomBar}>
+            <TouchableOpacity style={styles.pendingButton} onPress={retakePending}>
+              <Ionicons name="refresh" size={22} color="white" />
+              <Text style={styles.pendingButtonText}>Retake</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.pendingButton, styles.pendingButtonPrimary]} onPress={acceptPending}>
+              <Ionicons name="checkmark" size={22} color="white" />
+              <Text style={styles.pendingButtonText}>Use Photo</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <View style={styles.bottomBar}>
+            <View style={styles.sideControls}>
+              <TouchableOpacity onPress={cycleTimer} style={styles.roundButton}>
+                <Ionicons name="timer-outline" size={22} color="white" />
+                {timerSeconds > 0 && <Text style={styles.timerBadge}>{timerSeconds}s</Text>}
+              </TouchableOpacity>
+              {previous && (
+                <TouchableOpacity onPress={() => setShowOverlay((v) => !v)} style={styles.roundButton}>
+                  <Ionicons name={showOverlay ? 'layers' : 'layers-outline'} size={22} color="white" />
+                </TouchableOpacity>
+              )}
+            </View>
+
+            <TouchableOpacity
+              style={[styles.shutter, (!isCameraReady || isTaking) && styles.shutterDisabled]}
+              onPress={handleShutter}
+              disabled={!isCameraReady || isTaking}
+            >
+              <View style={[styles.shutterInner, countdown !== null && styles.shutterInnerCounting]} />
+            </TouchableOpacity>
+
+            <View style={styles.sideControls}>
+              <TouchableOpacity onPress={() => setFacing((f) => (f === 'back' ? 'front' : 'back'))} style={styles.roundButton}>
+                <Ionicons name="camera-reverse-outline" size={22} color="white" />
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => goToNextPose(shots)} style={styles.roundButton}>
+                <Ionicons name="play-skip-forward-outline" size={20} color="white" />
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+      </SafeAreaView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  permissionContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    backgroundColor: COLORS.NEUTRAL[50],
+  },
+  permissionTitle: {
+    fontSize: FONT_SIZES.XL,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+    marginTop: 16,
+  },
+  permissionText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  permissionButton: {
+    marginTop: 24,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: COLORS.PRIMARY[600],
+  },
+  permissionButtonText: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  permissionCancel: {
+    marginTop: 12,
+    padding: 8,
+  },
+  permissionCancelText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[500],
+  },
+  cameraContainer: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  cameraUI: {
+    flex: 1,
+    justifyContent: 'space-between',
+  },
+  guideVertical: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    left: '50%',
+    width: 1,
+    backgroundColor: 'rgba(255, 255, 255, 0.4)',
+  },
+  guideHorizontal: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 1,
+    backgroundColor: 'rgba(255, 255, 255, 0.4)',
+  },
+  topBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 8,
+  },
+  roundButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.45)',
+  },
+  roundButtonPlaceholder: {
+    width: 44,
+  },
+  poseSteps: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  poseStep: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: 'rgba(0, 0, 0, 0.45)',
+  },
+  poseStepActive: {
+    backgroundColor: COLORS.PRIMARY[600],
+  },
+  poseStepDone: {
+    backgroundColor: COLORS.SUCCESS[600],
+  },
+  poseStepText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  instructionBox: {
+    alignSelf: 'center',
+    alignItems: 'center',
+    marginTop: 12,
+    marginHorizontal: 24,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: 'rgba(0, 0, 0, 0.45)',
+  },
+  instructionTitle: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  instructionText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.NEUTRAL[200],
+    textAlign: 'center',
+    marginTop: 2,
+  },
+  instructionHint: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.PRIMARY[300],
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  countdownContainer: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  countdownText: {
+    fontSize: 96,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  bottomBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-around',
+    paddingBottom: 16,
+  },
+  sideControls: {
+    flexDirection: 'row',
+    gap: 12,
+    width: 100,
+    justifyContent: 'center',
+  },
+  timerBadge: {
+    position: 'absolute',
+    bottom: -2,
+    right: -4,
+    fontSize: 10,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  shutter: {
+    width: 76,
+    height: 76,
+    borderRadius: 38,
+    borderWidth: 4,
+    borderColor: COLORS.NEUTRAL.WHITE,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  shutterDisabled: {
+    opacity: 0.5,
+  },
+  shutterInner: {
+    width: 60,
+    height: 60,
+    borderRadius: 30,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+  },
+  shutterInnerCounting: {
+    width: 28,
+    height: 28,
+    borderRadius: 6,
+    backgroundColor: COLORS.ERROR[500],
+  },
+  pendingButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 24,
+    backgroundColor: 'rgba(0, 0, 0, 0.55)',
+  },
+  pendingButtonPrimary: {
+    backgroundColor: COLORS.PRIMARY[600],
+  },
+  pendingButtonText: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  reviewContainer: {
+    flex: 1,
+    backgroundColor: COLORS.NEUTRAL[50],
+  },
+  reviewHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.NEUTRAL[200],
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  reviewTitle: {
+    fontSize: FONT_SIZES.XL,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  reviewContent: {
+    padding: 16,
+  },
+  reviewGrid: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  reviewItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  reviewPhoto: {
+    width: '100%',
+    aspectRatio: 3 / 4,
+    borderRadius: 10,
+    backgroundColor: COLORS.NEUTRAL[200],
+  },
+  reviewPhotoEmpty: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1.5,
+    borderStyle: 'dashed',
+    borderColor: COLORS.NEUTRAL[300],
+    backgroundColor: COLORS.NEUTRAL[50],
+  },
+  reviewLabel: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[800],
+    marginTop: 8,
+  },
+  reviewRetake: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.PRIMARY[600],
+    marginTop: 4,
+  },
+  backupRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 24,
+    padding: 16,
+    borderRadius: 16,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+  },
+  backupTitle: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  backupText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 2,
+  },
+  reviewFooter: {
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.NEUTRAL[200],
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+  },
+  saveButton: {
+    backgroundColor: COLORS.PRIMARY[600],
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+});
@@ -0,0 +1,446 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Animated,
+  PanResponder,
+  LayoutChangeEvent,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router, useLocalSearchParams } from 'expo-router';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+import { PHOTO_POSES, PHOTO_POSE_CONFIG, PhotoPose } from '../../constants/progressPhotos';
+import { useAuth } from '../../contexts/AuthContext';
+import { progressPhotoVault, ProgressPhoto } from '../../services/progressPhotoVault';
+import { VaultPhoto } from '../../components/progress/VaultPhoto';
+import { parseISODate } from '../../utils/dateUtils';
+
+type CompareMode = 'side-by-side' | 'slider';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatChipDate = (date: string) =>
+  (parseISODate(date) || new Date(date)).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: '2-digit' });
+
+export default function ProgressPhotoCompareScreen() {
+  const { user } = useAuth();
+  const params = useLocalSearchParams<{ pose?: string; after?: string }>();
+
+  const [photos, setPhotos] = useState<ProgressPhoto[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pose, setPose] = useState<PhotoPose>(
+    PHOTO_POSES.includes(params.pose as PhotoPose) ? (params.pose as PhotoPose) : 'front'
+  );
+  const [beforeId, setBeforeId] = useState<string | null>(null);
+  const [afterId, setAfterId] = useState<string | null>(null);
+  const [mode, setMode] = useState<CompareMode>('side-by-side');
+  const [sliderWidth, setSliderWidth] = useState(0);
+
+  const sliderX = useRef(new Animated.Value(0)).current;
+  const sliderStart = useRef(0);
+  const sliderPosition = useRef(0);
+  const sliderWidthRef = useRef(0);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    progressPhotoVault.list(user.id).then((list) => {
+      setPhotos(list);
+      setIsLoading(false);
+    });
+  }, [user?.id]);
+
+  // Photos of the selected pose, oldest first
+  const posePhotos = useMemo(
+    () => photos.filter((photo) => photo.pose === pose).sort((a, b) => a.date.localeCompare(b.date)),
+    [photos, pose]
+  );
+
+  // Default to the first photo against the latest (or the one opened from the viewer)
+  useEffect(() => {
+    if (posePhotos.length === 0) {
+      setBeforeId(null);
+      setAfterId(null);
+      return;
+    }
+    const requestedAfter = params.after ? posePhotos.filter((p) => p.date === params.after).pop() : undefined;
+    const after = requestedAfter || posePhotos[posePhotos.length - 1];
+    const before = posePhotos[0].id !== after.id ? posePhotos[0] : posePhotos[posePhotos.length - 1];
+    setBeforeId(before.id);
+    setAfterId(after.id);
+  }, [posePhotos, params.after]);
+
+  const before = posePhotos.find((p) => p.id === beforeId) || null;
+  const after = posePhotos.find((p) => p.id === afterId) || null;
+  const daysBetween = before && after
+    ? Math.abs(Math.round(((parseISODate(after.date)?.getTime() || 0) - (parseISODate(before.date)?.getTime() || 0)) / DAY_MS))
+    : 0;
+
+  const setSlider = (value: number) => {
+    const clamped = Math.max(0, Math.min(sliderWidthRef.current, value));
+    sliderPosition.current = clamped;
+    sliderX.setValue(clamped);
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderGrant: (event) => {
+        // Jump to the touch, then follow the finger
+        setSlider(event.nativeEvent.locationX);
+        sliderStart.current = sliderPosition.current;
+      },
+      onPanResponderMove: (_, gesture) => setSlider(sliderStart.current + gesture.dx),
+      onPanResponderTerminationRequest: () => false,
+    })
+  ).current;
+
+  const handleSliderLayout = (event: LayoutChangeEvent) => {
+    const layoutWidth = event.nativeEvent.layout.width;
+    sliderWidthRef.current = layoutWidth;
+    setSliderWidth(layoutWidth);
+    setSlider(layoutWidth / 2);
+  };
+
+  const renderDateChips = (label: string, selectedId: string | null, onSelect: (id: string) => void, disabledId: string | null) => (
+    <View style={styles.dateGroup}>
+      <Text style={styles.dateGroupLabel}>{label}</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {posePhotos.map((photo) => {
+          const isSelected = photo.id === selectedId;
+          const isDisabled = photo.id === disabledId;
+          return (
+            <TouchableOpacity
+              key={photo.id}
+              style={[styles.chip, isSelected && styles.chipActive, isDisabled && styles.chipDisabled]}
+              onPress={() => onSelect(photo.id)}
+              disabled={isDisabled}
+            >
+              <Text style={[styles.chipText, isSelected && styles.chipTextActive]}>{formatChipDate(photo.date)}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="arrow-back" size={24} color={COLORS.SECONDARY[900]} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Compare</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      {isLoading || !user?.id ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={COLORS.PRIMARY[600]} />
+        </View>
+      ) : (
+        <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+          {/* Pose + mode */}
+          <View style={styles.segmented}>
+            {PHOTO_POSES.map((p) => (
+              <TouchableOpacity
+                key={p}
+                style={[styles.segment, pose === p && styles.segmentActive]}
+                onPress={() => setPose(p)}
+              >
+                <Text style={[styles.segmentText, pose === p && styles.segmentTextActive]}>{PHOTO_POSE_CONFIG[p].label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={[styles.segmented, { marginTop: 8 }]}>
+            {(['side-by-side', 'slider'] as CompareMode[]).map((m) => (
+              <TouchableOpacity
+                key={m}
+                style={[styles.segment, mode === m && styles.segmentActive]}
+                onPress={() => setMode(m)}
+              >
+                <Ionicons
+                  name={m === 'slider' ? 'swap-horizontal' : 'albums-outline'}
+                  size={14}
+                  color={mode === m ? COLORS.SECONDARY[900] : COLORS.SECONDARY[500]}
+                />
+                <Text style={[styles.segmentText, mode === m && styles.segmentTextActive]}>
+                  {m === 'slider' ? 'Slider' : 'Side by Side'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {posePhotos.length < 2 ? (
+            <View style={styles.emptyState}>
+              <Ionicons name="images-outline" size={56} color={COLORS.SECONDARY[300]} />
+              <Text style={styles.emptyStateTitle}>Not Enough Photos</Text>
+              <Text style={styles.emptyStateText}>
+                Take at least two {PHOTO_POSE_CONFIG[pose].label.toLowerCase()} photos on different days to compare them.
+              </Text>
+            </View>
+          ) : (
+            <>
+              {before && after && (
+                <View style={styles.summary}>
+                  <Ionicons name="time-outline" size={16} color={COLORS.PRIMARY[600]} />
+                  <Text style={styles.summaryText}>{daysBetween} day{daysBetween === 1 ? '' : 's'} apart</Text>
+                </View>
+              )}
+
+              {before && after && mode === 'side-by-side' && (
+                <View style={styles.sideBySide}>
+                  {[before, after].map((photo, index) => (
+                    <View key={photo.id} style={styles.sideColumn}>
+                      <VaultPhoto userId={user.id} photoId={photo.id} style={styles.sidePhoto} />
+                      <Text style={styles.photoCaption}>{index === 0 ? 'Before' : 'After'} · {formatChipDate(photo.date)}</Text>
+                    </View>
+                  ))}
+                </View>
+              )}
+
+              {before && after && mode === 'slider' && (
+                <View style={styles.sliderFrame} onLayout={handleSliderLayout} {...panResponder.panHandlers}>
+                  <VaultPhoto userId={user.id} photoId={after.id} style={StyleSheet.absoluteFill} />
+                  <Animated.View style={[styles.sliderReveal, { width: sliderX }]}>
+                    <VaultPhoto userId={user.id} photoId={before.id} style={[styles.sliderBeforePhoto, { width: sliderWidth }]} />
+                  </Animated.View>
+                  <Animated.View style={[styles.sliderHandle, { transform: [{ translateX: sliderX }] }]} pointerEvents="none">
+                    <View style={styles.sliderLine} />
+                    <View style={styles.sliderKnob}>
+                      <Ionicons name="code-outline" size={18} color={COLORS.SECONDARY[900]} />
+                    </View>
+                  </Animated.View>
+                  <Text style={[styles.sliderTag, { left: 8 }]}>Before</Text>
+                  <Text style={[styles.sliderTag, { right: 8 }]}>After</Text>
+                </View>
+              )}
+
+              {renderDateChips('Before', beforeId, setBeforeId, afterId)}
+              {renderDateChips('After', afterId, setAfterId, beforeId)}
+            </>
+          )}
+
+          <View style={{ height: 40 }} />
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.NEUTRAL[50],
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.NEUTRAL[200],
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: FONT_SIZES.XL,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  segmented: {
+    flexDirection: 'row',
+    backgroundColor: COLORS.NEUTRAL[100],
+    borderRadius: 10,
+    padding: 3,
+  },
+  segment: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  segmentActive: {
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+  },
+  segmentText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[500],
+  },
+  segmentTextActive: {
+    color: COLORS.SECONDARY[900],
+  },
+  summary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    marginTop: 16,
+    marginBottom: 12,
+  },
+  summaryText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[700],
+  },
+  sideBySide: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  sideColumn: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  sidePhoto: {
+    width: '100%',
+    aspectRatio: 3 / 4,
+    borderRadius: 12,
+  },
+  photoCaption: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[600],
+    marginTop: 6,
+  },
+  sliderFrame: {
+    width: '100%',
+    aspectRatio: 3 / 4,
+    borderRadius: 12,
+    overflow: 'hidden',
+    backgroundColor: COLORS.NEUTRAL[200],
+  },
+  sliderReveal: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    left: 0,
+    overflow: 'hidden',
+  },
+  sliderBeforePhoto: {
+    height: '100%',
+  },
+  sliderHandle: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    left: -20,
+    width: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  sliderLine: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 2,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+  },
+  sliderKnob: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 4,
+  },
+  sliderTag: {
+    position: 'absolute',
+    top: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    overflow: 'hidden',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  dateGroup: {
+    marginTop: 16,
+  },
+  dateGroupLabel: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[700],
+    marginBottom: 8,
+  },
+  chipRow: {
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.SECONDARY[200],
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+  },
+  chipActive: {
+    backgroundColor: COLORS.PRIMARY[600],
+    borderColor: COLORS.PRIMARY[600],
+  },
+  chipDisabled: {
+    opacity: 0.4,
+  },
+  chipText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.SECONDARY[700],
+  },
+  chipTextActive: {
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+    marginTop: 16,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderRadius: 16,
+  },
+  emptyStateTitle: {
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[700],
+    marginTop: 16,
+  },
+  emptyStateText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 8,
+    textAlign: 'center',
+    paddingHorizontal: 40,
+  },
+});
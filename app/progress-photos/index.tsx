@@ -0,0 +1,503 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  Modal,
+  Dimensions,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router, useFocusEffect } from 'expo-router';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+import { PHOTO_BACKUP_ENABLED, PHOTO_POSES, PHOTO_POSE_CONFIG, PhotoPose } from '../../constants/progressPhotos';
+import { useAuth } from '../../contexts/AuthContext';
+import { useAlert } from '../../contexts/AlertContext';
+import { useSmartBack } from '../../hooks/useSmartBack';
+import { progressPhotoVault, ProgressPhoto } from '../../services/progressPhotoVault';
+import { VaultPhoto } from '../../components/progress/VaultPhoto';
+import { parseISODate } from '../../utils/dateUtils';
+
+const { width } = Dimensions.get('window');
+const THUMB_WIDTH = (width - 32 - 32 - 16) / 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface PhotoSession {
+  date: string;
+  photos: Partial<Record<PhotoPose, ProgressPhoto>>;
+}
+
+const formatSessionDate = (date: string) =>
+  (parseISODate(date) || new Date(date)).toLocaleDateString(undefined, { weekday: 'short', month: 'long', day: 'numeric', year: 'numeric' });
+
+export default function ProgressPhotosScreen() {
+  const { user } = useAuth();
+  const alert = useAlert();
+  const { goBack } = useSmartBack();
+
+  const [photos, setPhotos] = useState<ProgressPhoto[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [viewing, setViewing] = useState<ProgressPhoto | null>(null);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+
+  const loadPhotos = useCallback(async () => {
+    if (!user?.id) return;
+    setPhotos(await progressPhotoVault.list(user.id));
+    setIsLoading(false);
+  }, [user?.id]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadPhotos();
+    }, [loadPhotos])
+  );
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadPhotos();
+    setRefreshing(false);
+  };
+
+  // One session per day; photos are already newest first, so the first of each pose wins
+  const sessions = useMemo(() => {
+    const byDate = new Map<string, PhotoSession>();
+    photos.forEach((photo) => {
+      const session = byDate.get(photo.date) || { date: photo.date, photos: {} };
+      if (!session.photos[photo.pose]) session.photos[photo.pose] = photo;
+      byDate.set(photo.date, session);
+    });
+    return Array.from(byDate.values());
+  }, [photos]);
+
+  const firstDate = sessions.length > 0 ? sessions[sessions.length - 1].date : null;
+
+  const getDaysSinceFirst = (date: string) => {
+    if (!firstDate) return 0;
+    const start = parseISODate(firstDate) || new Date(firstDate);
+    const current = parseISODate(date) || new Date(date);
+    return Math.round((current.getTime() - start.getTime()) / DAY_MS);
+  };
+
+  const handleBackup = async (photo: ProgressPhoto) => {
+    if (!user?.id || isBackingUp) return;
+    setIsBackingUp(true);
+    try {
+      const updated = await progressPhotoVault.uploadPhoto(user.id, photo);
+      setPhotos((prev) => prev.map((p) => (p.id === updated.id ? updated : p)));
+      setViewing(updated);
+      alert.success('Backed Up', 'This photo is now stored privately in your account.');
+    } catch (error) {
+      console.error('❌ Failed to back up progress photo:', error);
+      alert.error('Backup Failed', (error as Error).message || 'Could not upload this photo. It is still saved on your device.');
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const handleDelete = (photo: ProgressPhoto) => {
+    if (!user?.id) return;
+    alert.confirm(
+      'Delete Photo',
+      photo.remoteEntryId
+        ? 'This removes the photo from this device and from your backup.'
+        : 'This photo only exists on this device and cannot be recovered.',
+      async () => {
+        try {
+          await progressPhotoVault.deletePhoto(user.id, photo);
+          setPhotos((prev) => prev.filter((p) => p.id !== photo.id));
+          setViewing(null);
+        } catch (error) {
+          console.error('❌ Failed to delete progress photo:', error);
+          alert.error('Error', 'Failed to delete photo');
+        }
+      },
+      undefined,
+      'Delete',
+      'Cancel'
+    );
+  };
+
+  const renderSession = (session: PhotoSession) => {
+    const days = getDaysSinceFirst(session.date);
+    const sessionPhotos = Object.values(session.photos) as ProgressPhoto[];
+    const allBackedUp = sessionPhotos.every((photo) => !!photo.remoteEntryId);
+
+    return (
+      <View key={session.date} style={styles.sessionCard}>
+        <View style={styles.sessionHeader}>
+          <View style={{ flex: 1 }}>
+            <Text style={styles.sessionDate}>{formatSessionDate(session.date)}</Text>
+            <Text style={styles.sessionMeta}>{days === 0 ? 'Starting point' : `Day ${days}`}</Text>
+          </View>
+          <Ionicons
+            name={allBackedUp ? 'cloud-done-outline' : 'phone-portrait-outline'}
+            size={18}
+            color={allBackedUp ? COLORS.SUCCESS[600] : COLORS.SECONDARY[400]}
+          />
+        </View>
+        <View style={styles.thumbRow}>
+          {PHOTO_POSES.map((pose) => {
+            const photo = session.photos[pose];
+            return (
+              <View key={pose} style={styles.thumbColumn}>
+                {photo && user?.id ? (
+                  <TouchableOpacity onPress={() => setViewing(photo)} activeOpacity={0.8}>
+                    <VaultPhoto userId={user.id} photoId={photo.id} style={styles.thumb} />
+                  </TouchableOpacity>
+                ) : (
+                  <View style={[styles.thumb, styles.thumbEmpty]}>
+                    <Ionicons name={PHOTO_POSE_CONFIG[pose].icon} size={22} color={COLORS.SECONDARY[300]} />
+                  </View>
+                )}
+                <Text style={styles.thumbLabel}>{PHOTO_POSE_CONFIG[pose].label}</Text>
+              </View>
+            );
+          })}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => goBack()} style={styles.headerButton}>
+          <Ionicons name="arrow-back" size={24} color={COLORS.SECONDARY[900]} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Progress Photos</Text>
+        <TouchableOpacity onPress={() => router.push('/progress-photos/capture')} style={styles.headerButton}>
+          <Ionicons name="camera" size={26} color={COLORS.PRIMARY[600]} />
+        </TouchableOpacity>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={COLORS.PRIMARY[600]} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={COLORS.PRIMARY[600]} />}
+        >
+          <View style={styles.privacyNote}>
+            <Ionicons name="lock-closed" size={16} color={COLORS.PRIMARY[600]} />
+            <Text style={styles.privacyText}>
+              Photos are encrypted on this device. Nothing is uploaded unless you back a photo up.
+            </Text>
+          </View>
+
+          {sessions.length >= 2 && (
+            <TouchableOpacity style={styles.compareCard} onPress={() => router.push('/progress-photos/compare')} activeOpacity={0.7}>
+              <View style={styles.compareIcon}>
+                <Ionicons name="git-compare" size={22} color={COLORS.PRIMARY[600]} />
+              </View>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.compareTitle}>Compare Progress</Text>
+                <Text style={styles.compareText}>Side by side or with a slider, between any two dates</Text>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color={COLORS.SECONDARY[400]} />
+            </TouchableOpacity>
+          )}
+
+          {sessions.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Ionicons name="images-outline" size={64} color={COLORS.SECONDARY[300]} />
+              <Text style={styles.emptyStateTitle}>No Progress Photos Yet</Text>
+              <Text style={styles.emptyStateText}>
+                Take front, side and back photos now and every few weeks to see changes the scale misses.
+              </Text>
+              <TouchableOpacity style={styles.emptyStateButton} onPress={() => router.push('/progress-photos/capture')}>
+                <Ionicons name="camera" size={18} color="white" />
+                <Text style={styles.emptyStateButtonText}>Take First Photos</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            sessions.map(renderSession)
+          )}
+
+          <View style={{ height: 40 }} />
+        </ScrollView>
+      )}
+
+      {/* Photo viewer */}
+      <Modal visible={!!viewing} animationType="fade" onRequestClose={() => setViewing(null)}>
+        <SafeAreaView style={styles.viewer}>
+          <View style={styles.viewerHeader}>
+            <TouchableOpacity onPress={() => setViewing(null)} style={styles.headerButton}>
+              <Ionicons name="close" size={28} color="white" />
+            </TouchableOpacity>
+            {viewing && (
+              <View style={styles.viewerTitleBlock}>
+                <Text style={styles.viewerTitle}>{PHOTO_POSE_CONFIG[viewing.pose].label}</Text>
+                <Text style={styles.viewerSubtitle}>{formatSessionDate(viewing.date)}</Text>
+              </View>
+            )}
+            <View style={styles.headerButton} />
+          </View>
+
+          {viewing && user?.id && (
+            <VaultPhoto userId={user.id} photoId={viewing.id} style={styles.viewerPhoto} contentFit="contain" />
+          )}
+
+          {viewing && (
+            <View style={styles.viewerActions}>
+              <TouchableOpacity
+                style={styles.viewerAction}
+                onPress={() => {
+                  setViewing(null);
+                  router.push({ pathname: '/progress-photos/compare', params: { pose: viewing.pose, after: viewing.date } });
+                }}
+              >
+                <Ionicons name="git-compare-outline" size={22} color="white" />
+                <Text style={styles.viewerActionText}>Compare</Text>
+              </TouchableOpacity>
+              {PHOTO_BACKUP_ENABLED && (
+                <TouchableOpacity
+                  style={styles.viewerAction}
+                  onPress={() => handleBackup(viewing)}
+                  disabled={!!viewing.remoteEntryId || isBackingUp}
+                >
+                  {isBackingUp ? (
+                    <ActivityIndicator color="white" />
+                  ) : (
+                    <Ionicons name={viewing.remoteEntryId ? 'cloud-done' : 'cloud-upload-outline'} size={22} color="white" />
+                  )}
+                  <Text style={styles.viewerActionText}>{viewing.remoteEntryId ? 'Backed Up' : 'Back Up'}</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity style={styles.viewerAction} onPress={() => handleDelete(viewing)}>
+                <Ionicons name="trash-outline" size={22} color={COLORS.ERROR[400]} />
+                <Text style={[styles.viewerActionText, { color: COLORS.ERROR[400] }]}>Delete</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </SafeAreaView>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.NEUTRAL[50],
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.NEUTRAL[200],
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: FONT_SIZES.XL,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  privacyNote: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: COLORS.PRIMARY[50],
+    marginBottom: 16,
+  },
+  privacyText: {
+    flex: 1,
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[700],
+  },
+  compareCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+    borderRadius: 16,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  compareIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: COLORS.PRIMARY[100],
+  },
+  compareTitle: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  compareText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 2,
+  },
+  sessionCard: {
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  sessionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  sessionDate: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  sessionMeta: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 2,
+  },
+  thumbRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  thumbColumn: {
+    alignItems: 'center',
+  },
+  thumb: {
+    width: THUMB_WIDTH,
+    height: THUMB_WIDTH * (4 / 3),
+    borderRadius: 10,
+  },
+  thumbEmpty: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1.5,
+    borderStyle: 'dashed',
+    borderColor: COLORS.NEUTRAL[300],
+    backgroundColor: COLORS.NEUTRAL[50],
+  },
+  thumbLabel: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.SECONDARY[600],
+    marginTop: 6,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderRadius: 16,
+  },
+  emptyStateTitle: {
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[700],
+    marginTop: 16,
+  },
+  emptyStateText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 8,
+    textAlign: 'center',
+    paddingHorizontal: 40,
+  },
+  emptyStateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 20,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: COLORS.PRIMARY[600],
+  },
+  emptyStateButtonText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  viewer: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  viewerHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  viewerTitleBlock: {
+    alignItems: 'center',
+  },
+  viewerTitle: {
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  viewerSubtitle: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.NEUTRAL[300],
+  },
+  viewerPhoto: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  viewerActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    paddingVertical: 16,
+  },
+  viewerAction: {
+    alignItems: 'center',
+    gap: 4,
+    minWidth: 80,
+  },
+  viewerActionText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+});
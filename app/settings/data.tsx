@@ -0,0 +1,594 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Platform,
+  Share,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '../../contexts/AuthContext';
+import { useAlert } from '../../contexts/AlertContext';
+import { useSmartBack } from '../../hooks/useSmartBack';
+import { useProgressStore } from '../../stores/progressStore';
+import { COLORS, FONTS } from '../../constants/colors';
+import {
+  EXPORT_DATA_TYPES,
+  EXPORT_DATA_TYPE_ORDER,
+  EXPORT_FORMATS,
+  EXPORT_FORMAT_ORDER,
+  IMPORTABLE_DATA_TYPES,
+  ExportDataType,
+  ExportFormat,
+} from '../../constants/dataExport';
+import { dataPortabilityService, ImportProgress } from '../../services/dataPortability';
+import { trackingService } from '../../services/microservices/trackingService';
+import { TrainingBackup, getBackupCounts, serializeBackup } from '../../utils/dataExport';
+
+export default function DataSettingsScreen() {
+  const { user } = useAuth();
+  const alert = useAlert();
+  const { goBack } = useSmartBack();
+
+  const [selectedTypes, setSelectedTypes] = useState<Set<ExportDataType>>(new Set(EXPORT_DATA_TYPE_ORDER));
+  const [format, setFormat] = useState<ExportFormat>('json');
+  const [isExporting, setIsExporting] = useState(false);
+  const [pendingBackup, setPendingBackup] = useState<TrainingBackup | null>(null);
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  // TCX only describes workouts
+  const exportTypes: ExportDataType[] = format === 'tcx'
+    ? ['sessions']
+    : EXPORT_DATA_TYPE_ORDER.filter((type) => selectedTypes.has(type));
+
+  const toggleType = (type: ExportDataType) => {
+    setSelectedTypes((prev) => {
+      const next = new Set(prev);
+      if (next.has(type)) {
+        next.delete(type);
+      } else {
+        next.add(type);
+      }
+      return next;
+    });
+  };
+
+  const buildExport = async () => {
+    if (!user) return null;
+    const { backup, failed } = await dataPortabilityService.buildBackup(user, exportTypes);
+    if (failed.length === exportTypes.length) {
+      throw new Error('None of your data could be loaded. Check your connection and try again.');
+    }
+    return { backup, failed };
+  };
+
+  const reportSkipped = (failed: ExportDataType[]) => {
+    if (failed.length > 0) {
+      alert.warning(
+        'Partial Export',
+        `These couldn't be loaded and were left out: ${failed.map((type) => EXPORT_DATA_TYPES[type].label).join(', ')}.`
+      );
+    }
+  };
+
+  const handleShare = async () => {
+    if (isExporting || exportTypes.length === 0) return;
+    setIsExporting(true);
+    try {
+      const result = await buildExport();
+      if (!result) return;
+
+      // Android's share sheet only takes text, so the export goes as the message body there
+      if (Platform.OS === 'ios') {
+        const file = dataPortabilityService.writeExportFile(result.backup, format);
+        await Share.share({ url: file.uri, title: file.name });
+      } else {
+        await Share.share({ message: serializeBackup(result.backup, format), title: 'FitNEase Export' });
+      }
+      reportSkipped(result.failed);
+    } catch (error) {
+      console.error('❌ [DATA EXPORT] Share failed:', error);
+      alert.error('Export Failed', (error as Error).message || 'Could not create your export.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleSaveToFolder = async () => {
+    if (isExporting || exportTypes.length === 0) return;
+    setIsExporting(true);
+    try {
+      const result = await buildExport();
+      if (!result) return;
+
+      const saved = await dataPortabilityService.saveExportToFolder(result.backup, format);
+      if (saved) {
+        if (result.failed.length > 0) {
+          reportSkipped(result.failed);
+        } else {
+          alert.success('Export Saved', 'Your data was saved to the selected folder.');
+        }
+      }
+    } catch (error) {
+      console.error('❌ [DATA EXPORT] Save failed:', error);
+      alert.error('Export Failed', (error as Error).message || 'Could not save your export.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handlePickBackup = async () => {
+    try {
+      const backup = await dataPortabilityService.pickBackup();
+      if (backup) setPendingBackup(backup);
+    } catch (error) {
+      alert.error('Invalid Backup', (error as Error).message);
+    }
+  };
+
+  const runImport = async (backup: TrainingBackup) => {
+    if (!user) return;
+    setIsImporting(true);
+    try {
+      const summary = await dataPortabilityService.importBackup(user.id, backup, IMPORTABLE_DATA_TYPES, setImportProgress);
+      setPendingBackup(null);
+      useProgressStore.getState().refreshAfterWorkout(user.id).catch(() => {});
+
+      const imported = IMPORTABLE_DATA_TYPES
+        .filter((type) => summary.imported[type])
+        .map((type) => `${summary.imported[type]} ${EXPORT_DATA_TYPES[type].label.toLowerCase()}`);
+      const failedCount = Object.values(summary.failed).reduce((sum, count) => sum + (count || 0), 0);
+
+      if (imported.length === 0) {
+        alert.error('Import Failed', 'Nothing could be imported. Check your connection and try again.');
+      } else if (failedCount > 0) {
+        alert.warning('Import Finished', `Imported ${imported.join(', ')}. ${failedCount} item(s) could not be imported.`);
+      } else {
+        alert.success('Import Complete', `Imported ${imported.join(', ')}.`);
+      }
+    } catch (error) {
+      console.error('❌ [DATA IMPORT] Import failed:', error);
+      alert.error('Import Failed', (error as Error).message || 'Could not import your backup.');
+    } finally {
+      setIsImporting(false);
+      setImportProgress(null);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!user || !pendingBackup || isImporting) return;
+
+    // Backups are meant for fresh accounts; importing twice duplicates every session
+    const { total } = await trackingService.getSessions({ userId: user.id, limit: 1 });
+    if (total > 0) {
+      alert.confirm(
+        'Account Has Data',
+        `This account already has ${total} workout session(s). Importing will add the backup on top and may create duplicates.`,
+        () => runImport(pendingBackup),
+        undefined,
+        'Import Anyway',
+        'Cancel'
+      );
+      return;
+    }
+
+    runImport(pendingBackup);
+  };
+
+  const backupCounts = pendingBackup ? getBackupCounts(pendingBackup) : {};
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={goBack} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Your Data</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        showsVerticalScrollIndicator={false}
+        contentContainerStyle={styles.scrollContent}
+      >
+        <Text style={styles.sectionDescription}>
+          Take your training history with you. Exports are built on this device and only leave it when you share or save them.
+        </Text>
+
+        {/* Export */}
+        <Text style={styles.sectionTitle}>Export</Text>
+
+        <Text style={styles.label}>Format</Text>
+        <View style={styles.cardsContainer}>
+          {EXPORT_FORMAT_ORDER.map((key) => {
+            const config = EXPORT_FORMATS[key];
+            const isSelected = format === key;
+            return (
+              <TouchableOpacity
+                key={key}
+                style={[styles.optionCard, isSelected && styles.optionCardSelected]}
+                activeOpacity={0.7}
+                onPress={() => setFormat(key)}
+              >
+                <View style={[styles.iconContainer, isSelected && styles.iconContainerSelected]}>
+                  <Ionicons name={config.icon} size={20} color={COLORS.PRIMARY[500]} />
+                </View>
+                <View style={styles.cardContent}>
+                  <Text style={styles.cardTitle}>{config.label}</Text>
+                  <Text style={styles.cardDescription}>{config.description}</Text>
+                </View>
+                <Ionicons
+                  name={isSelected ? 'radio-button-on' : 'radio-button-off'}
+                  size={22}
+                  color={isSelected ? COLORS.PRIMARY[500] : COLORS.SECONDARY[300]}
+                />
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <Text style={styles.label}>Include</Text>
+        <View style={styles.listCard}>
+          {EXPORT_DATA_TYPE_ORDER.map((type, index) => {
+            const config = EXPORT_DATA_TYPES[type];
+            const isAvailable = format !== 'tcx' || type === 'sessions';
+            const isChecked = exportTypes.includes(type);
+            return (
+              <TouchableOpacity
+                key={type}
+                style={[styles.listRow, index > 0 && styles.listRowBorder, !isAvailable && styles.listRowDisabled]}
+                activeOpacity={0.7}
+                onPress={() => toggleType(type)}
+                disabled={!isAvailable || format === 'tcx'}
+              >
+                <Ionicons name={config.icon} size={20} color={COLORS.SECONDARY[600]} />
+                <Text style={styles.listRowText}>{config.label}</Text>
+                <Ionicons
+                  name={isChecked ? 'checkbox' : 'square-outline'}
+                  size={22}
+                  color={isChecked ? COLORS.PRIMARY[500] : COLORS.SECONDARY[300]}
+                />
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <View style={styles.buttonRow}>
+          <TouchableOpacity
+            style={[styles.primaryButton, styles.rowButton, (isExporting || exportTypes.length === 0) && styles.buttonDisabled]}
+            activeOpacity={0.7}
+            onPress={handleShare}
+            disabled={isExporting || exportTypes.length === 0}
+          >
+            {isExporting ? (
+              <ActivityIndicator size="small" color="white" />
+            ) : (
+              <>
+                <Ionicons name="share-outline" size={18} color="white" />
+                <Text style={styles.primaryButtonText}>Share</Text>
+              </>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.secondaryButton, styles.rowButton, (isExporting || exportTypes.length === 0) && styles.buttonDisabled]}
+            activeOpacity={0.7}
+            onPress={handleSaveToFolder}
+            disabled={isExporting || exportTypes.length === 0}
+          >
+            <Ionicons name="folder-outline" size={18} color={COLORS.PRIMARY[600]} />
+            <Text style={styles.secondaryButtonText}>Save to Folder</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Import */}
+        <Text style={[styles.sectionTitle, styles.sectionSpacing]}>Import</Text>
+        <Text style={styles.sectionDescription}>
+          Restore a JSON backup into this account. Sessions, ratings, BMI history and assessments are imported; achievements are earned again from your restored workouts.
+        </Text>
+
+        {pendingBackup ? (
+          <View style={styles.listCard}>
+            <View style={styles.backupHeader}>
+              <Ionicons name="document-text-outline" size={22} color={COLORS.PRIMARY[500]} />
+              <View style={styles.cardContent}>
+                <Text style={styles.cardTitle}>Backup of {pendingBackup.user.name}</Text>
+                <Text style={styles.cardDescription}>
+                  Exported {new Date(pendingBackup.exportedAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}
+                </Text>
+              </View>
+              {!isImporting && (
+                <TouchableOpacity onPress={() => setPendingBackup(null)}>
+                  <Ionicons name="close" size={22} color={COLORS.SECONDARY[400]} />
+                </TouchableOpacity>
+              )}
+            </View>
+
+            {IMPORTABLE_DATA_TYPES.map((type) => (
+              <View key={type} style={[styles.listRow, styles.listRowBorder]}>
+                <Ionicons name={EXPORT_DATA_TYPES[type].icon} size={18} color={COLORS.SECONDARY[500]} />
+                <Text style={styles.listRowText}>{EXPORT_DATA_TYPES[type].label}</Text>
+                <Text style={styles.countText}>{backupCounts[type] ?? 0}</Text>
+              </View>
+            ))}
+
+            {importProgress && (
+              <View style={styles.progressContainer}>
+                <Text style={styles.progressText}>
+                  Importing {EXPORT_DATA_TYPES[importProgress.dataType].label.toLowerCase()}… {importProgress.done}/{importProgress.total}
+                </Text>
+                <View style={styles.progressTrack}>
+                  <View
+                    style={[styles.progressFill, { width: `${(importProgress.done / Math.max(importProgress.total, 1)) * 100}%` }]}
+                  />
+                </View>
+              </View>
+            )}
+
+            <TouchableOpacity
+              style={[styles.primaryButton, styles.importButton, isImporting && styles.buttonDisabled]}
+              activeOpacity={0.7}
+              onPress={handleImport}
+              disabled={isImporting}
+            >
+              {isImporting ? (
+                <ActivityIndicator size="small" color="white" />
+              ) : (
+                <>
+                  <Ionicons name="cloud-upload-outline" size={18} color="white" />
+                  <Text style={styles.primaryButtonText}>Import Backup</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <TouchableOpacity style={[styles.secondaryButton, styles.pickButton]} activeOpacity={0.7} onPress={handlePickBackup}>
+            <Ionicons name="document-attach-outline" size={18} color={COLORS.PRIMARY[600]} />
+            <Text style={styles.secondaryButtonText}>Choose Backup File</Text>
+          </TouchableOpacity>
+        )}
+
+        <View style={styles.infoContainer}>
+          <Ionicons name="information-circle-outline" size={16} color={COLORS.SECONDARY[400]} />
+          <Text style={styles.infoText}>
+            Progress photos stay encrypted on this device and are not part of exports.
+          </Text>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    backgroundColor: 'white',
+    paddingHorizontal: 24,
+    paddingTop: 16,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontFamily: FONTS.BOLD,
+    color: '#111827',
+    flex: 1,
+  },
+  headerSpacer: {
+    width: 36,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingTop: 16,
+    paddingBottom: 32,
+    paddingHorizontal: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontFamily: FONTS.BOLD,
+    color: '#111827',
+    marginBottom: 8,
+  },
+  sectionSpacing: {
+    marginTop: 32,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[600],
+    marginBottom: 20,
+    lineHeight: 20,
+  },
+  label: {
+    fontSize: 12,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[500],
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 8,
+  },
+  cardsContainer: {
+    gap: 10,
+    marginBottom: 20,
+  },
+  optionCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 14,
+    backgroundColor: 'white',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'transparent',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  optionCardSelected: {
+    backgroundColor: COLORS.PRIMARY[50],
+    borderColor: COLORS.PRIMARY[300],
+  },
+  iconContainer: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: COLORS.PRIMARY[50],
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  iconContainerSelected: {
+    backgroundColor: COLORS.PRIMARY[100],
+  },
+  cardContent: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 14,
+    fontFamily: FONTS.SEMIBOLD,
+    color: '#111827',
+  },
+  cardDescription: {
+    fontSize: 12,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 2,
+  },
+  listCard: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  listRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    gap: 12,
+  },
+  listRowBorder: {
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  listRowDisabled: {
+    opacity: 0.4,
+  },
+  listRowText: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: FONTS.MEDIUM,
+    color: '#111827',
+  },
+  countText: {
+    fontSize: 14,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[600],
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  rowButton: {
+    flex: 1,
+  },
+  pickButton: {
+    marginBottom: 20,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: COLORS.PRIMARY[500],
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 15,
+    fontFamily: FONTS.SEMIBOLD,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: COLORS.PRIMARY[300],
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  secondaryButtonText: {
+    color: COLORS.PRIMARY[600],
+    fontSize: 15,
+    fontFamily: FONTS.SEMIBOLD,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  backupHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+  },
+  progressContainer: {
+    paddingVertical: 12,
+  },
+  progressText: {
+    fontSize: 12,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.SECONDARY[600],
+    marginBottom: 6,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: COLORS.NEUTRAL[100],
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 3,
+    backgroundColor: COLORS.PRIMARY[500],
+  },
+  importButton: {
+    marginVertical: 12,
+  },
+  infoContainer: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+  },
+  infoText: {
+    flex: 1,
+    fontSize: 12,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[400],
+    lineHeight: 18,
+  },
+});
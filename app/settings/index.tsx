@@ -56,11 +56,27 @@ export default function SettingsScreen() {
         {
           icon: 'notifications-outline',
           title: 'Notifications',
-          subtitle: 'Manage your reminders',
+          subtitle: 'Reminders, categories and quiet hours',
           onPress: () => {
             router.push('/settings/notifications');
           },
         },
+        {
+          icon: 'volume-high-outline',
+          title: 'Workout Sounds',
+          subtitle: 'Timer cues, volume & sound pack',
+          onPress: () => {
+            router.push('/settings/workout-sounds');
+          },
+        },
+        {
+          icon: 'lock-closed-outline',
+          title: 'Security',
+          subtitle: 'Two-factor, sign-ins & devices',
+          onPress: () => {
+            router.push('/settings/security');
+          },
+        },
         {
           icon: 'shield-checkmark-outline',
           title: 'Permissions',
@@ -69,6 +85,14 @@ export default function SettingsScreen() {
             router.push('/settings/permissions');
           },
         },
+        {
+          icon: 'download-outline',
+          title: 'Your Data',
+          subtitle: 'Export or import your training history',
+          onPress: () => {
+            router.push('/settings/data');
+          },
+        },
         {
           icon: 'language-outline',
           title: 'Language',
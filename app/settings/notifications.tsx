@@ -6,8 +6,7 @@ import {
   ScrollView,
   TouchableOpacity,
   Switch,
-  Animated,
-  Dimensions
+  Animated
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
@@ -19,9 +18,20 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useAuth } from '../../contexts/AuthContext';
 import { useAlert } from '../../contexts/AlertContext';
 import { workoutNotificationScheduler, NotificationSettings } from '../../services/workoutNotificationScheduler';
+import {
+  notificationPreferences,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NotificationPreferences,
+  QuietHours,
+} from '../../services/notificationPreferences';
 import { COLORS, FONTS } from '../../constants/colors';
+import {
+  NOTIFICATION_CATEGORIES,
+  NotificationCategory,
+  QUIET_HOURS_END_OPTIONS,
+  QUIET_HOURS_START_OPTIONS,
+} from '../../constants/notifications';
 
-const { width } = Dimensions.get('window');
 const STORAGE_KEY = '@notification_settings';
 
 type Period = 'morning' | 'afternoon' | 'evening';
@@ -74,6 +84,10 @@ export default function NotificationSettingsScreen() {
   const [morningTime, setMorningTime] = useState('08:00');
   const [hasPermission, setHasPermission] = useState(false);
   const [activePeriod, setActivePeriod] = useState<Period>('morning');
+  const [adaptiveTiming, setAdaptiveTiming] = useState(true);
+  const [streakNudges, setStreakNudges] = useState(true);
+  const [learnedTime] = useState(() => workoutNotificationScheduler.getLearnedTrainingTime());
+  const [preferences, setPreferences] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
   const fadeAnim = useRef(new Animated.Value(1)).current;
 
   useEffect(() => {
@@ -81,6 +95,11 @@ export default function NotificationSettingsScreen() {
     checkPermission();
   }, []);
 
+  useEffect(() => {
+    if (!user) return;
+    notificationPreferences.load(user.id).then(setPreferences);
+  }, [user?.id]);
+
   const loadSettings = async () => {
     try {
       const stored = await AsyncStorage.getItem(STORAGE_KEY);
@@ -89,6 +108,8 @@ export default function NotificationSettingsScreen() {
         setIsEnabled(settings.enabled);
         setMorningTime(settings.morningReminderTime);
         setActivePeriod(getPeriodForTime(settings.morningReminderTime));
+        setAdaptiveTiming(settings.adaptiveTiming !== false);
+        setStreakNudges(settings.streakNudges !== false);
       }
     } catch (error) {
       console.error('Error loading notification settings:', error);
@@ -121,8 +142,32 @@ export default function NotificationSettingsScreen() {
     setMorningTime(value);
   };
 
+  const toggleCategory = (category: NotificationCategory, enabled: boolean) => {
+    setPreferences((prev) => ({
+      ...prev,
+      mutedCategories: enabled
+        ? prev.mutedCategories.filter((c) => c !== category)
+        : [...prev.mutedCategories, category],
+    }));
+  };
+
+  const updateQuietHours = (changes: Partial<QuietHours>) => {
+    setPreferences((prev) => ({ ...prev, quietHours: { ...prev.quietHours, ...changes } }));
+  };
+
   const saveSettings = async () => {
-    if (!user?.workoutDays || user.workoutDays.length === 0) {
+    if (!user) return;
+
+    // Category mutes and quiet hours apply whether or not reminders are set up
+    try {
+      await notificationPreferences.save(user.id, preferences);
+    } catch (error) {
+      console.error('Error saving notification preferences:', error);
+      alert.error('Error', 'Failed to save settings. Please try again.');
+      return;
+    }
+
+    if (!user.workoutDays || user.workoutDays.length === 0) {
       alert.confirm(
         'No Workout Days Set',
         'Please set your preferred workout days first in the Weekly Plan settings.',
@@ -140,17 +185,25 @@ export default function NotificationSettingsScreen() {
         enabled: isEnabled,
         morningReminderTime: morningTime,
         advanceNoticeMinutes: 60,
+        adaptiveTiming,
+        streakNudges,
       };
 
       await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
 
       if (isEnabled && hasPermission) {
-        await workoutNotificationScheduler.scheduleWorkoutReminders(user.workoutDays, settings);
-        alert.success('Settings Saved!', `You'll receive workout reminders at ${formatTime(morningTime)} on your workout days.`);
+        await workoutNotificationScheduler.scheduleSmartReminders(user.id, user.workoutDays, settings);
+        alert.success(
+          'Settings Saved!',
+          adaptiveTiming && learnedTime
+            ? `You'll be reminded an hour before your usual ${formatTime(learnedTime.time)} workouts on your planned days.`
+            : `You'll receive workout reminders at ${formatTime(morningTime)} on your planned workout days.`
+        );
       } else if (isEnabled && !hasPermission) {
         await requestPermission();
       } else {
-        await workoutNotificationScheduler.cancelAllNotifications();
+        // Disabled settings cancel the reminders and keep them off when the plan changes
+        await workoutNotificationScheduler.scheduleSmartReminders(user.id, user.workoutDays, settings);
         alert.info('Notifications Disabled', 'All workout reminders have been cancelled.');
       }
 
@@ -170,8 +223,6 @@ export default function NotificationSettingsScreen() {
     return `${hour12}:${String(minute).padStart(2, '0')} ${period}`;
   };
 
-  const currentPeriodMeta = PERIOD_META[activePeriod];
-
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
       {/* Header */}
@@ -179,7 +230,7 @@ export default function NotificationSettingsScreen() {
         <TouchableOpacity onPress={goBack} style={styles.backButton}>
           <Ionicons name="chevron-back" size={24} color={COLORS.SECONDARY[900]} />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Reminders</Text>
+        <Text style={styles.headerTitle}>Notifications</Text>
         <View style={styles.backButton} />
       </View>
 
@@ -335,6 +386,52 @@ export default function NotificationSettingsScreen() {
               </Animated.View>
             </View>
 
+            {/* Smart Reminders */}
+            <View style={styles.card}>
+              <Text style={styles.timePickerTitle}>Smart Reminders</Text>
+              <Text style={styles.cardSubtitle}>
+                Reminders follow your weekly plan, so rest days stay quiet
+              </Text>
+              <View style={styles.categoryRow}>
+                <View style={[styles.categoryIcon, { backgroundColor: COLORS.PRIMARY[500] + '15' }]}>
+                  <Ionicons name="analytics" size={18} color={adaptiveTiming ? COLORS.PRIMARY[500] : COLORS.SECONDARY[300]} />
+                </View>
+                <View style={styles.toggleText}>
+                  <Text style={styles.categoryLabel}>Learn My Training Time</Text>
+                  <Text style={styles.categoryDescription}>
+                    {learnedTime
+                      ? `You usually train around ${formatTime(learnedTime.time)} · reminded an hour before`
+                      : 'Uses your reminder time until you have logged a few workouts'}
+                  </Text>
+                </View>
+                <Switch
+                  value={adaptiveTiming}
+                  onValueChange={setAdaptiveTiming}
+                  trackColor={{ false: COLORS.NEUTRAL[200], true: COLORS.PRIMARY[400] }}
+                  thumbColor={COLORS.NEUTRAL.WHITE}
+                  ios_backgroundColor={COLORS.NEUTRAL[200]}
+                />
+              </View>
+              <View style={[styles.categoryRow, styles.categoryRowDivider]}>
+                <View style={[styles.categoryIcon, { backgroundColor: COLORS.WARNING[500] + '15' }]}>
+                  <Ionicons name="flame" size={18} color={streakNudges ? COLORS.WARNING[500] : COLORS.SECONDARY[300]} />
+                </View>
+                <View style={styles.toggleText}>
+                  <Text style={styles.categoryLabel}>Streak Nudges</Text>
+                  <Text style={styles.categoryDescription}>
+                    An evening nudge when a planned workout is still waiting
+                  </Text>
+                </View>
+                <Switch
+                  value={streakNudges}
+                  onValueChange={setStreakNudges}
+                  trackColor={{ false: COLORS.NEUTRAL[200], true: COLORS.PRIMARY[400] }}
+                  thumbColor={COLORS.NEUTRAL.WHITE}
+                  ios_backgroundColor={COLORS.NEUTRAL[200]}
+                />
+              </View>
+            </View>
+
             {/* Preview Card */}
             <View style={styles.previewCard}>
               <View style={styles.previewHeader}>
@@ -357,6 +454,107 @@ export default function NotificationSettingsScreen() {
           </>
         )}
 
+        {/* Categories */}
+        <View style={styles.card}>
+          <Text style={styles.timePickerTitle}>Categories</Text>
+          <Text style={styles.cardSubtitle}>
+            Muted categories still appear in your notification center, without alerts or sounds
+          </Text>
+          {(Object.keys(NOTIFICATION_CATEGORIES) as NotificationCategory[]).map((category, index) => {
+            const meta = NOTIFICATION_CATEGORIES[category];
+            const isOn = !preferences.mutedCategories.includes(category);
+            return (
+              <View key={category} style={[styles.categoryRow, index > 0 && styles.categoryRowDivider]}>
+                <View style={[styles.categoryIcon, { backgroundColor: meta.color + '15' }]}>
+                  <Ionicons name={meta.icon} size={18} color={isOn ? meta.color : COLORS.SECONDARY[300]} />
+                </View>
+                <View style={styles.toggleText}>
+                  <Text style={styles.categoryLabel}>{meta.label}</Text>
+                  <Text style={styles.categoryDescription}>{isOn ? meta.description : 'Muted'}</Text>
+                </View>
+                <Switch
+                  value={isOn}
+                  onValueChange={(value) => toggleCategory(category, value)}
+                  trackColor={{ false: COLORS.NEUTRAL[200], true: COLORS.PRIMARY[400] }}
+                  thumbColor={COLORS.NEUTRAL.WHITE}
+                  ios_backgroundColor={COLORS.NEUTRAL[200]}
+                />
+              </View>
+            );
+          })}
+        </View>
+
+        {/* Quiet Hours */}
+        <View style={styles.card}>
+          <View style={styles.toggleRow}>
+            <View style={styles.toggleLeft}>
+              <View style={[styles.iconBadge, { backgroundColor: preferences.quietHours.enabled ? '#F3E8FF' : COLORS.NEUTRAL[100] }]}>
+                <Ionicons
+                  name="moon"
+                  size={22}
+                  color={preferences.quietHours.enabled ? '#8B5CF6' : COLORS.SECONDARY[400]}
+                />
+              </View>
+              <View style={styles.toggleText}>
+                <Text style={styles.toggleTitle}>Quiet Hours</Text>
+                <Text style={styles.toggleStatus}>
+                  {preferences.quietHours.enabled
+                    ? `${formatTime(preferences.quietHours.start)} – ${formatTime(preferences.quietHours.end)}`
+                    : 'Off'}
+                </Text>
+              </View>
+            </View>
+            <Switch
+              value={preferences.quietHours.enabled}
+              onValueChange={(enabled) => updateQuietHours({ enabled })}
+              trackColor={{ false: COLORS.NEUTRAL[200], true: COLORS.PRIMARY[400] }}
+              thumbColor={COLORS.NEUTRAL.WHITE}
+              ios_backgroundColor={COLORS.NEUTRAL[200]}
+              style={styles.switch}
+            />
+          </View>
+
+          {preferences.quietHours.enabled && (
+            <>
+              <Text style={styles.quietLabel}>From</Text>
+              <View style={styles.quietChips}>
+                {QUIET_HOURS_START_OPTIONS.map((option) => {
+                  const isSelected = preferences.quietHours.start === option.value;
+                  return (
+                    <TouchableOpacity
+                      key={option.value}
+                      onPress={() => updateQuietHours({ start: option.value })}
+                      style={[styles.quietChip, isSelected && styles.quietChipSelected]}
+                      activeOpacity={0.7}
+                    >
+                      <Text style={[styles.timeChipText, isSelected && styles.timeChipTextSelected]}>{option.label}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              <Text style={styles.quietLabel}>Until</Text>
+              <View style={styles.quietChips}>
+                {QUIET_HOURS_END_OPTIONS.map((option) => {
+                  const isSelected = preferences.quietHours.end === option.value;
+                  return (
+                    <TouchableOpacity
+                      key={option.value}
+                      onPress={() => updateQuietHours({ end: option.value })}
+                      style={[styles.quietChip, isSelected && styles.quietChipSelected]}
+                      activeOpacity={0.7}
+                    >
+                      <Text style={[styles.timeChipText, isSelected && styles.timeChipTextSelected]}>{option.label}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              <Text style={styles.cardSubtitle}>
+                Notifications arriving in this window are delivered silently. Your active workout still comes through.
+              </Text>
+            </>
+          )}
+        </View>
+
         {/* Save Button */}
         <TouchableOpacity
           onPress={saveSettings}
@@ -557,6 +755,65 @@ const styles = StyleSheet.create({
     transform: [{ scaleX: 1.1 }, { scaleY: 1.1 }],
   },
 
+  cardSubtitle: {
+    fontSize: 12,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 4,
+    lineHeight: 17,
+  },
+  categoryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  categoryRowDivider: {
+    borderTopWidth: 1,
+    borderTopColor: COLORS.NEUTRAL[100],
+  },
+  categoryIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  categoryLabel: {
+    fontSize: 15,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  categoryDescription: {
+    fontSize: 12,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 2,
+  },
+  quietLabel: {
+    fontSize: 13,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[700],
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  quietChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  quietChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 9,
+    borderRadius: 12,
+    backgroundColor: COLORS.NEUTRAL[50],
+    borderWidth: 1.5,
+    borderColor: COLORS.NEUTRAL[200],
+  },
+  quietChipSelected: {
+    backgroundColor: COLORS.PRIMARY[500],
+    borderColor: COLORS.PRIMARY[500],
+  },
+
   // Redesigned Time Picker
   timePickerHeader: {
     flexDirection: 'row',
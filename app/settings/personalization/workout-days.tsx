@@ -58,6 +58,8 @@ export default function WorkoutDaysSettingsScreen() {
    * Reads the user's saved notification settings from AsyncStorage
    */
   const rescheduleWorkoutReminders = async (newDays: string[]) => {
+    if (!user) return;
+
     try {
       // Read saved notification settings from AsyncStorage
       let settings: NotificationSettings = {
@@ -83,14 +85,9 @@ export default function WorkoutDaysSettingsScreen() {
         return;
       }
 
-      // Convert day IDs to proper day names (capitalize first letter)
-      const dayNames = newDays.map((day: string) =>
-        day.charAt(0).toUpperCase() + day.slice(1)
-      );
-
-      console.log('[WORKOUT_DAYS] Re-scheduling reminders for days:', dayNames);
+      console.log('[WORKOUT_DAYS] Re-scheduling reminders for days:', newDays);
 
-      await workoutNotificationScheduler.scheduleWorkoutReminders(dayNames, settings);
+      await workoutNotificationScheduler.scheduleSmartReminders(user.id, newDays, settings);
 
       console.log('[WORKOUT_DAYS] Reminders re-scheduled successfully');
     } catch (error) {
@@ -0,0 +1,668 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  TextInput,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { useSmartBack } from '../../hooks/useSmartBack';
+import { useAuth } from '../../contexts/AuthContext';
+import { useAlert } from '../../contexts/AlertContext';
+import { authService, LoginHistoryEntry } from '../../services/microservices/authService';
+import { LOGIN_HISTORY_PAGE_SIZE, TWO_FACTOR_LOGIN_ENABLED, getDeviceIcon } from '../../constants/security';
+import { formatTimeAgo } from '../../utils/dateUtils';
+import { TwoFactorSetupModal } from '../../components/security/TwoFactorSetupModal';
+import { BackupCodesList } from '../../components/security/BackupCodesList';
+import { COLORS, FONTS } from '../../constants/colors';
+
+export default function SecuritySettingsScreen() {
+  const { goBack } = useSmartBack();
+  const { user, logout } = useAuth();
+  const alert = useAlert();
+
+  const [twoFactorEnabled, setTwoFactorEnabled] = useState<boolean | null>(null);
+  const [showSetupModal, setShowSetupModal] = useState(false);
+  const [newBackupCodes, setNewBackupCodes] = useState<string[] | null>(null);
+  const [isGeneratingCodes, setIsGeneratingCodes] = useState(false);
+  const [isDisabling, setIsDisabling] = useState(false);
+  const [showDisableForm, setShowDisableForm] = useState(false);
+  const [password, setPassword] = useState('');
+
+  const [history, setHistory] = useState<LoginHistoryEntry[]>([]);
+  const [historyTotal, setHistoryTotal] = useState(0);
+  const [historyPage, setHistoryPage] = useState(1);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const [isRevoking, setIsRevoking] = useState(false);
+
+  const loadTwoFactorSettings = useCallback(async () => {
+    try {
+      const settings = await authService.getTwoFactorSettings();
+      setTwoFactorEnabled(settings.enabled);
+    } catch (error) {
+      console.error('❌ [SECURITY] Failed to load 2FA settings:', error);
+      setTwoFactorEnabled(false);
+    }
+  }, []);
+
+  const loadHistory = useCallback(async (page: number) => {
+    try {
+      const result = await authService.getLoginHistory(page, LOGIN_HISTORY_PAGE_SIZE);
+      setHistory((prev) => (page === 1 ? result.history : [...prev, ...result.history]));
+      setHistoryTotal(result.total);
+      setHistoryPage(page);
+    } catch (error) {
+      console.error('❌ [SECURITY] Failed to load login history:', error);
+      if (page > 1) alert.error('Error', 'Could not load more sign-ins');
+    }
+  }, []);
+
+  useEffect(() => {
+    Promise.all([loadTwoFactorSettings(), loadHistory(1)]).finally(() => setIsLoadingHistory(false));
+  }, []);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await Promise.all([loadTwoFactorSettings(), loadHistory(1)]);
+    setIsRefreshing(false);
+  };
+
+  const handleLoadMore = async () => {
+    setIsLoadingMore(true);
+    await loadHistory(historyPage + 1);
+    setIsLoadingMore(false);
+  };
+
+  const handleTwoFactorEnabled = () => {
+    setTwoFactorEnabled(true);
+    setNewBackupCodes(null);
+  };
+
+  const handleGenerateCodes = () => {
+    alert.confirm(
+      'New Backup Codes',
+      'Your current backup codes will stop working. Generate a new set?',
+      async () => {
+        setIsGeneratingCodes(true);
+        try {
+          const result = await authService.generateNewBackupCodes();
+          setNewBackupCodes(result.backupCodes);
+        } catch (error) {
+          console.error('❌ [SECURITY] Failed to generate backup codes:', error);
+          alert.error('Error', (error as Error).message || 'Could not generate backup codes');
+        } finally {
+          setIsGeneratingCodes(false);
+        }
+      },
+      undefined,
+      'Generate',
+      'Cancel'
+    );
+  };
+
+  const handleDisable = async () => {
+    if (!password) return;
+
+    setIsDisabling(true);
+    try {
+      await authService.disableTwoFactor(password);
+      console.log('🔓 [SECURITY] Two-factor authentication disabled');
+      setTwoFactorEnabled(false);
+      setShowDisableForm(false);
+      setNewBackupCodes(null);
+      setPassword('');
+      alert.success('Two-Factor Off', 'Your account now signs in with just your password.');
+    } catch (error) {
+      console.error('❌ [SECURITY] Failed to disable 2FA:', error);
+      alert.error('Error', (error as Error).message || 'Incorrect password');
+    } finally {
+      setIsDisabling(false);
+    }
+  };
+
+  const handleSignOutEverywhere = () => {
+    alert.confirm(
+      'Sign Out Everywhere',
+      'This signs you out on every device, including this one. You will need to sign in again.',
+      async () => {
+        setIsRevoking(true);
+        try {
+          await authService.revokeAllSessions();
+          await logout();
+          router.replace('/(auth)/splash');
+        } catch (error) {
+          console.error('❌ [SECURITY] Failed to revoke sessions:', error);
+          alert.error('Error', (error as Error).message || 'Could not sign out other devices');
+          setIsRevoking(false);
+        }
+      },
+      undefined,
+      'Sign Out',
+      'Cancel'
+    );
+  };
+
+  const renderTwoFactorCard = () => {
+    if (twoFactorEnabled === null) {
+      return (
+        <View style={[styles.card, styles.centered]}>
+          <ActivityIndicator color={COLORS.PRIMARY[500]} />
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.card}>
+        <View style={styles.statusRow}>
+          <View style={[styles.iconContainer, twoFactorEnabled && styles.iconContainerActive]}>
+            <Ionicons
+              name={twoFactorEnabled ? 'shield-checkmark' : 'shield-outline'}
+              size={20}
+              color={twoFactorEnabled ? COLORS.SUCCESS[600] : COLORS.SECONDARY[500]}
+            />
+          </View>
+          <View style={styles.cardContent}>
+            <Text style={styles.cardTitle}>Authenticator App</Text>
+            <Text style={styles.cardDescription}>
+              {twoFactorEnabled
+                ? 'On — a code from your app is needed at sign-in'
+                : TWO_FACTOR_LOGIN_ENABLED
+                  ? 'Off — add a code from your phone to every sign-in'
+                  : "Off — setup isn't available in the app yet"}
+            </Text>
+          </View>
+          <View style={[styles.statusBadge, twoFactorEnabled ? styles.statusBadgeOn : styles.statusBadgeOff]}>
+            <Text style={[styles.statusBadgeText, twoFactorEnabled ? styles.statusTextOn : styles.statusTextOff]}>
+              {twoFactorEnabled ? 'ON' : 'OFF'}
+            </Text>
+          </View>
+        </View>
+
+        {!twoFactorEnabled && TWO_FACTOR_LOGIN_ENABLED && (
+          <TouchableOpacity style={[styles.primaryButton, styles.cardButton]} onPress={() => setShowSetupModal(true)} activeOpacity={0.7}>
+            <Ionicons name="lock-closed-outline" size={18} color="white" />
+            <Text style={styles.primaryButtonText}>Set Up Two-Factor</Text>
+          </TouchableOpacity>
+        )}
+
+        {twoFactorEnabled && newBackupCodes && (
+          <View style={styles.cardSection}>
+            <BackupCodesList codes={newBackupCodes} />
+            <TouchableOpacity style={styles.textButton} onPress={() => setNewBackupCodes(null)}>
+              <Text style={styles.textButtonText}>Done</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {twoFactorEnabled && !newBackupCodes && !showDisableForm && (
+          <View style={styles.buttonRow}>
+            <TouchableOpacity
+              style={[styles.secondaryButton, styles.rowButton, isGeneratingCodes && styles.buttonDisabled]}
+              onPress={handleGenerateCodes}
+              disabled={isGeneratingCodes}
+              activeOpacity={0.7}
+            >
+              {isGeneratingCodes ? (
+                <ActivityIndicator size="small" color={COLORS.PRIMARY[600]} />
+              ) : (
+                <>
+                  <Ionicons name="key-outline" size={18} color={COLORS.PRIMARY[600]} />
+                  <Text style={styles.secondaryButtonText}>Backup Codes</Text>
+                </>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.dangerOutlineButton, styles.rowButton]}
+              onPress={() => setShowDisableForm(true)}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.dangerOutlineButtonText}>Turn Off</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {twoFactorEnabled && showDisableForm && (
+          <View style={styles.cardSection}>
+            <Text style={styles.label}>Confirm with your password</Text>
+            <TextInput
+              style={styles.input}
+              value={password}
+              onChangeText={setPassword}
+              placeholder="Password"
+              placeholderTextColor={COLORS.SECONDARY[400]}
+              secureTextEntry
+              autoFocus
+            />
+            <View style={styles.buttonRow}>
+              <TouchableOpacity
+                style={[styles.secondaryButton, styles.rowButton]}
+                onPress={() => {
+                  setShowDisableForm(false);
+                  setPassword('');
+                }}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.secondaryButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.dangerButton, styles.rowButton, (!password || isDisabling) && styles.buttonDisabled]}
+                onPress={handleDisable}
+                disabled={!password || isDisabling}
+                activeOpacity={0.7}
+              >
+                {isDisabling ? (
+                  <ActivityIndicator size="small" color="white" />
+                ) : (
+                  <Text style={styles.primaryButtonText}>Turn Off 2FA</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderHistory = () => {
+    if (isLoadingHistory) {
+      return (
+        <View style={[styles.listCard, styles.centered]}>
+          <ActivityIndicator color={COLORS.PRIMARY[500]} />
+        </View>
+      );
+    }
+
+    if (history.length === 0) {
+      return (
+        <View style={[styles.listCard, styles.centered]}>
+          <Text style={styles.emptyText}>No sign-ins recorded yet</Text>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.listCard}>
+        {history.map((entry, index) => (
+          <View key={entry.id} style={[styles.historyRow, index > 0 && styles.listRowBorder]}>
+            <View style={[styles.deviceIcon, !entry.success && styles.deviceIconFailed]}>
+              <Ionicons
+                name={getDeviceIcon(entry.deviceInfo)}
+                size={18}
+                color={entry.success ? COLORS.SECONDARY[600] : COLORS.ERROR[500]}
+              />
+            </View>
+            <View style={styles.cardContent}>
+              <Text style={styles.cardTitle} numberOfLines={1}>{entry.deviceInfo || 'Unknown device'}</Text>
+              <Text style={styles.cardDescription} numberOfLines={1}>
+                {[entry.location, entry.ipAddress].filter(Boolean).join(' · ') || 'Unknown location'}
+              </Text>
+            </View>
+            <View style={styles.historyMeta}>
+              <Text style={styles.historyTime}>{formatTimeAgo(entry.timestamp)}</Text>
+              {!entry.success && <Text style={styles.failedText}>Failed</Text>}
+            </View>
+          </View>
+        ))}
+
+        {history.length < historyTotal && (
+          <TouchableOpacity
+            style={[styles.loadMoreButton, styles.listRowBorder]}
+            onPress={handleLoadMore}
+            disabled={isLoadingMore}
+          >
+            {isLoadingMore ? (
+              <ActivityIndicator size="small" color={COLORS.PRIMARY[500]} />
+            ) : (
+              <Text style={styles.textButtonText}>Show More ({historyTotal - history.length})</Text>
+            )}
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={goBack} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Security</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        showsVerticalScrollIndicator={false}
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />}
+      >
+        {/* Two-Factor */}
+        <Text style={styles.sectionTitle}>Two-Factor Authentication</Text>
+        <Text style={styles.sectionDescription}>
+          Protect your account with a second step at sign-in, even if someone learns your password.
+        </Text>
+        {renderTwoFactorCard()}
+
+        {/* Login History */}
+        <Text style={[styles.sectionTitle, styles.sectionSpacing]}>Recent Sign-ins</Text>
+        <Text style={styles.sectionDescription}>
+          Don&apos;t recognise a device or place? Sign out everywhere and change your password.
+        </Text>
+        {renderHistory()}
+
+        {/* Sessions */}
+        <TouchableOpacity
+          style={[styles.dangerButton, isRevoking && styles.buttonDisabled]}
+          onPress={handleSignOutEverywhere}
+          disabled={isRevoking}
+          activeOpacity={0.7}
+        >
+          {isRevoking ? (
+            <ActivityIndicator size="small" color="white" />
+          ) : (
+            <>
+              <Ionicons name="log-out-outline" size={18} color="white" />
+              <Text style={styles.primaryButtonText}>Sign Out Everywhere</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+
+      <TwoFactorSetupModal
+        visible={showSetupModal}
+        accountName={user?.email || ''}
+        onClose={() => setShowSetupModal(false)}
+        onEnabled={handleTwoFactorEnabled}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    backgroundColor: 'white',
+    paddingHorizontal: 24,
+    paddingTop: 16,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontFamily: FONTS.BOLD,
+    color: '#111827',
+    flex: 1,
+  },
+  headerSpacer: {
+    width: 36,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingTop: 16,
+    paddingBottom: 32,
+    paddingHorizontal: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontFamily: FONTS.BOLD,
+    color: '#111827',
+    marginBottom: 8,
+  },
+  sectionSpacing: {
+    marginTop: 32,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[600],
+    marginBottom: 16,
+    lineHeight: 20,
+  },
+  label: {
+    fontSize: 12,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[500],
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 8,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  centered: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 24,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  iconContainer: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  iconContainerActive: {
+    backgroundColor: COLORS.SUCCESS[50],
+  },
+  cardContent: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 14,
+    fontFamily: FONTS.SEMIBOLD,
+    color: '#111827',
+  },
+  cardDescription: {
+    fontSize: 12,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 2,
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 10,
+    marginLeft: 8,
+  },
+  statusBadgeOn: {
+    backgroundColor: COLORS.SUCCESS[100],
+  },
+  statusBadgeOff: {
+    backgroundColor: '#F3F4F6',
+  },
+  statusBadgeText: {
+    fontSize: 11,
+    fontFamily: FONTS.BOLD,
+    letterSpacing: 0.5,
+  },
+  statusTextOn: {
+    color: COLORS.SUCCESS[700],
+  },
+  statusTextOff: {
+    color: COLORS.SECONDARY[500],
+  },
+  cardSection: {
+    marginTop: 16,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  cardButton: {
+    marginTop: 16,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: COLORS.SECONDARY[200],
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    fontFamily: FONTS.REGULAR,
+    color: '#111827',
+    marginBottom: 12,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  rowButton: {
+    flex: 1,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: COLORS.PRIMARY[500],
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 15,
+    fontFamily: FONTS.SEMIBOLD,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: COLORS.PRIMARY[300],
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  secondaryButtonText: {
+    color: COLORS.PRIMARY[600],
+    fontSize: 15,
+    fontFamily: FONTS.SEMIBOLD,
+  },
+  dangerButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: COLORS.ERROR[500],
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  dangerOutlineButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: COLORS.ERROR[300],
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  dangerOutlineButtonText: {
+    color: COLORS.ERROR[600],
+    fontSize: 15,
+    fontFamily: FONTS.SEMIBOLD,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  textButton: {
+    alignItems: 'center',
+    paddingTop: 12,
+  },
+  textButtonText: {
+    fontSize: 14,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.PRIMARY[600],
+  },
+  listCard: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  listRowBorder: {
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  historyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    gap: 12,
+  },
+  deviceIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  deviceIconFailed: {
+    backgroundColor: COLORS.ERROR[50],
+  },
+  historyMeta: {
+    alignItems: 'flex-end',
+  },
+  historyTime: {
+    fontSize: 12,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.SECONDARY[500],
+  },
+  failedText: {
+    fontSize: 11,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.ERROR[600],
+    marginTop: 2,
+  },
+  loadMoreButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+  },
+  emptyText: {
+    fontSize: 14,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+  },
+});
@@ -0,0 +1,571 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Switch,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useSmartBack } from '../../hooks/useSmartBack';
+import { LinearGradient } from 'expo-linear-gradient';
+
+import { useAuth } from '../../contexts/AuthContext';
+import { useAlert } from '../../contexts/AlertContext';
+import {
+  audioCueService,
+  AudioCue,
+  AudioCuePack,
+  AudioCueSettings,
+  AUDIO_CUES,
+  AUDIO_CUE_PACKS,
+  DEFAULT_AUDIO_CUE_SETTINGS,
+} from '../../services/audioCueService';
+import { voiceCoachService, VoiceCoachMode, VOICE_COACH_MODES, DEFAULT_VOICE_COACH_MODE } from '../../services/voiceCoachService';
+import { COLORS, FONTS } from '../../constants/colors';
+
+const VOLUME_STEP = 0.1;
+
+export default function WorkoutSoundsSettingsScreen() {
+  const { goBack } = useSmartBack();
+  const { user } = useAuth();
+  const alert = useAlert();
+  const [isLoading, setIsLoading] = useState(false);
+  const [settings, setSettings] = useState<AudioCueSettings>(DEFAULT_AUDIO_CUE_SETTINGS);
+  const [voiceMode, setVoiceMode] = useState<VoiceCoachMode>(DEFAULT_VOICE_COACH_MODE);
+
+  useEffect(() => {
+    if (!user) return;
+    audioCueService.getSettings(user.id).then(setSettings);
+    voiceCoachService.getMode(user.id).then(setVoiceMode);
+  }, [user?.id]);
+
+  const updateSettings = (changes: Partial<AudioCueSettings>) => {
+    setSettings((prev) => ({ ...prev, ...changes }));
+  };
+
+  const toggleCue = (cue: AudioCue, value: boolean) => {
+    setSettings((prev) => ({ ...prev, enabledCues: { ...prev.enabledCues, [cue]: value } }));
+  };
+
+  const changeVolume = (delta: number) => {
+    const volume = Math.round(Math.min(1, Math.max(0, settings.volume + delta)) * 10) / 10;
+    updateSettings({ volume });
+  };
+
+  const saveSettings = async () => {
+    if (!user) return;
+
+    setIsLoading(true);
+    try {
+      await Promise.all([
+        audioCueService.saveSettings(user.id, settings),
+        voiceCoachService.saveMode(user.id, voiceMode),
+      ]);
+      alert.success('Saved', 'Your workout sound settings have been updated.');
+    } catch (error) {
+      console.error('Error saving workout sound settings:', error);
+      alert.error('Error', 'Failed to save settings. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={goBack} style={styles.backButton}>
+          <Ionicons name="chevron-back" size={24} color={COLORS.SECONDARY[900]} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Workout Sounds</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Hero Section */}
+        <LinearGradient
+          colors={[COLORS.PRIMARY[500], COLORS.PRIMARY[600]]}
+          start={{ x: 0, y: 0 }}
+          end={{ x: 1, y: 1 }}
+          style={styles.heroSection}
+        >
+          <View style={styles.heroIconOuter}>
+            <View style={styles.heroIconInner}>
+              <Ionicons name="volume-high" size={32} color={COLORS.PRIMARY[500]} />
+            </View>
+          </View>
+          <Text style={styles.heroTitle}>Train Without Looking</Text>
+          <Text style={styles.heroSubtitle}>
+            Sound cues tell you when to work, rest and move on — your music keeps playing
+          </Text>
+        </LinearGradient>
+
+        {/* Main Toggle Card */}
+        <View style={styles.card}>
+          <View style={styles.toggleRow}>
+            <View style={styles.toggleLeft}>
+              <View style={[styles.iconBadge, { backgroundColor: settings.enabled ? COLORS.PRIMARY[100] : COLORS.NEUTRAL[100] }]}>
+                <Ionicons
+                  name={settings.enabled ? 'volume-high' : 'volume-mute'}
+                  size={22}
+                  color={settings.enabled ? COLORS.PRIMARY[500] : COLORS.SECONDARY[400]}
+                />
+              </View>
+              <View style={styles.toggleText}>
+                <Text style={styles.toggleTitle}>Timer Sounds</Text>
+                <Text style={[styles.toggleStatus, settings.enabled && styles.toggleStatusActive]}>
+                  {settings.enabled ? 'On' : 'Muted'}
+                </Text>
+              </View>
+            </View>
+            <Switch
+              value={settings.enabled}
+              onValueChange={(value) => updateSettings({ enabled: value })}
+              trackColor={{ false: COLORS.NEUTRAL[200], true: COLORS.PRIMARY[400] }}
+              thumbColor={COLORS.NEUTRAL.WHITE}
+              ios_backgroundColor={COLORS.NEUTRAL[200]}
+              style={styles.switch}
+            />
+          </View>
+        </View>
+
+        {/* Voice Coach */}
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardHeaderTitle}>Voice Coach</Text>
+            {voiceMode !== 'off' && (
+              <TouchableOpacity
+                onPress={() => voiceCoachService.preview(voiceMode)}
+                style={styles.previewButton}
+                activeOpacity={0.7}
+              >
+                <Ionicons name="play" size={14} color={COLORS.PRIMARY[600]} />
+              </TouchableOpacity>
+            )}
+          </View>
+          {VOICE_COACH_MODES.map(({ mode, label, description }) => {
+            const isSelected = voiceMode === mode;
+            return (
+              <TouchableOpacity
+                key={mode}
+                onPress={() => setVoiceMode(mode)}
+                activeOpacity={0.7}
+                style={[styles.packOption, isSelected && styles.packOptionSelected]}
+              >
+                <View style={styles.packText}>
+                  <Text style={[styles.packLabel, isSelected && styles.packLabelSelected]}>{label}</Text>
+                  <Text style={styles.packDescription}>{description}</Text>
+                </View>
+                <Ionicons
+                  name={isSelected ? 'radio-button-on' : 'radio-button-off'}
+                  size={22}
+                  color={isSelected ? COLORS.PRIMARY[500] : COLORS.SECONDARY[300]}
+                />
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {settings.enabled && (
+          <>
+            {/* Volume */}
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Volume</Text>
+              <View style={styles.volumeRow}>
+                <TouchableOpacity
+                  onPress={() => changeVolume(-VOLUME_STEP)}
+                  disabled={settings.volume <= 0}
+                  style={styles.volumeButton}
+                  activeOpacity={0.7}
+                >
+                  <Ionicons name="remove" size={20} color={COLORS.SECONDARY[700]} />
+                </TouchableOpacity>
+                <View style={styles.volumeTrack}>
+                  <View style={[styles.volumeFill, { width: `${Math.round(settings.volume * 100)}%` }]} />
+                </View>
+                <TouchableOpacity
+                  onPress={() => changeVolume(VOLUME_STEP)}
+                  disabled={settings.volume >= 1}
+                  style={styles.volumeButton}
+                  activeOpacity={0.7}
+                >
+                  <Ionicons name="add" size={20} color={COLORS.SECONDARY[700]} />
+                </TouchableOpacity>
+                <Text style={styles.volumeValue}>{Math.round(settings.volume * 100)}%</Text>
+              </View>
+            </View>
+
+            {/* Sound Pack */}
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Sound Pack</Text>
+              {(Object.keys(AUDIO_CUE_PACKS) as AudioCuePack[]).map((pack) => {
+                const isSelected = settings.pack === pack;
+                return (
+                  <TouchableOpacity
+                    key={pack}
+                    onPress={() => updateSettings({ pack })}
+                    activeOpacity={0.7}
+                    style={[styles.packOption, isSelected && styles.packOptionSelected]}
+                  >
+                    <View style={styles.packText}>
+                      <Text style={[styles.packLabel, isSelected && styles.packLabelSelected]}>
+                        {AUDIO_CUE_PACKS[pack].label}
+                      </Text>
+                      <Text style={styles.packDescription}>{AUDIO_CUE_PACKS[pack].description}</Text>
+                    </View>
+                    <Ionicons
+                      name={isSelected ? 'radio-button-on' : 'radio-button-off'}
+                      size={22}
+                      color={isSelected ? COLORS.PRIMARY[500] : COLORS.SECONDARY[300]}
+                    />
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            {/* Silent Mode */}
+            <View style={styles.card}>
+              <View style={styles.toggleRow}>
+                <View style={styles.toggleText}>
+                  <Text style={styles.toggleTitle}>Respect Silent Mode</Text>
+                  <Text style={styles.cueDescription}>
+                    Turn off to hear cues through headphones while your phone is on silent (iOS)
+                  </Text>
+                </View>
+                <Switch
+                  value={settings.respectSilentMode}
+                  onValueChange={(value) => updateSettings({ respectSilentMode: value })}
+                  trackColor={{ false: COLORS.NEUTRAL[200], true: COLORS.PRIMARY[400] }}
+                  thumbColor={COLORS.NEUTRAL.WHITE}
+                  ios_backgroundColor={COLORS.NEUTRAL[200]}
+                />
+              </View>
+            </View>
+
+            {/* Individual Cues */}
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Cues</Text>
+              {AUDIO_CUES.map(({ cue, label, description }, index) => (
+                <View
+                  key={cue}
+                  style={[styles.cueRow, index < AUDIO_CUES.length - 1 && styles.cueRowBorder]}
+                >
+                  <TouchableOpacity
+                    onPress={() => audioCueService.preview(cue, settings)}
+                    style={styles.previewButton}
+                    activeOpacity={0.7}
+                  >
+                    <Ionicons name="play" size={14} color={COLORS.PRIMARY[600]} />
+                  </TouchableOpacity>
+                  <View style={styles.toggleText}>
+                    <Text style={styles.cueLabel}>{label}</Text>
+                    <Text style={styles.cueDescription}>{description}</Text>
+                  </View>
+                  <Switch
+                    value={settings.enabledCues[cue]}
+                    onValueChange={(value) => toggleCue(cue, value)}
+                    trackColor={{ false: COLORS.NEUTRAL[200], true: COLORS.PRIMARY[400] }}
+                    thumbColor={COLORS.NEUTRAL.WHITE}
+                    ios_backgroundColor={COLORS.NEUTRAL[200]}
+                  />
+                </View>
+              ))}
+            </View>
+          </>
+        )}
+
+        {/* Save Button */}
+        <TouchableOpacity
+          onPress={saveSettings}
+          disabled={isLoading}
+          activeOpacity={0.9}
+          style={styles.saveButtonContainer}
+        >
+          <LinearGradient
+            colors={isLoading ? [COLORS.NEUTRAL[300], COLORS.NEUTRAL[400]] : [COLORS.PRIMARY[500], COLORS.PRIMARY[600]]}
+            start={{ x: 0, y: 0 }}
+            end={{ x: 1, y: 0 }}
+            style={styles.saveButton}
+          >
+            {isLoading ? (
+              <Text style={styles.saveButtonText}>Saving...</Text>
+            ) : (
+              <>
+                <Ionicons name="checkmark-circle" size={20} color={COLORS.NEUTRAL.WHITE} />
+                <Text style={styles.saveButtonText}>Save Settings</Text>
+              </>
+            )}
+          </LinearGradient>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.NEUTRAL[100],
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 12,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: 40,
+  },
+  heroSection: {
+    marginHorizontal: 16,
+    marginTop: 16,
+    borderRadius: 24,
+    paddingVertical: 32,
+    paddingHorizontal: 24,
+    alignItems: 'center',
+  },
+  heroIconOuter: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    backgroundColor: 'rgba(255,255,255,0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  heroIconInner: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  heroTitle: {
+    fontSize: 22,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.NEUTRAL.WHITE,
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  heroSubtitle: {
+    fontSize: 14,
+    fontFamily: FONTS.REGULAR,
+    color: 'rgba(255,255,255,0.85)',
+    textAlign: 'center',
+    lineHeight: 20,
+    maxWidth: 280,
+  },
+  card: {
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    marginHorizontal: 16,
+    marginTop: 16,
+    borderRadius: 20,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.04,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+    marginBottom: 14,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 14,
+  },
+  cardHeaderTitle: {
+    fontSize: 16,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  toggleLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  iconBadge: {
+    width: 44,
+    height: 44,
+    borderRadius: 14,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 14,
+  },
+  toggleText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  toggleTitle: {
+    fontSize: 16,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  toggleStatus: {
+    fontSize: 13,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.SECONDARY[400],
+    marginTop: 2,
+  },
+  toggleStatusActive: {
+    color: COLORS.PRIMARY[500],
+  },
+  switch: {
+    transform: [{ scaleX: 1.1 }, { scaleY: 1.1 }],
+  },
+
+  // Volume
+  volumeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  volumeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 12,
+    backgroundColor: COLORS.NEUTRAL[50],
+    borderWidth: 1,
+    borderColor: COLORS.NEUTRAL[200],
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  volumeTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: COLORS.NEUTRAL[100],
+    overflow: 'hidden',
+  },
+  volumeFill: {
+    height: '100%',
+    borderRadius: 4,
+    backgroundColor: COLORS.PRIMARY[500],
+  },
+  volumeValue: {
+    width: 44,
+    textAlign: 'right',
+    fontSize: 14,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[700],
+  },
+
+  // Sound Pack
+  packOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 14,
+    borderRadius: 14,
+    backgroundColor: COLORS.NEUTRAL[50],
+    borderWidth: 1.5,
+    borderColor: 'transparent',
+    marginBottom: 10,
+  },
+  packOptionSelected: {
+    backgroundColor: COLORS.PRIMARY[50],
+    borderColor: COLORS.PRIMARY[400],
+  },
+  packText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  packLabel: {
+    fontSize: 15,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[800],
+  },
+  packLabelSelected: {
+    color: COLORS.PRIMARY[700],
+  },
+  packDescription: {
+    fontSize: 12,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 2,
+  },
+
+  // Cues
+  cueRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  cueRowBorder: {
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.NEUTRAL[100],
+  },
+  previewButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: COLORS.PRIMARY[50],
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  cueLabel: {
+    fontSize: 14,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  cueDescription: {
+    fontSize: 12,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 2,
+  },
+  saveButtonContainer: {
+    marginHorizontal: 16,
+    marginTop: 24,
+  },
+  saveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 16,
+    borderRadius: 16,
+    gap: 8,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+});
@@ -0,0 +1,1052 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  TextInput,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router, useLocalSearchParams, useFocusEffect } from 'expo-router';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+import { SHARED_WORKOUT_TYPES, SHARED_WORKOUT_DIFFICULTIES, SHARED_WORKOUT_VISIBILITY } from '../../constants/sharedWorkouts';
+import { useAuth } from '../../contexts/AuthContext';
+import { useAlert } from '../../contexts/AlertContext';
+import { useSmartBack } from '../../hooks/useSmartBack';
+import { Avatar } from '../../components/ui/Avatar';
+import { WorkoutEvaluationModal } from '../../components/social/WorkoutEvaluationModal';
+import {
+  socialService,
+  SharedWorkout,
+  WorkoutComment,
+  WorkoutEvaluation,
+} from '../../services/microservices/socialService';
+import { TabataWorkoutSession } from '../../services/workoutSessionGenerator';
+import { formatTimeAgo } from '../../utils/dateUtils';
+
+const COMMENTS_PER_PAGE = 20;
+const MAX_COMMENT_LENGTH = 500;
+
+type DetailTab = 'comments' | 'reviews';
+
+type EvaluationSummary = Omit<Awaited<ReturnType<typeof socialService.getWorkoutEvaluations>>, 'evaluations' | 'page' | 'limit'>;
+
+export default function SharedWorkoutDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { user } = useAuth();
+  const alert = useAlert();
+  const { goBack } = useSmartBack();
+
+  const [workout, setWorkout] = useState<SharedWorkout | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState(false);
+  const [activeTab, setActiveTab] = useState<DetailTab>('comments');
+
+  // Comments
+  const [comments, setComments] = useState<WorkoutComment[]>([]);
+  const [commentsTotal, setCommentsTotal] = useState(0);
+  const [commentsPage, setCommentsPage] = useState(1);
+  const [isLoadingMoreComments, setIsLoadingMoreComments] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [replyingTo, setReplyingTo] = useState<WorkoutComment | null>(null);
+  const [isPosting, setIsPosting] = useState(false);
+
+  // Evaluations
+  const [evaluations, setEvaluations] = useState<WorkoutEvaluation[]>([]);
+  const [evaluationSummary, setEvaluationSummary] = useState<EvaluationSummary | null>(null);
+  const [showEvaluationModal, setShowEvaluationModal] = useState(false);
+
+  const loadAll = async () => {
+    if (!id) return;
+    try {
+      const [workoutData, commentData, evaluationData] = await Promise.all([
+        socialService.getSharedWorkout(id),
+        socialService.getWorkoutComments(id, 1, COMMENTS_PER_PAGE),
+        socialService.getWorkoutEvaluations(id),
+      ]);
+
+      setWorkout(workoutData);
+      setComments(commentData.comments || []);
+      setCommentsTotal(commentData.total || 0);
+      setCommentsPage(1);
+
+      const { evaluations: evaluationList, page: _page, limit: _limit, ...summary } = evaluationData;
+      setEvaluations(evaluationList || []);
+      setEvaluationSummary(summary);
+      setError(false);
+    } catch (err) {
+      console.error('[SHARED WORKOUT] Failed to load shared workout:', err);
+      setError(true);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadAll();
+    }, [id])
+  );
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadAll();
+    setRefreshing(false);
+  };
+
+  const handleStart = () => {
+    if (!workout?.template) return;
+
+    // Fresh session identity so tracking and checkpoints don't collide with the author's run
+    const session: TabataWorkoutSession = {
+      ...workout.template,
+      session_id: `shared_${workout.id}_${Date.now()}`,
+      created_at: new Date().toISOString(),
+    };
+
+    router.push({
+      pathname: '/workout/session',
+      params: {
+        sessionData: JSON.stringify(session),
+        type: 'tabata',
+      },
+    });
+  };
+
+  const handleToggleLike = async () => {
+    if (!workout) return;
+    const previous = workout;
+    setWorkout({ ...workout, hasLiked: !workout.hasLiked, likes: Math.max(0, workout.likes + (workout.hasLiked ? -1 : 1)) });
+    try {
+      const response = previous.hasLiked
+        ? await socialService.unlikeWorkout(previous.id)
+        : await socialService.likeWorkout(previous.id);
+      if (typeof response?.likes === 'number') {
+        setWorkout((current) => (current ? { ...current, likes: response.likes } : current));
+      }
+    } catch (err) {
+      console.error('[SHARED WORKOUT] Failed to update like:', err);
+      setWorkout(previous);
+    }
+  };
+
+  const handleLoadMoreComments = async () => {
+    if (!id || isLoadingMoreComments) return;
+    setIsLoadingMoreComments(true);
+    try {
+      const nextPage = commentsPage + 1;
+      const data = await socialService.getWorkoutComments(id, nextPage, COMMENTS_PER_PAGE);
+      setComments((prev) => {
+        const seen = new Set(prev.map((c) => c.id));
+        return [...prev, ...(data.comments || []).filter((c) => !seen.has(c.id))];
+      });
+      setCommentsPage(nextPage);
+      setCommentsTotal(data.total || 0);
+    } catch (err) {
+      console.error('[SHARED WORKOUT] Failed to load more comments:', err);
+    } finally {
+      setIsLoadingMoreComments(false);
+    }
+  };
+
+  const handlePost = async () => {
+    const content = draft.trim();
+    if (!workout || !content || isPosting) return;
+
+    setIsPosting(true);
+    try {
+      if (replyingTo) {
+        const reply = await socialService.replyToComment(replyingTo.id, content);
+        setComments((prev) =>
+          prev.map((c) => (c.id === replyingTo.id ? { ...c, replies: [...(c.replies || []), reply] } : c))
+        );
+      } else {
+        const comment = await socialService.addWorkoutComment(workout.id, content);
+        setComments((prev) => [{ ...comment, replies: comment.replies || [] }, ...prev]);
+        setCommentsTotal((prev) => prev + 1);
+        setWorkout((current) => (current ? { ...current, comments: current.comments + 1 } : current));
+      }
+      setDraft('');
+      setReplyingTo(null);
+    } catch (err) {
+      console.error('[SHARED WORKOUT] Failed to post comment:', err);
+      alert.error('Error', (err as Error).message || 'Failed to post comment');
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const handleMarkHelpful = async (evaluation: WorkoutEvaluation) => {
+    if (evaluation.hasMarkedHelpful) return;
+
+    const update = (changes: Partial<WorkoutEvaluation>) =>
+      setEvaluations((prev) => prev.map((e) => (e.id === evaluation.id ? { ...e, ...changes } : e)));
+
+    update({ hasMarkedHelpful: true, helpful: evaluation.helpful + 1 });
+    try {
+      await socialService.markEvaluationHelpful(evaluation.id);
+    } catch (err) {
+      console.error('[SHARED WORKOUT] Failed to mark evaluation helpful:', err);
+      update({ hasMarkedHelpful: false, helpful: evaluation.helpful });
+    }
+  };
+
+  const handleEvaluationSubmitted = (evaluation: WorkoutEvaluation) => {
+    setEvaluations((prev) => [evaluation, ...prev]);
+    // Averages come from the server, so refresh them rather than recomputing locally
+    if (id) {
+      socialService.getWorkoutEvaluations(id, 1, 1)
+        .then(({ evaluations: _list, page: _page, limit: _limit, ...summary }) => setEvaluationSummary(summary))
+        .catch(() => {});
+    }
+    alert.success('Thanks!', 'Your review has been posted.');
+  };
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <TouchableOpacity onPress={() => goBack()} style={styles.backButton}>
+        <Ionicons name="arrow-back" size={24} color={COLORS.SECONDARY[900]} />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle}>Shared Workout</Text>
+      <View style={styles.backButton} />
+    </View>
+  );
+
+  if (isLoading || !workout) {
+    return (
+      <SafeAreaView style={styles.container} edges={['top']}>
+        {renderHeader()}
+        <View style={styles.loadingContainer}>
+          {isLoading ? (
+            <>
+              <ActivityIndicator size="large" color={COLORS.PRIMARY[600]} />
+              <Text style={styles.loadingText}>Loading workout...</Text>
+            </>
+          ) : (
+            <>
+              <Ionicons name="cloud-offline-outline" size={64} color={COLORS.SECONDARY[300]} />
+              <Text style={styles.loadingText}>{error ? 'Could not load this workout.' : 'Workout not found.'}</Text>
+              <TouchableOpacity style={styles.retryButton} onPress={() => { setIsLoading(true); loadAll(); }}>
+                <Text style={styles.retryButtonText}>Try Again</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const typeConfig = SHARED_WORKOUT_TYPES[workout.type] || SHARED_WORKOUT_TYPES.mixed;
+  const difficultyConfig = SHARED_WORKOUT_DIFFICULTIES[workout.difficulty] || SHARED_WORKOUT_DIFFICULTIES.beginner;
+  const visibilityConfig = SHARED_WORKOUT_VISIBILITY[workout.visibility] || SHARED_WORKOUT_VISIBILITY.public;
+  const isAuthor = String(workout.sharedBy) === String(user?.id);
+  const hasEvaluated = evaluations.some((e) => String(e.evaluatorId) === String(user?.id));
+
+  const renderScore = (label: string, value?: number) => (
+    <View style={styles.summaryItem}>
+      <Text style={styles.summaryValue}>{value ? value.toFixed(1) : '–'}</Text>
+      <Text style={styles.summaryLabel}>{label}</Text>
+    </View>
+  );
+
+  const renderComment = (comment: WorkoutComment) => (
+    <View key={comment.id} style={styles.commentBlock}>
+      <View style={styles.commentRow}>
+        <Avatar profilePicture={comment.profilePicture} size="xs" backgroundColor={COLORS.PRIMARY[100]} iconColor={COLORS.PRIMARY[600]} />
+        <View style={styles.commentBody}>
+          <View style={styles.commentMeta}>
+            <Text style={styles.commentAuthor}>{comment.username}</Text>
+            <Text style={styles.commentTime}>{formatTimeAgo(comment.createdAt)}</Text>
+          </View>
+          <Text style={styles.commentText}>{comment.content}</Text>
+          <TouchableOpacity onPress={() => setReplyingTo(comment)} hitSlop={6}>
+            <Text style={styles.replyLink}>Reply</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {(comment.replies || []).map((reply) => (
+        <View key={reply.id} style={[styles.commentRow, styles.replyRow]}>
+          <Avatar profilePicture={reply.profilePicture} size="xs" backgroundColor={COLORS.SECONDARY[100]} iconColor={COLORS.SECONDARY[500]} />
+          <View style={styles.commentBody}>
+            <View style={styles.commentMeta}>
+              <Text style={styles.commentAuthor}>{reply.username}</Text>
+              <Text style={styles.commentTime}>{formatTimeAgo(reply.createdAt)}</Text>
+            </View>
+            <Text style={styles.commentText}>{reply.content}</Text>
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+
+  const renderEvaluation = (evaluation: WorkoutEvaluation) => (
+    <View key={evaluation.id} style={styles.card}>
+      <View style={styles.commentRow}>
+        <Avatar profilePicture={evaluation.evaluatorProfilePicture} size="xs" backgroundColor={COLORS.PRIMARY[100]} iconColor={COLORS.PRIMARY[600]} />
+        <View style={styles.commentBody}>
+          <View style={styles.commentMeta}>
+            <Text style={styles.commentAuthor}>{evaluation.evaluatorUsername}</Text>
+            <Text style={styles.commentTime}>{formatTimeAgo(evaluation.createdAt)}</Text>
+          </View>
+          <View style={styles.starRow}>
+            {[1, 2, 3, 4, 5].map((value) => (
+              <Ionicons key={value} name={value <= evaluation.rating ? 'star' : 'star-outline'} size={14} color="#F59E0B" />
+            ))}
+            {evaluation.wouldRecommend && (
+              <View style={styles.recommendBadge}>
+                <Ionicons name="thumbs-up" size={10} color={COLORS.SUCCESS[700]} />
+                <Text style={styles.recommendText}>Recommends</Text>
+              </View>
+            )}
+          </View>
+        </View>
+      </View>
+
+      <Text style={styles.evaluationScores}>
+        Difficulty {evaluation.difficulty}/5 · Effectiveness {evaluation.effectiveness}/5 · Enjoyment {evaluation.enjoyment}/5
+      </Text>
+
+      {!!evaluation.review && <Text style={styles.commentText}>{evaluation.review}</Text>}
+
+      {(evaluation.pros.length > 0 || evaluation.cons.length > 0) && (
+        <View style={styles.prosConsRow}>
+          {evaluation.pros.map((pro) => (
+            <View key={`pro-${pro}`} style={[styles.prosConsChip, styles.proChip]}>
+              <Ionicons name="add" size={12} color={COLORS.SUCCESS[700]} />
+              <Text style={[styles.prosConsText, { color: COLORS.SUCCESS[700] }]}>{pro}</Text>
+            </View>
+          ))}
+          {evaluation.cons.map((con) => (
+            <View key={`con-${con}`} style={[styles.prosConsChip, styles.conChip]}>
+              <Ionicons name="remove" size={12} color={COLORS.ERROR[600]} />
+              <Text style={[styles.prosConsText, { color: COLORS.ERROR[600] }]}>{con}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      <TouchableOpacity
+        style={styles.helpfulButton}
+        onPress={() => handleMarkHelpful(evaluation)}
+        disabled={evaluation.hasMarkedHelpful || String(evaluation.evaluatorId) === String(user?.id)}
+      >
+        <Ionicons
+          name={evaluation.hasMarkedHelpful ? 'checkmark-circle' : 'checkmark-circle-outline'}
+          size={16}
+          color={evaluation.hasMarkedHelpful ? COLORS.PRIMARY[600] : COLORS.SECONDARY[500]}
+        />
+        <Text style={[styles.helpfulText, evaluation.hasMarkedHelpful && styles.helpfulTextActive]}>
+          Helpful ({evaluation.helpful})
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {renderHeader()}
+
+      <KeyboardAvoidingView style={{ flex: 1 }} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={COLORS.PRIMARY[600]} />}
+        >
+          {/* Hero */}
+          <View style={[styles.heroCard, { backgroundColor: typeConfig.color }]}>
+            <View style={styles.heroBadges}>
+              <View style={styles.heroBadge}>
+                <Ionicons name={typeConfig.icon} size={14} color="white" />
+                <Text style={styles.heroBadgeText}>{typeConfig.label}</Text>
+              </View>
+              <View style={[styles.heroBadge, { backgroundColor: difficultyConfig.bgColor }]}>
+                <Text style={[styles.heroBadgeText, { color: difficultyConfig.color }]}>{difficultyConfig.label}</Text>
+              </View>
+              <View style={styles.heroBadge}>
+                <Ionicons name={visibilityConfig.icon} size={14} color="white" />
+                <Text style={styles.heroBadgeText}>{visibilityConfig.label}</Text>
+              </View>
+            </View>
+            <Text style={styles.heroTitle}>{workout.title}</Text>
+            {!!workout.description && <Text style={styles.heroDescription}>{workout.description}</Text>}
+            <TouchableOpacity
+              style={styles.authorRow}
+              onPress={() => router.push({
+                pathname: '/profile/public-profile',
+                params: { userId: String(workout.sharedBy), username: workout.sharedByUsername },
+              })}
+            >
+              <Avatar profilePicture={workout.sharedByProfilePicture} size="xs" />
+              <Text style={styles.authorText}>
+                {isAuthor ? 'Shared by you' : `Shared by ${workout.sharedByUsername}`} · {formatTimeAgo(workout.sharedAt)}
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          {/* Stats */}
+          <View style={styles.statsCard}>
+            <View style={styles.statItem}>
+              <Text style={styles.statValue}>{workout.exercises}</Text>
+              <Text style={styles.statLabel}>Exercises</Text>
+            </View>
+            <View style={styles.statDivider} />
+            <View style={styles.statItem}>
+              <Text style={styles.statValue}>{workout.duration} min</Text>
+              <Text style={styles.statLabel}>Duration</Text>
+            </View>
+            <View style={styles.statDivider} />
+            <View style={styles.statItem}>
+              <Text style={styles.statValue}>{workout.stats?.completions ?? 0}</Text>
+              <Text style={styles.statLabel}>Completions</Text>
+            </View>
+            <View style={styles.statDivider} />
+            <TouchableOpacity style={styles.statItem} onPress={handleToggleLike}>
+              <Ionicons
+                name={workout.hasLiked ? 'heart' : 'heart-outline'}
+                size={22}
+                color={workout.hasLiked ? COLORS.ERROR[500] : COLORS.SECONDARY[500]}
+              />
+              <Text style={styles.statLabel}>{workout.likes}</Text>
+            </TouchableOpacity>
+          </View>
+
+          {/* Exercises */}
+          {workout.template && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Exercises</Text>
+              <View style={styles.card}>
+                {workout.template.exercises.map((exercise, index) => (
+                  <View key={`${exercise.exercise_id}-${index}`} style={[styles.exerciseRow, index > 0 && styles.rowBorder]}>
+                    <View style={styles.exerciseNumber}>
+                      <Text style={styles.exerciseNumberText}>{index + 1}</Text>
+                    </View>
+                    <View style={{ flex: 1 }}>
+                      <Text style={styles.exerciseName}>{exercise.exercise_name}</Text>
+                      <Text style={styles.exerciseMeta}>{exercise.target_muscle_group.replace(/_/g, ' ')}</Text>
+                    </View>
+                  </View>
+                ))}
+              </View>
+            </View>
+          )}
+
+          {workout.tags.length > 0 && (
+            <View style={styles.tagsRow}>
+              {workout.tags.map((tag) => (
+                <View key={tag} style={styles.tag}>
+                  <Text style={styles.tagText}>#{tag}</Text>
+                </View>
+              ))}
+            </View>
+          )}
+
+          {/* Comments | Reviews */}
+          <View style={styles.tabContainer}>
+            {(['comments', 'reviews'] as const).map((tab) => (
+              <TouchableOpacity
+                key={tab}
+                style={[styles.tab, activeTab === tab && styles.tabActive]}
+                onPress={() => setActiveTab(tab)}
+              >
+                <Text style={[styles.tabText, activeTab === tab && styles.tabTextActive]}>
+                  {tab === 'comments' ? `Comments (${commentsTotal})` : `Reviews (${evaluationSummary?.total ?? evaluations.length})`}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {activeTab === 'comments' ? (
+            <View style={styles.section}>
+              {/* Composer */}
+              {replyingTo && (
+                <View style={styles.replyBanner}>
+                  <Text style={styles.replyBannerText} numberOfLines={1}>Replying to {replyingTo.username}</Text>
+                  <TouchableOpacity onPress={() => setReplyingTo(null)} hitSlop={6}>
+                    <Ionicons name="close" size={16} color={COLORS.SECONDARY[500]} />
+                  </TouchableOpacity>
+                </View>
+              )}
+              <View style={styles.composer}>
+                <TextInput
+                  style={styles.composerInput}
+                  value={draft}
+                  onChangeText={setDraft}
+                  placeholder={replyingTo ? 'Write a reply...' : 'Ask a question or share a tip...'}
+                  placeholderTextColor={COLORS.SECONDARY[400]}
+                  maxLength={MAX_COMMENT_LENGTH}
+                  multiline
+                />
+                <TouchableOpacity
+                  style={[styles.sendButton, (!draft.trim() || isPosting) && styles.sendButtonDisabled]}
+                  onPress={handlePost}
+                  disabled={!draft.trim() || isPosting}
+                >
+                  {isPosting ? <ActivityIndicator size="small" color="white" /> : <Ionicons name="send" size={16} color="white" />}
+                </TouchableOpacity>
+              </View>
+
+              {comments.length === 0 ? (
+                <Text style={styles.emptyText}>No comments yet. Start the conversation!</Text>
+              ) : (
+                <View style={styles.card}>{comments.map(renderComment)}</View>
+              )}
+
+              {comments.length < commentsTotal && (
+                <TouchableOpacity style={styles.loadMoreButton} onPress={handleLoadMoreComments} disabled={isLoadingMoreComments}>
+                  {isLoadingMoreComments ? (
+                    <ActivityIndicator size="small" color={COLORS.PRIMARY[600]} />
+                  ) : (
+                    <Text style={styles.loadMoreText}>Load more comments</Text>
+                  )}
+                </TouchableOpacity>
+              )}
+            </View>
+          ) : (
+            <View style={styles.section}>
+              {evaluationSummary && evaluationSummary.total > 0 && (
+                <View style={[styles.card, styles.summaryCard]}>
+                  <View style={styles.summaryRow}>
+                    {renderScore('Overall', evaluationSummary.averageRating)}
+                    {renderScore('Difficulty', evaluationSummary.averageDifficulty)}
+                    {renderScore('Effective', evaluationSummary.averageEffectiveness)}
+                    {renderScore('Enjoyment', evaluationSummary.averageEnjoyment)}
+                  </View>
+                  <Text style={styles.recommendSummary}>
+                    {Math.round(evaluationSummary.recommendationPercentage)}% would recommend this workout
+                  </Text>
+                </View>
+              )}
+
+              {!isAuthor && !hasEvaluated && (
+                <TouchableOpacity style={styles.reviewButton} onPress={() => setShowEvaluationModal(true)}>
+                  <Ionicons name="create-outline" size={18} color={COLORS.PRIMARY[600]} />
+                  <Text style={styles.reviewButtonText}>Write a Review</Text>
+                </TouchableOpacity>
+              )}
+
+              {evaluations.length === 0 ? (
+                <Text style={styles.emptyText}>No reviews yet. Try it and tell others how it went!</Text>
+              ) : (
+                <View style={styles.evaluationList}>{evaluations.map(renderEvaluation)}</View>
+              )}
+            </View>
+          )}
+
+          <View style={{ height: 100 }} />
+        </ScrollView>
+      </KeyboardAvoidingView>
+
+      {/* Start */}
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.startButton, !workout.template && styles.startButtonDisabled]}
+          onPress={handleStart}
+          disabled={!workout.template}
+          activeOpacity={0.8}
+        >
+          <Ionicons name="play" size={20} color="white" />
+          <Text style={styles.startButtonText}>{workout.template ? 'Start Workout' : 'Exercise list unavailable'}</Text>
+        </TouchableOpacity>
+      </View>
+
+      <WorkoutEvaluationModal
+        visible={showEvaluationModal}
+        sharedWorkoutId={workout.id}
+        workoutTitle={workout.title}
+        onClose={() => setShowEvaluationModal(false)}
+        onSubmitted={handleEvaluationSubmitted}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.NEUTRAL[50],
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.NEUTRAL[200],
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: FONT_SIZES.XL,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  loadingText: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[600],
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: 16,
+    paddingHorizontal: 24,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: COLORS.PRIMARY[600],
+  },
+  retryButtonText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  heroCard: {
+    borderRadius: 16,
+    padding: 20,
+  },
+  heroBadges: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  heroBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.25)',
+  },
+  heroBadgeText: {
+    fontSize: 10,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.NEUTRAL.WHITE,
+    letterSpacing: 0.5,
+  },
+  heroTitle: {
+    fontSize: FONT_SIZES.XXL,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  heroDescription: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.NEUTRAL.WHITE,
+    marginTop: 8,
+    lineHeight: 20,
+    opacity: 0.9,
+  },
+  authorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 16,
+  },
+  authorText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  statsCard: {
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderRadius: 16,
+    padding: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  statItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  statLabel: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.SECONDARY[500],
+    marginTop: 2,
+  },
+  statDivider: {
+    width: 1,
+    height: 36,
+    backgroundColor: COLORS.NEUTRAL[200],
+  },
+  section: {
+    marginTop: 16,
+  },
+  sectionTitle: {
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderRadius: 16,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  rowBorder: {
+    borderTopWidth: 1,
+    borderTopColor: COLORS.NEUTRAL[100],
+  },
+  exerciseRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  exerciseNumber: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: COLORS.PRIMARY[100],
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  exerciseNumberText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.PRIMARY[700],
+  },
+  exerciseName: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  exerciseMeta: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    textTransform: 'capitalize',
+  },
+  tagsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 16,
+  },
+  tag: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 8,
+    backgroundColor: COLORS.PRIMARY[50],
+  },
+  tagText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.PRIMARY[700],
+  },
+  tabContainer: {
+    flexDirection: 'row',
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderRadius: 12,
+    padding: 4,
+    marginTop: 24,
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 10,
+    alignItems: 'center',
+    borderRadius: 8,
+  },
+  tabActive: {
+    backgroundColor: COLORS.PRIMARY[500],
+  },
+  tabText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[600],
+  },
+  tabTextActive: {
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  replyBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginBottom: 6,
+    borderRadius: 8,
+    backgroundColor: COLORS.PRIMARY[50],
+  },
+  replyBannerText: {
+    flex: 1,
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.PRIMARY[700],
+  },
+  composer: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 8,
+    marginBottom: 12,
+  },
+  composerInput: {
+    flex: 1,
+    minHeight: 40,
+    maxHeight: 100,
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderWidth: 1,
+    borderColor: COLORS.NEUTRAL[200],
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[900],
+  },
+  sendButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: COLORS.PRIMARY[600],
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  sendButtonDisabled: {
+    opacity: 0.5,
+  },
+  commentBlock: {
+    paddingVertical: 8,
+  },
+  commentRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  replyRow: {
+    marginLeft: 40,
+    marginTop: 8,
+  },
+  commentBody: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  commentMeta: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  commentAuthor: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  commentTime: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[400],
+  },
+  commentText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[700],
+    lineHeight: 20,
+    marginTop: 2,
+  },
+  replyLink: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.PRIMARY[600],
+    marginTop: 4,
+  },
+  loadMoreButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  loadMoreText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.PRIMARY[600],
+  },
+  emptyText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    textAlign: 'center',
+    paddingVertical: 24,
+  },
+  summaryCard: {
+    marginBottom: 12,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  summaryValue: {
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  summaryLabel: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.SECONDARY[500],
+  },
+  recommendSummary: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SUCCESS[700],
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  reviewButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 12,
+    marginBottom: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.PRIMARY[200],
+    backgroundColor: COLORS.PRIMARY[50],
+  },
+  reviewButtonText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.PRIMARY[600],
+  },
+  evaluationList: {
+    gap: 12,
+  },
+  starRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+    marginTop: 2,
+  },
+  recommendBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 3,
+    marginLeft: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 8,
+    backgroundColor: COLORS.SUCCESS[100],
+  },
+  recommendText: {
+    fontSize: 10,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SUCCESS[700],
+  },
+  evaluationScores: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.SECONDARY[500],
+    marginTop: 8,
+  },
+  prosConsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 8,
+  },
+  prosConsChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 8,
+  },
+  proChip: {
+    backgroundColor: COLORS.SUCCESS[50],
+  },
+  conChip: {
+    backgroundColor: COLORS.ERROR[50],
+  },
+  prosConsText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.MEDIUM,
+  },
+  helpfulButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    alignSelf: 'flex-start',
+    marginTop: 10,
+  },
+  helpfulText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[500],
+  },
+  helpfulTextActive: {
+    color: COLORS.PRIMARY[600],
+  },
+  footer: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    padding: 16,
+    paddingBottom: 28,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.NEUTRAL[200],
+  },
+  startButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 16,
+    borderRadius: 12,
+    backgroundColor: COLORS.PRIMARY[600],
+  },
+  startButtonDisabled: {
+    backgroundColor: COLORS.SECONDARY[300],
+  },
+  startButtonText: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+});
@@ -0,0 +1,508 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router, useFocusEffect } from 'expo-router';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+import { SHARED_WORKOUT_TYPES, SHARED_WORKOUT_DIFFICULTIES } from '../../constants/sharedWorkouts';
+import { useAuth } from '../../contexts/AuthContext';
+import { useSmartBack } from '../../hooks/useSmartBack';
+import { Avatar } from '../../components/ui/Avatar';
+import { socialService, SharedWorkout } from '../../services/microservices/socialService';
+import { formatTimeAgo } from '../../utils/dateUtils';
+
+const PER_PAGE = 20;
+
+type SourceFilter = 'public' | 'friends' | 'mine';
+
+const SOURCE_TABS: { key: SourceFilter; label: string }[] = [
+  { key: 'public', label: 'Discover' },
+  { key: 'friends', label: 'Friends' },
+  { key: 'mine', label: 'Mine' },
+];
+
+export default function SharedWorkoutsScreen() {
+  const { user } = useAuth();
+  const { goBack } = useSmartBack();
+
+  const [workouts, setWorkouts] = useState<SharedWorkout[]>([]);
+  const [source, setSource] = useState<SourceFilter>('public');
+  const [type, setType] = useState<SharedWorkout['type'] | null>(null);
+  const [difficulty, setDifficulty] = useState<SharedWorkout['difficulty'] | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState(false);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [hasMore, setHasMore] = useState(true);
+
+  const filterVersionRef = useRef(0); // Discards responses for filters that are no longer selected
+  const loadingMoreRef = useRef(false);
+  const likeInFlightRef = useRef<Set<string>>(new Set());
+
+  const loadWorkouts = async (page: number, version: number) => {
+    try {
+      const filters: Parameters<typeof socialService.getSharedWorkouts>[0] = { page, limit: PER_PAGE };
+      if (source === 'mine') {
+        filters.userId = String(user?.id);
+      } else {
+        filters.visibility = source;
+      }
+      if (type) filters.type = type;
+      if (difficulty) filters.difficulty = difficulty;
+
+      const result = await socialService.getSharedWorkouts(filters);
+      if (version !== filterVersionRef.current) return;
+
+      setWorkouts((prev) => (page === 1 ? result.workouts : [...prev, ...result.workouts]));
+      setCurrentPage(page);
+      setHasMore(result.workouts.length >= PER_PAGE);
+      setError(false);
+    } catch (err) {
+      console.error('[SHARED WORKOUTS] Failed to load shared workouts:', err);
+      if (page === 1 && version === filterVersionRef.current) {
+        setWorkouts([]);
+        setError(true);
+      }
+    }
+  };
+
+  const reload = async () => {
+    filterVersionRef.current += 1;
+    const version = filterVersionRef.current;
+    setHasMore(true);
+    await loadWorkouts(1, version);
+    if (version === filterVersionRef.current) setIsLoading(false);
+  };
+
+  useEffect(() => {
+    setIsLoading(true);
+    reload();
+  }, [source, type, difficulty]);
+
+  // Pick up likes, comments and newly published workouts from other screens
+  const hasFocusedRef = useRef(false);
+  useFocusEffect(
+    useCallback(() => {
+      if (hasFocusedRef.current) reload();
+      hasFocusedRef.current = true;
+    }, [source, type, difficulty])
+  );
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await reload();
+    setRefreshing(false);
+  };
+
+  const handleLoadMore = async () => {
+    if (loadingMoreRef.current || !hasMore || isLoading) return;
+    loadingMoreRef.current = true;
+    setIsLoadingMore(true);
+    await loadWorkouts(currentPage + 1, filterVersionRef.current);
+    setIsLoadingMore(false);
+    loadingMoreRef.current = false;
+  };
+
+  // Optimistic like toggle: flip immediately, roll back if the request fails
+  const handleToggleLike = async (workout: SharedWorkout) => {
+    if (likeInFlightRef.current.has(workout.id)) return;
+    likeInFlightRef.current.add(workout.id);
+
+    const update = (changes: Partial<SharedWorkout>) =>
+      setWorkouts((prev) => prev.map((w) => (w.id === workout.id ? { ...w, ...changes } : w)));
+
+    update({ hasLiked: !workout.hasLiked, likes: Math.max(0, workout.likes + (workout.hasLiked ? -1 : 1)) });
+    try {
+      const response = workout.hasLiked
+        ? await socialService.unlikeWorkout(workout.id)
+        : await socialService.likeWorkout(workout.id);
+      if (typeof response?.likes === 'number') update({ likes: response.likes });
+    } catch (err) {
+      console.error('[SHARED WORKOUTS] Failed to update like:', err);
+      update({ hasLiked: workout.hasLiked, likes: workout.likes });
+    } finally {
+      likeInFlightRef.current.delete(workout.id);
+    }
+  };
+
+  const renderChip = (label: string, isActive: boolean, onPress: () => void, color?: string) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, isActive && { backgroundColor: color || COLORS.PRIMARY[600], borderColor: color || COLORS.PRIMARY[600] }]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      <Text style={[styles.chipText, isActive && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderWorkout = ({ item }: { item: SharedWorkout }) => {
+    const typeConfig = SHARED_WORKOUT_TYPES[item.type] || SHARED_WORKOUT_TYPES.mixed;
+    const difficultyConfig = SHARED_WORKOUT_DIFFICULTIES[item.difficulty] || SHARED_WORKOUT_DIFFICULTIES.beginner;
+
+    return (
+      <TouchableOpacity
+        style={styles.workoutCard}
+        onPress={() => router.push(`/shared-workouts/${item.id}`)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.cardHeader}>
+          <View style={[styles.typeIcon, { backgroundColor: typeConfig.color + '20' }]}>
+            <Ionicons name={typeConfig.icon} size={24} color={typeConfig.color} />
+          </View>
+          <View style={styles.cardTitleContainer}>
+            <Text style={styles.cardTitle} numberOfLines={1}>{item.title}</Text>
+            <Text style={styles.cardSubtitle}>
+              {item.exercises} exercises · {item.duration} min
+            </Text>
+          </View>
+          <View style={[styles.difficultyBadge, { backgroundColor: difficultyConfig.bgColor }]}>
+            <Text style={[styles.difficultyText, { color: difficultyConfig.color }]}>{difficultyConfig.label}</Text>
+          </View>
+        </View>
+
+        {!!item.description && (
+          <Text style={styles.cardDescription} numberOfLines={2}>{item.description}</Text>
+        )}
+
+        {item.tags.length > 0 && (
+          <View style={styles.tagsRow}>
+            {item.tags.slice(0, 4).map((tag) => (
+              <View key={tag} style={styles.tag}>
+                <Text style={styles.tagText}>#{tag}</Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        <View style={styles.cardFooter}>
+          <View style={styles.authorRow}>
+            <Avatar profilePicture={item.sharedByProfilePicture} size="xs" backgroundColor={COLORS.PRIMARY[100]} iconColor={COLORS.PRIMARY[600]} />
+            <Text style={styles.authorText} numberOfLines={1}>
+              {item.sharedByUsername} · {formatTimeAgo(item.sharedAt)}
+            </Text>
+          </View>
+          {!!item.stats?.averageRating && (
+            <View style={styles.footerItem}>
+              <Ionicons name="star" size={14} color="#F59E0B" />
+              <Text style={styles.footerText}>{item.stats.averageRating.toFixed(1)}</Text>
+            </View>
+          )}
+          <View style={styles.footerItem}>
+            <Ionicons name="chatbubble-outline" size={14} color={COLORS.SECONDARY[500]} />
+            <Text style={styles.footerText}>{item.comments}</Text>
+          </View>
+          <TouchableOpacity style={styles.footerItem} onPress={() => handleToggleLike(item)} hitSlop={8}>
+            <Ionicons
+              name={item.hasLiked ? 'heart' : 'heart-outline'}
+              size={16}
+              color={item.hasLiked ? COLORS.ERROR[500] : COLORS.SECONDARY[500]}
+            />
+            <Text style={styles.footerText}>{item.likes}</Text>
+          </TouchableOpacity>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderEmpty = () => {
+    if (isLoading) return null;
+    return (
+      <View style={styles.emptyState}>
+        <Ionicons name={error ? 'cloud-offline-outline' : 'albums-outline'} size={64} color={COLORS.SECONDARY[300]} />
+        <Text style={styles.emptyStateTitle}>{error ? 'Could Not Load Workouts' : 'No Shared Workouts'}</Text>
+        <Text style={styles.emptyStateText}>
+          {error
+            ? 'Pull down to try again.'
+            : source === 'mine'
+            ? 'Finish a workout and tap "Share as Template" to publish it here.'
+            : 'Try another type or difficulty.'}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => goBack()} style={styles.headerButton}>
+          <Ionicons name="arrow-back" size={24} color={COLORS.SECONDARY[900]} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Community Workouts</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      {/* Source Tabs */}
+      <View style={styles.tabContainer}>
+        {SOURCE_TABS.map((tab) => (
+          <TouchableOpacity
+            key={tab.key}
+            style={[styles.tab, source === tab.key && styles.tabActive]}
+            onPress={() => setSource(tab.key)}
+          >
+            <Text style={[styles.tabText, source === tab.key && styles.tabTextActive]}>{tab.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {/* Filters */}
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {renderChip('All Types', type === null, () => setType(null))}
+        {(Object.keys(SHARED_WORKOUT_TYPES) as SharedWorkout['type'][]).map((key) =>
+          renderChip(SHARED_WORKOUT_TYPES[key].label, type === key, () => setType(key), SHARED_WORKOUT_TYPES[key].color)
+        )}
+        <View style={styles.chipDivider} />
+        {renderChip('Any Level', difficulty === null, () => setDifficulty(null))}
+        {(Object.keys(SHARED_WORKOUT_DIFFICULTIES) as SharedWorkout['difficulty'][]).map((key) =>
+          renderChip(SHARED_WORKOUT_DIFFICULTIES[key].label, difficulty === key, () => setDifficulty(key), SHARED_WORKOUT_DIFFICULTIES[key].color)
+        )}
+      </ScrollView>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={COLORS.PRIMARY[600]} />
+          <Text style={styles.loadingText}>Loading workouts...</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={workouts}
+          keyExtractor={(item) => item.id}
+          renderItem={renderWorkout}
+          contentContainerStyle={styles.listContent}
+          ListEmptyComponent={renderEmpty}
+          onEndReached={handleLoadMore}
+          onEndReachedThreshold={0.4}
+          ListFooterComponent={isLoadingMore ? <ActivityIndicator style={{ marginVertical: 16 }} color={COLORS.PRIMARY[600]} /> : null}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={COLORS.PRIMARY[600]} />}
+          showsVerticalScrollIndicator={false}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.NEUTRAL[50],
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.NEUTRAL[200],
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: FONT_SIZES.XL,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  tabContainer: {
+    flexDirection: 'row',
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderRadius: 12,
+    padding: 4,
+    marginHorizontal: 16,
+    marginTop: 16,
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 10,
+    alignItems: 'center',
+    borderRadius: 8,
+  },
+  tabActive: {
+    backgroundColor: COLORS.PRIMARY[500],
+  },
+  tabText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[600],
+  },
+  tabTextActive: {
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  chipRow: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    gap: 8,
+    alignItems: 'center',
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 7,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.NEUTRAL[300],
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+  },
+  chipText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[600],
+  },
+  chipTextActive: {
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  chipDivider: {
+    width: 1,
+    height: 20,
+    backgroundColor: COLORS.NEUTRAL[300],
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[600],
+    marginTop: 16,
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 40,
+    gap: 12,
+  },
+  workoutCard: {
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderRadius: 16,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  typeIcon: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  cardTitleContainer: {
+    flex: 1,
+    marginLeft: 12,
+    marginRight: 8,
+  },
+  cardTitle: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  cardSubtitle: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 2,
+  },
+  difficultyBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+  },
+  difficultyText: {
+    fontSize: 10,
+    fontFamily: FONTS.BOLD,
+  },
+  cardDescription: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[600],
+    lineHeight: 20,
+  },
+  tagsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 10,
+  },
+  tag: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 8,
+    backgroundColor: COLORS.PRIMARY[50],
+  },
+  tagText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.PRIMARY[700],
+  },
+  cardFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.NEUTRAL[100],
+    gap: 12,
+  },
+  authorRow: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  authorText: {
+    flex: 1,
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.SECONDARY[600],
+  },
+  footerItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  footerText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.SECONDARY[600],
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+    paddingHorizontal: 32,
+  },
+  emptyStateTitle: {
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+    marginTop: 16,
+  },
+  emptyStateText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,414 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Input } from '../../components/ui/Input';
+import { Button } from '../../components/ui/Button';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+import { SHARED_WORKOUT_TYPES, SHARED_WORKOUT_VISIBILITY } from '../../constants/sharedWorkouts';
+import { useAuth } from '../../contexts/AuthContext';
+import { useAlert } from '../../contexts/AlertContext';
+import { useSmartBack } from '../../hooks/useSmartBack';
+import { socialService, Group, SharedWorkout } from '../../services/microservices/socialService';
+import { TabataWorkoutSession } from '../../services/workoutSessionGenerator';
+
+type WorkoutType = SharedWorkout['type'];
+type Visibility = SharedWorkout['visibility'];
+
+export default function ShareWorkoutScreen() {
+  const { sessionData } = useLocalSearchParams<{ sessionData?: string }>();
+  const { user } = useAuth();
+  const alert = useAlert();
+  const { goBack } = useSmartBack();
+
+  const session = useMemo<TabataWorkoutSession | null>(() => {
+    if (!sessionData) return null;
+    try {
+      return JSON.parse(sessionData);
+    } catch (error) {
+      console.error('[SHARE WORKOUT] Invalid session data:', error);
+      return null;
+    }
+  }, [sessionData]);
+
+  const [title, setTitle] = useState(session?.session_name || '');
+  const [description, setDescription] = useState('');
+  const [type, setType] = useState<WorkoutType>('mixed');
+  const [visibility, setVisibility] = useState<Visibility>('public');
+  const [selectedGroups, setSelectedGroups] = useState<string[]>([]);
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [isLoadingGroups, setIsLoadingGroups] = useState(false);
+  const [tags, setTags] = useState('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (visibility !== 'groups' || groups.length > 0 || !user?.id) return;
+
+    setIsLoadingGroups(true);
+    socialService.getGroups({ user_id: parseInt(user.id) })
+      .then(({ groups: userGroups }) => setGroups(userGroups))
+      .catch((error) => console.error('[SHARE WORKOUT] Failed to load groups:', error))
+      .finally(() => setIsLoadingGroups(false));
+  }, [visibility, groups.length, user?.id]);
+
+  const toggleGroup = (groupId: string) => {
+    setSelectedGroups((prev) => (prev.includes(groupId) ? prev.filter((id) => id !== groupId) : [...prev, groupId]));
+  };
+
+  const validate = (): boolean => {
+    const nextErrors: Record<string, string> = {};
+
+    if (title.trim().length < 3) nextErrors.title = 'Title must be at least 3 characters';
+    if (visibility === 'groups' && selectedGroups.length === 0) nextErrors.groups = 'Pick at least one group';
+
+    setErrors(nextErrors);
+    return Object.keys(nextErrors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    if (!session || isSubmitting || !validate()) return;
+
+    setIsSubmitting(true);
+    try {
+      const shared = await socialService.shareWorkout({
+        workoutId: session.session_id,
+        title: title.trim(),
+        description: description.trim() || undefined,
+        type,
+        visibility,
+        targetGroups: visibility === 'groups' ? selectedGroups : undefined,
+        tags: tags.split(',').map((tag) => tag.trim().toLowerCase()).filter(Boolean),
+        template: session,
+      });
+      console.log('📤 [SHARE WORKOUT] Shared workout template:', shared.id);
+
+      alert.success('Workout Shared!', `"${shared.title}" is now available to others.`, () => {
+        router.replace(`/shared-workouts/${shared.id}`);
+      });
+    } catch (err: any) {
+      alert.error('Error', err.message || 'Failed to share workout.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <TouchableOpacity onPress={() => goBack()} style={styles.backButton}>
+        <Ionicons name="arrow-back" size={24} color={COLORS.SECONDARY[900]} />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle}>Share Workout</Text>
+      <View style={styles.backButton} />
+    </View>
+  );
+
+  if (!session) {
+    return (
+      <SafeAreaView style={styles.container} edges={['top']}>
+        {renderHeader()}
+        <View style={styles.centered}>
+          <Ionicons name="alert-circle-outline" size={64} color={COLORS.SECONDARY[300]} />
+          <Text style={styles.emptyTitle}>Nothing to Share</Text>
+          <Text style={styles.emptyText}>Finish a workout and tap Share as Template to publish it.</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {renderHeader()}
+
+      <KeyboardAvoidingView style={{ flex: 1 }} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          {/* Session summary */}
+          <View style={styles.summaryCard}>
+            <Ionicons name="flash" size={20} color={COLORS.PRIMARY[600]} />
+            <Text style={styles.summaryText}>
+              {session.total_exercises} exercises · {session.total_duration_minutes} min · {session.difficulty_level}
+            </Text>
+          </View>
+
+          <Input
+            label="Title"
+            value={title}
+            onChangeText={setTitle}
+            placeholder="e.g. Quick Core Burner"
+            autoCapitalize="sentences"
+            maxLength={80}
+            error={errors.title}
+          />
+          <Input
+            label="Description (optional)"
+            value={description}
+            onChangeText={setDescription}
+            placeholder="Who is it for? Any tips?"
+            autoCapitalize="sentences"
+            multiline
+            numberOfLines={3}
+            maxLength={500}
+          />
+
+          {/* Type */}
+          <Text style={styles.label}>Type</Text>
+          <View style={styles.chipWrap}>
+            {(Object.keys(SHARED_WORKOUT_TYPES) as WorkoutType[]).map((key) => {
+              const config = SHARED_WORKOUT_TYPES[key];
+              const isActive = type === key;
+              return (
+                <TouchableOpacity
+                  key={key}
+                  style={[styles.chip, isActive && { backgroundColor: config.color, borderColor: config.color }]}
+                  onPress={() => setType(key)}
+                  activeOpacity={0.7}
+                >
+                  <Ionicons name={config.icon} size={14} color={isActive ? 'white' : config.color} />
+                  <Text style={[styles.chipText, isActive && styles.chipTextActive]}>{config.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {/* Visibility */}
+          <Text style={styles.label}>Who can see it</Text>
+          <View style={styles.visibilityList}>
+            {(Object.keys(SHARED_WORKOUT_VISIBILITY) as Visibility[]).map((key) => {
+              const config = SHARED_WORKOUT_VISIBILITY[key];
+              const isActive = visibility === key;
+              return (
+                <TouchableOpacity
+                  key={key}
+                  style={[styles.visibilityOption, isActive && styles.visibilityOptionActive]}
+                  onPress={() => setVisibility(key)}
+                  activeOpacity={0.7}
+                >
+                  <Ionicons name={config.icon} size={20} color={isActive ? COLORS.PRIMARY[600] : COLORS.SECONDARY[400]} />
+                  <View style={{ flex: 1 }}>
+                    <Text style={[styles.visibilityLabel, isActive && styles.visibilityLabelActive]}>{config.label}</Text>
+                    <Text style={styles.visibilityDescription}>{config.description}</Text>
+                  </View>
+                  <Ionicons
+                    name={isActive ? 'radio-button-on' : 'radio-button-off'}
+                    size={20}
+                    color={isActive ? COLORS.PRIMARY[600] : COLORS.SECONDARY[300]}
+                  />
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {visibility === 'groups' && (
+            <>
+              <Text style={styles.label}>Groups</Text>
+              {isLoadingGroups ? (
+                <ActivityIndicator color={COLORS.PRIMARY[600]} style={{ marginBottom: 16 }} />
+              ) : groups.length === 0 ? (
+                <Text style={styles.hint}>You are not a member of any groups yet.</Text>
+              ) : (
+                <View style={styles.chipWrap}>
+                  {groups.map((group) => {
+                    const isActive = selectedGroups.includes(group.id);
+                    return (
+                      <TouchableOpacity
+                        key={group.id}
+                        style={[styles.chip, isActive && styles.chipActive]}
+                        onPress={() => toggleGroup(group.id)}
+                        activeOpacity={0.7}
+                      >
+                        {isActive && <Ionicons name="checkmark" size={14} color="white" />}
+                        <Text style={[styles.chipText, isActive && styles.chipTextActive]}>{group.name}</Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              )}
+              {!!errors.groups && <Text style={styles.errorText}>{errors.groups}</Text>}
+            </>
+          )}
+
+          <Input
+            label="Tags (comma separated)"
+            value={tags}
+            onChangeText={setTags}
+            placeholder="e.g. core, no-equipment, quick"
+            maxLength={120}
+          />
+
+          <Button
+            title="Share Workout"
+            onPress={handleSubmit}
+            loading={isSubmitting}
+            disabled={isSubmitting}
+            size="large"
+            style={{ marginTop: 8 }}
+          />
+
+          <View style={{ height: 40 }} />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.NEUTRAL[50],
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.NEUTRAL[200],
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: FONT_SIZES.XL,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  emptyTitle: {
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[700],
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  emptyText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  summaryCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    marginBottom: 16,
+    borderRadius: 12,
+    backgroundColor: COLORS.PRIMARY[50],
+  },
+  summaryText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.PRIMARY[700],
+    textTransform: 'capitalize',
+  },
+  label: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[700],
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginBottom: 16,
+  },
+  chipWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.NEUTRAL[300],
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+  },
+  chipActive: {
+    backgroundColor: COLORS.PRIMARY[500],
+    borderColor: COLORS.PRIMARY[500],
+  },
+  chipText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[600],
+  },
+  chipTextActive: {
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  visibilityList: {
+    gap: 8,
+    marginBottom: 16,
+  },
+  visibilityOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 12,
+    borderRadius: 10,
+    borderWidth: 1.5,
+    borderColor: COLORS.NEUTRAL[200],
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+  },
+  visibilityOptionActive: {
+    borderColor: COLORS.PRIMARY[500],
+    backgroundColor: COLORS.PRIMARY[50],
+  },
+  visibilityLabel: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[800],
+  },
+  visibilityLabelActive: {
+    color: COLORS.PRIMARY[700],
+  },
+  visibilityDescription: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+  },
+  errorText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.ERROR[500],
+    marginBottom: 8,
+  },
+});
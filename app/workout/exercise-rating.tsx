@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -17,8 +17,11 @@ import { useAlert } from '../../contexts/AlertContext';
 import { COLORS, FONTS } from '../../constants/colors';
 import ProgressUpdateModal from '../../components/ProgressUpdateModal';
 import AchievementUnlockModal, { UnlockedAchievement } from '../../components/achievements/AchievementUnlockModal';
+import PersonalBestModal from '../../components/progress/PersonalBestModal';
 import { ratingService } from '../../services/microservices/ratingService';
 import { engagementService } from '../../services/microservices/engagementService';
+import { personalBestTracker, NewPersonalBest } from '../../services/personalBestTracker';
+import { useGoalsStore } from '../../stores/goalsStore';
 import { useProgressStore } from '../../stores/progressStore';
 import { hapticLight, hapticSuccess } from '../../utils/haptics';
 
@@ -60,11 +63,13 @@ export default function ExerciseRatingScreen() {
 
   // Parse parameters
   const sessionId = params.sessionId as string;
+  const pendingSessionKey = params.pendingSessionKey as string | undefined; // Set when the session is still in the offline outbox
   const workoutId = params.workoutId as string;
   const exercisesData = params.exercises as string;
   const beforeStats = params.beforeStats as string;
   const afterStats = params.afterStats as string;
   const workoutData = params.workoutData as string;
+  const sessionData = params.sessionData as string | undefined; // Tabata session JSON, used to publish it as a shared template
 
   // Parse exercises from JSON
   const exercises: ExerciseToRate[] = exercisesData ? JSON.parse(exercisesData) : [];
@@ -90,6 +95,8 @@ export default function ExerciseRatingScreen() {
   const [showAchievementModal, setShowAchievementModal] = useState(false);
   const [unlockedAchievements, setUnlockedAchievements] = useState<UnlockedAchievement[]>([]);
   const [achievementIdsToMark, setAchievementIdsToMark] = useState<number[]>([]);
+  const [showPersonalBestModal, setShowPersonalBestModal] = useState(false);
+  const [newPersonalBests, setNewPersonalBests] = useState<NewPersonalBest[]>([]);
 
   // Block Android hardware back button — user must complete or skip ratings
   useEffect(() => {
@@ -177,13 +184,16 @@ export default function ExerciseRatingScreen() {
         userId: user?.id,
       });
 
-      // Submit batch ratings
-      await ratingService.submitExerciseRatingsBatch({
-        user_id: Number(user?.id),
-        session_id: Number(sessionId),
-        workout_id: workoutId ? Number(workoutId) : undefined,
-        ratings: ratingsArray,
-      });
+      // Submit batch ratings (queued for sync when offline or when the session itself is pending)
+      await ratingService.submitExerciseRatingsBatch(
+        {
+          user_id: Number(user?.id),
+          session_id: Number(sessionId) || 0,
+          workout_id: workoutId ? Number(workoutId) : undefined,
+          ratings: ratingsArray,
+        },
+        { pendingSessionKey: pendingSessionKey || undefined }
+      );
 
       console.log('✅ [RATING] Exercise ratings submitted successfully');
 
@@ -206,6 +216,19 @@ export default function ExerciseRatingScreen() {
     setShowProgressModal(true);
   };
 
+  // Set from the progress modal; the share form opens once the post-workout modals are done
+  const shareRequestedRef = useRef(false);
+
+  const navigateAfterRating = () => {
+    if (shareRequestedRef.current && sessionData) {
+      router.replace({ pathname: '/shared-workouts/share', params: { sessionData } });
+      return;
+    }
+
+    // Navigate to home tab and replace history to prevent going back
+    router.replace('/(tabs)');
+  };
+
   const handleProgressModalClose = async () => {
     setShowProgressModal(false);
 
@@ -215,6 +238,13 @@ export default function ExerciseRatingScreen() {
       await refreshAfterWorkout(user.id);
       console.log('✅ [RATING MODAL CLOSE] Progress store refreshed');
 
+      // Count the finished session towards endurance/frequency goals (reuses the fresh history)
+      useGoalsStore.getState().syncProgress(user.id, useProgressStore.getState().workoutHistory).catch(() => {});
+
+      // Personal bests are celebrated before achievements
+      const newBests = await personalBestTracker.checkForNewBests(user.id);
+      setNewPersonalBests(newBests);
+
       // Check for newly unlocked achievements
       console.log('🏆 [RATING MODAL CLOSE] Checking for unlocked achievements...');
       try {
@@ -241,17 +271,37 @@ export default function ExerciseRatingScreen() {
           }));
 
           setUnlockedAchievements(formattedAchievements);
-          setShowAchievementModal(true);
+          if (newBests.length > 0) {
+            setShowPersonalBestModal(true);
+          } else {
+            setShowAchievementModal(true);
+          }
           return; // Don't navigate yet, wait for achievement modal to close
         }
       } catch (error) {
         console.warn('🏆 [RATING MODAL CLOSE] Achievement check failed:', error);
         // Continue to navigation even if achievement check fails
       }
+
+      if (newBests.length > 0) {
+        setShowPersonalBestModal(true);
+        return;
+      }
     }
 
-    // Navigate to home tab and replace history to prevent going back
-    router.replace('/(tabs)');
+    navigateAfterRating();
+  };
+
+  const handlePersonalBestModalClose = () => {
+    setShowPersonalBestModal(false);
+    setNewPersonalBests([]);
+
+    if (unlockedAchievements.length > 0) {
+      setShowAchievementModal(true);
+      return;
+    }
+
+    navigateAfterRating();
   };
 
   const handleAchievementModalClose = async () => {
@@ -265,8 +315,7 @@ export default function ExerciseRatingScreen() {
       setAchievementIdsToMark([]);
     }
 
-    // Now navigate to home tab
-    router.replace('/(tabs)');
+    navigateAfterRating();
   };
 
   if (!currentExercise) {
@@ -524,9 +573,17 @@ export default function ExerciseRatingScreen() {
           beforeStats={parsedBeforeStats}
           afterStats={parsedAfterStats}
           workoutData={parsedWorkoutData}
+          onShareWorkout={sessionData ? () => { shareRequestedRef.current = true; } : undefined}
         />
       )}
 
+      {/* Personal Best Modal */}
+      <PersonalBestModal
+        visible={showPersonalBestModal}
+        bests={newPersonalBests}
+        onClose={handlePersonalBestModalClose}
+      />
+
       {/* Achievement Unlock Modal */}
       <AchievementUnlockModal
         visible={showAchievementModal}
@@ -25,6 +25,7 @@ import { useLobbyStore, selectCurrentLobby, selectLobbyMembers, selectAreAllMemb
 import { useReadyCheckStore, selectIsReadyCheckActive, selectReadyCheckResult } from '../../stores/readyCheckStore';
 import { useVotingStore, selectIsVotingActive, selectVotingResult, selectMemberVotes, selectVotingExpiresAt, selectVotingAlternatives } from '../../stores/votingStore';
 import { useConnectionStore, selectConnectionState } from '../../stores/connectionStore';
+import { useFriendsStore } from '../../stores/friendsStore';
 import { useAuth } from '../../contexts/AuthContext';
 import { useLobby } from '../../contexts/LobbyContext';
 import { useReverb } from '../../contexts/ReverbProvider';
@@ -91,6 +92,7 @@ export default function GroupLobbyScreen() {
   // NOTE: connectionStore.isConnected is never updated (no caller sets it to true),
   // so we use isConnected from ReverbProvider which IS correctly maintained.
   const { onlineUsers, refreshGroupSubscriptions, isConnected } = useReverb();
+  const beginJoin = useLobbyStore((state) => state.beginJoin);
   const setLobbyState = useLobbyStore((state) => state.setLobbyState);
   const updateMemberStatus = useLobbyStore((state) => state.updateMemberStatus);
   const addMember = useLobbyStore((state) => state.addMember);
@@ -1101,6 +1103,9 @@ export default function GroupLobbyScreen() {
       return;
     }
 
+    // Enter the lobby state machine (no-op when the store already holds this lobby)
+    beginJoin(sessionId);
+
     // Check if returning from minimized state (Zustand store already has the lobby)
     const existingLobby = useLobbyStore.getState().currentLobby;
     const isReturningFromMinimized = existingLobby &&
@@ -1366,7 +1371,7 @@ export default function GroupLobbyScreen() {
       // Subscribe to lobby channel for events
       console.log('🔌 Calling subscribeToLobby...');
       channelRef.current = reverbService.subscribeToLobby(sessionId, {
-      onLobbyStateChanged: (data: any) => {
+      onLobbyStateChanged: (data) => {
         // ALWAYS update Zustand store even when unmounted (global state, safe to call)
         // This ensures the global listener in _layout.tsx can detect workout starts
         // when the user has minimized the lobby screen
@@ -1402,7 +1407,7 @@ export default function GroupLobbyScreen() {
       },
       // NOTE: Individual events like MemberJoined, MemberLeft, MemberStatusUpdated are kept
       // for system chat messages only. State updates come from LobbyStateChanged above.
-      onMemberJoined: (data: any) => {
+      onMemberJoined: (data) => {
         // Guard against updates during cleanup
         if (isCleaningUpRef.current || !isMountedRef.current) return;
         console.log('👤 [REAL-TIME] Member joined:', data);
@@ -1431,7 +1436,7 @@ export default function GroupLobbyScreen() {
           });
         }
       },
-      onMemberLeft: (data: any) => {
+      onMemberLeft: (data) => {
         // Guard against updates during cleanup
         if (isCleaningUpRef.current || !isMountedRef.current) return;
         console.log('👤 [REAL-TIME] Member left:', data);
@@ -1461,14 +1466,14 @@ export default function GroupLobbyScreen() {
           });
         }
       },
-      onMemberStatusUpdated: (data: any) => {
+      onMemberStatusUpdated: (data) => {
         // Guard against updates during cleanup
         if (isCleaningUpRef.current || !isMountedRef.current) return;
         console.log('✅ [REAL-TIME] Member status updated:', data);
         // State update handled by LobbyStateChanged event
         // This event is kept for potential future use (analytics, etc.)
       },
-      onLobbyMessageSent: (data: any) => {
+      onLobbyMessageSent: (data) => {
         // Guard against updates during cleanup
         if (isCleaningUpRef.current || !isMountedRef.current) return;
         console.log('💬 Message received:', data);
@@ -1477,7 +1482,7 @@ export default function GroupLobbyScreen() {
           addChatMessage(data);
         }
       },
-      onWorkoutStarted: (data: any) => {
+      onWorkoutStarted: (data) => {
         // ALWAYS update Zustand store status to 'in_progress' (even when unmounted)
         // This allows GlobalLobbyIndicator to detect workout start when user minimized lobby
         const currentStoreState = useLobbyStore.getState().currentLobby;
@@ -1573,7 +1578,7 @@ export default function GroupLobbyScreen() {
           },
         });
       },
-      onLobbyDeleted: (data: any) => {
+      onLobbyDeleted: (data) => {
         // CRITICAL: Set deleted flag FIRST to prevent any further initialization or saves
         // This flag is checked in initializeLobby, saveActiveLobbyToStorage, and subscribeToChannels
         isLobbyDeletedRef.current = true;
@@ -1587,7 +1592,7 @@ export default function GroupLobbyScreen() {
           router.back();
         });
       },
-      onMemberKicked: (data: any) => {
+      onMemberKicked: (data) => {
         // Guard against updates during cleanup
         if (isCleaningUpRef.current || !isMountedRef.current) return;
         console.log('⚠️ [REAL-TIME] Member kicked:', data);
@@ -1605,7 +1610,7 @@ export default function GroupLobbyScreen() {
           });
         }
       },
-      onInitiatorRoleTransferred: (data: any) => {
+      onInitiatorRoleTransferred: (data) => {
         // Guard against updates during cleanup
         if (isCleaningUpRef.current || !isMountedRef.current) return;
         console.log('👑 [REAL-TIME] Initiator role transferred:', data);
@@ -1623,7 +1628,7 @@ export default function GroupLobbyScreen() {
         });
       },
       // Ready Check Event Handlers
-      onReadyCheckStarted: (data: any) => {
+      onReadyCheckStarted: (data) => {
         // Guard against cleanup only — NOT isMountedRef.
         // When user minimizes the lobby, the component unmounts but the private-lobby
         // channel stays alive. Ready check events must still reach the Zustand store
@@ -1648,7 +1653,7 @@ export default function GroupLobbyScreen() {
           serverExpiresAt: data.expires_at,
         });
       },
-      onReadyCheckResponse: (data: any) => {
+      onReadyCheckResponse: (data) => {
         // Guard against cleanup only — NOT isMountedRef (see onReadyCheckStarted comment)
         if (isCleaningUpRef.current) return;
         console.log('📝 [REAL-TIME] Ready check response:', data);
@@ -1679,7 +1684,7 @@ export default function GroupLobbyScreen() {
           });
         }
       },
-      onReadyCheckComplete: (data: any) => {
+      onReadyCheckComplete: (data) => {
         // Guard against cleanup only — NOT isMountedRef (see onReadyCheckStarted comment)
         if (isCleaningUpRef.current) return;
         console.log('🏁 [REAL-TIME] Ready check complete:', data);
@@ -1713,7 +1718,7 @@ export default function GroupLobbyScreen() {
           }
         }
       },
-      onReadyCheckCancelled: (data: any) => {
+      onReadyCheckCancelled: (data) => {
         // Guard against cleanup only — NOT isMountedRef (see onReadyCheckStarted comment)
         if (isCleaningUpRef.current) return;
         console.log('❌ [REAL-TIME] Ready check cancelled:', data);
@@ -1725,7 +1730,7 @@ export default function GroupLobbyScreen() {
         setIsReady(false);
       },
       // Voting events
-      onVotingStarted: (data: any) => {
+      onVotingStarted: (data) => {
         // Guard against updates during cleanup
         if (isCleaningUpRef.current || !isMountedRef.current) return;
         console.log('[REAL-TIME] Voting started:', data);
@@ -1745,7 +1750,7 @@ export default function GroupLobbyScreen() {
           expiresAt: data.expires_at,
         });
       },
-      onVoteSubmitted: (data: any) => {
+      onVoteSubmitted: (data) => {
         // Guard against updates during cleanup
         if (isCleaningUpRef.current || !isMountedRef.current) return;
         console.log('[REAL-TIME] Vote submitted:', data);
@@ -1753,7 +1758,7 @@ export default function GroupLobbyScreen() {
         // Update vote in store
         submitVote(data.user_id, data.user_name, data.vote);
       },
-      onVotingComplete: (data: any) => {
+      onVotingComplete: (data) => {
         // Guard against updates during cleanup
         if (isCleaningUpRef.current || !isMountedRef.current) return;
         console.log('[REAL-TIME] Voting complete:', data);
@@ -1781,7 +1786,7 @@ export default function GroupLobbyScreen() {
         }
       },
       // Exercise swap event (during group customization)
-      onExerciseSwapped: (data: any) => {
+      onExerciseSwapped: (data) => {
         // Guard against updates during cleanup
         if (isCleaningUpRef.current || !isMountedRef.current) return;
         console.log('[REAL-TIME] Exercise swapped:', data);
@@ -1817,7 +1822,7 @@ export default function GroupLobbyScreen() {
         }
       },
       // Exercise reorder event (during group customization)
-      onExercisesReordered: (data: any) => {
+      onExercisesReordered: (data) => {
         if (isCleaningUpRef.current || !isMountedRef.current) return;
         console.log('[REAL-TIME] Exercises reordered:', data);
 
@@ -2042,15 +2047,34 @@ export default function GroupLobbyScreen() {
 
     setIsLoadingMembers(true);
     try {
-      const response = await socialService.getGroupMembers(groupId, 1, 50);
+      const friendsStore = useFriendsStore.getState();
+      const [response] = await Promise.all([
+        socialService.getGroupMembers(groupId, 1, 50),
+        // Friends are optional here - the group list still works if this fails
+        friendsStore.hasLoaded ? Promise.resolve() : friendsStore.loadAll().catch(() => {}),
+      ]);
 
       if (response && response.members) {
         // Filter out members who are already in the lobby
         const lobbyMemberIds = new Set(lobbyMembers.map(m => m.user_id));
-        const availableMembers = response.members.filter(
-          (member: any) => !lobbyMemberIds.has(parseInt(member.userId))
-        );
-        setGroupMembers(availableMembers);
+        const friendIds = new Set(useFriendsStore.getState().friends.map(f => String(f.userId)));
+        const availableMembers = response.members
+          .filter((member: any) => !lobbyMemberIds.has(parseInt(member.userId)))
+          .map((member: any) => ({ ...member, isFriend: friendIds.has(String(member.userId)) }));
+
+        // Friends outside this group can be invited too
+        const groupMemberIds = new Set(response.members.map((member: any) => String(member.userId)));
+        const otherFriends = useFriendsStore.getState().friends
+          .filter(f => !groupMemberIds.has(String(f.userId)) && !lobbyMemberIds.has(parseInt(f.userId)))
+          .map(f => ({
+            id: `friend-${f.userId}`,
+            userId: String(f.userId),
+            username: f.username,
+            profilePicture: f.profilePicture,
+            isFriend: true,
+          }));
+
+        setGroupMembers([...availableMembers, ...otherFriends]);
       }
     } catch (error) {
       console.error('❌ Error loading group members:', error);
@@ -3425,7 +3449,7 @@ export default function GroupLobbyScreen() {
                   <Ionicons name="arrow-back" size={24} color={COLORS.SECONDARY[900]} />
                 </TouchableOpacity>
                 <View>
-                  <Text style={styles.inviteModalTitle}>Invite Members</Text>
+                  <Text style={styles.inviteModalTitle}>Invite Members & Friends</Text>
                   <Text style={styles.inviteModalSubtitle}>
                     {selectedMembers.size} selected
                   </Text>
@@ -3460,7 +3484,7 @@ export default function GroupLobbyScreen() {
             ) : groupMembers.length === 0 ? (
               <View style={styles.inviteEmptyContainer}>
                 <Ionicons name="people-outline" size={64} color={COLORS.SECONDARY[300]} />
-                <Text style={styles.inviteEmptyText}>All group members are already in the lobby!</Text>
+                <Text style={styles.inviteEmptyText}>All group members and friends are already in the lobby!</Text>
               </View>
             ) : (
               <ScrollView
@@ -3495,7 +3519,15 @@ export default function GroupLobbyScreen() {
                           />
                         </View>
                         <View style={styles.inviteMemberInfo}>
-                          <Text style={styles.inviteMemberName}>{member.username}</Text>
+                          <View style={styles.inviteMemberNameRow}>
+                            <Text style={styles.inviteMemberName}>{member.username}</Text>
+                            {member.isFriend && (
+                              <View style={styles.inviteFriendBadge}>
+                                <Ionicons name="people" size={10} color={COLORS.PRIMARY[700]} />
+                                <Text style={styles.inviteFriendBadgeText}>Friend</Text>
+                              </View>
+                            )}
+                          </View>
                           {/* Fitness Level */}
                           {member.fitnessLevel && (
                             <Text style={styles.inviteFitnessLevel}>
@@ -4488,6 +4520,25 @@ const styles = StyleSheet.create({
     color: COLORS.SECONDARY[900],
     marginBottom: 2,
   },
+  inviteMemberNameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  inviteFriendBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 3,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 8,
+    backgroundColor: COLORS.PRIMARY[100],
+  },
+  inviteFriendBadgeText: {
+    fontSize: 10,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.PRIMARY[700],
+  },
   inviteFitnessLevel: {
     fontSize: FONT_SIZES.XS,
     fontFamily: FONTS.REGULAR,
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import {
   View,
   Text,
@@ -31,7 +31,20 @@ import { hapticMedium, hapticLight, hapticSuccess } from '../../utils/haptics';
 import { progressionService } from '../../services/microservices/progressionService';
 import { reverbService } from '../../services/reverbService';
 import { agoraService } from '../../services/agoraService';
+import { audioCueService, AudioCue } from '../../services/audioCueService';
+import { voiceCoachService } from '../../services/voiceCoachService';
+import { workoutNotificationScheduler, SessionTransition } from '../../services/workoutNotificationScheduler';
+import { soloSessionCheckpoint } from '../../services/soloSessionCheckpoint';
+import { challengeProgressService } from '../../services/challengeProgressService';
+import { heartRateMonitor } from '../../services/heartRateMonitor';
 import { TabataWorkoutSession } from '../../services/workoutSessionGenerator';
+import {
+  IntervalPhase,
+  IntervalPosition,
+  IntervalTimerEngine,
+  createIntervalConfig,
+  parseIntervalConfig,
+} from '../../services/intervalTimerEngine';
 import { COLORS, FONTS } from '../../constants/colors';
 import { useLobbyStore } from '../../stores/lobbyStore';
 import { useProgressStore } from '../../stores/progressStore';
@@ -41,9 +54,12 @@ import ExerciseDemoModal from '../../components/workout/ExerciseDemoModal';
 import MemberLeftToast from '../../components/workout/MemberLeftToast';
 import MemberDisconnectedToast from '../../components/workout/MemberDisconnectedToast';
 import MemberReconnectedToast from '../../components/workout/MemberReconnectedToast';
+import { HeartRateModal } from '../../components/workout/HeartRateModal';
+import { HeartRateSourceKind } from '../../constants/heartRate';
+import { estimateMaxHeartRate, summarizeHeartRate, HeartRateSummary } from '../../utils/heartRate';
 import { hasExerciseDemo } from '../../constants/exerciseDemos';
 
-type SessionPhase = 'prepare' | 'work' | 'rest' | 'roundRest' | 'complete';
+type SessionPhase = IntervalPhase;
 type SessionStatus = 'ready' | 'running' | 'paused' | 'completed';
 
 interface SessionState {
@@ -55,6 +71,7 @@ interface SessionState {
   timeRemaining: number;
   totalTime: number;
   caloriesBurned: number;
+  segmentIndex: number; // Position in the interval plan (solo workouts only)
 }
 
 // Phase colors — defined outside component so they can be referenced for interpolation
@@ -63,6 +80,7 @@ const PHASE_COLORS: Record<string, string> = {
   work: '#EF4444',
   rest: '#10B981',
   roundRest: '#F59E0B',
+  cooldown: '#06B6D4',
   complete: '#8B5CF6',
   default: '#3B82F6',
 };
@@ -74,7 +92,15 @@ export default function WorkoutSessionScreen() {
   const { refreshAfterWorkout } = useProgressStore();
   const { clearActiveLobbyLocal, clearActiveSession } = useLobby();
   const params = useLocalSearchParams();
-  const { workoutId, type, sessionData, initiatorId, groupId } = params;
+  const { workoutId, type, sessionData, initiatorId, groupId, timerConfig, resumeCheckpoint } = params;
+
+  // Group workouts run on the server's fixed Tabata clock; solo workouts may
+  // pass a custom interval config (Tabata, EMOM, AMRAP or ladder) as a route param.
+  const intervalConfig = useMemo(
+    () => (type === 'group_tabata' ? createIntervalConfig('tabata') : parseIntervalConfig(timerConfig)),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    []
+  );
 
   const [workout, setWorkout] = useState<TabataWorkout | null>(null);
   const [tabataSession, setTabataSession] = useState<TabataWorkoutSession | null>(null);
@@ -84,16 +110,25 @@ export default function WorkoutSessionScreen() {
     currentExercise: 0,
     phase: 'prepare',
     status: 'ready',
-    timeRemaining: 10, // 10 second preparation
+    timeRemaining: intervalConfig.preparationTime,
     totalTime: 0,
     caloriesBurned: 0,
+    segmentIndex: 0,
   });
 
+  // Segment timeline for the loaded workout — drives solo phase transitions
+  const exerciseCount = tabataSession ? tabataSession.exercises.length : (workout?.rounds.length || 1);
+  const timerEngine = useMemo(
+    () => new IntervalTimerEngine(intervalConfig, exerciseCount),
+    [intervalConfig, exerciseCount]
+  );
+  const setsPerExercise = timerEngine.setsPerExercise;
+
   const [sessionStartTime, setSessionStartTime] = useState<Date | null>(null);
   const intervalRef = useRef<NodeJS.Timeout | number | null>(null);
-  const phaseStartTimeRef = useRef<number>(Date.now());
-  const phaseDurationRef = useRef<number>(10); // Default 10 seconds
-  const currentPhaseRef = useRef<SessionPhase>('prepare'); // Track current phase for solo workouts
+  const sessionAnchorRef = useRef<number>(Date.now()); // Wall-clock time at which the solo plan started (shifted on resume)
+  const firstExerciseAnnouncedRef = useRef(false); // Voice coach "Next up" during the initial countdown
+  const announcedPhaseKeyRef = useRef<string | null>(null); // Last position the voice coach saw
   const lastServerTickRef = useRef<number>(Date.now()); // Track last server tick time
   const lastServerTimeRef = useRef<number>(0); // Track last server time_remaining value
   // Server state refs for group workouts - interval timer is the SINGLE writer to React state
@@ -110,6 +145,7 @@ export default function WorkoutSessionScreen() {
   const lastCountdownBeepRef = useRef<number>(-1); // Track last countdown beep to avoid duplicates
   const halfwayPlayedRef = useRef<boolean>(false); // Track if halfway sound played this phase
   const appState = useRef(AppState.currentState);
+  const [isBackgrounded, setIsBackgrounded] = useState(false);
   const [isInitiator, setIsInitiator] = useState(user?.id.toString() === initiatorId);
 
   // Background cross-fade: two color layers, animate the new one from 0→1 opacity
@@ -127,6 +163,11 @@ export default function WorkoutSessionScreen() {
   // Exercise demo modal state
   const [showDemoModal, setShowDemoModal] = useState(false);
 
+  // Heart-rate capture state
+  const [heartRateSource, setHeartRateSource] = useState<HeartRateSourceKind>('manual');
+  const [latestBpm, setLatestBpm] = useState<number | null>(null);
+  const [showHeartRateModal, setShowHeartRateModal] = useState(false);
+
   // Video call state
   const [showVideoCall, setShowVideoCall] = useState(false);
   const [agoraCredentials, setAgoraCredentials] = useState<{
@@ -313,6 +354,56 @@ export default function WorkoutSessionScreen() {
     shouldShowAutoFinish: __DEV__ && sessionState.status === 'running' && (type !== 'group_tabata' || isInitiator)
   });
 
+  // Preload phase-transition cues with the user's sound settings; release audio on exit
+  useEffect(() => {
+    if (!user) return;
+    audioCueService.activate(user.id);
+    voiceCoachService.activate(user.id);
+    return () => {
+      audioCueService.deactivate();
+      voiceCoachService.deactivate();
+    };
+  }, [user?.id]);
+
+  // Heart-rate source and live readings; an unfinished recording is discarded on exit
+  useEffect(() => {
+    if (!user) return;
+    heartRateMonitor.loadSource(user.id).then(setHeartRateSource);
+    const unsubscribe = heartRateMonitor.subscribe((sample) => setLatestBpm(sample.bpm));
+    return () => {
+      unsubscribe();
+      heartRateMonitor.end();
+    };
+  }, [user?.id]);
+
+  // Record from the moment the workout clock starts (group, solo start or checkpoint resume)
+  useEffect(() => {
+    if (sessionStartTime) {
+      heartRateMonitor.begin(sessionStartTime.getTime());
+    }
+  }, [sessionStartTime]);
+
+  // Mark phase/exercise changes so readings can be attributed per exercise
+  useEffect(() => {
+    heartRateMonitor.markSegment(sessionState.phase, sessionState.currentExercise);
+  }, [sessionState.phase, sessionState.currentExercise, sessionStartTime]);
+
+  // Voice coach: announce each new phase once it is committed, not from the timer's
+  // state updaters (React may run those twice). The first countdown is announced by startTimer
+  useEffect(() => {
+    const { phase, segmentIndex, currentExercise, currentSet, timeRemaining, status } = sessionState;
+    const key = `${segmentIndex}:${phase}:${currentExercise}:${currentSet}`;
+    const previousKey = announcedPhaseKeyRef.current;
+    announcedPhaseKeyRef.current = key;
+
+    if (previousKey === null || previousKey === key) return;
+    // Positions restored or caught up while paused are not narrated
+    if (status !== 'running' && phase !== 'complete') return;
+
+    announcePhase(phase, currentExercise, currentSet, timeRemaining);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sessionState.segmentIndex, sessionState.phase, sessionState.currentExercise, sessionState.currentSet]);
+
   useEffect(() => {
     loadWorkout();
 
@@ -437,6 +528,8 @@ export default function WorkoutSessionScreen() {
       if (intervalRef.current) {
         clearInterval(intervalRef.current);
       }
+      // Don't keep talking over a paused/stopped workout
+      voiceCoachService.stop();
     }
 
     return () => {
@@ -446,6 +539,129 @@ export default function WorkoutSessionScreen() {
     };
   }, [sessionState.status]);
 
+  // Lock-screen controls: while backgrounded, mirror the session in an ongoing notification
+  // and schedule an alert for every upcoming phase transition (JS timers may be suspended)
+  useEffect(() => {
+    const isLive = sessionState.status === 'running' || sessionState.status === 'paused';
+    if (!isBackgrounded || !isLive) {
+      workoutNotificationScheduler.clearSessionNotifications();
+      return;
+    }
+
+    const exerciseNames = tabataSession
+      ? tabataSession.exercises.map((ex) => ex.exercise_name)
+      : (workout?.rounds || []).map((round: any) => round.exercise_name);
+    const isPaused = sessionState.status === 'paused';
+
+    workoutNotificationScheduler.showSessionProgress({
+      phase: sessionState.phase,
+      exerciseName: exerciseNames[sessionState.currentExercise] || 'Workout',
+      exerciseNumber: sessionState.currentExercise + 1,
+      totalExercises: exerciseCount,
+      setNumber: sessionState.currentSet + 1,
+      totalSets: setsPerExercise,
+      timeRemaining: Math.ceil(sessionState.timeRemaining),
+      isPaused,
+      canControl: type !== 'group_tabata' || isInitiator,
+    });
+
+    if (isPaused) {
+      workoutNotificationScheduler.cancelSessionTransitions();
+      return;
+    }
+
+    // Group positions come from the server; map them onto the local plan
+    const current = type === 'group_tabata'
+      ? timerEngine.findSegment(sessionState.phase, sessionState.currentExercise, sessionState.currentSet)
+      : timerEngine.getSegment(sessionState.segmentIndex);
+    if (!current) return;
+
+    const transitions: SessionTransition[] = [];
+    let at = Date.now() + sessionState.timeRemaining * 1000;
+    for (let next = timerEngine.getNextSegment(current.index); next; next = timerEngine.getNextSegment(next.index)) {
+      transitions.push({
+        at: new Date(at),
+        phase: next.phase,
+        exerciseName: exerciseNames[next.exerciseIndex] || 'Workout',
+        setNumber: next.setIndex + 1,
+        totalSets: setsPerExercise,
+        duration: next.duration,
+      });
+      at += next.duration * 1000;
+    }
+    workoutNotificationScheduler.scheduleSessionTransitions(transitions);
+  }, [isBackgrounded, sessionState.status, sessionState.segmentIndex, sessionState.phase, sessionState.currentExercise, sessionState.currentSet]);
+
+  // Pause/resume buttons on the lock-screen notification
+  useEffect(() => {
+    return workoutNotificationScheduler.addSessionActionListener((action) => {
+      if (action === 'resume') {
+        resumeSession();
+      } else if (type === 'group_tabata') {
+        pauseSession();
+      } else {
+        // JS timers were suspended in the background, so sessionState is from when the
+        // app left the foreground — catch up to the wall clock before pausing there
+        const position = timerEngine.getPositionAt(Math.floor((Date.now() - sessionAnchorRef.current) / 1000));
+        setSessionState((prev) => {
+          if (prev.status !== 'running') return prev;
+          const current = stateAtPosition(prev, position);
+          return current.status === 'completed' ? prev : { ...current, status: 'paused' };
+        });
+      }
+    });
+  }, [tabataSession, isInitiator]);
+
+  // Never leave session notifications behind when the screen closes
+  useEffect(() => {
+    return () => {
+      workoutNotificationScheduler.clearSessionNotifications();
+    };
+  }, []);
+
+  // Checkpoint solo workouts on every phase change so a killed app can resume or save them
+  useEffect(() => {
+    if (type === 'group_tabata' || !user || sessionState.status === 'ready') return;
+
+    const segment = timerEngine.getSegment(sessionState.segmentIndex);
+    const exercises = tabataSession
+      ? tabataSession.exercises
+      : (workout?.rounds || []);
+
+    soloSessionCheckpoint.save({
+      userId: String(user.id),
+      workoutId: tabataSession ? tabataSession.session_id : String(workoutId),
+      workoutName: tabataSession ? tabataSession.session_name : workout?.workout_name || 'Tabata Workout',
+      sessionData: sessionData as string | undefined,
+      timerConfig: timerConfig as string | undefined,
+      exercises: exercises.map((ex: any) => ({
+        exercise_id: ex.exercise_id,
+        exercise_name: ex.exercise_name,
+        target_muscle_group: ex.target_muscle_group,
+      })),
+      setsPerExercise,
+      segmentIndex: sessionState.segmentIndex,
+      phase: sessionState.phase,
+      currentExercise: sessionState.currentExercise,
+      currentSet: sessionState.currentSet,
+      currentRound: sessionState.currentRound,
+      timeRemaining: sessionState.timeRemaining,
+      caloriesBurned: sessionState.caloriesBurned,
+      elapsedSeconds: segment.startOffset + Math.max(0, segment.duration - sessionState.timeRemaining),
+      startedAt: (sessionStartTime || new Date()).toISOString(),
+      savedAt: new Date().toISOString(),
+    });
+  }, [sessionState.segmentIndex, sessionState.status]);
+
+  // Leaving the screen on purpose (exit, back, finished) ends the workout — nothing to resume
+  useEffect(() => {
+    return () => {
+      if (type !== 'group_tabata' && user) {
+        soloSessionCheckpoint.clear(user.id);
+      }
+    };
+  }, [user?.id]);
+
   // Animate background color on every phase change (prepare→work→rest→complete)
   // Pattern: render the OLD color as base layer, fade the NEW color in on top.
   // Pure opacity animation → useNativeDriver: true → runs on GPU, no JS jank.
@@ -501,7 +717,9 @@ export default function WorkoutSessionScreen() {
         setTabataSession(session);
         setSessionState(prev => ({
           ...prev,
-          totalTime: session.total_duration_minutes * 60, // Convert minutes to seconds
+          totalTime: type === 'group_tabata'
+            ? session.total_duration_minutes * 60 // Convert minutes to seconds
+            : new IntervalTimerEngine(intervalConfig, session.exercises.length).getTotalDuration(),
         }));
         console.log(`✅ Loaded Tabata session with ${session.exercises.length} exercises`);
 
@@ -523,6 +741,9 @@ export default function WorkoutSessionScreen() {
           }
         }
 
+        if (resumeCheckpoint === 'true') {
+          await restoreCheckpoint();
+        }
         return;
       }
 
@@ -537,8 +758,11 @@ export default function WorkoutSessionScreen() {
         setWorkout(workoutData as any);
         setSessionState(prev => ({
           ...prev,
-          totalTime: workoutData.total_duration_minutes * 60,
+          totalTime: new IntervalTimerEngine(intervalConfig, workoutData.rounds?.length || 1).getTotalDuration(),
         }));
+        if (resumeCheckpoint === 'true') {
+          await restoreCheckpoint();
+        }
       } else {
         alert.error('Error', 'Workout not found', () => router.back());
       }
@@ -548,6 +772,37 @@ export default function WorkoutSessionScreen() {
     }
   };
 
+  /**
+   * Continue an interrupted solo workout from its last checkpoint.
+   * Restored paused, so the user picks the moment to carry on.
+   */
+  const restoreCheckpoint = async () => {
+    if (!user) return;
+
+    const checkpoint = await soloSessionCheckpoint.load(user.id);
+    if (!checkpoint) return;
+
+    console.log('♻️ [CHECKPOINT] Resuming interrupted workout at', {
+      exercise: checkpoint.currentExercise,
+      set: checkpoint.currentSet,
+      phase: checkpoint.phase,
+    });
+
+    firstExerciseAnnouncedRef.current = true;
+    setSessionStartTime(new Date(Date.now() - checkpoint.elapsedSeconds * 1000));
+    setSessionState(prev => ({
+      ...prev,
+      segmentIndex: checkpoint.segmentIndex,
+      phase: checkpoint.phase,
+      currentExercise: checkpoint.currentExercise,
+      currentSet: checkpoint.currentSet,
+      currentRound: checkpoint.currentRound,
+      timeRemaining: checkpoint.timeRemaining,
+      caloriesBurned: checkpoint.caloriesBurned,
+      status: checkpoint.phase === 'complete' ? 'completed' : 'paused',
+    }));
+  };
+
   const setupSessionSubscription = () => {
     if (!tabataSession) return;
 
@@ -851,9 +1106,46 @@ export default function WorkoutSessionScreen() {
    * RESEARCH REQUIREMENT: Sound alerts for workout transitions (Chapter 1, line 117)
    * @param type - Type of sound alert to play
    */
-  const playSound = async (type: 'start' | 'rest' | 'complete' | 'next' | 'round' | 'countdown' | 'countdown_go' | 'halfway') => {
-    // Sound effects disabled for now
-    return;
+  const playSound = (type: AudioCue) => {
+    audioCueService.play(type);
+  };
+
+  /**
+   * Voice coach: narrate the work interval that follows the given position
+   * ("Next up: Jump Squats, 20 seconds"). Group positions come from the server,
+   * so they are mapped onto the local plan built from the same config.
+   */
+  const announceUpcomingWork = (phase: SessionPhase, exerciseIndex: number, setIndex: number) => {
+    const segment = timerEngine.findSegment(phase, exerciseIndex, setIndex);
+    const upcoming = segment
+      ? timerEngine.getNextWorkSegment(segment.index)
+      : phase === 'roundRest' ? timerEngine.findSegment('work', exerciseIndex + 1, 0) : null;
+    if (!upcoming) return;
+
+    const exerciseName = tabataSession
+      ? tabataSession.exercises[upcoming.exerciseIndex]?.exercise_name
+      : workout?.rounds[upcoming.exerciseIndex]?.exercise_name;
+    if (!exerciseName) return;
+
+    voiceCoachService.announceNextUp(exerciseName, upcoming.duration);
+  };
+
+  /**
+   * Voice coach announcements when a new phase begins (solo and group)
+   */
+  const announcePhase = (phase: SessionPhase, exerciseIndex: number, setIndex: number, duration: number) => {
+    switch (phase) {
+      case 'prepare':
+      case 'roundRest':
+        announceUpcomingWork(phase, exerciseIndex, setIndex);
+        break;
+      case 'rest':
+        voiceCoachService.announceRest(duration);
+        break;
+      case 'complete':
+        voiceCoachService.announceComplete();
+        break;
+    }
   };
 
   const handleAppStateChange = (nextAppState: AppStateStatus) => {
@@ -880,6 +1172,7 @@ export default function WorkoutSessionScreen() {
       }
     }
     appState.current = nextAppState;
+    setIsBackgrounded(nextAppState === 'background');
   };
 
   /**
@@ -986,8 +1279,8 @@ export default function WorkoutSessionScreen() {
         const accurateCaloriesBurned = Math.max(1, Math.ceil(calculatedCalories));
 
         const totalExercises = tabataSession ? tabataSession.exercises.length : (workout?.rounds.length || 1);
-        const totalSets = totalExercises * 8;
-        const completedSets = sessionState.currentExercise * 8 + sessionState.currentSet;
+        const totalSets = totalExercises * setsPerExercise;
+        const completedSets = sessionState.currentExercise * setsPerExercise + sessionState.currentSet;
         const actualCompletionPercentage = Math.round((completedSets / totalSets) * 100);
 
         if (completedSets > 0) {
@@ -1080,23 +1373,19 @@ export default function WorkoutSessionScreen() {
       intervalRef.current = null;
     }
 
-    // Record phase start time for drift correction (solo workouts)
-    phaseStartTimeRef.current = Date.now();
-
-    // Set initial phase duration based on current phase (for solo workouts)
-    const getCurrentPhaseDuration = () => {
-      switch (sessionState.phase) {
-        case 'prepare': return 10;
-        case 'work': return 20;
-        case 'rest': return 10;
-        case 'roundRest': return 60;
-        default: return 10;
-      }
-    };
-    phaseDurationRef.current = getCurrentPhaseDuration();
-
-    // Initialize current phase ref for solo workouts
-    currentPhaseRef.current = sessionState.phase;
+    // Continue the current segment from where it stopped (start or resume after pause).
+    // Solo position is derived from this wall-clock anchor on every tick, so time spent
+    // backgrounded or locked (when JS timers are suspended) is caught up, not lost.
+    const currentSegment = timerEngine.getSegment(sessionState.segmentIndex);
+    const remainingInSegment = sessionState.timeRemaining > 0 ? sessionState.timeRemaining : currentSegment.duration;
+    const elapsedInPlan = currentSegment.startOffset + (currentSegment.duration - remainingInSegment);
+    sessionAnchorRef.current = Date.now() - elapsedInPlan * 1000;
+
+    // Announce the first exercise once, when the countdown starts (not again on resume)
+    if (sessionState.phase === 'prepare' && !firstExerciseAnnouncedRef.current) {
+      firstExerciseAnnouncedRef.current = true;
+      announcePhase('prepare', sessionState.currentExercise, sessionState.currentSet, currentSegment.duration);
+    }
 
     // For group workouts, initialize server refs from current state
     // so interpolation works correctly before the first server tick arrives
@@ -1200,56 +1489,32 @@ export default function WorkoutSessionScreen() {
             caloriesBurned: srv.calories > 0 ? srv.calories : prev.caloriesBurned + (timeChanged ? caloriesPerSecond : 0),
           };
         } else {
-          // SOLO WORKOUTS: Client is authoritative, use phase timer
-
-          // CRITICAL FIX: Detect if phase changed (from handlePhaseComplete)
-          // If phase changed, reset timer refs to prevent rapid transitions
-          if (prev.phase !== currentPhaseRef.current) {
-            console.log('🔄 [PHASE CHANGE DETECTED]', {
-              from: currentPhaseRef.current,
-              to: prev.phase,
-              resetingTimer: true
-            });
-
-            // Update current phase ref
-            currentPhaseRef.current = prev.phase;
-
-            // Reset phase start time to NOW
-            phaseStartTimeRef.current = now;
-
-            // Update phase duration for new phase
-            const newPhaseDuration =
-              prev.phase === 'prepare' ? 10 :
-              prev.phase === 'work' ? 20 :
-              prev.phase === 'rest' ? 10 :
-              prev.phase === 'roundRest' ? 60 :
-              10;
-            phaseDurationRef.current = newPhaseDuration;
-
-            // Use the timeRemaining from the new phase state
-            newTimeRemaining = prev.timeRemaining;
-          } else {
-            // Normal timer countdown - phase hasn't changed
-            const elapsedMs = now - phaseStartTimeRef.current;
-            const elapsedSeconds = Math.floor(elapsedMs / 1000);
-            newTimeRemaining = Math.max(0, phaseDurationRef.current - elapsedSeconds);
-
-            if (newTimeRemaining <= 0) {
-              // Phase complete - handle transition (solo workouts only)
-              return handlePhaseComplete(prev);
-            }
+          // SOLO WORKOUTS: Client is authoritative, position computed from the wall clock
+          const elapsedSeconds = Math.floor((now - sessionAnchorRef.current) / 1000);
+          const position = timerEngine.getPositionAt(elapsedSeconds);
+
+          // Compare segments, not phases — EMOM runs back-to-back work segments
+          if (position.isComplete || position.segment.index !== prev.segmentIndex) {
+            return advanceToPosition(prev, position);
           }
+
+          newTimeRemaining = position.timeRemaining;
         }
 
         // SOLO WORKOUT SOUNDS (group sounds handled above with phase transitions)
-        // Play halfway sound at 10 seconds during work phase (20 sec work / 2 = 10)
-        if (activePhase === 'work' && Math.ceil(newTimeRemaining) === 10 && !halfwayPlayedRef.current) {
+        // Play halfway sound at the midpoint of the work phase
+        const workDuration = type === 'group_tabata'
+          ? intervalConfig.workDuration
+          : timerEngine.getSegment(prev.segmentIndex).duration;
+        const halfwayMark = Math.ceil(workDuration / 2);
+        if (activePhase === 'work' && Math.ceil(newTimeRemaining) === halfwayMark && !halfwayPlayedRef.current) {
           halfwayPlayedRef.current = true;
           playSound('halfway');
+          voiceCoachService.announceHalfway();
         }
 
         // Reset halfway ref when starting new phase
-        if (newTimeRemaining > 15) {
+        if (newTimeRemaining > halfwayMark) {
           halfwayPlayedRef.current = false;
         }
 
@@ -1258,6 +1523,7 @@ export default function WorkoutSessionScreen() {
           const countdownSecond = Math.ceil(newTimeRemaining);
           if (countdownSecond !== lastCountdownBeepRef.current && countdownSecond > 0) {
             lastCountdownBeepRef.current = countdownSecond;
+            voiceCoachService.announceCountdown(countdownSecond);
             if (countdownSecond === 1) {
               playSound('countdown_go'); // "GO!" sound at 1 second
             } else {
@@ -1283,76 +1549,70 @@ export default function WorkoutSessionScreen() {
     }, 100); // Update every 100ms for smooth display
   };
 
-  const handlePhaseComplete = (currentState: SessionState): SessionState => {
-    const { phase, currentRound, currentSet, currentExercise } = currentState;
+  /**
+   * Move a solo session to the segment the wall clock says it is in.
+   * Usually the next segment; after the app was suspended it may skip several,
+   * in which case only the cues for the segment we land in are played.
+   */
+  const advanceToPosition = (currentState: SessionState, position: IntervalPosition): SessionState => {
+    const next = position.segment;
 
-    switch (phase) {
-      case 'prepare':
-        playSound('start');
-        return {
-          ...currentState,
-          phase: 'work',
-          timeRemaining: 20, // 20 seconds work
-        };
+    if (position.isComplete || next.phase === 'complete') {
+      // Workout complete - play completion sound
+      playSound('complete');
+      return stateAtPosition(currentState, position);
+    }
 
+    switch (next.phase) {
       case 'work':
-        if (currentSet >= 7) { // 8 sets completed (0-7)
-          // Determine total exercises (new Tabata session or old workout format)
-          const totalExercises = tabataSession ? tabataSession.exercises.length : (workout?.rounds.length || 1);
-
-          if (currentExercise >= totalExercises - 1) {
-            // Workout complete - play completion sound
-            playSound('complete');
-            return {
-              ...currentState,
-              phase: 'complete',
-              status: 'completed',
-              timeRemaining: 0,
-            };
-          } else {
-            // Round complete (8 sets done) - play round complete sound
-            playSound('round');
-            // Move to next exercise with round rest (60 seconds between exercises)
-            return {
-              ...currentState,
-              phase: 'roundRest',
-              timeRemaining: 60, // 1 minute rest between exercises (Tabata standard)
-              currentExercise: currentExercise + 1,
-              currentSet: 0,
-            };
-          }
-        } else {
-          // Regular rest between sets - play rest sound
-          playSound('rest');
-          return {
-            ...currentState,
-            phase: 'rest',
-            timeRemaining: 10, // 10 seconds rest
-          };
-        }
-
+        // "Next exercise" after a break, otherwise a regular work start
+        playSound(timerEngine.getSegment(next.index - 1).phase === 'roundRest' ? 'next' : 'start');
+        break;
       case 'rest':
-        playSound('start');
-        return {
-          ...currentState,
-          phase: 'work',
-          timeRemaining: 20,
-          currentSet: currentSet + 1,
-        };
-
+        playSound('rest');
+        break;
       case 'roundRest':
-        // Play "next exercise" sound to indicate new exercise starting
-        playSound('next');
-        return {
-          ...currentState,
-          phase: 'work',
-          timeRemaining: 20,
-          currentRound: currentRound + 1,
-        };
+      case 'cooldown':
+        // All sets of the exercise done - play round complete sound
+        playSound('round');
+        break;
+    }
 
-      default:
-        return currentState;
+    return stateAtPosition(currentState, position);
+  };
+
+  /**
+   * Solo session state at a plan position, without any cues
+   */
+  const stateAtPosition = (currentState: SessionState, position: IntervalPosition): SessionState => {
+    const { currentRound, segmentIndex } = currentState;
+    const next = position.segment;
+
+    // Breaks between exercises that were left on the way
+    const breaksPassed = timerEngine.plan.filter(
+      (s) => s.phase === 'roundRest' && s.index >= segmentIndex && s.index < next.index
+    ).length;
+
+    if (position.isComplete || next.phase === 'complete') {
+      return {
+        ...currentState,
+        phase: 'complete',
+        status: 'completed',
+        timeRemaining: 0,
+        segmentIndex: next.index,
+        currentRound: currentRound + breaksPassed,
+      };
     }
+
+    return {
+      ...currentState,
+      phase: next.phase,
+      timeRemaining: position.timeRemaining,
+      segmentIndex: next.index,
+      currentExercise: next.exerciseIndex,
+      currentSet: next.setIndex,
+      currentRound: currentRound + breaksPassed,
+    };
   };
 
   /**
@@ -1535,8 +1795,8 @@ export default function WorkoutSessionScreen() {
 
         // Calculate actual completion percentage based on exercises and sets completed
         const totalExercises = tabataSession ? tabataSession.exercises.length : (workout?.rounds.length || 1);
-        const totalSets = totalExercises * 8; // 8 sets per exercise in Tabata
-        const completedSets = sessionState.currentExercise * 8 + sessionState.currentSet;
+        const totalSets = totalExercises * setsPerExercise;
+        const completedSets = sessionState.currentExercise * setsPerExercise + sessionState.currentSet;
         const actualCompletionPercentage = Math.round((completedSets / totalSets) * 100);
 
         console.log('❌ [EXIT] Partial session stats:', {
@@ -1578,7 +1838,7 @@ export default function WorkoutSessionScreen() {
           completed: false,
           completionPercentage: actualCompletionPercentage, // Pass actual completion percentage
           exercises: allExercises,
-          notes: `Session ended early - ${tabataSession ? `${sessionState.currentExercise + 1}/${tabataSession.exercises.length} exercises, set ${sessionState.currentSet + 1}/8` : 'Partial workout'} (${actualCompletionPercentage}% complete, ${actualDurationMinutes}min)`
+          notes: `Session ended early - ${tabataSession ? `${sessionState.currentExercise + 1}/${tabataSession.exercises.length} exercises, set ${sessionState.currentSet + 1}/${setsPerExercise}` : 'Partial workout'} (${actualCompletionPercentage}% complete, ${actualDurationMinutes}min)`
         });
         } // end else (completedSets > 0)
       }
@@ -1627,6 +1887,38 @@ export default function WorkoutSessionScreen() {
    *
    * IMPORTANT FOR ML: Partial ratings still feed into collaborative filtering!
    */
+  // Stop heart-rate capture, pull in the watch export when that is the source, and
+  // upload the samples with the saved session. Returns the summary for the results screen.
+  const finishHeartRateCapture = async (
+    databaseSessionId: number | string | undefined,
+    pendingSessionKey: string
+  ): Promise<HeartRateSummary | null> => {
+    const recording = await heartRateMonitor.end();
+    if (!recording || !user) return null;
+
+    if (recording.source === 'file') {
+      try {
+        await heartRateMonitor.importFile(recording);
+      } catch (error) {
+        alert.warning('Heart Rate Import', (error as Error).message);
+      }
+    }
+
+    const maxHeartRate = estimateMaxHeartRate(user.dateOfBirth);
+    if (databaseSessionId || pendingSessionKey) {
+      heartRateMonitor
+        .uploadRecording(String(databaseSessionId ?? ''), recording, maxHeartRate, pendingSessionKey || undefined)
+        .catch((error) => console.warn('⚠️ [HEART RATE] Upload failed:', error));
+    } else if (recording.samples.length > 0) {
+      console.warn('⚠️ [HEART RATE] No database session_id - samples not uploaded');
+    }
+
+    const exerciseNames = tabataSession
+      ? tabataSession.exercises.map((ex: any) => ex.exercise_name)
+      : (workout?.rounds || []).map((round) => round.exercise_name);
+    return summarizeHeartRate(recording.samples, recording.timeline, maxHeartRate, exerciseNames, recording.endTime);
+  };
+
   const exitAndRate = async () => {
     console.log('📊 [EXIT & RATE] Starting exit with rating flow...');
 
@@ -1651,8 +1943,8 @@ export default function WorkoutSessionScreen() {
 
       // Calculate completion percentage based on exercises and sets completed
       const totalExercises = tabataSession ? tabataSession.exercises.length : (workout?.rounds.length || 1);
-      const totalSets = totalExercises * 8;
-      const completedSets = sessionState.currentExercise * 8 + sessionState.currentSet;
+      const totalSets = totalExercises * setsPerExercise;
+      const completedSets = sessionState.currentExercise * setsPerExercise + sessionState.currentSet;
       const actualCompletionPercentage = Math.round((completedSets / totalSets) * 100);
 
       // IMPORTANT: Only count fully completed exercises (all 8 sets done)
@@ -1711,10 +2003,16 @@ export default function WorkoutSessionScreen() {
         exercises: allExercises,
         notes: `Partial workout - ${completedExerciseCount}/${totalExercises} exercises completed (${actualCompletionPercentage}% complete, ${actualDurationMinutes}min)`
       });
+      soloSessionCheckpoint.clear(user.id);
 
       const databaseSessionId = savedSession.session_id;
       console.log('✅ [EXIT & RATE] Partial session saved:', { databaseSessionId });
 
+      const heartRateSummary = await finishHeartRateCapture(
+        databaseSessionId,
+        savedSession.pendingSync ? savedSession.id : ''
+      );
+
       // STEP 3: Fetch AFTER stats for progress modal
       console.log('📊 [EXIT & RATE] Fetching progression data AFTER saving...');
       await new Promise(resolve => setTimeout(resolve, 500));
@@ -1774,6 +2072,7 @@ export default function WorkoutSessionScreen() {
         pathname: '/workout/exercise-rating',
         params: {
           sessionId: String(databaseSessionId),
+          pendingSessionKey: savedSession.pendingSync ? savedSession.id : '',
           workoutId: workoutId ? String(workoutId) : '',
           exercises: JSON.stringify(completedExercises),
           beforeStats: JSON.stringify(beforeStats),
@@ -1782,6 +2081,7 @@ export default function WorkoutSessionScreen() {
             duration: actualDurationMinutes,
             calories: accurateCaloriesBurned,
             isPartial: true, // Flag for UI to know this is partial
+            heartRate: heartRateSummary,
           }),
         },
       });
@@ -1891,6 +2191,7 @@ export default function WorkoutSessionScreen() {
           completed: true,
         })) || [],
       });
+      soloSessionCheckpoint.clear(user.id);
 
       // CRITICAL: Capture the database session_id for rating submissions
       const databaseSessionId = savedSession.session_id;
@@ -1900,10 +2201,30 @@ export default function WorkoutSessionScreen() {
         workoutId: sessionId,
       });
 
-      if (!databaseSessionId) {
+      if (savedSession.pendingSync) {
+        console.log('📥 [COMPLETE] Offline - session queued for sync:', savedSession.id);
+      } else if (!databaseSessionId) {
         console.error('⚠️ [COMPLETE] Warning: No database session_id received from backend!');
       }
 
+      const heartRateSummary = await finishHeartRateCapture(
+        databaseSessionId,
+        savedSession.pendingSync ? savedSession.id : ''
+      );
+
+      // Feed the session into joined challenges (non-blocking)
+      challengeProgressService.recordCompletedSession({
+        sessionKey: savedSession.pendingSync ? savedSession.id : String(databaseSessionId ?? savedSession.id),
+        durationMinutes: finalDurationMinutes,
+        caloriesBurned: finalCaloriesBurned,
+        exerciseCount: tabataSession?.exercises?.length || workout?.rounds.length || 0,
+        completedAt: new Date(),
+      }).catch((error) => console.warn('⚠️ [COMPLETE] Challenge progress update failed:', error));
+
+      // Today's reminder and streak nudge are no longer needed (non-blocking)
+      workoutNotificationScheduler.refreshSmartReminders()
+        .catch((error) => console.warn('⚠️ [COMPLETE] Reminder refresh failed:', error));
+
       // STEP 4: Fetch AFTER stats
       console.log('📊 [COMPLETE] Fetching progression data AFTER saving...');
       // Small delay to let backend process the new workout
@@ -1947,6 +2268,7 @@ export default function WorkoutSessionScreen() {
         pathname: '/workout/exercise-rating',
         params: {
           sessionId: String(databaseSessionId), // CRITICAL: Use database session_id, not workout identifier
+          pendingSessionKey: savedSession.pendingSync ? savedSession.id : '', // Session queued offline — ratings wait for it
           workoutId: workoutId ? String(workoutId) : '',
           exercises: JSON.stringify(exercisesToRate),
           beforeStats: JSON.stringify(beforeStats),
@@ -1954,7 +2276,9 @@ export default function WorkoutSessionScreen() {
           workoutData: JSON.stringify({
             duration: finalDurationMinutes,
             calories: finalCaloriesBurned,
+            heartRate: heartRateSummary,
           }),
+          sessionData: tabataSession ? JSON.stringify(tabataSession) : '', // Lets the user publish the finished workout as a template
         },
       });
 
@@ -2098,6 +2422,7 @@ export default function WorkoutSessionScreen() {
       case 'work': return '#EF4444';
       case 'rest': return '#10B981';
       case 'roundRest': return '#F59E0B';
+      case 'cooldown': return '#06B6D4';
       case 'complete': return '#8B5CF6';
       default: return COLORS.PRIMARY[600];
     }
@@ -2109,11 +2434,20 @@ export default function WorkoutSessionScreen() {
       case 'work': return 'WORK';
       case 'rest': return 'REST';
       case 'roundRest': return 'ROUND BREAK';
+      case 'cooldown': return 'COOL DOWN';
       case 'complete': return 'COMPLETE';
       default: return '';
     }
   };
 
+  const getCurrentPhaseDuration = () => {
+    // Group phases come from the server, so locate the matching segment in the plan
+    const segment = type === 'group_tabata'
+      ? timerEngine.findSegment(sessionState.phase, sessionState.currentExercise, sessionState.currentSet)
+      : timerEngine.getSegment(sessionState.segmentIndex);
+    return Math.max(1, segment?.duration ?? intervalConfig.workDuration);
+  };
+
   const getCurrentExercise = () => {
     if (tabataSession) {
       return tabataSession.exercises[sessionState.currentExercise];
@@ -2195,7 +2529,7 @@ export default function WorkoutSessionScreen() {
           <View style={styles.progressHeader}>
             <Text style={styles.progressTitle}>Progress</Text>
             <Text style={styles.progressPercentage}>
-              {Math.round(((sessionState.currentExercise * 8 + sessionState.currentSet) / (getTotalExercises() * 8)) * 100)}%
+              {Math.round(((sessionState.currentExercise * setsPerExercise + sessionState.currentSet) / (getTotalExercises() * setsPerExercise)) * 100)}%
             </Text>
           </View>
           <View style={styles.progressBar}>
@@ -2203,13 +2537,13 @@ export default function WorkoutSessionScreen() {
               style={[
                 styles.progressFill,
                 {
-                  width: `${((sessionState.currentExercise * 8 + sessionState.currentSet) / (getTotalExercises() * 8)) * 100}%`
+                  width: `${((sessionState.currentExercise * setsPerExercise + sessionState.currentSet) / (getTotalExercises() * setsPerExercise)) * 100}%`
                 }
               ]}
             />
           </View>
           <Text style={styles.progressText}>
-            Exercise {sessionState.currentExercise + 1} of {getTotalExercises()} • Set {sessionState.currentSet + 1} of 8
+            Exercise {sessionState.currentExercise + 1} of {getTotalExercises()} • Set {sessionState.currentSet + 1} of {setsPerExercise}
           </Text>
         </View>
 
@@ -2231,12 +2565,7 @@ export default function WorkoutSessionScreen() {
             {/* Progress Dots Ring - Smooth filling animation */}
             <View style={styles.progressDotsContainer}>
               {Array.from({ length: 60 }).map((_, index) => {
-                const totalDuration =
-                  sessionState.phase === 'work' ? 20 :
-                  sessionState.phase === 'rest' ? 10 :
-                  sessionState.phase === 'roundRest' ? 60 :
-                  sessionState.phase === 'prepare' ? 10 :
-                  10;
+                const totalDuration = getCurrentPhaseDuration();
 
                 const progress = (1 - sessionState.timeRemaining / totalDuration) * 60;
                 const isActive = index < progress;
@@ -2336,6 +2665,15 @@ export default function WorkoutSessionScreen() {
             </Text>
             <Text style={styles.statLabel}>Time Elapsed</Text>
           </View>
+          <TouchableOpacity style={styles.statCard} onPress={() => setShowHeartRateModal(true)} activeOpacity={0.8}>
+            <View style={styles.statIconContainer}>
+              <Ionicons name="heart" size={20} color="white" />
+            </View>
+            <Text style={styles.statValue}>{latestBpm ?? '--'}</Text>
+            <Text style={styles.statLabel}>
+              {heartRateSource === 'manual' && sessionState.phase !== 'work' ? 'Tap to Check Pulse' : 'Heart Rate'}
+            </Text>
+          </TouchableOpacity>
         </View>
 
         {/* Controls */}
@@ -2477,6 +2815,17 @@ export default function WorkoutSessionScreen() {
         onClose={() => setShowDemoModal(false)}
       />
 
+      {user && (
+        <HeartRateModal
+          visible={showHeartRateModal}
+          userId={user.id}
+          source={heartRateSource}
+          latestBpm={latestBpm}
+          onClose={() => setShowHeartRateModal(false)}
+          onSourceChange={setHeartRateSource}
+        />
+      )}
+
       {/* Floating Video Call - Single Animated.View to prevent unmount on mode switch */}
       {showVideoCall && agoraCredentials && (
         <Animated.View
@@ -7,9 +7,12 @@ import {
   Animated,
   Dimensions,
   TouchableOpacity,
+  ScrollView,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { COLORS, FONTS, FONT_SIZES } from '../constants/colors';
+import { HeartRateSummaryCard } from './workout/HeartRateSummaryCard';
+import type { HeartRateSummary } from '../utils/heartRate';
 
 const { width } = Dimensions.get('window');
 
@@ -31,7 +34,9 @@ interface ProgressUpdateModalProps {
   workoutData: {
     duration: number;
     calories: number;
+    heartRate?: HeartRateSummary | null; // Present when heart rate was recorded during the session
   };
+  onShareWorkout?: () => void; // Shown as a secondary action when the finished workout can be published
 }
 
 export default function ProgressUpdateModal({
@@ -40,6 +45,7 @@ export default function ProgressUpdateModal({
   beforeStats,
   afterStats,
   workoutData,
+  onShareWorkout,
 }: ProgressUpdateModalProps) {
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const slideAnim = useRef(new Animated.Value(50)).current;
@@ -140,6 +146,11 @@ export default function ProgressUpdateModal({
     });
   };
 
+  const handleShare = () => {
+    onShareWorkout?.();
+    handleClose();
+  };
+
   const formatNumber = (animatedValue: Animated.Value) => {
     return animatedValue.interpolate({
       inputRange: [0, 100000],
@@ -176,6 +187,7 @@ export default function ProgressUpdateModal({
             <Text style={styles.subtitle}>Amazing work! Here's your progress update</Text>
           </View>
 
+          <ScrollView style={styles.scrollArea} showsVerticalScrollIndicator={false}>
           {/* Workout Summary */}
           <View style={styles.workoutSummary}>
             <View style={styles.summaryItem}>
@@ -191,6 +203,9 @@ export default function ProgressUpdateModal({
             </View>
           </View>
 
+          {/* Heart Rate */}
+          {workoutData.heartRate && <HeartRateSummaryCard summary={workoutData.heartRate} />}
+
           {/* Stats Comparison */}
           <View style={styles.statsSection}>
             <Text style={styles.statsSectionTitle}>Your Progress</Text>
@@ -256,12 +271,20 @@ export default function ProgressUpdateModal({
             scoreProgressAnim={scoreProgressAnim}
             beforeProgress={beforeStats.scoreProgress}
           />
+          </ScrollView>
 
           {/* Close Button */}
           <TouchableOpacity style={styles.closeButton} onPress={handleClose}>
             <Text style={styles.closeButtonText}>Continue</Text>
             <Ionicons name="arrow-forward" size={20} color="white" />
           </TouchableOpacity>
+
+          {onShareWorkout && (
+            <TouchableOpacity style={styles.shareButton} onPress={handleShare}>
+              <Ionicons name="share-social-outline" size={18} color={COLORS.PRIMARY[600]} />
+              <Text style={styles.shareButtonText}>Share as Template</Text>
+            </TouchableOpacity>
+          )}
         </Animated.View>
       </Animated.View>
     </Modal>
@@ -368,6 +391,9 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 12,
   },
+  scrollArea: {
+    flexShrink: 1,
+  },
   celebrationIcon: {
     width: 56,
     height: 56,
@@ -529,4 +555,18 @@ const styles = StyleSheet.create({
     fontFamily: FONTS.BOLD,
     color: COLORS.NEUTRAL.WHITE,
   },
+  shareButton: {
+    flexDirection: 'row',
+    borderRadius: 12,
+    paddingVertical: 12,
+    marginTop: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+  },
+  shareButtonText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.PRIMARY[600],
+  },
 });
@@ -4,6 +4,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
 import { Input } from '../ui/Input';
 import { Button } from '../ui/Button';
+import { TwoFactorForm } from './TwoFactorForm';
 import { useAuth } from '../../contexts/AuthContext';
 import { useAlert } from '../../contexts/AlertContext';
 import { authService } from '../../services/microservices/authService';
@@ -32,7 +33,7 @@ export const LoginForm: React.FC<LoginFormProps> = ({
   const [isLoading, setIsLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
 
-  const { login, user } = useAuth();
+  const { login, twoFactorChallenge } = useAuth();
   const alert = useAlert();
   const submittingRef = useRef(false);
 
@@ -61,6 +62,24 @@ export const LoginForm: React.FC<LoginFormProps> = ({
     return isValid;
   };
 
+  const navigateAfterLogin = () => {
+    console.log('🔑 Login successful, triggering navigation...');
+
+    // Small delay to ensure state updates propagate
+    setTimeout(async () => {
+      // Get fresh user data to check role and onboarding status
+      const currentUser = await authService.getCurrentUser();
+      console.log('🔑 User logged in with role:', currentUser?.role);
+
+      // Route directly to avoid redundant loading screen
+      if (!currentUser?.onboardingCompleted) {
+        router.replace('/(onboarding)/welcome');
+      } else {
+        router.replace('/(tabs)');
+      }
+    }, 200);
+  };
+
   const handleLogin = async () => {
     if (submittingRef.current) return;
     if (!validateForm()) return;
@@ -69,23 +88,10 @@ export const LoginForm: React.FC<LoginFormProps> = ({
     submittingRef.current = true;
     setIsLoading(true);
     try {
+      // false means a second factor is needed — the 2FA step renders from twoFactorChallenge
       const success = await login(email, password);
       if (success) {
-        console.log('🔑 Login successful, triggering navigation...');
-
-        // Small delay to ensure state updates propagate
-        setTimeout(async () => {
-          // Get fresh user data to check role and onboarding status
-          const currentUser = await authService.getCurrentUser();
-          console.log('🔑 User logged in with role:', currentUser?.role);
-
-          // Route directly to avoid redundant loading screen
-          if (!currentUser?.onboardingCompleted) {
-            router.replace('/(onboarding)/welcome');
-          } else {
-            router.replace('/(tabs)');
-          }
-        }, 200);
+        navigateAfterLogin();
       }
     } catch (error: any) {
       const isNetworkError = !error.response && (
@@ -118,6 +124,10 @@ export const LoginForm: React.FC<LoginFormProps> = ({
     }
   };
 
+  if (twoFactorChallenge) {
+    return <TwoFactorForm onVerified={navigateAfterLogin} style={style} />;
+  }
+
   return (
     <View style={style}>
       {/* Title and Subtitle */}
@@ -0,0 +1,196 @@
+import React, { useState, useRef } from 'react';
+import { View, Text, ViewStyle, TouchableOpacity, Keyboard } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Input } from '../ui/Input';
+import { Button } from '../ui/Button';
+import { VerificationCodeInput, VerificationCodeInputRef } from './VerificationCodeInput';
+import { useAuth } from '../../contexts/AuthContext';
+import { useAlert } from '../../contexts/AlertContext';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+
+interface TwoFactorFormProps {
+  onVerified: () => void;
+  style?: ViewStyle;
+}
+
+/**
+ * Second login step for accounts with two-factor auth: a 6-digit authenticator
+ * code, or one of the account's backup codes
+ */
+export const TwoFactorForm: React.FC<TwoFactorFormProps> = ({ onVerified, style }) => {
+  const [code, setCode] = useState('');
+  const [backupCode, setBackupCode] = useState('');
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const { verifyTwoFactorLogin, cancelTwoFactorLogin } = useAuth();
+  const alert = useAlert();
+  const codeInputRef = useRef<VerificationCodeInputRef>(null);
+  const submittingRef = useRef(false);
+
+  const handleVerify = async (value: string = useBackupCode ? backupCode : code) => {
+    if (submittingRef.current) return;
+
+    const trimmed = value.trim();
+    if (useBackupCode ? trimmed.length === 0 : trimmed.length !== 6) {
+      setError(useBackupCode ? 'Enter one of your backup codes' : 'Enter the 6-digit code from your authenticator app');
+      return;
+    }
+
+    Keyboard.dismiss();
+    submittingRef.current = true;
+    setIsLoading(true);
+    setError('');
+    try {
+      await verifyTwoFactorLogin(trimmed, useBackupCode);
+      onVerified();
+    } catch (error: any) {
+      const message = error.message?.includes('expired')
+        ? error.message
+        : useBackupCode
+          ? 'That backup code is invalid or has already been used.'
+          : 'That code is incorrect. Codes change every 30 seconds — try the current one.';
+      setError(message);
+      if (!useBackupCode) codeInputRef.current?.clear();
+      if (error.message?.includes('expired')) {
+        alert.warning('Sign-in Expired', error.message);
+        cancelTwoFactorLogin();
+      }
+    } finally {
+      setIsLoading(false);
+      submittingRef.current = false;
+    }
+  };
+
+  const toggleMode = () => {
+    setUseBackupCode(!useBackupCode);
+    setError('');
+    setCode('');
+    setBackupCode('');
+  };
+
+  return (
+    <View style={style}>
+      <View style={styles.headerSection}>
+        <View style={styles.iconCircle}>
+          <Ionicons name="shield-checkmark" size={32} color="#0091FF" />
+        </View>
+        <Text style={styles.title}>Two-Factor Verification</Text>
+        <Text style={styles.subtitle}>
+          {useBackupCode
+            ? 'Enter one of the backup codes you saved when you turned on two-factor authentication.'
+            : 'Enter the 6-digit code from your authenticator app.'}
+        </Text>
+      </View>
+
+      {useBackupCode ? (
+        <Input
+          label="Backup Code"
+          placeholder="e.g. 4F7K-92QX"
+          value={backupCode}
+          onChangeText={(text) => {
+            setBackupCode(text);
+            setError('');
+          }}
+          error={error}
+          autoCapitalize="characters"
+          leftIcon={<Ionicons name="key-outline" size={20} color={COLORS.SECONDARY[400]} />}
+          style={styles.inputMargin}
+        />
+      ) : (
+        <View style={styles.inputMargin}>
+          <VerificationCodeInput
+            ref={codeInputRef}
+            value={code}
+            onChangeText={(text) => {
+              setCode(text);
+              setError('');
+            }}
+            onComplete={(value) => handleVerify(value)}
+            error={error}
+            disabled={isLoading}
+          />
+        </View>
+      )}
+
+      <View style={styles.submitContainer}>
+        <Button
+          title={isLoading ? 'Verifying...' : 'Verify'}
+          onPress={() => handleVerify()}
+          loading={isLoading}
+          style={styles.submitButton}
+          size="large"
+        />
+      </View>
+
+      <TouchableOpacity onPress={toggleMode} style={styles.linkContainer}>
+        <Text style={styles.linkText}>
+          {useBackupCode ? 'Use authenticator code instead' : 'Use a backup code instead'}
+        </Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity onPress={cancelTwoFactorLogin} style={styles.linkContainer}>
+        <Text style={styles.secondaryLinkText}>Back to sign in</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = {
+  headerSection: {
+    alignItems: 'center' as const,
+    marginBottom: 32,
+  },
+  iconCircle: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    backgroundColor: '#E0F2FE',
+    alignItems: 'center' as const,
+    justifyContent: 'center' as const,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+    marginBottom: 4,
+    textAlign: 'center' as const,
+  },
+  subtitle: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[600],
+    lineHeight: 20,
+    textAlign: 'center' as const,
+  },
+  inputMargin: {
+    marginBottom: 24,
+  },
+  submitContainer: {
+    marginBottom: 16,
+  },
+  submitButton: {
+    backgroundColor: '#0091FF',
+    shadowColor: '#0091FF',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  linkContainer: {
+    alignItems: 'center' as const,
+    paddingVertical: 8,
+  },
+  linkText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: '#0091FF',
+  },
+  secondaryLinkText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[600],
+  },
+};
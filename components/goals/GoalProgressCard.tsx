@@ -0,0 +1,154 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+import { GOAL_TYPES, GOAL_STATUS_DISPLAY } from '../../constants/goals';
+import { Goal } from '../../services/microservices/trackingService';
+import {
+  projectGoalCompletion,
+  formatGoalValue,
+  isTrackedGoalType,
+  isMilestoneReached,
+  GoalDataPoint,
+} from '../../utils/goalProjection';
+
+interface GoalProgressCardProps {
+  goal: Goal;
+  weightHistory?: GoalDataPoint[];
+  onPress: () => void;
+}
+
+const formatShortDate = (date: Date | string) =>
+  new Date(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+export const GoalProgressCard: React.FC<GoalProgressCardProps> = ({ goal, weightHistory, onPress }) => {
+  const projection = useMemo(() => projectGoalCompletion(goal, weightHistory), [goal, weightHistory]);
+
+  const typeConfig = isTrackedGoalType(goal.type) ? GOAL_TYPES[goal.type] : null;
+  const color = typeConfig?.color || COLORS.PRIMARY[600];
+  const status = GOAL_STATUS_DISPLAY[projection.status];
+  const milestonesReached = goal.milestones.filter((m) => isMilestoneReached(goal, m)).length;
+
+  return (
+    <TouchableOpacity style={[styles.card, !goal.isActive && styles.cardPaused]} onPress={onPress} activeOpacity={0.7}>
+      <View style={styles.header}>
+        <View style={[styles.icon, { backgroundColor: typeConfig?.bgColor || COLORS.PRIMARY[100] }]}>
+          <Ionicons name={typeConfig?.icon || 'flag'} size={20} color={color} />
+        </View>
+        <View style={styles.headerInfo}>
+          <Text style={styles.title} numberOfLines={1}>{goal.title}</Text>
+          <Text style={styles.subtitle}>
+            {formatGoalValue(goal.type, goal.currentValue, goal.unit)} of {formatGoalValue(goal.type, goal.targetValue, goal.unit)}
+          </Text>
+        </View>
+        <Text style={[styles.percentage, { color }]}>{Math.round(projection.percentage)}%</Text>
+      </View>
+
+      <View style={styles.progressBar}>
+        <View style={[styles.progressFill, { width: `${projection.percentage}%`, backgroundColor: color }]} />
+      </View>
+
+      <View style={styles.footer}>
+        {goal.isActive ? (
+          <View style={styles.statusRow}>
+            <Ionicons name={status.icon} size={14} color={status.color} />
+            <Text style={[styles.statusText, { color: status.color }]}>
+              {status.label}
+              {projection.projectedDate && projection.status !== 'completed' ? ` · ${formatShortDate(projection.projectedDate)}` : ''}
+            </Text>
+          </View>
+        ) : (
+          <View style={styles.statusRow}>
+            <Ionicons name="pause-circle" size={14} color={COLORS.SECONDARY[400]} />
+            <Text style={[styles.statusText, { color: COLORS.SECONDARY[500] }]}>Paused</Text>
+          </View>
+        )}
+        <Text style={styles.metaText}>
+          {goal.milestones.length > 0 ? `${milestonesReached}/${goal.milestones.length} milestones · ` : ''}Due {formatShortDate(goal.targetDate)}
+        </Text>
+      </View>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderRadius: 16,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  cardPaused: {
+    opacity: 0.7,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  icon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  title: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  subtitle: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 2,
+  },
+  percentage: {
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.BOLD,
+    marginLeft: 8,
+  },
+  progressBar: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: COLORS.NEUTRAL[200],
+    overflow: 'hidden',
+    marginTop: 12,
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    flexShrink: 1,
+  },
+  statusText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.SEMIBOLD,
+  },
+  metaText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginLeft: 8,
+  },
+});
+
+export default GoalProgressCard;
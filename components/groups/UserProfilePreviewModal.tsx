@@ -8,12 +8,16 @@ import {
   Animated,
   Dimensions,
   Image,
+  ActivityIndicator,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
 import { Avatar } from '../ui/Avatar';
 import { mediaService } from '../../services/microservices/mediaService';
 import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+import { useAuth } from '../../contexts/AuthContext';
+import { useAlert } from '../../contexts/AlertContext';
+import { useFriendsStore } from '../../stores/friendsStore';
 
 const { width } = Dimensions.get('window');
 
@@ -45,6 +49,14 @@ export const UserProfilePreviewModal: React.FC<UserProfilePreviewModalProps> = (
   onViewProfile,
 }) => {
   const [showPhotoModal, setShowPhotoModal] = useState(false);
+  const [isFriendActionPending, setIsFriendActionPending] = useState(false);
+  const { user: currentUser } = useAuth();
+  const alert = useAlert();
+  const hasLoadedFriends = useFriendsStore((state) => state.hasLoaded);
+  const incomingRequests = useFriendsStore((state) => state.incomingRequests);
+  const relationship = useFriendsStore((state) =>
+    user ? state.getRelationship(user.userId, currentUser?.id) : 'self'
+  );
 
   // Animation values for smooth fade in/out
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -70,8 +82,48 @@ export const UserProfilePreviewModal: React.FC<UserProfilePreviewModalProps> = (
     }
   }, [visible]);
 
+  // Friend status is needed for the action button below
+  useEffect(() => {
+    if (visible && !hasLoadedFriends) {
+      useFriendsStore.getState().loadAll().catch(() => {});
+    }
+  }, [visible, hasLoadedFriends]);
+
   if (!user) return null;
 
+  const handleFriendAction = async () => {
+    if (isFriendActionPending) return;
+
+    setIsFriendActionPending(true);
+    try {
+      if (relationship === 'none') {
+        await useFriendsStore.getState().sendRequest(String(user.userId));
+        alert.success('Request Sent', `Friend request sent to ${user.username}.`);
+      } else if (relationship === 'incoming') {
+        const request = incomingRequests.find((r) => String(r.fromUserId) === String(user.userId));
+        if (request) {
+          await useFriendsStore.getState().respondToRequest(request.id, 'accept');
+          alert.success('Friend Added', `You and ${user.username} are now friends.`);
+        }
+      }
+    } catch (error) {
+      console.error('❌ Friend action failed:', error);
+      alert.error('Error', (error as Error).message || 'Failed to update friend request');
+    } finally {
+      setIsFriendActionPending(false);
+    }
+  };
+
+  const FRIEND_ACTION_LABELS: Record<typeof relationship, { label: string; icon: keyof typeof Ionicons.glyphMap } | null> = {
+    self: null,
+    friend: { label: 'Friends', icon: 'people' },
+    outgoing: { label: 'Request Sent', icon: 'time-outline' },
+    incoming: { label: 'Accept Friend Request', icon: 'person-add' },
+    none: { label: 'Add Friend', icon: 'person-add-outline' },
+  };
+  const friendAction = FRIEND_ACTION_LABELS[relationship];
+  const isFriendActionEnabled = relationship === 'none' || relationship === 'incoming';
+
   const getFitnessLevelColor = (level?: string) => {
     switch (level?.toLowerCase()) {
       case 'beginner':
@@ -226,6 +278,31 @@ export const UserProfilePreviewModal: React.FC<UserProfilePreviewModalProps> = (
             )}
           </View>
 
+          {/* Friend Action */}
+          {friendAction && (
+            <TouchableOpacity
+              style={[styles.friendButton, !isFriendActionEnabled && styles.friendButtonMuted]}
+              activeOpacity={0.7}
+              onPress={handleFriendAction}
+              disabled={!isFriendActionEnabled || isFriendActionPending}
+            >
+              {isFriendActionPending ? (
+                <ActivityIndicator size="small" color={COLORS.NEUTRAL.WHITE} />
+              ) : (
+                <>
+                  <Ionicons
+                    name={friendAction.icon}
+                    size={18}
+                    color={isFriendActionEnabled ? COLORS.NEUTRAL.WHITE : COLORS.SECONDARY[600]}
+                  />
+                  <Text style={[styles.friendButtonText, !isFriendActionEnabled && styles.friendButtonTextMuted]}>
+                    {friendAction.label}
+                  </Text>
+                </>
+              )}
+            </TouchableOpacity>
+          )}
+
           {/* View Full Profile Button */}
           <TouchableOpacity
             style={styles.viewProfileButton}
@@ -429,6 +506,28 @@ const styles = StyleSheet.create({
     fontSize: FONT_SIZES.XS,
     fontFamily: FONTS.SEMIBOLD,
   },
+  friendButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    alignSelf: 'stretch',
+    paddingVertical: 12,
+    marginTop: 16,
+    borderRadius: 12,
+    backgroundColor: COLORS.PRIMARY[600],
+    gap: 8,
+  },
+  friendButtonMuted: {
+    backgroundColor: COLORS.SECONDARY[100],
+  },
+  friendButtonText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  friendButtonTextMuted: {
+    color: COLORS.SECONDARY[600],
+  },
   viewProfileButton: {
     flexDirection: 'row',
     alignItems: 'center',
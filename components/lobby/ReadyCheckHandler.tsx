@@ -94,7 +94,7 @@ export function ReadyCheckHandler() {
     // Only reaches here when NO other component has subscribed to this channel
     // (e.g., user is on home screen, not on the lobby screen)
     reverbService.subscribeToLobby(sessionId, {
-      onReadyCheckStarted: (data: any) => {
+      onReadyCheckStarted: (data) => {
         console.log('🔔 [READY CHECK HANDLER] Ready check started:', data);
 
         // Get members from data or from ref (use ref for current value)
@@ -117,17 +117,17 @@ export function ReadyCheckHandler() {
         });
       },
 
-      onReadyCheckResponse: (data: any) => {
+      onReadyCheckResponse: (data) => {
         console.log('🔔 [READY CHECK HANDLER] Ready check response:', data);
         updateResponse(data.user_id, data.response);
       },
 
-      onReadyCheckComplete: (data: any) => {
+      onReadyCheckComplete: (data) => {
         console.log('🔔 [READY CHECK HANDLER] Ready check complete:', data);
         setResult(data.success ? 'success' : 'failed');
       },
 
-      onReadyCheckCancelled: (data: any) => {
+      onReadyCheckCancelled: (data) => {
         console.log('🔔 [READY CHECK HANDLER] Ready check cancelled:', data);
         clearReadyCheck();
       },
@@ -0,0 +1,181 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+import { ADHERENCE_LEGEND, ADHERENCE_STATUS, DAYS_OF_WEEK } from '../../constants/coachingPlans';
+import type { AdherenceCell } from '../../utils/coachingPlans';
+
+export interface AdherenceMatrixRow {
+  key: string;
+  label: string; // trainee name, or "Week 3" for a single trainee's program
+  cells: AdherenceCell[];
+  flagged?: boolean; // missed too many sessions in a row
+  trailing?: string; // e.g. the row's adherence rate
+  onPress?: () => void;
+}
+
+interface AdherenceMatrixProps {
+  rows: AdherenceMatrixRow[];
+  showLegend?: boolean;
+}
+
+/**
+ * Planned-vs-completed grid: one row per trainee (or program week), one
+ * column per weekday
+ */
+export const AdherenceMatrix: React.FC<AdherenceMatrixProps> = ({ rows, showLegend = true }) => {
+  const hasTrailing = rows.some((row) => row.trailing !== undefined);
+
+  const renderCell = (cell: AdherenceCell) => {
+    const config = ADHERENCE_STATUS[cell.status];
+    return (
+      <View key={cell.date} style={styles.cellSlot}>
+        <View
+          style={[
+            styles.cell,
+            { backgroundColor: config.bgColor },
+            cell.status === 'upcoming' && styles.cellPlanned,
+          ]}
+        >
+          {config.icon && <Ionicons name={config.icon} size={14} color={config.color} />}
+        </View>
+      </View>
+    );
+  };
+
+  const renderRow = (row: AdherenceMatrixRow) => {
+    const content = (
+      <>
+        <View style={styles.rowLabel}>
+          <Text style={styles.rowLabelText} numberOfLines={1}>
+            {row.label}
+          </Text>
+          {row.flagged && <Ionicons name="warning" size={14} color={COLORS.ERROR[500]} />}
+        </View>
+        {row.cells.map(renderCell)}
+        {hasTrailing && <Text style={styles.trailingText}>{row.trailing}</Text>}
+      </>
+    );
+
+    return row.onPress ? (
+      <TouchableOpacity key={row.key} style={styles.row} onPress={row.onPress} activeOpacity={0.7}>
+        {content}
+      </TouchableOpacity>
+    ) : (
+      <View key={row.key} style={styles.row}>
+        {content}
+      </View>
+    );
+  };
+
+  return (
+    <View>
+      <View style={styles.row}>
+        <View style={styles.rowLabel} />
+        {DAYS_OF_WEEK.map((day) => (
+          <View key={day.key} style={styles.cellSlot}>
+            <Text style={styles.dayLabel}>{day.letter}</Text>
+          </View>
+        ))}
+        {hasTrailing && <View style={styles.trailingSlot} />}
+      </View>
+
+      {rows.map(renderRow)}
+
+      {showLegend && (
+        <View style={styles.legend}>
+          {ADHERENCE_LEGEND.map((status) => (
+            <View key={status} style={styles.legendItem}>
+              <View
+                style={[
+                  styles.legendSwatch,
+                  { backgroundColor: ADHERENCE_STATUS[status].bgColor },
+                  status === 'upcoming' && styles.cellPlanned,
+                ]}
+              />
+              <Text style={styles.legendText}>{ADHERENCE_STATUS[status].label}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  rowLabel: {
+    width: 92,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingRight: 6,
+  },
+  rowLabelText: {
+    flexShrink: 1,
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[800],
+  },
+  cellSlot: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  cell: {
+    width: 26,
+    height: 26,
+    borderRadius: 7,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cellPlanned: {
+    borderWidth: 1.5,
+    borderColor: COLORS.SECONDARY[300],
+    borderStyle: 'dashed',
+  },
+  dayLabel: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[500],
+  },
+  trailingSlot: {
+    width: 40,
+  },
+  trailingText: {
+    width: 40,
+    textAlign: 'right',
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[700],
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.SECONDARY[100],
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  legendSwatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 3,
+  },
+  legendText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[600],
+  },
+});
+
+export default AdherenceMatrix;
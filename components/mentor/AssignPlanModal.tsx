@@ -0,0 +1,539 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Animated,
+  Dimensions,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { addDays, format, startOfWeek } from 'date-fns';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+import { useAuth } from '../../contexts/AuthContext';
+import { useAlert } from '../../contexts/AlertContext';
+import { socialService, GroupMember } from '../../services/microservices/socialService';
+import { planningService, PlanAssignment } from '../../services/microservices/planningService';
+import { Avatar } from '../ui/Avatar';
+
+const SCREEN_HEIGHT = Dimensions.get('window').height;
+
+type AssignMode = 'trainees' | 'group';
+type StartOption = 'this-week' | 'next-week';
+
+interface MentorGroup {
+  id: string;
+  name: string;
+  trainees: GroupMember[];
+}
+
+interface AssignPlanModalProps {
+  visible: boolean;
+  planId: string;
+  planName: string;
+  assignedUserIds: string[]; // trainees already on this plan, shown as assigned
+  onClose: () => void;
+  onAssigned: (assignments: PlanAssignment[]) => void;
+}
+
+/**
+ * Assign a coaching plan to hand-picked trainees or to every member of one of
+ * the mentor's training groups
+ */
+export const AssignPlanModal: React.FC<AssignPlanModalProps> = ({
+  visible,
+  planId,
+  planName,
+  assignedUserIds,
+  onClose,
+  onAssigned,
+}) => {
+  const { user } = useAuth();
+  const alert = useAlert();
+  const [isModalVisible, setIsModalVisible] = useState(false);
+  const [groups, setGroups] = useState<MentorGroup[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [mode, setMode] = useState<AssignMode>('trainees');
+  const [selectedUserIds, setSelectedUserIds] = useState<Set<string>>(new Set());
+  const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
+  const [startOption, setStartOption] = useState<StartOption>('next-week');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const overlayAnim = useRef(new Animated.Value(0)).current;
+  const slideAnim = useRef(new Animated.Value(SCREEN_HEIGHT)).current;
+
+  useEffect(() => {
+    if (visible) {
+      setIsModalVisible(true);
+      setMode('trainees');
+      setSelectedUserIds(new Set());
+      setSelectedGroupId(null);
+      setStartOption('next-week');
+      overlayAnim.setValue(0);
+      slideAnim.setValue(SCREEN_HEIGHT);
+      Animated.parallel([
+        Animated.timing(overlayAnim, {
+          toValue: 1,
+          duration: 300,
+          useNativeDriver: true,
+        }),
+        Animated.spring(slideAnim, {
+          toValue: 0,
+          friction: 9,
+          tension: 50,
+          useNativeDriver: true,
+        }),
+      ]).start();
+      loadGroups();
+    } else if (isModalVisible) {
+      setIsModalVisible(false);
+    }
+  }, [visible]);
+
+  const loadGroups = async () => {
+    try {
+      setIsLoading(true);
+      const response = await socialService.getGroups({
+        user_id: user?.id ? Number(user.id) : undefined,
+      });
+      const mentorGroups = response.groups.filter((group) => String(group.createdBy) === String(user?.id));
+
+      const memberResults = await Promise.allSettled(
+        mentorGroups.map((group) => socialService.getGroupMembers(group.id))
+      );
+
+      setGroups(
+        mentorGroups.map((group, index) => {
+          const result = memberResults[index];
+          const members = result?.status === 'fulfilled' ? result.value.members : [];
+          return {
+            id: group.id,
+            name: group.name,
+            trainees: members.filter((member) => member.role !== 'owner' && String(member.userId) !== String(user?.id)),
+          };
+        })
+      );
+    } catch (error) {
+      console.error('❌ [COACHING] Failed to load training groups:', error);
+      alert.error('Error', 'Failed to load your training groups');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    Animated.parallel([
+      Animated.timing(overlayAnim, {
+        toValue: 0,
+        duration: 250,
+        useNativeDriver: true,
+      }),
+      Animated.timing(slideAnim, {
+        toValue: SCREEN_HEIGHT,
+        duration: 250,
+        useNativeDriver: true,
+      }),
+    ]).start(() => {
+      setIsModalVisible(false);
+      onClose();
+    });
+  };
+
+  const toggleTrainee = (userId: string) => {
+    setSelectedUserIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(userId)) {
+        next.delete(userId);
+      } else {
+        next.add(userId);
+      }
+      return next;
+    });
+  };
+
+  // The same trainee can be in several of the mentor's groups
+  const uniqueTrainees = groups
+    .flatMap((group) => group.trainees)
+    .filter((member, index, all) => all.findIndex((m) => m.userId === member.userId) === index);
+
+  const selectedGroup = groups.find((group) => group.id === selectedGroupId) || null;
+  const targetUserIds =
+    mode === 'group'
+      ? (selectedGroup?.trainees || []).map((member) => member.userId).filter((id) => !assignedUserIds.includes(id))
+      : Array.from(selectedUserIds);
+
+  const getStartDate = () => {
+    // Starting this week counts from today; next week starts on Monday
+    const date = startOption === 'this-week' ? new Date() : addDays(startOfWeek(new Date(), { weekStartsOn: 1 }), 7);
+    return format(date, 'yyyy-MM-dd');
+  };
+
+  const handleAssign = async () => {
+    if (targetUserIds.length === 0 || isSubmitting) return;
+
+    setIsSubmitting(true);
+    try {
+      const assignments = await planningService.assignPlan(planId, {
+        user_ids: targetUserIds,
+        group_id: mode === 'group' ? selectedGroupId || undefined : undefined,
+        start_date: getStartDate(),
+      });
+      console.log(`✅ [COACHING] Assigned plan ${planId} to ${targetUserIds.length} trainee(s)`);
+      alert.success(
+        'Plan Assigned',
+        `${planName} was assigned to ${targetUserIds.length} trainee${targetUserIds.length !== 1 ? 's' : ''}.`
+      );
+      onAssigned(assignments);
+      handleClose();
+    } catch (error) {
+      console.error('❌ [COACHING] Failed to assign plan:', error);
+      alert.error('Error', (error as Error).message || 'Failed to assign plan');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderTraineeRow = (member: GroupMember) => {
+    const isAssigned = assignedUserIds.includes(member.userId);
+    const isSelected = selectedUserIds.has(member.userId);
+    return (
+      <TouchableOpacity
+        key={member.userId}
+        style={styles.traineeRow}
+        onPress={() => toggleTrainee(member.userId)}
+        disabled={isAssigned}
+        activeOpacity={0.7}
+      >
+        <Avatar
+          profilePicture={member.profilePicture}
+          size="xs"
+          backgroundColor={COLORS.PRIMARY[100]}
+          iconColor={COLORS.PRIMARY[600]}
+        />
+        <Text style={styles.traineeName} numberOfLines={1}>{member.username}</Text>
+        {isAssigned ? (
+          <Text style={styles.assignedText}>Assigned</Text>
+        ) : (
+          <Ionicons
+            name={isSelected ? 'checkbox' : 'square-outline'}
+            size={22}
+            color={isSelected ? COLORS.PRIMARY[600] : COLORS.SECONDARY[400]}
+          />
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderGroupRow = (group: MentorGroup) => {
+    const isSelected = selectedGroupId === group.id;
+    const newCount = group.trainees.filter((member) => !assignedUserIds.includes(member.userId)).length;
+    return (
+      <TouchableOpacity
+        key={group.id}
+        style={[styles.groupRow, isSelected && styles.groupRowSelected]}
+        onPress={() => setSelectedGroupId(group.id)}
+        disabled={newCount === 0}
+        activeOpacity={0.7}
+      >
+        <View style={styles.groupIcon}>
+          <Ionicons name="people" size={18} color={COLORS.PRIMARY[600]} />
+        </View>
+        <View style={{ flex: 1 }}>
+          <Text style={styles.traineeName}>{group.name}</Text>
+          <Text style={styles.groupMeta}>
+            {newCount === 0
+              ? 'Everyone is already on this plan'
+              : `${newCount} trainee${newCount !== 1 ? 's' : ''} to assign`}
+          </Text>
+        </View>
+        <Ionicons
+          name={isSelected ? 'radio-button-on' : 'radio-button-off'}
+          size={22}
+          color={isSelected ? COLORS.PRIMARY[600] : COLORS.SECONDARY[400]}
+        />
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal visible={isModalVisible} animationType="none" transparent={true} onRequestClose={handleClose}>
+      <View style={styles.overlay}>
+        <Animated.View style={[styles.overlayBackground, { opacity: overlayAnim }]} />
+        <Animated.View style={[styles.container, { transform: [{ translateY: slideAnim }] }]}>
+          {/* Header */}
+          <View style={styles.header}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.title}>Assign Plan</Text>
+              <Text style={styles.subtitle} numberOfLines={1}>{planName}</Text>
+            </View>
+            <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={COLORS.SECONDARY[600]} />
+            </TouchableOpacity>
+          </View>
+
+          {isLoading ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" color={COLORS.PRIMARY[600]} />
+            </View>
+          ) : (
+            <ScrollView contentContainerStyle={styles.content}>
+              <View style={styles.segmentedControl}>
+                {(['trainees', 'group'] as AssignMode[]).map((option) => (
+                  <TouchableOpacity
+                    key={option}
+                    style={[styles.segment, mode === option && styles.segmentActive]}
+                    onPress={() => setMode(option)}
+                  >
+                    <Text style={[styles.segmentText, mode === option && styles.segmentTextActive]}>
+                      {option === 'trainees' ? 'Trainees' : 'Whole Group'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {groups.length === 0 || uniqueTrainees.length === 0 ? (
+                <View style={styles.emptyState}>
+                  <Ionicons name="person-add-outline" size={32} color={COLORS.SECONDARY[300]} />
+                  <Text style={styles.emptyText}>
+                    No trainees yet. Invite members to your training groups first.
+                  </Text>
+                </View>
+              ) : mode === 'trainees' ? (
+                <View style={styles.listCard}>{uniqueTrainees.map(renderTraineeRow)}</View>
+              ) : (
+                <View style={styles.groupList}>{groups.map(renderGroupRow)}</View>
+              )}
+
+              <Text style={styles.sectionLabel}>Start</Text>
+              <View style={styles.optionRow}>
+                {(['this-week', 'next-week'] as StartOption[]).map((option) => (
+                  <TouchableOpacity
+                    key={option}
+                    style={[styles.optionCard, startOption === option && styles.optionCardActive]}
+                    onPress={() => setStartOption(option)}
+                  >
+                    <Text style={[styles.optionText, startOption === option && styles.optionTextActive]}>
+                      {option === 'this-week' ? 'Today' : 'Next Monday'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </ScrollView>
+          )}
+
+          <View style={styles.footer}>
+            <TouchableOpacity
+              style={[styles.submitButton, (targetUserIds.length === 0 || isSubmitting) && styles.submitButtonDisabled]}
+              onPress={handleAssign}
+              disabled={targetUserIds.length === 0 || isSubmitting}
+            >
+              {isSubmitting ? (
+                <ActivityIndicator color="white" />
+              ) : (
+                <Text style={styles.submitButtonText}>
+                  {targetUserIds.length > 0
+                    ? `Assign to ${targetUserIds.length} Trainee${targetUserIds.length !== 1 ? 's' : ''}`
+                    : 'Assign'}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  overlayBackground: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  container: {
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    maxHeight: '90%',
+    paddingBottom: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.SECONDARY[100],
+  },
+  title: {
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  subtitle: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[600],
+    marginTop: 2,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  loadingContainer: {
+    paddingVertical: 64,
+    alignItems: 'center',
+  },
+  content: {
+    padding: 20,
+  },
+  segmentedControl: {
+    flexDirection: 'row',
+    backgroundColor: COLORS.SECONDARY[100],
+    borderRadius: 12,
+    padding: 4,
+    marginBottom: 16,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  segmentActive: {
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+  },
+  segmentText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[500],
+  },
+  segmentTextActive: {
+    color: COLORS.PRIMARY[600],
+  },
+  listCard: {
+    borderWidth: 1,
+    borderColor: COLORS.SECONDARY[100],
+    borderRadius: 12,
+    marginBottom: 20,
+  },
+  traineeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.SECONDARY[50],
+  },
+  traineeName: {
+    flex: 1,
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  assignedText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.SUCCESS[600],
+  },
+  groupList: {
+    gap: 8,
+    marginBottom: 20,
+  },
+  groupRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1.5,
+    borderColor: COLORS.SECONDARY[100],
+  },
+  groupRowSelected: {
+    borderColor: COLORS.PRIMARY[500],
+    backgroundColor: COLORS.PRIMARY[50],
+  },
+  groupIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: COLORS.PRIMARY[100],
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  groupMeta: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 2,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 24,
+    gap: 8,
+  },
+  emptyText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    textAlign: 'center',
+  },
+  sectionLabel: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[700],
+    marginBottom: 8,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  optionCard: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1.5,
+    borderColor: COLORS.NEUTRAL[200],
+  },
+  optionCardActive: {
+    borderColor: COLORS.PRIMARY[500],
+    backgroundColor: COLORS.PRIMARY[50],
+  },
+  optionText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[600],
+  },
+  optionTextActive: {
+    color: COLORS.PRIMARY[600],
+  },
+  footer: {
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.SECONDARY[100],
+  },
+  submitButton: {
+    backgroundColor: COLORS.PRIMARY[600],
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  submitButtonDisabled: {
+    opacity: 0.5,
+  },
+  submitButtonText: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+});
+
+export default AssignPlanModal;
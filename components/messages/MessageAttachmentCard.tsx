@@ -0,0 +1,61 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+import { MESSAGE_ATTACHMENT_TYPES } from '../../constants/messages';
+import type { MessageAttachment } from '../../services/microservices/commsService';
+
+interface MessageAttachmentCardProps {
+  attachment: MessageAttachment;
+  onRemove?: () => void; // shown in the composer before sending
+  inverted?: boolean; // inside the sender's own (colored) bubble
+}
+
+/**
+ * The completed session or weekly assessment a message comments on
+ */
+export const MessageAttachmentCard: React.FC<MessageAttachmentCardProps> = ({ attachment, onRemove, inverted }) => {
+  const config = MESSAGE_ATTACHMENT_TYPES[attachment.type];
+
+  return (
+    <View style={[styles.card, { backgroundColor: inverted ? 'rgba(255,255,255,0.18)' : config.bgColor }]}>
+      <Ionicons name={config.icon} size={16} color={inverted ? COLORS.NEUTRAL.WHITE : config.color} />
+      <View style={{ flex: 1 }}>
+        <Text style={[styles.typeLabel, { color: inverted ? COLORS.NEUTRAL.WHITE : config.color }]}>{config.label}</Text>
+        <Text
+          style={[styles.label, inverted && { color: COLORS.NEUTRAL.WHITE }]}
+          numberOfLines={1}
+        >
+          {attachment.label}
+        </Text>
+      </View>
+      {onRemove && (
+        <TouchableOpacity onPress={onRemove} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+          <Ionicons name="close-circle" size={20} color={COLORS.SECONDARY[400]} />
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    borderRadius: 10,
+  },
+  typeLabel: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.BOLD,
+  },
+  label: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.SECONDARY[800],
+  },
+});
+
+export default MessageAttachmentCard;
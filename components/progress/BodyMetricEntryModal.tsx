@@ -0,0 +1,451 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  ActivityIndicator,
+  Animated,
+  Dimensions,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+import { BODY_METRIC_TYPES, MEASUREMENT_SITES, BodyMetricType } from '../../constants/bodyMetrics';
+import { DatePicker } from '../ui/DatePicker';
+import { trackingService } from '../../services/microservices/trackingService';
+import { useAlert } from '../../contexts/AlertContext';
+import { BodyJournalEntry, calculateBMI, getBMICategory } from '../../utils/bodyMetrics';
+import { formatDateToISO, parseISODate } from '../../utils/dateUtils';
+
+const SCREEN_HEIGHT = Dimensions.get('window').height;
+const MAX_NOTES_LENGTH = 300;
+const MIN_HEIGHT_CM = 100;
+const MAX_HEIGHT_CM = 250;
+
+interface BodyMetricEntryModalProps {
+  visible: boolean;
+  metric: BodyMetricType;
+  entry?: BodyJournalEntry | null; // Edit this entry instead of logging a new one
+  defaultBodyPart?: string;
+  defaultHeight?: number;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const parseNumber = (text: string): number => parseFloat(text.replace(',', '.'));
+
+export const BodyMetricEntryModal: React.FC<BodyMetricEntryModalProps> = ({
+  visible,
+  metric,
+  entry,
+  defaultBodyPart,
+  defaultHeight,
+  onClose,
+  onSaved,
+}) => {
+  const alert = useAlert();
+  const config = BODY_METRIC_TYPES[metric];
+  const [value, setValue] = useState('');
+  const [height, setHeight] = useState('');
+  const [bodyPart, setBodyPart] = useState(MEASUREMENT_SITES[0].key);
+  const [date, setDate] = useState<Date | null>(new Date());
+  const [notes, setNotes] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isModalVisible, setIsModalVisible] = useState(false);
+
+  const overlayAnim = useRef(new Animated.Value(0)).current;
+  const slideAnim = useRef(new Animated.Value(SCREEN_HEIGHT)).current;
+
+  useEffect(() => {
+    if (visible) {
+      setIsModalVisible(true);
+      setValue(entry ? String(entry.value) : '');
+      setHeight(String(entry?.height || defaultHeight || ''));
+      setBodyPart(entry?.bodyPart || defaultBodyPart || MEASUREMENT_SITES[0].key);
+      setDate(entry ? parseISODate(entry.date.slice(0, 10)) || new Date(entry.date) : new Date());
+      setNotes(entry?.notes || '');
+      overlayAnim.setValue(0);
+      slideAnim.setValue(SCREEN_HEIGHT);
+      Animated.parallel([
+        Animated.timing(overlayAnim, {
+          toValue: 1,
+          duration: 300,
+          useNativeDriver: true,
+        }),
+        Animated.spring(slideAnim, {
+          toValue: 0,
+          friction: 9,
+          tension: 50,
+          useNativeDriver: true,
+        }),
+      ]).start();
+    } else if (isModalVisible) {
+      setIsModalVisible(false);
+    }
+  }, [visible]);
+
+  const handleClose = () => {
+    Animated.parallel([
+      Animated.timing(overlayAnim, {
+        toValue: 0,
+        duration: 250,
+        useNativeDriver: true,
+      }),
+      Animated.timing(slideAnim, {
+        toValue: SCREEN_HEIGHT,
+        duration: 250,
+        useNativeDriver: true,
+      }),
+    ]).start(() => {
+      setIsModalVisible(false);
+      onClose();
+    });
+  };
+
+  const numericValue = parseNumber(value);
+  const numericHeight = parseNumber(height);
+  const valueError = value && (isNaN(numericValue) || numericValue < config.min || numericValue > config.max)
+    ? `Enter a value between ${config.min} and ${config.max} ${config.unit}`
+    : undefined;
+  const heightError = metric === 'weight' && height && (isNaN(numericHeight) || numericHeight < MIN_HEIGHT_CM || numericHeight > MAX_HEIGHT_CM)
+    ? `Enter a height between ${MIN_HEIGHT_CM} and ${MAX_HEIGHT_CM} cm`
+    : undefined;
+  const isComplete = !!value && !valueError && !!date && (metric !== 'weight' || (!!height && !heightError));
+  const previewBMI = metric === 'weight' && isComplete ? calculateBMI(numericHeight, numericValue) : 0;
+
+  const handleSubmit = async () => {
+    if (!isComplete || isSubmitting || !date) return;
+
+    setIsSubmitting(true);
+    const isoDate = formatDateToISO(date);
+    const trimmedNotes = notes.trim() || undefined;
+
+    try {
+      if (metric === 'weight') {
+        if (entry) {
+          await trackingService.updateBMIEntry(entry.id, { height: numericHeight, weight: numericValue, notes: trimmedNotes, date: isoDate });
+        } else {
+          await trackingService.logBMI(numericHeight, numericValue, trimmedNotes, isoDate);
+        }
+      } else if (entry) {
+        await trackingService.updateProgressEntry(entry.id, {
+          value: numericValue,
+          date: isoDate,
+          notes: trimmedNotes,
+          ...(metric === 'measurement' ? { bodyPart } : {}),
+        });
+      } else {
+        await trackingService.logProgress({
+          type: metric,
+          value: numericValue,
+          unit: config.unit,
+          date: isoDate,
+          bodyPart: metric === 'measurement' ? bodyPart : undefined,
+          notes: trimmedNotes,
+          source: 'manual',
+        });
+      }
+
+      console.log(`📏 [BODY JOURNAL] ${entry ? 'Updated' : 'Logged'} ${metric} entry:`, numericValue, config.unit);
+      onSaved();
+      handleClose();
+    } catch (error) {
+      console.error('❌ Failed to save body metric entry:', error);
+      alert.error('Error', (error as Error).message || 'Failed to save your entry');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const bmiCategory = previewBMI > 0 ? getBMICategory(previewBMI) : null;
+
+  return (
+    <Modal
+      visible={isModalVisible}
+      animationType="none"
+      transparent={true}
+      onRequestClose={handleClose}
+    >
+      <KeyboardAvoidingView style={styles.overlay} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <Animated.View style={[styles.overlayBackground, { opacity: overlayAnim }]} />
+        <Animated.View style={[styles.container, { transform: [{ translateY: slideAnim }] }]}>
+          {/* Header */}
+          <View style={styles.header}>
+            <View style={[styles.headerIcon, { backgroundColor: config.bgColor }]}>
+              <Ionicons name={config.icon} size={20} color={config.color} />
+            </View>
+            <Text style={styles.title}>{entry ? `Edit ${config.label}` : `Log ${config.label}`}</Text>
+            <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={COLORS.SECONDARY[600]} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+            {metric === 'measurement' && (
+              <>
+                <Text style={styles.sectionLabel}>Body Part</Text>
+                <View style={styles.chipWrap}>
+                  {MEASUREMENT_SITES.map((site) => {
+                    const isSelected = bodyPart === site.key;
+                    return (
+                      <TouchableOpacity
+                        key={site.key}
+                        style={[styles.chip, isSelected && { backgroundColor: config.color, borderColor: config.color }]}
+                        onPress={() => setBodyPart(site.key)}
+                        activeOpacity={0.7}
+                      >
+                        <Text style={[styles.chipText, isSelected && styles.chipTextActive]}>{site.label}</Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </>
+            )}
+
+            <Text style={styles.sectionLabel}>{config.label} ({config.unit})</Text>
+            <View style={[styles.valueRow, !!valueError && styles.inputError]}>
+              <TextInput
+                style={styles.valueInput}
+                value={value}
+                onChangeText={setValue}
+                placeholder="0.0"
+                placeholderTextColor={COLORS.SECONDARY[300]}
+                keyboardType="decimal-pad"
+                maxLength={6}
+                autoFocus={!entry}
+              />
+              <Text style={styles.valueUnit}>{config.unit}</Text>
+            </View>
+            {!!valueError && <Text style={styles.errorText}>{valueError}</Text>}
+
+            {metric === 'weight' && (
+              <>
+                <Text style={styles.sectionLabel}>Height (cm)</Text>
+                <TextInput
+                  style={[styles.textInput, !!heightError && styles.inputError]}
+                  value={height}
+                  onChangeText={setHeight}
+                  placeholder="170"
+                  placeholderTextColor={COLORS.SECONDARY[400]}
+                  keyboardType="decimal-pad"
+                  maxLength={5}
+                />
+                {!!heightError && <Text style={styles.errorText}>{heightError}</Text>}
+
+                {bmiCategory && (
+                  <View style={[styles.bmiPreview, { borderColor: bmiCategory.color }]}>
+                    <Text style={styles.bmiPreviewLabel}>BMI</Text>
+                    <Text style={[styles.bmiPreviewValue, { color: bmiCategory.color }]}>{previewBMI.toFixed(1)}</Text>
+                    <Text style={[styles.bmiPreviewCategory, { color: bmiCategory.color }]}>{bmiCategory.label}</Text>
+                  </View>
+                )}
+              </>
+            )}
+
+            <DatePicker
+              label="Date"
+              value={date}
+              onDateChange={setDate}
+              maximumDate={new Date()}
+              style={styles.datePicker}
+            />
+
+            <Text style={styles.sectionLabel}>Notes (optional)</Text>
+            <TextInput
+              style={[styles.textInput, styles.notesInput]}
+              value={notes}
+              onChangeText={setNotes}
+              placeholder="Morning, after a rest day..."
+              placeholderTextColor={COLORS.SECONDARY[400]}
+              maxLength={MAX_NOTES_LENGTH}
+              multiline
+              textAlignVertical="top"
+            />
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <TouchableOpacity
+              style={[styles.submitButton, { backgroundColor: config.color }, (!isComplete || isSubmitting) && styles.submitButtonDisabled]}
+              onPress={handleSubmit}
+              disabled={!isComplete || isSubmitting}
+            >
+              {isSubmitting ? (
+                <ActivityIndicator color="white" />
+              ) : (
+                <Text style={styles.submitButtonText}>{entry ? 'Save Changes' : 'Save Entry'}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </Animated.View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  overlayBackground: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  container: {
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    maxHeight: '90%',
+    paddingBottom: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.SECONDARY[100],
+  },
+  headerIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  title: {
+    flex: 1,
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    padding: 20,
+  },
+  sectionLabel: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[700],
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  chipWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.SECONDARY[200],
+  },
+  chipText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.SECONDARY[700],
+  },
+  chipTextActive: {
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  valueRow: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    justifyContent: 'center',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.SECONDARY[200],
+    paddingVertical: 8,
+  },
+  valueInput: {
+    fontSize: 36,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+    minWidth: 100,
+    textAlign: 'center',
+  },
+  valueUnit: {
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[500],
+    marginLeft: 4,
+  },
+  inputError: {
+    borderColor: COLORS.ERROR[500],
+  },
+  errorText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.ERROR[500],
+    marginTop: 4,
+  },
+  textInput: {
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.SECONDARY[200],
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[900],
+  },
+  notesInput: {
+    minHeight: 72,
+  },
+  bmiPreview: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  bmiPreviewLabel: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[600],
+  },
+  bmiPreviewValue: {
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.BOLD,
+  },
+  bmiPreviewCategory: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.MEDIUM,
+  },
+  datePicker: {
+    marginTop: 16,
+  },
+  footer: {
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.SECONDARY[100],
+  },
+  submitButton: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  submitButtonDisabled: {
+    opacity: 0.5,
+  },
+  submitButtonText: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+});
+
+export default BodyMetricEntryModal;
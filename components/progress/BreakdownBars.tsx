@@ -0,0 +1,110 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+
+export interface BreakdownItem {
+  label: string;
+  count: number;
+  percentage: number;
+  color: string;
+}
+
+interface BreakdownBarsProps {
+  items: BreakdownItem[];
+  emptyText?: string;
+}
+
+/**
+ * Stacked share bar with a legend row per item, for breakdowns that add up to 100%
+ */
+export const BreakdownBars: React.FC<BreakdownBarsProps> = ({ items, emptyText = 'No workouts in this period' }) => {
+  const visible = items.filter((item) => item.count > 0);
+
+  if (visible.length === 0) {
+    return <Text style={styles.emptyText}>{emptyText}</Text>;
+  }
+
+  return (
+    <View>
+      <View style={styles.stackedBar}>
+        {visible.map((item) => (
+          <View key={item.label} style={{ flex: Math.max(item.percentage, 1), backgroundColor: item.color }} />
+        ))}
+      </View>
+
+      {visible.map((item) => (
+        <View key={item.label} style={styles.row}>
+          <View style={[styles.swatch, { backgroundColor: item.color }]} />
+          <Text style={styles.label} numberOfLines={1}>{item.label}</Text>
+          <View style={styles.track}>
+            <View style={[styles.fill, { width: `${Math.min(item.percentage, 100)}%`, backgroundColor: item.color }]} />
+          </View>
+          <Text style={styles.value}>{item.count}</Text>
+          <Text style={styles.percentage}>{Math.round(item.percentage)}%</Text>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  stackedBar: {
+    flexDirection: 'row',
+    height: 12,
+    borderRadius: 6,
+    overflow: 'hidden',
+    marginBottom: 12,
+    gap: 2,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    gap: 8,
+  },
+  swatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  label: {
+    width: 96,
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.SECONDARY[700],
+  },
+  track: {
+    flex: 1,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: COLORS.NEUTRAL[100],
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  value: {
+    width: 28,
+    textAlign: 'right',
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  percentage: {
+    width: 36,
+    textAlign: 'right',
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+  },
+  emptyText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[400],
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+});
+
+export default BreakdownBars;
@@ -0,0 +1,104 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+
+interface DayBarChartProps {
+  data: { day: string; count: number }[];
+  color?: string;
+  height?: number;
+}
+
+// Long ranges have too many days to label every bar
+const MAX_LABELS = 7;
+
+const formatDayLabel = (day: string) => {
+  // Weekday names ("Monday") come back as-is; dates are shortened
+  const date = new Date(day);
+  if (isNaN(date.getTime())) return day.slice(0, 3);
+  return date.toLocaleDateString(undefined, { month: 'numeric', day: 'numeric' });
+};
+
+/**
+ * Vertical bar chart of workouts per day
+ */
+export const DayBarChart: React.FC<DayBarChartProps> = ({ data, color = COLORS.PRIMARY[500], height = 120 }) => {
+  const max = Math.max(...data.map((d) => d.count), 1);
+  const labelEvery = Math.ceil(data.length / MAX_LABELS);
+
+  if (data.length === 0) {
+    return <Text style={styles.emptyText}>No workouts in this period</Text>;
+  }
+
+  return (
+    <View>
+      <View style={[styles.bars, { height }]}>
+        {data.map((d, index) => (
+          <View key={`${d.day}-${index}`} style={styles.barColumn}>
+            {d.count > 0 && data.length <= 14 && <Text style={styles.barValue}>{d.count}</Text>}
+            <View
+              style={[
+                styles.bar,
+                {
+                  height: Math.max((d.count / max) * (height - 16), d.count > 0 ? 4 : 2),
+                  backgroundColor: d.count > 0 ? color : COLORS.NEUTRAL[200],
+                },
+              ]}
+            />
+          </View>
+        ))}
+      </View>
+      <View style={styles.labels}>
+        {data.map((d, index) => (
+          <Text key={`${d.day}-${index}`} style={styles.label} numberOfLines={1}>
+            {index % labelEvery === 0 ? formatDayLabel(d.day) : ''}
+          </Text>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  bars: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 3,
+  },
+  barColumn: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+  },
+  bar: {
+    width: '80%',
+    maxWidth: 28,
+    borderRadius: 4,
+  },
+  barValue: {
+    fontSize: 10,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[600],
+    marginBottom: 2,
+  },
+  labels: {
+    flexDirection: 'row',
+    gap: 3,
+    marginTop: 6,
+  },
+  label: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 10,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+  },
+  emptyText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[400],
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+});
+
+export default DayBarChart;
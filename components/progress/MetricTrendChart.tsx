@@ -0,0 +1,257 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, LayoutChangeEvent } from 'react-native';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+import { MOVING_AVERAGE_DAYS } from '../../constants/bodyMetrics';
+import { MetricPoint, WeightBand, sortPointsByDate } from '../../utils/bodyMetrics';
+
+interface MetricTrendChartProps {
+  points: MetricPoint[];
+  average?: MetricPoint[];
+  color: string;
+  unit: string;
+  bands?: WeightBand[];
+  height?: number;
+}
+
+const AXIS_WIDTH = 40;
+const VERTICAL_PADDING = 12;
+const LINE_THICKNESS = 2.5;
+
+const formatAxisDate = (date: string) =>
+  new Date(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+// No SVG renderer in the app, so lines are drawn as thin Views rotated between two points
+const Segment = ({ x1, y1, x2, y2, color }: { x1: number; y1: number; x2: number; y2: number; color: string }) => {
+  const length = Math.hypot(x2 - x1, y2 - y1);
+  const angle = Math.atan2(y2 - y1, x2 - x1);
+
+  return (
+    <View
+      style={[
+        styles.segment,
+        {
+          left: (x1 + x2) / 2 - length / 2,
+          top: (y1 + y2) / 2 - LINE_THICKNESS / 2,
+          width: length,
+          backgroundColor: color,
+          transform: [{ rotate: `${angle}rad` }],
+        },
+      ]}
+    />
+  );
+};
+
+export const MetricTrendChart: React.FC<MetricTrendChartProps> = ({
+  points,
+  average,
+  color,
+  unit,
+  bands,
+  height = 180,
+}) => {
+  const [width, setWidth] = useState(0);
+  const plotWidth = Math.max(width - AXIS_WIDTH, 0);
+  const plotHeight = height - VERTICAL_PADDING * 2;
+
+  const layout = useMemo(() => {
+    const sorted = sortPointsByDate(points);
+    const series = [...sorted, ...(average || [])];
+    if (sorted.length === 0) return null;
+
+    const values = series.map((p) => p.value);
+    let min = Math.min(...values);
+    let max = Math.max(...values);
+    // Keep flat series readable and leave breathing room around the line
+    const padding = Math.max((max - min) * 0.15, 1);
+    min -= padding;
+    max += padding;
+
+    const times = sorted.map((p) => new Date(p.date).getTime());
+    const firstTime = times[0];
+    const timeSpan = times[times.length - 1] - firstTime;
+
+    const toX = (date: string) =>
+      timeSpan === 0 ? plotWidth / 2 : ((new Date(date).getTime() - firstTime) / timeSpan) * plotWidth;
+    const toY = (value: number) => VERTICAL_PADDING + ((max - value) / (max - min)) * plotHeight;
+
+    return { sorted, min, max, toX, toY };
+  }, [points, average, plotWidth, plotHeight]);
+
+  const handleLayout = (event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width);
+
+  if (!layout) {
+    return (
+      <View style={[styles.empty, { height }]}>
+        <Text style={styles.emptyText}>No entries in this range</Text>
+      </View>
+    );
+  }
+
+  const { sorted, min, max, toX, toY } = layout;
+  const averageSorted = average ? sortPointsByDate(average) : [];
+  const axisValues = [max, (max + min) / 2, min];
+
+  return (
+    <View onLayout={handleLayout}>
+      <View style={[styles.chartRow, { height }]}>
+        <View style={styles.axis}>
+          {axisValues.map((value, index) => (
+            <Text key={index} style={[styles.axisLabel, { top: toY(value) - 7 }]}>
+              {value.toFixed(value >= 100 ? 0 : 1)}
+            </Text>
+          ))}
+        </View>
+
+        <View style={[styles.plot, { width: plotWidth, height }]}>
+          {bands?.map((band) => {
+            const top = toY(Math.min(band.max, max));
+            const bottom = toY(Math.max(band.min, min));
+            if (band.min >= max || band.max <= min) return null;
+            return (
+              <View
+                key={band.label}
+                style={[styles.band, { top, height: bottom - top, backgroundColor: `${band.color}1A` }]}
+              >
+                <Text style={[styles.bandLabel, { color: band.color }]}>{band.label}</Text>
+              </View>
+            );
+          })}
+
+          {axisValues.map((value, index) => (
+            <View key={index} style={[styles.gridLine, { top: toY(value) }]} />
+          ))}
+
+          {width > 0 && (
+            <>
+              {sorted.slice(1).map((point, index) => (
+                <Segment
+                  key={`raw-${point.date}-${index}`}
+                  x1={toX(sorted[index].date)}
+                  y1={toY(sorted[index].value)}
+                  x2={toX(point.date)}
+                  y2={toY(point.value)}
+                  color={average ? `${color}55` : color}
+                />
+              ))}
+
+              {averageSorted.slice(1).map((point, index) => (
+                <Segment
+                  key={`avg-${point.date}-${index}`}
+                  x1={toX(averageSorted[index].date)}
+                  y1={toY(averageSorted[index].value)}
+                  x2={toX(point.date)}
+                  y2={toY(point.value)}
+                  color={color}
+                />
+              ))}
+
+              {sorted.map((point, index) => (
+                <View
+                  key={`dot-${point.date}-${index}`}
+                  style={[styles.dot, { left: toX(point.date) - 4, top: toY(point.value) - 4, borderColor: color }]}
+                />
+              ))}
+            </>
+          )}
+        </View>
+      </View>
+
+      <View style={[styles.xAxis, { marginLeft: AXIS_WIDTH }]}>
+        <Text style={styles.axisLabelStatic}>{formatAxisDate(sorted[0].date)}</Text>
+        {average && average.length > 0 && (
+          <View style={styles.legend}>
+            <View style={[styles.legendLine, { backgroundColor: color }]} />
+            <Text style={styles.axisLabelStatic}>{MOVING_AVERAGE_DAYS}-day avg ({unit})</Text>
+          </View>
+        )}
+        {sorted.length > 1 && (
+          <Text style={styles.axisLabelStatic}>{formatAxisDate(sorted[sorted.length - 1].date)}</Text>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  chartRow: {
+    flexDirection: 'row',
+  },
+  axis: {
+    width: AXIS_WIDTH,
+  },
+  axisLabel: {
+    position: 'absolute',
+    right: 6,
+    fontSize: 10,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[400],
+  },
+  axisLabelStatic: {
+    fontSize: 10,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[400],
+  },
+  plot: {
+    position: 'relative',
+    overflow: 'hidden',
+  },
+  band: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    alignItems: 'flex-end',
+  },
+  bandLabel: {
+    fontSize: 9,
+    fontFamily: FONTS.SEMIBOLD,
+    marginTop: 2,
+    marginRight: 4,
+  },
+  gridLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 1,
+    backgroundColor: COLORS.NEUTRAL[200],
+  },
+  segment: {
+    position: 'absolute',
+    height: LINE_THICKNESS,
+    borderRadius: LINE_THICKNESS / 2,
+  },
+  dot: {
+    position: 'absolute',
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    borderWidth: 2,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+  },
+  xAxis: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  legendLine: {
+    width: 14,
+    height: 3,
+    borderRadius: 2,
+  },
+  empty: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[400],
+  },
+});
+
+export default MetricTrendChart;
@@ -0,0 +1,263 @@
+import React, { useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  Animated,
+  Dimensions,
+  TouchableOpacity,
+  ScrollView,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+import { NewPersonalBest, getPersonalBestKey } from '../../services/personalBestTracker';
+import { formatMetricLabel, formatRecordValue } from '../../utils/analytics';
+import { hapticSuccess } from '../../utils/haptics';
+
+const { width } = Dimensions.get('window');
+
+interface PersonalBestModalProps {
+  visible: boolean;
+  bests: NewPersonalBest[];
+  onClose: () => void;
+}
+
+export default function PersonalBestModal({ visible, bests, onClose }: PersonalBestModalProps) {
+  // Animations
+  const fadeAnim = useRef(new Animated.Value(0)).current;
+  const scaleAnim = useRef(new Animated.Value(0.9)).current;
+  const trophyScaleAnim = useRef(new Animated.Value(0)).current;
+  const listOpacityAnim = useRef(new Animated.Value(0)).current;
+
+  useEffect(() => {
+    if (visible && bests.length > 0) {
+      playEntryAnimation();
+    } else {
+      resetAnimations();
+    }
+  }, [visible, bests]);
+
+  const resetAnimations = () => {
+    fadeAnim.setValue(0);
+    scaleAnim.setValue(0.9);
+    trophyScaleAnim.setValue(0);
+    listOpacityAnim.setValue(0);
+  };
+
+  const playEntryAnimation = () => {
+    resetAnimations();
+    hapticSuccess();
+
+    Animated.sequence([
+      // 1. Fade in backdrop and card
+      Animated.parallel([
+        Animated.timing(fadeAnim, { toValue: 1, duration: 300, useNativeDriver: true }),
+        Animated.spring(scaleAnim, { toValue: 1, friction: 8, tension: 40, useNativeDriver: true }),
+      ]),
+      // 2. Trophy pops in
+      Animated.spring(trophyScaleAnim, { toValue: 1, friction: 4, tension: 50, useNativeDriver: true }),
+      // 3. Records fade in
+      Animated.timing(listOpacityAnim, { toValue: 1, duration: 300, useNativeDriver: true }),
+    ]).start();
+  };
+
+  const handleClose = () => {
+    Animated.parallel([
+      Animated.timing(scaleAnim, { toValue: 0.9, duration: 200, useNativeDriver: true }),
+      Animated.timing(fadeAnim, { toValue: 0, duration: 300, useNativeDriver: true }),
+    ]).start(() => {
+      onClose();
+    });
+  };
+
+  if (bests.length === 0) return null;
+
+  return (
+    <Modal visible={visible} transparent animationType="none" statusBarTranslucent onRequestClose={handleClose}>
+      <Animated.View style={[styles.overlay, { opacity: fadeAnim }]}>
+        <Animated.View style={[styles.container, { transform: [{ scale: scaleAnim }] }]}>
+          {/* Header */}
+          <View style={styles.headerRow}>
+            <Ionicons name="flash" size={16} color={COLORS.PRIMARY[500]} />
+            <Text style={styles.headerText}>
+              {bests.length > 1 ? `${bests.length} NEW PERSONAL BESTS` : 'NEW PERSONAL BEST'}
+            </Text>
+            <Ionicons name="flash" size={16} color={COLORS.PRIMARY[500]} />
+          </View>
+
+          {/* Trophy */}
+          <Animated.View style={[styles.trophy, { transform: [{ scale: trophyScaleAnim }] }]}>
+            <Ionicons name="trophy" size={48} color={COLORS.NEUTRAL.WHITE} />
+          </Animated.View>
+
+          <Text style={styles.title}>You beat your record!</Text>
+
+          {/* Records */}
+          <Animated.View style={[styles.listContainer, { opacity: listOpacityAnim }]}>
+            <ScrollView showsVerticalScrollIndicator={false}>
+              {bests.map(({ best, previousValue }) => (
+                <View key={getPersonalBestKey(best)} style={styles.recordRow}>
+                  <View style={styles.recordInfo}>
+                    <Text style={styles.recordExercise} numberOfLines={1}>{best.exercise}</Text>
+                    <Text style={styles.recordMetric}>{formatMetricLabel(best.metric)}</Text>
+                  </View>
+                  <View style={styles.recordValues}>
+                    {previousValue !== undefined ? (
+                      <>
+                        <Text style={styles.previousValue}>{formatRecordValue(previousValue, best.unit)}</Text>
+                        <Ionicons name="arrow-forward" size={14} color={COLORS.SECONDARY[400]} />
+                      </>
+                    ) : (
+                      <View style={styles.firstBadge}>
+                        <Text style={styles.firstBadgeText}>FIRST</Text>
+                      </View>
+                    )}
+                    <Text style={styles.newValue}>{formatRecordValue(best.value, best.unit)}</Text>
+                  </View>
+                </View>
+              ))}
+            </ScrollView>
+          </Animated.View>
+
+          {/* Action Button */}
+          <TouchableOpacity style={styles.actionButton} onPress={handleClose} activeOpacity={0.8}>
+            <Text style={styles.actionButtonText}>Keep it up!</Text>
+            <Ionicons name="checkmark" size={20} color={COLORS.NEUTRAL.WHITE} />
+          </TouchableOpacity>
+        </Animated.View>
+      </Animated.View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  container: {
+    width: width - 40,
+    maxWidth: 340,
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderRadius: 20,
+    padding: 24,
+    alignItems: 'center',
+    shadowColor: COLORS.NEUTRAL.BLACK,
+    shadowOffset: { width: 0, height: 10 },
+    shadowOpacity: 0.3,
+    shadowRadius: 20,
+    elevation: 10,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 20,
+  },
+  headerText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.PRIMARY[600],
+    letterSpacing: 1.5,
+  },
+  trophy: {
+    width: 96,
+    height: 96,
+    borderRadius: 48,
+    backgroundColor: COLORS.WARNING[500],
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 16,
+    shadowColor: COLORS.NEUTRAL.BLACK,
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.2,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+  title: {
+    fontSize: FONT_SIZES.XL,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  listContainer: {
+    width: '100%',
+    maxHeight: 220,
+    marginBottom: 20,
+  },
+  recordRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: COLORS.WARNING[50],
+    borderWidth: 1,
+    borderColor: COLORS.WARNING[200],
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 8,
+    gap: 8,
+  },
+  recordInfo: {
+    flex: 1,
+  },
+  recordExercise: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  recordMetric: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 2,
+  },
+  recordValues: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  previousValue: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[400],
+    textDecorationLine: 'line-through',
+  },
+  newValue: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.WARNING[600],
+  },
+  firstBadge: {
+    backgroundColor: COLORS.PRIMARY[100],
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 6,
+  },
+  firstBadgeText: {
+    fontSize: 10,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.PRIMARY[600],
+    letterSpacing: 1,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    width: '100%',
+    paddingVertical: 16,
+    borderRadius: 12,
+    gap: 8,
+    backgroundColor: COLORS.PRIMARY[500],
+  },
+  actionButtonText: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+});
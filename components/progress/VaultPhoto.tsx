@@ -0,0 +1,64 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, ActivityIndicator, StyleProp, ViewStyle } from 'react-native';
+import { Image, ImageContentFit } from 'expo-image';
+import { Ionicons } from '@expo/vector-icons';
+import { COLORS } from '../../constants/colors';
+import { progressPhotoVault } from '../../services/progressPhotoVault';
+
+interface VaultPhotoProps {
+  userId: string;
+  photoId: string;
+  style?: StyleProp<ViewStyle>;
+  contentFit?: ImageContentFit;
+}
+
+/**
+ * Decrypts a progress photo from the vault and shows it
+ */
+export const VaultPhoto: React.FC<VaultPhotoProps> = ({ userId, photoId, style, contentFit = 'cover' }) => {
+  const [uri, setUri] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setUri(null);
+    setFailed(false);
+
+    progressPhotoVault
+      .loadPhotoUri(userId, photoId)
+      .then((dataUri) => {
+        if (!cancelled) setUri(dataUri);
+      })
+      .catch((error) => {
+        console.error('❌ Failed to decrypt progress photo:', error);
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, photoId]);
+
+  return (
+    <View style={[styles.container, style]}>
+      {uri ? (
+        <Image source={{ uri }} style={StyleSheet.absoluteFill} contentFit={contentFit} transition={150} />
+      ) : failed ? (
+        <Ionicons name="alert-circle-outline" size={24} color={COLORS.SECONDARY[400]} />
+      ) : (
+        <ActivityIndicator color={COLORS.SECONDARY[400]} />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    overflow: 'hidden',
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: COLORS.NEUTRAL[200],
+  },
+});
+
+export default VaultPhoto;
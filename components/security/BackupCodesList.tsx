@@ -0,0 +1,105 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Share } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+import { TWO_FACTOR_ISSUER } from '../../constants/security';
+
+interface BackupCodesListProps {
+  codes: string[];
+}
+
+/**
+ * Two-column grid of one-time backup codes with a share action for saving them
+ * somewhere safe (password manager, notes)
+ */
+export const BackupCodesList: React.FC<BackupCodesListProps> = ({ codes }) => {
+  const handleShare = async () => {
+    try {
+      await Share.share({
+        title: `${TWO_FACTOR_ISSUER} backup codes`,
+        message: `${TWO_FACTOR_ISSUER} backup codes — each works once:\n\n${codes.join('\n')}`,
+      });
+    } catch (error) {
+      console.error('❌ [SECURITY] Failed to share backup codes:', error);
+    }
+  };
+
+  return (
+    <View>
+      <View style={styles.warning}>
+        <Ionicons name="warning-outline" size={16} color={COLORS.WARNING[600]} />
+        <Text style={styles.warningText}>
+          Save these now — they won&apos;t be shown again. Each code signs you in once if you lose your phone.
+        </Text>
+      </View>
+
+      <View style={styles.grid}>
+        {codes.map((code) => (
+          <View key={code} style={styles.codeCell}>
+            <Text style={styles.codeText} selectable>{code}</Text>
+          </View>
+        ))}
+      </View>
+
+      <TouchableOpacity style={styles.shareButton} onPress={handleShare} activeOpacity={0.7}>
+        <Ionicons name="share-outline" size={18} color={COLORS.PRIMARY[600]} />
+        <Text style={styles.shareButtonText}>Save Codes</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  warning: {
+    flexDirection: 'row',
+    gap: 8,
+    backgroundColor: COLORS.WARNING[50],
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.WARNING[800],
+    lineHeight: 18,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    rowGap: 8,
+    marginBottom: 12,
+  },
+  codeCell: {
+    width: '48%',
+    backgroundColor: COLORS.SECONDARY[50],
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  codeText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+    letterSpacing: 1,
+  },
+  shareButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    borderWidth: 1,
+    borderColor: COLORS.PRIMARY[300],
+    borderRadius: 12,
+    paddingVertical: 12,
+  },
+  shareButtonText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.PRIMARY[600],
+  },
+});
+
+export default BackupCodesList;
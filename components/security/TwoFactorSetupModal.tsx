@@ -0,0 +1,379 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Animated,
+  Dimensions,
+  KeyboardAvoidingView,
+  Platform,
+  Linking,
+} from 'react-native';
+import { Image } from 'expo-image';
+import { Ionicons } from '@expo/vector-icons';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+import { TWO_FACTOR_ISSUER } from '../../constants/security';
+import { authService } from '../../services/microservices/authService';
+import { useAlert } from '../../contexts/AlertContext';
+import { VerificationCodeInput, VerificationCodeInputRef } from '../auth/VerificationCodeInput';
+import { BackupCodesList } from './BackupCodesList';
+
+const SCREEN_HEIGHT = Dimensions.get('window').height;
+
+type SetupStep = 'loading' | 'scan' | 'codes';
+
+interface TwoFactorSetupModalProps {
+  visible: boolean;
+  accountName: string; // Shown in the authenticator app, usually the email
+  onClose: () => void;
+  onEnabled: () => void;
+}
+
+/**
+ * Two-factor enrolment: add the account to an authenticator app (QR code,
+ * deep link or manual key), confirm with a first code, then save backup codes.
+ * 2FA only turns on once the first code is verified.
+ */
+export const TwoFactorSetupModal: React.FC<TwoFactorSetupModalProps> = ({
+  visible,
+  accountName,
+  onClose,
+  onEnabled,
+}) => {
+  const alert = useAlert();
+  const [isModalVisible, setIsModalVisible] = useState(false);
+  const [step, setStep] = useState<SetupStep>('loading');
+  const [enrolment, setEnrolment] = useState<{ qrCode: string; secret: string; backupCodes: string[] } | null>(null);
+  const [code, setCode] = useState('');
+  const [codeError, setCodeError] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const overlayAnim = useRef(new Animated.Value(0)).current;
+  const slideAnim = useRef(new Animated.Value(SCREEN_HEIGHT)).current;
+  const codeInputRef = useRef<VerificationCodeInputRef>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setIsModalVisible(true);
+      setStep('loading');
+      setEnrolment(null);
+      setCode('');
+      setCodeError('');
+      overlayAnim.setValue(0);
+      slideAnim.setValue(SCREEN_HEIGHT);
+      Animated.parallel([
+        Animated.timing(overlayAnim, {
+          toValue: 1,
+          duration: 300,
+          useNativeDriver: true,
+        }),
+        Animated.spring(slideAnim, {
+          toValue: 0,
+          friction: 9,
+          tension: 50,
+          useNativeDriver: true,
+        }),
+      ]).start();
+      startEnrolment();
+    } else if (isModalVisible) {
+      setIsModalVisible(false);
+    }
+  }, [visible]);
+
+  const startEnrolment = async () => {
+    try {
+      const result = await authService.enableTwoFactor();
+      setEnrolment(result);
+      setStep('scan');
+    } catch (error) {
+      console.error('❌ [SECURITY] Failed to start 2FA setup:', error);
+      alert.error('Error', (error as Error).message || 'Could not start two-factor setup');
+      handleClose();
+    }
+  };
+
+  const handleClose = () => {
+    Animated.parallel([
+      Animated.timing(overlayAnim, {
+        toValue: 0,
+        duration: 250,
+        useNativeDriver: true,
+      }),
+      Animated.timing(slideAnim, {
+        toValue: SCREEN_HEIGHT,
+        duration: 250,
+        useNativeDriver: true,
+      }),
+    ]).start(() => {
+      setIsModalVisible(false);
+      onClose();
+    });
+  };
+
+  const handleOpenAuthenticator = async () => {
+    if (!enrolment) return;
+
+    const label = encodeURIComponent(`${TWO_FACTOR_ISSUER}:${accountName}`);
+    const url = `otpauth://totp/${label}?secret=${enrolment.secret}&issuer=${encodeURIComponent(TWO_FACTOR_ISSUER)}`;
+    try {
+      await Linking.openURL(url);
+    } catch {
+      alert.info('No Authenticator App', 'Install an authenticator app, or add the setup key below manually.');
+    }
+  };
+
+  const handleVerify = async (value: string = code) => {
+    if (value.length !== 6 || isVerifying) return;
+
+    setIsVerifying(true);
+    setCodeError('');
+    try {
+      const result = await authService.verifyTwoFactor(value);
+      if (!result.verified) {
+        throw new Error('Code not accepted');
+      }
+
+      console.log('✅ [SECURITY] Two-factor authentication enabled');
+      if (result.backupCodes?.length) {
+        setEnrolment((prev) => (prev ? { ...prev, backupCodes: result.backupCodes! } : prev));
+      }
+      setStep('codes');
+    } catch (error) {
+      console.error('❌ [SECURITY] 2FA verification failed:', error);
+      setCodeError('That code is incorrect. Check the time on your phone and try the current code.');
+      codeInputRef.current?.clear();
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleDone = () => {
+    onEnabled();
+    handleClose();
+  };
+
+  return (
+    <Modal
+      visible={isModalVisible}
+      animationType="none"
+      transparent={true}
+      onRequestClose={step === 'codes' ? handleDone : handleClose}
+    >
+      <KeyboardAvoidingView style={styles.overlay} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <Animated.View style={[styles.overlayBackground, { opacity: overlayAnim }]} />
+        <Animated.View style={[styles.container, { transform: [{ translateY: slideAnim }] }]}>
+          {/* Header */}
+          <View style={styles.header}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.title}>
+                {step === 'codes' ? 'Save Your Backup Codes' : 'Set Up Two-Factor'}
+              </Text>
+              <Text style={styles.subtitle}>
+                {step === 'codes' ? 'Two-factor authentication is on' : 'Step 1 of 2 — link an authenticator app'}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={step === 'codes' ? handleDone : handleClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={COLORS.SECONDARY[600]} />
+            </TouchableOpacity>
+          </View>
+
+          {step === 'loading' || !enrolment ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" color={COLORS.PRIMARY[600]} />
+            </View>
+          ) : (
+            <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+              {step === 'scan' ? (
+                <>
+                  <Text style={styles.instructions}>
+                    Scan this code with Google Authenticator, 1Password, Authy or a similar app. On this phone, tap
+                    &quot;Open Authenticator App&quot; instead.
+                  </Text>
+
+                  <View style={styles.qrContainer}>
+                    <Image source={{ uri: enrolment.qrCode }} style={styles.qrImage} contentFit="contain" />
+                  </View>
+
+                  <TouchableOpacity style={styles.secondaryButton} onPress={handleOpenAuthenticator} activeOpacity={0.7}>
+                    <Ionicons name="open-outline" size={18} color={COLORS.PRIMARY[600]} />
+                    <Text style={styles.secondaryButtonText}>Open Authenticator App</Text>
+                  </TouchableOpacity>
+
+                  <Text style={styles.sectionLabel}>Setup key</Text>
+                  <View style={styles.secretBox}>
+                    <Text style={styles.secretText} selectable>{enrolment.secret}</Text>
+                  </View>
+
+                  <Text style={styles.sectionLabel}>Enter the 6-digit code from the app</Text>
+                  <VerificationCodeInput
+                    ref={codeInputRef}
+                    value={code}
+                    onChangeText={(text) => {
+                      setCode(text);
+                      setCodeError('');
+                    }}
+                    onComplete={(value) => handleVerify(value)}
+                    error={codeError}
+                    autoFocus={false}
+                    disabled={isVerifying}
+                  />
+                </>
+              ) : (
+                <BackupCodesList codes={enrolment.backupCodes} />
+              )}
+            </ScrollView>
+          )}
+
+          {step !== 'loading' && (
+            <View style={styles.footer}>
+              {step === 'scan' ? (
+                <TouchableOpacity
+                  style={[styles.submitButton, (code.length !== 6 || isVerifying) && styles.submitButtonDisabled]}
+                  onPress={() => handleVerify()}
+                  disabled={code.length !== 6 || isVerifying}
+                >
+                  {isVerifying ? (
+                    <ActivityIndicator color="white" />
+                  ) : (
+                    <Text style={styles.submitButtonText}>Verify & Turn On</Text>
+                  )}
+                </TouchableOpacity>
+              ) : (
+                <TouchableOpacity style={styles.submitButton} onPress={handleDone}>
+                  <Text style={styles.submitButtonText}>I&apos;ve Saved My Codes</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+        </Animated.View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  overlayBackground: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  container: {
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    maxHeight: '90%',
+    paddingBottom: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.SECONDARY[100],
+  },
+  title: {
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  subtitle: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[600],
+    marginTop: 2,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  loadingContainer: {
+    paddingVertical: 64,
+    alignItems: 'center',
+  },
+  content: {
+    padding: 20,
+  },
+  instructions: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[600],
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  qrContainer: {
+    alignSelf: 'center',
+    padding: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.SECONDARY[100],
+    marginBottom: 16,
+  },
+  qrImage: {
+    width: 180,
+    height: 180,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    borderWidth: 1,
+    borderColor: COLORS.PRIMARY[300],
+    borderRadius: 12,
+    paddingVertical: 12,
+    marginBottom: 16,
+  },
+  secondaryButtonText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.PRIMARY[600],
+  },
+  sectionLabel: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[700],
+    marginBottom: 8,
+  },
+  secretBox: {
+    backgroundColor: COLORS.SECONDARY[50],
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 20,
+  },
+  secretText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+    letterSpacing: 1.5,
+    textAlign: 'center',
+  },
+  footer: {
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.SECONDARY[100],
+  },
+  submitButton: {
+    backgroundColor: COLORS.PRIMARY[600],
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  submitButtonDisabled: {
+    opacity: 0.5,
+  },
+  submitButtonText: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+});
+
+export default TwoFactorSetupModal;
@@ -0,0 +1,348 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  FlatList,
+  TextInput,
+  ActivityIndicator,
+  Animated,
+  Dimensions,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+import { socialService, ActivityComment, ActivityFeed } from '../../services/microservices/socialService';
+import { useAlert } from '../../contexts/AlertContext';
+import { formatTimeAgo } from '../../utils/dateUtils';
+
+const SCREEN_HEIGHT = Dimensions.get('window').height;
+const MAX_COMMENT_LENGTH = 500;
+
+interface ActivityCommentsModalProps {
+  visible: boolean;
+  activity: ActivityFeed | null;
+  onClose: () => void;
+  onCommentAdded?: (activityId: string) => void;
+}
+
+export const ActivityCommentsModal: React.FC<ActivityCommentsModalProps> = ({
+  visible,
+  activity,
+  onClose,
+  onCommentAdded,
+}) => {
+  const alert = useAlert();
+  const [comments, setComments] = useState<ActivityComment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [draft, setDraft] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [isModalVisible, setIsModalVisible] = useState(false);
+
+  const overlayAnim = useRef(new Animated.Value(0)).current;
+  const slideAnim = useRef(new Animated.Value(SCREEN_HEIGHT)).current;
+
+  useEffect(() => {
+    if (visible && activity) {
+      setIsModalVisible(true);
+      setDraft('');
+      overlayAnim.setValue(0);
+      slideAnim.setValue(SCREEN_HEIGHT);
+      Animated.parallel([
+        Animated.timing(overlayAnim, {
+          toValue: 1,
+          duration: 300,
+          useNativeDriver: true,
+        }),
+        Animated.spring(slideAnim, {
+          toValue: 0,
+          friction: 9,
+          tension: 50,
+          useNativeDriver: true,
+        }),
+      ]).start();
+      loadComments(activity.id);
+    } else if (!visible && isModalVisible) {
+      setIsModalVisible(false);
+    }
+    // Re-run only when the sheet opens, closes or switches to another activity
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible, activity?.id]);
+
+  const loadComments = async (activityId: string) => {
+    try {
+      setIsLoading(true);
+      const response = await socialService.getActivityComments(activityId);
+      setComments(response.comments || []);
+    } catch (error) {
+      console.error('Failed to load activity comments:', error);
+      setComments([]);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSend = async () => {
+    const content = draft.trim();
+    if (!activity || !content || isSending) return;
+
+    setIsSending(true);
+    try {
+      const comment = await socialService.addActivityComment(activity.id, content);
+      setComments((prev) => [...prev, comment]);
+      setDraft('');
+      onCommentAdded?.(activity.id);
+    } catch (error) {
+      console.error('Failed to add activity comment:', error);
+      alert.error('Error', 'Failed to post comment');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleClose = () => {
+    Animated.parallel([
+      Animated.timing(overlayAnim, {
+        toValue: 0,
+        duration: 250,
+        useNativeDriver: true,
+      }),
+      Animated.timing(slideAnim, {
+        toValue: SCREEN_HEIGHT,
+        duration: 250,
+        useNativeDriver: true,
+      }),
+    ]).start(() => {
+      setIsModalVisible(false);
+      onClose();
+    });
+  };
+
+  const renderComment = ({ item }: { item: ActivityComment }) => (
+    <View style={styles.commentRow}>
+      <View style={styles.avatar}>
+        <Text style={styles.avatarText}>{item.username.charAt(0).toUpperCase()}</Text>
+      </View>
+      <View style={styles.commentBubble}>
+        <View style={styles.commentHeader}>
+          <Text style={styles.commentAuthor}>{item.username}</Text>
+          <Text style={styles.commentTime}>{formatTimeAgo(item.createdAt)}</Text>
+        </View>
+        <Text style={styles.commentText}>{item.content}</Text>
+      </View>
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={isModalVisible}
+      animationType="none"
+      transparent={true}
+      onRequestClose={handleClose}
+    >
+      <KeyboardAvoidingView style={styles.overlay} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <Animated.View style={[styles.overlayBackground, { opacity: overlayAnim }]} />
+        <Animated.View style={[styles.container, { transform: [{ translateY: slideAnim }] }]}>
+          {/* Header */}
+          <View style={styles.header}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.title}>Comments</Text>
+              {activity && (
+                <Text style={styles.subtitle} numberOfLines={1}>{activity.content.title}</Text>
+              )}
+            </View>
+            <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={COLORS.SECONDARY[600]} />
+            </TouchableOpacity>
+          </View>
+
+          {isLoading ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" color={COLORS.PRIMARY[600]} />
+            </View>
+          ) : (
+            <FlatList
+              data={comments}
+              keyExtractor={(item) => item.id}
+              renderItem={renderComment}
+              contentContainerStyle={styles.list}
+              ListEmptyComponent={
+                <View style={styles.emptyContainer}>
+                  <Ionicons name="chatbubbles-outline" size={48} color={COLORS.SECONDARY[300]} />
+                  <Text style={styles.emptyText}>No comments yet. Say something nice!</Text>
+                </View>
+              }
+            />
+          )}
+
+          {/* Composer */}
+          <View style={styles.composer}>
+            <TextInput
+              style={styles.input}
+              value={draft}
+              onChangeText={setDraft}
+              placeholder="Add a comment..."
+              placeholderTextColor={COLORS.SECONDARY[400]}
+              maxLength={MAX_COMMENT_LENGTH}
+              multiline
+            />
+            <TouchableOpacity
+              style={[styles.sendButton, (!draft.trim() || isSending) && styles.sendButtonDisabled]}
+              onPress={handleSend}
+              disabled={!draft.trim() || isSending}
+            >
+              {isSending ? (
+                <ActivityIndicator size="small" color="white" />
+              ) : (
+                <Ionicons name="send" size={18} color="white" />
+              )}
+            </TouchableOpacity>
+          </View>
+        </Animated.View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  overlayBackground: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  container: {
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    height: '75%',
+    paddingBottom: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.SECONDARY[100],
+  },
+  title: {
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  subtitle: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[600],
+    marginTop: 2,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  list: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  emptyContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 40,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+  },
+  commentRow: {
+    flexDirection: 'row',
+    marginBottom: 12,
+  },
+  avatar: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: COLORS.PRIMARY[600],
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 10,
+  },
+  avatarText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  commentBubble: {
+    flex: 1,
+    backgroundColor: COLORS.SECONDARY[50],
+    borderRadius: 12,
+    padding: 10,
+  },
+  commentHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 2,
+  },
+  commentAuthor: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  commentTime: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[400],
+  },
+  commentText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[700],
+    lineHeight: 20,
+  },
+  composer: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.SECONDARY[100],
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    maxHeight: 100,
+    minHeight: 40,
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: COLORS.SECONDARY[50],
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[900],
+  },
+  sendButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: COLORS.PRIMARY[600],
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  sendButtonDisabled: {
+    opacity: 0.5,
+  },
+});
+
+export default ActivityCommentsModal;
@@ -0,0 +1,415 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+import { useAuth } from '../../contexts/AuthContext';
+import { socialService, ActivityFeed } from '../../services/microservices/socialService';
+import { realtimeEventBus } from '../../services/realtimeEventBus';
+import { ActivityCommentsModal } from './ActivityCommentsModal';
+import { FEED_COMMENTS_ENABLED, FEED_UNLIKE_ENABLED } from '../../constants/activityFeed';
+import { Avatar } from '../ui/Avatar';
+import { formatTimeAgo } from '../../utils/dateUtils';
+
+const PER_PAGE = 20;
+
+type IconName = keyof typeof Ionicons.glyphMap;
+
+const ACTIVITY_ICONS: Record<ActivityFeed['type'], { icon: IconName; color: string }> = {
+  workout_completed: { icon: 'barbell', color: '#3B82F6' },
+  workout_shared: { icon: 'share-social', color: '#8B5CF6' },
+  challenge_joined: { icon: 'trophy', color: '#F59E0B' },
+  achievement_unlocked: { icon: 'ribbon', color: '#10B981' },
+  friend_added: { icon: 'person-add', color: '#EC4899' },
+  group_joined: { icon: 'people', color: '#6366F1' },
+};
+
+export const ActivityFeedList: React.FC = () => {
+  const { user } = useAuth();
+  const [activities, setActivities] = useState<ActivityFeed[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+  const [commentsActivity, setCommentsActivity] = useState<ActivityFeed | null>(null);
+  const pageRef = useRef(1);
+  const loadingMoreRef = useRef(false); // Guard against duplicate onEndReached calls
+  const likeInFlightRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    loadFeed(true);
+  }, []);
+
+  // Prepend friends' new activity as it is broadcast on our user channel
+  useEffect(() => {
+    if (!user?.id) return;
+
+    return realtimeEventBus.subscribe(
+      'activity.created',
+      (event) => {
+        const activity = event.payload.activity;
+        if (!activity?.id) return;
+        setActivities((prev) => (prev.some((a) => a.id === activity.id) ? prev : [activity, ...prev]));
+      },
+      { channel: `private-user.${user.id}` }
+    );
+  }, [user?.id]);
+
+  const loadFeed = async (reset: boolean) => {
+    const page = reset ? 1 : pageRef.current + 1;
+
+    try {
+      const response = await socialService.getActivityFeed({ page, limit: PER_PAGE });
+      const items = response.activities || [];
+
+      setActivities((prev) => {
+        if (reset) return items;
+        const seen = new Set(prev.map((a) => a.id));
+        return [...prev, ...items.filter((a) => !seen.has(a.id))];
+      });
+      pageRef.current = page;
+      setHasMore(page * PER_PAGE < response.total && items.length > 0);
+    } catch (error) {
+      console.error('❌ Failed to load activity feed:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadFeed(true);
+    setRefreshing(false);
+  };
+
+  const handleLoadMore = async () => {
+    if (loadingMoreRef.current || !hasMore || isLoading || refreshing) return;
+
+    loadingMoreRef.current = true;
+    setIsLoadingMore(true);
+    await loadFeed(false);
+    setIsLoadingMore(false);
+    loadingMoreRef.current = false;
+  };
+
+  const updateActivity = (activityId: string, changes: Partial<ActivityFeed>) => {
+    setActivities((prev) => prev.map((a) => (a.id === activityId ? { ...a, ...changes } : a)));
+  };
+
+  // Optimistic like toggle: flip immediately, roll back if the request fails
+  const handleToggleLike = async (activity: ActivityFeed) => {
+    if (likeInFlightRef.current.has(activity.id)) return;
+    if (activity.hasLiked && !FEED_UNLIKE_ENABLED) return;
+    likeInFlightRef.current.add(activity.id);
+
+    const wasLiked = activity.hasLiked;
+    updateActivity(activity.id, {
+      hasLiked: !wasLiked,
+      likes: Math.max(0, activity.likes + (wasLiked ? -1 : 1)),
+    });
+
+    try {
+      const response = wasLiked
+        ? await socialService.unlikeActivity(activity.id)
+        : await socialService.likeActivity(activity.id);
+      if (typeof response?.likes === 'number') {
+        updateActivity(activity.id, { likes: response.likes });
+      }
+    } catch (error) {
+      console.error('❌ Failed to update like:', error);
+      updateActivity(activity.id, { hasLiked: wasLiked, likes: activity.likes });
+    } finally {
+      likeInFlightRef.current.delete(activity.id);
+    }
+  };
+
+  const handleCommentAdded = useCallback((activityId: string) => {
+    setActivities((prev) => prev.map((a) => (a.id === activityId ? { ...a, comments: a.comments + 1 } : a)));
+  }, []);
+
+  const openProfile = (activity: ActivityFeed) => {
+    router.push({
+      pathname: '/profile/public-profile',
+      params: { userId: String(activity.userId), username: activity.username },
+    });
+  };
+
+  const handleActivityPress = (activity: ActivityFeed) => {
+    const metadata = activity.content.metadata;
+
+    switch (activity.type) {
+      case 'group_joined':
+        if (metadata?.groupId) {
+          router.push(`/groups/${metadata.groupId}`);
+          return;
+        }
+        break;
+      case 'challenge_joined':
+        if (metadata?.challengeId) {
+          router.push(`/challenges/${metadata.challengeId}`);
+          return;
+        }
+        break;
+      case 'achievement_unlocked':
+        router.push('/achievements');
+        return;
+    }
+
+    openProfile(activity);
+  };
+
+  const renderActivity = ({ item }: { item: ActivityFeed }) => {
+    const typeConfig = ACTIVITY_ICONS[item.type] || ACTIVITY_ICONS.workout_completed;
+    const metadata = item.content.metadata;
+
+    return (
+      <TouchableOpacity style={styles.card} onPress={() => handleActivityPress(item)} activeOpacity={0.8}>
+        <View style={styles.cardHeader}>
+          <TouchableOpacity onPress={() => openProfile(item)} style={styles.avatarWrapper}>
+            <Avatar profilePicture={item.profilePicture} size="xs" backgroundColor={COLORS.PRIMARY[100]} iconColor={COLORS.PRIMARY[600]} />
+            <View style={[styles.typeBadge, { backgroundColor: typeConfig.color }]}>
+              <Ionicons name={typeConfig.icon} size={10} color="white" />
+            </View>
+          </TouchableOpacity>
+          <View style={styles.headerInfo}>
+            <Text style={styles.username} numberOfLines={1}>{item.username}</Text>
+            <Text style={styles.timestamp}>{formatTimeAgo(item.timestamp)}</Text>
+          </View>
+        </View>
+
+        <Text style={styles.title}>{item.content.title}</Text>
+        {!!item.content.description && (
+          <Text style={styles.description} numberOfLines={3}>{item.content.description}</Text>
+        )}
+
+        {(metadata?.durationMinutes || metadata?.caloriesBurned) ? (
+          <View style={styles.statsRow}>
+            {!!metadata?.durationMinutes && (
+              <View style={styles.statChip}>
+                <Ionicons name="time-outline" size={14} color={COLORS.SECONDARY[600]} />
+                <Text style={styles.statText}>{metadata.durationMinutes} min</Text>
+              </View>
+            )}
+            {!!metadata?.caloriesBurned && (
+              <View style={styles.statChip}>
+                <Ionicons name="flame-outline" size={14} color={COLORS.SECONDARY[600]} />
+                <Text style={styles.statText}>{metadata.caloriesBurned} kcal</Text>
+              </View>
+            )}
+          </View>
+        ) : null}
+
+        <View style={styles.actionsRow}>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => handleToggleLike(item)}
+            disabled={item.hasLiked && !FEED_UNLIKE_ENABLED}
+          >
+            <Ionicons
+              name={item.hasLiked ? 'heart' : 'heart-outline'}
+              size={20}
+              color={item.hasLiked ? COLORS.ERROR[500] : COLORS.SECONDARY[500]}
+            />
+            <Text style={[styles.actionText, item.hasLiked && styles.actionTextLiked]}>{item.likes}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => setCommentsActivity(item)}
+            disabled={!FEED_COMMENTS_ENABLED}
+          >
+            <Ionicons name="chatbubble-outline" size={19} color={COLORS.SECONDARY[500]} />
+            <Text style={styles.actionText}>{item.comments}</Text>
+          </TouchableOpacity>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={COLORS.PRIMARY[600]} />
+      </View>
+    );
+  }
+
+  return (
+    <>
+      <FlatList
+        data={activities}
+        keyExtractor={(item) => item.id}
+        renderItem={renderActivity}
+        contentContainerStyle={styles.listContent}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+        onEndReached={handleLoadMore}
+        onEndReachedThreshold={0.4}
+        showsVerticalScrollIndicator={false}
+        ListFooterComponent={
+          isLoadingMore ? <ActivityIndicator style={styles.footerLoader} color={COLORS.PRIMARY[600]} /> : null
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Ionicons name="pulse-outline" size={56} color={COLORS.SECONDARY[300]} />
+            <Text style={styles.emptyTitle}>No activity yet</Text>
+            <Text style={styles.emptyText}>
+              Workouts, achievements and challenges from your friends and groups will show up here.
+            </Text>
+          </View>
+        }
+      />
+
+      {FEED_COMMENTS_ENABLED && (
+        <ActivityCommentsModal
+          visible={!!commentsActivity}
+          activity={commentsActivity}
+          onClose={() => setCommentsActivity(null)}
+          onCommentAdded={handleCommentAdded}
+        />
+      )}
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 100,
+    flexGrow: 1,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.06,
+    shadowRadius: 3,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  avatarWrapper: {
+    marginRight: 12,
+  },
+  typeBadge: {
+    position: 'absolute',
+    right: -2,
+    bottom: -2,
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    borderWidth: 2,
+    borderColor: 'white',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  username: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  timestamp: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 2,
+  },
+  title: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+    marginBottom: 4,
+  },
+  description: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[600],
+    lineHeight: 20,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 10,
+  },
+  statChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: COLORS.SECONDARY[50],
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  statText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.SECONDARY[700],
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    marginTop: 12,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.SECONDARY[100],
+    gap: 24,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  actionText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.SECONDARY[600],
+  },
+  actionTextLiked: {
+    color: COLORS.ERROR[500],
+  },
+  footerLoader: {
+    paddingVertical: 16,
+  },
+  emptyState: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+    paddingVertical: 60,
+  },
+  emptyTitle: {
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+    marginTop: 16,
+  },
+  emptyText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    textAlign: 'center',
+    marginTop: 8,
+    lineHeight: 20,
+  },
+});
+
+export default ActivityFeedList;
@@ -0,0 +1,374 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  ActivityIndicator,
+  Animated,
+  Dimensions,
+  Switch,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+import { EVALUATION_PROS, EVALUATION_CONS } from '../../constants/sharedWorkouts';
+import { socialService, WorkoutEvaluation } from '../../services/microservices/socialService';
+import { useAlert } from '../../contexts/AlertContext';
+
+const SCREEN_HEIGHT = Dimensions.get('window').height;
+const MAX_REVIEW_LENGTH = 1000;
+
+type ScoreField = 'rating' | 'difficulty' | 'effectiveness' | 'enjoyment';
+
+const SCORE_FIELDS: { key: ScoreField; label: string; hint: string }[] = [
+  { key: 'rating', label: 'Overall', hint: 'How good is this workout?' },
+  { key: 'difficulty', label: 'Difficulty', hint: '1 = very easy, 5 = very hard' },
+  { key: 'effectiveness', label: 'Effectiveness', hint: 'Did it work the muscles it promises?' },
+  { key: 'enjoyment', label: 'Enjoyment', hint: 'Would you look forward to it?' },
+];
+
+interface WorkoutEvaluationModalProps {
+  visible: boolean;
+  sharedWorkoutId: string;
+  workoutTitle: string;
+  onClose: () => void;
+  onSubmitted: (evaluation: WorkoutEvaluation) => void;
+}
+
+export const WorkoutEvaluationModal: React.FC<WorkoutEvaluationModalProps> = ({
+  visible,
+  sharedWorkoutId,
+  workoutTitle,
+  onClose,
+  onSubmitted,
+}) => {
+  const alert = useAlert();
+  const [scores, setScores] = useState<Record<ScoreField, number>>({ rating: 0, difficulty: 0, effectiveness: 0, enjoyment: 0 });
+  const [wouldRecommend, setWouldRecommend] = useState(true);
+  const [pros, setPros] = useState<string[]>([]);
+  const [cons, setCons] = useState<string[]>([]);
+  const [review, setReview] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isModalVisible, setIsModalVisible] = useState(false);
+
+  const overlayAnim = useRef(new Animated.Value(0)).current;
+  const slideAnim = useRef(new Animated.Value(SCREEN_HEIGHT)).current;
+
+  useEffect(() => {
+    if (visible) {
+      setIsModalVisible(true);
+      setScores({ rating: 0, difficulty: 0, effectiveness: 0, enjoyment: 0 });
+      setWouldRecommend(true);
+      setPros([]);
+      setCons([]);
+      setReview('');
+      overlayAnim.setValue(0);
+      slideAnim.setValue(SCREEN_HEIGHT);
+      Animated.parallel([
+        Animated.timing(overlayAnim, {
+          toValue: 1,
+          duration: 300,
+          useNativeDriver: true,
+        }),
+        Animated.spring(slideAnim, {
+          toValue: 0,
+          friction: 9,
+          tension: 50,
+          useNativeDriver: true,
+        }),
+      ]).start();
+    } else if (isModalVisible) {
+      setIsModalVisible(false);
+    }
+  }, [visible]);
+
+  const handleClose = () => {
+    Animated.parallel([
+      Animated.timing(overlayAnim, {
+        toValue: 0,
+        duration: 250,
+        useNativeDriver: true,
+      }),
+      Animated.timing(slideAnim, {
+        toValue: SCREEN_HEIGHT,
+        duration: 250,
+        useNativeDriver: true,
+      }),
+    ]).start(() => {
+      setIsModalVisible(false);
+      onClose();
+    });
+  };
+
+  const toggleItem = (list: string[], setList: (items: string[]) => void, item: string) => {
+    setList(list.includes(item) ? list.filter((i) => i !== item) : [...list, item]);
+  };
+
+  const isComplete = SCORE_FIELDS.every((field) => scores[field.key] > 0);
+
+  const handleSubmit = async () => {
+    if (!isComplete || isSubmitting) return;
+
+    setIsSubmitting(true);
+    try {
+      const evaluation = await socialService.evaluateWorkout({
+        workoutId: sharedWorkoutId,
+        ...scores,
+        wouldRecommend,
+        review: review.trim() || undefined,
+        pros,
+        cons,
+      });
+      onSubmitted(evaluation);
+      handleClose();
+    } catch (error) {
+      console.error('❌ Failed to submit evaluation:', error);
+      alert.error('Error', (error as Error).message || 'Failed to submit your review');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderChips = (options: string[], selected: string[], onToggle: (item: string) => void, color: string) => (
+    <View style={styles.chipWrap}>
+      {options.map((option) => {
+        const isSelected = selected.includes(option);
+        return (
+          <TouchableOpacity
+            key={option}
+            style={[styles.chip, isSelected && { backgroundColor: color, borderColor: color }]}
+            onPress={() => onToggle(option)}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.chipText, isSelected && styles.chipTextActive]}>{option}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={isModalVisible}
+      animationType="none"
+      transparent={true}
+      onRequestClose={handleClose}
+    >
+      <KeyboardAvoidingView style={styles.overlay} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <Animated.View style={[styles.overlayBackground, { opacity: overlayAnim }]} />
+        <Animated.View style={[styles.container, { transform: [{ translateY: slideAnim }] }]}>
+          {/* Header */}
+          <View style={styles.header}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.title}>Write a Review</Text>
+              <Text style={styles.subtitle} numberOfLines={1}>{workoutTitle}</Text>
+            </View>
+            <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={COLORS.SECONDARY[600]} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+            {SCORE_FIELDS.map((field) => (
+              <View key={field.key} style={styles.scoreRow}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.scoreLabel}>{field.label}</Text>
+                  <Text style={styles.scoreHint}>{field.hint}</Text>
+                </View>
+                <View style={styles.stars}>
+                  {[1, 2, 3, 4, 5].map((value) => (
+                    <TouchableOpacity
+                      key={value}
+                      onPress={() => setScores((prev) => ({ ...prev, [field.key]: value }))}
+                      hitSlop={4}
+                    >
+                      <Ionicons
+                        name={value <= scores[field.key] ? 'star' : 'star-outline'}
+                        size={22}
+                        color={value <= scores[field.key] ? '#F59E0B' : COLORS.SECONDARY[300]}
+                      />
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            ))}
+
+            <View style={styles.recommendRow}>
+              <Text style={styles.sectionLabel}>Would you recommend it?</Text>
+              <Switch
+                value={wouldRecommend}
+                onValueChange={setWouldRecommend}
+                trackColor={{ false: COLORS.SECONDARY[200], true: COLORS.PRIMARY[500] }}
+              />
+            </View>
+
+            <Text style={styles.sectionLabel}>Pros</Text>
+            {renderChips(EVALUATION_PROS, pros, (item) => toggleItem(pros, setPros, item), COLORS.SUCCESS[600])}
+
+            <Text style={styles.sectionLabel}>Cons</Text>
+            {renderChips(EVALUATION_CONS, cons, (item) => toggleItem(cons, setCons, item), COLORS.ERROR[500])}
+
+            <Text style={styles.sectionLabel}>Review (optional)</Text>
+            <TextInput
+              style={styles.reviewInput}
+              value={review}
+              onChangeText={setReview}
+              placeholder="What should others know before trying it?"
+              placeholderTextColor={COLORS.SECONDARY[400]}
+              maxLength={MAX_REVIEW_LENGTH}
+              multiline
+              textAlignVertical="top"
+            />
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <TouchableOpacity
+              style={[styles.submitButton, (!isComplete || isSubmitting) && styles.submitButtonDisabled]}
+              onPress={handleSubmit}
+              disabled={!isComplete || isSubmitting}
+            >
+              {isSubmitting ? (
+                <ActivityIndicator color="white" />
+              ) : (
+                <Text style={styles.submitButtonText}>{isComplete ? 'Submit Review' : 'Rate all four to submit'}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </Animated.View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  overlayBackground: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  container: {
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    maxHeight: '90%',
+    paddingBottom: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.SECONDARY[100],
+  },
+  title: {
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  subtitle: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[600],
+    marginTop: 2,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    padding: 20,
+  },
+  scoreRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  scoreLabel: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  scoreHint: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+  },
+  stars: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  recommendRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  sectionLabel: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[700],
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  chipWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.SECONDARY[200],
+  },
+  chipText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.SECONDARY[700],
+  },
+  chipTextActive: {
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  reviewInput: {
+    minHeight: 96,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.SECONDARY[200],
+    padding: 12,
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[900],
+  },
+  footer: {
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.SECONDARY[100],
+  },
+  submitButton: {
+    backgroundColor: COLORS.PRIMARY[600],
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  submitButtonDisabled: {
+    opacity: 0.5,
+  },
+  submitButtonText: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+});
+
+export default WorkoutEvaluationModal;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, ViewStyle } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNetwork } from '../../contexts/NetworkContext';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+
+interface PendingSyncBadgeProps {
+  style?: ViewStyle;
+}
+
+/**
+ * Shows how many workouts/ratings/assessments are waiting in the offline outbox.
+ * Renders nothing once the server has confirmed everything. Tap to retry now.
+ */
+export const PendingSyncBadge: React.FC<PendingSyncBadgeProps> = ({ style }) => {
+  const { pendingSyncCount, isSyncing, isConnected, syncPendingWrites } = useNetwork();
+
+  if (pendingSyncCount === 0) return null;
+
+  const label = isSyncing
+    ? 'Syncing...'
+    : `${pendingSyncCount} pending sync${isConnected ? ' · Tap to retry' : ''}`;
+
+  return (
+    <TouchableOpacity
+      style={[styles.badge, style]}
+      onPress={() => syncPendingWrites()}
+      disabled={isSyncing || !isConnected}
+      activeOpacity={0.7}
+    >
+      <View style={styles.iconContainer}>
+        {isSyncing ? (
+          <ActivityIndicator size="small" color={COLORS.WARNING[600]} />
+        ) : (
+          <Ionicons name="cloud-upload-outline" size={14} color={COLORS.WARNING[600]} />
+        )}
+      </View>
+      <Text style={styles.text}>{label}</Text>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: COLORS.WARNING[50],
+    borderWidth: 1,
+    borderColor: COLORS.WARNING[200],
+  },
+  iconContainer: {
+    width: 14,
+    height: 14,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  text: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.WARNING[700],
+  },
+});
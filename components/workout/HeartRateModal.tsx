@@ -0,0 +1,395 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Animated,
+  Dimensions,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+import { HEART_RATE_SOURCES, HeartRateSourceKind, PULSE_CHECK_SECONDS } from '../../constants/heartRate';
+import { heartRateMonitor } from '../../services/heartRateMonitor';
+import { useAlert } from '../../contexts/AlertContext';
+
+const SCREEN_HEIGHT = Dimensions.get('window').height;
+
+interface HeartRateModalProps {
+  visible: boolean;
+  userId: string | number;
+  source: HeartRateSourceKind;
+  latestBpm: number | null;
+  onClose: () => void;
+  onSourceChange: (source: HeartRateSourceKind) => void;
+}
+
+/**
+ * Pick where heart rate comes from and, for pulse checks, log a reading.
+ * A timed count is multiplied up to beats per minute.
+ */
+export const HeartRateModal: React.FC<HeartRateModalProps> = ({
+  visible,
+  userId,
+  source,
+  latestBpm,
+  onClose,
+  onSourceChange,
+}) => {
+  const alert = useAlert();
+  const [isModalVisible, setIsModalVisible] = useState(false);
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [isCountEntry, setIsCountEntry] = useState(false);
+  const [value, setValue] = useState('');
+
+  const overlayAnim = useRef(new Animated.Value(0)).current;
+  const slideAnim = useRef(new Animated.Value(SCREEN_HEIGHT)).current;
+  const countdownRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  const stopCountdown = () => {
+    if (countdownRef.current) {
+      clearInterval(countdownRef.current);
+      countdownRef.current = null;
+    }
+    setCountdown(null);
+  };
+
+  useEffect(() => {
+    if (visible) {
+      setIsModalVisible(true);
+      setIsCountEntry(false);
+      setValue('');
+      overlayAnim.setValue(0);
+      slideAnim.setValue(SCREEN_HEIGHT);
+      Animated.parallel([
+        Animated.timing(overlayAnim, {
+          toValue: 1,
+          duration: 300,
+          useNativeDriver: true,
+        }),
+        Animated.spring(slideAnim, {
+          toValue: 0,
+          friction: 9,
+          tension: 50,
+          useNativeDriver: true,
+        }),
+      ]).start();
+    } else if (isModalVisible) {
+      stopCountdown();
+      setIsModalVisible(false);
+    }
+  }, [visible]);
+
+  useEffect(() => stopCountdown, []);
+
+  const handleClose = () => {
+    stopCountdown();
+    Animated.parallel([
+      Animated.timing(overlayAnim, {
+        toValue: 0,
+        duration: 250,
+        useNativeDriver: true,
+      }),
+      Animated.timing(slideAnim, {
+        toValue: SCREEN_HEIGHT,
+        duration: 250,
+        useNativeDriver: true,
+      }),
+    ]).start(() => {
+      setIsModalVisible(false);
+      onClose();
+    });
+  };
+
+  const handleSelectSource = async (kind: HeartRateSourceKind) => {
+    try {
+      await heartRateMonitor.setSource(userId, kind);
+      onSourceChange(kind);
+    } catch (error) {
+      console.error('❌ [HEART RATE] Failed to change source:', error);
+      alert.error('Error', 'Could not switch heart-rate source');
+    }
+  };
+
+  const handleStartCount = () => {
+    stopCountdown();
+    setValue('');
+    setIsCountEntry(false);
+    setCountdown(PULSE_CHECK_SECONDS);
+
+    countdownRef.current = setInterval(() => {
+      setCountdown((prev) => {
+        if (prev === null || prev <= 1) {
+          if (countdownRef.current) clearInterval(countdownRef.current);
+          countdownRef.current = null;
+          setIsCountEntry(true);
+          return null;
+        }
+        return prev - 1;
+      });
+    }, 1000);
+  };
+
+  const handleSave = () => {
+    const entered = parseInt(value, 10);
+    const bpm = isCountEntry ? entered * (60 / PULSE_CHECK_SECONDS) : entered;
+
+    if (!heartRateMonitor.recordManualReading(bpm)) {
+      alert.warning('Check Your Reading', `${isNaN(bpm) ? 'That' : `${bpm} bpm`} doesn't look right. Try counting again.`);
+      return;
+    }
+    handleClose();
+  };
+
+  const sources = heartRateMonitor.getAvailableSources();
+
+  return (
+    <Modal
+      visible={isModalVisible}
+      animationType="none"
+      transparent={true}
+      onRequestClose={handleClose}
+    >
+      <KeyboardAvoidingView style={styles.overlay} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <Animated.View style={[styles.overlayBackground, { opacity: overlayAnim }]} />
+        <Animated.View style={[styles.container, { transform: [{ translateY: slideAnim }] }]}>
+          {/* Header */}
+          <View style={styles.header}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.title}>Heart Rate</Text>
+              <Text style={styles.subtitle}>
+                {latestBpm !== null ? `Last reading ${latestBpm} bpm` : 'No readings yet this session'}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={COLORS.SECONDARY[600]} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+            {source === 'manual' && (
+              <View style={styles.pulseCard}>
+                {countdown !== null ? (
+                  <>
+                    <Text style={styles.countdownValue}>{countdown}</Text>
+                    <Text style={styles.pulseHint}>Count the beats at your wrist or neck</Text>
+                  </>
+                ) : (
+                  <>
+                    <Text style={styles.sectionLabel}>
+                      {isCountEntry ? `Beats in ${PULSE_CHECK_SECONDS} seconds` : 'Your heart rate (bpm)'}
+                    </Text>
+                    <TextInput
+                      style={styles.input}
+                      value={value}
+                      onChangeText={(text) => setValue(text.replace(/[^0-9]/g, ''))}
+                      keyboardType="number-pad"
+                      placeholder={isCountEntry ? 'e.g. 35' : 'e.g. 140'}
+                      placeholderTextColor={COLORS.SECONDARY[400]}
+                      maxLength={3}
+                      autoFocus={isCountEntry}
+                    />
+                    <View style={styles.pulseActions}>
+                      <TouchableOpacity style={styles.secondaryButton} onPress={handleStartCount}>
+                        <Ionicons name="timer-outline" size={18} color={COLORS.PRIMARY[600]} />
+                        <Text style={styles.secondaryButtonText}>{PULSE_CHECK_SECONDS}s Count</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[styles.primaryButton, !value && styles.buttonDisabled]}
+                        onPress={handleSave}
+                        disabled={!value}
+                      >
+                        <Text style={styles.primaryButtonText}>Log Reading</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </>
+                )}
+              </View>
+            )}
+
+            <Text style={styles.sectionLabel}>Source</Text>
+            {sources.map((kind) => {
+              const config = HEART_RATE_SOURCES[kind];
+              const isSelected = kind === source;
+              return (
+                <TouchableOpacity
+                  key={kind}
+                  style={[styles.sourceRow, isSelected && styles.sourceRowSelected]}
+                  onPress={() => handleSelectSource(kind)}
+                  activeOpacity={0.7}
+                >
+                  <Ionicons
+                    name={config.icon}
+                    size={20}
+                    color={isSelected ? COLORS.PRIMARY[600] : COLORS.SECONDARY[500]}
+                  />
+                  <View style={styles.sourceText}>
+                    <Text style={styles.sourceLabel}>{config.label}</Text>
+                    <Text style={styles.sourceDescription}>{config.description}</Text>
+                  </View>
+                  <Ionicons
+                    name={isSelected ? 'radio-button-on' : 'radio-button-off'}
+                    size={20}
+                    color={isSelected ? COLORS.PRIMARY[600] : COLORS.SECONDARY[300]}
+                  />
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        </Animated.View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  overlayBackground: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  container: {
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    maxHeight: '90%',
+    paddingBottom: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.SECONDARY[100],
+  },
+  title: {
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  subtitle: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[600],
+    marginTop: 2,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    padding: 20,
+  },
+  pulseCard: {
+    backgroundColor: COLORS.ERROR[50],
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    alignItems: 'stretch',
+  },
+  countdownValue: {
+    fontSize: 56,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.ERROR[600],
+    textAlign: 'center',
+  },
+  pulseHint: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[600],
+    textAlign: 'center',
+  },
+  sectionLabel: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[700],
+    marginBottom: 8,
+  },
+  input: {
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.SECONDARY[200],
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: FONT_SIZES.LG,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+    marginBottom: 12,
+  },
+  pulseActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  secondaryButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.PRIMARY[200],
+    backgroundColor: COLORS.NEUTRAL.WHITE,
+    paddingVertical: 12,
+  },
+  secondaryButtonText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.PRIMARY[600],
+  },
+  primaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 12,
+    backgroundColor: COLORS.PRIMARY[600],
+    paddingVertical: 12,
+  },
+  primaryButtonText: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.NEUTRAL.WHITE,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  sourceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.SECONDARY[100],
+    marginBottom: 8,
+  },
+  sourceRowSelected: {
+    borderColor: COLORS.PRIMARY[300],
+    backgroundColor: COLORS.PRIMARY[50],
+  },
+  sourceText: {
+    flex: 1,
+  },
+  sourceLabel: {
+    fontSize: FONT_SIZES.BASE,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  sourceDescription: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[500],
+    marginTop: 2,
+  },
+});
+
+export default HeartRateModal;
@@ -0,0 +1,166 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { COLORS, FONTS, FONT_SIZES } from '../../constants/colors';
+import { HEART_RATE_ZONES } from '../../constants/heartRate';
+import type { HeartRateSummary } from '../../utils/heartRate';
+
+interface HeartRateSummaryCardProps {
+  summary: HeartRateSummary;
+}
+
+const formatZoneTime = (seconds: number): string => {
+  const rounded = Math.round(seconds);
+  const minutes = Math.floor(rounded / 60);
+  const rest = rounded % 60;
+  return minutes > 0 ? `${minutes}:${rest.toString().padStart(2, '0')}` : `${rest}s`;
+};
+
+/**
+ * Session heart-rate results: average/peak, time in each zone and per-exercise averages
+ */
+export const HeartRateSummaryCard: React.FC<HeartRateSummaryCardProps> = ({ summary }) => {
+  const totalSeconds = HEART_RATE_ZONES.reduce((sum, zone) => sum + summary.timeInZone[zone.key], 0);
+  const zones = HEART_RATE_ZONES.filter((zone) => summary.timeInZone[zone.key] > 0);
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.headerRow}>
+        <Ionicons name="heart" size={18} color={COLORS.ERROR[500]} />
+        <Text style={styles.title}>Heart Rate</Text>
+        <Text style={styles.headline}>
+          {summary.averageBpm} avg · {summary.peakBpm} peak
+        </Text>
+      </View>
+
+      {totalSeconds > 0 && (
+        <>
+          <View style={styles.stackedBar}>
+            {zones.map((zone) => (
+              <View key={zone.key} style={{ flex: summary.timeInZone[zone.key], backgroundColor: zone.color }} />
+            ))}
+          </View>
+          <View style={styles.legend}>
+            {zones.map((zone) => (
+              <View key={zone.key} style={styles.legendItem}>
+                <View style={[styles.swatch, { backgroundColor: zone.color }]} />
+                <Text style={styles.legendText}>
+                  {zone.label} {formatZoneTime(summary.timeInZone[zone.key])}
+                </Text>
+              </View>
+            ))}
+          </View>
+        </>
+      )}
+
+      {summary.exercises.length > 0 && (
+        <View style={styles.exerciseList}>
+          <View style={styles.exerciseRow}>
+            <Text style={[styles.exerciseName, styles.columnHint]}>Exercise (bpm)</Text>
+            <Text style={[styles.exerciseValue, styles.columnHint]}>avg</Text>
+            <Text style={[styles.exercisePeak, styles.columnHint]}>peak</Text>
+          </View>
+          {summary.exercises.map((exercise) => (
+            <View key={exercise.exerciseIndex} style={styles.exerciseRow}>
+              <Text style={styles.exerciseName} numberOfLines={1}>{exercise.name}</Text>
+              <Text style={styles.exerciseValue}>{exercise.averageBpm}</Text>
+              <Text style={styles.exercisePeak}>{exercise.peakBpm}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: COLORS.ERROR[50],
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 10,
+  },
+  title: {
+    flex: 1,
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  headline: {
+    fontSize: FONT_SIZES.SM,
+    fontFamily: FONTS.BOLD,
+    color: COLORS.ERROR[600],
+  },
+  stackedBar: {
+    flexDirection: 'row',
+    height: 10,
+    borderRadius: 5,
+    overflow: 'hidden',
+    gap: 2,
+    marginBottom: 8,
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  swatch: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  legendText: {
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.MEDIUM,
+    color: COLORS.SECONDARY[700],
+  },
+  exerciseList: {
+    marginTop: 10,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.ERROR[100],
+  },
+  exerciseRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 3,
+  },
+  exerciseName: {
+    flex: 1,
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[700],
+    marginRight: 8,
+  },
+  exerciseValue: {
+    width: 40,
+    textAlign: 'right',
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.SEMIBOLD,
+    color: COLORS.SECONDARY[900],
+  },
+  exercisePeak: {
+    width: 40,
+    textAlign: 'right',
+    fontSize: FONT_SIZES.XS,
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.ERROR[600],
+  },
+  columnHint: {
+    fontFamily: FONTS.REGULAR,
+    color: COLORS.SECONDARY[400],
+  },
+});
+
+export default HeartRateSummaryCard;
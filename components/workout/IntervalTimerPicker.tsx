@@ -0,0 +1,187 @@
+/**
+ * IntervalTimerPicker Component
+ *
+ * Lets the user pick the interval protocol (Tabata, EMOM, AMRAP, ladder) for a
+ * solo workout and adjust work, rest and rounds within the protocol's bounds.
+ * Values are clamped by the interval engine, so the picker can never produce
+ * a config the session screen can't run.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { COLORS, FONTS } from '../../constants/colors';
+import {
+  createIntervalConfig,
+  getIntervalFieldBounds,
+  IntervalConfigField,
+  IntervalProtocol,
+  IntervalTimerConfig,
+  INTERVAL_PROTOCOL_LABELS,
+} from '../../services/intervalTimerEngine';
+
+interface IntervalTimerPickerProps {
+  config: IntervalTimerConfig;
+  onChange: (config: IntervalTimerConfig) => void;
+}
+
+const PROTOCOL_DESCRIPTIONS: Record<IntervalProtocol, string> = {
+  tabata: 'Short all-out bursts with brief rests',
+  emom: 'Start a set at the top of every interval, rest for the remainder',
+  amrap: 'As many reps as possible before the time cap',
+  ladder: 'Work gets longer with every set',
+};
+
+const FIELDS: { field: IntervalConfigField; label: string; step: (protocol: IntervalProtocol) => number; unit: string }[] = [
+  { field: 'workDuration', label: 'Work', step: (protocol) => (protocol === 'amrap' ? 60 : 5), unit: 's' },
+  { field: 'restDuration', label: 'Rest', step: () => 5, unit: 's' },
+  { field: 'rounds', label: 'Rounds', step: () => 1, unit: '' },
+  { field: 'ladderStep', label: 'Step Up', step: () => 5, unit: 's' },
+];
+
+/**
+ * One-line summary of a timer config, e.g. "20s work • 10s rest • 8 rounds per exercise"
+ */
+export const describeIntervalConfig = (config: IntervalTimerConfig): string => {
+  switch (config.protocol) {
+    case 'emom':
+      return `${config.workDuration}s intervals • ${config.rounds} rounds per exercise`;
+    case 'amrap':
+      return `${Math.round(config.workDuration / 60)} min time cap per exercise`;
+    case 'ladder':
+      return `${config.workDuration}s work (+${config.ladderStep}s each set) • ${config.restDuration}s rest • ${config.rounds} sets per exercise`;
+    default:
+      return `${config.workDuration}s work • ${config.restDuration}s rest • ${config.rounds} rounds per exercise`;
+  }
+};
+
+export const IntervalTimerPicker: React.FC<IntervalTimerPickerProps> = ({ config, onChange }) => {
+  const adjust = (field: IntervalConfigField, delta: number) => {
+    onChange(createIntervalConfig(config.protocol, { ...config, [field]: config[field] + delta }));
+  };
+
+  return (
+    <View>
+      <View style={styles.protocolChips}>
+        {(Object.keys(INTERVAL_PROTOCOL_LABELS) as IntervalProtocol[]).map((protocol) => {
+          const isSelected = config.protocol === protocol;
+          return (
+            <TouchableOpacity
+              key={protocol}
+              onPress={() => onChange(createIntervalConfig(protocol))}
+              style={[styles.protocolChip, isSelected && styles.protocolChipSelected]}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.protocolChipText, isSelected && styles.protocolChipTextSelected]}>
+                {INTERVAL_PROTOCOL_LABELS[protocol]}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <Text style={styles.description}>{PROTOCOL_DESCRIPTIONS[config.protocol]}</Text>
+
+      {FIELDS.map(({ field, label, step, unit }) => {
+        const [min, max] = getIntervalFieldBounds(config.protocol, field);
+        // Fields the protocol fixes (e.g. EMOM rest) aren't adjustable
+        if (min === max) return null;
+
+        const value = config[field];
+        const increment = step(config.protocol);
+        return (
+          <View key={field} style={styles.fieldRow}>
+            <Text style={styles.fieldLabel}>{label}</Text>
+            <View style={styles.stepper}>
+              <TouchableOpacity
+                onPress={() => adjust(field, -increment)}
+                disabled={value <= min}
+                style={[styles.stepperButton, value <= min && styles.stepperButtonDisabled]}
+              >
+                <Ionicons name="remove" size={16} color={COLORS.PRIMARY[600]} />
+              </TouchableOpacity>
+              <Text style={styles.fieldValue}>{value}{unit}</Text>
+              <TouchableOpacity
+                onPress={() => adjust(field, increment)}
+                disabled={value >= max}
+                style={[styles.stepperButton, value >= max && styles.stepperButtonDisabled]}
+              >
+                <Ionicons name="add" size={16} color={COLORS.PRIMARY[600]} />
+              </TouchableOpacity>
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  protocolChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  protocolChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#3B82F6' + '30',
+  },
+  protocolChipSelected: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  protocolChipText: {
+    fontSize: 13,
+    fontFamily: FONTS.SEMIBOLD,
+    color: '#3B82F6',
+  },
+  protocolChipTextSelected: {
+    color: 'white',
+  },
+  description: {
+    fontSize: 13,
+    fontFamily: FONTS.REGULAR,
+    color: '#6B7280',
+    marginBottom: 8,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontFamily: FONTS.MEDIUM,
+    color: '#374151',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperButton: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    backgroundColor: COLORS.PRIMARY[50],
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperButtonDisabled: {
+    opacity: 0.4,
+  },
+  fieldValue: {
+    minWidth: 56,
+    textAlign: 'center',
+    fontSize: 15,
+    fontFamily: FONTS.SEMIBOLD,
+    color: '#111827',
+  },
+});
+
+export default IntervalTimerPicker;
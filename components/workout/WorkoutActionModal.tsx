@@ -103,7 +103,7 @@ export const WorkoutActionModal: React.FC<WorkoutActionModalProps> = ({
       const groupsWithCounts = await Promise.all(
         rawGroups.map(async (group) => {
           try {
-            const membersData = await socialService.getGroupMembers(group.id, 1, 1);
+            const membersData = await socialService.getGroupMembers(group.id, 1, 1, { priority: 'background' });
             return { ...group, memberCount: membersData.total || group.memberCount };
           } catch {
             return group;
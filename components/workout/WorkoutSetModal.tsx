@@ -13,6 +13,13 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { COLORS, FONTS } from '../../constants/colors';
 import { ExerciseSwapModal } from './ExerciseSwapModal';
+import { IntervalTimerPicker, describeIntervalConfig } from './IntervalTimerPicker';
+import {
+  IntervalTimerConfig,
+  IntervalTimerEngine,
+  INTERVAL_PROTOCOL_LABELS,
+  INTERVAL_PRESETS,
+} from '../../services/intervalTimerEngine';
 
 const { width, height } = Dimensions.get('window');
 
@@ -43,6 +50,9 @@ interface WorkoutSetModalProps {
   alternativePool?: Exercise[];  // Alternative exercises for swapping
   canCustomize?: boolean;         // Whether user can customize (advanced/mentor)
   onExerciseSwap?: (exerciseIndex: number, newExercise: Exercise) => void;  // Callback when exercise is swapped
+  // Interval protocol for the session (defaults to standard Tabata)
+  timerConfig?: IntervalTimerConfig;
+  onTimerConfigChange?: (config: IntervalTimerConfig) => void;
 }
 
 export const WorkoutSetModal: React.FC<WorkoutSetModalProps> = ({
@@ -53,8 +63,11 @@ export const WorkoutSetModal: React.FC<WorkoutSetModalProps> = ({
   alternativePool = [],
   canCustomize = false,
   onExerciseSwap,
+  timerConfig = INTERVAL_PRESETS.tabata,
+  onTimerConfigChange,
 }) => {
   const scrollViewRef = useRef<ScrollView>(null);
+  const [showTimerOptions, setShowTimerOptions] = useState(false);
   const pan = useRef(new Animated.Value(0)).current;
 
   // NEW: State for exercise swap modal
@@ -254,7 +267,11 @@ export const WorkoutSetModal: React.FC<WorkoutSetModalProps> = ({
             <View style={styles.summaryRow}>
               <View style={styles.summaryItem}>
                 <Ionicons name="time-outline" size={20} color={COLORS.PRIMARY[600]} />
-                <Text style={styles.summaryValue}>{workoutSet.total_duration}</Text>
+                <Text style={styles.summaryValue}>
+                  {timerConfig === INTERVAL_PRESETS.tabata
+                    ? workoutSet.total_duration
+                    : Math.round(new IntervalTimerEngine(timerConfig, workoutSet.exercises.length).getTotalDuration() / 60)}
+                </Text>
                 <Text style={styles.summaryLabel}>Minutes</Text>
               </View>
               <View style={styles.summaryDivider} />
@@ -276,11 +293,23 @@ export const WorkoutSetModal: React.FC<WorkoutSetModalProps> = ({
           <View style={styles.protocolCard}>
             <View style={styles.protocolHeader}>
               <Ionicons name="information-circle" size={20} color="#3B82F6" />
-              <Text style={styles.protocolTitle}>Tabata Protocol</Text>
+              <Text style={styles.protocolTitle}>{INTERVAL_PROTOCOL_LABELS[timerConfig.protocol]} Protocol</Text>
+              {onTimerConfigChange && (
+                <TouchableOpacity
+                  onPress={() => setShowTimerOptions((shown) => !shown)}
+                  style={styles.protocolToggle}
+                  activeOpacity={0.7}
+                >
+                  <Text style={styles.protocolToggleText}>{showTimerOptions ? 'Done' : 'Customize'}</Text>
+                </TouchableOpacity>
+              )}
             </View>
-            <Text style={styles.protocolText}>
-              20 seconds work • 10 seconds rest • 8 rounds per exercise
-            </Text>
+            <Text style={styles.protocolText}>{describeIntervalConfig(timerConfig)}</Text>
+            {onTimerConfigChange && showTimerOptions && (
+              <View style={styles.timerOptions}>
+                <IntervalTimerPicker config={timerConfig} onChange={onTimerConfigChange} />
+              </View>
+            )}
           </View>
 
           {/* Exercise List */}
@@ -334,11 +363,13 @@ export const WorkoutSetModal: React.FC<WorkoutSetModalProps> = ({
                   </Text>
                   <View style={styles.exerciseDetailDivider} />
                   <Text style={styles.exerciseDetailsLine}>
-                    20s work • 10s rest
+                    {timerConfig.restDuration > 0
+                      ? `${timerConfig.workDuration}s work • ${timerConfig.restDuration}s rest`
+                      : `${timerConfig.workDuration}s work`}
                   </Text>
                   <View style={styles.exerciseDetailDivider} />
                   <Text style={styles.exerciseDetailsLine}>
-                    8 rounds
+                    {timerConfig.rounds} {timerConfig.rounds === 1 ? 'round' : 'rounds'}
                   </Text>
                 </View>
               </View>
@@ -506,6 +537,22 @@ const styles = StyleSheet.create({
     color: '#6B7280',
     lineHeight: 20,
   },
+  protocolToggle: {
+    marginLeft: 'auto',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  protocolToggleText: {
+    fontSize: 13,
+    fontFamily: FONTS.SEMIBOLD,
+    color: '#3B82F6',
+  },
+  timerOptions: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#3B82F6' + '20',
+  },
   exerciseList: {
     flex: 1,
     paddingHorizontal: 24,
@@ -0,0 +1,7 @@
+// Feature switches for the social activity feed
+
+// The social service has no routes yet for unliking a feed item or for listing and
+// posting feed comments; likes stay one-way and comments show their count only until
+// it does
+export const FEED_UNLIKE_ENABLED = false;
+export const FEED_COMMENTS_ENABLED = false;
@@ -0,0 +1,36 @@
+// Display configuration for the performance analytics dashboard
+
+import { Ionicons } from '@expo/vector-icons';
+import type { PerformanceMetrics } from '../services/microservices/trackingService';
+
+type IconName = keyof typeof Ionicons.glyphMap;
+
+export type AnalyticsPeriod = PerformanceMetrics['period'] | 'custom';
+
+export const ANALYTICS_PERIODS: { key: AnalyticsPeriod; label: string }[] = [
+  { key: 'week', label: 'Week' },
+  { key: 'month', label: 'Month' },
+  { key: 'year', label: 'Year' },
+  { key: 'custom', label: 'Custom' },
+];
+
+// Longest range the custom metrics endpoint accepts
+export const MAX_CUSTOM_RANGE_DAYS = 366;
+
+export const TREND_DISPLAY: Record<PerformanceMetrics['trends'][number]['trend'], { icon: IconName; color: string; bgColor: string }> = {
+  up: { icon: 'trending-up', color: '#16A34A', bgColor: '#DCFCE7' },
+  down: { icon: 'trending-down', color: '#DC2626', bgColor: '#FEE2E2' },
+  stable: { icon: 'remove', color: '#6B7280', bgColor: '#F3F4F6' },
+};
+
+export const DIFFICULTY_COLORS: Record<string, string> = {
+  beginner: '#10B981',
+  intermediate: '#F59E0B',
+  advanced: '#EF4444',
+};
+
+// Cycled through for workout types, which the backend doesn't fix to a set
+export const BREAKDOWN_PALETTE = ['#3B82F6', '#8B5CF6', '#10B981', '#F59E0B', '#EF4444', '#06B6D4', '#EC4899'];
+
+// Records set this recently get a "NEW" badge on the board
+export const NEW_RECORD_DAYS = 7;
@@ -0,0 +1,50 @@
+// Display configuration for the body metrics journal
+
+import { Ionicons } from '@expo/vector-icons';
+import type { BMIEntry } from '../services/microservices/trackingService';
+
+type IconName = keyof typeof Ionicons.glyphMap;
+
+export type BodyMetricType = 'weight' | 'body-fat' | 'measurement';
+
+export const BODY_METRIC_TYPES: Record<BodyMetricType, {
+  label: string;
+  icon: IconName;
+  color: string;
+  bgColor: string;
+  unit: string;
+  min: number;
+  max: number;
+}> = {
+  weight: { label: 'Weight', icon: 'scale', color: '#3B82F6', bgColor: '#DBEAFE', unit: 'kg', min: 20, max: 350 },
+  'body-fat': { label: 'Body Fat', icon: 'water', color: '#F59E0B', bgColor: '#FEF3C7', unit: '%', min: 2, max: 70 },
+  measurement: { label: 'Measurements', icon: 'resize', color: '#8B5CF6', bgColor: '#EDE9FE', unit: 'cm', min: 10, max: 250 },
+};
+
+// Circumference sites, stored as the bodyPart of a measurement entry
+export const MEASUREMENT_SITES: { key: string; label: string }[] = [
+  { key: 'waist', label: 'Waist' },
+  { key: 'hips', label: 'Hips' },
+  { key: 'chest', label: 'Chest' },
+  { key: 'arm', label: 'Arm' },
+  { key: 'thigh', label: 'Thigh' },
+  { key: 'neck', label: 'Neck' },
+];
+
+// WHO adult BMI bands; colours match the body metrics settings screen
+export const BMI_CATEGORIES: { key: BMIEntry['category']; label: string; min: number; max: number; color: string }[] = [
+  { key: 'underweight', label: 'Underweight', min: 0, max: 18.5, color: '#3B82F6' },
+  { key: 'normal', label: 'Normal', min: 18.5, max: 25, color: '#10B981' },
+  { key: 'overweight', label: 'Overweight', min: 25, max: 30, color: '#F59E0B' },
+  { key: 'obese', label: 'Obese', min: 30, max: Infinity, color: '#EF4444' },
+];
+
+// Trailing window for the moving-average line
+export const MOVING_AVERAGE_DAYS = 7;
+
+export const CHART_RANGES: { key: string; label: string; days: number | null }[] = [
+  { key: '1m', label: '1M', days: 30 },
+  { key: '3m', label: '3M', days: 90 },
+  { key: '6m', label: '6M', days: 180 },
+  { key: 'all', label: 'All', days: null },
+];
@@ -0,0 +1,36 @@
+// Display configuration for challenge categories and difficulties
+
+import { Ionicons } from '@expo/vector-icons';
+import type { ChallengeCategory, ChallengeDifficulty } from '../services/microservices/socialService';
+
+type IconName = keyof typeof Ionicons.glyphMap;
+
+export const CHALLENGE_CATEGORIES: Record<ChallengeCategory, { label: string; icon: IconName; color: string; unit: string }> = {
+  frequency: { label: 'Frequency', icon: 'calendar', color: '#3B82F6', unit: 'sessions' },
+  duration: { label: 'Duration', icon: 'time', color: '#8B5CF6', unit: 'minutes' },
+  'weight-loss': { label: 'Calories', icon: 'flame', color: '#EF4444', unit: 'kcal' },
+  strength: { label: 'Strength', icon: 'barbell', color: '#F59E0B', unit: 'exercises' },
+  distance: { label: 'Distance', icon: 'walk', color: '#10B981', unit: 'km' },
+  custom: { label: 'Custom', icon: 'star', color: '#6B7280', unit: 'points' },
+};
+
+export const CHALLENGE_DIFFICULTIES: Record<ChallengeDifficulty, { label: string; color: string; bgColor: string }> = {
+  easy: { label: 'EASY', color: '#16A34A', bgColor: '#DCFCE7' },
+  medium: { label: 'MEDIUM', color: '#D97706', bgColor: '#FEF3C7' },
+  hard: { label: 'HARD', color: '#DC2626', bgColor: '#FEE2E2' },
+};
+
+export const CHALLENGE_REWARD_ICONS: Record<'badge' | 'points' | 'discount' | 'feature', IconName> = {
+  badge: 'ribbon',
+  points: 'star',
+  discount: 'pricetag',
+  feature: 'sparkles',
+};
+
+/**
+ * Whole days left until a challenge ends (0 once it has ended)
+ */
+export function getChallengeDaysLeft(endDate: string): number {
+  const msLeft = new Date(endDate).getTime() - Date.now();
+  return Math.max(0, Math.ceil(msLeft / (24 * 60 * 60 * 1000)));
+}
@@ -0,0 +1,67 @@
+// Display configuration for mentor coaching plans and trainee adherence
+
+import { Ionicons } from '@expo/vector-icons';
+import type { WorkoutPlanSchedule } from '../services/microservices/planningService';
+
+type IconName = keyof typeof Ionicons.glyphMap;
+
+// The planning service has no plan assignment routes yet; assigning plans and trainee
+// adherence stay hidden until it does
+export const PLAN_ASSIGNMENTS_ENABLED = false;
+
+export type DayOfWeek = WorkoutPlanSchedule['day_of_week'];
+export type PlanWorkoutType = Exclude<WorkoutPlanSchedule['workout_type'], 'rest'>;
+
+// Monday-first, matching the weekly plans and the calendar strip
+export const DAYS_OF_WEEK: { key: DayOfWeek; short: string; letter: string }[] = [
+  { key: 'monday', short: 'Mon', letter: 'M' },
+  { key: 'tuesday', short: 'Tue', letter: 'T' },
+  { key: 'wednesday', short: 'Wed', letter: 'W' },
+  { key: 'thursday', short: 'Thu', letter: 'T' },
+  { key: 'friday', short: 'Fri', letter: 'F' },
+  { key: 'saturday', short: 'Sat', letter: 'S' },
+  { key: 'sunday', short: 'Sun', letter: 'S' },
+];
+
+export const PLAN_WORKOUT_TYPES: Record<PlanWorkoutType, { label: string; icon: IconName; color: string; bgColor: string }> = {
+  strength: { label: 'Strength', icon: 'barbell', color: '#EF4444', bgColor: '#FEE2E2' },
+  cardio: { label: 'Cardio', icon: 'heart', color: '#F59E0B', bgColor: '#FEF3C7' },
+  flexibility: { label: 'Flexibility', icon: 'body', color: '#10B981', bgColor: '#D1FAE5' },
+  mixed: { label: 'Mixed', icon: 'flash', color: '#8B5CF6', bgColor: '#EDE9FE' },
+};
+
+export const PLAN_DIFFICULTIES: Record<'beginner' | 'intermediate' | 'advanced', { label: string; color: string; bgColor: string }> = {
+  beginner: { label: 'Beginner', color: '#10B981', bgColor: '#D1FAE5' },
+  intermediate: { label: 'Intermediate', color: '#F59E0B', bgColor: '#FEF3C7' },
+  advanced: { label: 'Advanced', color: '#EF4444', bgColor: '#FEE2E2' },
+};
+
+export const PLAN_GOALS: { key: string; label: string }[] = [
+  { key: 'strength', label: 'Build Strength' },
+  { key: 'endurance', label: 'Endurance' },
+  { key: 'weight_loss', label: 'Weight Loss' },
+  { key: 'mobility', label: 'Mobility' },
+  { key: 'consistency', label: 'Consistency' },
+];
+
+export const PLAN_DURATION_WEEKS = [4, 6, 8, 12];
+export const SESSION_DURATION_OPTIONS = [15, 20, 30, 45, 60];
+export const DEFAULT_SESSION_DURATION = 30;
+
+// Consecutive missed sessions before a trainee is flagged on the dashboard
+export const MISSED_SESSION_FLAG_THRESHOLD = 2;
+
+export type AdherenceStatus = 'completed' | 'missed' | 'today' | 'upcoming' | 'rest' | 'extra' | 'outside';
+
+export const ADHERENCE_STATUS: Record<AdherenceStatus, { label: string; icon: IconName | null; color: string; bgColor: string }> = {
+  completed: { label: 'Completed', icon: 'checkmark', color: '#FFFFFF', bgColor: '#10B981' },
+  missed: { label: 'Missed', icon: 'close', color: '#FFFFFF', bgColor: '#EF4444' },
+  today: { label: 'Due today', icon: 'time-outline', color: '#2563EB', bgColor: '#DBEAFE' },
+  upcoming: { label: 'Planned', icon: null, color: '#6B7280', bgColor: '#E5E7EB' },
+  rest: { label: 'Rest', icon: null, color: '#D1D5DB', bgColor: '#F9FAFB' },
+  extra: { label: 'Extra session', icon: 'add', color: '#059669', bgColor: '#D1FAE5' },
+  outside: { label: 'Outside plan', icon: null, color: '#F3F4F6', bgColor: 'transparent' },
+};
+
+// Statuses shown in the matrix legend, in display order
+export const ADHERENCE_LEGEND: AdherenceStatus[] = ['completed', 'missed', 'today', 'upcoming', 'extra'];
@@ -0,0 +1,59 @@
+// Display configuration for data export and import
+
+import { Ionicons } from '@expo/vector-icons';
+
+type IconName = keyof typeof Ionicons.glyphMap;
+
+export type ExportFormat = 'json' | 'csv' | 'tcx';
+
+export type ExportDataType = 'sessions' | 'ratings' | 'bmi' | 'assessments' | 'achievements';
+
+export const EXPORT_FORMATS: Record<ExportFormat, {
+  label: string;
+  description: string;
+  icon: IconName;
+  extension: string;
+  mimeType: string;
+}> = {
+  json: {
+    label: 'JSON Backup',
+    description: 'Everything, and can be imported back into FitNEase',
+    icon: 'code-slash-outline',
+    extension: 'json',
+    mimeType: 'application/json',
+  },
+  csv: {
+    label: 'CSV',
+    description: 'Spreadsheet-friendly tables, one section per data type',
+    icon: 'grid-outline',
+    extension: 'csv',
+    mimeType: 'text/csv',
+  },
+  tcx: {
+    label: 'TCX',
+    description: 'Workouts only, for Strava, Garmin and other fitness apps',
+    icon: 'bicycle-outline',
+    extension: 'tcx',
+    mimeType: 'application/vnd.garmin.tcx+xml',
+  },
+};
+
+export const EXPORT_FORMAT_ORDER: ExportFormat[] = ['json', 'csv', 'tcx'];
+
+export const EXPORT_DATA_TYPES: Record<ExportDataType, { label: string; icon: IconName }> = {
+  sessions: { label: 'Workout Sessions', icon: 'barbell-outline' },
+  ratings: { label: 'Exercise Ratings', icon: 'star-outline' },
+  bmi: { label: 'BMI & Weight History', icon: 'scale-outline' },
+  assessments: { label: 'Fitness Assessments', icon: 'clipboard-outline' },
+  achievements: { label: 'Achievements', icon: 'trophy-outline' },
+};
+
+export const EXPORT_DATA_TYPE_ORDER: ExportDataType[] = ['sessions', 'ratings', 'bmi', 'assessments', 'achievements'];
+
+// Achievements are earned server-side, so a re-imported history unlocks them again
+export const IMPORTABLE_DATA_TYPES: ExportDataType[] = ['sessions', 'ratings', 'bmi', 'assessments'];
+
+// Bumped whenever the backup shape changes; older backups stay importable
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export const EXPORT_HISTORY_LIMIT = 1000;
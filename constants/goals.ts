@@ -0,0 +1,72 @@
+// Display configuration for personal goals
+
+import { Ionicons } from '@expo/vector-icons';
+import type { Goal, GoalType } from '../services/microservices/trackingService';
+
+type IconName = keyof typeof Ionicons.glyphMap;
+
+// Goal types the creation wizard offers; progress for these is tracked automatically
+export type TrackedGoalType = Extract<GoalType, 'weight-loss' | 'endurance' | 'frequency'>;
+
+export const GOAL_TYPES: Record<TrackedGoalType, {
+  label: string;
+  icon: IconName;
+  color: string;
+  bgColor: string;
+  unit: string;
+  description: string;
+  targetLabel: string;
+  defaultTarget: number;
+  defaultWeeks: number;
+}> = {
+  'weight-loss': {
+    label: 'Lose Weight',
+    icon: 'scale',
+    color: '#EF4444',
+    bgColor: '#FEE2E2',
+    unit: 'kg',
+    description: 'Reach a target body weight, updated from your logged BMI',
+    targetLabel: 'Target weight',
+    defaultTarget: 5, // kg below the current weight
+    defaultWeeks: 12,
+  },
+  endurance: {
+    label: 'Build Endurance',
+    icon: 'timer',
+    color: '#8B5CF6',
+    bgColor: '#EDE9FE',
+    unit: 'min',
+    description: 'Log a total number of active minutes from completed workouts',
+    targetLabel: 'Active minutes',
+    defaultTarget: 600,
+    defaultWeeks: 8,
+  },
+  frequency: {
+    label: 'Train Consistently',
+    icon: 'calendar',
+    color: '#3B82F6',
+    bgColor: '#DBEAFE',
+    unit: 'workouts',
+    description: 'Complete a number of workouts before the deadline',
+    targetLabel: 'Workouts',
+    defaultTarget: 24,
+    defaultWeeks: 8,
+  },
+};
+
+export const GOAL_PRIORITIES: Record<Goal['priority'], { label: string; color: string; bgColor: string }> = {
+  low: { label: 'LOW', color: '#6B7280', bgColor: '#F3F4F6' },
+  medium: { label: 'MEDIUM', color: '#D97706', bgColor: '#FEF3C7' },
+  high: { label: 'HIGH', color: '#DC2626', bgColor: '#FEE2E2' },
+};
+
+export const GOAL_STATUS_DISPLAY: Record<'completed' | 'ahead' | 'on-track' | 'behind' | 'no-data', { label: string; icon: IconName; color: string }> = {
+  completed: { label: 'Completed', icon: 'checkmark-circle', color: '#16A34A' },
+  ahead: { label: 'Ahead of schedule', icon: 'rocket', color: '#16A34A' },
+  'on-track': { label: 'On track', icon: 'trending-up', color: '#2563EB' },
+  behind: { label: 'Behind schedule', icon: 'alert-circle', color: '#D97706' },
+  'no-data': { label: 'Not enough data yet', icon: 'hourglass', color: '#6B7280' },
+};
+
+// Milestones the wizard generates, as fractions of the way from start to target
+export const GOAL_MILESTONE_STEPS = [0.25, 0.5, 0.75];
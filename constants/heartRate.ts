@@ -0,0 +1,59 @@
+// Display configuration for heart-rate capture and training zones
+
+import { Ionicons } from '@expo/vector-icons';
+import type { HeartRateData } from '../services/microservices/trackingService';
+
+type IconName = keyof typeof Ionicons.glyphMap;
+
+export type HeartRateZone = NonNullable<HeartRateData['zone']>;
+
+export type HeartRateSourceKind = 'manual' | 'file' | 'ble' | 'simulated';
+
+// Zones as a share of estimated max heart rate, lowest first
+export const HEART_RATE_ZONES: {
+  key: HeartRateZone;
+  label: string;
+  minPercent: number;
+  color: string;
+}[] = [
+  { key: 'resting', label: 'Resting', minPercent: 0, color: '#60A5FA' },
+  { key: 'fat-burn', label: 'Fat Burn', minPercent: 50, color: '#10B981' },
+  { key: 'cardio', label: 'Cardio', minPercent: 70, color: '#F59E0B' },
+  { key: 'peak', label: 'Peak', minPercent: 85, color: '#EF4444' },
+];
+
+export const HEART_RATE_SOURCES: Record<HeartRateSourceKind, { label: string; description: string; icon: IconName }> = {
+  manual: {
+    label: 'Pulse Checks',
+    description: 'Count your pulse during rest breaks',
+    icon: 'hand-left-outline',
+  },
+  file: {
+    label: 'Import File',
+    description: 'Add a CSV, TCX or GPX file from your watch when you finish',
+    icon: 'document-attach-outline',
+  },
+  ble: {
+    label: 'Chest Strap',
+    description: 'Stream from a Bluetooth heart-rate monitor',
+    icon: 'bluetooth-outline',
+  },
+  simulated: {
+    label: 'Simulated',
+    description: 'Generated readings for development builds',
+    icon: 'construct-outline',
+  },
+};
+
+// Used when the user's date of birth is unknown
+export const DEFAULT_AGE = 30;
+
+// Readings outside this range are treated as sensor noise
+export const MIN_VALID_BPM = 30;
+export const MAX_VALID_BPM = 230;
+
+// How long a manual pulse count lasts; beats are multiplied up to a minute
+export const PULSE_CHECK_SECONDS = 15;
+
+// A sample counts for the time until the next one, but never longer than this
+export const MAX_SAMPLE_GAP_SECONDS = 30;
@@ -0,0 +1,18 @@
+// Display configuration for mentor ↔ trainee direct messages
+
+import { Ionicons } from '@expo/vector-icons';
+import type { MessageAttachment } from '../services/microservices/commsService';
+
+type IconName = keyof typeof Ionicons.glyphMap;
+
+// The communications service has no direct-message routes yet; messaging entry points
+// stay hidden until it does
+export const MESSAGING_ENABLED = false;
+
+export const MESSAGES_PAGE_SIZE = 30;
+export const MAX_MESSAGE_LENGTH = 1000;
+
+export const MESSAGE_ATTACHMENT_TYPES: Record<MessageAttachment['type'], { label: string; icon: IconName; color: string; bgColor: string }> = {
+  session: { label: 'Workout session', icon: 'fitness', color: '#10B981', bgColor: '#ECFDF5' },
+  assessment: { label: 'Assessment', icon: 'clipboard', color: '#3B82F6', bgColor: '#DBEAFE' },
+};
@@ -0,0 +1,102 @@
+// Display configuration for the notification center: categories, inline actions
+// and the per-type registry (icon, category, actions, deep link)
+
+import { Ionicons } from '@expo/vector-icons';
+import type { Href } from 'expo-router';
+import { COLORS } from './colors';
+import { MESSAGING_ENABLED } from './messages';
+
+type IconName = keyof typeof Ionicons.glyphMap;
+
+export const NOTIFICATIONS_PAGE_SIZE = 20;
+
+export type NotificationCategory = 'social' | 'messages' | 'workouts' | 'achievements' | 'general';
+
+export const NOTIFICATION_CATEGORIES: Record<NotificationCategory, { label: string; description: string; icon: IconName; color: string }> = {
+  social: { label: 'Groups & Friends', description: 'Invites, join requests and friend requests', icon: 'people', color: COLORS.PRIMARY[600] },
+  messages: { label: 'Messages', description: 'Direct messages and session feedback', icon: 'chatbubble-ellipses', color: '#3B82F6' },
+  workouts: { label: 'Workouts', description: 'Workout reminders and plan updates', icon: 'fitness', color: COLORS.TABATA.COMPLETE },
+  achievements: { label: 'Achievements', description: 'Badges and milestones you unlock', icon: 'trophy', color: COLORS.WARNING[500] },
+  general: { label: 'General', description: 'Announcements and everything else', icon: 'notifications', color: COLORS.SECONDARY[400] },
+};
+
+export type NotificationAction = 'accept' | 'decline' | 'approve' | 'reject' | 'view';
+
+export const NOTIFICATION_ACTIONS: Record<NotificationAction, { label: string; icon: IconName; variant: 'primary' | 'danger' | 'secondary' }> = {
+  accept: { label: 'Accept', icon: 'checkmark', variant: 'primary' },
+  approve: { label: 'Approve', icon: 'checkmark', variant: 'primary' },
+  decline: { label: 'Decline', icon: 'close', variant: 'danger' },
+  reject: { label: 'Decline', icon: 'close', variant: 'danger' },
+  view: { label: 'View', icon: 'arrow-forward', variant: 'secondary' },
+};
+
+export interface NotificationSpec {
+  category: NotificationCategory;
+  icon: IconName;
+  color: string;
+  actions?: NotificationAction[];
+  // Deep link built from action_data (or the push payload); null when there's nowhere to go
+  route?: (data: Record<string, any>) => Href | null;
+  // Delivered even when the category is muted or during quiet hours
+  critical?: boolean;
+}
+
+const groupRoute = (data: Record<string, any>): Href | null =>
+  data.group_id ? `/groups/${data.group_id}` : null;
+
+const messageRoute = (data: Record<string, any>): Href | null =>
+  MESSAGING_ENABLED && data.sender_id
+    ? { pathname: '/messages/[userId]', params: { userId: String(data.sender_id), username: data.sender_name || '' } }
+    : null;
+
+// Keyed by action_data.type and notification_type; action_data.type is looked up first
+export const NOTIFICATION_REGISTRY: Record<string, NotificationSpec> = {
+  // Groups
+  group_invite: { category: 'social', icon: 'people', color: COLORS.PRIMARY[600], actions: ['accept', 'decline'] },
+  group_join_request: { category: 'social', icon: 'person-add', color: COLORS.WARNING[500], actions: ['approve', 'reject'], route: groupRoute },
+  group_join_approved: { category: 'social', icon: 'checkmark-circle', color: COLORS.SUCCESS[500], actions: ['view'], route: groupRoute },
+  group_join_rejected: { category: 'social', icon: 'close-circle', color: COLORS.ERROR[500] },
+  group_invite_accepted: { category: 'social', icon: 'person-add', color: COLORS.SUCCESS[500], route: groupRoute },
+  group_invite_declined: { category: 'social', icon: 'person-remove', color: COLORS.ERROR[500] },
+  group_member_kicked: { category: 'social', icon: 'exit-outline', color: COLORS.ERROR[500] },
+  social: { category: 'social', icon: 'people-circle', color: COLORS.PRIMARY[600], route: groupRoute },
+  friend_request: { category: 'social', icon: 'person-add', color: COLORS.PRIMARY[500], route: () => '/friends' },
+
+  // Messages
+  direct_message: { category: 'messages', icon: 'chatbubble-ellipses', color: COLORS.PRIMARY[600], route: messageRoute },
+  session_feedback: { category: 'messages', icon: 'chatbubble-ellipses', color: COLORS.PRIMARY[600], actions: ['view'], route: messageRoute },
+
+  // Workouts
+  workout_reminder: { category: 'workouts', icon: 'fitness', color: COLORS.TABATA.COMPLETE, route: () => '/(tabs)/workouts' },
+  morning_reminder: { category: 'workouts', icon: 'sunny', color: COLORS.TABATA.COMPLETE, route: () => '/(tabs)/workouts' },
+  advance_reminder: { category: 'workouts', icon: 'alarm', color: COLORS.TABATA.COMPLETE, route: () => '/(tabs)/workouts' },
+  streak_at_risk: { category: 'workouts', icon: 'flame', color: COLORS.WARNING[500], route: () => '/(tabs)/workouts' },
+  // Ongoing/phase notifications of the active session — the session screen handles them
+  workout_session: { category: 'workouts', icon: 'timer', color: COLORS.TABATA.COMPLETE, critical: true },
+
+  // Achievements
+  achievement: { category: 'achievements', icon: 'trophy', color: COLORS.WARNING[500], route: () => '/achievements' },
+  achievement_unlock: { category: 'achievements', icon: 'trophy', color: COLORS.WARNING[500], route: () => '/achievements' },
+};
+
+export const DEFAULT_NOTIFICATION_SPEC: NotificationSpec = {
+  category: 'general',
+  icon: 'notifications',
+  color: COLORS.SECONDARY[400],
+};
+
+export const QUIET_HOURS_START_OPTIONS = [
+  { label: '8 PM', value: '20:00' },
+  { label: '9 PM', value: '21:00' },
+  { label: '10 PM', value: '22:00' },
+  { label: '11 PM', value: '23:00' },
+  { label: '12 AM', value: '00:00' },
+];
+
+export const QUIET_HOURS_END_OPTIONS = [
+  { label: '5 AM', value: '05:00' },
+  { label: '6 AM', value: '06:00' },
+  { label: '7 AM', value: '07:00' },
+  { label: '8 AM', value: '08:00' },
+  { label: '9 AM', value: '09:00' },
+];
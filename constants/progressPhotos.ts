@@ -0,0 +1,26 @@
+// Display configuration for progress photos
+
+import { Ionicons } from '@expo/vector-icons';
+
+type IconName = keyof typeof Ionicons.glyphMap;
+
+export type PhotoPose = 'front' | 'side' | 'back';
+
+// Capture order for a guided session
+export const PHOTO_POSES: PhotoPose[] = ['front', 'side', 'back'];
+
+export const PHOTO_POSE_CONFIG: Record<PhotoPose, { label: string; icon: IconName; instruction: string }> = {
+  front: { label: 'Front', icon: 'body', instruction: 'Face the camera, arms relaxed slightly away from your sides' },
+  side: { label: 'Side', icon: 'arrow-forward', instruction: 'Turn 90° to your right, arms relaxed by your sides' },
+  back: { label: 'Back', icon: 'return-down-back', instruction: 'Turn your back to the camera, same stance as the front' },
+};
+
+// The media service has no private progress-photo upload route yet; backups stay
+// hidden until it does and photos only live in the on-device vault
+export const PHOTO_BACKUP_ENABLED = false;
+
+// Opacity of the previous photo drawn over the camera for alignment
+export const ALIGNMENT_OVERLAY_OPACITY = 0.35;
+
+// Self-timer choices in seconds (0 = off)
+export const CAPTURE_TIMER_OPTIONS = [0, 5, 10];
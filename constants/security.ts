@@ -0,0 +1,29 @@
+// Display configuration for the account security center
+
+import { Ionicons } from '@expo/vector-icons';
+
+type IconName = keyof typeof Ionicons.glyphMap;
+
+// The auth service has no second-factor login route yet; enrolment and the 2FA sign-in
+// step stay hidden until it does, so nobody can turn on a factor the app can't sign in with
+export const TWO_FACTOR_LOGIN_ENABLED = false;
+
+export const LOGIN_HISTORY_PAGE_SIZE = 20;
+
+// Issuer shown in authenticator apps next to the account
+export const TWO_FACTOR_ISSUER = 'FitNEase';
+
+// Matched in order against the login's device string (case-insensitive)
+export const DEVICE_ICONS: { pattern: RegExp; icon: IconName }[] = [
+  { pattern: /ipad|tablet/i, icon: 'tablet-portrait-outline' },
+  { pattern: /iphone|android|mobile|ios/i, icon: 'phone-portrait-outline' },
+  { pattern: /mac|windows|linux|chrome|safari|firefox|edge/i, icon: 'laptop-outline' },
+];
+
+export const DEFAULT_DEVICE_ICON: IconName = 'hardware-chip-outline';
+
+/**
+ * Icon for a login history device string
+ */
+export const getDeviceIcon = (deviceInfo: string): IconName =>
+  DEVICE_ICONS.find((entry) => entry.pattern.test(deviceInfo))?.icon ?? DEFAULT_DEVICE_ICON;
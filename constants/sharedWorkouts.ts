@@ -0,0 +1,29 @@
+// Display configuration for shared workout templates
+
+import { Ionicons } from '@expo/vector-icons';
+import type { SharedWorkout } from '../services/microservices/socialService';
+
+type IconName = keyof typeof Ionicons.glyphMap;
+
+export const SHARED_WORKOUT_TYPES: Record<SharedWorkout['type'], { label: string; icon: IconName; color: string }> = {
+  strength: { label: 'Strength', icon: 'barbell', color: '#F59E0B' },
+  cardio: { label: 'Cardio', icon: 'heart', color: '#EF4444' },
+  flexibility: { label: 'Flexibility', icon: 'body', color: '#10B981' },
+  mixed: { label: 'Mixed', icon: 'shuffle', color: '#6366F1' },
+};
+
+export const SHARED_WORKOUT_DIFFICULTIES: Record<SharedWorkout['difficulty'], { label: string; color: string; bgColor: string }> = {
+  beginner: { label: 'BEGINNER', color: '#16A34A', bgColor: '#DCFCE7' },
+  intermediate: { label: 'INTERMEDIATE', color: '#D97706', bgColor: '#FEF3C7' },
+  advanced: { label: 'ADVANCED', color: '#DC2626', bgColor: '#FEE2E2' },
+};
+
+export const SHARED_WORKOUT_VISIBILITY: Record<SharedWorkout['visibility'], { label: string; icon: IconName; description: string }> = {
+  public: { label: 'Public', icon: 'globe-outline', description: 'Anyone can find and start it' },
+  friends: { label: 'Friends', icon: 'people-outline', description: 'Only your friends can see it' },
+  groups: { label: 'Groups', icon: 'chatbubbles-outline', description: 'Members of the groups you pick' },
+};
+
+// Quick-pick labels for the pros and cons of an evaluation
+export const EVALUATION_PROS = ['Great variety', 'Good pacing', 'Clear progression', 'No equipment', 'Fun', 'Challenging'];
+export const EVALUATION_CONS = ['Too long', 'Too easy', 'Too hard', 'Repetitive', 'Hard on joints', 'Needs equipment'];
@@ -210,4 +210,28 @@ export const TABATA_VALIDATION = {
   MAX_ROUNDS: 12,
   MIN_PREPARATION_TIME: 5,
   MAX_PREPARATION_TIME: 30,
+  MIN_COOLDOWN_TIME: 0,
+  MAX_COOLDOWN_TIME: 120,
+  MIN_REST_BETWEEN_EXERCISES: 15,
+  MAX_REST_BETWEEN_EXERCISES: 120,
+};
+
+// Bounds for the non-Tabata interval protocols (EMOM, AMRAP, ladder).
+// Rest, preparation and cooldown share the TABATA_VALIDATION limits.
+export const INTERVAL_PROTOCOL_VALIDATION = {
+  EMOM: {
+    MIN_INTERVAL: 30,
+    MAX_INTERVAL: 120,
+    MIN_ROUNDS: 2,
+    MAX_ROUNDS: 20,
+  },
+  AMRAP: {
+    MIN_TIME_CAP: 60,
+    MAX_TIME_CAP: 1200,
+  },
+  LADDER: {
+    MIN_STEP: 0,
+    MAX_STEP: 15,
+    MAX_WORK_DURATION: 60,
+  },
 };
\ No newline at end of file
@@ -1,8 +1,22 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { authService, User as AuthUser, LoginRequest, RegisterRequest } from '../services/microservices/authService';
+import {
+  authService,
+  isTwoFactorChallenge,
+  User as AuthUser,
+  LoginRequest,
+  LoginResponse,
+  RegisterRequest,
+  TwoFactorChallenge,
+} from '../services/microservices/authService';
 import { workoutNotificationScheduler, NotificationSettings } from '../services/workoutNotificationScheduler';
 import { useInvitationStore } from '../stores/invitationStore';
+import { useFriendsStore } from '../stores/friendsStore';
+import { useGoalsStore } from '../stores/goalsStore';
+import { useMessagesStore } from '../stores/messagesStore';
+import { progressPhotoVault } from '../services/progressPhotoVault';
+import { offlineOutbox } from '../services/offlineOutbox';
+import { TWO_FACTOR_LOGIN_ENABLED } from '../constants/security';
 
 const NOTIFICATION_SETTINGS_KEY = '@notification_settings';
 const PENDING_VERIFICATION_EMAIL_KEY = '@pending_verification_email';
@@ -14,7 +28,10 @@ interface AuthContextType {
   isEmailVerified: boolean;
   onboardingCompleted: boolean;
   pendingVerificationEmail: string | null;
+  twoFactorChallenge: TwoFactorChallenge | null; // Set while login waits for a second factor
   login: (email: string, password: string) => Promise<boolean>;
+  verifyTwoFactorLogin: (code: string, isBackupCode?: boolean) => Promise<void>;
+  cancelTwoFactorLogin: () => void;
   register: (userData: RegisterRequest) => Promise<{ requiresEmailVerification: boolean; user?: AuthUser }>;
   logout: () => Promise<void>;
   verifyEmail: (code: string, email?: string) => Promise<void>;
@@ -33,6 +50,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<AuthUser | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [pendingVerificationEmail, setPendingVerificationEmail] = useState<string | null>(null);
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<TwoFactorChallenge | null>(null);
 
   const isAuthenticated = !!user;
   const isEmailVerified = !!user?.isEmailVerified;
@@ -51,6 +69,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   }, [user]);
 
+  // Offline writes are queued and replayed per account
+  useEffect(() => {
+    offlineOutbox.setUser(user?.id ?? null);
+  }, [user?.id]);
+
   useEffect(() => {
     // Initialize auth state - check for stored tokens, etc.
     initializeAuth();
@@ -86,6 +109,12 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  /**
+   * Sign in with email and password.
+   * Resolves false when the account has 2FA on — twoFactorChallenge is then set
+   * and the login finishes through verifyTwoFactorLogin. While TWO_FACTOR_LOGIN_ENABLED
+   * is off, a 2FA account is rejected with an error instead.
+   */
   const login = async (email: string, password: string): Promise<boolean> => {
     setIsLoading(true);
     try {
@@ -93,20 +122,16 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       const loginData: LoginRequest = { email: email.trim().toLowerCase(), password };
       const response = await authService.login(loginData);
 
-      console.log('🔑 Setting user in AuthContext:', response.user);
-      setUser(response.user);
-
-      // Small delay to ensure state propagates
-      await new Promise(resolve => setTimeout(resolve, 100));
-
-      // Clear any pending verification email since user logged in
-      await AsyncStorage.removeItem(PENDING_VERIFICATION_EMAIL_KEY);
-      setPendingVerificationEmail(null);
-
-      // Schedule workout reminders if user has workout days configured
-      scheduleWorkoutRemindersForUser(response.user);
+      if (isTwoFactorChallenge(response)) {
+        if (!TWO_FACTOR_LOGIN_ENABLED) {
+          throw new Error("This account uses two-factor authentication, which the app can't complete yet.");
+        }
+        console.log('🔐 Waiting for second factor');
+        setTwoFactorChallenge(response);
+        return false;
+      }
 
-      console.log('🔑 Login completed, user set');
+      await completeLogin(response);
       return true;
     } catch (error) {
       console.error('Login failed:', error);
@@ -116,6 +141,49 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  const verifyTwoFactorLogin = async (code: string, isBackupCode = false): Promise<void> => {
+    if (!twoFactorChallenge) {
+      throw new Error('Your sign-in expired. Please enter your password again.');
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await authService.loginWithTwoFactor({
+        challengeToken: twoFactorChallenge.challengeToken,
+        code: code.trim(),
+        isBackupCode,
+      });
+      setTwoFactorChallenge(null);
+      await completeLogin(response);
+    } catch (error) {
+      console.error('Two-factor login failed:', error);
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const cancelTwoFactorLogin = () => {
+    setTwoFactorChallenge(null);
+  };
+
+  const completeLogin = async (response: LoginResponse) => {
+    console.log('🔑 Setting user in AuthContext:', response.user);
+    setUser(response.user);
+
+    // Small delay to ensure state propagates
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    // Clear any pending verification email since user logged in
+    await AsyncStorage.removeItem(PENDING_VERIFICATION_EMAIL_KEY);
+    setPendingVerificationEmail(null);
+
+    // Schedule workout reminders if user has workout days configured
+    scheduleWorkoutRemindersForUser(response.user);
+
+    console.log('🔑 Login completed, user set');
+  };
+
   /**
    * Schedule workout reminders for a user based on their workout days
    * Reads the user's saved notification settings from AsyncStorage
@@ -149,12 +217,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           return;
         }
 
-        // Convert day IDs to proper day names (capitalize first letter)
-        const dayNames = userData.workoutDays.map((day: string) =>
-          day.charAt(0).toUpperCase() + day.slice(1)
-        );
-
-        await workoutNotificationScheduler.scheduleWorkoutReminders(dayNames, settings);
+        // Reminders follow the current weekly plan and the user's usual training time
+        await workoutNotificationScheduler.scheduleSmartReminders(userData.id, userData.workoutDays, settings);
 
         console.log('📅 Workout reminders scheduled successfully');
       } else {
@@ -201,7 +265,13 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       // Clear invitation store BEFORE setting user to null
       // This prevents stale invitations from persisting across sessions
       useInvitationStore.getState().clearAllInvitations();
-      console.log('🔓 AuthContext: Invitation store cleared');
+      useFriendsStore.getState().reset();
+      useGoalsStore.getState().reset();
+      useMessagesStore.getState().reset();
+      progressPhotoVault.clearMemory();
+      offlineOutbox.setUser(null);
+      workoutNotificationScheduler.stopSmartReminders().catch(() => {});
+      console.log('🔓 AuthContext: Invitation, friends, goals and messages stores cleared');
 
       await authService.logout();
       console.log('🔓 AuthContext: Server logout completed, clearing user state');
@@ -214,8 +284,14 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       console.log('🔓 AuthContext: User state cleared, navigation should trigger');
     } catch (error) {
       console.error('Logout failed:', error);
-      // Clear invitation store and user state even if logout request fails
+      // Clear invitation/friends/goals/messages stores and user state even if logout request fails
       useInvitationStore.getState().clearAllInvitations();
+      useFriendsStore.getState().reset();
+      useGoalsStore.getState().reset();
+      useMessagesStore.getState().reset();
+      progressPhotoVault.clearMemory();
+      offlineOutbox.setUser(null);
+      workoutNotificationScheduler.stopSmartReminders().catch(() => {});
       console.log('🔓 AuthContext: Clearing user state despite logout error');
       setUser(null);
       await AsyncStorage.removeItem(PENDING_VERIFICATION_EMAIL_KEY).catch(() => {});
@@ -291,7 +367,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     isEmailVerified,
     onboardingCompleted,
     pendingVerificationEmail,
+    twoFactorChallenge,
     login,
+    verifyTwoFactorLogin,
+    cancelTwoFactorLogin,
     register,
     logout,
     verifyEmail,
@@ -2,7 +2,8 @@ import React, { createContext, useContext, useState, useEffect, ReactNode } from
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { socialService } from '../services/microservices/socialService';
 import { useAuth } from './AuthContext';
-import { useLobbyStore } from '../stores/lobbyStore';
+import { useLobbyStore, LobbyMember } from '../stores/lobbyStore';
+import { realtimeEventBus } from '../services/realtimeEventBus';
 
 interface LobbySession {
   sessionId: string;
@@ -54,6 +55,37 @@ export function LobbyProvider({ children }: { children: ReactNode }) {
     }
   }, [user]);
 
+  // Drop the saved lobby as soon as the server ends it or removes this user from it
+  useEffect(() => {
+    if (!activeLobby || !user) return;
+
+    const currentUserId = Number(user.id);
+    return realtimeEventBus.subscribe(
+      ['LobbyDeleted', 'MemberKicked', 'member.left', 'LobbyStateChanged'],
+      (event) => {
+        switch (event.name) {
+          case 'MemberKicked':
+            if (event.payload.kicked_user_id !== currentUserId) return;
+            break;
+          case 'member.left':
+            if (event.payload.user_id !== currentUserId) return;
+            break;
+          case 'LobbyStateChanged':
+            if (event.payload.lobby_state.status !== 'completed') return;
+            break;
+        }
+
+        console.log(`🧹 [LOBBY CONTEXT] ${event.name} ended our lobby session, clearing...`);
+        setActiveLobby(null);
+        setActiveSessionData(null);
+        AsyncStorage.removeItem(`activeLobby_group_${activeLobby.groupId}_user_${user.id}`).catch((error) => {
+          console.error('❌ [LOBBY CONTEXT] Error clearing lobby session:', error);
+        });
+      },
+      { channel: `private-lobby.${activeLobby.sessionId}` }
+    );
+  }, [activeLobby, user]);
+
   /**
    * Save lobby session to both state and AsyncStorage
    */
@@ -413,13 +445,13 @@ export function LobbyProvider({ children }: { children: ReactNode }) {
 
           // CHECK 2: Is the current user still a member of this lobby?
           const currentUserId = parseInt(user.id);
-          const members: any[] = lobbyState?.members || [];
-          const isUserMember = members.some((m: any) => m.user_id === currentUserId);
+          const members: LobbyMember[] = lobbyState?.members || [];
+          const isUserMember = members.some((m) => m.user_id === currentUserId);
 
           if (!isUserMember) {
             console.log('[LOBBY CONTEXT] User is NOT a member of this lobby, clearing stale session...', {
               userId: currentUserId,
-              memberIds: members.map((m: any) => m.user_id),
+              memberIds: members.map((m) => m.user_id),
             });
             await AsyncStorage.removeItem(lobbyKey);
             setActiveLobby(null);
@@ -442,6 +474,7 @@ export function LobbyProvider({ children }: { children: ReactNode }) {
 
           // Populate Zustand store with backend data so GlobalLobbyIndicator has accurate info
           try {
+            useLobbyStore.getState().beginJoin(lobbySession.sessionId);
             useLobbyStore.getState().setLobbyState(lobbyState);
             console.log('[LOBBY CONTEXT] Zustand store populated with backend lobby data');
           } catch (e) {
@@ -1,10 +1,15 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
 import NetInfo from '@react-native-community/netinfo';
+import { offlineOutbox, OutboxFlushResult } from '../services/offlineOutbox';
+import { useProgressStore } from '../stores/progressStore';
 
 interface NetworkContextType {
   isConnected: boolean;
   isInternetReachable: boolean;
   connectionType: string | null;
+  pendingSyncCount: number;
+  isSyncing: boolean;
+  syncPendingWrites: () => Promise<OutboxFlushResult | null>;
 }
 
 const NetworkContext = createContext<NetworkContextType | undefined>(undefined);
@@ -17,21 +22,76 @@ export const NetworkProvider: React.FC<NetworkProviderProps> = ({ children }) =>
   const [isConnected, setIsConnected] = useState(true);
   const [isInternetReachable, setIsInternetReachable] = useState(true);
   const [connectionType, setConnectionType] = useState<string | null>(null);
+  const [pendingSyncCount, setPendingSyncCount] = useState(0);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const wasOnlineRef = useRef(true);
+  const outboxUserRef = useRef<string | null>(null);
+
+  // Replay the offline outbox (completed sessions, ratings, assessments)
+  const syncPendingWrites = useCallback(async (): Promise<OutboxFlushResult | null> => {
+    if ((await offlineOutbox.getPendingCount()) === 0) return null;
+
+    setIsSyncing(true);
+    try {
+      return await offlineOutbox.flush();
+    } catch (error) {
+      console.error('❌ [NETWORK] Outbox sync failed:', error);
+      return null;
+    } finally {
+      setIsSyncing(false);
+    }
+  }, []);
 
   useEffect(() => {
     const unsubscribe = NetInfo.addEventListener(state => {
       setIsConnected(state.isConnected ?? false);
       setIsInternetReachable(state.isInternetReachable ?? false);
       setConnectionType(state.type);
+
+      // isInternetReachable is null while NetInfo is still probing — only treat explicit false as offline
+      const isOnline = state.isConnected === true && state.isInternetReachable !== false;
+      if (isOnline && !wasOnlineRef.current) {
+        console.log('📡 [NETWORK] Connectivity restored — replaying offline outbox');
+        syncPendingWrites();
+      }
+      wasOnlineRef.current = isOnline;
     });
 
     return () => unsubscribe();
-  }, []);
+  }, [syncPendingWrites]);
+
+  useEffect(() => {
+    const unsubscribe = offlineOutbox.subscribe((entries, userId) => {
+      setPendingSyncCount(entries.length);
+
+      // Flush anything the user left over from a previous launch or session
+      if (userId && userId !== outboxUserRef.current) {
+        syncPendingWrites();
+      }
+      outboxUserRef.current = userId;
+    });
+
+    // Also covers replays started by the outbox's own retry timer
+    const unsubscribeFlushes = offlineOutbox.subscribeToFlushes((result) => {
+      if (result.synced > 0) {
+        // Server now has sessions the progress screens haven't seen
+        useProgressStore.getState().invalidateCache();
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      unsubscribeFlushes();
+    };
+  }, [syncPendingWrites]);
 
   const value: NetworkContextType = {
     isConnected,
     isInternetReachable,
     connectionType,
+    pendingSyncCount,
+    isSyncing,
+    syncPendingWrites,
   };
 
   return (
@@ -47,4 +107,4 @@ export const useNetwork = (): NetworkContextType => {
     throw new Error('useNetwork must be used within a NetworkProvider');
   }
   return context;
-};
\ No newline at end of file
+};
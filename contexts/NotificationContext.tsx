@@ -4,6 +4,7 @@ import { useAuth } from './AuthContext';
 import { reverbService } from '../services/reverbService';
 import { commsService } from '../services/microservices/commsService';
 import { pushNotificationService } from '../services/pushNotificationService';
+import { notificationPreferences } from '../services/notificationPreferences';
 import { router } from 'expo-router';
 import GroupWorkoutInvitationModal from '../components/groups/GroupWorkoutInvitationModal';
 import { useInvitationStore } from '../stores/invitationStore';
@@ -83,6 +84,9 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
         }
         subscribedUserIdRef.current = currentUserId;
         isSetupRef.current = false; // Allow re-setup for new user
+
+        // Mutes and quiet hours are per user — load before any push is presented
+        notificationPreferences.load(currentUserId);
       }
 
       if (!isSetupRef.current) {
@@ -100,6 +104,7 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
       reverbService.unsubscribe(`private-user.${subscribedUserIdRef.current}`);
       subscribedUserIdRef.current = null;
       isSetupRef.current = false;
+      notificationPreferences.clear();
     }
   }, [user]);
 
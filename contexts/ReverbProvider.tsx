@@ -93,7 +93,7 @@ export function ReverbProvider({ children }: { children: React.ReactNode }) {
         reverbService.unsubscribe('presence-online-users');
 
         const presenceChannel = reverbService.subscribeToGlobalPresence({
-          onMemberOnline: (member: any) => {
+          onMemberOnline: (member) => {
             console.log('🟢 User came online globally:', member.id);
             setOnlineUsers((prev) => {
               const newSet = new Set(prev);
@@ -102,7 +102,7 @@ export function ReverbProvider({ children }: { children: React.ReactNode }) {
               return newSet;
             });
           },
-          onMemberOffline: (member: any) => {
+          onMemberOffline: (member) => {
             console.log('🔴 User went offline globally:', member.id);
             setOnlineUsers((prev) => {
               const newSet = new Set(prev);
@@ -111,7 +111,7 @@ export function ReverbProvider({ children }: { children: React.ReactNode }) {
               return newSet;
             });
           },
-          onInitialMembers: (members: any[]) => {
+          onInitialMembers: (members) => {
             const userIds = members.map(m => m.id.toString());
             console.log('👥 Initial online users:', {
               count: members.length,
@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { socialService } from '../services/microservices/socialService';
+
+/**
+ * Challenges can be created by mentors and by anyone who owns a group.
+ */
+export function useCanCreateChallenges() {
+  const { user } = useAuth();
+  const isMentor = user?.role === 'mentor';
+  const [ownsGroup, setOwnsGroup] = useState(false);
+  const [isChecking, setIsChecking] = useState(!isMentor);
+
+  useEffect(() => {
+    if (!user || isMentor) {
+      setIsChecking(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsChecking(true);
+
+    socialService.getGroups({ user_id: parseInt(user.id), per_page: 100 })
+      .then(({ groups }) => {
+        if (!cancelled) setOwnsGroup(groups.some((group) => group.createdBy === String(user.id)));
+      })
+      .catch((error) => {
+        console.warn('⚠️ [CHALLENGES] Could not check group ownership:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsChecking(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, isMentor]);
+
+  return { canCreate: isMentor || ownsGroup, isChecking };
+}
@@ -17,6 +17,13 @@ export function useSmartBack() {
     const isInAssessment = segments.includes('assessment');
     const isInGroups = segments.includes('groups') && !segments.includes('(tabs)');
     const isInMentor = segments.includes('mentor');
+    const isInChallenges = segments.includes('challenges');
+    const isInFriends = segments.includes('friends');
+    const isInSharedWorkouts = segments.includes('shared-workouts');
+    const isInGoals = segments.includes('goals');
+    const isInBodyJournal = segments.includes('body-journal');
+    const isInProgressPhotos = segments.includes('progress-photos');
+    const isInAnalytics = segments.includes('analytics');
 
     // Routes accessed from Profile tab — hardcode because router.back()
     // pops to the tab navigator which resets to Home (wrong)
@@ -26,11 +33,17 @@ export function useSmartBack() {
     }
 
     // Routes accessed from Groups tab — same reason
-    if (isInGroups || isInMentor) {
+    if (isInGroups || isInMentor || isInChallenges || isInFriends || isInSharedWorkouts) {
       router.push('/(tabs)/groups');
       return;
     }
 
+    // Routes accessed from Progress tab — same reason
+    if (isInGoals || isInBodyJournal || isInProgressPhotos || isInAnalytics) {
+      router.push('/(tabs)/progress');
+      return;
+    }
+
     // All other screens (notifications, workout, exercises, etc.)
     // router.back() works here because these are either:
     // - Accessed from Home tab (back → Home = correct, it's the default tab)
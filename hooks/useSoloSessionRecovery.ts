@@ -0,0 +1,76 @@
+import { useEffect, useRef } from 'react';
+import { router } from 'expo-router';
+import { useAuth } from '../contexts/AuthContext';
+import { useAlert } from '../contexts/AlertContext';
+import { soloSessionCheckpoint } from '../services/soloSessionCheckpoint';
+import { useProgressStore } from '../stores/progressStore';
+
+/**
+ * Offers to resume (or save) a solo workout that was interrupted because the
+ * app was killed. Checked once per login, from the home screen.
+ */
+export function useSoloSessionRecovery() {
+  const { user } = useAuth();
+  const alert = useAlert();
+  const checkedUserRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!user || checkedUserRef.current === user.id) return;
+    checkedUserRef.current = user.id;
+
+    soloSessionCheckpoint.load(user.id).then((checkpoint) => {
+      if (!checkpoint) return;
+
+      const totalExercises = Math.max(1, checkpoint.exercises.length);
+      const position = checkpoint.phase === 'complete'
+        ? 'all exercises finished'
+        : `exercise ${checkpoint.currentExercise + 1}/${totalExercises}, set ${checkpoint.currentSet + 1}/${checkpoint.setsPerExercise}`;
+
+      const savePartial = async () => {
+        try {
+          const saved = await soloSessionCheckpoint.savePartialWorkout(checkpoint);
+          if (saved) {
+            useProgressStore.getState().invalidateCache();
+            alert.success('Workout Saved', 'Your completed sets have been added to your history.');
+          } else {
+            alert.info('Nothing to Save', 'No sets were completed in that workout.');
+          }
+        } catch (error) {
+          console.error('❌ [CHECKPOINT] Failed to save partial workout:', error);
+          alert.error('Error', 'Failed to save workout. Please try again.');
+        }
+      };
+
+      alert.showAlert({
+        type: 'info',
+        title: 'Unfinished Workout',
+        message: `"${checkpoint.workoutName}" was interrupted at ${position}. Pick up where you left off?`,
+        dismissable: false,
+        buttons: [
+          {
+            text: 'Resume',
+            style: 'default',
+            onPress: () => {
+              router.push({
+                pathname: '/workout/session',
+                params: {
+                  workoutId: checkpoint.workoutId,
+                  type: 'tabata',
+                  sessionData: checkpoint.sessionData || '',
+                  timerConfig: checkpoint.timerConfig || '',
+                  resumeCheckpoint: 'true',
+                },
+              });
+            },
+          },
+          { text: 'Save Progress', style: 'default', onPress: savePartial },
+          {
+            text: 'Discard',
+            style: 'destructive',
+            onPress: () => soloSessionCheckpoint.clear(checkpoint.userId),
+          },
+        ],
+      });
+    });
+  }, [user?.id]);
+}
@@ -4,6 +4,11 @@ import * as SecureStore from 'expo-secure-store';
 import { Platform } from 'react-native';
 import NetInfo from '@react-native-community/netinfo';
 import { API_CONFIG } from '../../config/api.config';
+import { TokenBucketRateLimiter, RateLimitConfig, RequestPriority } from './rateLimiter';
+import { ResponseCache, CachePolicy, CacheTag } from './responseCache';
+
+export type { RequestPriority } from './rateLimiter';
+export type { CachePolicy, CacheTag } from './responseCache';
 
 export interface ApiResponse<T = any> {
   data: T;
@@ -27,8 +32,29 @@ export interface TokenPair {
 export interface ServiceConfig {
   baseURL: string;
   service: string;
+  rateLimit?: RateLimitConfig; // Client-side budget; falls back to DEFAULT_RATE_LIMIT
+}
+
+/**
+ * Axios config plus the lane the request waits in when the service budget is spent.
+ * Defaults: GET → 'normal', writes → 'interactive'.
+ *
+ * `cache` opts a GET into the response cache; `revalidate` skips the cached copy
+ * for one read (the response still refreshes the cache); `invalidates` drops cached
+ * reads with those tags once the request succeeds.
+ */
+export interface RequestConfig extends AxiosRequestConfig {
+  priority?: RequestPriority;
+  cache?: CachePolicy;
+  revalidate?: boolean;
+  invalidates?: CacheTag[];
 }
 
+const DEFAULT_RATE_LIMIT: RateLimitConfig = {
+  capacity: 10,
+  refillPerSecond: 5,
+};
+
 export interface APIClientConfig {
   auth: ServiceConfig;
   content: ServiceConfig;
@@ -45,9 +71,11 @@ export interface APIClientConfig {
 export class APIClient {
   private configs: APIClientConfig;
   private clients: Map<string, AxiosInstance> = new Map();
+  private rateLimiters: Map<string, TokenBucketRateLimiter> = new Map();
   private isRefreshing = false;
   private refreshPromise: Promise<string | null> | null = null;
   private inFlightRequests = new Map<string, Promise<ApiResponse<any>>>();
+  private responseCache = new ResponseCache();
 
   // Rate limit retry configuration
   private readonly MAX_RETRIES = 3;
@@ -79,6 +107,7 @@ export class APIClient {
 
       this.setupInterceptors(client, service);
       this.clients.set(service, client);
+      this.rateLimiters.set(service, new TokenBucketRateLimiter(service, config.rateLimit || DEFAULT_RATE_LIMIT));
     });
   }
 
@@ -242,7 +271,10 @@ export class APIClient {
     if (error.response) {
       const errorData = error.response.data as any;
       const message = errorData?.message || errorData?.error || `${serviceName} service error`;
-      return new Error(`[${serviceName.toUpperCase()}] ${message}`);
+      // Keep the HTTP status so callers can tell a rejection (4xx) from an outage (5xx)
+      return Object.assign(new Error(`[${serviceName.toUpperCase()}] ${message}`), {
+        status: error.response.status,
+      });
     } else if (error.request) {
       return new Error(`[${serviceName.toUpperCase()}] Network error - unable to reach service`);
     } else {
@@ -296,6 +328,9 @@ export class APIClient {
   }
 
   private async clearTokens(): Promise<void> {
+    // Cached reads belong to the session that is ending
+    await this.responseCache.clear();
+
     try {
       if (Platform.OS === 'web') {
         await AsyncStorage.removeItem('accessToken');
@@ -399,6 +434,18 @@ export class APIClient {
     await this.clearTokens();
   }
 
+  /**
+   * Drop cached reads with any of these tags (for writes that bypass APIClient,
+   * e.g. results arriving over WebSocket)
+   */
+  public async invalidateTags(tags: CacheTag[]): Promise<void> {
+    await this.responseCache.invalidateTags(tags);
+  }
+
+  public async clearCache(): Promise<void> {
+    await this.responseCache.clear();
+  }
+
   public getClient(service: keyof APIClientConfig): AxiosInstance {
     const client = this.clients.get(service);
     if (!client) {
@@ -409,9 +456,14 @@ export class APIClient {
 
   public async request<T = any>(
     service: keyof APIClientConfig,
-    config: AxiosRequestConfig
+    requestConfig: RequestConfig
   ): Promise<ApiResponse<T>> {
     const client = this.getClient(service);
+    const { priority, cache: _cache, revalidate: _revalidate, invalidates, ...config } = requestConfig;
+
+    // Wait for this service's client-side budget (background requests may be shed here)
+    const isWrite = !!config.method && config.method.toUpperCase() !== 'GET';
+    await this.rateLimiters.get(service)?.acquire(priority || (isWrite ? 'interactive' : 'normal'));
 
     // Log full request details for debugging
     console.log(`🔍 [API REQUEST DETAILS] Service: ${service}`, {
@@ -445,6 +497,10 @@ export class APIClient {
       const response: AxiosResponse<any> = await client(config);
       console.log(`📨 [${service}] Axios client returned response`);
 
+      if (invalidates?.length) {
+        await this.responseCache.invalidateTags(invalidates);
+      }
+
       console.log(`📡 Raw axios response for ${service}:`, {
         status: response.status,
         statusText: response.statusText,
@@ -571,10 +627,54 @@ export class APIClient {
   public async get<T = any>(
     service: keyof APIClientConfig,
     url: string,
-    config?: AxiosRequestConfig
+    config?: RequestConfig
   ): Promise<ApiResponse<T>> {
     const key = `${service}:${url}:${JSON.stringify(config?.params || {})}`;
+    const { cache: policy, revalidate, ...requestConfig } = config || {};
+
+    if (!policy) {
+      return this.dedupedGet<T>(key, service, url, requestConfig);
+    }
 
+    const cached = revalidate ? null : await this.responseCache.read<ApiResponse<T>>(key);
+    if (cached && !cached.isStale) {
+      console.log(`🗃️ [CACHE HIT] ${key}`);
+      return cached.value;
+    }
+
+    if (cached) {
+      // Serve the stale copy now and refresh it without holding up the screen
+      console.log(`🗃️ [CACHE STALE] ${key} — revalidating in background`);
+      this.fetchAndCache<T>(key, service, url, { ...requestConfig, priority: requestConfig.priority || 'background' }, policy)
+        .catch((error) => console.log(`ℹ️ [CACHE] Background revalidation failed for ${key}:`, error?.message));
+      return cached.value;
+    }
+
+    return this.fetchAndCache<T>(key, service, url, requestConfig, policy);
+  }
+
+  private async fetchAndCache<T>(
+    key: string,
+    service: keyof APIClientConfig,
+    url: string,
+    config: RequestConfig,
+    policy: CachePolicy
+  ): Promise<ApiResponse<T>> {
+    const requestedAt = Date.now();
+    const response = await this.dedupedGet<T>(key, service, url, config);
+
+    if (response.success) {
+      await this.responseCache.write(key, response, policy, requestedAt);
+    }
+    return response;
+  }
+
+  private async dedupedGet<T>(
+    key: string,
+    service: keyof APIClientConfig,
+    url: string,
+    config: RequestConfig
+  ): Promise<ApiResponse<T>> {
     if (this.inFlightRequests.has(key)) {
       console.log(`🔁 [GET DEDUP] Reusing in-flight request: ${key}`);
       return this.inFlightRequests.get(key)! as Promise<ApiResponse<T>>;
@@ -595,7 +695,7 @@ export class APIClient {
     service: keyof APIClientConfig,
     url: string,
     data?: any,
-    config?: AxiosRequestConfig
+    config?: RequestConfig
   ): Promise<ApiResponse<T>> {
     console.log(`🔄 POST Request to ${service} service:`, {
       url,
@@ -619,7 +719,7 @@ export class APIClient {
     service: keyof APIClientConfig,
     url: string,
     data?: any,
-    config?: AxiosRequestConfig
+    config?: RequestConfig
   ): Promise<ApiResponse<T>> {
     return this.request<T>(service, { ...config, method: 'PUT', url, data });
   }
@@ -628,7 +728,7 @@ export class APIClient {
     service: keyof APIClientConfig,
     url: string,
     data?: any,
-    config?: AxiosRequestConfig
+    config?: RequestConfig
   ): Promise<ApiResponse<T>> {
     return this.request<T>(service, { ...config, method: 'PATCH', url, data });
   }
@@ -636,7 +736,7 @@ export class APIClient {
   public async delete<T = any>(
     service: keyof APIClientConfig,
     url: string,
-    config?: AxiosRequestConfig
+    config?: RequestConfig
   ): Promise<ApiResponse<T>> {
     return this.request<T>(service, { ...config, method: 'DELETE', url });
   }
@@ -654,6 +754,7 @@ export class APIClient {
 
     this.setupInterceptors(client, service);
     this.clients.set(service, client);
+    this.rateLimiters.set(service, new TokenBucketRateLimiter(service, config.rateLimit || DEFAULT_RATE_LIMIT));
   }
 
   public isTokenValid(): Promise<boolean> {
@@ -684,11 +785,15 @@ export const DEFAULT_SERVICE_CONFIGS: APIClientConfig = {
   },
   social: {
     baseURL: API_CONFIG.SOCIAL_SERVICE_URL,
-    service: 'social'
+    service: 'social',
+    // Groups tab fans out one member-count request per group
+    rateLimit: { capacity: 15, refillPerSecond: 6 }
   },
   ml: {
     baseURL: API_CONFIG.ML_SERVICE_URL,
-    service: 'ml'
+    service: 'ml',
+    // Recommendation calls are slow and expensive server-side
+    rateLimit: { capacity: 5, refillPerSecond: 2 }
   },
   engagement: {
     baseURL: API_CONFIG.ENGAGEMENT_SERVICE_URL,
@@ -0,0 +1,141 @@
+/**
+ * Client-side token-bucket rate limiter with priority lanes.
+ *
+ * One bucket per microservice (see APIClient). Screens that fan out dozens of
+ * requests (home dashboard, groups tab member counts) drain the bucket and
+ * queue, instead of hammering the gateway into 429s.
+ *
+ * Lanes are served strictly in order:
+ * - interactive: user actions (finishing a workout, voting, joining) — always first
+ * - normal:      regular screen loads
+ * - background:  refreshes and fan-out lookups — may only spend tokens above a
+ *                reserve, so they never starve the lanes above, and are shed
+ *                when their queue is full or they have waited too long
+ */
+
+export type RequestPriority = 'interactive' | 'normal' | 'background';
+
+export interface RateLimitConfig {
+  capacity: number; // Burst size
+  refillPerSecond: number; // Sustained requests per second
+}
+
+interface Waiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  enqueuedAt: number;
+}
+
+const PRIORITY_ORDER: RequestPriority[] = ['interactive', 'normal', 'background'];
+
+// Share of the bucket that background requests may not touch
+const BACKGROUND_RESERVE = 0.3;
+const MAX_BACKGROUND_QUEUE = 20;
+const MAX_BACKGROUND_WAIT_MS = 15000;
+
+export class TokenBucketRateLimiter {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private drainTimer: ReturnType<typeof setTimeout> | null = null;
+  private queues: Record<RequestPriority, Waiter[]> = {
+    interactive: [],
+    normal: [],
+    background: [],
+  };
+
+  constructor(private readonly service: string, private readonly config: RateLimitConfig) {
+    this.tokens = config.capacity;
+  }
+
+  /**
+   * Wait for a token in the given lane. Rejects if a background request is shed.
+   */
+  acquire(priority: RequestPriority = 'normal'): Promise<void> {
+    this.refill();
+
+    // Take a token right away only if nobody of equal or higher priority is already waiting
+    const laneIndex = PRIORITY_ORDER.indexOf(priority);
+    const hasQueuedAhead = PRIORITY_ORDER
+      .slice(0, laneIndex + 1)
+      .some((lane) => this.queues[lane].length > 0);
+
+    if (!hasQueuedAhead && this.canSpend(priority)) {
+      this.tokens -= 1;
+      return Promise.resolve();
+    }
+
+    if (priority === 'background' && this.queues.background.length >= MAX_BACKGROUND_QUEUE) {
+      return Promise.reject(this.shedError('queue full'));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queues[priority].push({ resolve, reject, enqueuedAt: Date.now() });
+      this.scheduleDrain();
+    });
+  }
+
+  /**
+   * Queued requests per lane (for debugging)
+   */
+  getQueueSizes(): Record<RequestPriority, number> {
+    return {
+      interactive: this.queues.interactive.length,
+      normal: this.queues.normal.length,
+      background: this.queues.background.length,
+    };
+  }
+
+  private canSpend(priority: RequestPriority): boolean {
+    const floor = priority === 'background' ? this.config.capacity * BACKGROUND_RESERVE : 0;
+    return this.tokens - 1 >= floor;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.config.capacity, this.tokens + elapsedSeconds * this.config.refillPerSecond);
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    this.drainTimer = null;
+    this.refill();
+
+    // Shed background requests that have been deferred for too long
+    const now = Date.now();
+    this.queues.background = this.queues.background.filter((waiter) => {
+      if (now - waiter.enqueuedAt < MAX_BACKGROUND_WAIT_MS) return true;
+      waiter.reject(this.shedError('waited too long'));
+      return false;
+    });
+
+    for (const lane of PRIORITY_ORDER) {
+      const queue = this.queues[lane];
+      while (queue.length > 0 && this.canSpend(lane)) {
+        this.tokens -= 1;
+        queue.shift()!.resolve();
+      }
+      // Strict priority: lower lanes wait until this one is empty
+      if (queue.length > 0) break;
+    }
+
+    this.scheduleDrain();
+  }
+
+  private scheduleDrain(): void {
+    if (this.drainTimer) return;
+
+    const hasWaiters = PRIORITY_ORDER.some((lane) => this.queues[lane].length > 0);
+    if (!hasWaiters) return;
+
+    // Time until the next whole token is available
+    const missing = Math.max(0, 1 - (this.tokens % 1));
+    const waitMs = Math.max(10, Math.ceil((missing / this.config.refillPerSecond) * 1000));
+    this.drainTimer = setTimeout(() => this.drain(), waitMs);
+  }
+
+  private shedError(reason: string): Error {
+    console.warn(`🚦 [${this.service}] Background request shed by client rate limiter (${reason})`, this.getQueueSizes());
+    return new Error(`[${this.service.toUpperCase()}] Request deferred - client rate limit reached`);
+  }
+}
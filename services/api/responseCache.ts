@@ -0,0 +1,175 @@
+/**
+ * Stale-while-revalidate response cache for read endpoints.
+ *
+ * Services opt in per request by passing a `cache` policy to `apiClient.get`:
+ * - fresh (within `ttl`):     served from cache, no network call
+ * - stale (within `ttl + staleWhileRevalidate`): served from cache immediately,
+ *                             refreshed in the background
+ * - expired:                  fetched like an uncached request
+ *
+ * Entries carry tags so writes can invalidate every read they affect
+ * (e.g. saving a workout session invalidates 'tracking' and 'progression').
+ * Persisted entries survive app restarts; the whole cache is cleared on logout.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export type CacheTag = 'user' | 'content' | 'achievements' | 'tracking' | 'progression' | 'challenges';
+
+export interface CachePolicy {
+  ttl: number; // ms the response is served without touching the network
+  staleWhileRevalidate?: number; // ms after ttl it is still served while refreshing in the background
+  tags?: CacheTag[];
+  persist?: boolean; // Keep in AsyncStorage across restarts (default true)
+}
+
+interface CacheEntry<T = unknown> {
+  value: T;
+  tags: CacheTag[];
+  freshUntil: number;
+  staleUntil: number;
+  persist: boolean;
+}
+
+export interface CacheLookup<T> {
+  value: T;
+  isStale: boolean;
+}
+
+const STORAGE_PREFIX = '@api_response_cache:';
+
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private hydratePromise: Promise<void> | null = null;
+  // Last invalidation per tag — responses requested before it are not written back
+  private invalidatedAt = new Map<CacheTag, number>();
+
+  async read<T>(key: string): Promise<CacheLookup<T> | null> {
+    await this.hydrate();
+
+    const entry = this.entries.get(key) as CacheEntry<T> | undefined;
+    if (!entry) return null;
+
+    const now = Date.now();
+    if (now >= entry.staleUntil) {
+      this.remove(key);
+      return null;
+    }
+
+    return { value: entry.value, isStale: now >= entry.freshUntil };
+  }
+
+  /**
+   * Store a response. `requestedAt` is when the request was sent, so a response that
+   * raced with an invalidation of one of its tags is dropped instead of resurrecting old data.
+   */
+  async write<T>(key: string, value: T, policy: CachePolicy, requestedAt: number): Promise<void> {
+    await this.hydrate();
+
+    const tags = policy.tags || [];
+    if (tags.some((tag) => (this.invalidatedAt.get(tag) || 0) > requestedAt)) {
+      console.log(`🗃️ [CACHE] Skipping write for ${key} — invalidated while in flight`);
+      return;
+    }
+
+    const now = Date.now();
+    const entry: CacheEntry<T> = {
+      value,
+      tags,
+      freshUntil: now + policy.ttl,
+      staleUntil: now + policy.ttl + (policy.staleWhileRevalidate || 0),
+      persist: policy.persist !== false,
+    };
+    this.entries.set(key, entry);
+
+    if (entry.persist) {
+      AsyncStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(entry)).catch((error) => {
+        console.warn('⚠️ [CACHE] Failed to persist cache entry:', error);
+      });
+    }
+  }
+
+  async invalidateTags(tags: CacheTag[]): Promise<void> {
+    if (tags.length === 0) return;
+    await this.hydrate();
+
+    const now = Date.now();
+    tags.forEach((tag) => this.invalidatedAt.set(tag, now));
+
+    const keys = Array.from(this.entries.entries())
+      .filter(([, entry]) => entry.tags.some((tag) => tags.includes(tag)))
+      .map(([key]) => key);
+
+    keys.forEach((key) => this.remove(key));
+    console.log(`🗃️ [CACHE] Invalidated [${tags.join(', ')}] — ${keys.length} entries dropped`);
+  }
+
+  async clear(): Promise<void> {
+    await this.hydrate();
+
+    this.entries.clear();
+    this.invalidatedAt.clear();
+
+    try {
+      const keys = await AsyncStorage.getAllKeys();
+      await AsyncStorage.multiRemove(keys.filter((key) => key.startsWith(STORAGE_PREFIX)));
+      console.log('🗃️ [CACHE] Cleared response cache');
+    } catch (error) {
+      console.warn('⚠️ [CACHE] Failed to clear persisted cache:', error);
+    }
+  }
+
+  private remove(key: string): void {
+    const entry = this.entries.get(key);
+    this.entries.delete(key);
+
+    if (entry?.persist) {
+      AsyncStorage.removeItem(STORAGE_PREFIX + key).catch(() => {
+        // Orphaned entry expires on the next hydrate
+      });
+    }
+  }
+
+  /**
+   * Load persisted entries once, so tag invalidation also reaches entries
+   * that have not been read since the app started.
+   */
+  private hydrate(): Promise<void> {
+    if (!this.hydratePromise) {
+      this.hydratePromise = this.loadPersisted();
+    }
+    return this.hydratePromise;
+  }
+
+  private async loadPersisted(): Promise<void> {
+    try {
+      const keys = (await AsyncStorage.getAllKeys()).filter((key) => key.startsWith(STORAGE_PREFIX));
+      if (keys.length === 0) return;
+
+      const now = Date.now();
+      const expired: string[] = [];
+      const stored = await AsyncStorage.multiGet(keys);
+
+      stored.forEach(([storageKey, raw]) => {
+        if (!raw) return;
+        try {
+          const entry: CacheEntry = JSON.parse(raw);
+          if (now >= entry.staleUntil) {
+            expired.push(storageKey);
+          } else if (!this.entries.has(storageKey.slice(STORAGE_PREFIX.length))) {
+            this.entries.set(storageKey.slice(STORAGE_PREFIX.length), entry);
+          }
+        } catch {
+          expired.push(storageKey);
+        }
+      });
+
+      if (expired.length > 0) {
+        await AsyncStorage.multiRemove(expired);
+      }
+      console.log(`🗃️ [CACHE] Restored ${keys.length - expired.length} cached responses`);
+    } catch (error) {
+      console.warn('⚠️ [CACHE] Failed to restore persisted cache:', error);
+    }
+  }
+}
@@ -0,0 +1,280 @@
+/**
+ * Audio Cue Service
+ *
+ * Plays the workout phase-transition sounds (work start, rest, countdown,
+ * halfway, round/workout complete) on top of expo-av.
+ *
+ * - All cues of the active pack are preloaded when a session starts, so a
+ *   cue is a replayAsync() on an already-decoded sound (no disk/IO latency).
+ * - Background music is ducked instead of stopped, and returns to full
+ *   volume when the session releases the audio session.
+ * - The iOS ring/silent switch is honoured unless the user opts out
+ *   (e.g. training with headphones on a muted phone).
+ * - Volume, cue pack and per-cue toggles are stored per user.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Audio, AVPlaybackSource, InterruptionModeAndroid, InterruptionModeIOS } from 'expo-av';
+
+export type AudioCue = 'start' | 'rest' | 'complete' | 'next' | 'round' | 'countdown' | 'countdown_go' | 'halfway';
+
+export type AudioCuePack = 'classic' | 'beeps';
+
+export interface AudioCueSettings {
+  enabled: boolean;
+  volume: number; // 0.0 – 1.0
+  pack: AudioCuePack;
+  respectSilentMode: boolean; // iOS ring/silent switch
+  enabledCues: Record<AudioCue, boolean>;
+}
+
+export const AUDIO_CUES: { cue: AudioCue; label: string; description: string }[] = [
+  { cue: 'start', label: 'Work Start', description: 'When a work interval begins' },
+  { cue: 'rest', label: 'Rest', description: 'When a rest interval begins' },
+  { cue: 'countdown', label: 'Countdown', description: 'Beeps at 3 and 2 seconds left' },
+  { cue: 'countdown_go', label: 'Go', description: 'Final beep at 1 second left' },
+  { cue: 'halfway', label: 'Halfway', description: 'Midpoint of each work interval' },
+  { cue: 'next', label: 'Next Exercise', description: 'After the break between exercises' },
+  { cue: 'round', label: 'Round Complete', description: 'All sets of an exercise are done' },
+  { cue: 'complete', label: 'Workout Complete', description: 'End of the session' },
+];
+
+export const AUDIO_CUE_PACKS: Record<AudioCuePack, { label: string; description: string; sources: Record<AudioCue, AVPlaybackSource> }> = {
+  classic: {
+    label: 'Classic',
+    description: 'A distinct sound for every transition',
+    sources: {
+      start: require('../assets/sounds/start.mp3'),
+      rest: require('../assets/sounds/rest.mp3'),
+      complete: require('../assets/sounds/complete.mp3'),
+      next: require('../assets/sounds/next.mp3'),
+      round: require('../assets/sounds/round.mp3'),
+      countdown: require('../assets/sounds/countdown.mp3'),
+      countdown_go: require('../assets/sounds/countdown_go.mp3'),
+      halfway: require('../assets/sounds/halfway.mp3'),
+    },
+  },
+  beeps: {
+    label: 'Beeps',
+    description: 'Short timer beeps only — easy to hear over music',
+    sources: {
+      start: require('../assets/sounds/countdown_go.mp3'),
+      rest: require('../assets/sounds/countdown.mp3'),
+      complete: require('../assets/sounds/complete.mp3'),
+      next: require('../assets/sounds/countdown_go.mp3'),
+      round: require('../assets/sounds/countdown.mp3'),
+      countdown: require('../assets/sounds/countdown.mp3'),
+      countdown_go: require('../assets/sounds/countdown_go.mp3'),
+      halfway: require('../assets/sounds/countdown.mp3'),
+    },
+  },
+};
+
+export const DEFAULT_AUDIO_CUE_SETTINGS: AudioCueSettings = {
+  enabled: true,
+  volume: 0.8,
+  pack: 'classic',
+  respectSilentMode: true,
+  enabledCues: {
+    start: true,
+    rest: true,
+    complete: true,
+    next: true,
+    round: true,
+    countdown: true,
+    countdown_go: true,
+    halfway: true,
+  },
+};
+
+const getStorageKey = (userId: string | number) => `@audio_cue_settings_user_${userId}`;
+
+class AudioCueService {
+  private settings: AudioCueSettings = DEFAULT_AUDIO_CUE_SETTINGS;
+  private sounds = new Map<AudioCue, Audio.Sound>();
+  private loadedPack: AudioCuePack | null = null;
+  private preloadPromise: Promise<void> | null = null;
+  private isActive = false;
+  private activeGeneration = 0; // Bumped on every activate/deactivate so stale activations bail out
+
+  /**
+   * Load a user's cue settings (falls back to defaults)
+   */
+  async getSettings(userId: string | number): Promise<AudioCueSettings> {
+    try {
+      const stored = await AsyncStorage.getItem(getStorageKey(userId));
+      if (!stored) return DEFAULT_AUDIO_CUE_SETTINGS;
+
+      const parsed = JSON.parse(stored) as Partial<AudioCueSettings>;
+      return {
+        ...DEFAULT_AUDIO_CUE_SETTINGS,
+        ...parsed,
+        enabledCues: { ...DEFAULT_AUDIO_CUE_SETTINGS.enabledCues, ...parsed.enabledCues },
+      };
+    } catch (error) {
+      console.error('❌ [AUDIO] Failed to load cue settings:', error);
+      return DEFAULT_AUDIO_CUE_SETTINGS;
+    }
+  }
+
+  /**
+   * Save a user's cue settings and apply them to the active session, if any
+   */
+  async saveSettings(userId: string | number, settings: AudioCueSettings): Promise<void> {
+    await AsyncStorage.setItem(getStorageKey(userId), JSON.stringify(settings));
+
+    if (this.isActive) {
+      await this.applySettings(settings, this.activeGeneration);
+    } else {
+      this.settings = settings;
+    }
+  }
+
+  /**
+   * Take the audio session for a workout: configure ducking/silent mode and preload the cues.
+   * Call when the session screen mounts.
+   */
+  async activate(userId: string | number): Promise<void> {
+    const generation = ++this.activeGeneration;
+    this.isActive = true;
+
+    const settings = await this.getSettings(userId);
+    // The session screen unmounted while settings loaded
+    if (generation !== this.activeGeneration) return;
+
+    await this.applySettings(settings, generation);
+  }
+
+  /**
+   * Release the audio session so background music returns to full volume.
+   * Call when the session screen unmounts.
+   */
+  async deactivate(): Promise<void> {
+    this.activeGeneration++;
+    this.isActive = false;
+    await this.unloadSounds();
+
+    try {
+      await Audio.setAudioModeAsync({
+        playsInSilentModeIOS: false,
+        interruptionModeIOS: InterruptionModeIOS.MixWithOthers,
+        interruptionModeAndroid: InterruptionModeAndroid.DuckOthers,
+        shouldDuckAndroid: false,
+        staysActiveInBackground: false,
+      });
+    } catch (error) {
+      console.warn('⚠️ [AUDIO] Failed to release audio session:', error);
+    }
+  }
+
+  /**
+   * Play a cue. Never throws — a missing sound must not break the workout timer.
+   */
+  play(cue: AudioCue): void {
+    if (!this.isActive || !this.settings.enabled || !this.settings.enabledCues[cue]) return;
+
+    const sound = this.sounds.get(cue);
+    if (!sound) return;
+
+    sound.replayAsync().catch((error) => {
+      console.warn(`⚠️ [AUDIO] Failed to play cue "${cue}":`, error);
+    });
+  }
+
+  /**
+   * Play a single cue outside of a workout (settings screen preview)
+   */
+  async preview(cue: AudioCue, settings: AudioCueSettings): Promise<void> {
+    try {
+      const { sound } = await Audio.Sound.createAsync(
+        AUDIO_CUE_PACKS[settings.pack].sources[cue],
+        { shouldPlay: true, volume: settings.volume }
+      );
+      sound.setOnPlaybackStatusUpdate((status) => {
+        if (status.isLoaded && status.didJustFinish) {
+          sound.unloadAsync().catch(() => {});
+        }
+      });
+    } catch (error) {
+      console.warn(`⚠️ [AUDIO] Failed to preview cue "${cue}":`, error);
+    }
+  }
+
+  private async applySettings(settings: AudioCueSettings, generation: number): Promise<void> {
+    const previous = this.settings;
+    this.settings = settings;
+
+    try {
+      await Audio.setAudioModeAsync({
+        playsInSilentModeIOS: !settings.respectSilentMode,
+        // Duck (not pause) music/podcasts for as long as the workout holds the audio session
+        interruptionModeIOS: InterruptionModeIOS.DuckOthers,
+        interruptionModeAndroid: InterruptionModeAndroid.DuckOthers,
+        shouldDuckAndroid: true,
+        staysActiveInBackground: false,
+        playThroughEarpieceAndroid: false,
+      });
+    } catch (error) {
+      console.warn('⚠️ [AUDIO] Failed to set audio mode:', error);
+    }
+
+    // Deactivated while the audio mode was being set; leave releasing the session to deactivate
+    if (generation !== this.activeGeneration) return;
+
+    if (!settings.enabled) {
+      await this.unloadSounds();
+      return;
+    }
+
+    if (this.loadedPack !== settings.pack) {
+      await this.unloadSounds();
+      await this.preload(settings.pack);
+    } else if (previous.volume !== settings.volume) {
+      await Promise.all(
+        Array.from(this.sounds.values()).map((sound) => sound.setVolumeAsync(settings.volume).catch(() => {}))
+      );
+    }
+  }
+
+  private preload(pack: AudioCuePack): Promise<void> {
+    if (!this.preloadPromise) {
+      this.preloadPromise = (async () => {
+        const sources = AUDIO_CUE_PACKS[pack].sources;
+
+        await Promise.all(
+          (Object.keys(sources) as AudioCue[]).map(async (cue) => {
+            try {
+              const { sound } = await Audio.Sound.createAsync(sources[cue], {
+                shouldPlay: false,
+                volume: this.settings.volume,
+              });
+              this.sounds.set(cue, sound);
+            } catch (error) {
+              console.warn(`⚠️ [AUDIO] Failed to preload cue "${cue}":`, error);
+            }
+          })
+        );
+
+        this.loadedPack = pack;
+        console.log(`🔊 [AUDIO] Preloaded ${this.sounds.size} cues (${pack} pack)`);
+      })().finally(() => {
+        this.preloadPromise = null;
+      });
+    }
+    return this.preloadPromise;
+  }
+
+  private async unloadSounds(): Promise<void> {
+    if (this.preloadPromise) {
+      await this.preloadPromise;
+    }
+
+    const sounds = Array.from(this.sounds.values());
+    this.sounds.clear();
+    this.loadedPack = null;
+
+    await Promise.all(sounds.map((sound) => sound.unloadAsync().catch(() => {})));
+  }
+}
+
+export const audioCueService = new AudioCueService();
@@ -0,0 +1,104 @@
+/**
+ * Challenge Progress
+ *
+ * Feeds completed Tabata sessions into the challenges the user has joined.
+ * Each challenge category counts a session in its own unit:
+ * - frequency / custom: 1 per session
+ * - duration:           minutes
+ * - weight-loss:        calories burned
+ * - strength:           exercises completed
+ * - distance:           not tracked by Tabata sessions, skipped
+ *
+ * Reports go through socialService.updateChallengeProgress, which queues them
+ * in the offline outbox when the network is down.
+ */
+
+import {
+  socialService,
+  Challenge,
+  ChallengeProgressUpdate,
+} from './microservices/socialService';
+
+export interface CompletedSessionSummary {
+  sessionKey: string; // Database session_id, or the outbox id while the session is queued
+  durationMinutes: number;
+  caloriesBurned: number;
+  exerciseCount: number;
+  completedAt: Date;
+}
+
+/**
+ * Progress a session earns towards one challenge, or null if the challenge
+ * does not count this kind of session.
+ */
+export function getChallengeIncrement(
+  challenge: Challenge,
+  session: CompletedSessionSummary
+): Pick<ChallengeProgressUpdate, 'increment' | 'metric'> | null {
+  switch (challenge.category) {
+    case 'frequency':
+    case 'custom':
+      return { increment: 1, metric: 'sessions' };
+    case 'duration':
+      return { increment: session.durationMinutes, metric: 'minutes' };
+    case 'weight-loss':
+      return { increment: Math.round(session.caloriesBurned), metric: 'calories' };
+    case 'strength':
+      return { increment: session.exerciseCount, metric: 'exercises' };
+    default:
+      return null;
+  }
+}
+
+/**
+ * True if the user has joined the challenge and it is running at `at`
+ */
+function isCountingTowards(challenge: Challenge, at: Date): boolean {
+  if (!challenge.isActive || !challenge.progress) return false;
+  if (challenge.progress.total > 0 && challenge.progress.completed >= challenge.progress.total) return false;
+
+  const time = at.getTime();
+  return time >= new Date(challenge.startDate).getTime() && time <= new Date(challenge.endDate).getTime();
+}
+
+class ChallengeProgressService {
+  /**
+   * Report a completed session to every running challenge the user has joined.
+   * Returns the number of challenges that were updated (or queued).
+   */
+  async recordCompletedSession(session: CompletedSessionSummary): Promise<number> {
+    let challenges: Challenge[];
+    try {
+      // Cached list — still available offline for the rest of the day
+      const result = await socialService.getChallenges({ status: 'active', limit: 50 });
+      challenges = result.challenges.filter((challenge) => isCountingTowards(challenge, session.completedAt));
+    } catch (error) {
+      console.warn('⚠️ [CHALLENGES] Could not load joined challenges:', error);
+      return 0;
+    }
+
+    if (challenges.length === 0) return 0;
+
+    let updated = 0;
+    for (const challenge of challenges) {
+      const earned = getChallengeIncrement(challenge, session);
+      if (!earned || earned.increment <= 0) continue;
+
+      try {
+        const result = await socialService.updateChallengeProgress(challenge.id, {
+          ...earned,
+          session_key: session.sessionKey,
+          recorded_at: session.completedAt.toISOString(),
+        });
+        updated++;
+        console.log(`🏁 [CHALLENGES] +${earned.increment} ${earned.metric} → "${challenge.title}"${result.queued ? ' (queued)' : ''}`);
+      } catch (error) {
+        console.warn(`⚠️ [CHALLENGES] Failed to update "${challenge.title}":`, error);
+      }
+    }
+
+    return updated;
+  }
+}
+
+export const challengeProgressService = new ChallengeProgressService();
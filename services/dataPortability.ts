@@ -0,0 +1,365 @@
+/**
+ * Data Portability Service
+ *
+ * Builds a local export of the user's training history for Settings → Data and
+ * restores a JSON backup into an account.
+ *
+ * - Exports are assembled on-device from the same endpoints the app already
+ *   reads, so they work without the server-side export job.
+ * - Import replays the backup through the normal write endpoints. Sessions go
+ *   first so their new ids can be attached to the ratings that belonged to
+ *   them; achievements are not imported, the engagement service awards them
+ *   again from the restored history.
+ */
+
+import { File, Directory, Paths } from 'expo-file-system';
+import { trackingService, WorkoutSession } from './microservices/trackingService';
+import { ratingService } from './microservices/ratingService';
+import { authService, User } from './microservices/authService';
+import { engagementService } from './microservices/engagementService';
+import {
+  EXPORT_FORMATS,
+  EXPORT_HISTORY_LIMIT,
+  EXPORT_SCHEMA_VERSION,
+  ExportDataType,
+  ExportFormat,
+} from '../constants/dataExport';
+import {
+  BackupData,
+  ExportedAchievement,
+  ExportedAssessment,
+  ExportedBMIEntry,
+  ExportedRating,
+  ExportedSession,
+  TrainingBackup,
+  getExportFileName,
+  parseBackup,
+  serializeBackup,
+} from '../utils/dataExport';
+
+const EXPORT_DIRECTORY = 'exports';
+
+export interface ExportResult {
+  backup: TrainingBackup;
+  failed: ExportDataType[]; // Data types that couldn't be loaded and were left out
+}
+
+export interface ImportProgress {
+  dataType: ExportDataType;
+  done: number;
+  total: number;
+}
+
+export interface ImportSummary {
+  imported: Partial<Record<ExportDataType, number>>;
+  failed: Partial<Record<ExportDataType, number>>;
+}
+
+// Where an imported session ended up, for re-linking its ratings
+type SessionLink = { sessionId: number } | { pendingSessionKey: string };
+
+const unwrapList = (response: any): any[] => {
+  const data = response?.data ?? response;
+  if (Array.isArray(data)) return data;
+  if (Array.isArray(data?.data)) return data.data;
+  return [];
+};
+
+const toSession = (session: WorkoutSession): ExportedSession => ({
+  id: String(session.session_id ?? session.id),
+  sessionType: session.sessionType || 'individual',
+  startTime: session.startTime,
+  endTime: session.endTime,
+  durationMinutes: session.duration || 0,
+  caloriesBurned: session.actualCaloriesBurned || 0,
+  completed: session.status === 'completed',
+  completionPercentage: session.completionPercentage || 0,
+  notes: session.notes,
+  exercises: session.exercises.map((exercise) => ({
+    exerciseId: exercise.exerciseId,
+    name: exercise.exerciseName,
+    completed: exercise.completed ?? true,
+  })),
+});
+
+const toRating = (rating: any): ExportedRating => ({
+  sessionId: String(rating.session_id),
+  exerciseId: Number(rating.exercise_id),
+  rating: Number(rating.rating_value),
+  difficulty: rating.difficulty_perceived || undefined,
+  enjoyment: rating.enjoyment_rating != null ? Number(rating.enjoyment_rating) : undefined,
+  wouldDoAgain: rating.would_do_again != null ? Boolean(rating.would_do_again) : undefined,
+  notes: rating.notes || undefined,
+  completed: rating.completed != null ? Boolean(rating.completed) : undefined,
+  completedReps: rating.completed_reps != null ? Number(rating.completed_reps) : undefined,
+  completedDurationSeconds: rating.completed_duration_seconds != null ? Number(rating.completed_duration_seconds) : undefined,
+  ratedAt: rating.created_at || undefined,
+});
+
+const toAssessment = (assessment: any): ExportedAssessment => {
+  let data = assessment.assessment_data;
+  if (typeof data === 'string') {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      // Keep the raw string
+    }
+  }
+  return {
+    type: assessment.assessment_type,
+    score: Number(assessment.score) || 0,
+    data,
+    date: assessment.assessment_date || assessment.created_at || undefined,
+  };
+};
+
+class DataPortabilityService {
+  private async loadDataType(userId: string, dataType: ExportDataType): Promise<BackupData[ExportDataType]> {
+    switch (dataType) {
+      case 'sessions': {
+        const { sessions } = await trackingService.getSessions({ userId, limit: EXPORT_HISTORY_LIMIT });
+        return sessions.map(toSession);
+      }
+      case 'ratings':
+        return unwrapList(await ratingService.getUserRatings(Number(userId))).map(toRating);
+      case 'bmi': {
+        const { entries } = await trackingService.getBMIHistory(1, EXPORT_HISTORY_LIMIT);
+        return entries.map((entry): ExportedBMIEntry => ({
+          date: entry.date,
+          height: entry.height,
+          weight: entry.weight,
+          bmi: entry.bmi,
+          category: entry.category,
+          notes: entry.notes,
+        }));
+      }
+      case 'assessments': {
+        const assessments = await authService.getFitnessAssessment(userId);
+        if (!assessments) throw new Error('Assessments unavailable');
+        return unwrapList(assessments).map(toAssessment);
+      }
+      case 'achievements': {
+        const achievements = await engagementService.getUserAchievements(userId);
+        return achievements.map((a): ExportedAchievement => ({
+          name: a.achievement?.achievement_name || `Achievement ${a.achievement_id}`,
+          description: a.achievement?.description || '',
+          points: a.points_earned,
+          completed: a.is_completed,
+          progress: a.progress_percentage,
+          earnedAt: a.earned_at,
+        }));
+      }
+    }
+  }
+
+  /**
+   * Gather the selected data types into a backup. A data type that fails to
+   * load is reported in `failed` instead of failing the whole export.
+   */
+  async buildBackup(user: User, dataTypes: ExportDataType[]): Promise<ExportResult> {
+    const data: Partial<BackupData> = {};
+    const failed: ExportDataType[] = [];
+
+    await Promise.all(
+      dataTypes.map(async (dataType) => {
+        try {
+          (data as Record<ExportDataType, unknown>)[dataType] = await this.loadDataType(user.id, dataType);
+        } catch (error) {
+          console.warn(`⚠️ [DATA EXPORT] Failed to load ${dataType}:`, error);
+          failed.push(dataType);
+        }
+      })
+    );
+
+    const backup: TrainingBackup = {
+      app: 'FitNEase',
+      schemaVersion: EXPORT_SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      user: {
+        id: user.id,
+        name: [user.firstName, user.lastName].filter(Boolean).join(' ') || user.username,
+        email: user.email,
+      },
+      data,
+    };
+
+    console.log('📦 [DATA EXPORT] Built backup:', Object.keys(data), failed.length ? `(failed: ${failed})` : '');
+    return { backup, failed };
+  }
+
+  /**
+   * Write an export to the cache directory, replacing earlier exports
+   * @returns The written file, ready to hand to the share sheet
+   */
+  writeExportFile(backup: TrainingBackup, format: ExportFormat): File {
+    const directory = new Directory(Paths.cache, EXPORT_DIRECTORY);
+    if (directory.exists) directory.delete();
+    directory.create({ intermediates: true });
+
+    const file = new File(directory, getExportFileName(format));
+    file.create({ overwrite: true });
+    file.write(serializeBackup(backup, format));
+    return file;
+  }
+
+  /**
+   * Let the user pick a folder and save an export there
+   * @returns false when the picker was dismissed
+   */
+  async saveExportToFolder(backup: TrainingBackup, format: ExportFormat): Promise<boolean> {
+    const directory = await Directory.pickDirectoryAsync().catch(() => null);
+    if (!directory) return false;
+
+    const file = directory.createFile(getExportFileName(format), EXPORT_FORMATS[format].mimeType);
+    file.write(serializeBackup(backup, format));
+    console.log('📦 [DATA EXPORT] Saved export to:', file.uri);
+    return true;
+  }
+
+  /**
+   * Let the user pick a JSON backup and validate it
+   * @returns null when the picker was dismissed
+   * @throws Error with a user-facing message when the file isn't a valid backup
+   */
+  async pickBackup(): Promise<TrainingBackup | null> {
+    const picked = await File.pickFileAsync(undefined, EXPORT_FORMATS.json.mimeType).catch(() => null);
+    const file = Array.isArray(picked) ? picked[0] : picked;
+    if (!file) return null;
+    return parseBackup(await file.text());
+  }
+
+  /**
+   * Replay a backup into the signed-in account
+   */
+  async importBackup(
+    userId: string,
+    backup: TrainingBackup,
+    dataTypes: ExportDataType[],
+    onProgress?: (progress: ImportProgress) => void
+  ): Promise<ImportSummary> {
+    const summary: ImportSummary = { imported: {}, failed: {} };
+    const sessionLinks = new Map<string, SessionLink>();
+    const include = (dataType: ExportDataType) => dataTypes.includes(dataType) && !!backup.data[dataType]?.length;
+
+    const record = (dataType: ExportDataType, ok: boolean) => {
+      const bucket = ok ? summary.imported : summary.failed;
+      bucket[dataType] = (bucket[dataType] || 0) + 1;
+    };
+
+    if (include('sessions')) {
+      const sessions = backup.data.sessions!;
+      for (const [index, session] of sessions.entries()) {
+        onProgress?.({ dataType: 'sessions', done: index, total: sessions.length });
+        const saved = await trackingService.createWorkoutSession({
+          workoutId: session.id,
+          userId: Number(userId),
+          sessionType: session.sessionType,
+          startTime: new Date(session.startTime),
+          endTime: session.endTime ? new Date(session.endTime) : undefined,
+          duration: session.durationMinutes,
+          caloriesBurned: session.caloriesBurned,
+          completed: session.completed,
+          completionPercentage: session.completionPercentage,
+          notes: session.notes,
+          exercises: session.exercises
+            .filter((exercise) => !isNaN(Number(exercise.exerciseId)))
+            .map((exercise) => ({
+              exercise_id: Number(exercise.exerciseId),
+              exercise_name: exercise.name,
+              completed: exercise.completed,
+            })),
+        });
+
+        // createWorkoutSession falls back to a local stand-in when the service errors
+        if (saved.pendingSync) {
+          sessionLinks.set(session.id, { pendingSessionKey: saved.id });
+        } else if (saved.session_id) {
+          sessionLinks.set(session.id, { sessionId: saved.session_id });
+        }
+        record('sessions', sessionLinks.has(session.id));
+      }
+    }
+
+    if (include('ratings')) {
+      const bySession = new Map<string, ExportedRating[]>();
+      backup.data.ratings!.forEach((rating) => {
+        bySession.set(rating.sessionId, [...(bySession.get(rating.sessionId) || []), rating]);
+      });
+
+      let done = 0;
+      const total = backup.data.ratings!.length;
+      for (const [oldSessionId, ratings] of bySession) {
+        onProgress?.({ dataType: 'ratings', done, total });
+        done += ratings.length;
+
+        // Ratings only make sense attached to their session
+        const link = sessionLinks.get(oldSessionId);
+        if (!link) {
+          ratings.forEach(() => record('ratings', false));
+          continue;
+        }
+
+        try {
+          await ratingService.submitExerciseRatingsBatch(
+            {
+              user_id: Number(userId),
+              session_id: 'sessionId' in link ? link.sessionId : 0,
+              ratings: ratings.map((r) => ({
+                exercise_id: r.exerciseId,
+                rating_value: r.rating,
+                difficulty_perceived: r.difficulty,
+                enjoyment_rating: r.enjoyment,
+                would_do_again: r.wouldDoAgain,
+                notes: r.notes,
+                completed: r.completed,
+                completed_reps: r.completedReps,
+                completed_duration_seconds: r.completedDurationSeconds,
+              })),
+            },
+            { pendingSessionKey: 'pendingSessionKey' in link ? link.pendingSessionKey : undefined }
+          );
+          ratings.forEach(() => record('ratings', true));
+        } catch (error) {
+          console.warn('⚠️ [DATA IMPORT] Failed to import ratings for session', oldSessionId, error);
+          ratings.forEach(() => record('ratings', false));
+        }
+      }
+    }
+
+    if (include('bmi')) {
+      const entries = backup.data.bmi!;
+      for (const [index, entry] of entries.entries()) {
+        onProgress?.({ dataType: 'bmi', done: index, total: entries.length });
+        try {
+          await trackingService.logBMI(entry.height, entry.weight, entry.notes, entry.date);
+          record('bmi', true);
+        } catch (error) {
+          console.warn('⚠️ [DATA IMPORT] Failed to import BMI entry', entry.date, error);
+          record('bmi', false);
+        }
+      }
+    }
+
+    if (include('assessments')) {
+      const assessments = backup.data.assessments!;
+      for (const [index, assessment] of assessments.entries()) {
+        onProgress?.({ dataType: 'assessments', done: index, total: assessments.length });
+        try {
+          await authService.saveFitnessAssessment(
+            { assessment_type: assessment.type, assessment_data: assessment.data, score: assessment.score },
+            { userId }
+          );
+          record('assessments', true);
+        } catch (error) {
+          console.warn('⚠️ [DATA IMPORT] Failed to import assessment', assessment.type, error);
+          record('assessments', false);
+        }
+      }
+    }
+
+    console.log('📦 [DATA IMPORT] Finished:', summary);
+    return summary;
+  }
+}
+
+export const dataPortabilityService = new DataPortabilityService();
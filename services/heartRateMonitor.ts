@@ -0,0 +1,342 @@
+/**
+ * Heart Rate Monitor
+ *
+ * Collects heart-rate samples during a workout from whichever source the
+ * user picked, and uploads them with the completed session.
+ *
+ * - Every source is a HeartRateProvider. Live providers (BLE strap, simulated)
+ *   push readings through `emit`; passive ones (pulse checks, file import) get
+ *   their samples from recordManualReading() / importFile().
+ * - The BLE provider does not own a Bluetooth stack. A native module registers
+ *   a BleHeartRateTransport that hands over raw Heart Rate Measurement packets;
+ *   until one is registered the strap option is hidden.
+ * - The session screen marks phase/exercise changes so samples can be
+ *   attributed to exercises when the recording is summarised.
+ * - The chosen source is stored per user.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { File } from 'expo-file-system';
+import { HeartRateSourceKind } from '../constants/heartRate';
+import type { IntervalPhase } from './intervalTimerEngine';
+import { trackingService } from './microservices/trackingService';
+import {
+  HeartRateSample,
+  SessionSegmentMark,
+  isValidHeartRate,
+  parseHeartRateFile,
+  parseHeartRateMeasurement,
+  toHeartRateData,
+} from '../utils/heartRate';
+
+export interface HeartRateProvider {
+  kind: HeartRateSourceKind;
+  isAvailable(): boolean;
+  start(emit: (bpm: number) => void): Promise<void>;
+  stop(): Promise<void>;
+  onPhaseChange?(phase: IntervalPhase): void;
+}
+
+// Native side of a Bluetooth HR strap (Heart Rate service 0x180D)
+export interface BleHeartRateTransport {
+  isSupported(): boolean;
+  connect(onMeasurement: (value: Uint8Array) => void): Promise<void>;
+  disconnect(): Promise<void>;
+}
+
+export interface HeartRateRecording {
+  source: HeartRateSourceKind;
+  startTime: number;
+  endTime: number;
+  samples: HeartRateSample[];
+  timeline: SessionSegmentMark[];
+}
+
+type HeartRateListener = (sample: HeartRateSample) => void;
+
+const getStorageKey = (userId: string | number) => `@heart_rate_source_user_${userId}`;
+
+// Readings come from the user during rest breaks (see recordManualReading)
+class PulseCheckProvider implements HeartRateProvider {
+  kind: HeartRateSourceKind = 'manual';
+  isAvailable() { return true; }
+  async start() {}
+  async stop() {}
+}
+
+// Samples are read from a watch export when the session ends (see importFile)
+class FileImportProvider implements HeartRateProvider {
+  kind: HeartRateSourceKind = 'file';
+  isAvailable() { return true; }
+  async start() {}
+  async stop() {}
+}
+
+export class BleHeartRateProvider implements HeartRateProvider {
+  kind: HeartRateSourceKind = 'ble';
+
+  constructor(private transport: BleHeartRateTransport) {}
+
+  isAvailable() {
+    return this.transport.isSupported();
+  }
+
+  async start(emit: (bpm: number) => void) {
+    await this.transport.connect((value) => {
+      const bpm = parseHeartRateMeasurement(value);
+      if (bpm !== null) emit(bpm);
+    });
+  }
+
+  async stop() {
+    await this.transport.disconnect();
+  }
+}
+
+// Phase targets the simulated heart rate drifts towards
+const SIMULATED_TARGETS: Partial<Record<IntervalPhase, number>> = {
+  prepare: 95,
+  work: 165,
+  rest: 140,
+  roundRest: 120,
+  cooldown: 110,
+};
+
+export class SimulatedHeartRateProvider implements HeartRateProvider {
+  kind: HeartRateSourceKind = 'simulated';
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private current = 80;
+  private target = SIMULATED_TARGETS.prepare!;
+
+  isAvailable() {
+    return __DEV__;
+  }
+
+  async start(emit: (bpm: number) => void) {
+    this.current = 80;
+    this.interval = setInterval(() => {
+      this.current += (this.target - this.current) * 0.15 + (Math.random() - 0.5) * 4;
+      emit(Math.round(this.current));
+    }, 1000);
+  }
+
+  async stop() {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  onPhaseChange(phase: IntervalPhase) {
+    this.target = SIMULATED_TARGETS[phase] ?? this.target;
+  }
+}
+
+class HeartRateMonitor {
+  private providers = new Map<HeartRateSourceKind, HeartRateProvider>([
+    ['manual', new PulseCheckProvider()],
+    ['file', new FileImportProvider()],
+    ['simulated', new SimulatedHeartRateProvider()],
+  ]);
+  private source: HeartRateSourceKind = 'manual';
+  private recording: HeartRateRecording | null = null;
+  private listeners = new Set<HeartRateListener>();
+
+  /**
+   * Register the native Bluetooth transport; enables the chest strap source
+   */
+  registerBleTransport(transport: BleHeartRateTransport) {
+    this.providers.set('ble', new BleHeartRateProvider(transport));
+  }
+
+  /**
+   * Sources that can be used on this device, in display order
+   */
+  getAvailableSources(): HeartRateSourceKind[] {
+    return (['manual', 'file', 'ble', 'simulated'] as HeartRateSourceKind[]).filter(
+      (kind) => this.providers.get(kind)?.isAvailable()
+    );
+  }
+
+  getSource(): HeartRateSourceKind {
+    return this.source;
+  }
+
+  isRecording(): boolean {
+    return this.recording !== null;
+  }
+
+  /**
+   * Load the user's saved source (falls back to pulse checks)
+   */
+  async loadSource(userId: string | number): Promise<HeartRateSourceKind> {
+    try {
+      const stored = (await AsyncStorage.getItem(getStorageKey(userId))) as HeartRateSourceKind | null;
+      this.source = stored && this.getAvailableSources().includes(stored) ? stored : 'manual';
+    } catch (error) {
+      console.error('❌ [HEART RATE] Failed to load source:', error);
+      this.source = 'manual';
+    }
+    return this.source;
+  }
+
+  /**
+   * Switch source; if a recording is running the new provider takes over immediately
+   */
+  async setSource(userId: string | number, source: HeartRateSourceKind): Promise<void> {
+    if (source === this.source) return;
+
+    const wasRecording = this.recording !== null;
+    if (wasRecording) await this.getProvider().stop();
+
+    this.source = source;
+    await AsyncStorage.setItem(getStorageKey(userId), source);
+
+    if (this.recording) {
+      this.recording.source = source;
+      await this.startProvider();
+    }
+    console.log(`❤️ [HEART RATE] Source set to ${source}`);
+  }
+
+  /**
+   * Start a recording for a session. Safe to call again on resume — an active
+   * recording is kept.
+   */
+  async begin(startTime: number): Promise<void> {
+    if (this.recording) return;
+
+    this.recording = { source: this.source, startTime, endTime: startTime, samples: [], timeline: [] };
+    console.log(`❤️ [HEART RATE] Recording started (${this.source})`);
+    await this.startProvider();
+  }
+
+  /**
+   * Record that the session entered a phase of an exercise
+   */
+  markSegment(phase: IntervalPhase, exerciseIndex: number) {
+    if (!this.recording) return;
+
+    const last = this.recording.timeline[this.recording.timeline.length - 1];
+    if (last && last.phase === phase && last.exerciseIndex === exerciseIndex) return;
+
+    this.recording.timeline.push({ start: Date.now(), phase, exerciseIndex });
+    this.getProvider().onPhaseChange?.(phase);
+  }
+
+  /**
+   * Add a pulse-check reading taken by the user
+   * @returns false when the reading is out of range or nothing is recording
+   */
+  recordManualReading(bpm: number): boolean {
+    if (!this.recording || !isValidHeartRate(bpm)) return false;
+    this.addSample(bpm, 'manual');
+    return true;
+  }
+
+  /**
+   * Stop the provider and hand back everything recorded
+   */
+  async end(): Promise<HeartRateRecording | null> {
+    const recording = this.recording;
+    if (!recording) return null;
+
+    this.recording = null;
+    try {
+      await this.getProvider().stop();
+    } catch (error) {
+      console.warn('⚠️ [HEART RATE] Provider did not stop cleanly:', error);
+    }
+
+    recording.endTime = Date.now();
+    console.log(`❤️ [HEART RATE] Recording ended with ${recording.samples.length} samples`);
+    return recording;
+  }
+
+  /**
+   * Let the user pick a watch export and merge the readings that fall inside
+   * the recording's time window
+   * @returns Number of samples added, or null if the picker was cancelled
+   */
+  async importFile(recording: HeartRateRecording): Promise<number | null> {
+    const picked = await File.pickFileAsync(undefined, '*/*').catch(() => null);
+    const file = Array.isArray(picked) ? picked[0] : picked;
+    if (!file) return null;
+
+    const rows = parseHeartRateFile(await file.text());
+    if (rows.length === 0) {
+      throw new Error('No heart-rate readings were found in this file. Use a CSV, TCX or GPX export.');
+    }
+
+    const inWindow = rows.filter((row) => row.timestamp >= recording.startTime && row.timestamp <= recording.endTime);
+    if (inWindow.length === 0) {
+      throw new Error("This file's readings don't overlap with your workout. Check you picked the right activity.");
+    }
+
+    recording.samples = [
+      ...recording.samples,
+      ...inWindow.map((row) => ({ timestamp: row.timestamp, bpm: row.bpm, source: 'file' as const })),
+    ].sort((a, b) => a.timestamp - b.timestamp);
+
+    console.log(`❤️ [HEART RATE] Imported ${inWindow.length} samples from ${file.uri}`);
+    return inWindow.length;
+  }
+
+  /**
+   * Upload a recording's samples with its session. Pass pendingSessionKey when the
+   * session was queued offline; the samples then wait in the outbox for it.
+   */
+  async uploadRecording(
+    sessionId: string,
+    recording: HeartRateRecording,
+    maxHeartRate: number,
+    pendingSessionKey?: string
+  ): Promise<void> {
+    if (recording.samples.length === 0) return;
+
+    const result = await trackingService.addHeartRateData(
+      sessionId,
+      toHeartRateData(recording.samples, maxHeartRate),
+      { pendingSessionKey }
+    );
+    console.log(
+      result.queued
+        ? `📥 [HEART RATE] Queued ${recording.samples.length} samples for sync`
+        : `✅ [HEART RATE] Uploaded ${recording.samples.length} samples for session ${sessionId}`
+    );
+  }
+
+  /**
+   * Listen for new samples while recording
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: HeartRateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private getProvider(): HeartRateProvider {
+    return this.providers.get(this.source) ?? this.providers.get('manual')!;
+  }
+
+  private async startProvider() {
+    const provider = this.getProvider();
+    try {
+      await provider.start((bpm) => this.addSample(bpm, provider.kind));
+    } catch (error) {
+      console.error(`❌ [HEART RATE] Failed to start ${provider.kind} source:`, error);
+    }
+  }
+
+  private addSample(bpm: number, source: HeartRateSourceKind) {
+    if (!this.recording || !isValidHeartRate(bpm)) return;
+
+    const sample: HeartRateSample = { timestamp: Date.now(), bpm, source };
+    this.recording.samples.push(sample);
+    this.listeners.forEach((listener) => listener(sample));
+  }
+}
+
+export const heartRateMonitor = new HeartRateMonitor();
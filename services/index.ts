@@ -21,10 +21,14 @@ export {
 export {
   AuthService,
   authService,
+  isTwoFactorChallenge,
   type User,
   type UserPreferences,
   type LoginRequest,
   type LoginResponse,
+  type TwoFactorChallenge,
+  type TwoFactorLoginRequest,
+  type LoginHistoryEntry,
   type RegisterRequest,
   type RegisterResponse,
   type ForgotPasswordRequest,
@@ -0,0 +1,367 @@
+/**
+ * Interval Timer Engine
+ *
+ * Pure TypeScript engine that turns an interval protocol into a flat timeline
+ * of phase segments. The session screen walks this timeline instead of
+ * hard-coding 20s/10s/8-set Tabata durations.
+ *
+ * Supported protocols:
+ * - tabata: work/rest sets per exercise (default 20s/10s × 8)
+ * - emom:   one work interval per minute, no rest between sets
+ * - amrap:  a single timed work block per exercise
+ * - ladder: work duration grows by `ladderStep` seconds every set
+ *
+ * Every protocol supports a preparation countdown, a break between
+ * exercises and an optional cooldown at the end.
+ */
+
+import { TABATA_VALIDATION, INTERVAL_PROTOCOL_VALIDATION } from '../constants/tabata';
+import { TABATA_CONFIG } from './workoutSessionGenerator';
+
+export type IntervalProtocol = 'tabata' | 'emom' | 'amrap' | 'ladder';
+
+export type IntervalPhase = 'prepare' | 'work' | 'rest' | 'roundRest' | 'cooldown' | 'complete';
+
+export interface IntervalTimerConfig {
+  protocol: IntervalProtocol;
+  workDuration: number; // seconds (EMOM interval / AMRAP time cap)
+  restDuration: number; // seconds between sets
+  rounds: number; // sets per exercise
+  preparationTime: number; // seconds
+  cooldownTime: number; // seconds, 0 = no cooldown
+  restBetweenExercises: number; // seconds
+  ladderStep: number; // seconds added to work on every ladder set
+}
+
+export interface IntervalSegment {
+  index: number;
+  phase: IntervalPhase;
+  duration: number; // seconds
+  exerciseIndex: number;
+  setIndex: number;
+  startOffset: number; // seconds since the start of the session
+}
+
+export interface IntervalPosition {
+  segment: IntervalSegment;
+  timeRemaining: number;
+  isComplete: boolean;
+}
+
+export const INTERVAL_PROTOCOL_LABELS: Record<IntervalProtocol, string> = {
+  tabata: 'Tabata',
+  emom: 'EMOM',
+  amrap: 'AMRAP',
+  ladder: 'Ladder',
+};
+
+// Defaults per protocol. Tabata mirrors the standard session generator config
+// so sessions started without a custom config behave exactly as before.
+export const INTERVAL_PRESETS: Record<IntervalProtocol, IntervalTimerConfig> = {
+  tabata: {
+    protocol: 'tabata',
+    workDuration: TABATA_CONFIG.work_duration,
+    restDuration: TABATA_CONFIG.rest_duration,
+    rounds: TABATA_CONFIG.sets_per_exercise,
+    preparationTime: 10,
+    cooldownTime: 0,
+    restBetweenExercises: TABATA_CONFIG.rest_between_exercises,
+    ladderStep: 0,
+  },
+  emom: {
+    protocol: 'emom',
+    workDuration: 60,
+    restDuration: 0,
+    rounds: 5,
+    preparationTime: 10,
+    cooldownTime: 0,
+    restBetweenExercises: 60,
+    ladderStep: 0,
+  },
+  amrap: {
+    protocol: 'amrap',
+    workDuration: 300,
+    restDuration: 0,
+    rounds: 1,
+    preparationTime: 10,
+    cooldownTime: 0,
+    restBetweenExercises: 60,
+    ladderStep: 0,
+  },
+  ladder: {
+    protocol: 'ladder',
+    workDuration: 15,
+    restDuration: 10,
+    rounds: 6,
+    preparationTime: 10,
+    cooldownTime: 0,
+    restBetweenExercises: 60,
+    ladderStep: 5,
+  },
+};
+
+const clamp = (value: number, min: number, max: number): number => {
+  return Math.min(max, Math.max(min, Math.round(value)));
+};
+
+export type IntervalConfigField = 'workDuration' | 'restDuration' | 'rounds' | 'ladderStep';
+
+/**
+ * Get the [min, max] bounds for a config field under a given protocol
+ * (min === max means the protocol fixes that field)
+ */
+export const getIntervalFieldBounds = (
+  protocol: IntervalProtocol,
+  field: IntervalConfigField
+): [number, number] => {
+  switch (field) {
+    case 'workDuration':
+      if (protocol === 'emom') return [INTERVAL_PROTOCOL_VALIDATION.EMOM.MIN_INTERVAL, INTERVAL_PROTOCOL_VALIDATION.EMOM.MAX_INTERVAL];
+      if (protocol === 'amrap') return [INTERVAL_PROTOCOL_VALIDATION.AMRAP.MIN_TIME_CAP, INTERVAL_PROTOCOL_VALIDATION.AMRAP.MAX_TIME_CAP];
+      return [TABATA_VALIDATION.MIN_WORK_DURATION, TABATA_VALIDATION.MAX_WORK_DURATION];
+    case 'restDuration':
+      // EMOM rest is the remainder of each minute, AMRAP has no sets
+      if (protocol === 'emom' || protocol === 'amrap') return [0, 0];
+      return [TABATA_VALIDATION.MIN_REST_DURATION, TABATA_VALIDATION.MAX_REST_DURATION];
+    case 'rounds':
+      if (protocol === 'emom') return [INTERVAL_PROTOCOL_VALIDATION.EMOM.MIN_ROUNDS, INTERVAL_PROTOCOL_VALIDATION.EMOM.MAX_ROUNDS];
+      if (protocol === 'amrap') return [1, 1];
+      return [TABATA_VALIDATION.MIN_ROUNDS, TABATA_VALIDATION.MAX_ROUNDS];
+    case 'ladderStep':
+      if (protocol !== 'ladder') return [0, 0];
+      return [INTERVAL_PROTOCOL_VALIDATION.LADDER.MIN_STEP, INTERVAL_PROTOCOL_VALIDATION.LADDER.MAX_STEP];
+  }
+};
+
+/**
+ * Validate a timer config against the protocol bounds
+ */
+export const validateIntervalConfig = (config: IntervalTimerConfig): { isValid: boolean; errors: string[] } => {
+  const errors: string[] = [];
+
+  if (!INTERVAL_PRESETS[config.protocol]) {
+    return { isValid: false, errors: [`Unknown interval protocol: ${config.protocol}`] };
+  }
+
+  const check = (label: string, value: number, [min, max]: [number, number]) => {
+    if (!Number.isFinite(value) || value < min || value > max) {
+      errors.push(min === max
+        ? `${label} must be ${min}`
+        : `${label} must be between ${min} and ${max}`);
+    }
+  };
+
+  check('Work duration', config.workDuration, getIntervalFieldBounds(config.protocol, 'workDuration'));
+  check('Rest duration', config.restDuration, getIntervalFieldBounds(config.protocol, 'restDuration'));
+  check('Rounds', config.rounds, getIntervalFieldBounds(config.protocol, 'rounds'));
+  check('Ladder step', config.ladderStep, getIntervalFieldBounds(config.protocol, 'ladderStep'));
+  check('Preparation time', config.preparationTime, [TABATA_VALIDATION.MIN_PREPARATION_TIME, TABATA_VALIDATION.MAX_PREPARATION_TIME]);
+  check('Cooldown time', config.cooldownTime, [TABATA_VALIDATION.MIN_COOLDOWN_TIME, TABATA_VALIDATION.MAX_COOLDOWN_TIME]);
+  check('Rest between exercises', config.restBetweenExercises, [TABATA_VALIDATION.MIN_REST_BETWEEN_EXERCISES, TABATA_VALIDATION.MAX_REST_BETWEEN_EXERCISES]);
+
+  if (config.protocol === 'ladder') {
+    const peakWork = config.workDuration + config.ladderStep * (config.rounds - 1);
+    if (peakWork > INTERVAL_PROTOCOL_VALIDATION.LADDER.MAX_WORK_DURATION) {
+      errors.push(`Ladder peaks at ${peakWork}s of work (max ${INTERVAL_PROTOCOL_VALIDATION.LADDER.MAX_WORK_DURATION}s)`);
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+};
+
+/**
+ * Build a config for a protocol from user overrides.
+ * Out-of-range values are clamped to the protocol bounds rather than rejected,
+ * so a stale or hand-edited config can never produce an unusable timer.
+ */
+export const createIntervalConfig = (
+  protocol: IntervalProtocol = 'tabata',
+  overrides: Partial<Omit<IntervalTimerConfig, 'protocol'>> = {}
+): IntervalTimerConfig => {
+  const preset = INTERVAL_PRESETS[protocol] ?? INTERVAL_PRESETS.tabata;
+
+  // Ignore non-numeric overrides so they fall back to the preset value
+  const numericOverrides = Object.fromEntries(
+    Object.entries(overrides).filter(([, value]) => typeof value === 'number' && Number.isFinite(value))
+  );
+  const merged: IntervalTimerConfig = { ...preset, ...numericOverrides, protocol: preset.protocol };
+
+  const config: IntervalTimerConfig = {
+    protocol: merged.protocol,
+    workDuration: clamp(merged.workDuration, ...getIntervalFieldBounds(merged.protocol, 'workDuration')),
+    restDuration: clamp(merged.restDuration, ...getIntervalFieldBounds(merged.protocol, 'restDuration')),
+    rounds: clamp(merged.rounds, ...getIntervalFieldBounds(merged.protocol, 'rounds')),
+    ladderStep: clamp(merged.ladderStep, ...getIntervalFieldBounds(merged.protocol, 'ladderStep')),
+    preparationTime: clamp(merged.preparationTime, TABATA_VALIDATION.MIN_PREPARATION_TIME, TABATA_VALIDATION.MAX_PREPARATION_TIME),
+    cooldownTime: clamp(merged.cooldownTime, TABATA_VALIDATION.MIN_COOLDOWN_TIME, TABATA_VALIDATION.MAX_COOLDOWN_TIME),
+    restBetweenExercises: clamp(merged.restBetweenExercises, TABATA_VALIDATION.MIN_REST_BETWEEN_EXERCISES, TABATA_VALIDATION.MAX_REST_BETWEEN_EXERCISES),
+  };
+
+  // Keep the ladder peak inside the limit by shrinking the step
+  if (config.protocol === 'ladder' && config.rounds > 1) {
+    const maxStep = Math.floor((INTERVAL_PROTOCOL_VALIDATION.LADDER.MAX_WORK_DURATION - config.workDuration) / (config.rounds - 1));
+    config.ladderStep = Math.max(0, Math.min(config.ladderStep, maxStep));
+  }
+
+  return config;
+};
+
+/**
+ * Parse a serialized config (e.g. a route param). Falls back to the Tabata preset.
+ */
+export const parseIntervalConfig = (raw?: string | string[] | null): IntervalTimerConfig => {
+  if (!raw || Array.isArray(raw)) return createIntervalConfig('tabata');
+
+  try {
+    const parsed = JSON.parse(raw) as Partial<IntervalTimerConfig>;
+    return createIntervalConfig(parsed.protocol ?? 'tabata', parsed);
+  } catch (error) {
+    console.warn('⚠️ [INTERVAL] Invalid timer config, using Tabata defaults:', error);
+    return createIntervalConfig('tabata');
+  }
+};
+
+/**
+ * Work duration of a given set (only the ladder protocol varies per set)
+ */
+export const getWorkDurationForSet = (config: IntervalTimerConfig, setIndex: number): number => {
+  if (config.protocol === 'ladder') {
+    return config.workDuration + config.ladderStep * setIndex;
+  }
+  return config.workDuration;
+};
+
+/**
+ * Build the full segment timeline for a session
+ */
+export const buildIntervalPlan = (config: IntervalTimerConfig, exerciseCount: number): IntervalSegment[] => {
+  const segments: IntervalSegment[] = [];
+  let offset = 0;
+
+  const push = (phase: IntervalPhase, duration: number, exerciseIndex: number, setIndex: number) => {
+    segments.push({ index: segments.length, phase, duration, exerciseIndex, setIndex, startOffset: offset });
+    offset += duration;
+  };
+
+  const exercises = Math.max(1, exerciseCount);
+  const lastSet = config.rounds - 1;
+
+  push('prepare', config.preparationTime, 0, 0);
+
+  for (let exercise = 0; exercise < exercises; exercise++) {
+    for (let set = 0; set <= lastSet; set++) {
+      push('work', getWorkDurationForSet(config, set), exercise, set);
+
+      if (set < lastSet && config.restDuration > 0) {
+        push('rest', config.restDuration, exercise, set);
+      }
+    }
+
+    // The break already shows the upcoming exercise, matching the session screen
+    if (exercise < exercises - 1) {
+      push('roundRest', config.restBetweenExercises, exercise + 1, 0);
+    }
+  }
+
+  if (config.cooldownTime > 0) {
+    push('cooldown', config.cooldownTime, exercises - 1, lastSet);
+  }
+
+  push('complete', 0, exercises - 1, lastSet);
+
+  return segments;
+};
+
+/**
+ * Stateless cursor over an interval plan
+ */
+export class IntervalTimerEngine {
+  readonly config: IntervalTimerConfig;
+  readonly plan: IntervalSegment[];
+
+  constructor(config: IntervalTimerConfig, exerciseCount: number) {
+    this.config = config;
+    this.plan = buildIntervalPlan(config, exerciseCount);
+  }
+
+  get setsPerExercise(): number {
+    return this.config.rounds;
+  }
+
+  /**
+   * Total session length in seconds, including preparation and cooldown
+   */
+  getTotalDuration(): number {
+    const last = this.plan[this.plan.length - 1];
+    return last.startOffset + last.duration;
+  }
+
+  getSegment(index: number): IntervalSegment {
+    return this.plan[Math.min(Math.max(0, index), this.plan.length - 1)];
+  }
+
+  /**
+   * Next segment after `index`, or null when the session is over
+   */
+  getNextSegment(index: number): IntervalSegment | null {
+    const next = this.plan[index + 1];
+    return next ?? null;
+  }
+
+  /**
+   * Next work segment after `index` (used to announce the upcoming exercise)
+   */
+  getNextWorkSegment(index: number): IntervalSegment | null {
+    for (let i = index + 1; i < this.plan.length; i++) {
+      if (this.plan[i].phase === 'work') return this.plan[i];
+    }
+    return null;
+  }
+
+  /**
+   * Locate a segment from an externally-tracked position (e.g. server state)
+   */
+  findSegment(phase: IntervalPhase, exerciseIndex: number, setIndex: number): IntervalSegment | null {
+    return this.plan.find(
+      (s) => s.phase === phase && s.exerciseIndex === exerciseIndex && s.setIndex === setIndex
+    ) ?? null;
+  }
+
+  /**
+   * Resolve the segment and remaining time after `elapsedSeconds` of running time
+   */
+  getPositionAt(elapsedSeconds: number): IntervalPosition {
+    const elapsed = Math.max(0, elapsedSeconds);
+
+    for (const segment of this.plan) {
+      if (segment.phase === 'complete') break;
+      if (elapsed < segment.startOffset + segment.duration) {
+        return {
+          segment,
+          timeRemaining: segment.startOffset + segment.duration - elapsed,
+          isComplete: false,
+        };
+      }
+    }
+
+    return {
+      segment: this.plan[this.plan.length - 1],
+      timeRemaining: 0,
+      isComplete: true,
+    };
+  }
+
+  /**
+   * Number of sets finished before the given position (for completion percentage)
+   */
+  getCompletedSets(exerciseIndex: number, setIndex: number): number {
+    return exerciseIndex * this.config.rounds + setIndex;
+  }
+
+  getTotalSets(exerciseCount: number): number {
+    return Math.max(1, exerciseCount) * this.config.rounds;
+  }
+}
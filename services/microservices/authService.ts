@@ -1,5 +1,6 @@
 import { apiClient, ApiResponse } from '../api/client';
 import { tokenManager, TokenPair } from '../auth/tokenManager';
+import { offlineOutbox, createIdempotencyKey, isOfflineError } from '../offlineOutbox';
 
 export interface User {
   id: string;
@@ -65,6 +66,31 @@ export interface LoginResponse {
   message: string;
 }
 
+// Returned by login() instead of a session when the account has 2FA on
+export interface TwoFactorChallenge {
+  requiresTwoFactor: true;
+  challengeToken: string;
+  message: string;
+}
+
+export interface TwoFactorLoginRequest {
+  challengeToken: string;
+  code: string;
+  isBackupCode?: boolean;
+}
+
+export interface LoginHistoryEntry {
+  id: string;
+  deviceInfo: string;
+  location: string;
+  ipAddress: string;
+  timestamp: string;
+  success: boolean;
+}
+
+export const isTwoFactorChallenge = (response: LoginResponse | TwoFactorChallenge): response is TwoFactorChallenge =>
+  (response as TwoFactorChallenge).requiresTwoFactor === true;
+
 export interface RegisterRequest {
   email: string;
   password: string;
@@ -139,65 +165,99 @@ export interface DeleteAccountRequest {
 }
 
 export class AuthService {
-  public async login(credentials: LoginRequest): Promise<LoginResponse> {
+  public async login(credentials: LoginRequest): Promise<LoginResponse | TwoFactorChallenge> {
     try {
       const response = await apiClient.post('auth', '/api/auth/login', credentials);
       const rawData = response.data;
 
       console.log('🔍 Raw login response:', rawData);
 
-      // Transform Laravel response to frontend format
-      const tokens = {
-        accessToken: rawData.token,
-        refreshToken: rawData.token, // Laravel Sanctum uses same token for both
-      };
-
-      // Transform user data from snake_case to camelCase
-      const transformedUser: User = {
-        id: rawData.user.user_id?.toString() || '',
-        email: rawData.user.email,
-        username: rawData.user.username,
-        firstName: rawData.user.first_name,
-        lastName: rawData.user.last_name,
-        isEmailVerified: !!rawData.user.email_verified_at,
-        onboardingCompleted: !!rawData.user.onboarding_completed,
-        profilePicture: rawData.user.profile_picture,
-        dateOfBirth: rawData.user.date_of_birth,
-        gender: rawData.user.gender,
-        height: rawData.user.height,
-        weight: rawData.user.weight,
-        fitnessLevel: rawData.user.fitness_level,
-        goals: rawData.user.fitness_goals || [],
-        role: rawData.user.role,
-        createdAt: rawData.user.created_at,
-        updatedAt: rawData.user.updated_at,
-        // User Personalization fields
-        targetMuscleGroups: rawData.user.target_muscle_groups || [],
-        availableEquipment: rawData.user.available_equipment || [],
-        timeConstraints: rawData.user.time_constraints_minutes,
-        activityLevel: rawData.user.activity_level,
-        workoutExperience: rawData.user.workout_experience_years,
-        phoneNumber: rawData.user.phone_number,
-        workoutDays: rawData.user.preferred_workout_days || [],
-      };
-
-      console.log('✅ Transformed user:', transformedUser);
-
-      if (tokens.accessToken) {
-        await tokenManager.updateTokensWithAutoMetadata(tokens);
+      // Password was right but the account needs a second factor — no token yet
+      if (rawData.two_factor_required || rawData.requires_two_factor) {
+        console.log('🔐 Login requires two-factor verification');
+        return {
+          requiresTwoFactor: true,
+          challengeToken: rawData.challenge_token || rawData.two_factor_token,
+          message: rawData.message || 'Two-factor verification required',
+        };
       }
 
-      return {
-        user: transformedUser,
-        tokens: tokens,
-        message: 'Login successful'
-      };
+      return await this.completeLogin(rawData);
     } catch (error) {
       console.error('❌ Login failed:', error);
       throw new Error((error as any).message || 'Login failed');
     }
   }
 
+  /**
+   * Finish a login that was answered with a TwoFactorChallenge, using either
+   * an authenticator code or one of the account's backup codes.
+   * Not called until the auth service ships this route (see TWO_FACTOR_LOGIN_ENABLED)
+   */
+  public async loginWithTwoFactor(request: TwoFactorLoginRequest): Promise<LoginResponse> {
+    try {
+      const response = await apiClient.post('auth', '/api/auth/login/two-factor', {
+        challenge_token: request.challengeToken,
+        ...(request.isBackupCode ? { backup_code: request.code } : { code: request.code }),
+      });
+
+      return await this.completeLogin(response.data);
+    } catch (error) {
+      console.error('❌ Two-factor login failed:', error);
+      throw new Error((error as any).message || 'Two-factor verification failed');
+    }
+  }
+
+  // Store the session token and map the Laravel user to the app's User shape
+  private async completeLogin(rawData: any): Promise<LoginResponse> {
+    // Transform Laravel response to frontend format
+    const tokens = {
+      accessToken: rawData.token,
+      refreshToken: rawData.token, // Laravel Sanctum uses same token for both
+    };
+
+    // Transform user data from snake_case to camelCase
+    const transformedUser: User = {
+      id: rawData.user.user_id?.toString() || '',
+      email: rawData.user.email,
+      username: rawData.user.username,
+      firstName: rawData.user.first_name,
+      lastName: rawData.user.last_name,
+      isEmailVerified: !!rawData.user.email_verified_at,
+      onboardingCompleted: !!rawData.user.onboarding_completed,
+      profilePicture: rawData.user.profile_picture,
+      dateOfBirth: rawData.user.date_of_birth,
+      gender: rawData.user.gender,
+      height: rawData.user.height,
+      weight: rawData.user.weight,
+      fitnessLevel: rawData.user.fitness_level,
+      goals: rawData.user.fitness_goals || [],
+      role: rawData.user.role,
+      createdAt: rawData.user.created_at,
+      updatedAt: rawData.user.updated_at,
+      // User Personalization fields
+      targetMuscleGroups: rawData.user.target_muscle_groups || [],
+      availableEquipment: rawData.user.available_equipment || [],
+      timeConstraints: rawData.user.time_constraints_minutes,
+      activityLevel: rawData.user.activity_level,
+      workoutExperience: rawData.user.workout_experience_years,
+      phoneNumber: rawData.user.phone_number,
+      workoutDays: rawData.user.preferred_workout_days || [],
+    };
+
+    console.log('✅ Transformed user:', transformedUser);
+
+    if (tokens.accessToken) {
+      await tokenManager.updateTokensWithAutoMetadata(tokens);
+    }
+
+    return {
+      user: transformedUser,
+      tokens: tokens,
+      message: 'Login successful'
+    };
+  }
+
   public async register(userData: RegisterRequest): Promise<RegisterResponse> {
     try {
       // Calculate age from date of birth
@@ -363,7 +423,8 @@ export class AuthService {
         console.log('ℹ️ Server logout skipped:', errorMessage);
       }
     } finally {
-      // Always clear local tokens regardless of server response
+      // Always clear local tokens (and cached reads) regardless of server response
+      await apiClient.clearCache();
       await tokenManager.clearTokens();
       console.log('✅ Logout completed - local tokens cleared');
     }
@@ -406,7 +467,7 @@ export class AuthService {
       const response = await apiClient.post('auth', '/api/auth/verify-code', {
         email: request.email,
         code: request.token
-      });
+      }, { invalidates: ['user'] });
 
       const rawData = response.data;
       console.log('✅ Email verification response:', rawData);
@@ -572,7 +633,10 @@ export class AuthService {
 
   public async getCurrentUser(): Promise<User> {
     try {
-      const response = await apiClient.get('auth', '/api/auth/user');
+      // Short-lived and memory-only: a cold start must still validate the token against the server
+      const response = await apiClient.get('auth', '/api/auth/user', {
+        cache: { ttl: 30 * 1000, tags: ['user', 'progression'], persist: false },
+      });
       const rawData = response.data;
 
       console.log('📋 Raw getCurrentUser response:', rawData);
@@ -633,7 +697,9 @@ export class AuthService {
         delete transformedUpdates.fitnessLevel; // Remove the camelCase version
       }
 
-      const response = await apiClient.put<User>('auth', `/api/auth/user-profile/${currentUser.id}`, transformedUpdates);
+      const response = await apiClient.put<User>('auth', `/api/auth/user-profile/${currentUser.id}`, transformedUpdates, {
+        invalidates: ['user'],
+      });
       return response.data;
     } catch (error) {
       throw new Error((error as any).message || 'Profile update failed');
@@ -687,7 +753,7 @@ export class AuthService {
         try {
           await apiClient.put('auth', `/api/auth/user-profile/${currentUser.id}`, {
             profile_picture: relativeUrl,
-          });
+          }, { invalidates: ['user'] });
           return { profilePictureUrl: relativeUrl };
         } catch (err) {
           lastError = err;
@@ -708,7 +774,7 @@ export class AuthService {
       const currentUser = await this.getCurrentUser();
       await apiClient.put('auth', `/api/auth/user-profile/${currentUser.id}`, {
         profile_picture: null,
-      });
+      }, { invalidates: ['user'] });
       return { message: 'Profile picture removed successfully' };
     } catch (error) {
       throw new Error((error as any).message || 'Profile picture removal failed');
@@ -813,28 +879,14 @@ export class AuthService {
   }
 
   public async getLoginHistory(page = 1, limit = 20): Promise<{
-    history: Array<{
-      id: string;
-      deviceInfo: string;
-      location: string;
-      ipAddress: string;
-      timestamp: string;
-      success: boolean;
-    }>;
+    history: LoginHistoryEntry[];
     total: number;
     page: number;
     limit: number;
   }> {
     try {
       const response = await apiClient.get<{
-        history: Array<{
-          id: string;
-          deviceInfo: string;
-          location: string;
-          ipAddress: string;
-          timestamp: string;
-          success: boolean;
-        }>;
+        history: LoginHistoryEntry[];
         total: number;
         page: number;
         limit: number;
@@ -908,25 +960,44 @@ export class AuthService {
   }
 
   // Onboarding API methods
-  public async saveFitnessAssessment(assessmentData: {
-    assessment_type: string;
-    assessment_data: any;
-    score: number;
-  }): Promise<{ message: string }> {
+  public async saveFitnessAssessment(
+    assessmentData: {
+      assessment_type: string;
+      assessment_data: any;
+      score: number;
+    },
+    options: { userId?: string | number; queueWhenOffline?: boolean } = {}
+  ): Promise<{ message: string; queued?: boolean }> {
+    const idempotencyKey = createIdempotencyKey('weekly_assessment');
+    let payload: any = null;
+
     try {
-      // Get current user to include user_id in the payload
-      const currentUser = await this.getCurrentUser();
+      // Get current user to include user_id in the payload (skip the round-trip when the caller knows it)
+      const userId = options.userId ?? (await this.getCurrentUser()).id;
 
-      const payload = {
+      payload = {
         ...assessmentData,
-        user_id: parseInt(currentUser.id), // Laravel expects numeric user_id
+        user_id: parseInt(String(userId)), // Laravel expects numeric user_id
       };
 
       console.log('💾 Sending fitness assessment with user_id:', payload);
 
-      const response = await apiClient.post<{ message: string }>('auth', '/api/fitness-assessment', payload);
+      const response = await apiClient.post<{ message: string }>('auth', '/api/fitness-assessment', payload, {
+        headers: { 'Idempotency-Key': idempotencyKey },
+        invalidates: ['user'],
+      });
       return response.data;
     } catch (error) {
+      if (options.queueWhenOffline && payload && isOfflineError(error)) {
+        await offlineOutbox.enqueue({
+          id: idempotencyKey,
+          kind: 'weekly_assessment',
+          service: 'auth',
+          url: '/api/fitness-assessment',
+          payload,
+        });
+        return { message: 'Assessment saved offline', queued: true };
+      }
       throw new Error((error as any).message || 'Failed to save fitness assessment');
     }
   }
@@ -947,7 +1018,9 @@ export class AuthService {
     try {
       // Get current user to get user ID for the existing route
       const currentUser = await this.getCurrentUser();
-      const response = await apiClient.put<User>('auth', `/api/auth/user-profile/${currentUser.id}`, profileData);
+      const response = await apiClient.put<User>('auth', `/api/auth/user-profile/${currentUser.id}`, profileData, {
+        invalidates: ['user'],
+      });
       return response.data;
     } catch (error) {
       throw new Error((error as any).message || 'Failed to update user profile');
@@ -999,7 +1072,9 @@ export class AuthService {
     score?: number;
   }): Promise<any> {
     try {
-      const response = await apiClient.put('auth', `/api/fitness-assessments/${assessmentId}`, updates);
+      const response = await apiClient.put('auth', `/api/fitness-assessments/${assessmentId}`, updates, {
+        invalidates: ['user'],
+      });
       return response.data;
     } catch (error) {
       console.warn('⚠️ Could not update fitness assessment:', error);
@@ -1,4 +1,5 @@
 import { apiClient, ApiResponse } from '../api/client';
+import { offlineOutbox, createIdempotencyKey, isOfflineError } from '../offlineOutbox';
 
 export interface Notification {
   notification_id: number;
@@ -16,22 +17,71 @@ export interface UnreadCountResponse {
   unread_count: number;
 }
 
+// A completed session or weekly assessment a message comments on
+export interface MessageAttachment {
+  type: 'session' | 'assessment';
+  id: string;
+  label: string; // e.g. "Tabata Workout • Oct 12", shown on the bubble
+}
+
+export interface DirectMessage {
+  message_id: string;
+  sender_id: number;
+  recipient_id: number;
+  body: string;
+  attachment?: MessageAttachment | null;
+  is_read: boolean;
+  read_at?: string | null;
+  created_at: string;
+  client_message_id?: string; // Idempotency key the sender generated, echoed back
+}
+
+export interface MessageThread {
+  user_id: number; // The other participant
+  username: string;
+  profile_picture?: string | null;
+  last_message: DirectMessage | null;
+  unread_count: number;
+}
+
+export interface SendDirectMessageRequest {
+  recipient_id: number;
+  body: string;
+  attachment?: MessageAttachment | null;
+}
+
 export class CommsService {
   /**
-   * Get all notifications for a user
-   * GET /api/comms/notifications/{userId}
+   * Get a page of notifications for a user, newest first
+   * GET /api/comms/notifications/{userId}?page=&per_page=
    */
-  public async getUserNotifications(userId: number): Promise<{ data: Notification[] }> {
+  public async getUserNotifications(
+    userId: number,
+    options: { page?: number; perPage?: number } = {}
+  ): Promise<{ data: Notification[]; has_more: boolean }> {
     try {
-      console.log('📬 [COMMS] Fetching notifications for user:', userId);
+      console.log('📬 [COMMS] Fetching notifications for user:', userId, options);
 
-      const response = await apiClient.get(
+      const params = new URLSearchParams();
+      if (options.page) params.append('page', String(options.page));
+      if (options.perPage) params.append('per_page', String(options.perPage));
+      const query = params.toString();
+
+      const response = await apiClient.get<any>(
         'communications',
-        `/api/comms/notifications/${userId}`
+        `/api/comms/notifications/${userId}${query ? `?${query}` : ''}`
       );
 
-      console.log('✅ [COMMS] Notifications fetched successfully:', response.data);
-      return response.data;
+      const body = response.data || {};
+      const data: Notification[] = body.data || [];
+      // Laravel paginator fields, at the top level or under meta
+      const meta = body.meta || body;
+      const hasMore = meta.last_page !== undefined
+        ? meta.current_page < meta.last_page
+        : !!options.perPage && data.length >= options.perPage;
+
+      console.log('✅ [COMMS] Notifications fetched successfully:', data.length);
+      return { data, has_more: hasMore };
     } catch (error) {
       console.error('❌ [COMMS] Failed to fetch notifications:', error);
       throw new Error((error as any).message || 'Failed to fetch notifications');
@@ -289,6 +339,125 @@ export class CommsService {
       return { message: 'Token removal failed but continuing' };
     }
   }
+
+  // ============================================================================
+  // DIRECT MESSAGES (mentor ↔ trainee)
+  // ============================================================================
+
+  /**
+   * Conversations for the current user, most recent first
+   * GET /api/comms/messages/threads
+   */
+  public async getMessageThreads(): Promise<MessageThread[]> {
+    try {
+      const response = await apiClient.get<{ data: MessageThread[] } | MessageThread[]>(
+        'communications',
+        '/api/comms/messages/threads'
+      );
+      const data = response.data;
+      return Array.isArray(data) ? data : data?.data || [];
+    } catch (error) {
+      console.error('❌ [COMMS] Failed to fetch message threads:', error);
+      throw new Error((error as any).message || 'Failed to fetch conversations');
+    }
+  }
+
+  /**
+   * One page of a conversation, newest first. Pass the oldest loaded message id
+   * as `before` to page back through history.
+   * GET /api/comms/messages/{userId}?before=&limit=
+   */
+  public async getDirectMessages(
+    otherUserId: number,
+    options: { before?: string; limit?: number } = {}
+  ): Promise<{ messages: DirectMessage[]; has_more: boolean }> {
+    try {
+      const params = new URLSearchParams();
+      if (options.before) params.append('before', options.before);
+      if (options.limit) params.append('limit', String(options.limit));
+      const query = params.toString();
+
+      const response = await apiClient.get<{ messages: DirectMessage[]; has_more: boolean }>(
+        'communications',
+        `/api/comms/messages/${otherUserId}${query ? `?${query}` : ''}`
+      );
+      return {
+        messages: response.data?.messages || [],
+        has_more: !!response.data?.has_more,
+      };
+    } catch (error) {
+      console.error('❌ [COMMS] Failed to fetch messages:', error);
+      throw new Error((error as any).message || 'Failed to fetch messages');
+    }
+  }
+
+  /**
+   * Send a direct message. The comms service stores it, creates a notification
+   * for the recipient and broadcasts message.received on their user channel.
+   * Offline sends are queued in the outbox and replayed with the same key.
+   * POST /api/comms/messages
+   */
+  public async sendDirectMessage(
+    request: SendDirectMessageRequest,
+    clientMessageId: string = createIdempotencyKey('direct_message')
+  ): Promise<{ message: DirectMessage | null; queued: boolean }> {
+    const payload = { ...request, client_message_id: clientMessageId };
+
+    try {
+      console.log('💬 [COMMS] Sending message to user:', request.recipient_id);
+      const response = await apiClient.post<{ data: DirectMessage } | DirectMessage>(
+        'communications',
+        '/api/comms/messages',
+        payload,
+        { headers: { 'Idempotency-Key': clientMessageId } }
+      );
+      const data: any = response.data;
+      return { message: data?.data || data, queued: false };
+    } catch (error) {
+      if (isOfflineError(error)) {
+        await offlineOutbox.enqueue({
+          id: clientMessageId,
+          kind: 'direct_message',
+          service: 'communications',
+          url: '/api/comms/messages',
+          payload,
+        });
+        return { message: null, queued: true };
+      }
+      console.error('❌ [COMMS] Failed to send message:', error);
+      throw new Error((error as any).message || 'Failed to send message');
+    }
+  }
+
+  /**
+   * Mark every message from a user as read
+   * PUT /api/comms/messages/{userId}/read
+   */
+  public async markThreadAsRead(otherUserId: number): Promise<void> {
+    try {
+      await apiClient.put('communications', `/api/comms/messages/${otherUserId}/read`);
+    } catch (error) {
+      // Unread state is refreshed on the next load — not worth interrupting the chat
+      console.warn('⚠️ [COMMS] Failed to mark thread as read:', error);
+    }
+  }
+
+  /**
+   * Total unread direct messages for the current user
+   * GET /api/comms/messages/unread-count
+   */
+  public async getUnreadMessageCount(): Promise<number> {
+    try {
+      const response = await apiClient.get<UnreadCountResponse>(
+        'communications',
+        '/api/comms/messages/unread-count'
+      );
+      return response.data?.unread_count || 0;
+    } catch (error) {
+      console.error('❌ [COMMS] Failed to fetch unread message count:', error);
+      return 0;
+    }
+  }
 }
 
 export const commsService = new CommsService();
@@ -63,6 +63,7 @@ export interface Workout {
   difficulty_level: number; // Changed from string to number (1-3)
   total_duration_minutes: number; // Changed from duration to match backend
   exercises: WorkoutExercise[];
+  rounds?: TabataRound[]; // Present on legacy Tabata workouts
   target_muscle_groups: string; // Changed from array to string
   equipment_needed?: string; // Changed from array to optional string
   estimated_calories_burned: number; // Changed from caloriesBurned
@@ -216,7 +217,10 @@ export class ContentService {
         data: ExerciseListItem[];
         pagination: ExerciseLibraryResponse['pagination'];
         stats: ExerciseLibraryResponse['stats'];
-      }>(this.serviceName, url);
+      }>(this.serviceName, url, {
+        // Library changes rarely — show the last copy instantly and refresh behind it
+        cache: { ttl: 10 * 60 * 1000, staleWhileRevalidate: 7 * 24 * 60 * 60 * 1000, tags: ['content'] },
+      });
 
       return {
         data: response.data.data,
@@ -425,7 +429,9 @@ export class ContentService {
   // Muscle Groups and Equipment
   public async getMuscleGroups(): Promise<string[]> {
     try {
-      const response = await apiClient.get<string[]>(this.serviceName, '/content/muscle-groups');
+      const response = await apiClient.get<string[]>(this.serviceName, '/content/muscle-groups', {
+        cache: { ttl: 60 * 60 * 1000, staleWhileRevalidate: 30 * 24 * 60 * 60 * 1000, tags: ['content'] },
+      });
       return response.data;
     } catch (error) {
       console.warn('Content service unavailable - muscle groups disabled:', error);
@@ -435,7 +441,9 @@ export class ContentService {
 
   public async getEquipment(): Promise<string[]> {
     try {
-      const response = await apiClient.get<string[]>(this.serviceName, '/content/equipment');
+      const response = await apiClient.get<string[]>(this.serviceName, '/content/equipment', {
+        cache: { ttl: 60 * 60 * 1000, staleWhileRevalidate: 30 * 24 * 60 * 60 * 1000, tags: ['content'] },
+      });
       return response.data;
     } catch (error) {
       console.warn('Content service unavailable - equipment list disabled:', error);
@@ -60,7 +60,8 @@ export class EngagementService {
     try {
       const response = await apiClient.get<{ success: boolean; data: Achievement[] }>(
         this.serviceName,
-        '/api/engagement/available-achievements'
+        '/api/engagement/available-achievements',
+        { cache: { ttl: 10 * 60 * 1000, staleWhileRevalidate: 7 * 24 * 60 * 60 * 1000, tags: ['achievements'] } }
       );
       return response.data.data;
     } catch (error) {
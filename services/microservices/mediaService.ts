@@ -89,6 +89,35 @@ export class MediaService {
 
     return response.data;
   }
+
+  /**
+   * Upload a progress photo to the media service.
+   * Progress photos are private; the backend only serves them to their owner.
+   * Not called until the media service ships this route (see PHOTO_BACKUP_ENABLED)
+   */
+  public async uploadProgressPhoto(imageUri: string): Promise<MediaUploadResponse> {
+    const formData = new FormData();
+
+    formData.append('file', {
+      uri: imageUri,
+      name: `progress_${Date.now()}.jpg`,
+      type: 'image/jpeg',
+    } as any);
+
+    const response = await apiClient.post<MediaUploadResponse>(
+      'media',
+      '/api/media/progress-photo',
+      formData,
+      {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        },
+        timeout: 60000,
+      }
+    );
+
+    return response.data;
+  }
 }
 
 export const mediaService = new MediaService();
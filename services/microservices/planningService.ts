@@ -12,6 +12,7 @@ export interface WorkoutPlan {
   created_at: string;
   updated_at: string;
   is_active: boolean;
+  is_coaching_plan?: boolean; // authored by a mentor to assign to trainees
 }
 
 export interface WorkoutPlanSchedule {
@@ -36,6 +37,14 @@ export interface WorkoutScheduleRequest {
   rest_days: string[];
   goals: string[];
   difficulty: 'beginner' | 'intermediate' | 'advanced';
+  daily_workouts?: DailyWorkoutRequest[]; // per-day type/duration for mentor-authored programs
+}
+
+export interface DailyWorkoutRequest {
+  day_of_week: WorkoutPlanSchedule['day_of_week'];
+  workout_type: WorkoutPlanSchedule['workout_type'];
+  estimated_duration: number; // minutes
+  notes?: string;
 }
 
 export interface CreatePlanRequest {
@@ -46,9 +55,12 @@ export interface CreatePlanRequest {
   difficulty: 'beginner' | 'intermediate' | 'advanced';
   goals: string[];
   schedule: WorkoutScheduleRequest;
+  is_coaching_plan?: boolean;
 }
 
 export interface CustomizePlanRequest {
+  name?: string;
+  description?: string;
   duration_weeks?: number;
   sessions_per_week?: number;
   difficulty?: 'beginner' | 'intermediate' | 'advanced';
@@ -56,6 +68,25 @@ export interface CustomizePlanRequest {
   schedule_updates?: Partial<WorkoutScheduleRequest>;
 }
 
+// Mentor coaching plans: a plan authored by a mentor and assigned to a trainee
+export interface PlanAssignment {
+  id: string;
+  workout_plan_id: string;
+  user_id: string;
+  username?: string;
+  group_id?: string | null;
+  assigned_by: string;
+  start_date: string; // YYYY-MM-DD, the Monday the program starts
+  status: 'active' | 'completed' | 'cancelled';
+  created_at: string;
+}
+
+export interface AssignPlanRequest {
+  user_ids: string[];
+  group_id?: string; // set when assigning to a whole training group
+  start_date: string; // YYYY-MM-DD
+}
+
 // Weekly Workout Plans (Feature #4)
 export interface WeeklyWorkoutPlan {
   plan_id: number;
@@ -104,7 +135,34 @@ export interface GenerateWeeklyPlanRequest {
   force_fresh?: boolean; // true = random seed → genuinely new exercises; false/absent = deterministic week seed
 }
 
+export type WeeklyPlanChange = 'generated' | 'adapted' | 'day_completed';
+
+type WeeklyPlanListener = (change: WeeklyPlanChange, plan: WeeklyWorkoutPlan | null) => void;
+
 export class PlanningService {
+  private weeklyPlanListeners = new Set<WeeklyPlanListener>();
+
+  /**
+   * Listen for weekly plans being generated, adapted or updated with a completed day.
+   * Returns an unsubscribe function.
+   */
+  public subscribeToWeeklyPlanChanges(listener: WeeklyPlanListener): () => void {
+    this.weeklyPlanListeners.add(listener);
+    return () => {
+      this.weeklyPlanListeners.delete(listener);
+    };
+  }
+
+  private notifyWeeklyPlanChanged(change: WeeklyPlanChange, plan: WeeklyWorkoutPlan | null): void {
+    this.weeklyPlanListeners.forEach((listener) => {
+      try {
+        listener(change, plan);
+      } catch (error) {
+        console.error('[Planning Service] Weekly plan listener failed:', error);
+      }
+    });
+  }
+
   // Get user's current workout plan
   public async getWorkoutPlan(userId: string): Promise<WorkoutPlan | null> {
     try {
@@ -260,6 +318,67 @@ export class PlanningService {
     }
   }
 
+  // ============================================================================
+  // MENTOR COACHING PLANS
+  // ============================================================================
+
+  /**
+   * Assign a mentor-authored plan to trainees, individually or a whole group
+   */
+  public async assignPlan(planId: string, request: AssignPlanRequest): Promise<PlanAssignment[]> {
+    try {
+      const response = await apiClient.post<{ assignments: PlanAssignment[] } | PlanAssignment[]>(
+        'planning',
+        `/api/planning/plan/${planId}/assign`,
+        request
+      );
+      const data = response.data;
+      return Array.isArray(data) ? data : data?.assignments || [];
+    } catch (error: any) {
+      console.error('[Planning Service] Failed to assign plan:', error);
+      throw new Error(error.message || 'Unable to assign workout plan');
+    }
+  }
+
+  /**
+   * Get everyone a plan is assigned to
+   */
+  public async getPlanAssignments(planId: string): Promise<PlanAssignment[]> {
+    try {
+      const response = await apiClient.get<PlanAssignment[]>('planning', `/api/planning/plan/${planId}/assignments`);
+      return response.data || [];
+    } catch (error) {
+      console.warn('Planning service unavailable for plan assignments:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the coaching plans assigned to a trainee, newest first
+   */
+  public async getUserAssignments(userId: string): Promise<PlanAssignment[]> {
+    try {
+      const response = await apiClient.get<PlanAssignment[]>('planning', `/api/planning/assignments/user/${userId}`);
+      return response.data || [];
+    } catch (error) {
+      console.warn('Planning service unavailable for user assignments:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Stop a trainee's assignment; their history stays with the plan
+   */
+  public async unassignPlan(assignmentId: string): Promise<boolean> {
+    try {
+      await apiClient.delete('planning', `/api/planning/assignments/${assignmentId}`);
+      return true;
+    } catch (error) {
+      console.warn('Planning service unavailable for unassigning plan:', error);
+      return false;
+    }
+  }
+
   // ============================================================================
   // WEEKLY WORKOUT PLANS (Feature #4)
   // ============================================================================
@@ -287,6 +406,7 @@ export class PlanningService {
         response.data.data = this.transformWeeklyPlanData(response.data.data) as WeeklyWorkoutPlan;
       }
 
+      this.notifyWeeklyPlanChanged('generated', response.data?.data ?? null);
       return response.data;
     } catch (error: any) {
       console.error('[Planning Service] Failed to generate weekly plan:', error);
@@ -375,6 +495,7 @@ export class PlanningService {
         response.data.data = this.transformWeeklyPlanData(response.data.data) as WeeklyWorkoutPlan;
       }
 
+      this.notifyWeeklyPlanChanged('day_completed', response.data?.data ?? null);
       return response.data;
     } catch (error: any) {
       console.error('[Planning Service] Failed to complete day workout:', error);
@@ -489,6 +610,8 @@ export class PlanningService {
         preserve_completed: adaptationRequest.preserve_completed ?? true,
         adaptation_strategy: adaptationRequest.adaptation_strategy ?? 'reallocate',
       });
+
+      this.notifyWeeklyPlanChanged('adapted', response.data?.data ?? null);
       return response.data;
     } catch (error: any) {
       console.error('[Planning Service] Failed to adapt weekly plan:', error);
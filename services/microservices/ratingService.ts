@@ -1,4 +1,5 @@
 import { apiClient } from '../api/client';
+import { offlineOutbox, createIdempotencyKey, isOfflineError } from '../offlineOutbox';
 
 /**
  * Rating Service
@@ -39,7 +40,26 @@ export const ratingService = {
    * Submit exercise ratings in batch (recommended)
    * Called after workout completion with all exercise ratings
    */
-  async submitExerciseRatingsBatch(data: BatchRatingRequest) {
+  async submitExerciseRatingsBatch(data: BatchRatingRequest, options: { pendingSessionKey?: string } = {}) {
+    const idempotencyKey = createIdempotencyKey('exercise_ratings');
+    const queue = async () => {
+      await offlineOutbox.enqueue({
+        id: idempotencyKey,
+        kind: 'exercise_ratings',
+        service: 'tracking',
+        url: '/api/exercise-ratings/batch',
+        payload: data,
+        dependsOn: options.pendingSessionKey,
+      });
+      return { queued: true };
+    };
+
+    // The session itself is still in the outbox — ratings must wait for its database id
+    if (options.pendingSessionKey) {
+      console.log('📥 [RATING SERVICE] Session pending sync - queueing ratings:', options.pendingSessionKey);
+      return queue();
+    }
+
     try {
       console.log('📊 [RATING SERVICE] Submitting batch ratings:', {
         userId: data.user_id,
@@ -47,7 +67,9 @@ export const ratingService = {
         count: data.ratings.length,
       });
 
-      const response = await apiClient.post('tracking', '/api/exercise-ratings/batch', data);
+      const response = await apiClient.post('tracking', '/api/exercise-ratings/batch', data, {
+        headers: { 'Idempotency-Key': idempotencyKey },
+      });
 
       console.log('✅ [RATING SERVICE] Batch ratings submitted successfully:', {
         saved: response.data?.data?.saved_count,
@@ -56,6 +78,11 @@ export const ratingService = {
 
       return response.data;
     } catch (error: any) {
+      if (isOfflineError(error)) {
+        console.warn('📥 [RATING SERVICE] Offline - queueing batch ratings for sync');
+        return queue();
+      }
+
       console.error('❌ [RATING SERVICE] Failed to submit batch ratings:', {
         error: error.message,
         response: error.response?.data,
@@ -1,4 +1,6 @@
-import { apiClient, ApiResponse } from '../api/client';
+import { apiClient, ApiResponse, RequestPriority } from '../api/client';
+import { offlineOutbox, isOfflineError } from '../offlineOutbox';
+import type { TabataWorkoutSession } from '../workoutSessionGenerator';
 
 export interface Group {
   id: string;
@@ -78,6 +80,8 @@ export interface FriendRequest {
   fromUsername: string;
   fromProfilePicture?: string;
   toUserId: string;
+  toUsername?: string; // Included on sent requests
+  toProfilePicture?: string;
   message?: string;
   status: 'pending' | 'accepted' | 'declined' | 'cancelled';
   sentAt: string;
@@ -129,6 +133,7 @@ export interface SharedWorkout {
     averageRating: number;
     totalCaloriesBurned: number;
   };
+  template?: TabataWorkoutSession; // Exercise list to start the workout from (detail responses only)
 }
 
 export interface WorkoutComment {
@@ -156,13 +161,17 @@ export interface WorkoutCommentReply {
   createdAt: string;
 }
 
+export type ChallengeCategory = 'distance' | 'duration' | 'frequency' | 'strength' | 'weight-loss' | 'custom';
+
+export type ChallengeDifficulty = 'easy' | 'medium' | 'hard';
+
 export interface Challenge {
   id: string;
   title: string;
   description: string;
   type: 'individual' | 'group' | 'global';
-  category: 'distance' | 'duration' | 'frequency' | 'strength' | 'weight-loss' | 'custom';
-  difficulty: 'easy' | 'medium' | 'hard';
+  category: ChallengeCategory;
+  difficulty: ChallengeDifficulty;
   duration: {
     value: number;
     unit: 'days' | 'weeks' | 'months';
@@ -245,7 +254,7 @@ export interface ActivityFeed {
   content: {
     title: string;
     description: string;
-    metadata?: any;
+    metadata?: ActivityMetadata;
   };
   visibility: 'public' | 'friends' | 'private';
   likes: number;
@@ -254,6 +263,28 @@ export interface ActivityFeed {
   timestamp: string;
 }
 
+// Ids of the entities an activity refers to (used for deep links)
+export interface ActivityMetadata {
+  groupId?: string;
+  achievementId?: string;
+  challengeId?: string;
+  sharedWorkoutId?: string;
+  friendId?: string;
+  durationMinutes?: number;
+  caloriesBurned?: number;
+  [key: string]: any;
+}
+
+export interface ActivityComment {
+  id: string;
+  activityId: string;
+  userId: string;
+  username: string;
+  profilePicture?: string;
+  content: string;
+  createdAt: string;
+}
+
 export interface CreateGroupRequest {
   name: string;
   description: string;
@@ -297,7 +328,10 @@ export interface SendFriendRequestRequest {
 
 export interface ShareWorkoutRequest {
   workoutId: string;
+  title?: string;
   description?: string;
+  type?: SharedWorkout['type'];
+  template?: TabataWorkoutSession; // Published exercise list, so others can run the same workout
   visibility: 'public' | 'friends' | 'groups';
   targetGroups?: string[];
   tags?: string[];
@@ -307,8 +341,8 @@ export interface CreateChallengeRequest {
   title: string;
   description: string;
   type: 'individual' | 'group' | 'global';
-  category: string;
-  difficulty: 'easy' | 'medium' | 'hard';
+  category: ChallengeCategory;
+  difficulty: ChallengeDifficulty;
   duration: {
     value: number;
     unit: 'days' | 'weeks' | 'months';
@@ -317,10 +351,17 @@ export interface CreateChallengeRequest {
   maxParticipants?: number;
   rules: string[];
   rewards: ChallengeReward[];
-  requirements?: any;
+  requirements?: Challenge['requirements'];
   tags: string[];
 }
 
+export interface ChallengeProgressUpdate {
+  increment: number; // Amount added to the participant's progress, in the challenge's own unit
+  metric: 'sessions' | 'minutes' | 'calories' | 'exercises';
+  session_key: string; // Workout session that earned it (database id, or outbox id while queued)
+  recorded_at: string;
+}
+
 export interface EvaluateWorkoutRequest {
   workoutId: string;
   rating: number;
@@ -336,6 +377,9 @@ export interface EvaluateWorkoutRequest {
   targetAudience?: string[];
 }
 
+// Page size when looking a single item up in a list route (challenges, shared workouts)
+const LOOKUP_PAGE_SIZE = 50;
+
 export class SocialService {
   // Group Management
   public async createGroup(request: CreateGroupRequest | any): Promise<Group> {
@@ -511,14 +555,16 @@ export class SocialService {
     }
   }
 
-  public async getGroupMembers(groupId: string, page = 1, limit = 20): Promise<{
+  public async getGroupMembers(groupId: string, page = 1, limit = 20, options: { priority?: RequestPriority } = {}): Promise<{
     members: GroupMember[];
     total: number;
     page: number;
     limit: number;
   }> {
     try {
-      const response = await apiClient.get('social', `/api/groups/${groupId}/members?page=${page}&per_page=${limit}`);
+      const response = await apiClient.get('social', `/api/groups/${groupId}/members?page=${page}&per_page=${limit}`, {
+        priority: options.priority,
+      });
 
       // Transform Laravel response
       const rawData = response.data.data || response.data;
@@ -729,6 +775,29 @@ export class SocialService {
     }
   }
 
+  public async getSharedWorkout(sharedWorkoutId: string): Promise<SharedWorkout> {
+    try {
+      // The social service has no single-workout route, so look it up in the list
+      for (let page = 1; ; page++) {
+        const response = await apiClient.get<{
+          workouts: SharedWorkout[];
+          total: number;
+          page: number;
+          limit: number;
+        }>('social', `/social/workouts?page=${page}&limit=${LOOKUP_PAGE_SIZE}`);
+
+        const workouts = response.data.workouts || [];
+        const workout = workouts.find((w) => String(w.id) === String(sharedWorkoutId));
+        if (workout) return workout;
+
+        if (workouts.length === 0 || page * LOOKUP_PAGE_SIZE >= (response.data.total || 0)) break;
+      }
+      throw new Error('Shared workout not found');
+    } catch (error) {
+      throw new Error((error as any).message || 'Failed to get shared workout');
+    }
+  }
+
   public async likeWorkout(workoutId: string): Promise<{ message: string; likes: number }> {
     try {
       const response = await apiClient.post<{ message: string; likes: number }>('social', `/social/workouts/${workoutId}/like`);
@@ -787,7 +856,9 @@ export class SocialService {
   // Challenges
   public async createChallenge(request: CreateChallengeRequest): Promise<Challenge> {
     try {
-      const response = await apiClient.post<Challenge>('social', '/social/challenges', request);
+      const response = await apiClient.post<Challenge>('social', '/social/challenges', request, {
+        invalidates: ['challenges'],
+      });
       return response.data;
     } catch (error) {
       throw new Error((error as any).message || 'Failed to create challenge');
@@ -796,8 +867,8 @@ export class SocialService {
 
   public async getChallenges(filters?: {
     type?: string;
-    category?: string;
-    difficulty?: string;
+    category?: ChallengeCategory;
+    difficulty?: ChallengeDifficulty;
     status?: 'active' | 'upcoming' | 'completed';
     page?: number;
     limit?: number;
@@ -814,16 +885,46 @@ export class SocialService {
         total: number;
         page: number;
         limit: number;
-      }>('social', `/social/challenges?${params}`);
+      }>('social', `/social/challenges?${params}`, {
+        cache: { ttl: 60 * 1000, staleWhileRevalidate: 24 * 60 * 60 * 1000, tags: ['challenges'] },
+      });
       return response.data;
     } catch (error) {
       throw new Error((error as any).message || 'Failed to get challenges');
     }
   }
 
+  public async getChallenge(challengeId: string, options?: { priority?: RequestPriority }): Promise<Challenge> {
+    try {
+      // The social service has no single-challenge route, so look it up in the list.
+      // Not cached: the detail screen polls this for the live leaderboard
+      for (let page = 1; ; page++) {
+        const response = await apiClient.get<{
+          challenges: Challenge[];
+          total: number;
+          page: number;
+          limit: number;
+        }>('social', `/social/challenges?page=${page}&limit=${LOOKUP_PAGE_SIZE}`, {
+          priority: options?.priority,
+        });
+
+        const challenges = response.data.challenges || [];
+        const challenge = challenges.find((c) => String(c.id) === String(challengeId));
+        if (challenge) return challenge;
+
+        if (challenges.length === 0 || page * LOOKUP_PAGE_SIZE >= (response.data.total || 0)) break;
+      }
+      throw new Error('Challenge not found');
+    } catch (error) {
+      throw new Error((error as any).message || 'Failed to get challenge');
+    }
+  }
+
   public async joinChallenge(challengeId: string): Promise<{ message: string }> {
     try {
-      const response = await apiClient.post<{ message: string }>('social', `/social/challenges/${challengeId}/join`);
+      const response = await apiClient.post<{ message: string }>('social', `/social/challenges/${challengeId}/join`, undefined, {
+        invalidates: ['challenges'],
+      });
       return response.data;
     } catch (error) {
       throw new Error((error as any).message || 'Failed to join challenge');
@@ -832,18 +933,44 @@ export class SocialService {
 
   public async leaveChallenge(challengeId: string): Promise<{ message: string }> {
     try {
-      const response = await apiClient.post<{ message: string }>('social', `/social/challenges/${challengeId}/leave`);
+      const response = await apiClient.post<{ message: string }>('social', `/social/challenges/${challengeId}/leave`, undefined, {
+        invalidates: ['challenges'],
+      });
       return response.data;
     } catch (error) {
       throw new Error((error as any).message || 'Failed to leave challenge');
     }
   }
 
-  public async updateChallengeProgress(challengeId: string, progress: any): Promise<{ message: string }> {
+  /**
+   * Report progress earned by a workout session. One key per challenge and session,
+   * so a retry or an offline replay is never counted twice.
+   */
+  public async updateChallengeProgress(
+    challengeId: string,
+    progress: ChallengeProgressUpdate
+  ): Promise<{ message: string; queued?: boolean }> {
+    const idempotencyKey = `challenge_progress_${challengeId}_${progress.session_key}`;
+    const url = `/social/challenges/${challengeId}/progress`;
+
     try {
-      const response = await apiClient.put<{ message: string }>('social', `/social/challenges/${challengeId}/progress`, progress);
+      const response = await apiClient.put<{ message: string }>('social', url, progress, {
+        headers: { 'Idempotency-Key': idempotencyKey },
+        invalidates: ['challenges'],
+      });
       return response.data;
     } catch (error) {
+      if (isOfflineError(error)) {
+        await offlineOutbox.enqueue({
+          id: idempotencyKey,
+          kind: 'challenge_progress',
+          service: 'social',
+          url,
+          method: 'put',
+          payload: progress,
+        });
+        return { message: 'Challenge progress queued for sync', queued: true };
+      }
       throw new Error((error as any).message || 'Failed to update challenge progress');
     }
   }
@@ -931,6 +1058,45 @@ export class SocialService {
     }
   }
 
+  // Unlike and comments aren't called until the social service ships their routes
+  // (see FEED_UNLIKE_ENABLED / FEED_COMMENTS_ENABLED)
+  public async unlikeActivity(activityId: string): Promise<{ message: string; likes: number }> {
+    try {
+      const response = await apiClient.delete<{ message: string; likes: number }>('social', `/social/feed/${activityId}/like`);
+      return response.data;
+    } catch (error) {
+      throw new Error((error as any).message || 'Failed to unlike activity');
+    }
+  }
+
+  public async getActivityComments(activityId: string, page: number = 1, limit: number = 20): Promise<{
+    comments: ActivityComment[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    try {
+      const response = await apiClient.get<{
+        comments: ActivityComment[];
+        total: number;
+        page: number;
+        limit: number;
+      }>('social', `/social/feed/${activityId}/comments?page=${page}&limit=${limit}`);
+      return response.data;
+    } catch (error) {
+      throw new Error((error as any).message || 'Failed to get comments');
+    }
+  }
+
+  public async addActivityComment(activityId: string, content: string): Promise<ActivityComment> {
+    try {
+      const response = await apiClient.post<ActivityComment>('social', `/social/feed/${activityId}/comments`, { content });
+      return response.data;
+    } catch (error) {
+      throw new Error((error as any).message || 'Failed to add comment');
+    }
+  }
+
   // Statistics and Analytics
   public async getSocialStats(): Promise<{
     friends: number;
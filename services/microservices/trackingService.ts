@@ -1,4 +1,5 @@
 import { apiClient, ApiResponse } from '../api/client';
+import { offlineOutbox, createIdempotencyKey, isOfflineError } from '../offlineOutbox';
 
 export interface Workout {
   id: string;
@@ -75,6 +76,7 @@ export interface WorkoutSession {
     location?: 'gym' | 'home' | 'outdoor' | 'other';
   };
   completionPercentage: number;
+  pendingSync?: boolean; // Saved to the offline outbox, not yet confirmed by the server
   createdAt: string;
   updatedAt: string;
 }
@@ -129,12 +131,15 @@ export interface BMIEntry {
   createdAt: string;
 }
 
+export type GoalType = 'weight-loss' | 'weight-gain' | 'muscle-gain' | 'strength' | 'endurance' | 'frequency' | 'flexibility' | 'custom';
+
 export interface Goal {
   id: string;
   userId: string;
-  type: 'weight-loss' | 'weight-gain' | 'muscle-gain' | 'strength' | 'endurance' | 'flexibility' | 'custom';
+  type: GoalType;
   title: string;
   description: string;
+  startValue?: number; // Baseline when the goal was set (weight goals count down from it)
   targetValue: number;
   currentValue: number;
   unit: string;
@@ -231,6 +236,15 @@ export interface PerformanceMetrics {
   }[];
 }
 
+export interface PersonalBest {
+  exercise: string;
+  metric: string;
+  value: number;
+  unit: string;
+  date: string;
+  sessionId: string;
+}
+
 export interface CreateWorkoutRequest {
   name: string;
   type: 'strength' | 'cardio' | 'flexibility' | 'balance' | 'sports' | 'mixed';
@@ -278,9 +292,11 @@ export interface LogProgressRequest {
 }
 
 export interface CreateGoalRequest {
-  type: string;
+  type: GoalType;
   title: string;
   description: string;
+  startValue?: number;
+  currentValue?: number;
   targetValue: number;
   unit: string;
   targetDate: string;
@@ -397,6 +413,9 @@ export class TrackingService {
     notes?: string;
     exercises?: Array<{ exercise_id: number; exercise_name: string; target_muscle_group?: string; completed?: boolean }>;
   }): Promise<WorkoutSession> {
+    // Generated once so the first attempt and any offline replay share the same key
+    const idempotencyKey = createIdempotencyKey('workout_session');
+
     try {
       // Backend expects specific field names
       const payload: any = {
@@ -428,8 +447,42 @@ export class TrackingService {
         }));
       }
 
-      const response = await apiClient.post<{ success: boolean; data: WorkoutSession }>('tracking', '/api/workout-session', payload);
-      return response.data.data;
+      try {
+        const response = await apiClient.post<{ success: boolean; data: WorkoutSession }>('tracking', '/api/workout-session', payload, {
+          headers: { 'Idempotency-Key': idempotencyKey },
+          invalidates: ['tracking', 'progression'],
+        });
+        return response.data.data;
+      } catch (error) {
+        if (!isOfflineError(error)) throw error;
+
+        // Offline: keep the session in the outbox and replay it when connectivity returns
+        await offlineOutbox.enqueue({
+          id: idempotencyKey,
+          kind: 'workout_session',
+          service: 'tracking',
+          url: '/api/workout-session',
+          payload,
+        });
+        console.warn('📥 Tracking service unreachable - session queued for sync:', idempotencyKey);
+
+        return {
+          id: idempotencyKey,
+          workoutId: sessionData.workoutId,
+          workoutName: 'Tabata Workout',
+          userId: String(sessionData.userId),
+          startTime: sessionData.startTime.toISOString(),
+          endTime: sessionData.endTime?.toISOString(),
+          duration: sessionData.duration,
+          status: sessionData.completed ? 'completed' : 'cancelled',
+          exercises: [],
+          actualCaloriesBurned: sessionData.caloriesBurned,
+          completionPercentage: payload.completion_percentage,
+          pendingSync: true,
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        } as WorkoutSession;
+      }
     } catch (error) {
       console.warn('Tracking service unavailable - session saved locally:', error);
       // Return mock data when service is unavailable
@@ -521,7 +574,7 @@ export class TrackingService {
     page?: number;
     limit?: number;
     userId?: string;
-  }): Promise<{
+  }, options: { revalidate?: boolean } = {}): Promise<{
     sessions: WorkoutSession[];
     total: number;
     page: number;
@@ -556,7 +609,10 @@ export class TrackingService {
           total: number;
           per_page: number;
         };
-      }>('tracking', url);
+      }>('tracking', url, {
+        cache: { ttl: 60 * 1000, staleWhileRevalidate: 24 * 60 * 60 * 1000, tags: ['tracking'] },
+        revalidate: options.revalidate,
+      });
 
       console.log('🔄 [getSessions] Backend response:', response.data);
 
@@ -701,11 +757,36 @@ export class TrackingService {
     }
   }
 
-  public async addHeartRateData(sessionId: string, heartRateData: HeartRateData[]): Promise<{ message: string }> {
+  public async addHeartRateData(
+    sessionId: string,
+    heartRateData: HeartRateData[],
+    options: { pendingSessionKey?: string } = {}
+  ): Promise<{ message: string; queued?: boolean }> {
+    const idempotencyKey = createIdempotencyKey('heart_rate');
+    const queue = async () => {
+      await offlineOutbox.enqueue({
+        id: idempotencyKey,
+        kind: 'heart_rate',
+        service: 'tracking',
+        url: `/tracking/sessions/${options.pendingSessionKey ? ':session_id' : sessionId}/heart-rate`,
+        payload: { heartRateData },
+        dependsOn: options.pendingSessionKey,
+      });
+      return { message: 'Heart rate data queued for sync', queued: true };
+    };
+
+    // The session itself is still in the outbox — samples must wait for its database id
+    if (options.pendingSessionKey) {
+      return queue();
+    }
+
     try {
-      const response = await apiClient.post<{ message: string }>('tracking', `/tracking/sessions/${sessionId}/heart-rate`, { heartRateData });
+      const response = await apiClient.post<{ message: string }>('tracking', `/tracking/sessions/${sessionId}/heart-rate`, { heartRateData }, {
+        headers: { 'Idempotency-Key': idempotencyKey },
+      });
       return response.data;
     } catch (error) {
+      if (isOfflineError(error)) return queue();
       throw new Error((error as any).message || 'Failed to add heart rate data');
     }
   }
@@ -765,9 +846,9 @@ export class TrackingService {
   }
 
   // BMI Tracking
-  public async logBMI(height: number, weight: number, notes?: string): Promise<BMIEntry> {
+  public async logBMI(height: number, weight: number, notes?: string, date?: string): Promise<BMIEntry> {
     try {
-      const response = await apiClient.post<BMIEntry>('tracking', '/bmi', { height, weight, notes });
+      const response = await apiClient.post<BMIEntry>('tracking', '/bmi', { height, weight, notes, date });
       return response.data;
     } catch (error) {
       throw new Error((error as any).message || 'Failed to log BMI');
@@ -805,7 +886,7 @@ export class TrackingService {
     }
   }
 
-  public async updateBMIEntry(entryId: string, updates: { height?: number; weight?: number; notes?: string }): Promise<BMIEntry> {
+  public async updateBMIEntry(entryId: string, updates: { height?: number; weight?: number; notes?: string; date?: string }): Promise<BMIEntry> {
     try {
       const response = await apiClient.put<BMIEntry>('tracking', `/tracking/bmi/${entryId}`, updates);
       return response.data;
@@ -969,30 +1050,12 @@ export class TrackingService {
     }
   }
 
-  public async getPersonalBests(exerciseId?: string): Promise<{
-    bests: Array<{
-      exercise: string;
-      metric: string;
-      value: number;
-      unit: string;
-      date: string;
-      sessionId: string;
-    }>;
-  }> {
+  public async getPersonalBests(exerciseId?: string): Promise<{ bests: PersonalBest[] }> {
     try {
       const url = exerciseId
         ? `/tracking/personal-bests?exerciseId=${exerciseId}`
         : '/personal-bests';
-      const response = await apiClient.get<{
-        bests: Array<{
-          exercise: string;
-          metric: string;
-          value: number;
-          unit: string;
-          date: string;
-          sessionId: string;
-        }>;
-      }>('tracking', url);
+      const response = await apiClient.get<{ bests: PersonalBest[] }>('tracking', url);
       return response.data;
     } catch (error) {
       throw new Error((error as any).message || 'Failed to get personal bests');
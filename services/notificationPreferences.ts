@@ -0,0 +1,98 @@
+/**
+ * Notification Preferences
+ *
+ * Per-category mute and quiet hours, stored per user.
+ *
+ * - Muted categories still land in the notification center; they just don't
+ *   show a banner, play a sound or pop an in-app toast.
+ * - Quiet hours silence every category except critical notifications (the
+ *   active workout's lock-screen updates).
+ * - The last loaded preferences are kept in memory so the push handler can
+ *   decide synchronously.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { NotificationCategory } from '../constants/notifications';
+import { getNotificationSpec, isWithinQuietHours } from '../utils/notifications';
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // "HH:MM" (24-hour)
+  end: string; // "HH:MM" — may be earlier than start (overnight window)
+}
+
+export interface NotificationPreferences {
+  mutedCategories: NotificationCategory[];
+  quietHours: QuietHours;
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  mutedCategories: [],
+  quietHours: {
+    enabled: false,
+    start: '22:00',
+    end: '07:00',
+  },
+};
+
+const getStorageKey = (userId: string | number) => `@notification_preferences_user_${userId}`;
+
+class NotificationPreferencesService {
+  private preferences: NotificationPreferences = DEFAULT_NOTIFICATION_PREFERENCES;
+
+  /**
+   * Load a user's preferences (falls back to defaults) and make them the active ones
+   */
+  async load(userId: string | number): Promise<NotificationPreferences> {
+    try {
+      const stored = await AsyncStorage.getItem(getStorageKey(userId));
+      const parsed = stored ? (JSON.parse(stored) as Partial<NotificationPreferences>) : {};
+      this.preferences = {
+        ...DEFAULT_NOTIFICATION_PREFERENCES,
+        ...parsed,
+        quietHours: { ...DEFAULT_NOTIFICATION_PREFERENCES.quietHours, ...parsed.quietHours },
+      };
+    } catch (error) {
+      console.error('❌ [NOTIFICATION PREFS] Failed to load preferences:', error);
+      this.preferences = DEFAULT_NOTIFICATION_PREFERENCES;
+    }
+    return this.preferences;
+  }
+
+  /**
+   * Save a user's preferences and apply them locally. Kept on the device only
+   * until the communications service has a preferences route for remote pushes
+   */
+  async save(userId: string | number, preferences: NotificationPreferences): Promise<void> {
+    await AsyncStorage.setItem(getStorageKey(userId), JSON.stringify(preferences));
+    this.preferences = preferences;
+  }
+
+  /**
+   * Currently active preferences
+   */
+  get(): NotificationPreferences {
+    return this.preferences;
+  }
+
+  /**
+   * Whether a notification should interrupt the user (banner, sound, toast)
+   * @param actionType - action_data.type / push payload `type`
+   * @param notificationType - notification_type
+   */
+  shouldAlert(actionType?: string, notificationType?: string, date: Date = new Date()): boolean {
+    const spec = getNotificationSpec(actionType, notificationType);
+    if (spec.critical) return true;
+    if (this.preferences.mutedCategories.includes(spec.category)) return false;
+    return !isWithinQuietHours(this.preferences.quietHours, date);
+  }
+
+  /**
+   * Forget the active user's preferences (logout)
+   */
+  clear(): void {
+    this.preferences = DEFAULT_NOTIFICATION_PREFERENCES;
+  }
+}
+
+export const notificationPreferences = new NotificationPreferencesService();
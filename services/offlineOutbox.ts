@@ -0,0 +1,432 @@
+/**
+ * Offline Outbox
+ *
+ * Durable queue for writes that must not be lost when the network drops:
+ * completed workout sessions, exercise ratings, heart-rate samples, weekly
+ * assessments, challenge progress earned by those sessions and direct
+ * messages sent while offline.
+ *
+ * - Entries are persisted to AsyncStorage per user, so they survive app
+ *   restarts and are only ever replayed under the account that queued them.
+ *   AuthContext switches the active user; other users' entries are held
+ *   until they log in again.
+ * - Every entry carries an idempotency key that is sent as the
+ *   `Idempotency-Key` header, both on the first attempt and on every replay,
+ *   so the backend can discard duplicates if an earlier attempt did land.
+ * - Ratings and heart-rate samples recorded against a session that is itself
+ *   still queued use `dependsOn`; the real database session_id is patched
+ *   into the payload (and any `:session_id` in the url) once the session
+ *   has synced.
+ *
+ * NetworkContext calls flush() when connectivity returns or a user logs in.
+ * Replays that fail because the server is down or slow are retried on a
+ * backoff timer, since connectivity never "returns" in that case.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { apiClient, APIClientConfig, CacheTag } from './api/client';
+
+export type OutboxEntryKind =
+  | 'workout_session'
+  | 'exercise_ratings'
+  | 'heart_rate'
+  | 'weekly_assessment'
+  | 'challenge_progress'
+  | 'direct_message';
+
+export interface OutboxEntry {
+  id: string; // Also used as the Idempotency-Key
+  kind: OutboxEntryKind;
+  service: keyof APIClientConfig;
+  url: string;
+  method?: 'post' | 'put'; // Defaults to post
+  payload: any;
+  createdAt: string;
+  attempts: number;
+  lastError?: string;
+  dependsOn?: string; // Outbox id of the workout session this entry belongs to
+}
+
+export interface OutboxFlushResult {
+  synced: number;
+  failed: number;
+  remaining: number;
+}
+
+type OutboxListener = (entries: OutboxEntry[], userId: string | null) => void;
+type FlushListener = (result: OutboxFlushResult) => void;
+
+interface ResolvedSession {
+  sessionId: number;
+  resolvedAt: number;
+}
+
+const getStorageKey = (userId: string) => `offlineOutbox_user_${userId}`;
+const getResolvedIdsKey = (userId: string) => `offlineOutbox_resolvedSessionIds_user_${userId}`;
+
+// Entries rejected by the server this many times are dropped (bad payload, not connectivity)
+const MAX_ATTEMPTS = 5;
+
+// Backoff for replays that failed on an outage (5xx, timeout, 408/429)
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 15 * 60 * 1000;
+
+// Resolved session ids are kept this long after nothing depends on them any more
+const RESOLVED_ID_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Cached reads each kind of replayed write makes stale
+const INVALIDATES: Record<OutboxEntryKind, CacheTag[]> = {
+  workout_session: ['tracking', 'progression'],
+  exercise_ratings: ['tracking', 'progression'],
+  heart_rate: ['tracking'],
+  weekly_assessment: ['tracking', 'progression', 'user'],
+  challenge_progress: ['challenges'],
+  direct_message: [],
+};
+
+/**
+ * Generate an idempotency key for a new outbox entry
+ */
+export function createIdempotencyKey(kind: OutboxEntryKind): string {
+  return `${kind}_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * True if an error means the request never reached the server (offline, timeout).
+ * Server-side rejections (4xx/5xx) are not retried through the outbox.
+ */
+export function isOfflineError(error: any): boolean {
+  const message: string = error?.message || '';
+  return message.includes('Network error') ||
+    message.includes('unable to reach service') ||
+    message.includes('Device offline') ||
+    message.includes('Network Error');
+}
+
+function isAuthError(error: any): boolean {
+  const message: string = error?.message || '';
+  return message.includes('Session expired') || message.includes('Unauthenticated');
+}
+
+/**
+ * True if the server refused the entry itself (4xx other than timeout/rate limit).
+ * Only these count towards MAX_ATTEMPTS; anything else is an outage to wait out.
+ */
+function isRejection(error: any): boolean {
+  const status: number | undefined = error?.status;
+  return typeof status === 'number' && status >= 400 && status < 500 && status !== 408 && status !== 429;
+}
+
+class OfflineOutbox {
+  private userId: string | null = null;
+  private entries: OutboxEntry[] = [];
+  private resolvedSessionIds: Record<string, ResolvedSession> = {};
+  private loadPromise: Promise<void> | null = null;
+  private flushPromise: Promise<OutboxFlushResult> | null = null;
+  private listeners = new Set<OutboxListener>();
+  private flushListeners = new Set<FlushListener>();
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryDelayMs = 0;
+
+  /**
+   * Switch the queue to a user's entries (null on logout). Entries queued by
+   * other users stay in storage and are replayed when they log in again.
+   */
+  setUser(userId: string | number | null): void {
+    const nextUserId = userId === null ? null : String(userId);
+    if (nextUserId === this.userId) return;
+
+    this.userId = nextUserId;
+    this.entries = [];
+    this.resolvedSessionIds = {};
+    this.loadPromise = null;
+    this.flushPromise = null; // A replay still running for the previous user stops at its next entry
+    this.retryDelayMs = 0;
+    this.clearRetry();
+    this.load().then(() => this.notify());
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      const userId = this.userId;
+      this.loadPromise = (async () => {
+        if (!userId) return;
+        try {
+          const [rawEntries, rawResolved] = await Promise.all([
+            AsyncStorage.getItem(getStorageKey(userId)),
+            AsyncStorage.getItem(getResolvedIdsKey(userId)),
+          ]);
+          if (userId !== this.userId) return;
+          this.entries = rawEntries ? JSON.parse(rawEntries) : [];
+          this.resolvedSessionIds = rawResolved ? JSON.parse(rawResolved) : {};
+          this.pruneResolvedSessionIds();
+          console.log(`📦 [OUTBOX] Loaded ${this.entries.length} pending entries`);
+        } catch (error) {
+          console.error('❌ [OUTBOX] Failed to load outbox:', error);
+          this.entries = [];
+          this.resolvedSessionIds = {};
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  private async persist(): Promise<void> {
+    const userId = this.userId;
+    if (!userId) return;
+
+    try {
+      await AsyncStorage.multiSet([
+        [getStorageKey(userId), JSON.stringify(this.entries)],
+        [getResolvedIdsKey(userId), JSON.stringify(this.resolvedSessionIds)],
+      ]);
+    } catch (error) {
+      console.error('❌ [OUTBOX] Failed to persist outbox:', error);
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    const snapshot = [...this.entries];
+    const userId = this.userId;
+    this.listeners.forEach((listener) => {
+      try {
+        listener(snapshot, userId);
+      } catch (error) {
+        console.error('❌ [OUTBOX] Listener error:', error);
+      }
+    });
+  }
+
+  /**
+   * Subscribe to outbox changes. The listener is called immediately with the current entries.
+   * Returns an unsubscribe function.
+   */
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    this.load().then(() => listener([...this.entries], this.userId));
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to finished replays, including the ones started by the retry timer.
+   * Returns an unsubscribe function.
+   */
+  subscribeToFlushes(listener: FlushListener): () => void {
+    this.flushListeners.add(listener);
+    return () => {
+      this.flushListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Add a write to the outbox
+   */
+  async enqueue(entry: Omit<OutboxEntry, 'createdAt' | 'attempts'>): Promise<OutboxEntry> {
+    await this.load();
+    if (!this.userId) {
+      throw new Error('Offline outbox has no active user');
+    }
+
+    // Same idempotency key = same write; never queue it twice
+    const existing = this.entries.find((e) => e.id === entry.id);
+    if (existing) return existing;
+
+    const queued: OutboxEntry = {
+      ...entry,
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+    };
+    this.entries.push(queued);
+    await this.persist();
+
+    console.log(`📥 [OUTBOX] Queued ${entry.kind} (${entry.id}) — ${this.entries.length} pending`);
+    return queued;
+  }
+
+  async getEntries(): Promise<OutboxEntry[]> {
+    await this.load();
+    return [...this.entries];
+  }
+
+  async getPendingCount(kind?: OutboxEntryKind): Promise<number> {
+    await this.load();
+    return kind ? this.entries.filter((e) => e.kind === kind).length : this.entries.length;
+  }
+
+  /**
+   * Database session_id for a workout session that was queued offline, once synced
+   */
+  async getResolvedSessionId(outboxId: string): Promise<number | null> {
+    await this.load();
+    return this.resolvedSessionIds[outboxId]?.sessionId ?? null;
+  }
+
+  /**
+   * Replay queued writes in order. Concurrent callers share the same flush.
+   */
+  flush(): Promise<OutboxFlushResult> {
+    if (!this.flushPromise) {
+      this.clearRetry();
+      const promise: Promise<OutboxFlushResult> = this.performFlush()
+        .then((result) => {
+          this.flushListeners.forEach((listener) => listener(result));
+          return result;
+        })
+        .finally(() => {
+          if (this.flushPromise === promise) this.flushPromise = null;
+        });
+      this.flushPromise = promise;
+    }
+    return this.flushPromise;
+  }
+
+  private clearRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  /**
+   * Try again later with exponential backoff — the server was down or slow
+   * while the device stayed online, so no connectivity change will trigger a flush
+   */
+  private scheduleRetry(): void {
+    this.clearRetry();
+    this.retryDelayMs = this.retryDelayMs
+      ? Math.min(this.retryDelayMs * 2, RETRY_MAX_DELAY_MS)
+      : RETRY_BASE_DELAY_MS;
+
+    console.log(`⏳ [OUTBOX] Retrying replay in ${Math.round(this.retryDelayMs / 1000)}s`);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush().catch((error) => console.error('❌ [OUTBOX] Retry failed:', error));
+    }, this.retryDelayMs);
+  }
+
+  /**
+   * Forget resolved session ids nothing is waiting on any more
+   */
+  private pruneResolvedSessionIds(): void {
+    const now = Date.now();
+    const awaited = new Set(this.entries.map((e) => e.dependsOn).filter(Boolean));
+
+    Object.keys(this.resolvedSessionIds).forEach((id) => {
+      if (!awaited.has(id) && now - this.resolvedSessionIds[id].resolvedAt > RESOLVED_ID_TTL_MS) {
+        delete this.resolvedSessionIds[id];
+      }
+    });
+  }
+
+  private async performFlush(): Promise<OutboxFlushResult> {
+    await this.load();
+
+    const userId = this.userId;
+    let synced = 0;
+    let failed = 0;
+    let shouldRetry = false;
+
+    if (!userId || this.entries.length === 0) {
+      this.retryDelayMs = 0;
+      return { synced, failed, remaining: this.entries.length };
+    }
+
+    console.log(`🔄 [OUTBOX] Replaying ${this.entries.length} queued writes...`);
+
+    for (const entry of [...this.entries]) {
+      let payload = entry.payload;
+      let url = entry.url;
+
+      // Logged out mid-replay — leave the rest in that user's storage
+      if (this.userId !== userId) break;
+
+      if (entry.dependsOn) {
+        const sessionId = this.resolvedSessionIds[entry.dependsOn]?.sessionId;
+        if (!sessionId) {
+          // Parent session still queued (or dropped) — wait for a later flush
+          const parentQueued = this.entries.some((e) => e.id === entry.dependsOn);
+          if (parentQueued) continue;
+
+          console.warn(`⚠️ [OUTBOX] Dropping ${entry.kind} (${entry.id}) — parent session was never synced`);
+          this.entries = this.entries.filter((e) => e.id !== entry.id);
+          failed++;
+          continue;
+        }
+        payload = { ...payload, session_id: sessionId };
+        url = url.replace(':session_id', String(sessionId));
+      }
+
+      try {
+        const config = {
+          headers: { 'Idempotency-Key': entry.id },
+          invalidates: INVALIDATES[entry.kind],
+        };
+        const response = entry.method === 'put'
+          ? await apiClient.put(entry.service, url, payload, config)
+          : await apiClient.post(entry.service, url, payload, config);
+
+        // Logged out while the request was in flight — the idempotency key covers the replay on next login
+        if (this.userId !== userId) break;
+
+        if (entry.kind === 'workout_session') {
+          const sessionId = response.data?.data?.session_id ?? response.data?.session_id;
+          if (sessionId) {
+            this.resolvedSessionIds[entry.id] = { sessionId: Number(sessionId), resolvedAt: Date.now() };
+          }
+        }
+
+        this.entries = this.entries.filter((e) => e.id !== entry.id);
+        synced++;
+        console.log(`✅ [OUTBOX] Synced ${entry.kind} (${entry.id})`);
+      } catch (error: any) {
+        if (this.userId !== userId) break;
+
+        if (isAuthError(error)) {
+          // Not logged in (yet) — not the entry's fault, retry after the next login/reconnect
+          console.warn('⚠️ [OUTBOX] Not authenticated — pausing replay');
+          break;
+        }
+
+        if (isOfflineError(error) || !isRejection(error)) {
+          // Offline, timed out or server unavailable — stop here and keep order for the retry
+          console.warn('⚠️ [OUTBOX] Server unreachable or unavailable — pausing replay:', error?.message);
+          entry.lastError = error?.message || 'Unknown error';
+          shouldRetry = true;
+          break;
+        }
+
+        entry.attempts += 1;
+        entry.lastError = error?.message || 'Unknown error';
+
+        if (entry.attempts >= MAX_ATTEMPTS) {
+          console.error(`❌ [OUTBOX] Dropping ${entry.kind} (${entry.id}) after ${entry.attempts} rejected attempts:`, entry.lastError);
+          this.entries = this.entries.filter((e) => e.id !== entry.id);
+        } else {
+          console.warn(`⚠️ [OUTBOX] ${entry.kind} (${entry.id}) rejected (attempt ${entry.attempts}/${MAX_ATTEMPTS}):`, entry.lastError);
+        }
+        failed++;
+      }
+    }
+
+    if (this.userId !== userId) {
+      return { synced, failed, remaining: 0 };
+    }
+
+    this.pruneResolvedSessionIds();
+    await this.persist();
+
+    if (shouldRetry) {
+      this.scheduleRetry();
+    } else {
+      this.retryDelayMs = 0;
+    }
+
+    console.log(`📦 [OUTBOX] Replay finished — synced: ${synced}, failed: ${failed}, remaining: ${this.entries.length}`);
+    return { synced, failed, remaining: this.entries.length };
+  }
+}
+
+export const offlineOutbox = new OfflineOutbox();
@@ -0,0 +1,96 @@
+/**
+ * Personal Best Tracker
+ *
+ * The tracking service only returns the current personal bests, so to know
+ * whether a session *set* one the app keeps a snapshot of the last bests it
+ * has seen per user and diffs against it after each workout.
+ *
+ * - A record counts as new when its key (exercise + metric) is new, or when
+ *   its session or value changed since the snapshot.
+ * - The first check for a user only records a baseline, so existing records
+ *   aren't celebrated as new on the first workout after updating.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { trackingService, PersonalBest } from './microservices/trackingService';
+
+export interface NewPersonalBest {
+  best: PersonalBest;
+  previousValue?: number; // Absent the first time an exercise/metric gets a record
+}
+
+type PersonalBestSnapshot = Record<string, { value: number; sessionId: string }>;
+
+const STORAGE_KEY_PREFIX = 'personalBests_';
+
+/**
+ * Key identifying one record on the board
+ */
+export function getPersonalBestKey(best: Pick<PersonalBest, 'exercise' | 'metric'>): string {
+  return `${best.exercise}::${best.metric}`;
+}
+
+class PersonalBestTracker {
+  private async readSnapshot(userId: string): Promise<PersonalBestSnapshot | null> {
+    try {
+      const raw = await AsyncStorage.getItem(`${STORAGE_KEY_PREFIX}${userId}`);
+      return raw ? JSON.parse(raw) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async writeSnapshot(userId: string, bests: PersonalBest[]): Promise<void> {
+    const snapshot: PersonalBestSnapshot = {};
+    bests.forEach((best) => {
+      snapshot[getPersonalBestKey(best)] = { value: best.value, sessionId: best.sessionId };
+    });
+    await AsyncStorage.setItem(`${STORAGE_KEY_PREFIX}${userId}`, JSON.stringify(snapshot));
+  }
+
+  /**
+   * Record a baseline from bests fetched elsewhere, if the user has none yet.
+   * Never overwrites an existing snapshot, so pending celebrations aren't lost.
+   */
+  async primeBaseline(userId: string, bests: PersonalBest[]): Promise<void> {
+    if (await this.readSnapshot(userId)) return;
+    await this.writeSnapshot(userId, bests);
+  }
+
+  /**
+   * Fetch the current bests and return the ones set since the last check
+   * @returns NewPersonalBest[] - Empty on the first check or when the request fails
+   */
+  async checkForNewBests(userId: string): Promise<NewPersonalBest[]> {
+    try {
+      const { bests } = await trackingService.getPersonalBests();
+      const snapshot = await this.readSnapshot(userId);
+      await this.writeSnapshot(userId, bests);
+
+      if (!snapshot) {
+        console.log('🏅 [PB TRACKER] Recorded baseline of', bests.length, 'personal bests');
+        return [];
+      }
+
+      const newBests: NewPersonalBest[] = [];
+      bests.forEach((best) => {
+        const previous = snapshot[getPersonalBestKey(best)];
+        if (!previous) {
+          newBests.push({ best });
+        } else if (previous.sessionId !== best.sessionId || previous.value !== best.value) {
+          newBests.push({ best, previousValue: previous.value });
+        }
+      });
+
+      if (newBests.length > 0) {
+        console.log('🏅 [PB TRACKER] New personal bests:', newBests.map((b) => getPersonalBestKey(b.best)));
+      }
+      return newBests;
+    } catch (error) {
+      console.warn('⚠️ [PB TRACKER] Personal best check failed:', error);
+      return [];
+    }
+  }
+}
+
+export const personalBestTracker = new PersonalBestTracker();
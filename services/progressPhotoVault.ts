@@ -0,0 +1,269 @@
+/**
+ * Progress Photo Vault
+ *
+ * Private on-device storage for progress photos.
+ *
+ * - Photos are encrypted with NaCl secretbox (XSalsa20-Poly1305) before they
+ *   are written to the document directory. Each user has their own key,
+ *   generated on first use and kept in SecureStore (Keychain / Keystore).
+ * - Only the index (date, pose, backup state) lives in AsyncStorage.
+ * - Decrypted photos are handed out as in-memory data URIs and never
+ *   written back to disk, except briefly while an opt-in upload runs.
+ * - Backing a photo up sends it to the media service and records a
+ *   'photo' ProgressEntry that points at it.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { getRandomBytes } from 'expo-crypto';
+import { File, Directory, Paths } from 'expo-file-system';
+import nacl from 'tweetnacl';
+import { mediaService } from './microservices/mediaService';
+import { trackingService } from './microservices/trackingService';
+import { PhotoPose } from '../constants/progressPhotos';
+
+export interface ProgressPhoto {
+  id: string;
+  date: string; // YYYY-MM-DD the photo was taken
+  pose: PhotoPose;
+  createdAt: string;
+  width?: number;
+  height?: number;
+  remoteEntryId?: string; // ProgressEntry id once backed up
+  remoteUrl?: string;
+}
+
+const INDEX_KEY_PREFIX = 'progressPhotos_';
+const KEY_STORE_PREFIX = 'progressPhotoKey_';
+const PHOTO_DIRECTORY = 'progress-photos';
+
+// Decrypted photos kept in memory, so scrolling the timeline doesn't decrypt twice
+const MEMORY_CACHE_SIZE = 12;
+
+const BASE64_CHUNK = 0x8000;
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + BASE64_CHUNK));
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// getRandomBytes accepts at most this many bytes per call
+const RANDOM_BYTES_CHUNK = 1024;
+
+/**
+ * Fill a buffer from the platform CSPRNG. Hermes has no crypto.getRandomValues,
+ * which tweetnacl looks for by default, so route it through expo-crypto.
+ */
+function fillRandomBytes(target: Uint8Array, length: number): void {
+  for (let offset = 0; offset < length; offset += RANDOM_BYTES_CHUNK) {
+    target.set(getRandomBytes(Math.min(RANDOM_BYTES_CHUNK, length - offset)), offset);
+  }
+}
+
+nacl.setPRNG(fillRandomBytes);
+
+class ProgressPhotoVault {
+  private keys = new Map<string, Uint8Array>();
+  private memoryCache = new Map<string, string>();
+
+  private getDirectory(userId: string): Directory {
+    const directory = new Directory(Paths.document, PHOTO_DIRECTORY, userId);
+    if (!directory.exists) {
+      directory.create({ intermediates: true });
+    }
+    return directory;
+  }
+
+  private getPhotoFile(userId: string, photoId: string): File {
+    return new File(this.getDirectory(userId), `${photoId}.bin`);
+  }
+
+  private async getKey(userId: string): Promise<Uint8Array> {
+    const cached = this.keys.get(userId);
+    if (cached) return cached;
+
+    const storeKey = `${KEY_STORE_PREFIX}${userId}`;
+    const stored = await SecureStore.getItemAsync(storeKey);
+    let key: Uint8Array;
+
+    if (stored) {
+      key = base64ToBytes(stored);
+    } else {
+      key = nacl.randomBytes(nacl.secretbox.keyLength);
+      await SecureStore.setItemAsync(storeKey, bytesToBase64(key));
+      console.log('🔐 [PHOTO VAULT] Created encryption key');
+    }
+
+    this.keys.set(userId, key);
+    return key;
+  }
+
+  private async writeIndex(userId: string, photos: ProgressPhoto[]): Promise<void> {
+    await AsyncStorage.setItem(`${INDEX_KEY_PREFIX}${userId}`, JSON.stringify(photos));
+  }
+
+  private remember(photoId: string, uri: string): void {
+    this.memoryCache.delete(photoId);
+    this.memoryCache.set(photoId, uri);
+    if (this.memoryCache.size > MEMORY_CACHE_SIZE) {
+      const oldest = this.memoryCache.keys().next().value;
+      if (oldest) this.memoryCache.delete(oldest);
+    }
+  }
+
+  /**
+   * All photos for a user, newest first
+   */
+  async list(userId: string): Promise<ProgressPhoto[]> {
+    try {
+      const raw = await AsyncStorage.getItem(`${INDEX_KEY_PREFIX}${userId}`);
+      const photos: ProgressPhoto[] = raw ? JSON.parse(raw) : [];
+      return photos.sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt));
+    } catch (error) {
+      console.error('❌ [PHOTO VAULT] Failed to read index:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Encrypt a captured photo into the vault and delete the plaintext original
+   * @param sourceUri - File URI from the camera or image picker
+   */
+  async savePhoto(
+    userId: string,
+    sourceUri: string,
+    details: Pick<ProgressPhoto, 'date' | 'pose' | 'width' | 'height'>
+  ): Promise<ProgressPhoto> {
+    const key = await this.getKey(userId);
+    const source = new File(sourceUri);
+    const plaintext = await source.bytes();
+
+    const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+    const ciphertext = nacl.secretbox(plaintext, nonce, key);
+    const payload = new Uint8Array(nonce.length + ciphertext.length);
+    payload.set(nonce);
+    payload.set(ciphertext, nonce.length);
+
+    const photo: ProgressPhoto = {
+      id: `photo_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      createdAt: new Date().toISOString(),
+      ...details,
+    };
+
+    const file = this.getPhotoFile(userId, photo.id);
+    file.create({ overwrite: true });
+    file.write(payload);
+
+    try {
+      source.delete();
+    } catch {
+      // The camera cache is cleared by the OS eventually; not worth failing the save
+    }
+
+    const photos = await this.list(userId);
+    await this.writeIndex(userId, [photo, ...photos]);
+    console.log(`📸 [PHOTO VAULT] Saved ${photo.pose} photo for ${photo.date}`);
+    return photo;
+  }
+
+  /**
+   * Decrypt a photo for display
+   * @returns string - JPEG data URI
+   */
+  async loadPhotoUri(userId: string, photoId: string): Promise<string> {
+    const cached = this.memoryCache.get(photoId);
+    if (cached) {
+      this.remember(photoId, cached);
+      return cached;
+    }
+
+    const key = await this.getKey(userId);
+    const payload = await this.getPhotoFile(userId, photoId).bytes();
+    const nonce = payload.subarray(0, nacl.secretbox.nonceLength);
+    const plaintext = nacl.secretbox.open(payload.subarray(nacl.secretbox.nonceLength), nonce, key);
+
+    if (!plaintext) {
+      throw new Error('Photo could not be decrypted');
+    }
+
+    const uri = `data:image/jpeg;base64,${bytesToBase64(plaintext)}`;
+    this.remember(photoId, uri);
+    return uri;
+  }
+
+  /**
+   * Back a photo up to the media service and record it as a 'photo' progress entry.
+   * The decrypted copy needed for the upload is deleted straight after.
+   */
+  async uploadPhoto(userId: string, photo: ProgressPhoto): Promise<ProgressPhoto> {
+    if (photo.remoteEntryId) return photo;
+
+    const dataUri = await this.loadPhotoUri(userId, photo.id);
+    const tempFile = new File(Paths.cache, `${photo.id}.jpg`);
+
+    try {
+      tempFile.create({ overwrite: true });
+      tempFile.write(base64ToBytes(dataUri.slice(dataUri.indexOf(',') + 1)));
+
+      const upload = await mediaService.uploadProgressPhoto(tempFile.uri);
+      const entry = await trackingService.logProgress({
+        type: 'photo',
+        value: 1,
+        unit: 'photo',
+        date: photo.date,
+        bodyPart: photo.pose,
+        source: 'app',
+        metadata: { media_file_id: upload.data.media_file_id, url: upload.data.url },
+      });
+
+      const updated: ProgressPhoto = { ...photo, remoteEntryId: entry.id, remoteUrl: upload.data.url };
+      const photos = await this.list(userId);
+      await this.writeIndex(userId, photos.map((p) => (p.id === photo.id ? updated : p)));
+      console.log(`☁️ [PHOTO VAULT] Backed up ${photo.id}`);
+      return updated;
+    } finally {
+      if (tempFile.exists) tempFile.delete();
+    }
+  }
+
+  /**
+   * Delete a photo from the device, and its backup if it has one
+   */
+  async deletePhoto(userId: string, photo: ProgressPhoto): Promise<void> {
+    if (photo.remoteEntryId) {
+      await trackingService.deleteProgressEntry(photo.remoteEntryId).catch((error) => {
+        console.warn('⚠️ [PHOTO VAULT] Failed to delete backup entry:', error);
+      });
+    }
+
+    const file = this.getPhotoFile(userId, photo.id);
+    if (file.exists) file.delete();
+    this.memoryCache.delete(photo.id);
+
+    const photos = await this.list(userId);
+    await this.writeIndex(userId, photos.filter((p) => p.id !== photo.id));
+    console.log(`🗑️ [PHOTO VAULT] Deleted ${photo.id}`);
+  }
+
+  /**
+   * Drop decrypted photos and keys from memory (on logout)
+   */
+  clearMemory(): void {
+    this.memoryCache.clear();
+    this.keys.clear();
+  }
+}
+
+export const progressPhotoVault = new ProgressPhotoVault();
@@ -1,21 +1,32 @@
 import { Platform } from 'react-native';
 import { router } from 'expo-router';
 import Constants from 'expo-constants';
+import { notificationPreferences } from './notificationPreferences';
+import { getNotificationSpec } from '../utils/notifications';
 
 // Conditional import for expo-notifications
 let Notifications: any = null;
 
+/**
+ * Foreground presentation: muted categories and quiet hours get no banner or sound
+ */
+const notificationHandler = {
+  handleNotification: async (notification: any) => {
+    const data = notification?.request?.content?.data || {};
+    const shouldAlert = notificationPreferences.shouldAlert(data.type, data.notification_type);
+    return {
+      shouldShowAlert: shouldAlert,
+      shouldPlaySound: shouldAlert,
+      shouldSetBadge: true,
+    };
+  },
+};
+
 try {
   Notifications = require('expo-notifications');
 
   // Configure notification behavior
-  Notifications.setNotificationHandler({
-    handleNotification: async () => ({
-      shouldShowAlert: true,
-      shouldPlaySound: true,
-      shouldSetBadge: true,
-    }),
-  });
+  Notifications.setNotificationHandler(notificationHandler);
 } catch (error) {
   console.warn('[PUSH] expo-notifications not available. Rebuild dev client to enable push notifications.');
 }
@@ -45,6 +56,9 @@ class PushNotificationService {
     }
 
     try {
+      // Re-apply our handler in case another module registered its own at import time
+      Notifications.setNotificationHandler(notificationHandler);
+
       // Setup listeners for when notifications are received or tapped
       this.setupNotificationListeners();
       this.isInitialized = true;
@@ -128,7 +142,7 @@ class PushNotificationService {
   }
 
   /**
-   * Handle notification tap - navigate to appropriate screen
+   * Handle notification tap - navigate to the registry's deep link
    */
   private handleNotificationResponse(response: any): void {
     const data = response.notification?.request?.content?.data as PushNotificationData;
@@ -140,97 +154,15 @@ class PushNotificationService {
 
     console.log('[PUSH] Handling notification tap with data:', data);
 
-    const actionType = data.type;
-    const notificationType = data.notification_type;
-
-    // Navigate based on notification type
-    switch (actionType) {
-      case 'group_invite':
-        // Navigate to notifications screen to handle invite
-        router.push('/notifications');
-        break;
-
-      case 'group_join_approved':
-      case 'group_invite_accepted':
-        // Navigate to the group
-        if (data.group_id) {
-          router.push(`/groups/${data.group_id}`);
-        } else {
-          router.push('/notifications');
-        }
-        break;
-
-      case 'group_join_request':
-        // Navigate to group management
-        if (data.group_id) {
-          router.push(`/groups/${data.group_id}/manage`);
-        } else {
-          router.push('/notifications');
-        }
-        break;
-
-      case 'achievement_unlock':
-      case 'achievement':
-        // Navigate to progress/achievements
-        router.push('/(tabs)/progress');
-        break;
-
-      case 'workout_reminder':
-      case 'morning_reminder':
-      case 'advance_reminder':
-        // Navigate to workout screen
-        router.push('/workout');
-        break;
-
-      default:
-        // Handle by notification_type as fallback
-        this.handleByNotificationType(notificationType, data);
-        break;
-    }
-  }
+    const spec = getNotificationSpec(data.type, data.notification_type);
+    const route = spec.route?.(data);
 
-  /**
-   * Fallback navigation handler based on notification_type
-   */
-  private handleByNotificationType(notificationType: string | undefined, data: PushNotificationData): void {
-    switch (notificationType) {
-      case 'achievement':
-        router.push('/(tabs)/progress');
-        break;
-
-      case 'workout_reminder':
-        router.push('/workout');
-        break;
-
-      case 'social':
-      case 'group_invite':
-        if (data.group_id) {
-          router.push(`/groups/${data.group_id}`);
-        } else {
-          router.push('/notifications');
-        }
-        break;
-
-      case 'group_join_approved':
-        if (data.group_id) {
-          router.push(`/groups/${data.group_id}`);
-        } else {
-          router.push('/notifications');
-        }
-        break;
-
-      case 'group_join_request':
-        if (data.group_id) {
-          router.push(`/groups/${data.group_id}/manage`);
-        } else {
-          router.push('/notifications');
-        }
-        break;
-
-      default:
-        // Default to notifications screen
-        router.push('/notifications');
-        break;
+    if (route) {
+      router.push(route);
+    } else if (!spec.critical) {
+      // Inline actions (invites, join requests) and informational notifications live in the center.
+      // Critical ones (the active workout) just bring the app back to where it was.
+      router.push('/notifications');
     }
   }
 
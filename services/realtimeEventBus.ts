@@ -0,0 +1,106 @@
+/**
+ * Realtime Event Bus
+ *
+ * reverbService publishes every broadcast it receives here; screens, contexts
+ * and stores subscribe by event name (optionally scoped to one channel) and get
+ * fully typed payloads. Publishing runs, in order:
+ * 1. name normalization — unknown and Pusher-internal events are ignored
+ * 2. payload validation — malformed events are logged and dropped;
+ *    numeric ids sent as strings are coerced
+ * 3. deduplication through eventDeduplication (events with a natural id only)
+ * 4. dispatch — a throwing handler is logged and does not affect the others
+ *
+ * Subscribing does not open a Reverb channel: events only arrive for channels
+ * someone has subscribed to through reverbService.
+ */
+
+import { eventDeduplication } from '../utils/eventDeduplication';
+import {
+  RealtimeEvent,
+  RealtimeEventName,
+  getEventDedupeKey,
+  normalizeEventName,
+  parseEventPayload,
+} from './realtimeEvents';
+
+export type RealtimeEventHandler<N extends RealtimeEventName> = (event: RealtimeEvent<N>) => void;
+
+export interface RealtimeSubscribeOptions {
+  channel?: string; // Full channel name, e.g. 'private-lobby.abc123'
+}
+
+interface Subscription {
+  names: Set<RealtimeEventName>;
+  channel?: string;
+  handler: (event: RealtimeEvent) => void;
+}
+
+class RealtimeEventBus {
+  private subscriptions = new Set<Subscription>();
+
+  /**
+   * Validate, deduplicate and dispatch a raw broadcast
+   */
+  public publish(channel: string, rawName: string, data: unknown): void {
+    const name = normalizeEventName(rawName);
+    if (!name) return;
+
+    const parsed = parseEventPayload(name, data);
+    if ('problem' in parsed) {
+      console.error(`❌ [EVENT BUS] Dropping malformed ${name} on ${channel}: ${parsed.problem}`, data);
+      return;
+    }
+
+    const event = { name, channel, payload: parsed.payload, receivedAt: Date.now() } as RealtimeEvent;
+
+    const dedupeKey = getEventDedupeKey(event);
+    if (dedupeKey) {
+      if (eventDeduplication.hasProcessed(dedupeKey, name)) {
+        console.log(`⏭️ [EVENT BUS] Duplicate ${name} skipped (${dedupeKey})`);
+        return;
+      }
+      eventDeduplication.markProcessed(dedupeKey, name);
+    }
+
+    this.subscriptions.forEach((subscription) => {
+      if (!subscription.names.has(name)) return;
+      if (subscription.channel && subscription.channel !== channel) return;
+
+      try {
+        subscription.handler(event);
+      } catch (error) {
+        console.error(`❌ [EVENT BUS] Handler for ${name} on ${channel} threw:`, error);
+      }
+    });
+  }
+
+  /**
+   * Listen for one or more events. Returns an unsubscribe function.
+   */
+  public subscribe<N extends RealtimeEventName>(
+    names: N | N[],
+    handler: RealtimeEventHandler<N>,
+    options: RealtimeSubscribeOptions = {}
+  ): () => void {
+    const subscription: Subscription = {
+      names: new Set(Array.isArray(names) ? names : [names]),
+      channel: options.channel,
+      handler: handler as (event: RealtimeEvent) => void,
+    };
+    this.subscriptions.add(subscription);
+
+    return () => {
+      this.subscriptions.delete(subscription);
+    };
+  }
+
+  /**
+   * Number of active subscriptions (for debugging)
+   */
+  public getSubscriptionCount(): number {
+    return this.subscriptions.size;
+  }
+}
+
+export const realtimeEventBus = new RealtimeEventBus();
+export default realtimeEventBus;
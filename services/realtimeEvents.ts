@@ -0,0 +1,409 @@
+/**
+ * Realtime Events
+ *
+ * Every event the backend broadcasts over Reverb, as one discriminated union
+ * keyed by the server event name. Payloads are checked against a small
+ * per-event schema before they reach a handler, so a malformed broadcast is
+ * logged and dropped instead of crashing a screen halfway through an update.
+ */
+
+import type { ChatMessage, LobbyMember, LobbyState } from '../stores/lobbyStore';
+import type { VotingExercise } from '../stores/votingStore';
+import type { ActivityFeed } from './microservices/socialService';
+import type { DirectMessage } from './microservices/commsService';
+
+// ─── Lobby channel (private-lobby.{sessionId}) ───────────────────────────────
+
+export interface LobbyStateChangedPayload {
+  lobby_state: LobbyState & {
+    active_voting?: {
+      session_id?: string;
+      voting_id: string;
+      initiator_id: number;
+      initiator_name?: string;
+      members?: { user_id: number; user_name: string }[];
+      exercises?: VotingExercise[];
+      alternative_pool?: VotingExercise[];
+      timeout_seconds?: number;
+      expires_at?: number;
+    } | null;
+  };
+}
+
+export interface MemberJoinedPayload {
+  member?: Partial<LobbyMember> & { user_id: number; user_name: string };
+  lobby_state?: LobbyState;
+}
+
+export interface MemberLeftPayload {
+  user_id: number;
+  user_name?: string;
+}
+
+export interface MemberStatusUpdatedPayload {
+  user_id: number;
+  status: LobbyMember['status'];
+}
+
+export type LobbyMessageSentPayload = ChatMessage;
+
+export interface WorkoutStartedPayload {
+  session_id?: string;
+  workout_data?: any; // Same loose shape as LobbyState.workout_data
+}
+
+export interface LobbyDeletedPayload {
+  reason?: string;
+}
+
+export interface MemberKickedPayload {
+  session_id?: string;
+  kicked_user_id: number;
+  kicked_user_name?: string;
+}
+
+export interface InitiatorTransferredPayload {
+  new_initiator_id: number;
+  new_initiator_name?: string;
+}
+
+export interface ReadyCheckStartedPayload {
+  session_id?: string;
+  initiator_id: number;
+  initiator_name?: string;
+  members?: { user_id: number; user_name: string }[];
+  timeout_seconds?: number;
+  expires_at?: number; // Unix seconds
+}
+
+export interface ReadyCheckResponsePayload {
+  user_id: number;
+  user_name?: string;
+  response: 'accepted' | 'declined';
+}
+
+export interface ReadyCheckCompletePayload {
+  success: boolean;
+  reason?: string;
+}
+
+export interface ReadyCheckCancelledPayload {
+  reason?: string;
+}
+
+export interface VotingStartedPayload {
+  session_id: string;
+  voting_id: string;
+  initiator_id: number;
+  initiator_name: string;
+  members: { user_id: number; user_name: string }[];
+  exercises: VotingExercise[];
+  alternative_pool?: VotingExercise[];
+  timeout_seconds?: number;
+  expires_at?: number;
+}
+
+export interface VoteSubmittedPayload {
+  voting_id?: string;
+  user_id: number;
+  user_name: string;
+  vote: 'accept' | 'customize';
+}
+
+export interface VotingCompletePayload {
+  voting_id?: string;
+  result: 'accept_recommended' | 'customize';
+  reason: 'all_voted' | 'majority' | 'timeout';
+  final_votes: Record<number, { vote: string; user_name: string }>;
+  accept_count: number;
+  customize_count: number;
+  final_exercises: VotingExercise[];
+  customizer_id?: number | null;
+}
+
+export interface ExerciseSwappedPayload {
+  slot_index: number;
+  old_exercise?: VotingExercise;
+  new_exercise: VotingExercise;
+  swapped_by: number;
+  swapped_by_name?: string;
+}
+
+export interface ExercisesReorderedPayload {
+  updated_exercises: VotingExercise[];
+  reordered_by: number;
+  reordered_by_name?: string;
+}
+
+// ─── Session channel (private-session.{sessionId}) ───────────────────────────
+
+export interface SessionTickPayload {
+  time_remaining: number;
+  phase: string;
+  current_exercise: number;
+  current_set: number;
+  current_round: number;
+  status: string;
+  calories_burned?: number;
+}
+
+export interface SessionControlPayload {
+  paused_by?: number;
+  paused_by_name?: string;
+  resumed_by?: number;
+  resumed_by_name?: string;
+  stopped_by?: number;
+  stopped_by_name?: string;
+  session_state?: Partial<SessionTickPayload> & { time_remaining: number | null };
+}
+
+// ─── Group channel (private-group.{groupId}) ─────────────────────────────────
+
+export interface GroupWorkoutInvitationPayload {
+  group_id: number;
+  initiator_id: number;
+  initiator_name: string;
+  workout_data: any;
+  session_id: string;
+  invitation_id?: number;
+  timestamp?: string; // When the invite was sent; re-invites to the same lobby differ here
+}
+
+export interface GroupMembersUpdatedPayload {
+  member_count?: number;
+  members?: {
+    id?: number | string;
+    userId?: number | string;
+    username?: string;
+    profilePicture?: string | null;
+    role?: string;
+    userRole?: string;
+    joinedAt?: string;
+  }[];
+}
+
+export interface GroupStatsUpdatedPayload {
+  stats: Record<string, any>;
+}
+
+// ─── User channel (private-user.{userId}) ────────────────────────────────────
+
+export interface UserWorkoutInvitationPayload {
+  invitation_id: number;
+  session_id: string;
+  group_id: number;
+  initiator_id: number;
+  initiator_name: string;
+  workout_data: any;
+  expires_at: number;
+}
+
+export interface NotificationCreatedPayload {
+  notification: Record<string, any> & { id?: number };
+}
+
+export interface UnreadCountUpdatedPayload {
+  unread_count: number;
+}
+
+export interface ActivityCreatedPayload {
+  activity: ActivityFeed; // A friend's or group mate's new feed entry
+}
+
+export interface MessageReceivedPayload {
+  message: DirectMessage;
+  sender_name?: string;
+  unread_messages?: number; // Recipient's new total unread direct messages
+}
+
+export interface RealtimeEventMap {
+  LobbyStateChanged: LobbyStateChangedPayload;
+  'member.joined': MemberJoinedPayload;
+  'member.left': MemberLeftPayload;
+  'member.status.updated': MemberStatusUpdatedPayload;
+  LobbyMessageSent: LobbyMessageSentPayload;
+  WorkoutStarted: WorkoutStartedPayload;
+  LobbyDeleted: LobbyDeletedPayload;
+  MemberKicked: MemberKickedPayload;
+  'initiator.transferred': InitiatorTransferredPayload;
+  ReadyCheckStarted: ReadyCheckStartedPayload;
+  ReadyCheckResponse: ReadyCheckResponsePayload;
+  ReadyCheckComplete: ReadyCheckCompletePayload;
+  ReadyCheckCancelled: ReadyCheckCancelledPayload;
+  VotingStarted: VotingStartedPayload;
+  VoteSubmitted: VoteSubmittedPayload;
+  VotingComplete: VotingCompletePayload;
+  ExerciseSwapped: ExerciseSwappedPayload;
+  ExercisesReordered: ExercisesReorderedPayload;
+  SessionTick: SessionTickPayload;
+  WorkoutPaused: SessionControlPayload;
+  WorkoutResumed: SessionControlPayload;
+  WorkoutStopped: SessionControlPayload;
+  WorkoutCompleted: SessionControlPayload;
+  GroupWorkoutInvitation: GroupWorkoutInvitationPayload;
+  'group.members.updated': GroupMembersUpdatedPayload;
+  'group.stats.updated': GroupStatsUpdatedPayload;
+  UserWorkoutInvitation: UserWorkoutInvitationPayload;
+  'notification.created': NotificationCreatedPayload;
+  'unread.count.updated': UnreadCountUpdatedPayload;
+  'activity.created': ActivityCreatedPayload;
+  'message.received': MessageReceivedPayload;
+}
+
+export type RealtimeEventName = keyof RealtimeEventMap;
+
+/**
+ * Discriminated union of every server event: narrow on `name` to get the payload type
+ */
+export type RealtimeEvent<N extends RealtimeEventName = RealtimeEventName> = {
+  [K in N]: {
+    name: K;
+    channel: string; // Full channel name, e.g. 'private-lobby.abc123'
+    payload: RealtimeEventMap[K];
+    receivedAt: number;
+  };
+}[N];
+
+// ─── Runtime validation ──────────────────────────────────────────────────────
+
+type FieldKind = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+interface EventSpec {
+  required: Record<string, FieldKind>;
+  /**
+   * Identity of a broadcast for deduplication. Only events with a natural id
+   * are deduplicated — repeats of id-less events (status toggles, ticks) are real.
+   */
+  dedupeKey?: (payload: any) => string | null;
+}
+
+const EVENT_SPECS: Record<RealtimeEventName, EventSpec> = {
+  LobbyStateChanged: { required: { lobby_state: 'object' } },
+  'member.joined': { required: {} },
+  'member.left': { required: { user_id: 'number' } },
+  'member.status.updated': { required: { user_id: 'number', status: 'string' } },
+  LobbyMessageSent: {
+    required: { message_id: 'string', message: 'string' },
+    dedupeKey: (p) => p.message_id,
+  },
+  WorkoutStarted: {
+    required: {},
+    dedupeKey: (p) => (p.session_id ? `started-${p.session_id}` : null),
+  },
+  LobbyDeleted: { required: {} },
+  MemberKicked: { required: { kicked_user_id: 'number' } },
+  'initiator.transferred': { required: { new_initiator_id: 'number' } },
+  ReadyCheckStarted: {
+    required: { initiator_id: 'number' },
+    dedupeKey: (p) => (p.session_id && p.expires_at ? `ready-check-${p.session_id}-${p.expires_at}` : null),
+  },
+  ReadyCheckResponse: { required: { user_id: 'number', response: 'string' } },
+  ReadyCheckComplete: { required: { success: 'boolean' } },
+  ReadyCheckCancelled: { required: {} },
+  VotingStarted: {
+    required: { voting_id: 'string', initiator_id: 'number', members: 'array', exercises: 'array' },
+    dedupeKey: (p) => `voting-${p.voting_id}`,
+  },
+  VoteSubmitted: {
+    required: { user_id: 'number', vote: 'string' },
+    dedupeKey: (p) => (p.voting_id ? `vote-${p.voting_id}-${p.user_id}` : null),
+  },
+  VotingComplete: {
+    required: { result: 'string', final_exercises: 'array' },
+    dedupeKey: (p) => (p.voting_id ? `voting-complete-${p.voting_id}` : null),
+  },
+  ExerciseSwapped: { required: { slot_index: 'number', new_exercise: 'object' } },
+  ExercisesReordered: { required: { updated_exercises: 'array' } },
+  SessionTick: { required: { time_remaining: 'number', phase: 'string', status: 'string' } },
+  WorkoutPaused: { required: {} },
+  WorkoutResumed: { required: {} },
+  WorkoutStopped: { required: {} },
+  WorkoutCompleted: { required: {} },
+  GroupWorkoutInvitation: {
+    required: { group_id: 'number', initiator_id: 'number', session_id: 'string', workout_data: 'object' },
+    dedupeKey: (p) => {
+      if (p.invitation_id) return `group-invitation-${p.invitation_id}`;
+      return p.timestamp ? `group-invitation-${p.session_id}-${p.initiator_id}-${p.timestamp}` : null;
+    },
+  },
+  'group.members.updated': { required: {} },
+  'group.stats.updated': { required: { stats: 'object' } },
+  UserWorkoutInvitation: {
+    required: { session_id: 'string', initiator_id: 'number' },
+    dedupeKey: (p) => (p.invitation_id ? `user-invitation-${p.invitation_id}` : null),
+  },
+  'notification.created': {
+    required: { notification: 'object' },
+    dedupeKey: (p) => (p.notification?.id ? `notification-${p.notification.id}` : null),
+  },
+  'unread.count.updated': { required: { unread_count: 'number' } },
+  'activity.created': {
+    required: { activity: 'object' },
+    dedupeKey: (p) => (p.activity?.id ? `activity-${p.activity.id}` : null),
+  },
+  'message.received': {
+    required: { message: 'object' },
+    dedupeKey: (p) => (p.message?.message_id ? `message-${p.message.message_id}` : null),
+  },
+};
+
+/**
+ * Map a raw broadcast name to a known event name. Laravel prefixes custom
+ * `broadcastAs()` names with a dot ('.notification.created'); Pusher internals
+ * ('pusher:…') and unknown events return null.
+ */
+export function normalizeEventName(rawName: string): RealtimeEventName | null {
+  const name = rawName.startsWith('.') ? rawName.slice(1) : rawName;
+  return Object.prototype.hasOwnProperty.call(EVENT_SPECS, name) ? (name as RealtimeEventName) : null;
+}
+
+function matchesKind(value: unknown, kind: FieldKind): boolean {
+  switch (kind) {
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'number':
+      return typeof value === 'number' && !Number.isNaN(value);
+    default:
+      return typeof value === kind;
+  }
+}
+
+/**
+ * Check a payload against its event schema. Numeric ids that arrive as strings
+ * are coerced to numbers (in a copy). Returns the usable payload, or a
+ * description of the first problem found.
+ */
+export function parseEventPayload(
+  name: RealtimeEventName,
+  payload: unknown
+): { payload: Record<string, unknown> } | { problem: string } {
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+    const actual = payload === null ? 'null' : Array.isArray(payload) ? 'an array' : typeof payload;
+    return { problem: `payload is ${actual}, expected an object` };
+  }
+
+  const parsed: Record<string, unknown> = { ...(payload as Record<string, unknown>) };
+
+  for (const [field, kind] of Object.entries(EVENT_SPECS[name].required)) {
+    const value = parsed[field];
+    if (value === undefined || value === null) {
+      return { problem: `missing required field '${field}'` };
+    }
+    if (kind === 'number' && typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) {
+      parsed[field] = Number(value);
+      continue;
+    }
+    if (!matchesKind(value, kind)) {
+      return { problem: `field '${field}' should be ${kind}, got ${Array.isArray(value) ? 'array' : typeof value}` };
+    }
+  }
+
+  return { payload: parsed };
+}
+
+export function getEventDedupeKey(event: RealtimeEvent): string | null {
+  const key = EVENT_SPECS[event.name].dedupeKey?.(event.payload);
+  return key ? `${event.channel}:${key}` : null;
+}
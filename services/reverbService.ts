@@ -1,10 +1,61 @@
 import Pusher from 'pusher-js';
 import { TokenManager } from './auth/tokenManager';
 import { API_CONFIG } from '../config/api.config';
+import { realtimeEventBus } from './realtimeEventBus';
+import type { RealtimeEventName, RealtimeEventMap } from './realtimeEvents';
+
+/**
+ * Pusher presence member ({ id, info } as sent by the broadcasting auth endpoint)
+ */
+export interface PresenceMember {
+  id: string;
+  info?: Record<string, any>;
+}
+
+/**
+ * Typed callbacks for a fixed set of events: `{ onFoo: 'FooEvent' }` becomes
+ * `{ onFoo?: (data: FooEventPayload) => void }`
+ */
+type EventCallbacks<M extends Record<string, RealtimeEventName>> = {
+  [K in keyof M]?: (data: RealtimeEventMap[M[K]]) => void;
+};
+
+const LOBBY_EVENTS = {
+  onLobbyStateChanged: 'LobbyStateChanged',
+  onMemberJoined: 'member.joined',
+  onMemberLeft: 'member.left',
+  onMemberStatusUpdated: 'member.status.updated',
+  onLobbyMessageSent: 'LobbyMessageSent',
+  onWorkoutStarted: 'WorkoutStarted',
+  onLobbyDeleted: 'LobbyDeleted',
+  onMemberKicked: 'MemberKicked',
+  onInitiatorRoleTransferred: 'initiator.transferred',
+  // Ready Check events
+  onReadyCheckStarted: 'ReadyCheckStarted',
+  onReadyCheckResponse: 'ReadyCheckResponse',
+  onReadyCheckComplete: 'ReadyCheckComplete',
+  onReadyCheckCancelled: 'ReadyCheckCancelled',
+  // Voting events
+  onVotingStarted: 'VotingStarted',
+  onVoteSubmitted: 'VoteSubmitted',
+  onVotingComplete: 'VotingComplete',
+  // Exercise customization events
+  onExerciseSwapped: 'ExerciseSwapped',
+  onExercisesReordered: 'ExercisesReordered',
+} as const satisfies Record<string, RealtimeEventName>;
+
+const USER_EVENTS = {
+  onMemberKicked: 'MemberKicked',
+} as const satisfies Record<string, RealtimeEventName>;
+
+export type LobbyEventCallbacks = EventCallbacks<typeof LOBBY_EVENTS>;
+export type UserChannelEventCallbacks = EventCallbacks<typeof USER_EVENTS>;
 
 class ReverbService {
   private pusher: Pusher | null = null;
   private channels: Map<string, any> = new Map();
+  // Event bus listeners registered by the typed subscribe helpers, per full channel name
+  private channelListeners: Map<string, () => void> = new Map();
   private reconnectAttempts: number = 0;
   private maxReconnectAttempts: number = 10;
   private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
@@ -186,6 +237,7 @@ class ReverbService {
             this.pusher?.unsubscribe(channel.name);
           });
           this.channels.clear();
+          this.releaseAllChannelListeners();
           this.pusher.disconnect();
           this.pusher = null;
         }
@@ -235,6 +287,7 @@ class ReverbService {
         this.pusher?.unsubscribe(channel.name);
       });
       this.channels.clear();
+      this.releaseAllChannelListeners();
       this.pusher.disconnect();
       this.pusher = null;
       console.log('✋ Reverb disconnected intentionally');
@@ -258,7 +311,7 @@ class ReverbService {
     // Bind to all events on this channel
     channel.bind_global((eventName: string, data: any) => {
       console.log(`📨 Event received on ${channelName}:`, eventName, data);
-      callbacks.onEvent(eventName, data);
+      this.dispatch(channelName, eventName, data, callbacks.onEvent);
     });
 
     console.log(`✅ Subscribed to channel: ${channelName}`);
@@ -278,6 +331,7 @@ class ReverbService {
 
     const channel = this.pusher.subscribe(`private-${channelName}`);
     this.channels.set(`private-${channelName}`, channel);
+    this.releaseChannelListeners(`private-${channelName}`);
 
     // Unbind any previous global handler before adding the new one.
     // Pusher returns the SAME channel object for duplicate subscribe() calls,
@@ -286,7 +340,7 @@ class ReverbService {
     channel.unbind_global();
     channel.bind_global((eventName: string, data: any) => {
       console.log(`📨 Private event received on ${channelName}:`, eventName, data);
-      callbacks.onEvent(eventName, data);
+      this.dispatch(`private-${channelName}`, eventName, data, callbacks.onEvent);
     });
 
     console.log(`✅ Subscribed to private channel: private-${channelName}`);
@@ -300,8 +354,8 @@ class ReverbService {
     channelName: string,
     callbacks: {
       onEvent: (eventName: string, data: any) => void;
-      onMemberAdded?: (member: any) => void;
-      onMemberRemoved?: (member: any) => void;
+      onMemberAdded?: (member: PresenceMember) => void;
+      onMemberRemoved?: (member: PresenceMember) => void;
     }
   ) {
     if (!this.pusher) {
@@ -320,19 +374,19 @@ class ReverbService {
     // Bind to all events on this channel
     channel.bind_global((eventName: string, data: any) => {
       console.log(`📨 Presence event received on ${channelName}:`, eventName, data);
-      callbacks.onEvent(eventName, data);
+      this.dispatch(`presence-${channelName}`, eventName, data, callbacks.onEvent);
     });
 
     // Track members joining/leaving
     if (callbacks.onMemberAdded) {
-      channel.bind('pusher:member_added', (member: any) => {
+      channel.bind('pusher:member_added', (member: PresenceMember) => {
         console.log(`👤 Member joined ${channelName}:`, member);
         callbacks.onMemberAdded?.(member);
       });
     }
 
     if (callbacks.onMemberRemoved) {
-      channel.bind('pusher:member_removed', (member: any) => {
+      channel.bind('pusher:member_removed', (member: PresenceMember) => {
         console.log(`👋 Member left ${channelName}:`, member);
         callbacks.onMemberRemoved?.(member);
       });
@@ -349,6 +403,7 @@ class ReverbService {
     if (this.pusher && this.channels.has(channelName)) {
       this.pusher.unsubscribe(channelName);
       this.channels.delete(channelName);
+      this.releaseChannelListeners(channelName);
       console.log(`🔕 Unsubscribed from channel: ${channelName}`);
     }
   }
@@ -360,26 +415,69 @@ class ReverbService {
     return this.channels.has(channelName);
   }
 
+  /**
+   * Hand a raw broadcast to the event bus and the channel's raw callback.
+   * A throwing callback is logged instead of breaking Pusher's dispatch loop.
+   */
+  private dispatch(
+    fullChannelName: string,
+    eventName: string,
+    data: any,
+    onEvent: (eventName: string, data: any) => void
+  ) {
+    realtimeEventBus.publish(fullChannelName, eventName, data);
+
+    try {
+      onEvent(eventName, data);
+    } catch (error) {
+      console.error(`❌ Error handling ${eventName} on ${fullChannelName}:`, error);
+    }
+  }
+
+  /**
+   * Route typed callbacks for one channel through the event bus. Like the raw
+   * callback, they are replaced by the next subscription to the same channel.
+   */
+  private bindEventCallbacks<M extends Record<string, RealtimeEventName>>(
+    fullChannelName: string,
+    events: M,
+    callbacks: EventCallbacks<M>
+  ) {
+    const unsubscribes = (Object.keys(events) as (keyof M)[])
+      .filter((key) => callbacks[key])
+      .map((key) =>
+        realtimeEventBus.subscribe(
+          events[key],
+          (event) => (callbacks[key] as ((data: unknown) => void) | undefined)?.(event.payload),
+          { channel: fullChannelName }
+        )
+      );
+
+    this.channelListeners.set(fullChannelName, () => unsubscribes.forEach((unsubscribe) => unsubscribe()));
+  }
+
+  private releaseChannelListeners(fullChannelName: string) {
+    this.channelListeners.get(fullChannelName)?.();
+    this.channelListeners.delete(fullChannelName);
+  }
+
+  private releaseAllChannelListeners() {
+    this.channelListeners.forEach((release) => release());
+    this.channelListeners.clear();
+  }
+
   /**
    * Subscribe to group workout invitations
    */
   public subscribeToGroupWorkoutInvitations(
     groupId: number,
-    onInvitation: (data: {
-      group_id: number;
-      initiator_id: number;
-      initiator_name: string;
-      workout_data: any;
-      session_id: string;
-    }) => void
+    onInvitation: (data: RealtimeEventMap['GroupWorkoutInvitation']) => void
   ) {
-    return this.subscribeToPrivateChannel(`group.${groupId}`, {
-      onEvent: (eventName, data) => {
-        if (eventName === 'GroupWorkoutInvitation') {
-          onInvitation(data);
-        }
-      },
-    });
+    const channel = this.subscribeToPrivateChannel(`group.${groupId}`, { onEvent: () => {} });
+    if (channel) {
+      this.bindEventCallbacks(`private-group.${groupId}`, { onInvitation: 'GroupWorkoutInvitation' } as const, { onInvitation });
+    }
+    return channel;
   }
 
   /**
@@ -388,9 +486,9 @@ class ReverbService {
   public subscribeToGroupPresence(
     groupId: number,
     callbacks: {
-      onMemberOnline: (member: any) => void;
-      onMemberOffline: (member: any) => void;
-      onInitialMembers?: (members: any[]) => void;
+      onMemberOnline: (member: PresenceMember) => void;
+      onMemberOffline: (member: PresenceMember) => void;
+      onInitialMembers?: (members: { id: string }[]) => void;
     }
   ) {
     const channel = this.subscribeToPresenceChannel(`group.${groupId}`, {
@@ -422,9 +520,9 @@ class ReverbService {
    */
   public subscribeToGlobalPresence(
     callbacks: {
-      onMemberOnline: (member: any) => void;
-      onMemberOffline: (member: any) => void;
-      onInitialMembers?: (members: any[]) => void;
+      onMemberOnline: (member: PresenceMember) => void;
+      onMemberOffline: (member: PresenceMember) => void;
+      onInitialMembers?: (members: { id: string }[]) => void;
     }
   ) {
     const channel = this.subscribeToPresenceChannel('online-users', {
@@ -544,97 +642,12 @@ class ReverbService {
   /**
    * Subscribe to lobby channel for real-time lobby events
    */
-  public subscribeToLobby(
-    sessionId: string,
-    callbacks: {
-      onLobbyStateChanged?: (data: any) => void;
-      onMemberJoined?: (data: any) => void;
-      onMemberLeft?: (data: any) => void;
-      onMemberStatusUpdated?: (data: any) => void;
-      onLobbyMessageSent?: (data: any) => void;
-      onWorkoutStarted?: (data: any) => void;
-      onLobbyDeleted?: (data: any) => void;
-      onMemberKicked?: (data: any) => void;
-      onInitiatorRoleTransferred?: (data: any) => void;
-      // Ready Check events
-      onReadyCheckStarted?: (data: any) => void;
-      onReadyCheckResponse?: (data: any) => void;
-      onReadyCheckComplete?: (data: any) => void;
-      onReadyCheckCancelled?: (data: any) => void;
-      // Voting events
-      onVotingStarted?: (data: any) => void;
-      onVoteSubmitted?: (data: any) => void;
-      onVotingComplete?: (data: any) => void;
-      // Exercise customization events
-      onExerciseSwapped?: (data: any) => void;
-      onExercisesReordered?: (data: any) => void;
+  public subscribeToLobby(sessionId: string, callbacks: LobbyEventCallbacks) {
+    const channel = this.subscribeToPrivateChannel(`lobby.${sessionId}`, { onEvent: () => {} });
+    if (channel) {
+      this.bindEventCallbacks(`private-lobby.${sessionId}`, LOBBY_EVENTS, callbacks);
     }
-  ) {
-    const channelName = `private-lobby.${sessionId}`;
-
-    return this.subscribeToPrivateChannel(`lobby.${sessionId}`, {
-      onEvent: (eventName, data) => {
-        switch (eventName) {
-          case 'LobbyStateChanged':
-            callbacks.onLobbyStateChanged?.(data);
-            break;
-          case 'member.joined':
-            callbacks.onMemberJoined?.(data);
-            break;
-          case 'member.left':
-            callbacks.onMemberLeft?.(data);
-            break;
-          case 'member.status.updated':
-            callbacks.onMemberStatusUpdated?.(data);
-            break;
-          case 'LobbyMessageSent':
-            callbacks.onLobbyMessageSent?.(data);
-            break;
-          case 'WorkoutStarted':
-            callbacks.onWorkoutStarted?.(data);
-            break;
-          case 'LobbyDeleted':
-            callbacks.onLobbyDeleted?.(data);
-            break;
-          case 'MemberKicked':
-            callbacks.onMemberKicked?.(data);
-            break;
-          case 'initiator.transferred':
-            callbacks.onInitiatorRoleTransferred?.(data);
-            break;
-          // Ready Check events
-          case 'ReadyCheckStarted':
-            callbacks.onReadyCheckStarted?.(data);
-            break;
-          case 'ReadyCheckResponse':
-            callbacks.onReadyCheckResponse?.(data);
-            break;
-          case 'ReadyCheckComplete':
-            callbacks.onReadyCheckComplete?.(data);
-            break;
-          case 'ReadyCheckCancelled':
-            callbacks.onReadyCheckCancelled?.(data);
-            break;
-          // Voting events
-          case 'VotingStarted':
-            callbacks.onVotingStarted?.(data);
-            break;
-          case 'VoteSubmitted':
-            callbacks.onVoteSubmitted?.(data);
-            break;
-          case 'VotingComplete':
-            callbacks.onVotingComplete?.(data);
-            break;
-          // Exercise customization events
-          case 'ExerciseSwapped':
-            callbacks.onExerciseSwapped?.(data);
-            break;
-          case 'ExercisesReordered':
-            callbacks.onExercisesReordered?.(data);
-            break;
-        }
-      },
-    });
+    return channel;
   }
 
   /**
@@ -643,9 +656,9 @@ class ReverbService {
   public subscribeToPresence(
     channelName: string,
     callbacks: {
-      onHere?: (members: any[]) => void;
-      onJoining?: (member: any) => void;
-      onLeaving?: (member: any) => void;
+      onHere?: (members: { user_id: number }[]) => void;
+      onJoining?: (member: PresenceMember) => void;
+      onLeaving?: (member: PresenceMember) => void;
     }
   ) {
     const channel = this.subscribeToPresenceChannel(channelName, {
@@ -672,21 +685,12 @@ class ReverbService {
    * @param userId - User ID
    * @param callbacks - Event callbacks
    */
-  public subscribeToUserChannel(
-    userId: string | number,
-    callbacks: {
-      onMemberKicked?: (data: any) => void;
+  public subscribeToUserChannel(userId: string | number, callbacks: UserChannelEventCallbacks) {
+    const channel = this.subscribeToPrivateChannel(`user.${userId}`, { onEvent: () => {} });
+    if (channel) {
+      this.bindEventCallbacks(`private-user.${userId}`, USER_EVENTS, callbacks);
     }
-  ) {
-    return this.subscribeToPrivateChannel(`user.${userId}`, {
-      onEvent: (event: string, data: any) => {
-        console.log(`📨 User channel event: ${event}`, data);
-
-        if (event === 'MemberKicked' && callbacks.onMemberKicked) {
-          callbacks.onMemberKicked(data);
-        }
-      },
-    });
+    return channel;
   }
 }
 
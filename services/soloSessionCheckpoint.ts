@@ -0,0 +1,124 @@
+/**
+ * Solo Session Checkpoint
+ *
+ * The session screen writes a checkpoint of a running solo workout on every
+ * phase change (position in the interval plan, active time, calories and the
+ * generated TabataWorkoutSession payload). If the app is killed mid-workout,
+ * the next launch can resume from the checkpoint or record the partial
+ * workout through trackingService (which queues it offline if needed).
+ *
+ * Group workouts are server-authoritative and reconnect through LobbyContext instead.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { trackingService } from './microservices/trackingService';
+import { IntervalPhase } from './intervalTimerEngine';
+
+export interface SoloSessionCheckpoint {
+  userId: string;
+  workoutId: string; // Generated session_id, or content workout id for the old format
+  workoutName: string;
+  sessionData?: string; // TabataWorkoutSession JSON, exactly as passed to the session screen
+  timerConfig?: string; // Interval config JSON route param, if any
+  exercises: { exercise_id: number; exercise_name: string; target_muscle_group: string }[];
+  setsPerExercise: number;
+  segmentIndex: number;
+  phase: IntervalPhase;
+  currentExercise: number;
+  currentSet: number;
+  currentRound: number;
+  timeRemaining: number;
+  caloriesBurned: number;
+  elapsedSeconds: number; // Active workout time, excluding pauses
+  startedAt: string;
+  savedAt: string;
+}
+
+// Older checkpoints are not worth resuming (and would skew history if saved as "today")
+const MAX_CHECKPOINT_AGE_MS = 24 * 60 * 60 * 1000;
+
+const getStorageKey = (userId: string | number) => `soloSessionCheckpoint_user_${userId}`;
+
+class SoloSessionCheckpointStore {
+  async save(checkpoint: SoloSessionCheckpoint): Promise<void> {
+    try {
+      await AsyncStorage.setItem(getStorageKey(checkpoint.userId), JSON.stringify(checkpoint));
+    } catch (error) {
+      console.error('❌ [CHECKPOINT] Failed to save session checkpoint:', error);
+    }
+  }
+
+  /**
+   * Checkpoint of an interrupted solo workout, or null if there is none (or it is stale)
+   */
+  async load(userId: string | number): Promise<SoloSessionCheckpoint | null> {
+    try {
+      const stored = await AsyncStorage.getItem(getStorageKey(userId));
+      if (!stored) return null;
+
+      const checkpoint: SoloSessionCheckpoint = JSON.parse(stored);
+      if (Date.now() - new Date(checkpoint.savedAt).getTime() > MAX_CHECKPOINT_AGE_MS) {
+        console.log('🗑️ [CHECKPOINT] Discarding stale session checkpoint');
+        await this.clear(userId);
+        return null;
+      }
+
+      return checkpoint;
+    } catch (error) {
+      console.error('❌ [CHECKPOINT] Failed to load session checkpoint:', error);
+      return null;
+    }
+  }
+
+  async clear(userId: string | number): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(getStorageKey(userId));
+    } catch (error) {
+      console.error('❌ [CHECKPOINT] Failed to clear session checkpoint:', error);
+    }
+  }
+
+  /**
+   * Record an interrupted workout as a partial session and drop the checkpoint.
+   * Returns false if not a single set was finished (nothing worth recording).
+   */
+  async savePartialWorkout(checkpoint: SoloSessionCheckpoint): Promise<boolean> {
+    const totalExercises = Math.max(1, checkpoint.exercises.length);
+    const totalSets = totalExercises * checkpoint.setsPerExercise;
+    const completedSets = checkpoint.currentExercise * checkpoint.setsPerExercise + checkpoint.currentSet;
+
+    if (completedSets === 0) {
+      console.log('🗑️ [CHECKPOINT] No sets completed — nothing to save');
+      await this.clear(checkpoint.userId);
+      return false;
+    }
+
+    const completionPercentage = Math.round((completedSets / totalSets) * 100);
+    const durationMinutes = Math.max(1, Math.round(checkpoint.elapsedSeconds / 60));
+    const startTime = new Date(checkpoint.startedAt);
+
+    await trackingService.createWorkoutSession({
+      workoutId: checkpoint.workoutId,
+      userId: Number(checkpoint.userId),
+      sessionType: 'individual',
+      groupId: null,
+      startTime,
+      endTime: new Date(startTime.getTime() + checkpoint.elapsedSeconds * 1000),
+      duration: durationMinutes,
+      caloriesBurned: Math.max(1, Math.ceil(checkpoint.caloriesBurned)),
+      completed: false,
+      completionPercentage,
+      exercises: checkpoint.exercises.map((ex, index) => ({
+        ...ex,
+        completed: index < checkpoint.currentExercise,
+      })),
+      notes: `Session interrupted - ${checkpoint.currentExercise + 1}/${totalExercises} exercises, set ${checkpoint.currentSet + 1}/${checkpoint.setsPerExercise} (${completionPercentage}% complete, ${durationMinutes}min)`,
+    });
+
+    await this.clear(checkpoint.userId);
+    console.log(`💾 [CHECKPOINT] Saved interrupted workout as partial session (${completionPercentage}%)`);
+    return true;
+  }
+}
+
+export const soloSessionCheckpoint = new SoloSessionCheckpointStore();
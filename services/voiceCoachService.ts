@@ -0,0 +1,147 @@
+/**
+ * Voice Coach Service
+ *
+ * Spoken coaching on top of the phase-transition beeps (audioCueService):
+ * "Next up: Jump Squats, 20 seconds", the halfway call and a spoken
+ * 3-2-1 countdown.
+ *
+ * The session screen decides *when* to announce (solo: local timer engine,
+ * group: server-driven phase changes); this service only decides *whether*,
+ * based on the user's coaching level:
+ * - off: no speech
+ * - minimal: upcoming exercise and workout complete
+ * - full: everything, including rest, halfway and countdown calls
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Speech from 'expo-speech';
+
+export type VoiceCoachMode = 'off' | 'minimal' | 'full';
+
+type Announcement = 'nextUp' | 'rest' | 'halfway' | 'countdown' | 'complete';
+
+export const VOICE_COACH_MODES: { mode: VoiceCoachMode; label: string; description: string }[] = [
+  { mode: 'off', label: 'Off', description: 'Sound cues only' },
+  { mode: 'minimal', label: 'Minimal', description: 'Announces the next exercise' },
+  { mode: 'full', label: 'Full', description: 'Next exercise, rest, halfway and 3-2-1 countdown' },
+];
+
+export const DEFAULT_VOICE_COACH_MODE: VoiceCoachMode = 'minimal';
+
+const ANNOUNCEMENTS_BY_MODE: Record<VoiceCoachMode, Announcement[]> = {
+  off: [],
+  minimal: ['nextUp', 'complete'],
+  full: ['nextUp', 'rest', 'halfway', 'countdown', 'complete'],
+};
+
+const SPEECH_OPTIONS: Speech.SpeechOptions = {
+  language: 'en-US',
+  rate: 1.05,
+};
+
+const getStorageKey = (userId: string | number) => `@voice_coach_mode_user_${userId}`;
+
+class VoiceCoachService {
+  private mode: VoiceCoachMode = 'off';
+  private isActive = false;
+
+  /**
+   * Load a user's coaching level (falls back to minimal)
+   */
+  async getMode(userId: string | number): Promise<VoiceCoachMode> {
+    try {
+      const stored = await AsyncStorage.getItem(getStorageKey(userId));
+      if (stored === 'off' || stored === 'minimal' || stored === 'full') return stored;
+      return DEFAULT_VOICE_COACH_MODE;
+    } catch (error) {
+      console.error('❌ [VOICE] Failed to load coach mode:', error);
+      return DEFAULT_VOICE_COACH_MODE;
+    }
+  }
+
+  /**
+   * Save a user's coaching level and apply it to the active session, if any
+   */
+  async saveMode(userId: string | number, mode: VoiceCoachMode): Promise<void> {
+    await AsyncStorage.setItem(getStorageKey(userId), mode);
+    this.mode = mode;
+
+    if (mode === 'off') {
+      this.stop();
+    }
+  }
+
+  /**
+   * Enable announcements for a workout. Call when the session screen mounts.
+   */
+  async activate(userId: string | number): Promise<void> {
+    this.isActive = true;
+    this.mode = await this.getMode(userId);
+  }
+
+  /**
+   * Silence the coach. Call when the session screen unmounts.
+   */
+  deactivate(): void {
+    this.isActive = false;
+    this.stop();
+  }
+
+  /**
+   * Cut off whatever is being said (pause, exit)
+   */
+  stop(): void {
+    Speech.stop().catch(() => {});
+  }
+
+  /**
+   * "Next up: Jump Squats, 20 seconds"
+   */
+  announceNextUp(exerciseName: string, durationSeconds: number): void {
+    this.say('nextUp', `Next up: ${exerciseName}, ${durationSeconds} seconds`);
+  }
+
+  announceRest(durationSeconds: number): void {
+    this.say('rest', `Rest, ${durationSeconds} seconds`);
+  }
+
+  announceHalfway(): void {
+    this.say('halfway', 'Halfway');
+  }
+
+  /**
+   * Spoken 3-2-1. Interrupts any narration still running so the count stays on time.
+   */
+  announceCountdown(second: number): void {
+    this.say('countdown', String(second), true);
+  }
+
+  announceComplete(): void {
+    this.say('complete', 'Workout complete. Great job!', true);
+  }
+
+  /**
+   * Speak a sample line outside of a workout (settings screen preview)
+   */
+  preview(mode: VoiceCoachMode): void {
+    if (mode === 'off') return;
+    Speech.stop().catch(() => {});
+    Speech.speak('Next up: Jump Squats, 20 seconds', SPEECH_OPTIONS);
+  }
+
+  private say(announcement: Announcement, text: string, interrupt = false): void {
+    if (!this.isActive || !ANNOUNCEMENTS_BY_MODE[this.mode].includes(announcement)) return;
+
+    try {
+      if (interrupt) {
+        Speech.stop().catch(() => {});
+      }
+      Speech.speak(text, SPEECH_OPTIONS);
+    } catch (error) {
+      // Never let speech break the workout timer
+      console.warn(`⚠️ [VOICE] Failed to speak "${text}":`, error);
+    }
+  }
+}
+
+export const voiceCoachService = new VoiceCoachService();
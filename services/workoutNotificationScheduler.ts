@@ -1,4 +1,18 @@
-import { Platform } from 'react-native';
+import { AppState, Platform } from 'react-native';
+import { addDays, format, startOfDay, startOfWeek } from 'date-fns';
+import { IntervalPhase } from './intervalTimerEngine';
+import { notificationPreferences, QuietHours } from './notificationPreferences';
+import { planningService } from './microservices/planningService';
+import { trackingService } from './microservices/trackingService';
+import { isWithinQuietHours } from '../utils/notifications';
+import {
+  atTime,
+  DAY_NAMES,
+  getPreferredTimeForDate,
+  getUpcomingWorkoutDays,
+  learnPreferredTrainingTime,
+  PreferredTrainingTime,
+} from '../utils/workoutReminders';
 
 // Conditional import for expo-notifications
 let Notifications: any = null;
@@ -23,15 +37,106 @@ export interface NotificationSettings {
   enabled: boolean;
   morningReminderTime: string; // Format: "HH:MM" (24-hour)
   advanceNoticeMinutes: number; // Minutes before workout
+  adaptiveTiming?: boolean; // Remind before the learned training time (default on)
+  streakNudges?: boolean; // Evening nudge when a planned workout isn't done (default on)
 }
 
 const DEFAULT_SETTINGS: NotificationSettings = {
   enabled: true,
   morningReminderTime: '08:00',
   advanceNoticeMinutes: 60,
+  adaptiveTiming: true,
+  streakNudges: true,
 };
 
+// iOS keeps at most 64 pending local notifications per app and drops the rest;
+// workout reminders and session phase alerts share them
+const IOS_PENDING_NOTIFICATION_LIMIT = 64;
+// Scheduled notification types owned by the workout reminders (session alerts are left alone)
+const REMINDER_TYPES = ['morning_reminder', 'advance_reminder', 'streak_at_risk'];
+// Date-based plan reminders and streak nudges look this far ahead; weekly reminders cover the rest
+const REMINDER_WINDOW_DAYS = 7;
+// Slots kept for reminders: one weekly reminder per weekday, plus a plan reminder
+// and a streak nudge for each day in the window
+const REMINDER_NOTIFICATION_BUDGET = 7 + REMINDER_WINDOW_DAYS * 2;
+const SESSION_HISTORY_LIMIT = 100;
+// Coming back to the app reschedules reminders at most this often
+const FOREGROUND_REFRESH_INTERVAL_MS = 15 * 60 * 1000;
+const STREAK_NUDGE_TIME = '19:00';
+// Evening trainers get nudged this long after their usual time instead
+const STREAK_NUDGE_GRACE_MINUTES = 90;
+
+/**
+ * Live workout session shown in the ongoing (lock-screen) notification
+ */
+export interface SessionNotificationState {
+  phase: IntervalPhase;
+  exerciseName: string;
+  exerciseNumber: number; // 1-based
+  totalExercises: number;
+  setNumber: number; // 1-based
+  totalSets: number;
+  timeRemaining: number; // seconds left in the current phase
+  isPaused: boolean;
+  canControl: boolean; // Show pause/resume actions (solo, or group initiator)
+}
+
+/**
+ * Upcoming phase transition, scheduled so it still fires while the app is suspended
+ */
+export interface SessionTransition {
+  at: Date;
+  phase: IntervalPhase;
+  exerciseName: string;
+  setNumber: number; // 1-based
+  totalSets: number;
+  duration: number; // seconds
+}
+
+export type SessionNotificationAction = 'pause' | 'resume';
+
+const SESSION_NOTIFICATION_ID = 'workout_session_ongoing';
+const SESSION_TRANSITION_PREFIX = 'workout_session_transition_';
+const SESSION_CHANNEL_ID = 'workout-session';
+const SESSION_CATEGORY_RUNNING = 'workout_session_running';
+const SESSION_CATEGORY_PAUSED = 'workout_session_paused';
+
+// Phase alerts get whatever the reminders don't reserve
+const MAX_SCHEDULED_TRANSITIONS = IOS_PENDING_NOTIFICATION_LIMIT - REMINDER_NOTIFICATION_BUDGET;
+
+const SESSION_PHASE_LABELS: Record<IntervalPhase, string> = {
+  prepare: 'Get Ready',
+  work: 'Work',
+  rest: 'Rest',
+  roundRest: 'Exercise Break',
+  cooldown: 'Cool Down',
+  complete: 'Workout Complete',
+};
+
+const formatClockTime = (date: Date): string =>
+  date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit', second: '2-digit' });
+
+const formatReminderTime = (date: Date): string =>
+  date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+const capitalize = (day: string): string => day.charAt(0).toUpperCase() + day.slice(1);
+
+interface SmartReminderContext {
+  userId: string;
+  workoutDays: string[];
+  settings: NotificationSettings;
+}
+
 class WorkoutNotificationScheduler {
+  private sessionSetupPromise: Promise<void> | null = null;
+  private scheduledTransitionIds: string[] = [];
+  private sessionAlertPromise: Promise<void> = Promise.resolve();
+  private sessionAlertGeneration = 0; // Bumped by clearSessionNotifications
+  private smartReminderContext: SmartReminderContext | null = null;
+  private smartSchedulePromise: Promise<void> = Promise.resolve();
+  private lastSmartScheduleAt = 0;
+  private learnedTrainingTime: PreferredTrainingTime | null = null;
+
   /**
    * Request notification permissions from the device
    */
@@ -98,8 +203,8 @@ class WorkoutNotificationScheduler {
     }
 
     try {
-      // Cancel all existing scheduled notifications first
-      await this.cancelAllNotifications();
+      // Cancel existing reminders first (an active session's alerts are kept)
+      await this.cancelWorkoutReminders();
 
       const permissionGranted = await this.requestPermissions();
       if (!permissionGranted) {
@@ -150,6 +255,286 @@ class WorkoutNotificationScheduler {
     }
   }
 
+  /**
+   * Schedule workout reminders from the user's workout days and weekly plan.
+   * Every workout day keeps a weekly repeating reminder, sent ahead of the
+   * training time learned from session history (or at the morning reminder time
+   * until there's enough history), so reminders continue if the app isn't opened.
+   * When the plan loads, extra planned days get date-based reminders, and days
+   * that still aren't done get an evening streak-at-risk nudge.
+   * Rescheduled automatically whenever the weekly plan changes.
+   * @param userId - Current user
+   * @param workoutDays - Day names in any casing (e.g. ["monday", "Wednesday"])
+   * @param settings - Notification settings
+   */
+  async scheduleSmartReminders(
+    userId: string | number,
+    workoutDays: string[],
+    settings: NotificationSettings = DEFAULT_SETTINGS
+  ): Promise<void> {
+    this.smartReminderContext = { userId: String(userId), workoutDays, settings };
+    return this.queueSmartReminders();
+  }
+
+  /**
+   * Re-run the last smart schedule with fresh plan and session data
+   * (plan changed, workout finished). No-op until reminders have been scheduled.
+   */
+  async refreshSmartReminders(): Promise<void> {
+    if (!this.smartReminderContext) return;
+    return this.queueSmartReminders();
+  }
+
+  /**
+   * Refresh reminders when the app comes back to the foreground, since days roll
+   * over and workouts get logged on other devices while it's in the background
+   */
+  async refreshSmartRemindersOnForeground(): Promise<void> {
+    if (Date.now() - this.lastSmartScheduleAt < FOREGROUND_REFRESH_INTERVAL_MS) return;
+    return this.refreshSmartReminders();
+  }
+
+  /**
+   * Forget the user's reminder schedule and cancel pending reminders (logout)
+   */
+  async stopSmartReminders(): Promise<void> {
+    this.smartReminderContext = null;
+    this.learnedTrainingTime = null;
+    // Queued behind any in-flight schedule so nothing it adds survives the cancel
+    return this.queueSmartReminders(() => this.cancelWorkoutReminders());
+  }
+
+  /**
+   * Training time learned from the last schedule, null until there's enough history
+   */
+  getLearnedTrainingTime(): PreferredTrainingTime | null {
+    return this.learnedTrainingTime;
+  }
+
+  /**
+   * Run schedules one at a time so overlapping triggers can't interleave cancels and schedules
+   */
+  private queueSmartReminders(task: () => Promise<void> = () => this.applySmartReminders()): Promise<void> {
+    const run = this.smartSchedulePromise.then(task);
+    this.smartSchedulePromise = run.catch(() => {});
+    return run;
+  }
+
+  private async applySmartReminders(): Promise<void> {
+    const context = this.smartReminderContext;
+    if (!context) return;
+
+    if (!Notifications) {
+      console.warn('[NOTIFICATIONS] expo-notifications not available');
+      return;
+    }
+
+    const { userId, workoutDays, settings } = context;
+    // Stopped (logout) or rescheduled for another user while awaiting
+    const isStale = () => this.smartReminderContext !== context;
+
+    if (!settings.enabled) {
+      console.log('[NOTIFICATIONS] Notifications disabled, cancelling reminders');
+      await this.cancelWorkoutReminders();
+      return;
+    }
+
+    const { mutedCategories, quietHours } = notificationPreferences.get();
+    if (mutedCategories.includes('workouts')) {
+      console.log('[NOTIFICATIONS] Workout notifications muted, cancelling reminders');
+      await this.cancelWorkoutReminders();
+      return;
+    }
+
+    const permissionGranted = await this.requestPermissions();
+    if (isStale()) return;
+    if (!permissionGranted) {
+      console.warn('[NOTIFICATIONS] Cannot schedule without permission');
+      return;
+    }
+
+    const now = new Date();
+    this.lastSmartScheduleAt = now.getTime();
+
+    // Session history drives both day completion and the learned training time.
+    // Read past the cache: a stale copy would nudge about workouts already done
+    let sessions: { startTime: string; createdAt: string }[] = [];
+    try {
+      const response = await trackingService.getSessions(
+        { userId, status: 'completed', limit: SESSION_HISTORY_LIMIT },
+        { revalidate: true }
+      );
+      sessions = (response?.sessions || []).filter((s) => s.sessionType !== 'group');
+    } catch (error) {
+      console.warn('[NOTIFICATIONS] Session history unavailable, using fixed reminder time:', error);
+    }
+    if (isStale()) return;
+
+    const completedDates = Array.from(new Set(sessions.map((s) => format(new Date(s.createdAt), 'yyyy-MM-dd'))));
+    const weekStartKey = format(startOfWeek(now, { weekStartsOn: 1 }), 'yyyy-MM-dd');
+
+    let plan: any = null;
+    try {
+      const response = await planningService.getCurrentWeekPlan(
+        Number(userId),
+        sessions.length,
+        completedDates.filter((date) => date >= weekStartKey)
+      );
+      plan = (response.data as any)?.plan || response.data;
+    } catch (error) {
+      console.warn('[NOTIFICATIONS] Weekly plan unavailable, keeping weekly reminders only:', error);
+    }
+    if (isStale()) return;
+
+    this.learnedTrainingTime = learnPreferredTrainingTime(sessions.map((s) => s.startTime));
+    const learned = settings.adaptiveTiming !== false ? this.learnedTrainingTime : null;
+
+    await this.cancelWorkoutReminders();
+    if (isStale()) return;
+
+    const weeklyDays = await this.scheduleWeeklyReminders(workoutDays, settings, learned, quietHours, now, isStale);
+    if (isStale()) return;
+
+    const upcoming = getUpcomingWorkoutDays(plan, workoutDays, completedDates, now, REMINDER_WINDOW_DAYS);
+    let scheduledCount = weeklyDays.size;
+
+    for (const day of upcoming) {
+      if (day.completed) continue;
+      if (scheduledCount >= REMINDER_NOTIFICATION_BUDGET) break;
+
+      const dayLabel = capitalize(day.dayName);
+      const trainingTime = learned ? atTime(day.date, getPreferredTimeForDate(learned, day.date)) : null;
+      const workoutText = day.exerciseCount > 0
+        ? `${day.exerciseCount} exercises are lined up in your plan`
+        : 'Time to crush your Tabata workout';
+
+      // Reminder: ahead of the usual training time, or at the fixed morning time
+      let reminderAt = trainingTime
+        ? new Date(trainingTime.getTime() - settings.advanceNoticeMinutes * 60 * 1000)
+        : atTime(day.date, settings.morningReminderTime);
+      if (isWithinQuietHours(quietHours, reminderAt)) {
+        reminderAt = atTime(day.date, quietHours.end);
+      }
+
+      // Workout days already have their weekly reminder; only extra planned days need one
+      if (day.fromPlan && !weeklyDays.has(day.dayName) && reminderAt > now) {
+        await Notifications.scheduleNotificationAsync({
+          content: trainingTime
+            ? {
+                title: 'Workout Coming Up',
+                body: `You usually train around ${formatReminderTime(trainingTime)}. ${workoutText}.`,
+                data: { type: 'advance_reminder', day: dayLabel },
+                sound: true,
+              }
+            : {
+                title: 'Workout Day!',
+                body: `It's ${dayLabel}! ${workoutText}.`,
+                data: { type: 'morning_reminder', day: dayLabel },
+                sound: true,
+              },
+          trigger: {
+            type: 'date',
+            date: reminderAt,
+          },
+        });
+        if (isStale()) return;
+        scheduledCount++;
+      }
+
+      if (settings.streakNudges === false || scheduledCount >= REMINDER_NOTIFICATION_BUDGET) continue;
+
+      // Streak nudge: evening, or a while after an evening trainer's usual time
+      const eveningAt = atTime(day.date, STREAK_NUDGE_TIME);
+      const afterUsualAt = trainingTime
+        ? new Date(trainingTime.getTime() + STREAK_NUDGE_GRACE_MINUTES * 60 * 1000)
+        : eveningAt;
+      const nudgeAt = afterUsualAt > eveningAt ? afterUsualAt : eveningAt;
+
+      const sameDay = nudgeAt.getDate() === day.date.getDate();
+      if (nudgeAt > now && sameDay && !isWithinQuietHours(quietHours, nudgeAt)) {
+        await Notifications.scheduleNotificationAsync({
+          content: {
+            title: 'Your Streak Is at Risk',
+            body: `Your ${dayLabel} workout isn't done yet. A quick session keeps your streak going.`,
+            data: { type: 'streak_at_risk', day: dayLabel },
+            sound: true,
+          },
+          trigger: {
+            type: 'date',
+            date: nudgeAt,
+          },
+        });
+        if (isStale()) return;
+        scheduledCount++;
+      }
+    }
+
+    console.log(
+      `[NOTIFICATIONS] Scheduled ${scheduledCount} workout reminders` +
+        (learned ? ` (learned time ${learned.time} from ${learned.sampleSize} sessions)` : '')
+    );
+  }
+
+  /**
+   * Weekly repeating reminder for each workout day, at the learned training
+   * time for that weekday (less the advance notice) or the morning reminder time
+   * @param isStale - Stops scheduling once the smart reminder context has changed
+   * @returns Set<string> - Lowercase day names that got a reminder
+   */
+  private async scheduleWeeklyReminders(
+    workoutDays: string[],
+    settings: NotificationSettings,
+    learned: PreferredTrainingTime | null,
+    quietHours: QuietHours,
+    now: Date,
+    isStale: () => boolean
+  ): Promise<Set<string>> {
+    const scheduledDays = new Set<string>();
+
+    for (const dayName of workoutDays.map((day) => day.toLowerCase())) {
+      const weekday = DAY_NAMES.indexOf(dayName);
+      if (weekday === -1 || scheduledDays.has(dayName)) continue;
+
+      // Next occurrence of the weekday, used to work out the clock time
+      const date = addDays(startOfDay(now), (weekday - now.getDay() + 7) % 7);
+      const dayLabel = capitalize(dayName);
+      const trainingTime = learned ? atTime(date, getPreferredTimeForDate(learned, date)) : null;
+
+      let reminderAt = trainingTime
+        ? new Date(Math.max(trainingTime.getTime() - settings.advanceNoticeMinutes * 60 * 1000, date.getTime()))
+        : atTime(date, settings.morningReminderTime);
+      if (isWithinQuietHours(quietHours, reminderAt)) {
+        reminderAt = atTime(date, quietHours.end);
+      }
+
+      await Notifications.scheduleNotificationAsync({
+        content: trainingTime
+          ? {
+              title: 'Workout Coming Up',
+              body: `You usually train around ${formatReminderTime(trainingTime)}. Time to crush your Tabata workout.`,
+              data: { type: 'advance_reminder', day: dayLabel },
+              sound: true,
+            }
+          : {
+              title: 'Workout Day!',
+              body: `It's ${dayLabel}! Time to crush your Tabata workout today.`,
+              data: { type: 'morning_reminder', day: dayLabel },
+              sound: true,
+            },
+        trigger: {
+          type: 'weekly',
+          weekday: weekday + 1, // expo-notifications: 1 = Sunday
+          hour: reminderAt.getHours(),
+          minute: reminderAt.getMinutes(),
+        },
+      });
+      if (isStale()) break;
+      scheduledDays.add(dayName);
+    }
+
+    return scheduledDays;
+  }
+
   /**
    * Schedule a one-time reminder before a specific workout
    * @param workoutTime - Date/time of the workout
@@ -214,6 +599,26 @@ class WorkoutNotificationScheduler {
     }
   }
 
+  /**
+   * Cancel scheduled workout reminders and streak nudges, keeping the active
+   * session's phase alerts
+   */
+  async cancelWorkoutReminders(): Promise<void> {
+    if (!Notifications) return;
+
+    try {
+      const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+      const reminders = scheduled.filter((n: any) => REMINDER_TYPES.includes(n?.content?.data?.type));
+
+      await Promise.all(
+        reminders.map((n: any) => Notifications.cancelScheduledNotificationAsync(n.identifier).catch(() => {}))
+      );
+      console.log(`[NOTIFICATIONS] Cancelled ${reminders.length} workout reminders`);
+    } catch (error) {
+      console.error('[NOTIFICATIONS] Error cancelling workout reminders:', error);
+    }
+  }
+
   /**
    * Cancel a specific notification
    */
@@ -228,6 +633,202 @@ class WorkoutNotificationScheduler {
     }
   }
 
+  /**
+   * Register the pause/resume actions and the silent Android channel used by
+   * the ongoing workout notification. Safe to call repeatedly.
+   */
+  private setupSessionNotifications(): Promise<void> {
+    if (!this.sessionSetupPromise) {
+      this.sessionSetupPromise = (async () => {
+        try {
+          await Promise.all([
+            Notifications.setNotificationCategoryAsync(SESSION_CATEGORY_RUNNING, [
+              { identifier: 'pause', buttonTitle: 'Pause', options: { opensAppToForeground: false } },
+            ]),
+            Notifications.setNotificationCategoryAsync(SESSION_CATEGORY_PAUSED, [
+              { identifier: 'resume', buttonTitle: 'Resume', options: { opensAppToForeground: false } },
+            ]),
+          ]);
+
+          if (Platform.OS === 'android') {
+            // Low importance: the ongoing notification updates every phase and must not buzz
+            await Notifications.setNotificationChannelAsync(SESSION_CHANNEL_ID, {
+              name: 'Active Workout',
+              importance: Notifications.AndroidImportance.LOW,
+              showBadge: false,
+            });
+          }
+        } catch (error) {
+          console.error('[NOTIFICATIONS] Error setting up session notifications:', error);
+          this.sessionSetupPromise = null;
+        }
+      })();
+    }
+    return this.sessionSetupPromise;
+  }
+
+  /**
+   * Show or update the ongoing notification for the active workout session
+   * (current exercise, set, phase and remaining time, with pause/resume).
+   */
+  async showSessionProgress(state: SessionNotificationState): Promise<void> {
+    if (!Notifications) return;
+    return this.queueSessionAlerts((generation) => this.applySessionProgress(state, generation));
+  }
+
+  /**
+   * Run session notification work one call at a time. Work queued before a
+   * clearSessionNotifications sees the generation change and stops scheduling,
+   * so nothing it was about to schedule outlives the clear.
+   */
+  private queueSessionAlerts(task: (generation: number) => Promise<void>): Promise<void> {
+    const generation = this.sessionAlertGeneration;
+    const run = this.sessionAlertPromise.then(() => task(generation));
+    this.sessionAlertPromise = run.catch(() => {});
+    return run;
+  }
+
+  private async applySessionProgress(state: SessionNotificationState, generation: number): Promise<void> {
+    try {
+      if (!(await this.areNotificationsEnabled())) return;
+      await this.setupSessionNotifications();
+      if (generation !== this.sessionAlertGeneration) return;
+
+      const phaseLabel = SESSION_PHASE_LABELS[state.phase];
+      const endsAt = new Date(Date.now() + state.timeRemaining * 1000);
+      const timeText = state.isPaused
+        ? `Paused · ${state.timeRemaining}s left`
+        : `${state.timeRemaining}s left (until ${formatClockTime(endsAt)})`;
+
+      await Notifications.scheduleNotificationAsync({
+        identifier: SESSION_NOTIFICATION_ID,
+        content: {
+          title: `${phaseLabel} · ${state.exerciseName}`,
+          body: `Exercise ${state.exerciseNumber}/${state.totalExercises} · Set ${state.setNumber}/${state.totalSets} · ${timeText}`,
+          data: { type: 'workout_session' },
+          categoryIdentifier: state.canControl
+            ? (state.isPaused ? SESSION_CATEGORY_PAUSED : SESSION_CATEGORY_RUNNING)
+            : undefined,
+          sound: false,
+          sticky: true,
+          autoDismiss: false,
+        },
+        trigger: Platform.OS === 'android' ? { channelId: SESSION_CHANNEL_ID } : null,
+      });
+    } catch (error) {
+      console.error('[NOTIFICATIONS] Error showing session notification:', error);
+    }
+  }
+
+  /**
+   * Schedule an alert for each upcoming phase transition so the user hears
+   * "Rest" / "Work" even while the phone is locked and JS timers are suspended.
+   * Replaces any previously scheduled transitions.
+   */
+  async scheduleSessionTransitions(transitions: SessionTransition[]): Promise<void> {
+    if (!Notifications) return;
+    return this.queueSessionAlerts((generation) => this.applySessionTransitions(transitions, generation));
+  }
+
+  private async applySessionTransitions(transitions: SessionTransition[], generation: number): Promise<void> {
+    await this.cancelScheduledTransitions();
+
+    try {
+      if (!(await this.areNotificationsEnabled())) return;
+      await this.setupSessionNotifications();
+
+      const now = Date.now();
+      const upcoming = transitions
+        .filter((t) => t.at.getTime() > now)
+        .slice(0, MAX_SCHEDULED_TRANSITIONS);
+
+      for (const [index, transition] of upcoming.entries()) {
+        // Cleared while scheduling (app foregrounded, workout ended) — stop here
+        if (generation !== this.sessionAlertGeneration) return;
+
+        const identifier = `${SESSION_TRANSITION_PREFIX}${index}`;
+        const isComplete = transition.phase === 'complete';
+
+        await Notifications.scheduleNotificationAsync({
+          identifier,
+          content: {
+            title: isComplete
+              ? SESSION_PHASE_LABELS.complete
+              : `${SESSION_PHASE_LABELS[transition.phase]} · ${transition.exerciseName}`,
+            body: isComplete
+              ? 'Open FitNEase to finish and save your session.'
+              : `Set ${transition.setNumber}/${transition.totalSets} · ${transition.duration}s`,
+            data: { type: 'workout_session' },
+            sound: true,
+          },
+          trigger: {
+            type: 'date',
+            date: transition.at,
+          },
+        });
+        this.scheduledTransitionIds.push(identifier);
+      }
+
+      console.log(`[NOTIFICATIONS] Scheduled ${upcoming.length} session phase transitions`);
+    } catch (error) {
+      console.error('[NOTIFICATIONS] Error scheduling session transitions:', error);
+    }
+  }
+
+  /**
+   * Cancel pending phase-transition alerts (session paused or back in the foreground)
+   */
+  async cancelSessionTransitions(): Promise<void> {
+    if (!Notifications) return;
+    return this.queueSessionAlerts(() => this.cancelScheduledTransitions());
+  }
+
+  private async cancelScheduledTransitions(): Promise<void> {
+    if (this.scheduledTransitionIds.length === 0) return;
+
+    const ids = this.scheduledTransitionIds;
+    this.scheduledTransitionIds = [];
+
+    await Promise.all(
+      ids.map((id) => Notifications.cancelScheduledNotificationAsync(id).catch(() => {}))
+    );
+  }
+
+  /**
+   * Remove the ongoing notification and all pending transition alerts
+   */
+  async clearSessionNotifications(): Promise<void> {
+    if (!Notifications) return;
+
+    this.sessionAlertGeneration++;
+    return this.queueSessionAlerts(async () => {
+      await this.cancelScheduledTransitions();
+
+      try {
+        await Notifications.dismissNotificationAsync(SESSION_NOTIFICATION_ID);
+      } catch (error) {
+        // Nothing to dismiss
+      }
+    });
+  }
+
+  /**
+   * Listen for the pause/resume buttons on the ongoing session notification.
+   * Returns an unsubscribe function.
+   */
+  addSessionActionListener(listener: (action: SessionNotificationAction) => void): () => void {
+    if (!Notifications) return () => {};
+
+    const subscription = Notifications.addNotificationResponseReceivedListener((response: any) => {
+      const action = response?.actionIdentifier;
+      if (action === 'pause' || action === 'resume') {
+        listener(action);
+      }
+    });
+
+    return () => subscription.remove();
+  }
+
   /**
    * Get all scheduled notifications (for debugging)
    */
@@ -246,4 +847,18 @@ class WorkoutNotificationScheduler {
 }
 
 export const workoutNotificationScheduler = new WorkoutNotificationScheduler();
+
+// Regenerated or adapted plans move workouts between days — follow them
+planningService.subscribeToWeeklyPlanChanges(() => {
+  workoutNotificationScheduler.refreshSmartReminders().catch((error) => {
+    console.warn('[NOTIFICATIONS] Failed to reschedule reminders after plan change:', error);
+  });
+});
+
+AppState.addEventListener('change', (state) => {
+  if (state !== 'active') return;
+  workoutNotificationScheduler.refreshSmartRemindersOnForeground().catch((error) => {
+    console.warn('[NOTIFICATIONS] Failed to reschedule reminders on foreground:', error);
+  });
+});
 export default workoutNotificationScheduler;
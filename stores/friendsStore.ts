@@ -0,0 +1,106 @@
+import { create } from 'zustand';
+import { socialService, Friend, FriendRequest } from '../services/microservices/socialService';
+
+export type FriendRelationship = 'self' | 'friend' | 'outgoing' | 'incoming' | 'none';
+
+const FRIENDS_PAGE_SIZE = 100;
+
+interface FriendsState {
+  friends: Friend[];
+  incomingRequests: FriendRequest[];
+  outgoingRequests: FriendRequest[];
+  isLoading: boolean;
+  // Set after the first successful load so screens can skip redundant fetches
+  hasLoaded: boolean;
+
+  // Actions
+  loadAll: () => Promise<void>;
+  sendRequest: (userId: string, message?: string) => Promise<void>;
+  respondToRequest: (requestId: string, action: 'accept' | 'decline') => Promise<void>;
+  removeFriend: (userId: string) => Promise<void>;
+  getRelationship: (userId: string | number, currentUserId?: string | number) => FriendRelationship;
+  reset: () => void;
+}
+
+export const useFriendsStore = create<FriendsState>((set, get) => ({
+  friends: [],
+  incomingRequests: [],
+  outgoingRequests: [],
+  isLoading: false,
+  hasLoaded: false,
+
+  loadAll: async () => {
+    set({ isLoading: true });
+    try {
+      const [friendsResponse, incoming, outgoing] = await Promise.all([
+        socialService.getFriends(1, FRIENDS_PAGE_SIZE),
+        socialService.getFriendRequests('received'),
+        socialService.getFriendRequests('sent'),
+      ]);
+
+      set({
+        friends: friendsResponse.friends || [],
+        incomingRequests: (incoming || []).filter((r) => r.status === 'pending'),
+        outgoingRequests: (outgoing || []).filter((r) => r.status === 'pending'),
+        hasLoaded: true,
+      });
+      console.log('👥 [FRIENDS STORE] Loaded:', {
+        friends: friendsResponse.friends?.length || 0,
+        incoming: incoming?.length || 0,
+        outgoing: outgoing?.length || 0,
+      });
+    } catch (error) {
+      console.error('❌ [FRIENDS STORE] Failed to load friends:', error);
+      throw error;
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  sendRequest: async (userId, message) => {
+    await socialService.sendFriendRequest({ userId, message });
+    console.log('📤 [FRIENDS STORE] Friend request sent to:', userId);
+
+    // The API only returns a message, so refetch sent requests to get the new id
+    const outgoing = await socialService.getFriendRequests('sent');
+    set({ outgoingRequests: (outgoing || []).filter((r) => r.status === 'pending') });
+  },
+
+  respondToRequest: async (requestId, action) => {
+    await socialService.respondToFriendRequest(requestId, action);
+    console.log(`✅ [FRIENDS STORE] Friend request ${action}ed:`, requestId);
+
+    set((state) => ({
+      incomingRequests: state.incomingRequests.filter((r) => r.id !== requestId),
+    }));
+
+    if (action === 'accept') {
+      const friendsResponse = await socialService.getFriends(1, FRIENDS_PAGE_SIZE);
+      set({ friends: friendsResponse.friends || [] });
+    }
+  },
+
+  removeFriend: async (userId) => {
+    await socialService.removeFriend(userId);
+    console.log('🗑️ [FRIENDS STORE] Friend removed:', userId);
+
+    set((state) => ({
+      friends: state.friends.filter((f) => String(f.userId) !== String(userId)),
+    }));
+  },
+
+  getRelationship: (userId, currentUserId) => {
+    const id = String(userId);
+    if (currentUserId !== undefined && String(currentUserId) === id) return 'self';
+
+    const { friends, incomingRequests, outgoingRequests } = get();
+    if (friends.some((f) => String(f.userId) === id)) return 'friend';
+    if (outgoingRequests.some((r) => String(r.toUserId) === id)) return 'outgoing';
+    if (incomingRequests.some((r) => String(r.fromUserId) === id)) return 'incoming';
+    return 'none';
+  },
+
+  reset: () => {
+    set({ friends: [], incomingRequests: [], outgoingRequests: [], isLoading: false, hasLoaded: false });
+  },
+}));
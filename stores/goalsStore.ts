@@ -0,0 +1,133 @@
+import { create } from 'zustand';
+import {
+  trackingService,
+  Goal,
+  CreateGoalRequest,
+  UpdateGoalRequest,
+} from '../services/microservices/trackingService';
+import { computeGoalCurrentValue, GoalDataPoint, GoalSources, isTrackedGoalType } from '../utils/goalProjection';
+
+const GOALS_PAGE_SIZE = 50;
+const WEIGHT_HISTORY_SIZE = 100;
+
+interface GoalsState {
+  goals: Goal[];
+  // Logged weights, oldest first — feeds weight-goal projections
+  weightHistory: GoalDataPoint[];
+  isLoading: boolean;
+  isSyncing: boolean;
+  hasLoaded: boolean;
+
+  // Actions
+  loadGoals: () => Promise<void>;
+  createGoal: (request: CreateGoalRequest) => Promise<Goal>;
+  updateGoal: (goalId: string, updates: UpdateGoalRequest) => Promise<void>;
+  deleteGoal: (goalId: string) => Promise<void>;
+  syncProgress: (userId: string, workoutHistory?: GoalSources['workoutHistory']) => Promise<void>;
+  reset: () => void;
+}
+
+const replaceGoal = (goals: Goal[], updated: Goal) => goals.map((g) => (g.id === updated.id ? updated : g));
+
+export const useGoalsStore = create<GoalsState>((set, get) => ({
+  goals: [],
+  weightHistory: [],
+  isLoading: false,
+  isSyncing: false,
+  hasLoaded: false,
+
+  loadGoals: async () => {
+    set({ isLoading: true });
+    try {
+      const response = await trackingService.getGoals({ limit: GOALS_PAGE_SIZE });
+      set({ goals: response.goals || [], hasLoaded: true });
+      console.log('🎯 [GOALS STORE] Loaded goals:', response.goals?.length || 0);
+    } catch (error) {
+      console.error('❌ [GOALS STORE] Failed to load goals:', error);
+      throw error;
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  createGoal: async (request) => {
+    const goal = await trackingService.createGoal(request);
+    console.log('🎯 [GOALS STORE] Goal created:', goal.id);
+
+    set((state) => ({ goals: [goal, ...state.goals] }));
+    return goal;
+  },
+
+  updateGoal: async (goalId, updates) => {
+    const goal = await trackingService.updateGoal(goalId, updates);
+    console.log('✏️ [GOALS STORE] Goal updated:', goalId);
+
+    set((state) => ({ goals: replaceGoal(state.goals, goal) }));
+  },
+
+  deleteGoal: async (goalId) => {
+    await trackingService.deleteGoal(goalId);
+    console.log('🗑️ [GOALS STORE] Goal deleted:', goalId);
+
+    set((state) => ({ goals: state.goals.filter((g) => g.id !== goalId) }));
+  },
+
+  // Recompute tracked goals from completed sessions and logged weight, and push
+  // any changed values to the server. Called after workouts and BMI logging.
+  syncProgress: async (userId, workoutHistory) => {
+    if (get().isSyncing) return;
+    set({ isSyncing: true });
+
+    try {
+      if (!get().hasLoaded) {
+        await get().loadGoals();
+      }
+
+      const trackedGoals = get().goals.filter((g) => g.isActive && isTrackedGoalType(g.type));
+      if (trackedGoals.length === 0) return;
+
+      const needsWorkouts = trackedGoals.some((g) => g.type !== 'weight-loss');
+      const needsWeight = trackedGoals.some((g) => g.type === 'weight-loss');
+
+      const [history, bmiHistory] = await Promise.all([
+        workoutHistory || !needsWorkouts
+          ? Promise.resolve(workoutHistory || [])
+          : trackingService.getWorkoutHistory(userId).catch(() => []),
+        needsWeight
+          ? trackingService.getBMIHistory(1, WEIGHT_HISTORY_SIZE).catch(() => null)
+          : Promise.resolve(null),
+      ]);
+
+      const weightHistory: GoalDataPoint[] = (bmiHistory?.entries || [])
+        .map((entry) => ({ date: entry.date || entry.createdAt, value: entry.weight }))
+        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+      if (bmiHistory) set({ weightHistory });
+
+      const sources: GoalSources = {
+        workoutHistory: history,
+        weight: weightHistory.length > 0 ? weightHistory[weightHistory.length - 1].value : null,
+      };
+
+      for (const goal of trackedGoals) {
+        const value = computeGoalCurrentValue(goal, sources);
+        if (value === null || value === goal.currentValue) continue;
+
+        try {
+          const updated = await trackingService.updateGoalProgress(goal.id, value);
+          set((state) => ({ goals: replaceGoal(state.goals, { ...goal, ...updated, currentValue: value }) }));
+          console.log('🎯 [GOALS STORE] Progress updated:', { goalId: goal.id, from: goal.currentValue, to: value });
+        } catch (error) {
+          console.warn('⚠️ [GOALS STORE] Failed to update goal progress:', goal.id, error);
+        }
+      }
+    } catch (error) {
+      console.error('❌ [GOALS STORE] Failed to sync goal progress:', error);
+    } finally {
+      set({ isSyncing: false });
+    }
+  },
+
+  reset: () => {
+    set({ goals: [], weightHistory: [], isLoading: false, isSyncing: false, hasLoaded: false });
+  },
+}));
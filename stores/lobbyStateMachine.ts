@@ -0,0 +1,79 @@
+import type { LobbyState } from './lobbyStore';
+
+/**
+ * Lobby lifecycle as seen by this client.
+ *
+ *   idle → joining → waiting ⇄ ready_check → voting → starting → in_progress → completed
+ *
+ * Snapshots (API responses, polling, LobbyStateChanged) and realtime events both
+ * drive the phase, but only along the edges below. Anything else is a race
+ * (e.g. a LobbyStateChanged for a lobby we already left, or a stale snapshot
+ * arriving after the workout started) and is rejected.
+ */
+export type LobbyPhase =
+  | 'idle'
+  | 'joining'
+  | 'waiting'
+  | 'ready_check'
+  | 'voting'
+  | 'starting'
+  | 'in_progress'
+  | 'completed';
+
+const LOBBY_TRANSITIONS: Record<LobbyPhase, LobbyPhase[]> = {
+  idle: ['joining'],
+  joining: ['waiting', 'ready_check', 'voting', 'starting', 'in_progress', 'idle'],
+  waiting: ['ready_check', 'voting', 'starting', 'in_progress', 'joining', 'idle'],
+  ready_check: ['waiting', 'voting', 'starting', 'in_progress', 'joining', 'idle'],
+  voting: ['waiting', 'starting', 'in_progress', 'joining', 'idle'],
+  // A start that fails on the server drops the lobby back to waiting
+  starting: ['in_progress', 'waiting', 'joining', 'idle'],
+  in_progress: ['completed', 'joining', 'idle'],
+  completed: ['joining', 'idle'],
+};
+
+export type LobbyTransitionSource =
+  | 'join'
+  | 'snapshot'
+  | 'ready_check'
+  | 'voting'
+  | 'workout'
+  | 'leave';
+
+/**
+ * Whether the lobby may move from one phase to another. Staying put is always allowed.
+ */
+export function canTransitionLobby(from: LobbyPhase, to: LobbyPhase): boolean {
+  return from === to || LOBBY_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Phase implied by a full lobby snapshot. The server tracks voting and the
+ * workout itself, but not the ready check — a 'waiting' snapshot taken during
+ * a ready check keeps the lobby in ready_check.
+ */
+export function phaseFromSnapshot(
+  lobbyState: LobbyState & { active_voting?: unknown },
+  current: LobbyPhase
+): LobbyPhase {
+  switch (lobbyState.status) {
+    case 'completed':
+      return 'completed';
+    case 'in_progress':
+      return 'in_progress';
+    case 'starting':
+      return 'starting';
+    default:
+      if (lobbyState.active_voting) return 'voting';
+      return current === 'ready_check' ? 'ready_check' : 'waiting';
+  }
+}
+
+export function logRejectedLobbyTransition(
+  from: LobbyPhase,
+  to: LobbyPhase,
+  source: LobbyTransitionSource,
+  details: Record<string, unknown> = {}
+): void {
+  console.warn(`🚫 [LOBBY MACHINE] Illegal transition ${from} → ${to} (${source}) rejected`, details);
+}
@@ -1,4 +1,14 @@
 import { create } from 'zustand';
+import { realtimeEventBus } from '../services/realtimeEventBus';
+import {
+  LobbyPhase,
+  LobbyTransitionSource,
+  canTransitionLobby,
+  logRejectedLobbyTransition,
+  phaseFromSnapshot,
+} from './lobbyStateMachine';
+
+export type { LobbyPhase } from './lobbyStateMachine';
 
 export interface LobbyMember {
   user_id: number;
@@ -31,11 +41,15 @@ export interface LobbyState {
   created_at: number;
   expires_at: number;
   is_expired: boolean;
+  version?: number; // Event-sourced version from the V2 lobby API (absent on local copies)
 }
 
 interface LobbyStore {
   // State
   currentLobby: LobbyState | null;
+  phase: LobbyPhase;
+  version: number; // Highest snapshot version applied for currentLobby
+  joiningSessionId: string | null; // Lobby being entered while phase is 'joining'
   chatMessages: ChatMessage[];
   unreadMessageCount: number;
   isChatOpen: boolean;
@@ -45,6 +59,8 @@ interface LobbyStore {
   leftAt: number | null; // Timestamp when we left (for cleanup)
 
   // Actions
+  beginJoin: (sessionId: string) => void;
+  transitionPhase: (to: LobbyPhase, source: LobbyTransitionSource) => boolean;
   setLobbyState: (lobbyState: LobbyState) => void;
   updateMemberStatus: (userId: number, status: 'waiting' | 'ready') => void;
   addMember: (member: LobbyMember) => void;
@@ -62,6 +78,9 @@ interface LobbyStore {
 
 export const useLobbyStore = create<LobbyStore>((set, get) => ({
   currentLobby: null,
+  phase: 'idle',
+  version: 0,
+  joiningSessionId: null,
   chatMessages: [],
   unreadMessageCount: 0,
   isChatOpen: false,
@@ -71,10 +90,50 @@ export const useLobbyStore = create<LobbyStore>((set, get) => ({
   leftAt: null,
 
   /**
-   * Set complete lobby state (from API or WebSocket)
+   * Start entering a lobby (create, join, accept invite or restore).
+   * Snapshots are only accepted once the lobby is being joined — a snapshot
+   * arriving while idle is a stale event for a lobby we are no longer in.
+   */
+  beginJoin: (sessionId: string) => {
+    const { currentLobby, phase } = get();
+    if (currentLobby?.session_id === sessionId && phase !== 'idle') {
+      return; // Already in this lobby (e.g. returning from minimized)
+    }
+
+    set({
+      phase: 'joining',
+      version: currentLobby?.session_id === sessionId ? get().version : 0,
+      joiningSessionId: sessionId,
+      leftSessionId: null,
+      leftAt: null,
+    });
+    console.log('🚪 [LOBBY MACHINE] Joining lobby:', sessionId);
+  },
+
+  /**
+   * Move the lobby to another phase, if the state machine allows it.
+   * Returns false (and logs) for illegal transitions.
+   */
+  transitionPhase: (to: LobbyPhase, source: LobbyTransitionSource) => {
+    const { phase, currentLobby } = get();
+    if (phase === to) return true;
+
+    if (!canTransitionLobby(phase, to)) {
+      logRejectedLobbyTransition(phase, to, source, { session_id: currentLobby?.session_id });
+      return false;
+    }
+
+    set({ phase: to, lastUpdated: Date.now() });
+    console.log(`🔀 [LOBBY MACHINE] ${phase} → ${to} (${source})`);
+    return true;
+  },
+
+  /**
+   * Apply a full lobby snapshot (from API, polling or WebSocket)
    * IMPORTANT: Updates lastUpdated timestamp to force re-renders on Android
    * Also clears leftSessionId when entering a new lobby
-   * CRITICAL: Rejects invalid lobbies (completed status, 0 members) to prevent ghost indicators
+   * CRITICAL: Rejects invalid lobbies (completed status, 0 members) to prevent ghost indicators,
+   * snapshots older than the last applied version, and snapshots the state machine does not allow
    */
   setLobbyState: (lobbyState: LobbyState) => {
     // CRITICAL: Validate lobby state before setting
@@ -100,8 +159,64 @@ export const useLobbyStore = create<LobbyStore>((set, get) => ({
       return;
     }
 
+    // Versioned reconciliation: an older snapshot (slow poll, late HTTP response)
+    // must not overwrite newer state. Local copies without a version always apply.
+    const isSameLobby = currentState.currentLobby?.session_id === lobbyState.session_id;
+    if (isSameLobby && typeof lobbyState.version === 'number' && lobbyState.version < currentState.version) {
+      console.log('⚠️ [LOBBY STORE] Rejecting stale snapshot:', {
+        session_id: lobbyState.session_id,
+        version: lobbyState.version,
+        applied_version: currentState.version,
+      });
+      return;
+    }
+
+    // Idle only opens up through beginJoin; a snapshot now is a late event for a lobby we are
+    // no longer in, or a caller that skipped beginJoin — say which lobby so either shows up
+    if (currentState.phase === 'idle') {
+      console.warn('⚠️ [LOBBY STORE] Rejecting snapshot while idle (beginJoin was not called):', {
+        session_id: lobbyState.session_id,
+        status: lobbyState.status,
+        version: lobbyState.version,
+      });
+      return;
+    }
+
+    // While joining, only the lobby being joined may land (not a late event from the previous one)
+    if (currentState.phase === 'joining' && currentState.joiningSessionId !== lobbyState.session_id) {
+      console.log('⚠️ [LOBBY STORE] Rejecting snapshot for another lobby while joining:', {
+        session_id: lobbyState.session_id,
+        joining_session_id: currentState.joiningSessionId,
+      });
+      return;
+    }
+
+    // A different lobby may only replace the current one through beginJoin
+    if (currentState.currentLobby && !isSameLobby && currentState.phase !== 'joining') {
+      logRejectedLobbyTransition(currentState.phase, 'waiting', 'snapshot', {
+        session_id: lobbyState.session_id,
+        current_session_id: currentState.currentLobby.session_id,
+      });
+      return;
+    }
+
+    const nextPhase = phaseFromSnapshot(lobbyState, currentState.phase);
+    if (!canTransitionLobby(currentState.phase, nextPhase)) {
+      logRejectedLobbyTransition(currentState.phase, nextPhase, 'snapshot', {
+        session_id: lobbyState.session_id,
+        status: lobbyState.status,
+        version: lobbyState.version,
+      });
+      return;
+    }
+
     set({
       currentLobby: lobbyState,
+      phase: nextPhase,
+      joiningSessionId: null,
+      version: typeof lobbyState.version === 'number'
+        ? Math.max(lobbyState.version, isSameLobby ? currentState.version : 0)
+        : (isSameLobby ? currentState.version : 0),
       lastUpdated: Date.now(), // Force re-render by updating timestamp
       // Clear leftSessionId only when entering a DIFFERENT lobby (prevents blocking future joins)
       leftSessionId: null,
@@ -109,6 +224,8 @@ export const useLobbyStore = create<LobbyStore>((set, get) => ({
     });
     console.log('📊 [LOBBY STORE] Lobby state updated:', {
       session_id: lobbyState.session_id,
+      phase: nextPhase,
+      version: lobbyState.version,
       status: lobbyState.status,
       member_count: lobbyState.member_count,
       members_count_actual: lobbyState.members?.length || 0,
@@ -285,6 +402,9 @@ export const useLobbyStore = create<LobbyStore>((set, get) => ({
     const currentSessionId = sessionId || get().currentLobby?.session_id;
     set({
       currentLobby: null,
+      phase: 'idle',
+      version: 0,
+      joiningSessionId: null,
       chatMessages: [],
       unreadMessageCount: 0,
       isChatOpen: false,
@@ -326,6 +446,8 @@ const EMPTY_ARRAY: LobbyMember[] = [];
  */
 export const selectCurrentLobby = (state: LobbyStore) => state.currentLobby;
 
+export const selectLobbyPhase = (state: LobbyStore) => state.phase;
+
 export const selectLobbyMembers = (state: LobbyStore) =>
   state.currentLobby?.members ?? EMPTY_ARRAY;
 
@@ -350,3 +472,47 @@ export const selectUnreadMessageCount = (state: LobbyStore) => state.unreadMessa
 export const selectLeftSessionId = (state: LobbyStore) => state.leftSessionId;
 
 export const selectLeftAt = (state: LobbyStore) => state.leftAt;
+
+/**
+ * Drive the lobby phase from realtime events on the current lobby's channels.
+ * Snapshots carried by these events are still applied by the lobby screen.
+ */
+const isCurrentLobbyChannel = (channel: string) => {
+  const sessionId = useLobbyStore.getState().currentLobby?.session_id;
+  return !!sessionId && (channel === `private-lobby.${sessionId}` || channel === `private-session.${sessionId}`);
+};
+
+realtimeEventBus.subscribe('ReadyCheckStarted', (event) => {
+  if (!isCurrentLobbyChannel(event.channel)) return;
+  useLobbyStore.getState().transitionPhase('ready_check', 'ready_check');
+});
+
+realtimeEventBus.subscribe(['ReadyCheckComplete', 'ReadyCheckCancelled'], (event) => {
+  if (!isCurrentLobbyChannel(event.channel)) return;
+  // A successful check is followed by exercise generation and VotingStarted
+  if (useLobbyStore.getState().phase === 'ready_check') {
+    useLobbyStore.getState().transitionPhase('waiting', 'ready_check');
+  }
+});
+
+realtimeEventBus.subscribe('VotingStarted', (event) => {
+  if (!isCurrentLobbyChannel(event.channel)) return;
+  useLobbyStore.getState().transitionPhase('voting', 'voting');
+});
+
+realtimeEventBus.subscribe('VotingComplete', (event) => {
+  if (!isCurrentLobbyChannel(event.channel)) return;
+  if (useLobbyStore.getState().phase === 'voting') {
+    useLobbyStore.getState().transitionPhase('waiting', 'voting');
+  }
+});
+
+realtimeEventBus.subscribe('WorkoutStarted', (event) => {
+  if (!isCurrentLobbyChannel(event.channel)) return;
+  useLobbyStore.getState().transitionPhase('in_progress', 'workout');
+});
+
+realtimeEventBus.subscribe(['WorkoutCompleted', 'WorkoutStopped'], (event) => {
+  if (!isCurrentLobbyChannel(event.channel)) return;
+  useLobbyStore.getState().transitionPhase('completed', 'workout');
+});
@@ -0,0 +1,314 @@
+import { create } from 'zustand';
+import {
+  commsService,
+  DirectMessage,
+  MessageAttachment,
+  MessageThread,
+} from '../services/microservices/commsService';
+import { offlineOutbox, createIdempotencyKey, OutboxEntry } from '../services/offlineOutbox';
+import { realtimeEventBus } from '../services/realtimeEventBus';
+import { MESSAGES_PAGE_SIZE } from '../constants/messages';
+
+export interface Conversation {
+  messages: DirectMessage[]; // Newest first, as the API pages them
+  hasMore: boolean;
+  isLoaded: boolean;
+}
+
+// A message the server hasn't confirmed yet
+export interface PendingMessage {
+  client_message_id: string;
+  recipient_id: number;
+  body: string;
+  attachment?: MessageAttachment | null;
+  created_at: string;
+  status: 'sending' | 'queued' | 'failed';
+}
+
+interface MessagesState {
+  threads: MessageThread[];
+  unreadTotal: number;
+  conversations: Record<number, Conversation>;
+  pending: PendingMessage[];
+  // Incoming messages for the open thread are marked read instead of counted
+  activeThreadUserId: number | null;
+  isLoadingThreads: boolean;
+
+  // Actions
+  loadThreads: () => Promise<void>;
+  refreshUnreadCount: () => Promise<void>;
+  loadConversation: (otherUserId: number) => Promise<void>;
+  loadOlder: (otherUserId: number) => Promise<void>;
+  sendMessage: (otherUserId: number, body: string, attachment?: MessageAttachment | null) => Promise<void>;
+  retryMessage: (clientMessageId: string) => Promise<void>;
+  discardMessage: (clientMessageId: string) => void;
+  openThread: (otherUserId: number) => void;
+  closeThread: () => void;
+  receiveMessage: (message: DirectMessage, unreadTotal?: number) => void;
+  syncQueued: (entries: OutboxEntry[], accountChanged?: boolean) => void;
+  reset: () => void;
+}
+
+const emptyConversation: Conversation = { messages: [], hasMore: true, isLoaded: false };
+
+// Prepend newer messages, skipping any already in the list
+const mergeNewest = (existing: DirectMessage[], incoming: DirectMessage[]): DirectMessage[] => {
+  const seen = new Set(existing.map((m) => m.message_id));
+  return [...incoming.filter((m) => !seen.has(m.message_id)), ...existing];
+};
+
+export const useMessagesStore = create<MessagesState>((set, get) => ({
+  threads: [],
+  unreadTotal: 0,
+  conversations: {},
+  pending: [],
+  activeThreadUserId: null,
+  isLoadingThreads: false,
+
+  loadThreads: async () => {
+    set({ isLoadingThreads: true });
+    try {
+      const threads = await commsService.getMessageThreads();
+      set({
+        threads,
+        unreadTotal: threads.reduce((sum, t) => sum + (t.unread_count || 0), 0),
+      });
+      console.log('💬 [MESSAGES STORE] Loaded threads:', threads.length);
+    } finally {
+      set({ isLoadingThreads: false });
+    }
+  },
+
+  refreshUnreadCount: async () => {
+    const unreadTotal = await commsService.getUnreadMessageCount();
+    set({ unreadTotal });
+  },
+
+  loadConversation: async (otherUserId) => {
+    const { messages, has_more } = await commsService.getDirectMessages(otherUserId, { limit: MESSAGES_PAGE_SIZE });
+
+    set((state) => {
+      const current = state.conversations[otherUserId];
+      // Keep older pages already loaded; the first page only refreshes the newest messages
+      const merged = current?.isLoaded ? mergeNewest(current.messages, messages) : messages;
+      return {
+        conversations: {
+          ...state.conversations,
+          [otherUserId]: { messages: merged, hasMore: current?.isLoaded ? current.hasMore : has_more, isLoaded: true },
+        },
+      };
+    });
+  },
+
+  loadOlder: async (otherUserId) => {
+    const current = get().conversations[otherUserId];
+    if (!current?.isLoaded || !current.hasMore) return;
+
+    const oldest = current.messages[current.messages.length - 1];
+    const { messages, has_more } = await commsService.getDirectMessages(otherUserId, {
+      before: oldest?.message_id,
+      limit: MESSAGES_PAGE_SIZE,
+    });
+
+    set((state) => {
+      const conversation = state.conversations[otherUserId] || emptyConversation;
+      const seen = new Set(conversation.messages.map((m) => m.message_id));
+      return {
+        conversations: {
+          ...state.conversations,
+          [otherUserId]: {
+            messages: [...conversation.messages, ...messages.filter((m) => !seen.has(m.message_id))],
+            hasMore: has_more && messages.length > 0,
+            isLoaded: true,
+          },
+        },
+      };
+    });
+  },
+
+  sendMessage: async (otherUserId, body, attachment) => {
+    const pendingMessage: PendingMessage = {
+      client_message_id: createIdempotencyKey('direct_message'),
+      recipient_id: otherUserId,
+      body,
+      attachment: attachment || null,
+      created_at: new Date().toISOString(),
+      status: 'sending',
+    };
+    set((state) => ({ pending: [...state.pending, pendingMessage] }));
+    await deliver(pendingMessage);
+  },
+
+  retryMessage: async (clientMessageId) => {
+    const pendingMessage = get().pending.find((p) => p.client_message_id === clientMessageId);
+    if (!pendingMessage || pendingMessage.status !== 'failed') return;
+    await deliver(pendingMessage);
+  },
+
+  discardMessage: (clientMessageId) => {
+    set((state) => ({ pending: state.pending.filter((p) => p.client_message_id !== clientMessageId) }));
+  },
+
+  openThread: (otherUserId) => {
+    const thread = get().threads.find((t) => t.user_id === otherUserId);
+    set((state) => ({
+      activeThreadUserId: otherUserId,
+      unreadTotal: Math.max(state.unreadTotal - (thread?.unread_count || 0), 0),
+      threads: state.threads.map((t) => (t.user_id === otherUserId ? { ...t, unread_count: 0 } : t)),
+    }));
+    commsService.markThreadAsRead(otherUserId);
+  },
+
+  closeThread: () => {
+    set({ activeThreadUserId: null });
+  },
+
+  receiveMessage: (message, unreadTotal) => {
+    const senderId = Number(message.sender_id);
+    const isOpen = get().activeThreadUserId === senderId;
+    const knownThread = get().threads.some((t) => t.user_id === senderId);
+
+    set((state) => {
+      const conversation = state.conversations[senderId];
+      return {
+        conversations: conversation?.isLoaded
+          ? { ...state.conversations, [senderId]: { ...conversation, messages: mergeNewest(conversation.messages, [message]) } }
+          : state.conversations,
+        threads: state.threads
+          .map((t) =>
+            t.user_id === senderId
+              ? { ...t, last_message: message, unread_count: isOpen ? 0 : t.unread_count + 1 }
+              : t
+          )
+          .sort((a, b) => (b.last_message?.created_at || '').localeCompare(a.last_message?.created_at || '')),
+        unreadTotal: isOpen ? state.unreadTotal : unreadTotal ?? state.unreadTotal + 1,
+      };
+    });
+
+    if (isOpen) {
+      commsService.markThreadAsRead(senderId);
+    }
+    if (!knownThread) {
+      // First message from this person — fetch the thread for their name and avatar
+      get().loadThreads().catch(() => {});
+    }
+  },
+
+  syncQueued: (entries, accountChanged = false) => {
+    const queued = entries.filter((e) => e.kind === 'direct_message');
+    const queuedIds = new Set(queued.map((e) => e.id));
+    const { conversations } = get();
+
+    // The outbox switched accounts: queued messages belong to the new user only,
+    // and the old user's leaving the outbox doesn't mean they were delivered
+    const pending = accountChanged
+      ? get().pending.filter((p) => p.status !== 'queued')
+      : get().pending;
+
+    // Queued messages that left the outbox were delivered on replay
+    const delivered = pending.filter((p) => p.status === 'queued' && !queuedIds.has(p.client_message_id));
+    const knownIds = new Set(pending.map((p) => p.client_message_id));
+
+    // Messages queued before an app restart
+    const restored: PendingMessage[] = queued
+      .filter((e) => !knownIds.has(e.id))
+      .map((e) => ({
+        client_message_id: e.id,
+        recipient_id: Number(e.payload.recipient_id),
+        body: e.payload.body,
+        attachment: e.payload.attachment || null,
+        created_at: e.createdAt,
+        status: 'queued',
+      }));
+
+    if (!accountChanged && delivered.length === 0 && restored.length === 0) return;
+
+    set({
+      pending: [
+        ...pending.filter((p) => !delivered.includes(p)),
+        ...restored,
+      ],
+    });
+
+    const recipients = new Set(delivered.map((p) => p.recipient_id));
+    recipients.forEach((recipientId) => {
+      if (conversations[recipientId]?.isLoaded) {
+        get().loadConversation(recipientId).catch(() => {});
+      }
+    });
+  },
+
+  reset: () => {
+    set({
+      threads: [],
+      unreadTotal: 0,
+      conversations: {},
+      pending: [],
+      activeThreadUserId: null,
+      isLoadingThreads: false,
+    });
+  },
+}));
+
+/**
+ * Send (or resend) a pending message and move it to the conversation once the
+ * server has it. Offline sends stay pending as 'queued' until the outbox replays them.
+ */
+async function deliver(pendingMessage: PendingMessage): Promise<void> {
+  const set = useMessagesStore.setState;
+  const updateStatus = (status: PendingMessage['status']) =>
+    set((state) => ({
+      pending: state.pending.map((p) =>
+        p.client_message_id === pendingMessage.client_message_id ? { ...p, status } : p
+      ),
+    }));
+
+  updateStatus('sending');
+  try {
+    const result = await commsService.sendDirectMessage(
+      {
+        recipient_id: pendingMessage.recipient_id,
+        body: pendingMessage.body,
+        attachment: pendingMessage.attachment,
+      },
+      pendingMessage.client_message_id
+    );
+
+    if (result.queued || !result.message) {
+      console.log('📥 [MESSAGES STORE] Offline — message queued:', pendingMessage.client_message_id);
+      updateStatus('queued');
+      return;
+    }
+
+    const message = result.message;
+    set((state) => {
+      const conversation = state.conversations[pendingMessage.recipient_id] || { ...emptyConversation, isLoaded: true };
+      return {
+        pending: state.pending.filter((p) => p.client_message_id !== pendingMessage.client_message_id),
+        conversations: {
+          ...state.conversations,
+          [pendingMessage.recipient_id]: { ...conversation, messages: mergeNewest(conversation.messages, [message]) },
+        },
+        threads: state.threads.map((t) =>
+          t.user_id === pendingMessage.recipient_id ? { ...t, last_message: message } : t
+        ),
+      };
+    });
+  } catch (error) {
+    console.error('❌ [MESSAGES STORE] Failed to send message:', error);
+    updateStatus('failed');
+  }
+}
+
+realtimeEventBus.subscribe('message.received', (event) => {
+  if (!event.channel.startsWith('private-user.')) return;
+  useMessagesStore.getState().receiveMessage(event.payload.message, event.payload.unread_messages);
+});
+
+// Outbox entries are per user — track whose queue the last snapshot was
+let outboxUserId: string | null = null;
+
+offlineOutbox.subscribe((entries, userId) => {
+  useMessagesStore.getState().syncQueued(entries, userId !== outboxUserId);
+  outboxUserId = userId;
+});
@@ -0,0 +1,61 @@
+/**
+ * Analytics Utility Functions
+ * Formatting and grouping helpers for performance metrics and personal bests
+ */
+
+import type { PersonalBest } from '../services/microservices/trackingService';
+import { NEW_RECORD_DAYS } from '../constants/analytics';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Turn a backend metric key into a label ("max_reps" -> "Max Reps")
+ */
+export const formatMetricLabel = (metric: string): string =>
+  metric
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/[_-]+/g, ' ')
+    .trim()
+    .replace(/\b\w/g, (c) => c.toUpperCase());
+
+/**
+ * Format a record value with its unit, dropping trailing zeros ("42.5 kg", "120 s")
+ */
+export const formatRecordValue = (value: number, unit: string): string => {
+  const rounded = Math.round(value * 10) / 10;
+  return unit ? `${rounded} ${unit}` : String(rounded);
+};
+
+/**
+ * Format minutes as "45 min" or "3h 20m"
+ */
+export const formatDuration = (minutes: number): string => {
+  if (minutes < 60) return `${Math.round(minutes)} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  return rest > 0 ? `${hours}h ${rest}m` : `${hours}h`;
+};
+
+/**
+ * Whether a record was set recently enough to be highlighted
+ */
+export const isRecentRecord = (best: Pick<PersonalBest, 'date'>, now: Date = new Date()): boolean =>
+  now.getTime() - new Date(best.date).getTime() <= NEW_RECORD_DAYS * DAY_MS;
+
+/**
+ * Group personal bests by exercise, most recently improved exercise first
+ * @returns Array of { exercise, bests } with each exercise's records newest first
+ */
+export const groupPersonalBests = (bests: PersonalBest[]): { exercise: string; bests: PersonalBest[] }[] => {
+  const groups = new Map<string, PersonalBest[]>();
+  bests.forEach((best) => {
+    groups.set(best.exercise, [...(groups.get(best.exercise) || []), best]);
+  });
+
+  return Array.from(groups.entries())
+    .map(([exercise, records]) => ({
+      exercise,
+      bests: records.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()),
+    }))
+    .sort((a, b) => new Date(b.bests[0].date).getTime() - new Date(a.bests[0].date).getTime());
+};
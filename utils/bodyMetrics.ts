@@ -0,0 +1,144 @@
+/**
+ * Body Metrics Utility Functions
+ * BMI calculation, category bands and trend smoothing for the body journal
+ */
+
+import type { BMIEntry, ProgressEntry } from '../services/microservices/trackingService';
+import { BMI_CATEGORIES, MOVING_AVERAGE_DAYS, BODY_METRIC_TYPES, BodyMetricType } from '../constants/bodyMetrics';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface MetricPoint {
+  date: string;
+  value: number;
+}
+
+// One row of the body journal, whichever endpoint it came from
+export interface BodyJournalEntry extends MetricPoint {
+  id: string;
+  metric: BodyMetricType;
+  unit: string;
+  bodyPart?: string;
+  notes?: string;
+  height?: number; // Weight entries only
+  bmi?: number; // Weight entries only
+}
+
+export interface WeightBand {
+  label: string;
+  color: string;
+  min: number;
+  max: number;
+}
+
+/**
+ * Calculate BMI from height and weight
+ * @param heightCm - Height in centimetres
+ * @param weightKg - Weight in kilograms
+ * @returns number - BMI rounded to one decimal, or 0 when height is unknown
+ */
+export const calculateBMI = (heightCm: number, weightKg: number): number => {
+  if (!heightCm || heightCm <= 0) return 0;
+  const heightM = heightCm / 100;
+  return Math.round((weightKg / (heightM * heightM)) * 10) / 10;
+};
+
+/**
+ * Find the BMI category band a value falls in
+ */
+export const getBMICategory = (bmi: number) =>
+  BMI_CATEGORIES.find((category) => bmi < category.max) || BMI_CATEGORIES[BMI_CATEGORIES.length - 1];
+
+/**
+ * Convert the BMI category bands into body weights for a given height,
+ * so they can be drawn behind a weight chart
+ * @param heightCm - Height in centimetres
+ * @returns WeightBand[] - Bands in kilograms, lightest first
+ */
+export const getWeightBandsForHeight = (heightCm: number): WeightBand[] => {
+  if (!heightCm || heightCm <= 0) return [];
+  const heightM2 = (heightCm / 100) ** 2;
+
+  return BMI_CATEGORIES.map((category) => ({
+    label: category.label,
+    color: category.color,
+    min: category.min * heightM2,
+    max: category.max * heightM2,
+  }));
+};
+
+/**
+ * Map a BMI log entry to a weight row of the journal
+ */
+export const fromBMIEntry = (entry: BMIEntry): BodyJournalEntry => ({
+  id: entry.id,
+  metric: 'weight',
+  date: entry.date || entry.createdAt,
+  value: entry.weight,
+  unit: BODY_METRIC_TYPES.weight.unit,
+  notes: entry.notes,
+  height: entry.height,
+  bmi: entry.bmi || calculateBMI(entry.height, entry.weight),
+});
+
+/**
+ * Map a body-fat or measurement progress entry to a journal row
+ */
+export const fromProgressEntry = (entry: ProgressEntry): BodyJournalEntry => ({
+  id: entry.id,
+  metric: entry.type === 'body-fat' ? 'body-fat' : 'measurement',
+  date: entry.date,
+  value: entry.value,
+  unit: entry.unit,
+  bodyPart: entry.bodyPart,
+  notes: entry.notes,
+});
+
+/**
+ * Sort points oldest first
+ */
+export const sortPointsByDate = <T extends MetricPoint>(points: T[]): T[] =>
+  [...points].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+/**
+ * Trailing moving average over a time window. Each point averages every entry
+ * logged in the window ending on its date, so irregular logging doesn't skew the line.
+ * @param points - Points in any order
+ * @param windowDays - Window length in days
+ * @returns MetricPoint[] - Smoothed points, oldest first
+ */
+export const movingAverage = (points: MetricPoint[], windowDays: number = MOVING_AVERAGE_DAYS): MetricPoint[] => {
+  const sorted = sortPointsByDate(points);
+  const windowMs = windowDays * DAY_MS;
+
+  return sorted.map((point, index) => {
+    const end = new Date(point.date).getTime();
+    let sum = 0;
+    let count = 0;
+    for (let i = index; i >= 0; i--) {
+      if (end - new Date(sorted[i].date).getTime() >= windowMs) break;
+      sum += sorted[i].value;
+      count++;
+    }
+    return { date: point.date, value: Math.round((sum / count) * 10) / 10 };
+  });
+};
+
+/**
+ * Keep only points from the last `days` days (all points when days is null)
+ */
+export const filterPointsByRange = <T extends MetricPoint>(points: T[], days: number | null, now: Date = new Date()): T[] => {
+  if (days === null) return points;
+  const cutoff = now.getTime() - days * DAY_MS;
+  return points.filter((p) => new Date(p.date).getTime() >= cutoff);
+};
+
+/**
+ * Change from the first to the last point of a series
+ * @returns number | null - Signed change, or null with fewer than two points
+ */
+export const getSeriesChange = (points: MetricPoint[]): number | null => {
+  if (points.length < 2) return null;
+  const sorted = sortPointsByDate(points);
+  return Math.round((sorted[sorted.length - 1].value - sorted[0].value) * 10) / 10;
+};
@@ -0,0 +1,171 @@
+/**
+ * Coaching Plan Utility Functions
+ * Lays a mentor's weekly program over a trainee's completed sessions to build
+ * the planned-vs-completed adherence matrix
+ */
+
+import { addDays, differenceInCalendarDays, format, parseISO, startOfWeek } from 'date-fns';
+import type { WorkoutPlanSchedule } from '../services/microservices/planningService';
+import type { WorkoutSession } from '../services/microservices/trackingService';
+import {
+  AdherenceStatus,
+  DAYS_OF_WEEK,
+  DayOfWeek,
+  MISSED_SESSION_FLAG_THRESHOLD,
+} from '../constants/coachingPlans';
+
+export interface AdherenceCell {
+  date: string; // YYYY-MM-DD
+  day: DayOfWeek;
+  status: AdherenceStatus;
+  workoutType?: WorkoutPlanSchedule['workout_type'];
+}
+
+export interface AdherenceWeek {
+  weekNumber: number; // 1-based within the program
+  weekStart: string;
+  cells: AdherenceCell[];
+}
+
+export interface AdherenceSummary {
+  planned: number;
+  completed: number;
+  missed: number;
+  due: number; // planned sessions already done or whose day has passed
+  adherenceRate: number; // completed / due, 0-100
+  missedStreak: number; // consecutive missed sessions up to the latest due one
+  flagged: boolean;
+}
+
+const toDayKey = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+/**
+ * Monday of the week a program starts in
+ */
+export const getProgramStart = (startDate: string): Date =>
+  startOfWeek(parseISO(startDate), { weekStartsOn: 1 });
+
+/**
+ * 1-based program week for a date, clamped to the program length
+ */
+export const getProgramWeek = (startDate: string, durationWeeks: number, date: Date = new Date()): number => {
+  const week = Math.floor(differenceInCalendarDays(date, getProgramStart(startDate)) / 7) + 1;
+  return Math.min(Math.max(week, 1), Math.max(durationWeeks, 1));
+};
+
+/**
+ * Local calendar days on which the trainee completed at least one session
+ */
+export const getCompletedDates = (sessions: Pick<WorkoutSession, 'status' | 'startTime' | 'createdAt'>[]): Set<string> => {
+  const dates = new Set<string>();
+  sessions.forEach((session) => {
+    if (session.status !== 'completed') return;
+    const timestamp = session.startTime || session.createdAt;
+    if (!timestamp) return;
+    const date = new Date(timestamp);
+    if (!isNaN(date.getTime())) {
+      dates.add(toDayKey(date));
+    }
+  });
+  return dates;
+};
+
+const getCellStatus = (isPlanned: boolean, isCompleted: boolean, daysFromToday: number): AdherenceStatus => {
+  if (isPlanned) {
+    if (isCompleted) return 'completed';
+    if (daysFromToday < 0) return 'missed';
+    return daysFromToday === 0 ? 'today' : 'upcoming';
+  }
+  return isCompleted ? 'extra' : 'rest';
+};
+
+/**
+ * One row per program week, one cell per day, marking each planned day as
+ * completed, missed or still to come
+ */
+export const buildAdherenceWeeks = (
+  schedule: Pick<WorkoutPlanSchedule, 'day_of_week' | 'workout_type' | 'is_rest_day'>[],
+  startDate: string,
+  durationWeeks: number,
+  completedDates: Set<string>,
+  today: Date = new Date()
+): AdherenceWeek[] => {
+  const plannedDays = new Map<DayOfWeek, WorkoutPlanSchedule['workout_type']>();
+  schedule.forEach((entry) => {
+    if (!entry.is_rest_day) {
+      plannedDays.set(entry.day_of_week, entry.workout_type);
+    }
+  });
+
+  const programStart = getProgramStart(startDate);
+  const assignedOn = parseISO(startDate);
+
+  return Array.from({ length: Math.max(durationWeeks, 0) }, (_, weekIndex) => {
+    const weekStart = addDays(programStart, weekIndex * 7);
+    const cells = DAYS_OF_WEEK.map(({ key }, dayIndex) => {
+      const date = addDays(weekStart, dayIndex);
+      const dateKey = toDayKey(date);
+
+      // Days before a mid-week start aren't part of the program
+      if (differenceInCalendarDays(date, assignedOn) < 0) {
+        return { date: dateKey, day: key, status: 'outside' as AdherenceStatus };
+      }
+
+      const workoutType = plannedDays.get(key);
+      return {
+        date: dateKey,
+        day: key,
+        status: getCellStatus(!!workoutType, completedDates.has(dateKey), differenceInCalendarDays(date, today)),
+        workoutType,
+      };
+    });
+
+    return { weekNumber: weekIndex + 1, weekStart: toDayKey(weekStart), cells };
+  });
+};
+
+/**
+ * Totals across the program and whether the trainee should be flagged for
+ * missing consecutive sessions
+ */
+export const summarizeAdherence = (weeks: AdherenceWeek[]): AdherenceSummary => {
+  const plannedCells = weeks
+    .flatMap((week) => week.cells)
+    .filter((cell) => ['completed', 'missed', 'today', 'upcoming'].includes(cell.status));
+
+  const completed = plannedCells.filter((cell) => cell.status === 'completed').length;
+  const missed = plannedCells.filter((cell) => cell.status === 'missed').length;
+  const due = completed + missed;
+
+  let missedStreak = 0;
+  const pastCells = plannedCells.filter((cell) => cell.status === 'completed' || cell.status === 'missed');
+  for (let i = pastCells.length - 1; i >= 0 && pastCells[i].status === 'missed'; i--) {
+    missedStreak++;
+  }
+
+  return {
+    planned: plannedCells.length,
+    completed,
+    missed,
+    due,
+    adherenceRate: due > 0 ? Math.round((completed / due) * 100) : 100,
+    missedStreak,
+    flagged: missedStreak >= MISSED_SESSION_FLAG_THRESHOLD,
+  };
+};
+
+/**
+ * A trainee's cells for one calendar week, or blank cells when the week is
+ * outside their program
+ */
+export const getWeekCells = (weeks: AdherenceWeek[], weekStart: string): AdherenceCell[] => {
+  const week = weeks.find((w) => w.weekStart === weekStart);
+  if (week) return week.cells;
+
+  const start = parseISO(weekStart);
+  return DAYS_OF_WEEK.map(({ key }, dayIndex) => ({
+    date: toDayKey(addDays(start, dayIndex)),
+    day: key,
+    status: 'outside' as AdherenceStatus,
+  }));
+};
@@ -0,0 +1,249 @@
+/**
+ * Data Export Utility Functions
+ * Backup shape, JSON/CSV/TCX serialisation and backup validation for Settings → Data
+ */
+
+import {
+  EXPORT_FORMATS,
+  EXPORT_SCHEMA_VERSION,
+  ExportDataType,
+  ExportFormat,
+} from '../constants/dataExport';
+import { formatDateToISO } from './dateUtils';
+
+export interface ExportedSession {
+  id: string;
+  sessionType: 'individual' | 'group';
+  startTime: string;
+  endTime?: string;
+  durationMinutes: number;
+  caloriesBurned: number;
+  completed: boolean;
+  completionPercentage: number;
+  notes?: string;
+  exercises: { exerciseId: string; name: string; completed: boolean }[];
+}
+
+export interface ExportedRating {
+  sessionId: string;
+  exerciseId: number;
+  rating: number;
+  difficulty?: 'too_easy' | 'appropriate' | 'challenging' | 'too_hard';
+  enjoyment?: number;
+  wouldDoAgain?: boolean;
+  notes?: string;
+  completed?: boolean;
+  completedReps?: number;
+  completedDurationSeconds?: number;
+  ratedAt?: string;
+}
+
+export interface ExportedBMIEntry {
+  date: string;
+  height: number;
+  weight: number;
+  bmi: number;
+  category: string;
+  notes?: string;
+}
+
+export interface ExportedAssessment {
+  type: string;
+  score: number;
+  data: any;
+  date?: string;
+}
+
+export interface ExportedAchievement {
+  name: string;
+  description: string;
+  points: number;
+  completed: boolean;
+  progress: number;
+  earnedAt: string | null;
+}
+
+export interface BackupData {
+  sessions: ExportedSession[];
+  ratings: ExportedRating[];
+  bmi: ExportedBMIEntry[];
+  assessments: ExportedAssessment[];
+  achievements: ExportedAchievement[];
+}
+
+export interface TrainingBackup {
+  app: 'FitNEase';
+  schemaVersion: number;
+  exportedAt: string;
+  user: { id: string; name: string; email: string };
+  data: Partial<BackupData>;
+}
+
+const escapeCSV = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvSection = (title: string, headers: string[], rows: unknown[][]): string =>
+  [`# ${title}`, headers.join(','), ...rows.map((row) => row.map(escapeCSV).join(','))].join('\n');
+
+const escapeXML = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * Serialise a backup as pretty-printed JSON (the only format that can be imported)
+ */
+export const toJSON = (backup: TrainingBackup): string => JSON.stringify(backup, null, 2);
+
+/**
+ * Serialise a backup as CSV, one "# Title" section per data type separated by blank lines
+ */
+export const toCSV = (backup: TrainingBackup): string => {
+  const { sessions, ratings, bmi, assessments, achievements } = backup.data;
+  const sections: string[] = [];
+
+  if (sessions) {
+    sections.push(csvSection(
+      'Workout Sessions',
+      ['session_id', 'type', 'start_time', 'end_time', 'duration_minutes', 'calories_burned', 'completed', 'completion_percentage', 'exercises', 'notes'],
+      sessions.map((s) => [
+        s.id, s.sessionType, s.startTime, s.endTime, s.durationMinutes, s.caloriesBurned, s.completed,
+        s.completionPercentage, s.exercises.map((e) => e.name).join('; '), s.notes,
+      ])
+    ));
+  }
+  if (ratings) {
+    sections.push(csvSection(
+      'Exercise Ratings',
+      ['session_id', 'exercise_id', 'rating', 'difficulty', 'enjoyment', 'would_do_again', 'completed_reps', 'completed_duration_seconds', 'rated_at', 'notes'],
+      ratings.map((r) => [
+        r.sessionId, r.exerciseId, r.rating, r.difficulty, r.enjoyment, r.wouldDoAgain, r.completedReps,
+        r.completedDurationSeconds, r.ratedAt, r.notes,
+      ])
+    ));
+  }
+  if (bmi) {
+    sections.push(csvSection(
+      'BMI History',
+      ['date', 'height_cm', 'weight_kg', 'bmi', 'category', 'notes'],
+      bmi.map((b) => [b.date, b.height, b.weight, b.bmi, b.category, b.notes])
+    ));
+  }
+  if (assessments) {
+    sections.push(csvSection(
+      'Fitness Assessments',
+      ['date', 'type', 'score', 'data'],
+      assessments.map((a) => [a.date, a.type, a.score, a.data])
+    ));
+  }
+  if (achievements) {
+    sections.push(csvSection(
+      'Achievements',
+      ['name', 'description', 'points', 'completed', 'progress_percentage', 'earned_at'],
+      achievements.map((a) => [a.name, a.description, a.points, a.completed, a.progress, a.earnedAt])
+    ));
+  }
+
+  return sections.join('\n\n') + '\n';
+};
+
+/**
+ * Serialise workout sessions as a Training Center XML (TCX) activity file.
+ * Tabata sessions have no GPS track, so each activity is a single lap with
+ * time and calories, and the exercise list goes into the lap notes.
+ */
+export const toTCX = (backup: TrainingBackup): string => {
+  const activities = (backup.data.sessions || [])
+    .filter((s) => s.completed)
+    .map((s) => {
+      const start = new Date(s.startTime).toISOString();
+      const notes = [s.notes, s.exercises.map((e) => e.name).join(', ')].filter(Boolean).join(' — ');
+      return [
+        '    <Activity Sport="Other">',
+        `      <Id>${start}</Id>`,
+        `      <Lap StartTime="${start}">`,
+        `        <TotalTimeSeconds>${Math.round(s.durationMinutes * 60)}</TotalTimeSeconds>`,
+        '        <DistanceMeters>0</DistanceMeters>',
+        `        <Calories>${Math.round(s.caloriesBurned)}</Calories>`,
+        '        <Intensity>Active</Intensity>',
+        '        <TriggerMethod>Manual</TriggerMethod>',
+        notes ? `        <Notes>${escapeXML(notes)}</Notes>` : null,
+        '      </Lap>',
+        '    </Activity>',
+      ].filter((line) => line !== null).join('\n');
+    });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2">',
+    '  <Activities>',
+    ...activities,
+    '  </Activities>',
+    '</TrainingCenterDatabase>',
+    '',
+  ].join('\n');
+};
+
+/**
+ * Serialise a backup in the given format
+ */
+export const serializeBackup = (backup: TrainingBackup, format: ExportFormat): string => {
+  switch (format) {
+    case 'csv':
+      return toCSV(backup);
+    case 'tcx':
+      return toTCX(backup);
+    default:
+      return toJSON(backup);
+  }
+};
+
+/**
+ * File name for an export, e.g. "fitnease-export-2026-10-19.json"
+ */
+export const getExportFileName = (format: ExportFormat, date: Date = new Date()): string =>
+  `fitnease-export-${formatDateToISO(date)}.${EXPORT_FORMATS[format].extension}`;
+
+/**
+ * Number of records per data type in a backup
+ */
+export const getBackupCounts = (backup: TrainingBackup): Partial<Record<ExportDataType, number>> => {
+  const counts: Partial<Record<ExportDataType, number>> = {};
+  (Object.keys(backup.data) as ExportDataType[]).forEach((key) => {
+    counts[key] = backup.data[key]?.length || 0;
+  });
+  return counts;
+};
+
+/**
+ * Parse and validate a JSON backup
+ * @throws Error with a user-facing message when the file isn't a FitNEase backup
+ */
+export const parseBackup = (text: string): TrainingBackup => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON. Only JSON backups can be imported.');
+  }
+
+  if (!parsed || parsed.app !== 'FitNEase' || typeof parsed.data !== 'object' || parsed.data === null) {
+    throw new Error('This file is not a FitNEase backup.');
+  }
+  if (typeof parsed.schemaVersion !== 'number' || parsed.schemaVersion > EXPORT_SCHEMA_VERSION) {
+    throw new Error('This backup was made by a newer version of FitNEase. Update the app and try again.');
+  }
+
+  const invalid = Object.entries(parsed.data).find(([, value]) => !Array.isArray(value));
+  if (invalid) {
+    throw new Error(`The backup's "${invalid[0]}" section is damaged.`);
+  }
+
+  return parsed as TrainingBackup;
+};
@@ -138,4 +138,23 @@ export const getDateLimits = () => {
     minDate,
     maxDate,
   };
-};
\ No newline at end of file
+};
+
+/**
+ * Short relative time for feeds and lists ("5m ago", "Yesterday")
+ * @param dateString - ISO datetime string
+ * @returns string - Relative time, or the date for anything older than a week
+ */
+export const formatTimeAgo = (dateString: string): string => {
+  const date = new Date(dateString);
+  const diffMins = Math.floor((Date.now() - date.getTime()) / 60000);
+  const diffHours = Math.floor(diffMins / 60);
+  const diffDays = Math.floor(diffHours / 24);
+
+  if (diffMins < 1) return 'Just now';
+  if (diffMins < 60) return `${diffMins}m ago`;
+  if (diffHours < 24) return `${diffHours}h ago`;
+  if (diffDays === 1) return 'Yesterday';
+  if (diffDays < 7) return `${diffDays}d ago`;
+  return date.toLocaleDateString();
+};
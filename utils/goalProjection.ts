@@ -0,0 +1,214 @@
+/**
+ * Goal Progress Utility Functions
+ * On-device progress, milestone and completion-date projection for personal goals
+ */
+
+import type { Goal, GoalMilestone, GoalType } from '../services/microservices/trackingService';
+import { GOAL_TYPES, GOAL_MILESTONE_STEPS, TrackedGoalType } from '../constants/goals';
+import { formatDateToISO } from './dateUtils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A projection this many days before the deadline counts as "ahead"
+const AHEAD_MARGIN_DAYS = 7;
+
+// Cumulative goals need this long before an empty record counts as falling behind
+const MIN_DAYS_FOR_PACE = 3;
+
+export type GoalStatus = 'completed' | 'ahead' | 'on-track' | 'behind' | 'no-data';
+
+export interface GoalDataPoint {
+  date: string;
+  value: number;
+}
+
+export interface GoalProjection {
+  status: GoalStatus;
+  percentage: number;
+  projectedDate: Date | null;
+  ratePerWeek: number | null; // Current pace, in goal units per week
+  requiredRatePerWeek: number | null; // Pace needed to finish on the target date
+}
+
+export interface GoalSources {
+  workoutHistory: { date: string; duration: number }[];
+  weight?: number | null;
+}
+
+/**
+ * Whether progress on a goal means the value going down (e.g. body weight)
+ */
+export const isDecreasingGoal = (goal: Pick<Goal, 'type' | 'startValue' | 'targetValue'>): boolean => {
+  if (goal.type === 'weight-loss') return true;
+  return goal.startValue !== undefined && goal.startValue > goal.targetValue;
+};
+
+/**
+ * Whether the wizard and automatic progress updates support this goal type
+ */
+export const isTrackedGoalType = (type: GoalType): type is TrackedGoalType => type in GOAL_TYPES;
+
+/**
+ * Percentage of the way from the starting value to the target (0-100)
+ * @param goal - Goal with current, target and optional start values
+ * @returns number - Clamped completion percentage
+ */
+export const getGoalPercentage = (goal: Pick<Goal, 'type' | 'startValue' | 'targetValue' | 'currentValue'>): number => {
+  const decreasing = isDecreasingGoal(goal);
+  // A weight goal with no reading yet has nothing to compare against
+  if (decreasing && goal.currentValue <= 0) return 0;
+
+  const start = goal.startValue ?? (decreasing ? goal.currentValue : 0);
+  const span = decreasing ? start - goal.targetValue : goal.targetValue - start;
+  if (span <= 0) return 100;
+
+  const done = decreasing ? start - goal.currentValue : goal.currentValue - start;
+  return Math.max(0, Math.min(100, (done / span) * 100));
+};
+
+/**
+ * Whether a milestone has been passed, using the goal's current value
+ * so milestones tick over before the server catches up
+ */
+export const isMilestoneReached = (goal: Goal, milestone: GoalMilestone): boolean => {
+  if (milestone.isCompleted) return true;
+  if (isDecreasingGoal(goal)) return goal.currentValue > 0 && goal.currentValue <= milestone.value;
+  return goal.currentValue >= milestone.value;
+};
+
+/**
+ * Compute a goal's current value from completed workouts and the latest weight
+ * @param goal - Goal to compute the value for
+ * @param sources - Workout history and latest logged weight
+ * @returns number | null - New current value, or null when the goal type isn't tracked automatically
+ */
+export const computeGoalCurrentValue = (goal: Goal, sources: GoalSources): number | null => {
+  const startTime = new Date(goal.startDate).getTime();
+  const sinceStart = sources.workoutHistory.filter((w) => new Date(w.date).getTime() >= startTime);
+
+  switch (goal.type) {
+    case 'weight-loss':
+      return sources.weight ? Math.round(sources.weight * 10) / 10 : null;
+    case 'endurance':
+      return sinceStart.reduce((sum, w) => sum + (w.duration || 0), 0);
+    case 'frequency':
+      return sinceStart.length;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Least-squares slope of a series, in value units per day
+ */
+const getDailySlope = (points: GoalDataPoint[]): number | null => {
+  if (points.length < 2) return null;
+
+  const origin = new Date(points[0].date).getTime();
+  const xs = points.map((p) => (new Date(p.date).getTime() - origin) / DAY_MS);
+  const ys = points.map((p) => p.value);
+  const meanX = xs.reduce((a, b) => a + b, 0) / xs.length;
+  const meanY = ys.reduce((a, b) => a + b, 0) / ys.length;
+
+  let numerator = 0;
+  let denominator = 0;
+  xs.forEach((x, i) => {
+    numerator += (x - meanX) * (ys[i] - meanY);
+    denominator += (x - meanX) * (x - meanX);
+  });
+
+  // All readings on the same day — no trend to draw
+  if (denominator === 0) return null;
+  return numerator / denominator;
+};
+
+/**
+ * Project when a goal will be reached at the current pace and compare it to the deadline.
+ * Weight goals fit a trend line through the logged weights; cumulative goals
+ * (minutes, workouts) use the average pace since the goal started.
+ * @param goal - Goal to project
+ * @param history - Logged values for decreasing goals (e.g. weight entries), any order
+ * @param now - Reference time, for deterministic callers
+ * @returns GoalProjection - Status, projected date and paces
+ */
+export const projectGoalCompletion = (goal: Goal, history: GoalDataPoint[] = [], now: Date = new Date()): GoalProjection => {
+  const percentage = getGoalPercentage(goal);
+  const targetTime = new Date(goal.targetDate).getTime();
+  const weeksLeft = Math.max((targetTime - now.getTime()) / (7 * DAY_MS), 1 / 7);
+  const decreasing = isDecreasingGoal(goal);
+  const remaining = Math.abs(goal.targetValue - goal.currentValue);
+
+  if (percentage >= 100) {
+    return { status: 'completed', percentage, projectedDate: null, ratePerWeek: null, requiredRatePerWeek: null };
+  }
+
+  const requiredRatePerWeek = remaining / weeksLeft;
+  let dailyRate: number | null = null;
+
+  if (decreasing) {
+    const startTime = new Date(goal.startDate).getTime();
+    const points = history
+      .filter((p) => new Date(p.date).getTime() >= startTime)
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    const slope = getDailySlope(points);
+    // Progress is a falling value, so flip the sign to get a positive pace
+    dailyRate = slope === null ? null : -slope;
+  } else {
+    const daysElapsed = (now.getTime() - new Date(goal.startDate).getTime()) / DAY_MS;
+    const done = goal.currentValue - (goal.startValue ?? 0);
+    if (daysElapsed >= MIN_DAYS_FOR_PACE || done > 0) {
+      dailyRate = done / Math.max(daysElapsed, 1);
+    }
+  }
+
+  if (dailyRate === null) {
+    return { status: 'no-data', percentage, projectedDate: null, ratePerWeek: null, requiredRatePerWeek };
+  }
+
+  const ratePerWeek = dailyRate * 7;
+  if (dailyRate <= 0) {
+    // Flat or moving away from the target — it will never be reached at this pace
+    return { status: 'behind', percentage, projectedDate: null, ratePerWeek, requiredRatePerWeek };
+  }
+
+  const projectedDate = new Date(now.getTime() + (remaining / dailyRate) * DAY_MS);
+  const marginDays = (targetTime - projectedDate.getTime()) / DAY_MS;
+  const status: GoalStatus = marginDays >= AHEAD_MARGIN_DAYS ? 'ahead' : marginDays >= 0 ? 'on-track' : 'behind';
+
+  return { status, percentage, projectedDate, ratePerWeek, requiredRatePerWeek };
+};
+
+/**
+ * Format a goal value with its unit ("72.5 kg", "300 min", "12 workouts")
+ */
+export const formatGoalValue = (type: GoalType, value: number, unit?: string): string => {
+  const displayUnit = unit || (isTrackedGoalType(type) ? GOAL_TYPES[type].unit : '');
+  const rounded = type === 'weight-loss' ? value.toFixed(1) : String(Math.round(value));
+  return displayUnit ? `${rounded} ${displayUnit}` : rounded;
+};
+
+/**
+ * Evenly spaced milestones between the starting value and the target
+ * @returns Milestones ready to send with a CreateGoalRequest
+ */
+export const buildGoalMilestones = (
+  type: TrackedGoalType,
+  startValue: number,
+  targetValue: number,
+  startDate: Date,
+  targetDate: Date
+): Omit<GoalMilestone, 'id' | 'isCompleted'>[] => {
+  const span = targetDate.getTime() - startDate.getTime();
+
+  return GOAL_MILESTONE_STEPS.map((step) => {
+    const raw = startValue + (targetValue - startValue) * step;
+    const value = type === 'weight-loss' ? Math.round(raw * 10) / 10 : Math.round(raw);
+    const label = type === 'weight-loss' ? `Reach ${formatGoalValue(type, value)}` : `${formatGoalValue(type, value)} done`;
+
+    return {
+      title: `${Math.round(step * 100)}% · ${label}`,
+      value,
+      targetDate: formatDateToISO(new Date(startDate.getTime() + span * step)),
+    };
+  });
+};
@@ -0,0 +1,212 @@
+/**
+ * Heart Rate Utility Functions
+ * Zone maths, per-session summaries and parsers for strap packets and watch exports
+ */
+
+import type { HeartRateData } from '../services/microservices/trackingService';
+import type { IntervalPhase } from '../services/intervalTimerEngine';
+import {
+  DEFAULT_AGE,
+  HEART_RATE_ZONES,
+  HeartRateSourceKind,
+  HeartRateZone,
+  MAX_SAMPLE_GAP_SECONDS,
+  MAX_VALID_BPM,
+  MIN_VALID_BPM,
+} from '../constants/heartRate';
+import { calculateAge } from './dateUtils';
+
+export interface HeartRateSample {
+  timestamp: number; // ms since epoch
+  bpm: number;
+  source: HeartRateSourceKind;
+}
+
+// Phase/exercise the session entered at `start`, used to attribute samples
+export interface SessionSegmentMark {
+  start: number; // ms since epoch
+  phase: IntervalPhase;
+  exerciseIndex: number;
+}
+
+export interface ExerciseHeartRate {
+  exerciseIndex: number;
+  name: string;
+  averageBpm: number;
+  peakBpm: number;
+}
+
+export interface HeartRateSummary {
+  averageBpm: number;
+  peakBpm: number;
+  maxHeartRate: number;
+  timeInZone: Record<HeartRateZone, number>; // seconds
+  exercises: ExerciseHeartRate[];
+}
+
+// Phases that belong to an exercise (its work sets and the breaks after them)
+const EXERCISE_PHASES: IntervalPhase[] = ['work', 'rest', 'roundRest'];
+
+/**
+ * Whether a reading is plausible for a human heart
+ */
+export const isValidHeartRate = (bpm: number): boolean =>
+  Number.isFinite(bpm) && bpm >= MIN_VALID_BPM && bpm <= MAX_VALID_BPM;
+
+/**
+ * Estimate max heart rate with the 220 − age formula
+ */
+export const estimateMaxHeartRate = (dateOfBirth?: string): number => {
+  const age = dateOfBirth ? calculateAge(dateOfBirth) : DEFAULT_AGE;
+  return 220 - (age > 0 && age < 120 ? age : DEFAULT_AGE);
+};
+
+/**
+ * Training zone for a reading, from the share of max heart rate
+ */
+export const getHeartRateZone = (bpm: number, maxHeartRate: number): HeartRateZone => {
+  const percent = (bpm / maxHeartRate) * 100;
+  let zone: HeartRateZone = HEART_RATE_ZONES[0].key;
+  HEART_RATE_ZONES.forEach((z) => {
+    if (percent >= z.minPercent) zone = z.key;
+  });
+  return zone;
+};
+
+/**
+ * Segment the session was in at a point in time (timeline sorted by start)
+ */
+export const findSegmentAt = (timeline: SessionSegmentMark[], timestamp: number): SessionSegmentMark | null => {
+  let current: SessionSegmentMark | null = null;
+  for (const mark of timeline) {
+    if (mark.start > timestamp) break;
+    current = mark;
+  }
+  return current;
+};
+
+const average = (values: number[]) => Math.round(values.reduce((sum, v) => sum + v, 0) / values.length);
+
+/**
+ * Summarise a recording: average/peak, time in each zone and per-exercise averages.
+ * Each sample counts for the time until the next one, capped at MAX_SAMPLE_GAP_SECONDS
+ * so sparse manual pulse checks don't stretch over whole exercises.
+ * @returns null when there are no samples
+ */
+export const summarizeHeartRate = (
+  samples: HeartRateSample[],
+  timeline: SessionSegmentMark[],
+  maxHeartRate: number,
+  exerciseNames: string[],
+  endTime: number
+): HeartRateSummary | null => {
+  if (samples.length === 0) return null;
+
+  const sorted = [...samples].sort((a, b) => a.timestamp - b.timestamp);
+  const timeInZone = HEART_RATE_ZONES.reduce(
+    (acc, zone) => ({ ...acc, [zone.key]: 0 }),
+    {} as Record<HeartRateZone, number>
+  );
+  const byExercise = new Map<number, number[]>();
+
+  sorted.forEach((sample, index) => {
+    const nextTime = index < sorted.length - 1 ? sorted[index + 1].timestamp : endTime;
+    const seconds = Math.max(0, Math.min((nextTime - sample.timestamp) / 1000, MAX_SAMPLE_GAP_SECONDS));
+    timeInZone[getHeartRateZone(sample.bpm, maxHeartRate)] += seconds;
+
+    const segment = findSegmentAt(timeline, sample.timestamp);
+    if (segment && EXERCISE_PHASES.includes(segment.phase)) {
+      byExercise.set(segment.exerciseIndex, [...(byExercise.get(segment.exerciseIndex) || []), sample.bpm]);
+    }
+  });
+
+  const exercises: ExerciseHeartRate[] = Array.from(byExercise.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([exerciseIndex, values]) => ({
+      exerciseIndex,
+      name: exerciseNames[exerciseIndex] || `Exercise ${exerciseIndex + 1}`,
+      averageBpm: average(values),
+      peakBpm: Math.max(...values),
+    }));
+
+  return {
+    averageBpm: average(sorted.map((s) => s.bpm)),
+    peakBpm: Math.max(...sorted.map((s) => s.bpm)),
+    maxHeartRate,
+    timeInZone,
+    exercises,
+  };
+};
+
+/**
+ * Convert samples to the tracking service upload format
+ */
+export const toHeartRateData = (samples: HeartRateSample[], maxHeartRate: number): HeartRateData[] =>
+  samples.map((sample) => ({
+    timestamp: new Date(sample.timestamp).toISOString(),
+    heartRate: sample.bpm,
+    zone: getHeartRateZone(sample.bpm, maxHeartRate),
+  }));
+
+/**
+ * Decode a Bluetooth Heart Rate Measurement (0x2A37) characteristic value.
+ * Bit 0 of the flags byte selects a uint8 or little-endian uint16 reading.
+ * @returns The reading in bpm, or null for a malformed packet
+ */
+export const parseHeartRateMeasurement = (value: Uint8Array): number | null => {
+  if (value.length < 2) return null;
+  const isUint16 = (value[0] & 0x01) === 0x01;
+  if (isUint16) {
+    return value.length >= 3 ? value[1] | (value[2] << 8) : null;
+  }
+  return value[1];
+};
+
+const parseTimestamp = (raw: string): number => {
+  const trimmed = raw.trim().replace(/^"|"$/g, '');
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const numeric = Number(trimmed);
+    // Epoch seconds vs milliseconds
+    return numeric < 1e12 ? numeric * 1000 : numeric;
+  }
+  return new Date(trimmed).getTime();
+};
+
+const parseXMLTrackpoints = (text: string): { timestamp: number; bpm: number }[] => {
+  const points: { timestamp: number; bpm: number }[] = [];
+  const blocks = text.match(/<(Trackpoint|trkpt)\b[\s\S]*?<\/\1>/g) || [];
+  blocks.forEach((block) => {
+    const time = block.match(/<(?:Time|time)>([^<]+)</);
+    // TCX: <HeartRateBpm><Value>n</Value>; GPX: <gpxtpx:hr>n</gpxtpx:hr>
+    const hr = block.match(/<HeartRateBpm[^>]*>\s*<Value>(\d+)/) || block.match(/<(?:\w+:)?hr>(\d+)</);
+    if (time && hr) points.push({ timestamp: parseTimestamp(time[1]), bpm: Number(hr[1]) });
+  });
+  return points;
+};
+
+const parseCSVRows = (text: string): { timestamp: number; bpm: number }[] => {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() && !line.startsWith('#'));
+  if (lines.length < 2) return [];
+
+  const headers = lines[0].toLowerCase().split(',').map((h) => h.trim().replace(/^"|"$/g, ''));
+  const timeColumn = headers.findIndex((h) => h.includes('time') || h === 'date');
+  const hrColumn = headers.findIndex((h) => h === 'hr' || h.includes('heart') || h.includes('bpm'));
+  if (timeColumn === -1 || hrColumn === -1) return [];
+
+  return lines.slice(1).map((line) => {
+    const cells = line.split(',');
+    return { timestamp: parseTimestamp(cells[timeColumn] || ''), bpm: Number(cells[hrColumn]) };
+  });
+};
+
+/**
+ * Read heart-rate samples from a watch export: TCX, GPX (with the Garmin
+ * TrackPointExtension) or a CSV with a time column and an hr/heart rate/bpm column
+ * @returns Valid samples sorted by time; empty when nothing could be read
+ */
+export const parseHeartRateFile = (text: string): { timestamp: number; bpm: number }[] => {
+  const rows = text.trimStart().startsWith('<') ? parseXMLTrackpoints(text) : parseCSVRows(text);
+  return rows
+    .filter((row) => !isNaN(row.timestamp) && isValidHeartRate(row.bpm))
+    .sort((a, b) => a.timestamp - b.timestamp);
+};
@@ -0,0 +1,112 @@
+/**
+ * Notification Utility Functions
+ * Resolves notifications against the registry and groups them for the
+ * notification center
+ */
+
+import type { Notification } from '../services/microservices/commsService';
+import type { QuietHours } from '../services/notificationPreferences';
+import {
+  DEFAULT_NOTIFICATION_SPEC,
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_REGISTRY,
+  NotificationCategory,
+  NotificationSpec,
+} from '../constants/notifications';
+
+export interface NotificationSection {
+  key: string;
+  title: string;
+  data: Notification[];
+}
+
+/**
+ * Look up the registry entry for a notification
+ * @param actionType - action_data.type (or the push payload's `type`), checked first
+ * @param notificationType - notification_type, used when the action type is unknown
+ * @returns NotificationSpec - Falls back to the general spec
+ */
+export const getNotificationSpec = (actionType?: string, notificationType?: string): NotificationSpec =>
+  (actionType && NOTIFICATION_REGISTRY[actionType]) ||
+  (notificationType && NOTIFICATION_REGISTRY[notificationType]) ||
+  DEFAULT_NOTIFICATION_SPEC;
+
+/**
+ * Registry entry for a notification from the comms service
+ * @param notification - Notification with optional action_data
+ * @returns NotificationSpec
+ */
+export const getSpecForNotification = (notification: Notification): NotificationSpec =>
+  getNotificationSpec(notification.action_data?.type, notification.notification_type);
+
+/**
+ * Group notifications into Today / Yesterday / This Week / Earlier
+ * @param notifications - Newest first
+ * @returns NotificationSection[] - Empty sections are dropped
+ */
+export const groupNotificationsByDay = (notifications: Notification[]): NotificationSection[] => {
+  const now = new Date();
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const yesterday = new Date(today);
+  yesterday.setDate(yesterday.getDate() - 1);
+  const weekAgo = new Date(today);
+  weekAgo.setDate(weekAgo.getDate() - 7);
+
+  const sections: NotificationSection[] = [
+    { key: 'today', title: 'Today', data: [] },
+    { key: 'yesterday', title: 'Yesterday', data: [] },
+    { key: 'week', title: 'This Week', data: [] },
+    { key: 'earlier', title: 'Earlier', data: [] },
+  ];
+
+  notifications.forEach((n) => {
+    const d = new Date(n.created_at);
+    if (d >= today) sections[0].data.push(n);
+    else if (d >= yesterday) sections[1].data.push(n);
+    else if (d >= weekAgo) sections[2].data.push(n);
+    else sections[3].data.push(n);
+  });
+
+  return sections.filter((s) => s.data.length > 0);
+};
+
+/**
+ * Group notifications by registry category, in the category display order
+ * @param notifications - Newest first (order is kept within each category)
+ * @returns NotificationSection[] - Empty sections are dropped
+ */
+export const groupNotificationsByCategory = (notifications: Notification[]): NotificationSection[] =>
+  (Object.keys(NOTIFICATION_CATEGORIES) as NotificationCategory[])
+    .map((category) => ({
+      key: category,
+      title: NOTIFICATION_CATEGORIES[category].label,
+      data: notifications.filter((n) => getSpecForNotification(n).category === category),
+    }))
+    .filter((s) => s.data.length > 0);
+
+/**
+ * Parse "HH:MM" into minutes since midnight
+ */
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+/**
+ * Whether a moment falls inside the quiet hours window
+ * @param quietHours - Start/end as "HH:MM"; the window may wrap past midnight
+ * @param date - Moment to check (defaults to now)
+ * @returns boolean
+ */
+export const isWithinQuietHours = (quietHours: QuietHours, date: Date = new Date()): boolean => {
+  if (!quietHours.enabled) return false;
+
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  const current = date.getHours() * 60 + date.getMinutes();
+
+  if (start === end) return false;
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end; // e.g. 22:00 → 07:00
+};
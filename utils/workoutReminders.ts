@@ -0,0 +1,140 @@
+/**
+ * Workout Reminder Utility Functions
+ * Learns when the user usually trains and works out which upcoming days
+ * still need a workout, for the reminder scheduler
+ */
+
+import { addDays, format, startOfDay } from 'date-fns';
+
+// Below this many completed sessions the fixed reminder time is used
+export const MIN_SESSIONS_FOR_LEARNING = 3;
+// A weekday gets its own time once it has this many sessions
+const MIN_SESSIONS_PER_WEEKDAY = 2;
+const TIME_ROUNDING_MINUTES = 15;
+
+export const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export interface PreferredTrainingTime {
+  time: string; // "HH:MM" across all sessions
+  byWeekday: Partial<Record<number, string>>; // 0 = Sunday, only weekdays with enough sessions
+  sampleSize: number;
+}
+
+export interface UpcomingWorkoutDay {
+  date: Date; // Start of the day
+  dayName: string; // Lowercase, e.g. "monday"
+  exerciseCount: number; // 0 when only known from the user's workout days
+  completed: boolean;
+  fromPlan: boolean; // false when the day falls outside the loaded weekly plan
+}
+
+/**
+ * Format minutes since midnight as "HH:MM"
+ */
+const toTimeString = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+/**
+ * Median minutes since midnight, rounded to the nearest quarter hour
+ */
+const medianMinutes = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  const rounded = Math.round(median / TIME_ROUNDING_MINUTES) * TIME_ROUNDING_MINUTES;
+  return Math.min(rounded, 24 * 60 - TIME_ROUNDING_MINUTES);
+};
+
+/**
+ * Learn the user's usual training time from completed session start times
+ * @param startTimes - Session start times (ISO strings or dates)
+ * @returns PreferredTrainingTime | null - null until there are enough sessions
+ */
+export const learnPreferredTrainingTime = (startTimes: (string | Date)[]): PreferredTrainingTime | null => {
+  const starts = startTimes
+    .map((value) => new Date(value))
+    .filter((date) => !isNaN(date.getTime()));
+
+  if (starts.length < MIN_SESSIONS_FOR_LEARNING) return null;
+
+  const byWeekday: Partial<Record<number, string>> = {};
+  for (let weekday = 0; weekday < 7; weekday++) {
+    const samples = starts
+      .filter((date) => date.getDay() === weekday)
+      .map((date) => date.getHours() * 60 + date.getMinutes());
+    if (samples.length >= MIN_SESSIONS_PER_WEEKDAY) {
+      byWeekday[weekday] = toTimeString(medianMinutes(samples));
+    }
+  }
+
+  return {
+    time: toTimeString(medianMinutes(starts.map((date) => date.getHours() * 60 + date.getMinutes()))),
+    byWeekday,
+    sampleSize: starts.length,
+  };
+};
+
+/**
+ * Usual training time for a given day, preferring that weekday's own time
+ * @param preferred - Learned training time
+ * @param date - Day to look up
+ * @returns string - "HH:MM"
+ */
+export const getPreferredTimeForDate = (preferred: PreferredTrainingTime, date: Date): string =>
+  preferred.byWeekday[date.getDay()] || preferred.time;
+
+/**
+ * Copy of a day with the clock set to a "HH:MM" time
+ * @param date - Day to use
+ * @param time - "HH:MM" (24-hour)
+ * @returns Date
+ */
+export const atTime = (date: Date, time: string): Date => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const result = startOfDay(date);
+  result.setHours(hours, minutes || 0, 0, 0);
+  return result;
+};
+
+/**
+ * Upcoming days that need a workout, from the weekly plan where it covers the
+ * day and from the user's workout days otherwise
+ * @param plan - Current weekly plan (plan_data keyed by lowercase day name), or null
+ * @param workoutDays - User's workout days (any casing)
+ * @param completedDates - "yyyy-MM-dd" dates with a completed session
+ * @param from - First day to include
+ * @param days - Number of days to look ahead, including the first
+ * @returns UpcomingWorkoutDay[] - Rest days are left out
+ */
+export const getUpcomingWorkoutDays = (
+  plan: any,
+  workoutDays: string[],
+  completedDates: string[],
+  from: Date = new Date(),
+  days: number = 7
+): UpcomingWorkoutDay[] => {
+  const preferredDays = workoutDays.map((day) => day.toLowerCase());
+  const completed = new Set(completedDates);
+  const weekStart = plan?.week_start_date ? new Date(`${String(plan.week_start_date).slice(0, 10)}T00:00:00`) : null;
+  const weekEnd = plan?.week_end_date ? new Date(`${String(plan.week_end_date).slice(0, 10)}T00:00:00`) : null;
+
+  const upcoming: UpcomingWorkoutDay[] = [];
+
+  for (let offset = 0; offset < days; offset++) {
+    const date = startOfDay(addDays(from, offset));
+    const dayName = DAY_NAMES[date.getDay()];
+    const dateKey = format(date, 'yyyy-MM-dd');
+    const inPlanWeek = !!plan?.plan_data && (!weekStart || !weekEnd || (date >= weekStart && date <= weekEnd));
+
+    if (inPlanWeek) {
+      const exerciseCount = plan.plan_data[dayName]?.exercises?.length || 0;
+      if (exerciseCount === 0) continue;
+
+      upcoming.push({ date, dayName, exerciseCount, completed: completed.has(dateKey), fromPlan: true });
+    } else if (preferredDays.includes(dayName)) {
+      upcoming.push({ date, dayName, exerciseCount: 0, completed: completed.has(dateKey), fromPlan: false });
+    }
+  }
+
+  return upcoming;
+};